@@ -0,0 +1,217 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import type { AccountOrder } from '@/lib/account/data';
+import type { TrackingResult } from '@/lib/canada-post/tracking';
+import { formatCad as fmt } from '@/lib/currency/format';
+
+
+const STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  preorder: { label: 'Pre-order', className: 'bg-amber-50 text-amber-700' },
+  paid: { label: 'Order placed', className: 'bg-blue-50 text-blue-700' },
+  processing: { label: 'Preparing', className: 'bg-amber-50 text-amber-700' },
+  ready_for_pickup: { label: 'Ready for pickup', className: 'bg-teal-50 text-teal-700' },
+  shipped: { label: 'Shipped', className: 'bg-purple-50 text-purple-700' },
+  delivered: { label: 'Delivered', className: 'bg-green-50 text-green-700' },
+  archived: { label: 'Delivered', className: 'bg-green-50 text-green-700' },
+  refunded: { label: 'Refunded', className: 'bg-warm-100 text-warm-500' },
+};
+
+interface AccountOrdersProps {
+  orders: AccountOrder[];
+  reviewedOrders: string[];
+}
+
+export function AccountOrders({ orders, reviewedOrders }: AccountOrdersProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [tracking, setTracking] = useState<Record<string, TrackingResult[] | 'loading' | 'error'>>({});
+
+  const loadTracking = async (orderId: string) => {
+    if (tracking[orderId] && tracking[orderId] !== 'error') return;
+    setTracking(prev => ({ ...prev, [orderId]: 'loading' }));
+    try {
+      const res = await fetch(`/api/account/tracking?order_id=${orderId}`);
+      const data = await res.json();
+      setTracking(prev => ({ ...prev, [orderId]: res.ok && data.parcels ? data.parcels : 'error' }));
+    } catch {
+      setTracking(prev => ({ ...prev, [orderId]: 'error' }));
+    }
+  };
+
+  const toggle = (order: AccountOrder) => {
+    const next = expandedId === order.id ? null : order.id;
+    setExpandedId(next);
+    if (next && order.tracking_codes.length > 0 && order.status === 'shipped') loadTracking(order.id);
+  };
+
+  if (orders.length === 0) {
+    return (
+      <div className="bg-white rounded-xl border border-warm-200 p-8 text-center">
+        <p className="text-sm text-text-secondary mb-4">No orders yet.</p>
+        <Link
+          href="/#shop"
+          className="inline-block font-display text-xs font-bold uppercase tracking-wider bg-charcoal-deep text-white px-5 py-2.5 rounded-lg hover:bg-charcoal-light transition-colors"
+        >
+          Start shopping
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {orders.map(order => {
+        const statusKey = order.refund_status === 'refunded' ? 'refunded' : order.status;
+        const status = STATUS_LABELS[statusKey] || { label: statusKey, className: 'bg-warm-100 text-warm-500' };
+        const expanded = expandedId === order.id;
+        const items = order.items || [];
+        const itemCount = items.reduce((sum, i) => sum + (i.qty || 1), 0);
+        const live = tracking[order.id];
+        const canReview = ['shipped', 'delivered', 'archived'].includes(order.status)
+          && !reviewedOrders.includes(order.order_number);
+
+        return (
+          <div key={order.id} className="bg-white rounded-xl border border-warm-200 overflow-hidden">
+            <button
+              onClick={() => toggle(order)}
+              className="w-full flex items-center justify-between gap-4 p-4 text-left hover:bg-off-white transition-colors"
+            >
+              <div>
+                <p className="font-display text-sm font-bold text-text-primary">{order.order_number}</p>
+                <p className="text-xs text-text-secondary">
+                  {new Date(order.created_at).toLocaleDateString('en-CA', { year: 'numeric', month: 'short', day: 'numeric' })}
+                  {' · '}{itemCount} item{itemCount === 1 ? '' : 's'}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded ${status.className}`}>
+                  {status.label}
+                </span>
+                <span className="font-display text-sm font-bold text-text-primary">{fmt(order.total)}</span>
+              </div>
+            </button>
+
+            {expanded && (
+              <div className="border-t border-warm-100 p-4 space-y-4">
+                {/* Items */}
+                <div className="space-y-2">
+                  {items.map((item, idx) => (
+                    <div key={idx} className="flex items-center gap-3">
+                      {item.image && (
+                        <img src={item.image} alt={item.name || ''} className="w-12 h-12 rounded-lg object-cover bg-warm-100" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-text-primary truncate">{item.name}</p>
+                        <p className="text-xs text-text-secondary">
+                          {[item.color, item.size].filter(Boolean).join(' / ')}
+                          {(item.qty || 1) > 1 ? ` · x${item.qty}` : ''}
+                        </p>
+                      </div>
+                      <span className="text-sm text-text-primary">
+                        {fmt(item.paid ?? (item.price || 0) * (item.qty || 1))}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+
+                {/* Totals */}
+                <div className="text-xs text-text-secondary space-y-1 border-t border-warm-100 pt-3">
+                  <div className="flex justify-between">
+                    <span>Shipping</span>
+                    <span>{order.shipping_cost ? fmt(order.shipping_cost) : 'Free'}</span>
+                  </div>
+                  {!!order.tax && (
+                    <div className="flex justify-between">
+                      <span>Tax</span>
+                      <span>{fmt(order.tax)}</span>
+                    </div>
+                  )}
+                  {!!order.refunded_amount && (
+                    <div className="flex justify-between text-red-600">
+                      <span>Refunded</span>
+                      <span>-{fmt(order.refunded_amount)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between font-bold text-text-primary">
+                    <span>Total</span>
+                    <span>{fmt(order.total)}</span>
+                  </div>
+                </div>
+
+                {/* Shipping address */}
+                {order.shipping_address && (
+                  <div className="text-xs text-text-secondary">
+                    <p className="font-display font-bold uppercase tracking-wider text-text-primary mb-1">Ship to</p>
+                    <p>{order.shipping_address.name}</p>
+                    <p>
+                      {[order.shipping_address.street, order.shipping_address.apartment].filter(Boolean).join(', ')}
+                    </p>
+                    <p>
+                      {order.shipping_address.city} {order.shipping_address.province} {order.shipping_address.postal_code}
+                    </p>
+                  </div>
+                )}
+
+                {/* Tracking — one block per parcel */}
+                {order.tracking_codes.length > 0 && (
+                  <div className="text-xs text-text-secondary">
+                    <p className="font-display font-bold uppercase tracking-wider text-text-primary mb-1">Tracking</p>
+                    {live === 'loading' && <p className="mb-1">Checking Canada Post…</p>}
+                    {live === 'error' && <p className="mb-1">Live tracking is unavailable right now.</p>}
+                    <div className="space-y-3">
+                      {order.tracking_codes.map((pin, idx) => {
+                        const parcel = Array.isArray(live) ? live[idx] : undefined;
+                        return (
+                          <div key={pin}>
+                            {order.tracking_codes.length > 1 && (
+                              <span className="text-text-primary">Parcel {idx + 1} of {order.tracking_codes.length}: </span>
+                            )}
+                            <a
+                              href={`https://www.canadapost-postescanada.ca/track-reperage/en#/search?searchFor=${pin}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="font-mono text-amber-dark hover:underline"
+                            >
+                              {pin}
+                            </a>
+                            {parcel?.found && (
+                              <div className="mt-2 space-y-1">
+                                <p className="text-text-primary">
+                                  {parcel.latestStatus}
+                                  {parcel.latestLocation ? ` — ${parcel.latestLocation}` : ''}
+                                </p>
+                                {parcel.expectedDeliveryDate && <p>Expected delivery: {parcel.expectedDeliveryDate}</p>}
+                                {(parcel.events || []).slice(1).map((e, i) => (
+                                  <p key={i} className="text-warm-400">
+                                    {e.date} — {e.description}{e.location ? ` (${e.location})` : ''}
+                                  </p>
+                                ))}
+                              </div>
+                            )}
+                            {parcel && !parcel.found && (
+                              <p className="mt-1">{parcel.error || 'No tracking updates yet.'}</p>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
+                {canReview && (
+                  <Link
+                    href={`/review/${encodeURIComponent(order.order_number)}`}
+                    className="inline-block font-display text-xs font-bold uppercase tracking-wider text-amber-dark hover:underline"
+                  >
+                    Leave a review &rarr;
+                  </Link>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
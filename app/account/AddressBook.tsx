@@ -0,0 +1,179 @@
+'use client';
+
+import { useState } from 'react';
+import { PROVINCES } from '@/lib/stripe-config';
+import { formatPostalCode } from '@/lib/checkout/postal-utils';
+import { formatAddressLine } from '@/lib/account/addresses';
+import type { Address } from '@/types';
+
+const EMPTY_FORM = {
+  label: 'Home',
+  full_name: '',
+  street_address: '',
+  apartment: '',
+  city: '',
+  province: 'ON',
+  postal_code: '',
+  phone: '',
+  is_default: false,
+};
+
+type AddressForm = typeof EMPTY_FORM;
+
+const INPUT = 'w-full px-3 py-2 rounded-lg border border-warm-200 bg-white text-sm text-text-primary focus:outline-none focus:border-amber-dark';
+
+export function AddressBook({ initialAddresses }: { initialAddresses: Address[] }) {
+  const [addresses, setAddresses] = useState<Address[]>(initialAddresses);
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [form, setForm] = useState<AddressForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const refresh = async () => {
+    const res = await fetch('/api/account/addresses');
+    if (res.ok) setAddresses((await res.json()).addresses || []);
+  };
+
+  const startEdit = (address?: Address) => {
+    setError('');
+    if (!address) {
+      setForm({ ...EMPTY_FORM, is_default: addresses.length === 0 });
+      setEditingId('new');
+      return;
+    }
+    setForm({
+      label: address.label,
+      full_name: address.full_name,
+      street_address: address.street_address,
+      apartment: address.apartment || '',
+      city: address.city,
+      province: address.province,
+      postal_code: address.postal_code,
+      phone: address.phone || '',
+      is_default: address.is_default,
+    });
+    setEditingId(address.id);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const isNew = editingId === 'new';
+      const res = await fetch(isNew ? '/api/account/addresses' : `/api/account/addresses/${editingId}`, {
+        method: isNew ? 'POST' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Could not save address');
+        return;
+      }
+      setEditingId(null);
+      await refresh();
+    } catch {
+      setError('Network error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (id: string) => {
+    if (!confirm('Delete this address?')) return;
+    const res = await fetch(`/api/account/addresses/${id}`, { method: 'DELETE' });
+    if (res.ok) await refresh();
+  };
+
+  const makeDefault = async (id: string) => {
+    const res = await fetch(`/api/account/addresses/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ is_default: true }),
+    });
+    if (res.ok) await refresh();
+  };
+
+  const set = (key: keyof AddressForm, value: string | boolean) => setForm(prev => ({ ...prev, [key]: value }));
+
+  return (
+    <div className="space-y-3">
+      {addresses.length === 0 && editingId !== 'new' && (
+        <p className="text-sm text-text-secondary">No saved addresses.</p>
+      )}
+
+      {addresses.map(address => (
+        editingId === address.id ? null : (
+          <div key={address.id} className="bg-white rounded-xl border border-warm-200 p-4 flex items-start justify-between gap-4">
+            <div className="text-sm">
+              <p className="font-display font-bold text-text-primary">
+                {address.label}
+                {address.is_default && (
+                  <span className="ml-2 text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded bg-amber-50 text-amber-700">
+                    Default
+                  </span>
+                )}
+              </p>
+              <p className="text-text-secondary">{address.full_name}</p>
+              <p className="text-text-secondary">{formatAddressLine(address)}</p>
+              {address.phone && <p className="text-text-secondary">{address.phone}</p>}
+            </div>
+            <div className="flex flex-col items-end gap-1 text-xs">
+              <button onClick={() => startEdit(address)} className="text-amber-dark hover:underline">Edit</button>
+              {!address.is_default && (
+                <button onClick={() => makeDefault(address.id)} className="text-text-secondary hover:underline">Make default</button>
+              )}
+              <button onClick={() => remove(address.id)} className="text-red-600 hover:underline">Delete</button>
+            </div>
+          </div>
+        )
+      ))}
+
+      {editingId ? (
+        <div className="bg-white rounded-xl border border-warm-200 p-4 space-y-3">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <input className={INPUT} placeholder="Label (Home, Work…)" value={form.label} onChange={e => set('label', e.target.value)} />
+            <input className={INPUT} placeholder="Full name" value={form.full_name} onChange={e => set('full_name', e.target.value)} />
+            <input className={`${INPUT} sm:col-span-2`} placeholder="Street address" value={form.street_address} onChange={e => set('street_address', e.target.value)} />
+            <input className={INPUT} placeholder="Apartment (optional)" value={form.apartment} onChange={e => set('apartment', e.target.value)} />
+            <input className={INPUT} placeholder="City" value={form.city} onChange={e => set('city', e.target.value)} />
+            <select className={INPUT} value={form.province} onChange={e => set('province', e.target.value)}>
+              {PROVINCES.map(p => (
+                <option key={p.code} value={p.code}>{p.name}</option>
+              ))}
+            </select>
+            <input className={INPUT} placeholder="Postal code" value={form.postal_code} onChange={e => set('postal_code', formatPostalCode(e.target.value))} />
+            <input className={INPUT} placeholder="Phone (optional)" value={form.phone} onChange={e => set('phone', e.target.value)} />
+          </div>
+          <label className="flex items-center gap-2 text-xs text-text-secondary">
+            <input type="checkbox" checked={form.is_default} onChange={e => set('is_default', e.target.checked)} />
+            Use as my default address
+          </label>
+          {error && <p className="text-xs text-red-500">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={save}
+              disabled={saving}
+              className="font-display text-xs font-bold uppercase tracking-wider bg-charcoal-deep text-white px-4 py-2 rounded-lg hover:bg-charcoal-light disabled:opacity-50"
+            >
+              {saving ? 'Saving…' : 'Save address'}
+            </button>
+            <button
+              onClick={() => setEditingId(null)}
+              className="font-display text-xs font-bold uppercase tracking-wider text-text-secondary px-4 py-2"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => startEdit()}
+          className="font-display text-xs font-bold uppercase tracking-wider text-amber-dark hover:underline"
+        >
+          + Add address
+        </button>
+      )}
+    </div>
+  );
+}
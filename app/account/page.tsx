@@ -0,0 +1,168 @@
+import type { Metadata } from 'next';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { Navbar } from '@/components/shop/Navbar';
+import { Footer } from '@/components/shop/Footer';
+import { createClient } from '@/lib/supabase/server';
+import {
+  claimGuestOrders,
+  getAccountOrders,
+  getAccountPromoCodes,
+  getAccountReviews,
+} from '@/lib/account/data';
+import { describePromo, ruleFromRow } from '@/lib/promo/rules';
+import type { Address } from '@/types';
+import { AccountOrders } from './AccountOrders';
+import { AddressBook } from './AddressBook';
+
+export const metadata: Metadata = {
+  title: 'My Account | OnSite Club Canada',
+  robots: { index: false, follow: false },
+};
+
+// Per-user page — never cache
+export const dynamic = 'force-dynamic';
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString('en-CA', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+export default async function AccountPage() {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) redirect('/login?return=/account');
+
+  // Guest orders placed with this (confirmed) email join the account first
+  await claimGuestOrders(user);
+
+  const [orders, promoCodes, { data: addresses }] = await Promise.all([
+    getAccountOrders(user),
+    getAccountPromoCodes(user),
+    supabase
+      .from('app_shop_addresses')
+      .select('*')
+      .order('is_default', { ascending: false })
+      .order('created_at', { ascending: true }),
+  ]);
+  const reviews = await getAccountReviews(orders.map(o => o.order_number));
+  const reviewedOrders = reviews.map(r => r.order_number);
+
+  const firstName = user.user_metadata?.first_name || '';
+  const now = Date.now();
+
+  return (
+    <div className="min-h-screen bg-[#F3F2EF]">
+      <Navbar />
+
+      <main className="pt-[72px]">
+        <div className="max-w-4xl mx-auto px-6 py-12">
+          {/* Header */}
+          <div className="mb-10">
+            <span className="font-display text-[11px] font-bold tracking-[0.15em] uppercase text-amber-dark block mb-2">
+              My Account
+            </span>
+            <h1 className="font-display font-extrabold text-3xl text-text-primary tracking-tight">
+              {firstName ? `Hey, ${firstName}` : 'Welcome back'}
+            </h1>
+            <p className="text-sm text-text-secondary mt-1">{user.email}</p>
+            {!user.email_confirmed_at && (
+              <p className="text-xs text-amber-dark mt-3">
+                Confirm your email to see orders you placed before signing up.
+              </p>
+            )}
+          </div>
+
+          {/* Orders */}
+          <section className="mb-12">
+            <h2 className="font-display text-sm font-bold uppercase tracking-wider text-text-primary mb-4">
+              Orders
+            </h2>
+            <AccountOrders orders={orders} reviewedOrders={reviewedOrders} />
+          </section>
+
+          {/* Promo codes */}
+          <section className="mb-12">
+            <h2 className="font-display text-sm font-bold uppercase tracking-wider text-text-primary mb-4">
+              Promo Codes
+            </h2>
+            {promoCodes.length === 0 ? (
+              <p className="text-sm text-text-secondary">No promo codes yet.</p>
+            ) : (
+              <div className="grid gap-3 sm:grid-cols-2">
+                {promoCodes.map(promo => {
+                  const expired = !!promo.expires_at && new Date(promo.expires_at).getTime() < now;
+                  const state = promo.used_at ? 'Used' : expired ? 'Expired' : 'Active';
+                  return (
+                    <div
+                      key={promo.code}
+                      className={`bg-white rounded-xl border border-warm-200 p-4 ${state !== 'Active' ? 'opacity-60' : ''}`}
+                    >
+                      <div className="flex items-center justify-between mb-1">
+                        <span className="font-mono text-lg font-bold tracking-widest text-text-primary">{promo.code}</span>
+                        <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded ${
+                          state === 'Active' ? 'bg-green-100 text-green-700' : 'bg-warm-100 text-warm-500'
+                        }`}>
+                          {state}
+                        </span>
+                      </div>
+                      <p className="text-xs text-text-secondary">
+                        {describePromo(ruleFromRow(promo))}
+                        {promo.notes === 'welcome_promo' ? ' · Welcome gift' : ''}
+                      </p>
+                      {promo.expires_at && state === 'Active' && (
+                        <p className="text-[11px] text-warm-400 mt-1">Valid until {formatDate(promo.expires_at)}</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </section>
+
+          {/* Reviews */}
+          <section className="mb-12">
+            <h2 className="font-display text-sm font-bold uppercase tracking-wider text-text-primary mb-4">
+              My Reviews
+            </h2>
+            {reviews.length === 0 ? (
+              <p className="text-sm text-text-secondary">You haven&apos;t reviewed any orders yet.</p>
+            ) : (
+              <div className="space-y-3">
+                {reviews.map(review => (
+                  <div key={review.id} className="bg-white rounded-xl border border-warm-200 p-4">
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-amber-dark tracking-wider">
+                        {'★'.repeat(review.rating)}
+                        <span className="text-warm-300">{'★'.repeat(5 - review.rating)}</span>
+                      </span>
+                      <span className="text-[11px] text-warm-400">
+                        {review.order_number} · {formatDate(review.created_at)}
+                        {review.status !== 'approved' ? ` · ${review.status}` : ''}
+                      </span>
+                    </div>
+                    {review.title && <p className="font-display text-sm font-bold text-text-primary">{review.title}</p>}
+                    {review.comment && <p className="text-sm text-text-secondary mt-1">{review.comment}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          {/* Addresses */}
+          <section className="mb-12">
+            <h2 className="font-display text-sm font-bold uppercase tracking-wider text-text-primary mb-4">
+              Saved Addresses
+            </h2>
+            <AddressBook initialAddresses={(addresses || []) as Address[]} />
+          </section>
+
+          <Link href="/" className="text-sm text-text-secondary hover:text-text-primary">
+            &larr; Back to shop
+          </Link>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { DISPLAY_CURRENCIES, formatMoney, type CurrencyRates } from '@/lib/currency/format';
+
+interface RateRow {
+  currency: string;
+  rate: number;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+// Sample price shown next to each rate so a typo is obvious before saving
+const SAMPLE_CENTS = 3500;
+
+export default function CurrencyPage() {
+  const [user, setUser] = useState<any>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Rates
+  const [rows, setRows] = useState<RateRow[]>([]);
+  const [defaults, setDefaults] = useState<CurrencyRates | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+
+  // Toast
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const supabase = createClient();
+
+  useEffect(() => {
+    checkAuth();
+  }, []);
+
+  async function checkAuth() {
+    setIsLoading(true);
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) { setIsLoading(false); return; }
+    setUser(user);
+
+    const { data: admin } = await supabase
+      .from('admin_users')
+      .select('*')
+      .eq('email', user.email)
+      .single();
+
+    if (admin) {
+      setIsAdmin(true);
+      await loadRates();
+    }
+    setIsLoading(false);
+  }
+
+  async function loadRates() {
+    try {
+      const res = await fetch('/api/admin/currency');
+      const data = await res.json();
+      if (data.rates) {
+        setRows(data.rates);
+        setDefaults(data.defaults);
+        setDrafts(Object.fromEntries(data.rates.map((r: RateRow) => [r.currency, String(r.rate)])));
+      }
+    } catch {
+      showToast('Failed to load rates', 'error');
+    }
+  }
+
+  function showToast(message: string, type: 'success' | 'error') {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 4000);
+  }
+
+  async function handleSave(currency: string) {
+    const rate = Number(drafts[currency]);
+    if (!Number.isFinite(rate) || rate <= 0) {
+      showToast('Rate must be a positive number', 'error');
+      return;
+    }
+
+    setSaving(currency);
+    try {
+      const res = await fetch('/api/admin/currency', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ currency, rate }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        showToast(`${currency} rate saved`, 'success');
+        await loadRates();
+      } else {
+        showToast('Error: ' + (data.error || 'Unknown'), 'error');
+      }
+    } catch {
+      showToast('Network error', 'error');
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  // Loading
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="flex items-center gap-3">
+          <div className="w-5 h-5 border-2 border-amber border-t-transparent rounded-full animate-spin" />
+          <p className="font-display text-text-primary/60 text-sm">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user || !isAdmin) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <p className="font-display text-text-primary/60 text-sm">Access denied</p>
+      </div>
+    );
+  }
+
+  const editable = DISPLAY_CURRENCIES.filter((c) => c !== 'CAD');
+
+  return (
+    <div>
+      {/* Toast */}
+      {toast && (
+        <div
+          className={`fixed top-4 right-4 z-50 px-5 py-3 rounded-xl shadow-lg font-display text-sm flex items-center gap-2 ${
+            toast.type === 'success'
+              ? 'bg-charcoal-deep text-white'
+              : 'bg-red-500 text-white'
+          }`}
+        >
+          {toast.type === 'success' && <span className="text-amber">●</span>}
+          {toast.message}
+        </div>
+      )}
+
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="font-display text-2xl font-extrabold tracking-tight text-text-primary">
+          Currency
+        </h1>
+        <p className="font-body text-sm text-text-secondary mt-0.5">
+          Display rates for shoppers browsing in other currencies • every order is charged in CAD
+        </p>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-warm-200/60 overflow-hidden max-w-2xl">
+        <div className="px-5 py-4 border-b border-warm-200/60">
+          <h2 className="font-display text-sm font-bold text-text-primary uppercase tracking-wide">
+            Rates per 1 CAD
+          </h2>
+        </div>
+
+        <div className="divide-y divide-warm-100">
+          {editable.map((currency) => {
+            const row = rows.find((r) => r.currency === currency);
+            const draft = Number(drafts[currency]);
+            const preview = Number.isFinite(draft) && draft > 0
+              ? formatMoney(SAMPLE_CENTS, currency, { ...(defaults as CurrencyRates), [currency]: draft })
+              : '—';
+
+            return (
+              <div key={currency} className="flex items-center gap-4 px-5 py-4">
+                <span className="font-display text-sm font-bold text-text-primary w-12">{currency}</span>
+                <input
+                  type="number"
+                  step="0.0001"
+                  min="0"
+                  value={drafts[currency] ?? ''}
+                  placeholder={defaults ? String(defaults[currency]) : ''}
+                  onChange={(e) => setDrafts({ ...drafts, [currency]: e.target.value })}
+                  className="input text-sm w-32"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="font-body text-xs text-text-secondary">
+                    CA$35.00 shows as <span className="font-bold text-text-primary">{preview}</span>
+                  </p>
+                  <p className="font-body text-[10px] text-warm-400 truncate">
+                    {row
+                      ? `Updated ${new Date(row.updated_at).toLocaleDateString('en-CA')}${row.updated_by ? ` by ${row.updated_by}` : ''}`
+                      : 'Not set — using the built-in default'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleSave(currency)}
+                  disabled={saving === currency || !drafts[currency]}
+                  className="font-display text-[11px] font-bold py-1.5 px-3 rounded-full bg-amber/10 text-amber-dark hover:bg-amber/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  {saving === currency ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="px-5 py-3 bg-warm-50 border-t border-warm-200/60">
+          <p className="font-display text-[10px] text-warm-400">
+            Shoppers may take up to a few hours to pick up a new rate. At checkout Stripe converts at its own rate.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
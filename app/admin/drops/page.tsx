@@ -0,0 +1,435 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import type { DropEntry, DropTable } from '@/lib/catalog/drops';
+import type { DropState } from '@/lib/catalog/schedule';
+
+type EventKind = 'early_access' | 'publish' | 'unpublish';
+
+interface CalendarEvent {
+  kind: EventKind;
+  at: Date;
+  entry: DropEntry;
+}
+
+const EVENT_STYLES: Record<EventKind, { label: string; className: string }> = {
+  early_access: { label: 'Early', className: 'bg-purple-50 text-purple-700' },
+  publish: { label: 'Drop', className: 'bg-amber/15 text-amber-dark' },
+  unpublish: { label: 'End', className: 'bg-warm-100 text-warm-500' },
+};
+
+const STATE_LABELS: Record<DropState, { label: string; className: string }> = {
+  scheduled: { label: 'Scheduled', className: 'bg-amber/10 text-amber-dark' },
+  early_access: { label: 'Early access', className: 'bg-purple-50 text-purple-700' },
+  live: { label: 'Live', className: 'bg-green-50 text-green-700' },
+  ended: { label: 'Ended', className: 'bg-warm-100 text-warm-500' },
+};
+
+const TABLE_LABELS: Record<DropTable, string> = {
+  app_shop_products: 'Product',
+  categories: 'Collection',
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const sameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+
+/** ISO timestamp → value for a datetime-local input, in the admin's timezone */
+function toLocalInput(iso: string | null): string {
+  if (!iso) return '';
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const formatWhen = (iso: string) =>
+  new Date(iso).toLocaleString('en-CA', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export default function DropsCalendarPage() {
+  const [user, setUser] = useState<any>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Calendar
+  const [entries, setEntries] = useState<DropEntry[]>([]);
+  const [month, setMonth] = useState(() => {
+    const d = new Date();
+    return new Date(d.getFullYear(), d.getMonth(), 1);
+  });
+
+  // Edit form
+  const [editing, setEditing] = useState<DropEntry | null>(null);
+  const [form, setForm] = useState({ publish_at: '', unpublish_at: '', early_access_at: '' });
+  const [saving, setSaving] = useState(false);
+  const [pickerId, setPickerId] = useState('');
+
+  // Toast
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const supabase = createClient();
+
+  useEffect(() => {
+    checkAuth();
+  }, []);
+
+  async function checkAuth() {
+    setIsLoading(true);
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) { setIsLoading(false); return; }
+    setUser(user);
+
+    const { data: admin } = await supabase
+      .from('admin_users')
+      .select('*')
+      .eq('email', user.email)
+      .single();
+
+    if (admin) {
+      setIsAdmin(true);
+      await loadEntries();
+    }
+    setIsLoading(false);
+  }
+
+  async function loadEntries() {
+    try {
+      const res = await fetch('/api/admin/drops');
+      const data = await res.json();
+      if (res.ok) {
+        setEntries(data.entries || []);
+      } else {
+        showToast('Error: ' + (data.error || 'Unknown'), 'error');
+      }
+    } catch {
+      showToast('Failed to load drops', 'error');
+    }
+  }
+
+  function showToast(message: string, type: 'success' | 'error') {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 4000);
+  }
+
+  function openEditor(entry: DropEntry) {
+    setEditing(entry);
+    setForm({
+      publish_at: toLocalInput(entry.publish_at),
+      unpublish_at: toLocalInput(entry.unpublish_at),
+      early_access_at: toLocalInput(entry.early_access_at),
+    });
+  }
+
+  async function handleSave(clear = false) {
+    if (!editing) return;
+    setSaving(true);
+    try {
+      const res = await fetch('/api/admin/drops', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          table: editing.table,
+          id: editing.id,
+          publish_at: clear ? null : fromLocalInput(form.publish_at),
+          unpublish_at: clear ? null : fromLocalInput(form.unpublish_at),
+          early_access_at: clear ? null : fromLocalInput(form.early_access_at),
+        }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        showToast(clear ? `${editing.name} is no longer scheduled` : `${editing.name} scheduled`, 'success');
+        setEditing(null);
+        await loadEntries();
+      } else {
+        showToast('Error: ' + (data.error || 'Unknown'), 'error');
+      }
+    } catch {
+      showToast('Network error', 'error');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  // Loading
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="flex items-center gap-3">
+          <div className="w-5 h-5 border-2 border-amber border-t-transparent rounded-full animate-spin" />
+          <p className="font-display text-text-primary/60 text-sm">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user || !isAdmin) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <p className="font-display text-text-primary/60 text-sm">Access denied</p>
+      </div>
+    );
+  }
+
+  // Every dated moment, placed on its day
+  const events: CalendarEvent[] = entries.flatMap((entry) => [
+    ...(entry.early_access_at ? [{ kind: 'early_access' as const, at: new Date(entry.early_access_at), entry }] : []),
+    ...(entry.publish_at ? [{ kind: 'publish' as const, at: new Date(entry.publish_at), entry }] : []),
+    ...(entry.unpublish_at ? [{ kind: 'unpublish' as const, at: new Date(entry.unpublish_at), entry }] : []),
+  ]).sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  const firstCell = new Date(month.getFullYear(), month.getMonth(), 1 - month.getDay());
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const weeks = Math.ceil((month.getDay() + daysInMonth) / 7);
+  const cells = Array.from({ length: weeks * 7 }, (_, i) =>
+    new Date(firstCell.getFullYear(), firstCell.getMonth(), firstCell.getDate() + i)
+  );
+  const today = new Date();
+
+  const scheduled = entries.filter((e) => e.publish_at || e.unpublish_at || e.early_access_at);
+  const unscheduled = entries.filter((e) => !e.publish_at && !e.unpublish_at && !e.early_access_at);
+
+  const shiftMonth = (delta: number) =>
+    setMonth(new Date(month.getFullYear(), month.getMonth() + delta, 1));
+
+  return (
+    <div>
+      {/* Toast */}
+      {toast && (
+        <div
+          className={`fixed top-4 right-4 z-50 px-5 py-3 rounded-xl shadow-lg font-display text-sm flex items-center gap-2 ${
+            toast.type === 'success'
+              ? 'bg-charcoal-deep text-white'
+              : 'bg-red-500 text-white'
+          }`}
+        >
+          {toast.type === 'success' && <span className="text-amber">●</span>}
+          {toast.message}
+        </div>
+      )}
+
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="font-display text-2xl font-extrabold tracking-tight text-text-primary">
+            Drops
+          </h1>
+          <p className="font-body text-sm text-text-secondary mt-0.5">
+            {scheduled.length} scheduled • members get in at early access, everyone at the drop
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={pickerId}
+            onChange={(e) => setPickerId(e.target.value)}
+            className="px-3 py-2.5 bg-white border border-warm-200 rounded-xl font-body text-sm text-text-primary focus:outline-none focus:border-amber"
+          >
+            <option value="">Schedule something...</option>
+            <optgroup label="Collections">
+              {unscheduled.filter((e) => e.table === 'categories').map((e) => (
+                <option key={e.id} value={e.id}>{e.name}</option>
+              ))}
+            </optgroup>
+            <optgroup label="Products">
+              {unscheduled.filter((e) => e.table === 'app_shop_products').map((e) => (
+                <option key={e.id} value={e.id}>{e.name}</option>
+              ))}
+            </optgroup>
+          </select>
+          <button
+            onClick={() => {
+              const entry = entries.find((e) => e.id === pickerId);
+              if (entry) { openEditor(entry); setPickerId(''); }
+            }}
+            disabled={!pickerId}
+            className="py-2.5 px-5 bg-amber hover:bg-amber-dark text-charcoal-deep font-display text-sm font-bold rounded-xl transition-colors disabled:opacity-40"
+          >
+            Schedule
+          </button>
+        </div>
+      </div>
+
+      {/* Month grid */}
+      <div className="bg-white rounded-2xl shadow-sm border border-warm-200/60 overflow-hidden mb-6">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-warm-200/60">
+          <button
+            onClick={() => shiftMonth(-1)}
+            className="font-display text-sm text-warm-500 hover:text-text-primary px-2"
+          >
+            &larr;
+          </button>
+          <h2 className="font-display text-sm font-bold text-text-primary uppercase tracking-wide">
+            {month.toLocaleDateString('en-CA', { month: 'long', year: 'numeric' })}
+          </h2>
+          <button
+            onClick={() => shiftMonth(1)}
+            className="font-display text-sm text-warm-500 hover:text-text-primary px-2"
+          >
+            &rarr;
+          </button>
+        </div>
+
+        <div className="grid grid-cols-7 border-b border-warm-100">
+          {WEEKDAYS.map((d) => (
+            <p key={d} className="py-2 text-center font-display text-[10px] font-bold uppercase tracking-wider text-warm-400">
+              {d}
+            </p>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-7">
+          {cells.map((day) => {
+            const inMonth = day.getMonth() === month.getMonth();
+            const dayEvents = events.filter((ev) => sameDay(ev.at, day));
+            return (
+              <div
+                key={day.toISOString()}
+                className={`min-h-[96px] border-b border-r border-warm-100 p-1.5 ${inMonth ? '' : 'bg-warm-50/60'}`}
+              >
+                <p className={`font-display text-[11px] mb-1 ${
+                  sameDay(day, today)
+                    ? 'inline-block px-1.5 rounded-full bg-charcoal-deep text-white font-bold'
+                    : inMonth ? 'text-text-primary' : 'text-warm-300'
+                }`}>
+                  {day.getDate()}
+                </p>
+                <div className="space-y-1">
+                  {dayEvents.map((ev) => (
+                    <button
+                      key={`${ev.entry.table}-${ev.entry.id}-${ev.kind}`}
+                      onClick={() => openEditor(ev.entry)}
+                      title={`${EVENT_STYLES[ev.kind].label}: ${ev.entry.name} at ${ev.at.toLocaleTimeString('en-CA', { hour: '2-digit', minute: '2-digit' })}`}
+                      className={`block w-full text-left truncate px-1.5 py-0.5 rounded font-display text-[10px] font-bold ${EVENT_STYLES[ev.kind].className}`}
+                    >
+                      {EVENT_STYLES[ev.kind].label} · {ev.entry.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Scheduled list */}
+      <div className="bg-white rounded-2xl shadow-sm border border-warm-200/60 overflow-hidden">
+        <div className="px-5 py-4 border-b border-warm-200/60">
+          <h2 className="font-display text-sm font-bold text-text-primary uppercase tracking-wide">
+            Scheduled
+          </h2>
+        </div>
+
+        <div className="divide-y divide-warm-100">
+          {scheduled.length === 0 ? (
+            <p className="text-center py-8 text-warm-400 font-display text-sm">
+              Nothing scheduled — everything active is simply live
+            </p>
+          ) : (
+            scheduled.map((entry) => (
+              <div key={`${entry.table}-${entry.id}`} className="flex items-center gap-3 px-5 py-4">
+                {entry.image ? (
+                  <img src={entry.image} alt="" className="w-10 h-10 rounded-lg object-cover bg-off-white shrink-0" />
+                ) : (
+                  <div className="w-10 h-10 rounded-lg bg-warm-100 shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="font-display text-sm font-bold text-text-primary truncate">
+                    <span className="font-normal text-warm-400">{TABLE_LABELS[entry.table]}</span> {entry.name}
+                    <span className={`ml-2 px-2 py-0.5 rounded-full text-[10px] ${STATE_LABELS[entry.state].className}`}>
+                      {STATE_LABELS[entry.state].label}
+                    </span>
+                    {!entry.is_active && (
+                      <span className="ml-1 px-2 py-0.5 rounded-full text-[10px] bg-red-50 text-red-600">Inactive</span>
+                    )}
+                  </p>
+                  <p className="font-body text-xs text-text-secondary">
+                    {entry.early_access_at && `Early ${formatWhen(entry.early_access_at)} • `}
+                    {entry.publish_at ? `Drops ${formatWhen(entry.publish_at)}` : 'Live now'}
+                    {entry.unpublish_at && ` • Ends ${formatWhen(entry.unpublish_at)}`}
+                  </p>
+                  {entry.collection && entry.effective.publish_at !== entry.publish_at && entry.effective.publish_at && (
+                    <p className="font-body text-[10px] text-warm-400">
+                      Held by {entry.collection} until {formatWhen(entry.effective.publish_at)}
+                    </p>
+                  )}
+                </div>
+                <button
+                  onClick={() => openEditor(entry)}
+                  className="shrink-0 font-display text-[11px] font-bold py-1.5 px-3 rounded-full bg-amber/10 text-amber-dark hover:bg-amber/20 transition-colors"
+                >
+                  Edit
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="px-5 py-3 bg-warm-50 border-t border-warm-200/60">
+          <p className="font-display text-[10px] text-warm-400">
+            Products in a scheduled collection drop with it — the later publish and the earlier end of the two win.
+            Times are in your local timezone.
+          </p>
+        </div>
+      </div>
+
+      {/* Edit modal */}
+      {editing && (
+        <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/40 p-4" onClick={() => setEditing(null)}>
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-md p-6" onClick={(e) => e.stopPropagation()}>
+            <p className="font-display text-[10px] font-bold uppercase tracking-wider text-warm-400">
+              {TABLE_LABELS[editing.table]}
+            </p>
+            <h2 className="font-display text-lg font-bold text-text-primary mb-5">{editing.name}</h2>
+
+            <div className="space-y-4">
+              {([
+                ['early_access_at', 'Members early access', 'Optional — must be before the drop'],
+                ['publish_at', 'Drop (live for everyone)', 'Empty = live now'],
+                ['unpublish_at', 'End', 'Empty = stays up'],
+              ] as const).map(([field, label, hint]) => (
+                <div key={field}>
+                  <label className="block font-display text-xs font-bold text-text-primary mb-1">{label}</label>
+                  <input
+                    type="datetime-local"
+                    value={form[field]}
+                    onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                    className="w-full px-3 py-2.5 bg-white border border-warm-200 rounded-xl font-body text-sm text-text-primary focus:outline-none focus:border-amber"
+                  />
+                  <p className="font-body text-[10px] text-warm-400 mt-1">{hint}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2 mt-6">
+              <button
+                onClick={() => handleSave()}
+                disabled={saving}
+                className="flex-1 py-2.5 px-5 bg-amber hover:bg-amber-dark text-charcoal-deep font-display text-sm font-bold rounded-xl transition-colors disabled:opacity-40"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+              {(editing.publish_at || editing.unpublish_at || editing.early_access_at) && (
+                <button
+                  onClick={() => handleSave(true)}
+                  disabled={saving}
+                  className="py-2.5 px-4 bg-warm-100 hover:bg-warm-200 text-warm-500 font-display text-sm font-bold rounded-xl transition-colors disabled:opacity-40"
+                >
+                  Unschedule
+                </button>
+              )}
+              <button
+                onClick={() => setEditing(null)}
+                className="py-2.5 px-4 font-display text-sm text-warm-500 hover:text-text-primary"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,20 @@
 
 import { useEffect, useState } from 'react';
 import { createClient } from '@/lib/supabase/client';
+import {
+  quoteRefund,
+  quoteFullRefund,
+  refundedQuantities,
+  refundedShipping,
+  type OrderRefund,
+} from '@/lib/orders/refunds';
+import { TRACKING_EXCEPTION_LABELS, type TrackingException } from '@/lib/orders/tracking-exceptions';
+import type { TrackingEvent } from '@/lib/canada-post/tracking';
+import type { OrderShipment, VoidedShipment } from '@/lib/canada-post/types';
+import { packagingName } from '@/lib/canada-post/packing';
+import { formatCad as fmtMoney } from '@/lib/currency/format';
+import type { OrderPickup } from '@/lib/checkout/pickup';
+import { formatShipDate } from '@/lib/inventory/stock';
 
 // ============================================
 // TYPES
@@ -13,6 +27,7 @@ interface LabelResult {
   message: string;
   labelUrl?: string;
   trackingPin?: string;
+  shipments?: OrderShipment[];
 }
 
 interface OrderItem {
@@ -23,6 +38,7 @@ interface OrderItem {
   size?: string;
   qty?: number;
   price?: number;
+  paid?: number;
   image?: string | null;
 }
 
@@ -34,6 +50,7 @@ interface ShippingAddress {
   province?: string;
   postal_code?: string;
   country?: string;
+  phone?: string;
 }
 
 interface Order {
@@ -44,15 +61,33 @@ interface Order {
   items: OrderItem[];
   total: number;
   shipping_cost: number;
+  tax: number;
+  tax_lines: { label: string; amount: number }[];
+  tax_province: string | null;
+  refunded_amount: number;
+  refund_status: string | null;
+  refunds: OrderRefund[];
+  dispute_status: string | null;
+  dispute_reason: string | null;
   shipping_address: ShippingAddress | null;
+  address_mismatch: string | null;
+  pickup_location: OrderPickup | null;
   customer_notes: string | null;
   staff_notes: string | null;
   tracking_code: string | null;
+  tracking_status: string | null;
+  tracking_events: TrackingEvent[];
+  tracking_checked_at: string | null;
+  tracking_exception: TrackingException | null;
   label_url: string | null;
+  shipments: OrderShipment[];
+  voided_shipments: VoidedShipment[];
   shipping_service: string | null;
   stripe_session_id: string | null;
+  preorder_ships_at: string | null;
   created_at: string;
   processing_at: string | null;
+  ready_at: string | null;
   shipped_at: string | null;
   delivered_at: string | null;
   archived_at: string | null;
@@ -63,15 +98,19 @@ interface Order {
 // ============================================
 
 const STATUS_META: Record<string, { label: string; color: string; bg: string }> = {
+  preorder:   { label: 'Pre-order',  color: 'text-amber-800',  bg: 'bg-amber-100' },
   paid:       { label: 'Paid',       color: 'text-green-800',  bg: 'bg-green-100' },
   processing: { label: 'Processing', color: 'text-yellow-800', bg: 'bg-yellow-100' },
+  ready_for_pickup: { label: 'Ready for Pickup', color: 'text-teal-800', bg: 'bg-teal-100' },
   shipped:    { label: 'Shipped',    color: 'text-blue-800',   bg: 'bg-blue-100' },
   delivered:  { label: 'Delivered',  color: 'text-purple-800', bg: 'bg-purple-100' },
   archived:   { label: 'Archived',   color: 'text-gray-600',   bg: 'bg-gray-100' },
+  refunded:           { label: 'Refunded',           color: 'text-red-800',    bg: 'bg-red-100' },
+  partially_refunded: { label: 'Partially Refunded', color: 'text-orange-800', bg: 'bg-orange-100' },
 };
 
 const KNOWN_STATUSES = Object.keys(STATUS_META);
-const ACTIVE_STATUSES = ['paid', 'processing', 'shipped'];
+const ACTIVE_STATUSES = ['preorder', 'paid', 'processing', 'ready_for_pickup', 'shipped'];
 const COMPLETED_STATUSES = ['delivered'];
 
 const TIMELINE_STEPS = [
@@ -81,8 +120,50 @@ const TIMELINE_STEPS = [
   { key: 'delivered',  label: 'Delivered',  dateField: 'delivered_at' },
 ] as const;
 
+// Pickup orders are handed over instead of shipped
+const PICKUP_TIMELINE_STEPS = [
+  { key: 'paid',             label: 'Paid',       dateField: 'created_at' },
+  { key: 'processing',       label: 'Processing', dateField: 'processing_at' },
+  { key: 'ready_for_pickup', label: 'Ready',      dateField: 'ready_at' },
+  { key: 'delivered',        label: 'Picked Up',  dateField: 'delivered_at' },
+] as const;
+
 const STATUS_ORDER: Record<string, number> = {
-  paid: 0, processing: 1, shipped: 2, delivered: 3, archived: 3,
+  preorder: 0, paid: 0, processing: 1, ready_for_pickup: 2, shipped: 2, delivered: 3, archived: 3,
+};
+
+// Canada Post services offered for a label, by destination country
+const SERVICE_OPTIONS: Record<string, Array<{ code: string; name: string; desc: string }>> = {
+  CA: [
+    { code: 'DOM.RP', name: 'Regular Parcel', desc: '5-8 days' },
+    { code: 'DOM.EP', name: 'Expedited', desc: '2-4 days' },
+    { code: 'DOM.XP', name: 'Xpresspost', desc: '1-2 days' },
+    { code: 'DOM.PC', name: 'Priority', desc: 'Next day' },
+  ],
+  US: [
+    { code: 'USA.TP', name: 'Tracked Packet', desc: '6-10 days' },
+    { code: 'USA.EP', name: 'Expedited USA', desc: '4-7 days' },
+    { code: 'USA.XP', name: 'Xpresspost USA', desc: '2-3 days' },
+  ],
+  INTL: [
+    { code: 'INT.TP', name: 'Tracked Packet', desc: '6-10 days' },
+    { code: 'INT.IP.AIR', name: 'Intl Parcel Air', desc: '6-10 days' },
+    { code: 'INT.XP', name: 'Xpresspost Intl', desc: '4-7 days' },
+  ],
+};
+
+const SERVICE_LABELS: Record<string, string> = {
+  'DOM.RP': 'Regular Parcel',
+  'DOM.EP': 'Expedited Parcel',
+  'DOM.XP': 'Xpresspost',
+  'DOM.PC': 'Priority',
+  'USA.TP': 'Tracked Packet – USA',
+  'USA.EP': 'Expedited Parcel USA',
+  'USA.XP': 'Xpresspost USA',
+  'INT.TP': 'Tracked Packet – International',
+  'INT.IP.AIR': 'International Parcel Air',
+  'INT.XP': 'Xpresspost International',
+  PICKUP: 'Local pickup',
 };
 
 function normalizeStatus(status: string | null | undefined): string {
@@ -99,6 +180,15 @@ function sc(status: string) {
   return STATUS_META[status] || STATUS_META.paid;
 }
 
+/** Fully refunded orders leave the work queue, whatever their fulfilment status */
+function isOpen(order: Order): boolean {
+  return ACTIVE_STATUSES.includes(order.status) && order.refund_status !== 'refunded';
+}
+
+function timelineSteps(order: Order) {
+  return order.pickup_location ? PICKUP_TIMELINE_STEPS : TIMELINE_STEPS;
+}
+
 // ============================================
 // HELPERS
 // ============================================
@@ -116,22 +206,39 @@ function normalizeOrder(row: any): Order {
     items: Array.isArray(row.items) ? row.items : [],
     total: typeof row.total === 'number' ? row.total : 0,
     shipping_cost: typeof row.shipping_cost === 'number' ? row.shipping_cost : 0,
+    tax: typeof row.tax === 'number' ? row.tax : 0,
+    tax_lines: Array.isArray(row.tax_lines) ? row.tax_lines : [],
+    tax_province: row.tax_province || null,
+    refunded_amount: typeof row.refunded_amount === 'number' ? row.refunded_amount : 0,
+    refund_status: row.refund_status || null,
+    refunds: Array.isArray(row.refunds) ? row.refunds : [],
+    dispute_status: row.dispute_status || null,
+    dispute_reason: row.dispute_reason || null,
     shipping_address: row.shipping_address && typeof row.shipping_address === 'object' ? row.shipping_address : null,
+    address_mismatch: row.address_mismatch || null,
+    pickup_location: row.pickup_location && typeof row.pickup_location === 'object' ? row.pickup_location : null,
     customer_notes: row.customer_notes || null,
     staff_notes: row.staff_notes || null,
     tracking_code: row.tracking_code || null,
+    tracking_status: row.tracking_status || null,
+    tracking_events: Array.isArray(row.tracking_events) ? row.tracking_events : [],
+    tracking_checked_at: row.tracking_checked_at || null,
+    tracking_exception: row.tracking_exception || null,
     label_url: row.label_url || null,
+    shipments: Array.isArray(row.shipments) ? row.shipments : [],
+    voided_shipments: Array.isArray(row.voided_shipments) ? row.voided_shipments : [],
     shipping_service: row.shipping_service || null,
     stripe_session_id: row.stripe_session_id || null,
+    preorder_ships_at: row.preorder_ships_at || null,
     created_at: row.created_at || new Date().toISOString(),
     processing_at: row.processing_at || null,
+    ready_at: row.ready_at || null,
     shipped_at: row.shipped_at || null,
     delivered_at: row.delivered_at || null,
     archived_at: row.archived_at || null,
   };
 }
 
-const fmtMoney = (cents: number) => `CA$${(cents / 100).toFixed(2)}`;
 
 const fmtDate = (iso: string) =>
   new Date(iso).toLocaleDateString('en-CA', {
@@ -153,11 +260,12 @@ const itemCount = (order: Order) =>
 
 function OrderTimeline({ order }: { order: Order }) {
   const currentIdx = STATUS_ORDER[order.status] ?? 0;
+  const steps = timelineSteps(order);
 
   return (
     <div className="w-full">
       <div className="flex items-start justify-between gap-1">
-        {TIMELINE_STEPS.map((step, idx) => {
+        {steps.map((step, idx) => {
           const isCompleted = idx < currentIdx;
           const isCurrent = idx === currentIdx;
           const dateValue = (order as any)[step.dateField] as string | null;
@@ -177,7 +285,7 @@ function OrderTimeline({ order }: { order: Order }) {
                 }`}>
                   {isCompleted ? '✓' : idx + 1}
                 </div>
-                {idx < TIMELINE_STEPS.length - 1 && (
+                {idx < steps.length - 1 && (
                   <div className={`flex-1 h-0.5 ${isCompleted ? 'bg-green-400' : 'bg-gray-200'}`} />
                 )}
               </div>
@@ -203,10 +311,11 @@ function OrderTimeline({ order }: { order: Order }) {
 
 function MiniTimeline({ order }: { order: Order }) {
   const currentIdx = STATUS_ORDER[order.status] ?? 0;
+  const steps = timelineSteps(order);
 
   return (
     <div className="flex items-center gap-0 w-full mt-2">
-      {TIMELINE_STEPS.map((step, idx) => {
+      {steps.map((step, idx) => {
         const isCompleted = idx < currentIdx;
         const isCurrent = idx === currentIdx;
 
@@ -232,7 +341,7 @@ function MiniTimeline({ order }: { order: Order }) {
               </span>
             </div>
             {/* Connecting line */}
-            {idx < TIMELINE_STEPS.length - 1 && (
+            {idx < steps.length - 1 && (
               <div className={`flex-1 h-[2px] mx-1 rounded ${
                 isCompleted ? 'bg-green-400' : 'bg-gray-200'
               }`} />
@@ -263,8 +372,16 @@ export default function AdminOrdersPage() {
   const [uploadingLabel, setUploadingLabel] = useState(false);
   const [creatingLabel, setCreatingLabel] = useState(false);
   const [selectedService, setSelectedService] = useState('DOM.EP');
+  const [overrideService, setOverrideService] = useState(false);
+  const [labelAction, setLabelAction] = useState<string | null>(null);
   const [labelResult, setLabelResult] = useState<LabelResult | null>(null);
 
+  // Refund form
+  const [refundQty, setRefundQty] = useState<Record<number, number>>({});
+  const [refundShipping, setRefundShipping] = useState(false);
+  const [refundReason, setRefundReason] = useState('requested_by_customer');
+  const [refunding, setRefunding] = useState(false);
+
 
   const supabase = createClient();
 
@@ -276,6 +393,9 @@ export default function AdminOrdersPage() {
     if (selectedOrder) {
       setEditStaffNotes(selectedOrder.staff_notes || '');
       setEditTrackingCode(selectedOrder.tracking_code || '');
+      setRefundQty({});
+      setRefundShipping(false);
+      setOverrideService(false);
     }
   }, [selectedOrder?.id]);
 
@@ -326,6 +446,19 @@ export default function AdminOrdersPage() {
     return res.json();
   }
 
+  // ---- Tracking exceptions ----
+
+  async function dismissTrackingException() {
+    if (!selectedOrder) return;
+    try {
+      await apiUpdateOrder(selectedOrder.id, { tracking_exception: null });
+      setSelectedOrder(prev => (prev ? { ...prev, tracking_exception: null } : prev));
+      await loadOrders();
+    } catch (err: any) {
+      alert(`Failed to update: ${err.message}`);
+    }
+  }
+
   // ---- Status updates ----
 
   async function updateOrderStatus(orderId: string, newStatus: string, extraData?: Record<string, any>) {
@@ -339,6 +472,7 @@ export default function AdminOrdersPage() {
       } else {
         updateData.status = newStatus;
         if (newStatus === 'processing') updateData.processing_at = new Date().toISOString();
+        else if (newStatus === 'ready_for_pickup') updateData.ready_at = new Date().toISOString();
         else if (newStatus === 'shipped') updateData.shipped_at = new Date().toISOString();
         else if (newStatus === 'delivered') updateData.delivered_at = new Date().toISOString();
       }
@@ -362,6 +496,19 @@ export default function AdminOrdersPage() {
         }
       }
 
+      // Send ready-for-pickup email
+      if (newStatus === 'ready_for_pickup' && selectedOrder?.email) {
+        try {
+          await fetch('/api/orders/notify-ready', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ orderId }),
+          });
+        } catch (emailErr) {
+          console.error('Failed to send ready-for-pickup email:', emailErr);
+        }
+      }
+
       await loadOrders();
 
       if (newStatus === 'archived') {
@@ -379,6 +526,49 @@ export default function AdminOrdersPage() {
     setUpdatingStatus(false);
   }
 
+  // ---- Refunds ----
+
+  async function handleRefund(order: Order, full: boolean) {
+    const lines = Object.entries(refundQty)
+      .map(([index, quantity]) => ({ index: Number(index), quantity }))
+      .filter(l => l.quantity > 0);
+    const quote = full
+      ? quoteFullRefund(order)
+      : quoteRefund(order, { lines, includeShipping: refundShipping });
+
+    if (quote.amount <= 0) {
+      alert('Select at least one item or shipping to refund.');
+      return;
+    }
+    if (!confirm(`Refund ${fmtMoney(quote.amount)} to the customer's card? This cannot be undone.`)) return;
+
+    setRefunding(true);
+    try {
+      const res = await fetch('/api/orders/refund', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: order.id,
+          full,
+          items: full ? undefined : lines,
+          include_shipping: full ? undefined : refundShipping,
+          reason: refundReason,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Refund failed');
+
+      await loadOrders();
+      if (data.order) setSelectedOrder(normalizeOrder(data.order));
+      setRefundQty({});
+      setRefundShipping(false);
+    } catch (err: any) {
+      console.error('Refund failed:', err);
+      alert(`Refund failed: ${err.message}`);
+    }
+    setRefunding(false);
+  }
+
   // ---- Label upload ----
 
   async function handleLabelUpload(orderId: string, orderNumber: string, file: File) {
@@ -413,6 +603,77 @@ export default function AdminOrdersPage() {
     setUploadingLabel(false);
   }
 
+  // ---- Void / reprint existing Canada Post labels ----
+
+  async function handleVoidLabel(order: Order, trackingPin?: string) {
+    const what = trackingPin ? `shipment ${trackingPin}` : `all shipments of ${order.order_number}`;
+    if (!confirm(`Void ${what}? Transmitted shipments get a refund request instead. The label(s) can no longer be used.`)) return;
+
+    setLabelAction(trackingPin ? `void:${trackingPin}` : 'void');
+    try {
+      const res = await fetch('/api/shipping/void-label', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orderId: order.id, trackingPin }),
+      });
+      const data = await res.json();
+      if (data.order) setSelectedOrder(normalizeOrder(data.order));
+      await loadOrders();
+
+      if (!res.ok || data.error) {
+        setLabelResult({
+          type: data.voided?.length ? 'warning' : 'error',
+          title: data.voided?.length ? 'Some Shipments Voided' : 'Void Failed',
+          message: formatCPError(data.error || 'Void failed'),
+        });
+      } else {
+        const refunds = (data.voided as VoidedShipment[]).filter(v => v.method === 'refund_requested');
+        setLabelResult({
+          type: 'success',
+          title: 'Label Voided',
+          message: refunds.length > 0
+            ? `Already transmitted — refund requested for ${refunds.map(v => v.trackingPin + (v.refundTicketId ? ` (ticket ${v.refundTicketId})` : '')).join(', ')}.`
+            : `Voided ${(data.voided as VoidedShipment[]).map(v => v.trackingPin).join(', ')}. You can create a new label.`,
+        });
+        setEditTrackingCode(data.order?.tracking_code || '');
+      }
+    } catch (err: any) {
+      console.error('Void label failed:', err);
+      setLabelResult({ type: 'error', title: 'Connection Error', message: formatCPError(err.message || 'Could not reach Canada Post.') });
+    }
+    setLabelAction(null);
+  }
+
+  async function handleReprintLabel(order: Order, trackingPin?: string) {
+    setLabelAction(trackingPin ? `reprint:${trackingPin}` : 'reprint');
+    try {
+      const res = await fetch('/api/shipping/reprint-label', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orderId: order.id, trackingPin }),
+      });
+      const data = await res.json();
+      if (data.order) setSelectedOrder(normalizeOrder(data.order));
+      await loadOrders();
+
+      if (!res.ok) {
+        setLabelResult({ type: 'error', title: 'Reprint Failed', message: formatCPError(data.error || 'Reprint failed') });
+      } else {
+        const url = trackingPin
+          ? (data.shipments as OrderShipment[] | undefined)?.find(s => s.trackingPin === trackingPin)?.labelUrl
+          : data.labelUrl;
+        if (url) window.open(url, '_blank');
+        if (data.error) {
+          setLabelResult({ type: 'warning', title: 'Some Labels Not Reprinted', message: formatCPError(data.error) });
+        }
+      }
+    } catch (err: any) {
+      console.error('Reprint label failed:', err);
+      setLabelResult({ type: 'error', title: 'Connection Error', message: formatCPError(err.message || 'Could not reach Canada Post.') });
+    }
+    setLabelAction(null);
+  }
+
   // ---- Create Label via Canada Post API ----
 
   async function handleCreateLabel(orderId: string, orderNumber: string) {
@@ -420,12 +681,17 @@ export default function AdminOrdersPage() {
     setLabelResult(null);
     try {
       const order = orders.find(o => o.id === orderId);
-      const serviceCode = order?.shipping_service || selectedService;
+      const serviceCode = overrideService ? selectedService : (order?.shipping_service || selectedService);
+      const confirmAddress = !!order?.address_mismatch;
+      if (confirmAddress && !confirm(`${order!.address_mismatch}.\n\nShipping was quoted for a different address. Create the label anyway?`)) {
+        setCreatingLabel(false);
+        return;
+      }
 
       const res = await fetch('/api/shipping/create-label', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ orderId, serviceCode }),
+        body: JSON.stringify({ orderId, serviceCode, confirmAddress }),
       });
 
       const data = await res.json();
@@ -441,19 +707,22 @@ export default function AdminOrdersPage() {
         return;
       }
 
+      const pins: string[] = data.trackingPins || (data.trackingPin ? [data.trackingPin] : []);
+
       // Warning — shipment created but label download/upload failed
       if (data.error && data.trackingPin) {
         await loadOrders();
         setSelectedOrder(prev => {
           if (!prev || prev.id !== orderId) return prev;
-          return { ...prev, tracking_code: data.trackingPin };
+          return { ...prev, tracking_code: data.trackingPin, shipments: data.shipments || prev.shipments };
         });
         setEditTrackingCode(data.trackingPin);
         setLabelResult({
           type: 'warning',
           title: 'Shipment Created — Label Failed',
-          message: `Tracking: ${data.trackingPin}\n\n${formatCPError(data.error)}\n\nThe shipment was purchased but the label PDF could not be downloaded. Try "Replace" to upload manually.`,
+          message: `Tracking: ${pins.join(', ')}\n\n${formatCPError(data.error)}\n\nThe shipment was purchased but the label PDF could not be downloaded. Try "Replace" to upload manually.`,
           trackingPin: data.trackingPin,
+          shipments: data.shipments,
         });
         setCreatingLabel(false);
         return;
@@ -467,6 +736,7 @@ export default function AdminOrdersPage() {
           ...prev,
           tracking_code: data.trackingPin || prev.tracking_code,
           label_url: data.labelUrl || prev.label_url,
+          shipments: data.shipments || prev.shipments,
         };
       });
       setEditTrackingCode(data.trackingPin || '');
@@ -478,10 +748,11 @@ export default function AdminOrdersPage() {
 
       setLabelResult({
         type: 'success',
-        title: 'Label Created Successfully',
-        message: `Tracking: ${data.trackingPin}`,
+        title: pins.length > 1 ? `${pins.length} Labels Created Successfully` : 'Label Created Successfully',
+        message: `Tracking: ${pins.join(', ')}`,
         labelUrl: data.labelUrl,
         trackingPin: data.trackingPin,
+        shipments: data.shipments,
       });
     } catch (err: any) {
       console.error('Create label failed:', err);
@@ -569,16 +840,18 @@ export default function AdminOrdersPage() {
       return (
         order.order_number.toLowerCase().includes(q) ||
         (order.email && order.email.toLowerCase().includes(q)) ||
-        (order.shipping_address?.name && order.shipping_address.name.toLowerCase().includes(q))
+        (order.shipping_address?.name && order.shipping_address.name.toLowerCase().includes(q)) ||
+        (order.pickup_location?.customer_name && order.pickup_location.customer_name.toLowerCase().includes(q))
       );
     }
 
     // Tab filters — archived only shown via search
     if (order.status === 'archived') return false; // archived hidden from all tabs
-    if (filter === 'active') return ACTIVE_STATUSES.includes(order.status);
+    if (filter === 'refunds') return order.refund_status !== null;
+    if (filter === 'active') return isOpen(order);
     if (filter === 'delivered') return order.status === 'delivered';
-    if (ACTIVE_STATUSES.includes(filter)) return order.status === filter;
-    return ACTIVE_STATUSES.includes(order.status);
+    if (ACTIVE_STATUSES.includes(filter)) return order.status === filter && isOpen(order);
+    return isOpen(order);
   });
 
 
@@ -609,7 +882,11 @@ export default function AdminOrdersPage() {
 
   // ---- RENDER ----
 
-  const activeCount = orders.filter(o => ACTIVE_STATUSES.includes(o.status)).length;
+  const activeCount = orders.filter(isOpen).length;
+  // Partially refunded orders keep moving through fulfillment
+  const actionStatus = selectedOrder?.refund_status === 'refunded'
+    ? 'refunded'
+    : selectedOrder?.status;
   const deliveredCount = orders.filter(o => o.status === 'delivered').length;
 
   return (
@@ -641,10 +918,13 @@ export default function AdminOrdersPage() {
         <div className="flex gap-1.5 mb-6 overflow-x-auto pb-2 items-center">
           {[
             { key: 'active', label: 'Active', count: activeCount },
-            { key: 'paid', label: 'Paid', count: orders.filter(o => o.status === 'paid').length },
-            { key: 'processing', label: 'Processing', count: orders.filter(o => o.status === 'processing').length },
-            { key: 'shipped', label: 'Shipped', count: orders.filter(o => o.status === 'shipped').length },
+            { key: 'preorder', label: 'Pre-orders', count: orders.filter(o => o.status === 'preorder' && isOpen(o)).length },
+            { key: 'paid', label: 'Paid', count: orders.filter(o => o.status === 'paid' && isOpen(o)).length },
+            { key: 'processing', label: 'Processing', count: orders.filter(o => o.status === 'processing' && isOpen(o)).length },
+            { key: 'ready_for_pickup', label: 'Pickup', count: orders.filter(o => o.status === 'ready_for_pickup' && isOpen(o)).length },
+            { key: 'shipped', label: 'Shipped', count: orders.filter(o => o.status === 'shipped' && isOpen(o)).length },
             { key: 'delivered', label: 'Delivered', count: deliveredCount },
+            { key: 'refunds', label: 'Refunds', count: orders.filter(o => o.refund_status !== null).length },
           ].map(({ key, label, count }) => (
             <button
               key={key}
@@ -686,12 +966,34 @@ export default function AdminOrdersPage() {
                           {order.tracking_code && (
                             <span className="px-2 py-0.5 rounded-full text-xs font-display bg-blue-50 text-blue-600">Tracked</span>
                           )}
+                          {order.pickup_location && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-display bg-teal-50 text-teal-700">Pickup</span>
+                          )}
+                          {order.preorder_ships_at && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-display bg-amber-50 text-amber-700">Ships {formatShipDate(order.preorder_ships_at)}</span>
+                          )}
+                          {order.refunded_amount > 0 && (
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-display ${sc(order.refunded_amount >= order.total ? 'refunded' : 'partially_refunded').bg} ${sc(order.refunded_amount >= order.total ? 'refunded' : 'partially_refunded').color}`}>
+                              Refunded {fmtMoney(order.refunded_amount)}
+                            </span>
+                          )}
+                          {order.dispute_status && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-display bg-red-600 text-white">Disputed</span>
+                          )}
+                          {order.address_mismatch && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-display bg-red-100 text-red-700">Address mismatch</span>
+                          )}
+                          {order.tracking_exception && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-display bg-amber-100 text-amber-800">
+                              {TRACKING_EXCEPTION_LABELS[order.tracking_exception]}
+                            </span>
+                          )}
                         </div>
                         <MiniTimeline order={order} />
                         <div className="font-display text-xs text-text-primary/60 space-y-0.5 mt-2">
                           <p>{fmtDate(order.created_at)}</p>
-                          {order.shipping_address?.name && (
-                            <p className="font-medium text-text-primary/80">{order.shipping_address.name}</p>
+                          {(order.shipping_address?.name || order.pickup_location?.customer_name) && (
+                            <p className="font-medium text-text-primary/80">{order.shipping_address?.name || order.pickup_location?.customer_name}</p>
                           )}
                           {order.email && <p>{order.email}</p>}
                         </div>
@@ -722,6 +1024,11 @@ export default function AdminOrdersPage() {
                   <span className={`px-2 py-0.5 rounded-full text-xs font-display ${sc(selectedOrder.status).bg} ${sc(selectedOrder.status).color}`}>
                     {sc(selectedOrder.status).label}
                   </span>
+                  {selectedOrder.dispute_status && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-display bg-red-600 text-white">
+                      Dispute: {selectedOrder.dispute_reason || selectedOrder.dispute_status}
+                    </span>
+                  )}
                 </div>
                 <p className="font-display text-xs text-text-primary/50 mt-0.5">
                   {selectedOrder.email || 'No email'} · {fmtDate(selectedOrder.created_at)}
@@ -734,6 +1041,15 @@ export default function AdminOrdersPage() {
 
             <div className="p-4 space-y-5">
 
+              {/* Shipping was quoted (and taxed) for a different destination than Stripe collected */}
+              {selectedOrder.address_mismatch && (
+                <div className="bg-red-50 border-2 border-red-300 rounded-xl p-4">
+                  <p className="font-display text-xs font-bold text-red-800 uppercase tracking-wider mb-1">Address mismatch</p>
+                  <p className="font-display text-sm text-red-900">{selectedOrder.address_mismatch}</p>
+                  <p className="font-display text-xs text-red-700 mt-1">Check the shipping and tax charged with the customer before buying a label.</p>
+                </div>
+              )}
+
               {/* ---- 1. CUSTOMER INSTRUCTIONS ---- */}
               {selectedOrder.customer_notes && (
                 <div className="bg-amber-50 border-2 border-amber-300 rounded-xl p-4">
@@ -786,7 +1102,26 @@ export default function AdminOrdersPage() {
               </div>
 
               {/* ---- 4. SHIPPING LABEL ---- */}
-              {selectedOrder.shipping_address ? (
+              {selectedOrder.pickup_location ? (
+                <div className="border-2 border-dashed border-teal-300 rounded-xl p-5 bg-white">
+                  <p className="font-display text-[10px] font-bold text-teal-600 uppercase tracking-[0.2em] mb-3">
+                    Pick Up At — no label
+                  </p>
+                  <div className="font-display text-base text-text-primary leading-relaxed">
+                    <p className="font-bold text-lg">{selectedOrder.pickup_location.name}</p>
+                    <p>{selectedOrder.pickup_location.street}</p>
+                    <p>{selectedOrder.pickup_location.city}, {selectedOrder.pickup_location.province} {selectedOrder.pickup_location.postal_code}</p>
+                    {selectedOrder.pickup_location.hours && (
+                      <p className="text-gray-500 text-sm mt-1">{selectedOrder.pickup_location.hours}</p>
+                    )}
+                  </div>
+                  {(selectedOrder.pickup_location.customer_name || selectedOrder.pickup_location.customer_phone) && (
+                    <p className="font-display text-sm text-text-primary/70 mt-3 pt-3 border-t border-gray-100">
+                      Collecting: {[selectedOrder.pickup_location.customer_name, selectedOrder.pickup_location.customer_phone].filter(Boolean).join(' · ')}
+                    </p>
+                  )}
+                </div>
+              ) : selectedOrder.shipping_address ? (
                 <div className="border-2 border-dashed border-gray-300 rounded-xl p-5 bg-white">
                   <p className="font-display text-[10px] font-bold text-gray-400 uppercase tracking-[0.2em] mb-3">
                     Ship To
@@ -814,7 +1149,7 @@ export default function AdminOrdersPage() {
               <div className="bg-gray-50 rounded-xl p-4 font-display text-sm">
                 <div className="flex justify-between mb-1">
                   <span className="text-text-primary/60">Subtotal</span>
-                  <span>{fmtMoney(selectedOrder.total - selectedOrder.shipping_cost)}</span>
+                  <span>{fmtMoney(selectedOrder.total - selectedOrder.shipping_cost - selectedOrder.tax)}</span>
                 </div>
                 <div className="flex justify-between mb-2">
                   <span className="text-text-primary/60">Shipping</span>
@@ -822,10 +1157,28 @@ export default function AdminOrdersPage() {
                     {selectedOrder.shipping_cost === 0 ? 'FREE' : fmtMoney(selectedOrder.shipping_cost)}
                   </span>
                 </div>
+                {selectedOrder.tax_lines.map(line => (
+                  <div key={line.label} className="flex justify-between mb-2">
+                    <span className="text-text-primary/60">{line.label}</span>
+                    <span>{fmtMoney(line.amount)}</span>
+                  </div>
+                ))}
                 <div className="border-t pt-2 flex justify-between text-base font-bold">
                   <span>Total</span>
                   <span>{fmtMoney(selectedOrder.total)}</span>
                 </div>
+                {selectedOrder.refunds.filter(r => r.status !== 'failed' && r.status !== 'canceled').map(refund => (
+                  <div key={refund.id} className="flex justify-between mt-1 text-red-700">
+                    <span>Refunded {fmtDateShort(refund.created_at)}{refund.status === 'pending' ? ' (pending)' : ''}</span>
+                    <span>−{fmtMoney(refund.amount)}</span>
+                  </div>
+                ))}
+                {selectedOrder.refunded_amount > 0 && (
+                  <div className="border-t mt-2 pt-2 flex justify-between font-bold">
+                    <span>Net</span>
+                    <span>{fmtMoney(selectedOrder.total - selectedOrder.refunded_amount)}</span>
+                  </div>
+                )}
               </div>
 
               {/* ---- 6. STAFF NOTES (read-only unless processing) ---- */}
@@ -848,26 +1201,114 @@ export default function AdminOrdersPage() {
 
               {/* ---- 7. TRACKING INFO (for shipped/delivered/archived) ---- */}
               {selectedOrder.tracking_code && selectedOrder.status !== 'processing' && (
-                <div className="flex items-center gap-3 bg-blue-50 rounded-xl p-4">
-                  <span className="font-display text-xs text-blue-600">Tracking:</span>
-                  <code className="font-display text-sm font-bold text-blue-800">{selectedOrder.tracking_code}</code>
-                  <a
-                    href={`https://www.canadapost-postescanada.ca/track-reperage/en#/search?searchFor=${selectedOrder.tracking_code}`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="ml-auto font-display text-xs text-blue-600 hover:underline"
-                  >
-                    Track on Canada Post →
-                  </a>
+                <div className="bg-blue-50 rounded-xl p-4 space-y-3">
+                  {(selectedOrder.shipments.length > 1
+                    ? selectedOrder.shipments.map(s => s.trackingPin)
+                    : [selectedOrder.tracking_code]
+                  ).map((pin, i, pins) => (
+                    <div key={pin} className="flex items-center gap-3">
+                      <span className="font-display text-xs text-blue-600">
+                        {pins.length > 1 ? `Parcel ${i + 1}/${pins.length}:` : 'Tracking:'}
+                      </span>
+                      <code className="font-display text-sm font-bold text-blue-800">{pin}</code>
+                      <a
+                        href={`https://www.canadapost-postescanada.ca/track-reperage/en#/search?searchFor=${pin}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="ml-auto font-display text-xs text-blue-600 hover:underline"
+                      >
+                        Track on Canada Post →
+                      </a>
+                    </div>
+                  ))}
+                  {selectedOrder.tracking_exception && (
+                    <div className="flex items-center gap-3 bg-amber-100 rounded-lg px-3 py-2">
+                      <span className="font-display text-xs font-bold text-amber-800">
+                        {TRACKING_EXCEPTION_LABELS[selectedOrder.tracking_exception]}
+                      </span>
+                      <button
+                        onClick={dismissTrackingException}
+                        className="ml-auto font-display text-xs text-amber-800 hover:underline"
+                      >
+                        Dismiss
+                      </button>
+                    </div>
+                  )}
+                  {selectedOrder.tracking_events.length > 0 && (
+                    <ul className="space-y-1">
+                      {selectedOrder.tracking_events.map((event, i) => (
+                        <li key={i} className="flex gap-3 font-display text-xs text-blue-900/80">
+                          <span className="shrink-0 text-blue-600/70">{event.date} {event.time.slice(0, 5)}</span>
+                          <span>{event.description}{event.location ? ` — ${event.location}` : ''}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {selectedOrder.tracking_checked_at && (
+                    <p className="font-display text-[11px] text-blue-600/60">Checked {fmtDate(selectedOrder.tracking_checked_at)}</p>
+                  )}
                 </div>
               )}
 
               {/* ---- 8. SHIPPING LABEL PDF ---- */}
-              {(selectedOrder.status === 'processing' || selectedOrder.status === 'shipped' || selectedOrder.label_url) && (
+              {!selectedOrder.pickup_location && (selectedOrder.status === 'processing' || selectedOrder.status === 'shipped' || selectedOrder.label_url) && (
                 <div className="bg-gray-50 rounded-xl p-4">
                   <p className="font-display text-xs font-bold text-text-primary/40 uppercase tracking-wider mb-3">Shipping Label</p>
+                  {selectedOrder.voided_shipments.length > 0 && (
+                    <ul className="mb-3 space-y-0.5">
+                      {selectedOrder.voided_shipments.map(v => (
+                        <li key={`${v.trackingPin}-${v.voidedAt}`} className="font-display text-[11px] text-text-primary/50">
+                          <span className="line-through">{v.trackingPin}</span>
+                          {' '}{v.method === 'voided' ? 'voided' : `refund requested${v.refundTicketId ? ` (ticket ${v.refundTicketId})` : ''}`} {fmtDate(v.voidedAt)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                   {selectedOrder.label_url ? (
                     <div className="space-y-3">
+                      {selectedOrder.shipments.length > 1 && (
+                        <ul className="space-y-2">
+                          {selectedOrder.shipments.map((shipment, i) => (
+                            <li key={shipment.trackingPin} className="flex items-center gap-3">
+                              <div className="flex-1 min-w-0">
+                                <p className="font-display text-xs font-bold text-text-primary">
+                                  Parcel {i + 1}/{selectedOrder.shipments.length} · {packagingName(shipment.packaging)}
+                                  {shipment.deliveredAt && <span className="ml-2 text-purple-700">Delivered {fmtDate(shipment.deliveredAt)}</span>}
+                                </p>
+                                <p className="font-display text-[11px] text-text-primary/50">
+                                  {shipment.weight.toFixed(2)} kg · {shipment.items.map(it => `${it.quantity}× ${it.productKey}`).join(', ')}
+                                </p>
+                              </div>
+                              {shipment.labelUrl ? (
+                                <a
+                                  href={shipment.labelUrl}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="px-3 py-2 rounded-lg bg-charcoal-deep text-white font-display text-xs font-bold hover:bg-charcoal transition-colors"
+                                >
+                                  Label PDF
+                                </a>
+                              ) : (
+                                <span className="font-display text-xs text-red-500">No label</span>
+                              )}
+                              <button
+                                onClick={() => handleReprintLabel(selectedOrder, shipment.trackingPin)}
+                                disabled={!!labelAction}
+                                className="font-display text-xs text-blue-600 hover:underline disabled:opacity-50"
+                              >
+                                {labelAction === `reprint:${shipment.trackingPin}` ? 'Reprinting...' : 'Reprint'}
+                              </button>
+                              <button
+                                onClick={() => handleVoidLabel(selectedOrder, shipment.trackingPin)}
+                                disabled={!!labelAction}
+                                className="font-display text-xs text-red-600 hover:underline disabled:opacity-50"
+                              >
+                                {labelAction === `void:${shipment.trackingPin}` ? 'Voiding...' : 'Void'}
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                       <div className="flex items-center gap-3">
                         <a
                           href={selectedOrder.label_url}
@@ -875,7 +1316,7 @@ export default function AdminOrdersPage() {
                           rel="noopener noreferrer"
                           className="flex-1 px-4 py-2.5 rounded-xl bg-charcoal-deep text-white font-display text-xs font-bold text-center hover:bg-charcoal transition-colors"
                         >
-                          Download Label PDF
+                          {selectedOrder.shipments.length > 1 ? 'Download Parcel 1 Label' : 'Download Label PDF'}
                         </a>
                         <label className="px-4 py-2.5 rounded-xl border-2 border-dashed border-gray-300 text-gray-500 font-display text-xs font-bold text-center hover:border-gray-400 cursor-pointer transition-colors">
                           Replace
@@ -890,6 +1331,24 @@ export default function AdminOrdersPage() {
                           />
                         </label>
                       </div>
+                      {selectedOrder.tracking_code && (
+                        <div className="flex gap-3">
+                          <button
+                            onClick={() => handleReprintLabel(selectedOrder)}
+                            disabled={!!labelAction}
+                            className="flex-1 px-4 py-2 rounded-xl border border-gray-300 text-text-primary/70 font-display text-xs font-bold hover:bg-white disabled:opacity-50 transition-colors"
+                          >
+                            {labelAction === 'reprint' ? 'Reprinting...' : selectedOrder.shipments.length > 1 ? 'Reprint All Labels' : 'Reprint Label'}
+                          </button>
+                          <button
+                            onClick={() => handleVoidLabel(selectedOrder)}
+                            disabled={!!labelAction}
+                            className="flex-1 px-4 py-2 rounded-xl border border-red-300 text-red-600 font-display text-xs font-bold hover:bg-red-50 disabled:opacity-50 transition-colors"
+                          >
+                            {labelAction === 'void' ? 'Voiding...' : selectedOrder.shipments.length > 1 ? 'Void All Shipments' : 'Void Shipment'}
+                          </button>
+                        </div>
+                      )}
                       {selectedOrder.status === 'processing' && (
                         <button
                           onClick={() => handleCreateLabel(selectedOrder.id, selectedOrder.order_number)}
@@ -910,24 +1369,28 @@ export default function AdminOrdersPage() {
                   ) : selectedOrder.status === 'processing' ? (
                     <div className="space-y-3">
                       {/* Show customer's chosen service (locked) or fallback selector */}
-                      {selectedOrder.shipping_service ? (
+                      {selectedOrder.shipping_service && !overrideService ? (
                         <div className="flex items-center gap-2 px-3 py-2.5 rounded-lg bg-blue-50 border border-blue-200">
                           <span className="font-display text-xs text-blue-600">Service:</span>
                           <span className="font-display text-sm font-bold text-blue-800">
-                            {{'DOM.RP': 'Regular Parcel', 'DOM.EP': 'Expedited Parcel', 'DOM.XP': 'Xpresspost', 'DOM.PC': 'Priority'}[selectedOrder.shipping_service] || selectedOrder.shipping_service}
+                            {SERVICE_LABELS[selectedOrder.shipping_service] || selectedOrder.shipping_service}
                           </span>
                           <span className="ml-auto font-display text-[10px] text-blue-400">chosen by customer</span>
+                          <button
+                            onClick={() => {
+                              setSelectedService(selectedOrder.shipping_service || (SERVICE_OPTIONS[selectedOrder.shipping_address?.country || 'CA'] || SERVICE_OPTIONS.INTL)[1].code);
+                              setOverrideService(true);
+                            }}
+                            className="font-display text-[10px] text-blue-600 hover:underline"
+                          >
+                            Change
+                          </button>
                         </div>
                       ) : (
                         <div>
                           <label className="font-display text-xs text-text-primary/60 block mb-1.5">Shipping Service</label>
                           <div className="grid grid-cols-2 gap-2">
-                            {[
-                              { code: 'DOM.RP', name: 'Regular Parcel', desc: '5-8 days' },
-                              { code: 'DOM.EP', name: 'Expedited', desc: '2-4 days' },
-                              { code: 'DOM.XP', name: 'Xpresspost', desc: '1-2 days' },
-                              { code: 'DOM.PC', name: 'Priority', desc: 'Next day' },
-                            ].map(svc => (
+                            {(SERVICE_OPTIONS[selectedOrder.shipping_address?.country || 'CA'] || SERVICE_OPTIONS.INTL).map(svc => (
                               <button
                                 key={svc.code}
                                 onClick={() => setSelectedService(svc.code)}
@@ -980,12 +1443,101 @@ export default function AdminOrdersPage() {
                 </div>
               )}
 
-              {/* ---- 9. ACTION AREA ---- */}
+              {/* ---- 9. REFUND ---- */}
+              {selectedOrder.stripe_session_id && selectedOrder.refunded_amount < selectedOrder.total && (() => {
+                const alreadyRefunded = refundedQuantities(selectedOrder);
+                const shippingLeft = selectedOrder.shipping_cost - refundedShipping(selectedOrder);
+                const lines = Object.entries(refundQty)
+                  .map(([index, quantity]) => ({ index: Number(index), quantity }))
+                  .filter(l => l.quantity > 0);
+                const quote = quoteRefund(selectedOrder, { lines, includeShipping: refundShipping });
+
+                return (
+                  <details className="bg-gray-50 rounded-xl p-4">
+                    <summary className="font-display text-xs font-bold text-text-primary/60 uppercase tracking-wider cursor-pointer">
+                      Refund
+                    </summary>
+                    <div className="mt-3 space-y-2">
+                      {selectedOrder.items.map((item, idx) => {
+                        const remaining = (item.qty || 1) - alreadyRefunded[idx];
+                        return (
+                          <div key={idx} className="flex items-center gap-3 font-display text-sm">
+                            <span className="flex-1 truncate">
+                              {item.name || 'Product'}
+                              {[item.color, item.size].filter(Boolean).length > 0 && (
+                                <span className="text-text-primary/50"> · {[item.color, item.size].filter(Boolean).join(' / ')}</span>
+                              )}
+                            </span>
+                            {remaining > 0 ? (
+                              <select
+                                value={refundQty[idx] || 0}
+                                onChange={e => setRefundQty(prev => ({ ...prev, [idx]: Number(e.target.value) }))}
+                                className="px-2 py-1 rounded-lg border border-gray-200 bg-white text-sm"
+                              >
+                                {Array.from({ length: remaining + 1 }, (_, n) => (
+                                  <option key={n} value={n}>{n}</option>
+                                ))}
+                              </select>
+                            ) : (
+                              <span className="text-xs text-gray-400">refunded</span>
+                            )}
+                          </div>
+                        );
+                      })}
+                      {shippingLeft > 0 && (
+                        <label className="flex items-center gap-2 font-display text-sm">
+                          <input type="checkbox" checked={refundShipping} onChange={e => setRefundShipping(e.target.checked)} />
+                          Shipping ({fmtMoney(shippingLeft)})
+                        </label>
+                      )}
+                      <select
+                        value={refundReason}
+                        onChange={e => setRefundReason(e.target.value)}
+                        className="w-full px-3 py-2 rounded-lg border border-gray-200 bg-white font-display text-sm"
+                      >
+                        <option value="requested_by_customer">Requested by customer</option>
+                        <option value="duplicate">Duplicate charge</option>
+                        <option value="fraudulent">Fraudulent</option>
+                      </select>
+                      {quote.error && <p className="font-display text-xs text-red-600">{quote.error}</p>}
+                      <div className="flex gap-2 pt-1">
+                        <button
+                          onClick={() => handleRefund(selectedOrder, false)}
+                          disabled={refunding || quote.amount <= 0}
+                          className="flex-1 px-4 py-2.5 rounded-xl bg-orange-600 text-white font-display text-xs font-bold hover:bg-orange-700 disabled:opacity-50 transition-colors"
+                        >
+                          {refunding ? 'Refunding...' : `Refund selected${quote.amount > 0 ? ` (${fmtMoney(quote.amount)})` : ''}`}
+                        </button>
+                        <button
+                          onClick={() => handleRefund(selectedOrder, true)}
+                          disabled={refunding}
+                          className="flex-1 px-4 py-2.5 rounded-xl bg-red-600 text-white font-display text-xs font-bold hover:bg-red-700 disabled:opacity-50 transition-colors"
+                        >
+                          Refund full order ({fmtMoney(selectedOrder.total - selectedOrder.refunded_amount)})
+                        </button>
+                      </div>
+                    </div>
+                  </details>
+                );
+              })()}
+
+              {/* ---- 10. ACTION AREA ---- */}
               <div className="bg-white border-2 border-charcoal-deep/10 rounded-xl p-4">
                 <p className="font-display text-xs font-bold text-text-primary/60 uppercase tracking-wider mb-3">Next Step</p>
 
+                {/* PRE-ORDER → Start Processing once the stock is in */}
+                {actionStatus === 'preorder' && (
+                  <button
+                    onClick={() => updateOrderStatus(selectedOrder.id, 'processing')}
+                    disabled={updatingStatus}
+                    className="w-full px-5 py-3 rounded-xl font-display text-sm font-bold bg-yellow-500 text-white hover:bg-yellow-600 disabled:opacity-50 transition-colors"
+                  >
+                    {updatingStatus ? 'Updating...' : 'Stock In — Start Processing →'}
+                  </button>
+                )}
+
                 {/* PAID → Start Processing */}
-                {selectedOrder.status === 'paid' && (
+                {actionStatus === 'paid' && (
                   <button
                     onClick={() => updateOrderStatus(selectedOrder.id, 'processing')}
                     disabled={updatingStatus}
@@ -995,8 +1547,32 @@ export default function AdminOrdersPage() {
                   </button>
                 )}
 
+                {/* PROCESSING (pickup) → Mark Ready, emails the customer */}
+                {actionStatus === 'processing' && selectedOrder.pickup_location && (
+                  <button
+                    onClick={() => updateOrderStatus(selectedOrder.id, 'ready_for_pickup', {
+                      staff_notes: editStaffNotes || null,
+                    })}
+                    disabled={updatingStatus}
+                    className="w-full px-5 py-3 rounded-xl font-display text-sm font-bold bg-teal-600 text-white hover:bg-teal-700 disabled:opacity-50 transition-colors"
+                  >
+                    {updatingStatus ? 'Updating...' : 'Mark Ready for Pickup →'}
+                  </button>
+                )}
+
+                {/* READY FOR PICKUP → Confirm Picked Up */}
+                {actionStatus === 'ready_for_pickup' && (
+                  <button
+                    onClick={() => updateOrderStatus(selectedOrder.id, 'delivered')}
+                    disabled={updatingStatus}
+                    className="w-full px-5 py-3 rounded-xl font-display text-sm font-bold bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50 transition-colors"
+                  >
+                    {updatingStatus ? 'Updating...' : 'Confirm Picked Up ✓'}
+                  </button>
+                )}
+
                 {/* PROCESSING → Enter tracking + notes, then Mark as Shipped */}
-                {selectedOrder.status === 'processing' && (
+                {actionStatus === 'processing' && !selectedOrder.pickup_location && (
                   <div className="space-y-3">
                     <div>
                       <label className="font-display text-xs text-text-primary/60 block mb-1">Canada Post Tracking Code</label>
@@ -1028,7 +1604,7 @@ export default function AdminOrdersPage() {
                 )}
 
                 {/* SHIPPED → Confirm Delivered */}
-                {selectedOrder.status === 'shipped' && (
+                {actionStatus === 'shipped' && (
                   <button
                     onClick={() => updateOrderStatus(selectedOrder.id, 'delivered')}
                     disabled={updatingStatus}
@@ -1039,7 +1615,7 @@ export default function AdminOrdersPage() {
                 )}
 
                 {/* DELIVERED → Archive */}
-                {selectedOrder.status === 'delivered' && (
+                {actionStatus === 'delivered' && (
                   <button
                     onClick={() => {
                       if (confirm('Archive this order? It will be removed from the main list and only accessible via search.')) {
@@ -1053,6 +1629,13 @@ export default function AdminOrdersPage() {
                   </button>
                 )}
 
+                {/* REFUNDED → Done */}
+                {actionStatus === 'refunded' && (
+                  <div className="text-center py-2">
+                    <p className="font-display text-sm text-red-700">This order was fully refunded.</p>
+                  </div>
+                )}
+
                 {/* ARCHIVED → Done */}
                 {selectedOrder.status === 'archived' && (
                   <div className="text-center py-2">
@@ -1108,8 +1691,16 @@ export default function AdminOrdersPage() {
             {/* Tracking pin highlight */}
             {labelResult.trackingPin && (
               <div className="bg-blue-50 rounded-xl p-3 text-center">
-                <p className="font-display text-[10px] text-blue-500 uppercase tracking-wider mb-1">Tracking Number</p>
-                <code className="font-display text-base font-bold text-blue-800">{labelResult.trackingPin}</code>
+                <p className="font-display text-[10px] text-blue-500 uppercase tracking-wider mb-1">
+                  {(labelResult.shipments?.length ?? 0) > 1 ? 'Tracking Numbers' : 'Tracking Number'}
+                </p>
+                {(labelResult.shipments?.length ?? 0) > 1 ? (
+                  labelResult.shipments!.map(shipment => (
+                    <code key={shipment.trackingPin} className="block font-display text-base font-bold text-blue-800">{shipment.trackingPin}</code>
+                  ))
+                ) : (
+                  <code className="font-display text-base font-bold text-blue-800">{labelResult.trackingPin}</code>
+                )}
               </div>
             )}
 
@@ -1120,7 +1711,7 @@ export default function AdminOrdersPage() {
                   onClick={() => window.open(labelResult.labelUrl, '_blank')}
                   className="flex-1 px-4 py-3 rounded-xl bg-charcoal-deep text-white font-display text-xs font-bold hover:bg-charcoal transition-colors"
                 >
-                  Print Label
+                  {(labelResult.shipments?.length ?? 0) > 1 ? 'Print Parcel 1 Label' : 'Print Label'}
                 </button>
               )}
               {labelResult.type === 'error' && selectedOrder && (
@@ -2,6 +2,9 @@
 
 import { useState, useEffect } from 'react';
 import { createClient } from '@/lib/supabase/client';
+import { formatCad } from '@/lib/currency/format';
+import { VariantMatrix } from '@/components/admin/VariantMatrix';
+import type { ProductType } from '@/lib/catalog/catalog';
 
 // ============================================
 // CONSTANTS
@@ -19,75 +22,6 @@ const AVAILABLE_COLORS = [
 
 const AVAILABLE_SIZES = ['XS', 'S', 'M', 'L', 'XL', 'XXL'];
 
-// ============================================
-// PRODUCT TYPES (shirt/item types → Stripe prices)
-// ============================================
-
-const PRODUCT_TYPES: Record<string, {
-  label: string;
-  productName: string;
-  skuPrefix: string;
-  stripe_price_id: string;
-  base_price: number;
-  defaultSizes: string[];
-  description: string;
-}> = {
-  'cotton-tee': {
-    label: 'Cotton Tee — CA$29.99',
-    productName: 'OnSite DryBlend Tee',
-    skuPrefix: 'CTEE',
-    stripe_price_id: 'price_1T6yaQGntiIt3xkawNdIb3ek',
-    base_price: 29.99,
-    defaultSizes: ['XS', 'S', 'M', 'L', 'XL', 'XXL'],
-    description: '5.5 oz/yd², 50/50 cotton/polyester blend, 20 singles. Midweight DryBlend® moisture-wicking fabric. Classic fit, taped neck & shoulders, double-needle sleeve and bottom hems. Tear-away label. Sizes S–5XL.',
-  },
-  'sport-tee': {
-    label: 'Sport Tee — CA$34.99',
-    productName: 'OnSite Performance Tee',
-    skuPrefix: 'STEE',
-    stripe_price_id: 'price_1T6ybPGntiIt3xkaA7NoCQ4e',
-    base_price: 34.99,
-    defaultSizes: ['S', 'M', 'L', 'XL', 'XXL'],
-    description: '4.13 oz/yd², 100% polyester interlock. Moisture-wicking performance fabric with UV 50+ protection. Lightweight and breathable. Tear-away label. Sizes S–4XL.',
-  },
-  'hoodie': {
-    label: 'Hoodie — CA$49.99',
-    productName: 'OnSite Heavyweight Hoodie',
-    skuPrefix: 'HOOD',
-    stripe_price_id: 'price_1T6ydIGntiIt3xkaOI5uKbgH',
-    base_price: 49.99,
-    defaultSizes: ['S', 'M', 'L', 'XL', 'XXL'],
-    description: '12.7 oz/Lyd, 260 GSM, 50/50 cotton/polyester. 2-End Fleece Bio polished fabric. Hood with matching drawstring, set-in sleeves, pouch pockets 2x2. Athletic rib knit cuffs with Lycra. Double-needle stitching throughout. Sizes S–3XL.',
-  },
-  'cap': {
-    label: 'Cap — CA$39.99',
-    productName: 'OnSite Snapback Cap',
-    skuPrefix: 'CAP',
-    stripe_price_id: 'price_1T6ylSGntiIt3xka7i5gMdhM',
-    base_price: 39.99,
-    defaultSizes: ['One Size'],
-    description: '100% cotton twill, structured 6-panel mid-profile. Pre-curved visor, adjustable snapback closure. Embroidered OnSite Club logo. One size fits most.',
-  },
-  'sticker-kit': {
-    label: 'Sticker Kit — CA$9.99',
-    productName: 'OnSite Jobsite Sticker Pack',
-    skuPrefix: 'STK',
-    stripe_price_id: 'price_1T6yfRGntiIt3xkaNuMeFJSF',
-    base_price: 9.99,
-    defaultSizes: ['One Size'],
-    description: 'Premium vinyl sticker pack. Waterproof, UV-resistant, and built for hard hats, toolboxes, and trucks. Easy peel-and-stick application. Durable outdoor-grade adhesive.',
-  },
-  'test-product': {
-    label: 'Test Product — CA$0.10',
-    productName: 'OnSite Test Product',
-    skuPrefix: 'TEST',
-    stripe_price_id: 'price_1TFdP0KGyu88MA3NqGk6mvxR',
-    base_price: 0.10,
-    defaultSizes: ['One Size'],
-    description: 'Test product for order flow validation. 10 cents only.',
-  },
-};
-
 // ============================================
 // TYPES
 // ============================================
@@ -124,6 +58,8 @@ export default function AdminPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [products, setProducts] = useState<Product[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  // Product types (price, SKU prefix, sizes) — managed on /admin/product-types
+  const [productTypes, setProductTypes] = useState<ProductType[]>([]);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [saving, setSaving] = useState(false);
 
@@ -197,6 +133,11 @@ export default function AdminPage() {
 
     if (cats) setCategories(cats);
 
+    fetch('/api/admin/product-types')
+      .then(res => res.json())
+      .then(data => { if (data.types) setProductTypes(data.types); })
+      .catch(() => { /* no type picker until the next load */ });
+
     if (prods) {
       setProducts(prods);
       const unpublished = prods.some((p: Product) => !p.is_published);
@@ -305,7 +246,6 @@ export default function AdminPage() {
         description: product.description,
         base_price: product.base_price,
         sku: product.sku || '',
-        stripe_price_id: product.stripe_price_id || '',
         product_type: product.product_type || '',
         images: product.images || [],
         sizes: product.sizes || [],
@@ -318,24 +258,53 @@ export default function AdminPage() {
         is_published: false,
       };
 
-      if (product.id) {
+      let productId = product.id;
+      if (productId) {
         const { error } = await supabase
           .from('app_shop_products')
           .update(productData)
-          .eq('id', product.id);
+          .eq('id', productId);
 
         if (error) throw error;
       } else {
-        const { error } = await supabase
+        const { data, error } = await supabase
           .from('app_shop_products')
-          .insert(productData);
+          .insert(productData)
+          .select('id')
+          .single();
 
         if (error) throw error;
+        productId = data.id;
+      }
+
+      // Fill in variant rows for any new size × color
+      const matrixRes = await fetch('/api/admin/product-variants', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ product_id: productId }),
+      });
+      const matrixError = matrixRes.ok ? null : (await matrixRes.json().catch(() => null))?.error || 'Unknown';
+
+      // Create or update the Stripe Product and Price (archives the old price)
+      let syncError: string | null = null;
+      if (productData.base_price) {
+        const res = await fetch('/api/admin/stripe-sync', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ table: 'app_shop_products', id: productId }),
+        });
+        if (!res.ok) syncError = (await res.json().catch(() => null))?.error || 'Unknown';
       }
 
       await loadData();
       setEditingProduct(null);
-      showToast('Product saved successfully!', 'success');
+      if (syncError) {
+        showToast('Saved, but Stripe sync failed: ' + syncError, 'error');
+      } else if (matrixError) {
+        showToast('Saved, but variants could not be built: ' + matrixError, 'error');
+      } else {
+        showToast('Product saved successfully!', 'success');
+      }
     } catch (error: any) {
       showToast('Error saving: ' + error.message, 'error');
     } finally {
@@ -591,11 +560,24 @@ export default function AdminPage() {
           <ProductForm
             product={editingProduct}
             categories={categories}
+            productTypes={productTypes}
             onSave={handleSaveProduct}
             onCancel={() => setEditingProduct(null)}
             onUpload={handleImageUpload}
             saving={saving}
           />
+
+          {editingProduct.id && (
+            <VariantMatrix
+              productId={editingProduct.id}
+              basePrice={editingProduct.base_price || 0}
+              sizes={editingProduct.sizes || []}
+              colors={editingProduct.colors || []}
+              images={editingProduct.images || []}
+              colorImages={editingProduct.color_images || {}}
+              onToast={showToast}
+            />
+          )}
         </div>
       </div>
     );
@@ -704,11 +686,7 @@ export default function AdminPage() {
         <div className="flex gap-1.5 mb-6 overflow-x-auto scrollbar-hide">
           {[
             { key: 'all', label: 'All' },
-            { key: 'cotton-tee', label: 'Cotton Tees' },
-            { key: 'hoodie', label: 'Hoodies' },
-            { key: 'sport-tee', label: 'Sport Tees' },
-            { key: 'cap', label: 'Caps' },
-            { key: 'sticker-kit', label: 'Stickers' },
+            ...productTypes.filter(t => t.active).map(t => ({ key: t.key, label: t.name })),
           ].map(tab => {
             const storeCatSlug = activeStore === 'members' ? 'members' : 'mens';
             const storeCat = categories.find(c => c.slug === storeCatSlug);
@@ -861,10 +839,10 @@ export default function AdminPage() {
                   </h3>
                   <p className="font-body text-xs text-text-secondary mt-0.5">
                     {product.sku || 'no SKU'}
-                    {product.product_type && ` · ${PRODUCT_TYPES[product.product_type]?.label.split(' —')[0] || product.product_type}`}
+                    {product.product_type && ` · ${productTypes.find(t => t.key === product.product_type)?.name || product.product_type}`}
                   </p>
                   <p className="font-display text-lg font-bold text-amber-dark mt-1">
-                    CA${product.base_price?.toFixed(2)}
+                    {formatCad(Math.round((product.base_price ?? 0) * 100))}
                   </p>
                   {product.colors?.length > 0 && (
                     <div className="flex gap-1 mt-1.5">
@@ -924,6 +902,7 @@ export default function AdminPage() {
 function ProductForm({
   product,
   categories,
+  productTypes,
   onSave,
   onCancel,
   onUpload,
@@ -931,6 +910,7 @@ function ProductForm({
 }: {
   product: Partial<Product>;
   categories: Category[];
+  productTypes: ProductType[];
   onSave: (product: Partial<Product>) => void;
   onCancel: () => void;
   onUpload: (file: File) => Promise<string | null>;
@@ -1182,22 +1162,22 @@ function ProductForm({
 
   // Build name, SKU & slug automatically
   const buildProductIdentity = (pType: string, num: string) => {
-    const pt = PRODUCT_TYPES[pType];
-    if (!pt || !num) return null;
+    const pt = productTypes.find(t => t.key === pType);
+    if (!pt || !pt.sku_prefix || !num) return null;
     const padded = num.padStart(3, '0');
-    const sku = `OSC${padded}-${pt.skuPrefix}`;
-    const name = `${pt.productName}`;
+    const sku = `OSC${padded}-${pt.sku_prefix}`;
+    const name = pt.name;
     const slug = generateSlug(`${name}-${padded}`);
     return { sku, name, slug };
   };
 
-  // Apply a product type (sets price, stripe_price_id, sizes, description)
+  // Apply a product type (sets price and sizes)
   const applyProductType = (typeKey: string) => {
     if (typeKey === '') {
-      setForm({ ...form, product_type: '', stripe_price_id: '', base_price: 0 });
+      setForm({ ...form, product_type: '', base_price: 0 });
       return;
     }
-    const pt = PRODUCT_TYPES[typeKey];
+    const pt = productTypes.find(t => t.key === typeKey);
     if (!pt) return;
 
     const identity = buildProductIdentity(typeKey, productNum);
@@ -1205,10 +1185,8 @@ function ProductForm({
     setForm({
       ...form,
       product_type: typeKey,
-      stripe_price_id: pt.stripe_price_id,
-      base_price: pt.base_price,
-      sizes: pt.defaultSizes,
-      description: pt.description,
+      base_price: pt.price / 100,
+      sizes: pt.sizes,
       ...(identity ? { sku: identity.sku, name: identity.name, slug: identity.slug } : {}),
     });
   };
@@ -1231,18 +1209,18 @@ function ProductForm({
       <div>
         <label className="block font-display text-xs font-bold tracking-wide uppercase text-text-secondary mb-2">1. Product Type</label>
         <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
-          {Object.entries(PRODUCT_TYPES).map(([key, pt]) => (
+          {productTypes.filter(pt => pt.active || pt.key === form.product_type).map(pt => (
             <button
-              key={key}
+              key={pt.key}
               type="button"
-              onClick={() => applyProductType(key)}
+              onClick={() => applyProductType(pt.key)}
               className={`font-display text-xs py-3 px-3 rounded-xl border-2 transition-all text-left ${
-                form.product_type === key
+                form.product_type === pt.key
                   ? 'border-amber bg-amber/10 text-amber-dark font-bold'
                   : 'border-warm-200 text-warm-500 hover:border-warm-300'
               }`}
             >
-              {pt.label}
+              {pt.name} — {formatCad(pt.price)}
             </button>
           ))}
         </div>
@@ -1463,7 +1441,7 @@ function ProductForm({
         </div>
       </div>
 
-      {/* Stripe Price ID (auto-set, shown for reference) */}
+      {/* Stripe Price ID (set by the sync on save, shown for reference) */}
       {form.stripe_price_id && (
         <div className="bg-warm-100 rounded-lg px-3 py-2">
           <p className="font-display text-[10px] text-warm-400">
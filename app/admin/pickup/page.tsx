@@ -0,0 +1,356 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { PROVINCES } from '@/lib/stripe-config';
+import type { PickupLocation } from '@/lib/checkout/pickup';
+
+type Draft = Omit<PickupLocation, 'id' | 'instructions'> & { id?: string; instructions: string };
+
+const EMPTY_DRAFT: Draft = {
+  name: '',
+  street: '',
+  city: 'Ottawa',
+  province: 'ON',
+  postal_code: '',
+  hours: '',
+  instructions: '',
+  active: true,
+  sort_order: 0,
+};
+
+export default function PickupLocationsPage() {
+  const [user, setUser] = useState<any>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Locations
+  const [locations, setLocations] = useState<PickupLocation[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Toast
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const supabase = createClient();
+
+  useEffect(() => {
+    checkAuth();
+  }, []);
+
+  async function checkAuth() {
+    setIsLoading(true);
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) { setIsLoading(false); return; }
+    setUser(user);
+
+    const { data: admin } = await supabase
+      .from('admin_users')
+      .select('*')
+      .eq('email', user.email)
+      .single();
+
+    if (admin) {
+      setIsAdmin(true);
+      await loadLocations();
+    }
+    setIsLoading(false);
+  }
+
+  async function loadLocations() {
+    try {
+      const res = await fetch('/api/admin/pickup-locations');
+      const data = await res.json();
+      if (data.locations) {
+        setLocations(data.locations);
+      }
+    } catch {
+      showToast('Failed to load pickup locations', 'error');
+    }
+  }
+
+  function showToast(message: string, type: 'success' | 'error') {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 4000);
+  }
+
+  async function save(location: Draft) {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/admin/pickup-locations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(location),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        showToast(`${data.location?.name || 'Location'} saved`, 'success');
+        setDraft(null);
+        await loadLocations();
+      } else {
+        showToast('Error: ' + (data.error || 'Unknown'), 'error');
+      }
+    } catch {
+      showToast('Network error', 'error');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function edit(location: PickupLocation) {
+    setDraft({ ...location, instructions: location.instructions || '' });
+  }
+
+  // Loading
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="flex items-center gap-3">
+          <div className="w-5 h-5 border-2 border-amber border-t-transparent rounded-full animate-spin" />
+          <p className="font-display text-text-primary/60 text-sm">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user || !isAdmin) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <p className="font-display text-text-primary/60 text-sm">Access denied</p>
+      </div>
+    );
+  }
+
+  const activeCount = locations.filter((l) => l.active).length;
+
+  return (
+    <div>
+      {/* Toast */}
+      {toast && (
+        <div
+          className={`fixed top-4 right-4 z-50 px-5 py-3 rounded-xl shadow-lg font-display text-sm flex items-center gap-2 ${
+            toast.type === 'success'
+              ? 'bg-charcoal-deep text-white'
+              : 'bg-red-500 text-white'
+          }`}
+        >
+          {toast.type === 'success' && <span className="text-amber">●</span>}
+          {toast.message}
+        </div>
+      )}
+
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="font-display text-2xl font-extrabold tracking-tight text-text-primary">
+            Pickup Locations
+          </h1>
+          <p className="font-body text-sm text-text-secondary mt-0.5">
+            {activeCount} offered at checkout • free for Canadian orders
+          </p>
+        </div>
+        <button
+          onClick={() => setDraft({ ...EMPTY_DRAFT })}
+          className="py-2.5 px-5 bg-amber hover:bg-amber-dark text-charcoal-deep font-display text-sm font-bold rounded-xl transition-colors"
+        >
+          + Add Location
+        </button>
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        {/* LEFT — Locations */}
+        <div className="bg-white rounded-2xl shadow-sm border border-warm-200/60 overflow-hidden">
+          <div className="px-5 py-4 border-b border-warm-200/60">
+            <h2 className="font-display text-sm font-bold text-text-primary uppercase tracking-wide">
+              Locations
+            </h2>
+          </div>
+
+          <div className="divide-y divide-warm-100">
+            {locations.length === 0 ? (
+              <p className="text-center py-8 text-warm-400 font-display text-sm">
+                No pickup locations yet
+              </p>
+            ) : (
+              locations.map((location) => (
+                <div key={location.id} className="flex items-start gap-3 px-5 py-4">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-display text-sm font-bold text-text-primary truncate">
+                      {location.name}
+                      {!location.active && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-[10px] bg-warm-100 text-warm-500">Hidden</span>
+                      )}
+                    </p>
+                    <p className="font-body text-xs text-text-secondary">
+                      {location.street}, {location.city}, {location.province} {location.postal_code}
+                    </p>
+                    {location.hours && (
+                      <p className="font-body text-xs text-warm-400">{location.hours}</p>
+                    )}
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      onClick={() => edit(location)}
+                      className="font-display text-[11px] font-bold py-1.5 px-3 rounded-full bg-amber/10 text-amber-dark hover:bg-amber/20 transition-colors"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => save({ ...location, instructions: location.instructions || '', active: !location.active })}
+                      disabled={saving}
+                      className="font-display text-[11px] font-bold py-1.5 px-3 rounded-full bg-warm-100 text-warm-500 hover:bg-warm-200 transition-colors disabled:opacity-40"
+                    >
+                      {location.active ? 'Hide' : 'Show'}
+                    </button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        {/* RIGHT — Editor */}
+        {draft && (
+          <div className="bg-white rounded-2xl shadow-sm border border-warm-200/60 p-5">
+            <h2 className="font-display text-sm font-bold text-text-primary uppercase tracking-wide mb-4">
+              {draft.id ? 'Edit Location' : 'New Location'}
+            </h2>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block font-display text-xs font-bold tracking-wide uppercase text-text-secondary mb-2">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  className="input w-full"
+                  placeholder="e.g. OnSite Club — Ottawa Shop"
+                />
+              </div>
+
+              <div>
+                <label className="block font-display text-xs font-bold tracking-wide uppercase text-text-secondary mb-2">
+                  Street
+                </label>
+                <input
+                  type="text"
+                  value={draft.street}
+                  onChange={(e) => setDraft({ ...draft, street: e.target.value })}
+                  className="input w-full"
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block font-display text-xs font-bold tracking-wide uppercase text-text-secondary mb-2">
+                    City
+                  </label>
+                  <input
+                    type="text"
+                    value={draft.city}
+                    onChange={(e) => setDraft({ ...draft, city: e.target.value })}
+                    className="input w-full"
+                  />
+                </div>
+                <div>
+                  <label className="block font-display text-xs font-bold tracking-wide uppercase text-text-secondary mb-2">
+                    Province
+                  </label>
+                  <select
+                    value={draft.province}
+                    onChange={(e) => setDraft({ ...draft, province: e.target.value })}
+                    className="input w-full"
+                  >
+                    {PROVINCES.map((p) => (
+                      <option key={p.code} value={p.code}>{p.code}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block font-display text-xs font-bold tracking-wide uppercase text-text-secondary mb-2">
+                    Postal Code
+                  </label>
+                  <input
+                    type="text"
+                    value={draft.postal_code}
+                    onChange={(e) => setDraft({ ...draft, postal_code: e.target.value.toUpperCase() })}
+                    maxLength={7}
+                    className="input w-full"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block font-display text-xs font-bold tracking-wide uppercase text-text-secondary mb-2">
+                  Hours
+                </label>
+                <input
+                  type="text"
+                  value={draft.hours}
+                  onChange={(e) => setDraft({ ...draft, hours: e.target.value })}
+                  className="input w-full"
+                  placeholder="e.g. Mon–Fri 7am–3pm"
+                />
+              </div>
+
+              <div>
+                <label className="block font-display text-xs font-bold tracking-wide uppercase text-text-secondary mb-2">
+                  Instructions
+                </label>
+                <textarea
+                  value={draft.instructions}
+                  onChange={(e) => setDraft({ ...draft, instructions: e.target.value })}
+                  className="input w-full min-h-[90px] font-body text-sm leading-relaxed"
+                  placeholder="Where to go on site, who to ask for, ID needed..."
+                />
+                <p className="font-display text-[10px] text-warm-400 mt-1">
+                  Sent in the ready-for-pickup email.
+                </p>
+              </div>
+
+              <div className="flex items-center gap-4">
+                <label className="flex items-center gap-2 font-display text-sm text-text-primary">
+                  <input
+                    type="checkbox"
+                    checked={draft.active}
+                    onChange={(e) => setDraft({ ...draft, active: e.target.checked })}
+                    className="w-4 h-4 rounded accent-amber"
+                  />
+                  Offer at checkout
+                </label>
+                <label className="flex items-center gap-2 font-display text-sm text-text-secondary ml-auto">
+                  Sort
+                  <input
+                    type="number"
+                    value={draft.sort_order}
+                    onChange={(e) => setDraft({ ...draft, sort_order: Number(e.target.value) })}
+                    className="input w-20 text-sm"
+                  />
+                </label>
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setDraft(null)}
+                  className="flex-1 py-3 bg-warm-100 hover:bg-warm-200 text-text-primary font-display text-sm font-bold rounded-xl transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => save(draft)}
+                  disabled={saving || !draft.name.trim() || !draft.street.trim()}
+                  className="flex-1 py-3 bg-amber hover:bg-amber-dark text-charcoal-deep font-display text-sm font-bold rounded-xl transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  {saving ? 'Saving...' : 'Save Location'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,446 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { formatCad } from '@/lib/currency/format';
+import type { ProductType } from '@/lib/catalog/catalog';
+
+// Price and sizes are edited as text; everything else as stored
+type Draft = Omit<ProductType, 'price' | 'sizes'> & {
+  isNew: boolean;
+  price: string;        // dollars
+  sizes: string;        // comma separated
+};
+
+const EMPTY_DRAFT: Draft = {
+  isNew: true,
+  key: '',
+  name: '',
+  category: 'apparel',
+  price: '',
+  sku: '',
+  sku_prefix: '',
+  sizes: 'M, L, XL',
+  stripe_product_id: null,
+  stripe_price_id: null,
+  stripe_price_amount: null,
+  weight: 0.25,
+  length: 30,
+  width: 22,
+  height: 3,
+  hs_code: '',
+  origin_country: 'CA',
+  active: true,
+  sort_order: 0,
+};
+
+function toDraft(type: ProductType): Draft {
+  return {
+    ...type,
+    isNew: false,
+    price: (type.price / 100).toFixed(2),
+    sizes: type.sizes.join(', '),
+  };
+}
+
+export default function ProductTypesPage() {
+  const [user, setUser] = useState<any>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Types
+  const [types, setTypes] = useState<ProductType[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Toast
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const supabase = createClient();
+
+  useEffect(() => {
+    checkAuth();
+  }, []);
+
+  async function checkAuth() {
+    setIsLoading(true);
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) { setIsLoading(false); return; }
+    setUser(user);
+
+    const { data: admin } = await supabase
+      .from('admin_users')
+      .select('*')
+      .eq('email', user.email)
+      .single();
+
+    if (admin) {
+      setIsAdmin(true);
+      await loadTypes();
+    }
+    setIsLoading(false);
+  }
+
+  async function loadTypes() {
+    try {
+      const res = await fetch('/api/admin/product-types');
+      const data = await res.json();
+      if (data.types) {
+        setTypes(data.types);
+      }
+    } catch {
+      showToast('Failed to load product types', 'error');
+    }
+  }
+
+  function showToast(message: string, type: 'success' | 'error') {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 4000);
+  }
+
+  async function save(type: Draft) {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/admin/product-types', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...type,
+          price: Math.round(Number(type.price) * 100),
+          sizes: type.sizes.split(',').map((s) => s.trim()).filter(Boolean),
+        }),
+      });
+      const data = await res.json();
+
+      if (res.ok && data.syncError) {
+        showToast(`Saved, but Stripe sync failed: ${data.syncError}`, 'error');
+        setDraft(null);
+        await loadTypes();
+      } else if (res.ok) {
+        showToast(`${data.type?.name || 'Product type'} saved`, 'success');
+        setDraft(null);
+        await loadTypes();
+      } else {
+        showToast('Error: ' + (data.error || 'Unknown'), 'error');
+      }
+    } catch {
+      showToast('Network error', 'error');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  // Loading
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="flex items-center gap-3">
+          <div className="w-5 h-5 border-2 border-amber border-t-transparent rounded-full animate-spin" />
+          <p className="font-display text-text-primary/60 text-sm">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user || !isAdmin) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <p className="font-display text-text-primary/60 text-sm">Access denied</p>
+      </div>
+    );
+  }
+
+  const numberField = (label: string, field: 'weight' | 'length' | 'width' | 'height', step: string) => (
+    <div>
+      <label className="block font-display text-xs font-bold tracking-wide uppercase text-text-secondary mb-2">
+        {label}
+      </label>
+      <input
+        type="number"
+        step={step}
+        min="0"
+        value={draft ? draft[field] : ''}
+        onChange={(e) => draft && setDraft({ ...draft, [field]: Number(e.target.value) })}
+        className="input w-full"
+      />
+    </div>
+  );
+
+  return (
+    <div>
+      {/* Toast */}
+      {toast && (
+        <div
+          className={`fixed top-4 right-4 z-50 px-5 py-3 rounded-xl shadow-lg font-display text-sm flex items-center gap-2 ${
+            toast.type === 'success'
+              ? 'bg-charcoal-deep text-white'
+              : 'bg-red-500 text-white'
+          }`}
+        >
+          {toast.type === 'success' && <span className="text-amber">●</span>}
+          {toast.message}
+        </div>
+      )}
+
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="font-display text-2xl font-extrabold tracking-tight text-text-primary">
+            Product Types
+          </h1>
+          <p className="font-body text-sm text-text-secondary mt-0.5">
+            Price, sizes, parcel size and Stripe price shared by every product of a type
+          </p>
+        </div>
+        <button
+          onClick={() => setDraft({ ...EMPTY_DRAFT })}
+          className="py-2.5 px-5 bg-amber hover:bg-amber-dark text-charcoal-deep font-display text-sm font-bold rounded-xl transition-colors"
+        >
+          + Add Type
+        </button>
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        {/* LEFT — Types */}
+        <div className="bg-white rounded-2xl shadow-sm border border-warm-200/60 overflow-hidden">
+          <div className="px-5 py-4 border-b border-warm-200/60">
+            <h2 className="font-display text-sm font-bold text-text-primary uppercase tracking-wide">
+              Types
+            </h2>
+          </div>
+
+          <div className="divide-y divide-warm-100">
+            {types.length === 0 ? (
+              <p className="text-center py-8 text-warm-400 font-display text-sm">
+                No product types yet — run the product_types migration to seed them
+              </p>
+            ) : (
+              types.map((type) => (
+                <div key={type.key} className="flex items-start gap-3 px-5 py-4">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-display text-sm font-bold text-text-primary truncate">
+                      {type.name}
+                      <span className="ml-2 font-body text-xs font-normal text-warm-400">{type.key}</span>
+                      {!type.active && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-[10px] bg-warm-100 text-warm-500">Inactive</span>
+                      )}
+                    </p>
+                    <p className="font-body text-xs text-text-secondary">
+                      {formatCad(type.price)} • {type.category} • SKU {type.sku_prefix}-…
+                      {type.sizes.length > 0 && ` • ${type.sizes.join('/')}`}
+                    </p>
+                    <p className="font-body text-xs text-warm-400">
+                      {type.weight} kg • {type.length}×{type.width}×{type.height} cm • HS {type.hs_code}
+                      {type.stripe_price_amount !== type.price && ' • Stripe price out of date'}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      onClick={() => setDraft(toDraft(type))}
+                      className="font-display text-[11px] font-bold py-1.5 px-3 rounded-full bg-amber/10 text-amber-dark hover:bg-amber/20 transition-colors"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => save({ ...toDraft(type), active: !type.active })}
+                      disabled={saving}
+                      className="font-display text-[11px] font-bold py-1.5 px-3 rounded-full bg-warm-100 text-warm-500 hover:bg-warm-200 transition-colors disabled:opacity-40"
+                    >
+                      {type.active ? 'Deactivate' : 'Activate'}
+                    </button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        {/* RIGHT — Editor */}
+        {draft && (
+          <div className="bg-white rounded-2xl shadow-sm border border-warm-200/60 p-5">
+            <h2 className="font-display text-sm font-bold text-text-primary uppercase tracking-wide mb-4">
+              {draft.isNew ? 'New Product Type' : `Edit ${draft.key}`}
+            </h2>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block font-display text-xs font-bold tracking-wide uppercase text-text-secondary mb-2">
+                    Key
+                  </label>
+                  <input
+                    type="text"
+                    value={draft.key}
+                    onChange={(e) => setDraft({ ...draft, key: e.target.value.toLowerCase() })}
+                    disabled={!draft.isNew}
+                    className="input w-full disabled:opacity-60"
+                    placeholder="e.g. long-sleeve"
+                  />
+                </div>
+                <div>
+                  <label className="block font-display text-xs font-bold tracking-wide uppercase text-text-secondary mb-2">
+                    Name
+                  </label>
+                  <input
+                    type="text"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    className="input w-full"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block font-display text-xs font-bold tracking-wide uppercase text-text-secondary mb-2">
+                    Price (CAD)
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={draft.price}
+                    onChange={(e) => setDraft({ ...draft, price: e.target.value })}
+                    className="input w-full"
+                  />
+                </div>
+                <div>
+                  <label className="block font-display text-xs font-bold tracking-wide uppercase text-text-secondary mb-2">
+                    Category
+                  </label>
+                  <input
+                    type="text"
+                    value={draft.category}
+                    onChange={(e) => setDraft({ ...draft, category: e.target.value.toLowerCase() })}
+                    className="input w-full"
+                  />
+                </div>
+                <div>
+                  <label className="block font-display text-xs font-bold tracking-wide uppercase text-text-secondary mb-2">
+                    SKU Prefix
+                  </label>
+                  <input
+                    type="text"
+                    value={draft.sku_prefix}
+                    onChange={(e) => setDraft({ ...draft, sku_prefix: e.target.value.toUpperCase() })}
+                    className="input w-full"
+                    placeholder="e.g. LSTEE"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block font-display text-xs font-bold tracking-wide uppercase text-text-secondary mb-2">
+                    Sizes
+                  </label>
+                  <input
+                    type="text"
+                    value={draft.sizes}
+                    onChange={(e) => setDraft({ ...draft, sizes: e.target.value })}
+                    className="input w-full"
+                    placeholder="Comma separated — blank for none"
+                  />
+                </div>
+                <div>
+                  <label className="block font-display text-xs font-bold tracking-wide uppercase text-text-secondary mb-2">
+                    Base SKU
+                  </label>
+                  <input
+                    type="text"
+                    value={draft.sku}
+                    onChange={(e) => setDraft({ ...draft, sku: e.target.value })}
+                    className="input w-full"
+                    placeholder="e.g. OS-LS-TEE"
+                  />
+                </div>
+              </div>
+
+              {/* Stripe Price (set by the sync on save, shown for reference) */}
+              <div className="bg-warm-100 rounded-lg px-3 py-2">
+                <p className="font-display text-[10px] text-warm-400">
+                  Stripe Price: <span className="text-warm-600">{draft.stripe_price_id || 'created on save'}</span>
+                  {' '}• a new price is created and the old one archived whenever the price changes
+                </p>
+              </div>
+
+              <div className="grid grid-cols-4 gap-3">
+                {numberField('Weight kg', 'weight', '0.01')}
+                {numberField('Length cm', 'length', '0.5')}
+                {numberField('Width cm', 'width', '0.5')}
+                {numberField('Height cm', 'height', '0.5')}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block font-display text-xs font-bold tracking-wide uppercase text-text-secondary mb-2">
+                    HS Code
+                  </label>
+                  <input
+                    type="text"
+                    value={draft.hs_code}
+                    onChange={(e) => setDraft({ ...draft, hs_code: e.target.value.trim() })}
+                    className="input w-full"
+                    placeholder="e.g. 6109.10"
+                  />
+                </div>
+                <div>
+                  <label className="block font-display text-xs font-bold tracking-wide uppercase text-text-secondary mb-2">
+                    Made In
+                  </label>
+                  <input
+                    type="text"
+                    value={draft.origin_country}
+                    onChange={(e) => setDraft({ ...draft, origin_country: e.target.value.toUpperCase() })}
+                    maxLength={2}
+                    className="input w-full"
+                  />
+                </div>
+              </div>
+              <p className="font-display text-[10px] text-warm-400 -mt-2">
+                Packed size and customs data go on Canada Post labels.
+              </p>
+
+              <div className="flex items-center gap-4">
+                <label className="flex items-center gap-2 font-display text-sm text-text-primary">
+                  <input
+                    type="checkbox"
+                    checked={draft.active}
+                    onChange={(e) => setDraft({ ...draft, active: e.target.checked })}
+                    className="w-4 h-4 rounded accent-amber"
+                  />
+                  Active
+                </label>
+                <label className="flex items-center gap-2 font-display text-sm text-text-secondary ml-auto">
+                  Sort
+                  <input
+                    type="number"
+                    value={draft.sort_order}
+                    onChange={(e) => setDraft({ ...draft, sort_order: Number(e.target.value) })}
+                    className="input w-20 text-sm"
+                  />
+                </label>
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setDraft(null)}
+                  className="flex-1 py-3 bg-warm-100 hover:bg-warm-200 text-text-primary font-display text-sm font-bold rounded-xl transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => save(draft)}
+                  disabled={saving || !draft.key.trim() || !draft.name.trim() || !draft.price}
+                  className="flex-1 py-3 bg-amber hover:bg-amber-dark text-charcoal-deep font-display text-sm font-bold rounded-xl transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  {saving ? 'Saving...' : 'Save Type'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,51 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
+import type { PromoKind } from '@/lib/promo/rules'
+import type { ProductType } from '@/lib/catalog/catalog'
+
+const KIND_OPTIONS: { value: PromoKind; label: string; unit: '$' | '%' | null }[] = [
+  { value: 'item_price', label: 'One item for a set price', unit: '$' },
+  { value: 'percent_off', label: 'Percent off', unit: '%' },
+  { value: 'amount_off', label: 'Amount off', unit: '$' },
+  { value: 'bogo', label: 'Buy one, get one', unit: '%' },
+  { value: 'free_shipping', label: 'Free shipping only', unit: null },
+]
+
+const splitList = (text: string) => text.split(',').map(s => s.trim()).filter(Boolean)
 
 export default function AdminPromoPage() {
   const [email, setEmail] = useState('')
-  const [discountType, setDiscountType] = useState('item_050')
+  const [customCode, setCustomCode] = useState('')
+  const [kind, setKind] = useState<PromoKind>('item_price')
+  const [value, setValue] = useState('0.50')
+  const [freeShipping, setFreeShipping] = useState(true)
+  const [minSubtotal, setMinSubtotal] = useState('')
+  const [categories, setCategories] = useState<string[]>([])
+  const [products, setProducts] = useState('')
+  const [maxRedemptions, setMaxRedemptions] = useState('1')
+  const [perCustomerLimit, setPerCustomerLimit] = useState('')
+  const [startsAt, setStartsAt] = useState('')
   const [notes, setNotes] = useState('')
   const [expiresInDays, setExpiresInDays] = useState(30)
   const [loading, setLoading] = useState(false)
-  const [result, setResult] = useState<{ code: string } | null>(null)
+  const [result, setResult] = useState<{ code: string; description: string; emailed: boolean } | null>(null)
   const [error, setError] = useState('')
   const [copied, setCopied] = useState(false)
+  const [types, setTypes] = useState<ProductType[]>([])
+
+  useEffect(() => {
+    fetch('/api/admin/product-types')
+      .then(res => res.json())
+      .then(data => { if (data.types) setTypes(data.types) })
+      .catch(() => { /* categories stay empty — products can still be typed in */ })
+  }, [])
+
+  const categoryOptions = Array.from(new Set(types.map(t => t.category))).filter(c => c !== 'test')
+
+  const unit = KIND_OPTIONS.find(k => k.value === kind)?.unit ?? null
+  const singleUse = maxRedemptions === '1'
+  const canSubmit = !loading && (!singleUse || !!email)
 
   async function handleGenerate() {
     setLoading(true)
@@ -23,7 +58,16 @@ export default function AdminPromoPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           email: email || undefined,
-          discountType,
+          code: customCode || undefined,
+          kind,
+          value: unit === '$' ? Math.round(parseFloat(value || '0') * 100) : parseInt(value || '0'),
+          freeShipping: kind === 'free_shipping' || freeShipping,
+          minSubtotal: minSubtotal ? Math.round(parseFloat(minSubtotal) * 100) : 0,
+          eligibleCategories: categories,
+          eligibleProducts: splitList(products),
+          maxRedemptions: maxRedemptions ? parseInt(maxRedemptions) : null,
+          perCustomerLimit: perCustomerLimit ? parseInt(perCustomerLimit) : null,
+          startsAt: startsAt || undefined,
           notes: notes || undefined,
           expiresInDays,
         }),
@@ -38,6 +82,7 @@ export default function AdminPromoPage() {
 
       setResult(data)
       setEmail('')
+      setCustomCode('')
       setNotes('')
     } catch {
       setError('Network error')
@@ -54,7 +99,7 @@ export default function AdminPromoPage() {
             Promo Codes
           </h1>
           <p className="font-body text-sm text-text-secondary mt-0.5">
-            Generate a single-use code with free shipping.
+            Create a personal single-use code or a multi-use campaign code.
           </p>
         </div>
 
@@ -62,7 +107,7 @@ export default function AdminPromoPage() {
           {/* Email */}
           <div className="mb-4">
             <label className="block font-display text-xs font-bold text-text-secondary mb-1.5 uppercase tracking-wide">
-              Recipient Email
+              Recipient Email {!singleUse && <span className="text-gray-400">(optional)</span>}
             </label>
             <input
               type="email"
@@ -73,23 +118,158 @@ export default function AdminPromoPage() {
             />
           </div>
 
-          {/* Discount Type */}
+          {/* Code */}
           <div className="mb-4">
             <label className="block font-display text-xs font-bold text-text-secondary mb-1.5 uppercase tracking-wide">
-              Discount
+              Code <span className="text-gray-400">(blank = random)</span>
             </label>
-            <select
-              value={discountType}
-              onChange={(e) => setDiscountType(e.target.value)}
+            <input
+              type="text"
+              placeholder="e.g. SPRING15"
+              value={customCode}
+              onChange={(e) => setCustomCode(e.target.value.toUpperCase())}
               className="input"
-            >
-              <option value="item_050">1 item for $0.50</option>
-              <option value="percent_10">10% off</option>
-              <option value="percent_15">15% off</option>
-              <option value="percent_20">20% off</option>
-              <option value="percent_25">25% off</option>
-              <option value="percent_50">50% off</option>
-            </select>
+            />
+          </div>
+
+          {/* Discount */}
+          <div className="mb-4 grid grid-cols-[1fr_120px] gap-3">
+            <div>
+              <label className="block font-display text-xs font-bold text-text-secondary mb-1.5 uppercase tracking-wide">
+                Discount
+              </label>
+              <select
+                value={kind}
+                onChange={(e) => {
+                  const next = e.target.value as PromoKind
+                  setKind(next)
+                  setValue(next === 'item_price' ? '0.50' : next === 'bogo' ? '100' : next === 'percent_off' ? '10' : '')
+                }}
+                className="input"
+              >
+                {KIND_OPTIONS.map(k => (
+                  <option key={k.value} value={k.value}>{k.label}</option>
+                ))}
+              </select>
+            </div>
+            {unit && (
+              <div>
+                <label className="block font-display text-xs font-bold text-text-secondary mb-1.5 uppercase tracking-wide">
+                  {unit === '$' ? 'Amount ($)' : 'Percent'}
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step={unit === '$' ? '0.01' : '1'}
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  className="input"
+                />
+              </div>
+            )}
+          </div>
+
+          {kind !== 'free_shipping' && (
+            <label className="mb-4 flex items-center gap-2 font-display text-xs text-text-secondary">
+              <input
+                type="checkbox"
+                checked={freeShipping}
+                onChange={(e) => setFreeShipping(e.target.checked)}
+              />
+              Include free shipping
+            </label>
+          )}
+
+          {/* Cart requirements */}
+          <div className="mb-4 grid grid-cols-2 gap-3">
+            <div>
+              <label className="block font-display text-xs font-bold text-text-secondary mb-1.5 uppercase tracking-wide">
+                Min. Subtotal ($)
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="None"
+                value={minSubtotal}
+                onChange={(e) => setMinSubtotal(e.target.value)}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="block font-display text-xs font-bold text-text-secondary mb-1.5 uppercase tracking-wide">
+                Categories
+              </label>
+              <div className="flex flex-wrap gap-3 pt-2">
+                {categoryOptions.map(c => (
+                  <label key={c} className="flex items-center gap-1.5 font-display text-xs text-text-secondary capitalize">
+                    <input
+                      type="checkbox"
+                      checked={categories.includes(c)}
+                      onChange={(e) => setCategories(prev =>
+                        e.target.checked ? [...prev, c] : prev.filter(x => x !== c)
+                      )}
+                    />
+                    {c}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="mb-4">
+            <label className="block font-display text-xs font-bold text-text-secondary mb-1.5 uppercase tracking-wide">
+              Products <span className="text-gray-400">(product types or SKUs, comma separated — blank = all)</span>
+            </label>
+            <input
+              type="text"
+              placeholder={types.slice(0, 2).map(t => t.key).join(', ')}
+              value={products}
+              onChange={(e) => setProducts(e.target.value)}
+              className="input"
+            />
+          </div>
+
+          {/* Limits */}
+          <div className="mb-4 grid grid-cols-2 gap-3">
+            <div>
+              <label className="block font-display text-xs font-bold text-text-secondary mb-1.5 uppercase tracking-wide">
+                Total Uses
+              </label>
+              <input
+                type="number"
+                min="1"
+                placeholder="Unlimited"
+                value={maxRedemptions}
+                onChange={(e) => setMaxRedemptions(e.target.value)}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="block font-display text-xs font-bold text-text-secondary mb-1.5 uppercase tracking-wide">
+                Uses per Customer
+              </label>
+              <input
+                type="number"
+                min="1"
+                placeholder="Unlimited"
+                value={perCustomerLimit}
+                onChange={(e) => setPerCustomerLimit(e.target.value)}
+                className="input"
+              />
+            </div>
+          </div>
+
+          <div className="mb-4">
+            <label className="block font-display text-xs font-bold text-text-secondary mb-1.5 uppercase tracking-wide">
+              Starts <span className="text-gray-400">(blank = now)</span>
+            </label>
+            <input
+              type="datetime-local"
+              value={startsAt}
+              onChange={(e) => setStartsAt(e.target.value)}
+              className="input"
+            />
           </div>
 
           {/* Notes */}
@@ -130,14 +310,14 @@ export default function AdminPromoPage() {
 
           <button
             onClick={handleGenerate}
-            disabled={loading || !email}
+            disabled={!canSubmit}
             className={`w-full py-3 rounded-xl font-display font-bold text-sm transition-colors ${
-              loading || !email
+              !canSubmit
                 ? 'bg-warm-200 text-warm-400 cursor-not-allowed'
                 : 'bg-amber hover:bg-amber-dark text-charcoal-deep cursor-pointer'
             }`}
           >
-            {loading ? 'Generating...' : 'Generate & Send Code'}
+            {loading ? 'Generating...' : email ? 'Generate & Send Code' : 'Generate Code'}
           </button>
         </div>
 
@@ -145,8 +325,9 @@ export default function AdminPromoPage() {
         {result && (
           <div className="mt-6 bg-amber-light border border-amber rounded-2xl p-6">
             <p className="font-display text-sm font-bold text-text-primary mb-3">
-              Code generated and sent!
+              {result.emailed ? 'Code generated and sent!' : 'Code generated!'}
             </p>
+            <p className="font-display text-xs text-text-secondary mb-3">{result.description}</p>
             <div className="bg-charcoal-deep rounded-xl p-4 text-center">
               <span className="font-display text-2xl font-bold text-amber tracking-[4px]">
                 {result.code}
@@ -166,11 +347,7 @@ export default function AdminPromoPage() {
               <a
                 href={`https://wa.me/?text=${encodeURIComponent(
                   `🎉 You got an *OnSite Club* code!\n\n` +
-                  `Use code *${result.code}* at checkout` +
-                  (discountType === 'item_050'
-                    ? ' to get any item for just $0.50 CAD'
-                    : ` for ${discountType.replace('percent_', '')}% off your order`) +
-                  ` + free shipping.\n\n` +
+                  `Use code *${result.code}* at checkout: ${result.description}.\n\n` +
                   `⏳ Limited time — don't miss out!\n\n` +
                   `🛒 shop.onsiteclub.ca\n` +
                   `_Built for those who build._`
@@ -182,9 +359,9 @@ export default function AdminPromoPage() {
                 WhatsApp
               </a>
             </div>
-            {email && (
+            {result.emailed && (
               <p className="font-display text-xs text-amber-dark mt-2">
-                Email sent to {email}. Single use only.
+                Email sent.
               </p>
             )}
           </div>
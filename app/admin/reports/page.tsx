@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import { createClient } from '@/lib/supabase/client';
+import { formatCad as fmtMoney } from '@/lib/currency/format';
 
 // ============================================
 // TYPES
@@ -27,23 +28,33 @@ interface Order {
   shipped_at: string | null;
 }
 
+interface RecoveryStats {
+  abandoned: number;
+  emailed: number;
+  clicked: number;
+  converted: number;
+  revenue: number;
+}
+
 // ============================================
 // HELPERS
 // ============================================
 
 const REPORTABLE_STATUSES = ['shipped', 'delivered', 'archived'];
 
-const fmtMoney = (cents: number) => `CA$${(cents / 100).toFixed(2)}`;
 
 const fmtDateFull = (iso: string) =>
   new Date(iso).toLocaleDateString('en-CA', { year: 'numeric', month: 'short', day: 'numeric' });
 
+const pct = (part: number, whole: number) =>
+  whole > 0 ? `${Math.round((part / whole) * 100)}%` : '—';
+
 const itemCount = (order: Order) =>
   order.items.reduce((sum, i) => sum + (i.qty || 1), 0);
 
 function normalizeStatus(status: string | null | undefined): string {
   if (!status) return 'paid';
-  const known = ['paid', 'processing', 'shipped', 'delivered', 'archived'];
+  const known = ['preorder', 'paid', 'processing', 'ready_for_pickup', 'shipped', 'delivered', 'archived'];
   if (known.includes(status)) return status;
   if (status === 'pending') return 'paid';
   if (status === 'ready_to_ship' || status === 'out_of_stock') return 'processing';
@@ -66,6 +77,7 @@ export default function AdminReportsPage() {
     return d.toISOString().split('T')[0];
   });
   const [endDate, setEndDate] = useState(() => new Date().toISOString().split('T')[0]);
+  const [recovery, setRecovery] = useState<RecoveryStats | null>(null);
 
   const supabase = createClient();
 
@@ -99,6 +111,15 @@ export default function AdminReportsPage() {
     })();
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Abandoned checkout recovery funnel for the same period
+  useEffect(() => {
+    if (!isAdmin) return;
+    fetch(`/api/admin/recovery?from=${startDate}&to=${endDate}`)
+      .then(res => res.json())
+      .then(data => setRecovery(data.stats || null))
+      .catch(() => setRecovery(null));
+  }, [isAdmin, startDate, endDate]);
+
   // Filter orders by date range + reportable statuses
   const reportOrders = orders.filter(order => {
     if (!REPORTABLE_STATUSES.includes(order.status)) return false;
@@ -198,6 +219,39 @@ export default function AdminReportsPage() {
         </p>
       </div>
 
+      {/* Abandoned checkout recovery */}
+      {recovery && (
+        <div className="bg-white rounded-xl p-4 mb-6 shadow-sm border border-warm-200/60">
+          <p className="font-display text-xs font-bold text-text-secondary uppercase tracking-wide mb-3">Abandoned Checkout Recovery</p>
+          <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+            <div>
+              <p className="font-display text-[10px] font-bold uppercase tracking-wide text-text-secondary mb-1">Abandoned</p>
+              <p className="font-display text-xl font-bold text-text-primary">{recovery.abandoned}</p>
+            </div>
+            <div>
+              <p className="font-display text-[10px] font-bold uppercase tracking-wide text-text-secondary mb-1">Emailed</p>
+              <p className="font-display text-xl font-bold text-text-primary">{recovery.emailed}</p>
+            </div>
+            <div>
+              <p className="font-display text-[10px] font-bold uppercase tracking-wide text-text-secondary mb-1">Clicked</p>
+              <p className="font-display text-xl font-bold text-text-primary">
+                {recovery.clicked} <span className="text-xs font-normal text-text-secondary">{pct(recovery.clicked, recovery.emailed)}</span>
+              </p>
+            </div>
+            <div>
+              <p className="font-display text-[10px] font-bold uppercase tracking-wide text-text-secondary mb-1">Recovered</p>
+              <p className="font-display text-xl font-bold text-text-primary">
+                {recovery.converted} <span className="text-xs font-normal text-text-secondary">{pct(recovery.converted, recovery.abandoned)}</span>
+              </p>
+            </div>
+            <div>
+              <p className="font-display text-[10px] font-bold uppercase tracking-wide text-amber-dark mb-1">Recovered Revenue</p>
+              <p className="font-display text-xl font-bold text-amber-dark">{fmtMoney(recovery.revenue)}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Table */}
       {reportOrders.length === 0 ? (
         <div className="text-center py-16">
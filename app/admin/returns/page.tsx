@@ -0,0 +1,291 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { RETURN_STATUS_LABELS, type OrderReturn, type ReturnStatus } from '@/lib/orders/returns';
+
+const STATUS_FILTERS: Array<{ value: ReturnStatus | ''; label: string }> = [
+  { value: '', label: 'All' },
+  { value: 'requested', label: 'Requested' },
+  { value: 'approved', label: 'Label sent' },
+  { value: 'in_transit', label: 'On its way' },
+  { value: 'received', label: 'Received' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'rejected', label: 'Rejected' },
+];
+
+const STATUS_STYLES: Record<ReturnStatus, string> = {
+  requested: 'bg-amber/10 text-amber-dark',
+  approved: 'bg-blue-50 text-blue-700',
+  in_transit: 'bg-blue-50 text-blue-700',
+  received: 'bg-purple-50 text-purple-700',
+  completed: 'bg-green-50 text-green-700',
+  rejected: 'bg-red-50 text-red-600',
+};
+
+type ReturnAction = 'approve' | 'reject' | 'receive' | 'complete';
+
+export default function ReturnsAdminPage() {
+  const [user, setUser] = useState<any>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Returns
+  const [returns, setReturns] = useState<OrderReturn[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ReturnStatus | ''>('requested');
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+
+  // Toast
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const supabase = createClient();
+
+  useEffect(() => {
+    checkAuth();
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin) loadReturns();
+  }, [statusFilter]);
+
+  async function checkAuth() {
+    setIsLoading(true);
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) { setIsLoading(false); return; }
+    setUser(user);
+
+    const { data: admin } = await supabase
+      .from('admin_users')
+      .select('*')
+      .eq('email', user.email)
+      .single();
+
+    if (admin) {
+      setIsAdmin(true);
+      await loadReturns();
+    }
+    setIsLoading(false);
+  }
+
+  async function loadReturns() {
+    try {
+      const res = await fetch(`/api/admin/returns${statusFilter ? `?status=${statusFilter}` : ''}`);
+      const data = await res.json();
+      if (data.returns) {
+        setReturns(data.returns);
+      }
+    } catch {
+      showToast('Failed to load returns', 'error');
+    }
+  }
+
+  function showToast(message: string, type: 'success' | 'error') {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 4000);
+  }
+
+  async function handleAction(ret: OrderReturn, action: ReturnAction) {
+    if (action === 'reject' && !confirm(`Reject ${ret.rma_number}? The customer is emailed your note.`)) return;
+    if (action === 'receive' && !confirm(
+      `Mark ${ret.rma_number} as received? This ${ret.resolution === 'refund' ? 'refunds the customer' : 'creates the replacement order'} right away.`
+    )) return;
+
+    setBusy(ret.id);
+    try {
+      const res = await fetch('/api/admin/returns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: ret.id, action, note: notes[ret.id] || undefined }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        showToast(data.warning || `${ret.rma_number} updated`, data.warning ? 'error' : 'success');
+      } else {
+        showToast('Error: ' + (data.error || 'Unknown'), 'error');
+      }
+      await loadReturns();
+    } catch {
+      showToast('Network error', 'error');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  // Loading
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="flex items-center gap-3">
+          <div className="w-5 h-5 border-2 border-amber border-t-transparent rounded-full animate-spin" />
+          <p className="font-display text-text-primary/60 text-sm">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user || !isAdmin) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <p className="font-display text-text-primary/60 text-sm">Access denied</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {/* Toast */}
+      {toast && (
+        <div
+          className={`fixed top-4 right-4 z-50 px-5 py-3 rounded-xl shadow-lg font-display text-sm flex items-center gap-2 ${
+            toast.type === 'success'
+              ? 'bg-charcoal-deep text-white'
+              : 'bg-red-500 text-white'
+          }`}
+        >
+          {toast.type === 'success' && <span className="text-amber">●</span>}
+          {toast.message}
+        </div>
+      )}
+
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="font-display text-2xl font-extrabold tracking-tight text-text-primary">
+          Returns
+        </h1>
+        <p className="font-body text-sm text-text-secondary mt-0.5">
+          Approve requests to email a Canada Post return label. Refunds and exchanges run when the parcel reaches us.
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {STATUS_FILTERS.map((f) => (
+          <button
+            key={f.value || 'all'}
+            onClick={() => setStatusFilter(f.value)}
+            className={`font-display text-[11px] font-bold py-1.5 px-3 rounded-full transition-colors ${
+              statusFilter === f.value
+                ? 'bg-charcoal-deep text-white'
+                : 'bg-warm-100 text-warm-500 hover:bg-warm-200'
+            }`}
+          >
+            {f.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-warm-200/60 overflow-hidden divide-y divide-warm-100">
+        {returns.length === 0 ? (
+          <p className="text-center py-8 text-warm-400 font-display text-sm">
+            No returns
+          </p>
+        ) : (
+          returns.map((ret) => (
+            <div key={ret.id} className="px-5 py-4">
+              <div className="flex flex-wrap items-center gap-3 mb-2">
+                <span className="font-mono text-sm font-bold text-text-primary">{ret.rma_number}</span>
+                <span className={`font-display text-[10px] font-bold uppercase tracking-wide px-2 py-0.5 rounded-full ${STATUS_STYLES[ret.status]}`}>
+                  {RETURN_STATUS_LABELS[ret.status]}
+                </span>
+                <span className="font-display text-[10px] font-bold uppercase tracking-wide text-warm-400">
+                  {ret.resolution}
+                </span>
+                <span className="font-body text-xs text-text-secondary ml-auto">
+                  Order {ret.order_number} • {ret.email} • {new Date(ret.created_at).toLocaleDateString('en-CA')}
+                </span>
+              </div>
+
+              <ul className="font-body text-sm text-text-primary mb-2">
+                {ret.items.map((line, idx) => (
+                  <li key={idx}>
+                    {line.quantity} × {line.name}
+                    <span className="text-text-secondary">
+                      {[line.color, line.size].filter(Boolean).length > 0 && ` — ${[line.color, line.size].filter(Boolean).join(' / ')}`}
+                      {ret.resolution === 'exchange' && line.exchange_size && ` → ${line.exchange_size}`}
+                    </span>
+                    <span className="font-mono text-[11px] text-warm-400 ml-2">{line.sku}</span>
+                  </li>
+                ))}
+              </ul>
+
+              <p className="font-body text-xs text-text-secondary">
+                <strong>Reason:</strong> {ret.reason}
+                {ret.customer_notes && <> • “{ret.customer_notes}”</>}
+              </p>
+              {ret.admin_notes && (
+                <p className="font-body text-xs text-text-secondary mt-1">
+                  <strong>Staff note:</strong> {ret.admin_notes}
+                </p>
+              )}
+              {(ret.tracking_pin || ret.label_url) && (
+                <p className="font-body text-xs text-text-secondary mt-1">
+                  {ret.tracking_pin && <>Return tracking: <span className="font-mono">{ret.tracking_pin}</span></>}
+                  {ret.tracking_status && ` — ${ret.tracking_status}`}
+                  {ret.label_url && (
+                    <a href={ret.label_url} target="_blank" rel="noopener noreferrer" className="ml-2 text-amber-dark font-bold hover:underline">
+                      Label
+                    </a>
+                  )}
+                </p>
+              )}
+              {ret.refund_id && (
+                <p className="font-body text-xs text-green-700 mt-1">Refund {ret.refund_id}</p>
+              )}
+
+              {/* Actions */}
+              {ret.status === 'requested' && (
+                <div className="flex flex-wrap items-center gap-2 mt-3">
+                  <input
+                    type="text"
+                    placeholder="Note (sent to the customer when rejecting)"
+                    value={notes[ret.id] || ''}
+                    onChange={(e) => setNotes(prev => ({ ...prev, [ret.id]: e.target.value }))}
+                    className="input text-sm flex-1 min-w-[200px]"
+                  />
+                  <button
+                    onClick={() => handleAction(ret, 'approve')}
+                    disabled={busy === ret.id}
+                    className="font-display text-xs font-bold py-2 px-4 rounded-xl bg-amber hover:bg-amber-dark text-charcoal-deep transition-colors disabled:opacity-40"
+                  >
+                    {busy === ret.id ? 'Working...' : 'Approve & Send Label'}
+                  </button>
+                  <button
+                    onClick={() => handleAction(ret, 'reject')}
+                    disabled={busy === ret.id}
+                    className="font-display text-xs font-bold py-2 px-4 rounded-xl bg-warm-100 text-warm-500 hover:bg-warm-200 transition-colors disabled:opacity-40"
+                  >
+                    Reject
+                  </button>
+                </div>
+              )}
+              {(ret.status === 'approved' || ret.status === 'in_transit') && (
+                <div className="mt-3">
+                  <button
+                    onClick={() => handleAction(ret, 'receive')}
+                    disabled={busy === ret.id}
+                    className="font-display text-xs font-bold py-2 px-4 rounded-xl bg-warm-100 text-warm-500 hover:bg-warm-200 transition-colors disabled:opacity-40"
+                  >
+                    {busy === ret.id ? 'Working...' : 'Mark Received'}
+                  </button>
+                </div>
+              )}
+              {ret.status === 'received' && (
+                <div className="mt-3">
+                  <button
+                    onClick={() => handleAction(ret, 'complete')}
+                    disabled={busy === ret.id}
+                    className="font-display text-xs font-bold py-2 px-4 rounded-xl bg-amber hover:bg-amber-dark text-charcoal-deep transition-colors disabled:opacity-40"
+                  >
+                    {busy === ret.id ? 'Working...' : ret.resolution === 'refund' ? 'Retry Refund' : 'Retry Exchange'}
+                  </button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { createClient } from '@/lib/supabase/client';
+
+interface Manifest {
+  id: string;
+  manifest_date: string;
+  group_ids: string[];
+  manifest_url: string;
+  po_number: string | null;
+  pdf_url: string | null;
+  closed_by: string | null;
+  created_at: string;
+}
+
+export default function ShippingPage() {
+  const [user, setUser] = useState<any>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Manifests
+  const [contract, setContract] = useState(false);
+  const [today, setToday] = useState('');
+  const [openGroups, setOpenGroups] = useState<string[]>([]);
+  const [groupsError, setGroupsError] = useState('');
+  const [manifests, setManifests] = useState<Manifest[]>([]);
+  const [closing, setClosing] = useState(false);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  // Toast
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const supabase = createClient();
+
+  useEffect(() => {
+    checkAuth();
+  }, []);
+
+  async function checkAuth() {
+    setIsLoading(true);
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) { setIsLoading(false); return; }
+    setUser(user);
+
+    const { data: admin } = await supabase
+      .from('admin_users')
+      .select('*')
+      .eq('email', user.email)
+      .single();
+
+    if (admin) {
+      setIsAdmin(true);
+      await loadManifests();
+    }
+    setIsLoading(false);
+  }
+
+  async function loadManifests() {
+    try {
+      const res = await fetch('/api/admin/manifests');
+      const data = await res.json();
+      if (!res.ok) {
+        showToast('Error: ' + (data.error || 'Unknown'), 'error');
+        return;
+      }
+      setContract(data.contract);
+      setToday(data.today);
+      setOpenGroups(data.openGroups || []);
+      setGroupsError(data.groupsError || '');
+      setManifests(data.manifests || []);
+    } catch {
+      showToast('Failed to load manifests', 'error');
+    }
+  }
+
+  function showToast(message: string, type: 'success' | 'error') {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 4000);
+  }
+
+  // Close the day — transmit every open group
+  async function handleCloseDay() {
+    const confirmed = confirm(
+      `Transmit ${openGroups.length} group(s) to Canada Post? Labels in them can no longer be voided, only refunded.`
+    );
+    if (!confirmed) return;
+
+    setClosing(true);
+    try {
+      const res = await fetch('/api/admin/manifests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'close' }),
+      });
+      const data = await res.json();
+
+      if (res.ok && !data.error) {
+        showToast(`Day closed — ${data.manifests} manifest(s) saved`, 'success');
+      } else {
+        showToast('Error: ' + (data.error || 'Unknown'), 'error');
+      }
+      await loadManifests();
+    } catch {
+      showToast('Network error', 'error');
+    } finally {
+      setClosing(false);
+    }
+  }
+
+  async function handleRetry(id: string) {
+    setRetryingId(id);
+    try {
+      const res = await fetch('/api/admin/manifests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'retry', id }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        showToast('Manifest PDF saved', 'success');
+        await loadManifests();
+      } else {
+        showToast('Error: ' + (data.error || 'Unknown'), 'error');
+      }
+    } catch {
+      showToast('Network error', 'error');
+    } finally {
+      setRetryingId(null);
+    }
+  }
+
+  // History, newest day first
+  const days = manifests.reduce<Record<string, Manifest[]>>((acc, m) => {
+    (acc[m.manifest_date] ||= []).push(m);
+    return acc;
+  }, {});
+
+  // Loading
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="flex items-center gap-3">
+          <div className="w-5 h-5 border-2 border-amber border-t-transparent rounded-full animate-spin" />
+          <p className="font-display text-text-primary/60 text-sm">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user || !isAdmin) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <p className="font-display text-text-primary/60 text-sm">Access denied</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {/* Toast */}
+      {toast && (
+        <div
+          className={`fixed top-4 right-4 z-50 px-5 py-3 rounded-xl shadow-lg font-display text-sm flex items-center gap-2 ${
+            toast.type === 'success'
+              ? 'bg-charcoal-deep text-white'
+              : 'bg-red-500 text-white'
+          }`}
+        >
+          {toast.type === 'success' && <span className="text-amber">●</span>}
+          {toast.message}
+        </div>
+      )}
+
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="font-display text-2xl font-extrabold tracking-tight text-text-primary">
+          Shipping
+        </h1>
+        <p className="font-body text-sm text-text-secondary mt-0.5">
+          Labels accumulate in a group per day. Close the day to transmit them and get the manifest.
+        </p>
+      </div>
+
+      {!contract ? (
+        <div className="bg-white rounded-2xl shadow-sm border border-warm-200/60 p-5">
+          <p className="font-display text-sm text-text-secondary">
+            Manifests are only used with a Canada Post contract. Non-contract labels are paid when created.
+          </p>
+        </div>
+      ) : (
+        <div className="grid lg:grid-cols-2 gap-6">
+          {/* LEFT — Open groups */}
+          <div className="bg-white rounded-2xl shadow-sm border border-warm-200/60 p-5 self-start">
+            <h2 className="font-display text-sm font-bold text-text-primary uppercase tracking-wide mb-4">
+              Waiting to Transmit
+            </h2>
+
+            {groupsError ? (
+              <p className="font-display text-xs text-red-500 mb-4">{groupsError}</p>
+            ) : openGroups.length === 0 ? (
+              <p className="font-display text-sm text-warm-400 mb-4">No open groups — nothing to transmit.</p>
+            ) : (
+              <ul className="mb-4 space-y-1.5">
+                {openGroups.map((g) => (
+                  <li key={g} className="flex items-center gap-2 font-mono text-xs text-text-primary">
+                    <span className="w-1.5 h-1.5 rounded-full bg-amber" />
+                    {g}
+                    {g === `day-${today.replace(/-/g, '')}` && (
+                      <span className="font-display text-[10px] text-warm-400">today</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <button
+              onClick={handleCloseDay}
+              disabled={closing || openGroups.length === 0}
+              className="w-full py-3.5 bg-amber hover:bg-amber-dark text-charcoal-deep font-display text-sm font-bold rounded-xl transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {closing ? 'Transmitting...' : 'Close the Day'}
+            </button>
+          </div>
+
+          {/* RIGHT — Manifest history */}
+          <div className="bg-white rounded-2xl shadow-sm border border-warm-200/60 overflow-hidden">
+            <div className="px-5 py-4 border-b border-warm-200/60">
+              <h2 className="font-display text-sm font-bold text-text-primary uppercase tracking-wide">
+                Manifest History
+              </h2>
+            </div>
+
+            <div className="max-h-[600px] overflow-y-auto divide-y divide-warm-100">
+              {Object.keys(days).length === 0 ? (
+                <p className="text-center py-8 text-warm-400 font-display text-sm">
+                  No manifests yet
+                </p>
+              ) : (
+                Object.entries(days).map(([date, rows]) => (
+                  <div key={date} className="px-5 py-3">
+                    <p className="font-display text-xs font-bold text-text-secondary uppercase tracking-wide mb-2">
+                      {new Date(`${date}T12:00:00`).toLocaleDateString('en-CA', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}
+                    </p>
+                    {rows.map((m) => (
+                      <div key={m.id} className="flex items-center gap-3 py-1.5">
+                        <div className="flex-1 min-w-0">
+                          <p className="font-display text-sm text-text-primary">
+                            {m.po_number ? `PO ${m.po_number}` : 'Manifest'}
+                          </p>
+                          <p className="font-body text-[11px] text-text-secondary truncate">
+                            {m.group_ids.join(', ')}
+                            {m.closed_by && ` • ${m.closed_by}`}
+                            {' • '}
+                            {new Date(m.created_at).toLocaleTimeString('en-CA', { hour: '2-digit', minute: '2-digit' })}
+                          </p>
+                        </div>
+                        {m.pdf_url ? (
+                          <a
+                            href={m.pdf_url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="font-display text-[11px] font-bold py-1.5 px-3 rounded-full bg-amber/10 text-amber-dark hover:bg-amber/20 transition-colors"
+                          >
+                            PDF
+                          </a>
+                        ) : (
+                          <button
+                            onClick={() => handleRetry(m.id)}
+                            disabled={retryingId === m.id}
+                            className="font-display text-[11px] font-bold py-1.5 px-3 rounded-full bg-warm-100 text-warm-500 hover:bg-warm-200 transition-colors disabled:opacity-40"
+                          >
+                            {retryingId === m.id ? 'Fetching...' : 'Fetch PDF'}
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import type { CatalogIssue, CatalogMismatch, CatalogTable, DriftFlag } from '@/lib/catalog/stripe-sync';
+
+const ISSUE_LABELS: Record<CatalogIssue, string> = {
+  not_synced: 'Not synced',
+  price_missing: 'Price missing',
+  price_archived: 'Price archived',
+  price_amount: 'Amount differs',
+  price_currency: 'Wrong currency',
+  price_unlinked: 'Extra price',
+  product_name: 'Name differs',
+  product_archived: 'Product archived',
+};
+
+const TABLE_LABELS: Record<CatalogTable, string> = {
+  product_types: 'Type',
+  app_shop_products: 'Product',
+};
+
+export default function StripeSyncPage() {
+  const [user, setUser] = useState<any>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Report
+  const [mismatches, setMismatches] = useState<CatalogMismatch[]>([]);
+  const [flags, setFlags] = useState<DriftFlag[]>([]);
+  const [checkedAt, setCheckedAt] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  // Toast
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const supabase = createClient();
+
+  useEffect(() => {
+    checkAuth();
+  }, []);
+
+  async function checkAuth() {
+    setIsLoading(true);
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) { setIsLoading(false); return; }
+    setUser(user);
+
+    const { data: admin } = await supabase
+      .from('admin_users')
+      .select('*')
+      .eq('email', user.email)
+      .single();
+
+    if (admin) {
+      setIsAdmin(true);
+      await loadReport();
+    }
+    setIsLoading(false);
+  }
+
+  async function loadReport() {
+    setRunning(true);
+    try {
+      const res = await fetch('/api/admin/stripe-sync');
+      const data = await res.json();
+      if (res.ok) {
+        setMismatches(data.mismatches || []);
+        setFlags(data.flags || []);
+        setCheckedAt(data.checked_at);
+      } else {
+        showToast('Error: ' + (data.error || 'Unknown'), 'error');
+      }
+    } catch {
+      showToast('Failed to run reconcile', 'error');
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  function showToast(message: string, type: 'success' | 'error') {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 4000);
+  }
+
+  async function post(key: string, body: Record<string, string>, success: string) {
+    setBusy(key);
+    try {
+      const res = await fetch('/api/admin/stripe-sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        showToast(success, 'success');
+        await loadReport();
+      } else {
+        showToast('Error: ' + (data.error || 'Unknown'), 'error');
+      }
+    } catch {
+      showToast('Network error', 'error');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const sync = (table: CatalogTable, id: string, name: string) =>
+    post(`${table}/${id}`, { table, id }, `${name} pushed to Stripe`);
+
+  const dismiss = (flag: DriftFlag) =>
+    post(flag.id, { flagId: flag.id }, 'Flag dismissed');
+
+  // Loading
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="flex items-center gap-3">
+          <div className="w-5 h-5 border-2 border-amber border-t-transparent rounded-full animate-spin" />
+          <p className="font-display text-text-primary/60 text-sm">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user || !isAdmin) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <p className="font-display text-text-primary/60 text-sm">Access denied</p>
+      </div>
+    );
+  }
+
+  const nameFor = (table: CatalogTable, id: string) =>
+    mismatches.find((m) => m.table === table && m.id === id)?.name || id;
+
+  return (
+    <div>
+      {/* Toast */}
+      {toast && (
+        <div
+          className={`fixed top-4 right-4 z-50 px-5 py-3 rounded-xl shadow-lg font-display text-sm flex items-center gap-2 ${
+            toast.type === 'success'
+              ? 'bg-charcoal-deep text-white'
+              : 'bg-red-500 text-white'
+          }`}
+        >
+          {toast.type === 'success' && <span className="text-amber">●</span>}
+          {toast.message}
+        </div>
+      )}
+
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="font-display text-2xl font-extrabold tracking-tight text-text-primary">
+            Stripe Sync
+          </h1>
+          <p className="font-body text-sm text-text-secondary mt-0.5">
+            {mismatches.length === 0 && flags.length === 0
+              ? 'Catalog and Stripe agree'
+              : `${mismatches.length} mismatch${mismatches.length === 1 ? '' : 'es'} • ${flags.length} open webhook flag${flags.length === 1 ? '' : 's'}`}
+            {checkedAt && ` • checked ${new Date(checkedAt).toLocaleTimeString('en-CA', { hour: '2-digit', minute: '2-digit' })}`}
+          </p>
+        </div>
+        <button
+          onClick={loadReport}
+          disabled={running}
+          className="py-2.5 px-5 bg-amber hover:bg-amber-dark text-charcoal-deep font-display text-sm font-bold rounded-xl transition-colors disabled:opacity-40"
+        >
+          {running ? 'Checking...' : 'Run Reconcile'}
+        </button>
+      </div>
+
+      {/* Webhook flags */}
+      {flags.length > 0 && (
+        <div className="bg-white rounded-2xl shadow-sm border border-warm-200/60 overflow-hidden mb-6">
+          <div className="px-5 py-4 border-b border-warm-200/60">
+            <h2 className="font-display text-sm font-bold text-text-primary uppercase tracking-wide">
+              Changed in Stripe
+            </h2>
+          </div>
+          <div className="divide-y divide-warm-100">
+            {flags.map((flag) => (
+              <div key={flag.id} className="flex items-start gap-3 px-5 py-4">
+                <div className="flex-1 min-w-0">
+                  <p className="font-display text-sm font-bold text-text-primary truncate">
+                    {TABLE_LABELS[flag.local_table]} {nameFor(flag.local_table, flag.local_id)}
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-[10px] bg-red-50 text-red-600">
+                      {ISSUE_LABELS[flag.issue] || flag.issue}
+                    </span>
+                  </p>
+                  <p className="font-body text-xs text-text-secondary">{flag.detail}</p>
+                  <p className="font-body text-[10px] text-warm-400">
+                    {new Date(flag.detected_at).toLocaleString('en-CA')} • {flag.stripe_id}
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => sync(flag.local_table, flag.local_id, nameFor(flag.local_table, flag.local_id))}
+                    disabled={busy !== null}
+                    className="font-display text-[11px] font-bold py-1.5 px-3 rounded-full bg-amber/10 text-amber-dark hover:bg-amber/20 transition-colors disabled:opacity-40"
+                  >
+                    Push Store Price
+                  </button>
+                  <button
+                    onClick={() => dismiss(flag)}
+                    disabled={busy !== null}
+                    className="font-display text-[11px] font-bold py-1.5 px-3 rounded-full bg-warm-100 text-warm-500 hover:bg-warm-200 transition-colors disabled:opacity-40"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Reconcile report */}
+      <div className="bg-white rounded-2xl shadow-sm border border-warm-200/60 overflow-hidden">
+        <div className="px-5 py-4 border-b border-warm-200/60">
+          <h2 className="font-display text-sm font-bold text-text-primary uppercase tracking-wide">
+            Reconcile
+          </h2>
+        </div>
+
+        <div className="divide-y divide-warm-100">
+          {mismatches.length === 0 ? (
+            <p className="text-center py-8 text-warm-400 font-display text-sm">
+              {running ? 'Comparing with Stripe...' : 'Every product type and priced product matches Stripe'}
+            </p>
+          ) : (
+            mismatches.map((m, i) => (
+              <div key={`${m.table}-${m.id}-${m.issue}-${i}`} className="flex items-start gap-3 px-5 py-4">
+                <div className="flex-1 min-w-0">
+                  <p className="font-display text-sm font-bold text-text-primary truncate">
+                    <span className="font-normal text-warm-400">{TABLE_LABELS[m.table]}</span> {m.name}
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-[10px] bg-amber/10 text-amber-dark">
+                      {ISSUE_LABELS[m.issue] || m.issue}
+                    </span>
+                  </p>
+                  <p className="font-body text-xs text-text-secondary">{m.detail}</p>
+                </div>
+                {m.issue !== 'price_unlinked' && (
+                  <button
+                    onClick={() => sync(m.table, m.id, m.name)}
+                    disabled={busy !== null}
+                    className="shrink-0 font-display text-[11px] font-bold py-1.5 px-3 rounded-full bg-amber/10 text-amber-dark hover:bg-amber/20 transition-colors disabled:opacity-40"
+                  >
+                    {busy === `${m.table}/${m.id}` ? 'Syncing...' : 'Sync'}
+                  </button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="px-5 py-3 bg-warm-50 border-t border-warm-200/60">
+          <p className="font-display text-[10px] text-warm-400">
+            Sync pushes the store’s name and price to Stripe: a new price is created and the old one archived.
+            Extra prices added in the Stripe dashboard are left alone — archive them there.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
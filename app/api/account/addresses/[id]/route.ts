@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { parseAddressInput } from '@/lib/account/addresses';
+
+/**
+ * PATCH  /api/account/addresses/:id — edit an address (or make it the default)
+ * DELETE /api/account/addresses/:id — remove it
+ */
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const parsed = parseAddressInput(await req.json().catch(() => null), true);
+  if (!parsed.data) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  if (parsed.data.is_default) {
+    await supabase
+      .from('app_shop_addresses')
+      .update({ is_default: false })
+      .eq('user_id', user.id)
+      .eq('is_default', true)
+      .neq('id', params.id);
+  }
+
+  const { data, error } = await supabase
+    .from('app_shop_addresses')
+    .update(parsed.data)
+    .eq('id', params.id)
+    .eq('user_id', user.id)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error('[account/addresses] Update error:', error);
+    return NextResponse.json({ error: 'Failed to update address' }, { status: 500 });
+  }
+  if (!data) {
+    return NextResponse.json({ error: 'Address not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ address: data });
+}
+
+export async function DELETE(_req: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const { data, error } = await supabase
+    .from('app_shop_addresses')
+    .delete()
+    .eq('id', params.id)
+    .eq('user_id', user.id)
+    .select('id, is_default')
+    .maybeSingle();
+
+  if (error) {
+    console.error('[account/addresses] Delete error:', error);
+    return NextResponse.json({ error: 'Failed to delete address' }, { status: 500 });
+  }
+  if (!data) {
+    return NextResponse.json({ error: 'Address not found' }, { status: 404 });
+  }
+
+  // Keep a default around if any addresses remain
+  if (data.is_default) {
+    const { data: next } = await supabase
+      .from('app_shop_addresses')
+      .select('id')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+    if (next) {
+      await supabase.from('app_shop_addresses').update({ is_default: true }).eq('id', next.id);
+    }
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { parseAddressInput } from '@/lib/account/addresses';
+
+const MAX_ADDRESSES = 10;
+
+/**
+ * GET  /api/account/addresses — the signed-in customer's address book
+ * POST /api/account/addresses — add an address
+ *
+ * Uses the cookie session client: app_shop_addresses RLS scopes every
+ * query to auth.uid().
+ */
+export async function GET() {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const { data, error } = await supabase
+    .from('app_shop_addresses')
+    .select('*')
+    .order('is_default', { ascending: false })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('[account/addresses] Fetch error:', error);
+    return NextResponse.json({ error: 'Failed to load addresses' }, { status: 500 });
+  }
+
+  return NextResponse.json({ addresses: data });
+}
+
+export async function POST(req: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const parsed = parseAddressInput(await req.json().catch(() => null));
+  if (!parsed.data) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const { count } = await supabase
+    .from('app_shop_addresses')
+    .select('id', { count: 'exact', head: true });
+  if ((count || 0) >= MAX_ADDRESSES) {
+    return NextResponse.json({ error: `You can save up to ${MAX_ADDRESSES} addresses` }, { status: 400 });
+  }
+
+  // First address becomes the default
+  const isDefault = parsed.data.is_default || (count || 0) === 0;
+  if (isDefault) {
+    await supabase.from('app_shop_addresses').update({ is_default: false }).eq('user_id', user.id).eq('is_default', true);
+  }
+
+  const { data, error } = await supabase
+    .from('app_shop_addresses')
+    .insert({ ...parsed.data, is_default: isDefault, user_id: user.id })
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('[account/addresses] Insert error:', error);
+    return NextResponse.json({ error: 'Failed to save address' }, { status: 500 });
+  }
+
+  return NextResponse.json({ address: data });
+}
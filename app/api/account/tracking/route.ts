@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getAccountOrder } from '@/lib/account/data';
+import { getTracking } from '@/lib/canada-post/tracking';
+
+/**
+ * GET /api/account/tracking?order_id=<uuid>
+ * Live Canada Post tracking for every parcel of one of the signed-in
+ * customer's orders. Fetched on demand (when the order is expanded) rather
+ * than on page load.
+ */
+export async function GET(req: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const orderId = req.nextUrl.searchParams.get('order_id');
+  if (!orderId) {
+    return NextResponse.json({ error: 'Missing order_id' }, { status: 400 });
+  }
+
+  try {
+    const order = await getAccountOrder(user, orderId);
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+    // One at a time — Canada Post rate-limits per API key
+    const parcels = [];
+    for (const pin of order.tracking_codes) {
+      parcels.push(await getTracking(pin));
+    }
+    return NextResponse.json({ parcels });
+  } catch (err) {
+    console.error('[account/tracking] Error:', err);
+    return NextResponse.json({ error: 'Could not load tracking' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getCurrencyRateRows, setCurrencyRate } from '@/lib/currency/rates'
+import { DEFAULT_RATES, isDisplayCurrency } from '@/lib/currency/format'
+
+async function verifyAdmin() {
+  const cookieStore = cookies()
+  const authClient = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() { return cookieStore.getAll() },
+        setAll() {},
+      },
+    }
+  )
+  const { data: { user } } = await authClient.auth.getUser()
+  if (!user?.email) return null
+  const { data: admin } = await authClient
+    .from('admin_users')
+    .select('email')
+    .eq('email', user.email)
+    .single()
+  return admin ? user : null
+}
+
+// GET — stored display rates, plus the built-in defaults used when a row is missing
+export async function GET() {
+  const adminUser = await verifyAdmin()
+  if (!adminUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { rows, error } = await getCurrencyRateRows()
+  if (error) {
+    return NextResponse.json({ error: 'Database error' }, { status: 500 })
+  }
+
+  return NextResponse.json({ rates: rows, defaults: DEFAULT_RATES })
+}
+
+// POST — { currency: 'USD' | 'EUR', rate } (units per 1 CAD)
+export async function POST(req: NextRequest) {
+  const adminUser = await verifyAdmin()
+  if (!adminUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { currency, rate } = await req.json()
+  if (!isDisplayCurrency(currency)) {
+    return NextResponse.json({ error: 'Unknown currency' }, { status: 400 })
+  }
+
+  const { error } = await setCurrencyRate(currency, Number(rate), adminUser.email!)
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 })
+  }
+
+  return NextResponse.json({ success: true })
+}
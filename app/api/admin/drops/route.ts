@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getDropCalendar, saveDropSchedule, type DropTable } from '@/lib/catalog/drops'
+
+/**
+ * GET  /api/admin/drops — every product and collection with its publish window
+ * POST /api/admin/drops
+ *      { table, id, publish_at, unpublish_at, early_access_at }
+ *      schedule one product or collection — null clears a field
+ */
+
+async function verifyAdmin() {
+  const cookieStore = cookies()
+  const authClient = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() { return cookieStore.getAll() },
+        setAll() {},
+      },
+    }
+  )
+  const { data: { user } } = await authClient.auth.getUser()
+  if (!user?.email) return null
+  const { data: admin } = await authClient
+    .from('admin_users')
+    .select('email')
+    .eq('email', user.email)
+    .single()
+  return admin ? user : null
+}
+
+const TABLES: DropTable[] = ['app_shop_products', 'categories']
+
+export async function GET() {
+  const adminUser = await verifyAdmin()
+  if (!adminUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { entries, error } = await getDropCalendar()
+  if (error) return NextResponse.json({ error }, { status: 500 })
+  return NextResponse.json({ entries })
+}
+
+export async function POST(req: NextRequest) {
+  const adminUser = await verifyAdmin()
+  if (!adminUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await req.json()
+  if (!TABLES.includes(body.table) || typeof body.id !== 'string' || !body.id) {
+    return NextResponse.json({ error: 'table and id are required' }, { status: 400 })
+  }
+
+  const result = await saveDropSchedule(body.table, body.id, body)
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 })
+  }
+
+  console.log(`[admin/drops] ${body.table}/${body.id} scheduled by ${adminUser.email}`)
+  return NextResponse.json({ success: true })
+}
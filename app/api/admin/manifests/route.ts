@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getManifest, getOpenGroups } from '@/lib/canada-post/manifest'
+import { dayGroupId, downloadLabel, shippingDay, transmitShipments } from '@/lib/canada-post/shipment'
+
+function getServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+async function verifyAdmin() {
+  const cookieStore = cookies()
+  const authClient = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() { return cookieStore.getAll() },
+        setAll() {},
+      },
+    }
+  )
+  const { data: { user } } = await authClient.auth.getUser()
+  if (!user?.email) return null
+  const { data: admin } = await authClient
+    .from('admin_users')
+    .select('email')
+    .eq('email', user.email)
+    .single()
+  return admin ? user : null
+}
+
+const HISTORY_DAYS = 90
+
+/** Copy a manifest PDF into the shipping-labels bucket. Returns the public URL. */
+async function storeManifestPdf(supabase: SupabaseClient, manifest: { id: string; manifest_url: string; manifest_date: string }) {
+  const info = await getManifest(manifest.manifest_url)
+  if (info.error || !info.artifactUrl) {
+    return { error: info.error || 'Manifest has no PDF yet' }
+  }
+
+  const { pdf, error: downloadError } = await downloadLabel(info.artifactUrl)
+  if (downloadError || !pdf.length) return { poNumber: info.poNumber, error: downloadError || 'Empty manifest PDF' }
+
+  const fileName = `manifests/${manifest.manifest_date}-${info.poNumber || manifest.id}.pdf`
+  const { error: uploadError } = await supabase.storage
+    .from('shipping-labels')
+    .upload(fileName, pdf, { contentType: 'application/pdf', upsert: true })
+  if (uploadError) return { poNumber: info.poNumber, error: `Manifest upload failed: ${uploadError.message}` }
+
+  const pdfUrl = supabase.storage.from('shipping-labels').getPublicUrl(fileName).data.publicUrl
+  const { error: updateError } = await supabase
+    .from('shipping_manifests')
+    .update({ po_number: info.poNumber || null, pdf_url: pdfUrl })
+    .eq('id', manifest.id)
+  if (updateError) return { poNumber: info.poNumber, error: `Manifest update failed: ${updateError.message}` }
+
+  return { poNumber: info.poNumber, pdfUrl }
+}
+
+// GET — open groups + manifest history
+export async function GET() {
+  const adminUser = await verifyAdmin()
+  if (!adminUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const contract = !!process.env.CANADAPOST_CONTRACT_ID
+  const supabase = getServiceClient()
+
+  const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000)
+  const { data: manifests, error } = await supabase
+    .from('shipping_manifests')
+    .select('*')
+    .gte('manifest_date', shippingDay(since))
+    .order('manifest_date', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('[admin/manifests] DB error:', error)
+    return NextResponse.json({ error: 'Database error' }, { status: 500 })
+  }
+
+  const open = contract ? await getOpenGroups() : { groupIds: [] as string[] }
+
+  return NextResponse.json({
+    contract,
+    today: shippingDay(),
+    todayGroup: dayGroupId(),
+    openGroups: open.groupIds,
+    ...(open.error ? { groupsError: open.error } : {}),
+    manifests: manifests || [],
+  })
+}
+
+// POST — { action: 'close' } transmits every open group; { action: 'retry', id } re-fetches a manifest PDF
+export async function POST(req: NextRequest) {
+  const adminUser = await verifyAdmin()
+  if (!adminUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!process.env.CANADAPOST_CONTRACT_ID) {
+    return NextResponse.json({ error: 'Manifests are only used with a Canada Post contract' }, { status: 400 })
+  }
+
+  const { action, id } = await req.json()
+  const supabase = getServiceClient()
+
+  try {
+    if (action === 'retry') {
+      const { data: manifest } = await supabase
+        .from('shipping_manifests')
+        .select('id, manifest_url, manifest_date')
+        .eq('id', id)
+        .maybeSingle()
+      if (!manifest) return NextResponse.json({ error: 'Manifest not found' }, { status: 404 })
+
+      const stored = await storeManifestPdf(supabase, manifest)
+      if (stored.error) return NextResponse.json({ error: stored.error }, { status: 502 })
+      return NextResponse.json({ success: true, pdfUrl: stored.pdfUrl })
+    }
+
+    if (action !== 'close') {
+      return NextResponse.json({ error: 'Unknown action' }, { status: 400 })
+    }
+
+    // 1. Everything not yet transmitted — today's group and any day left open
+    const open = await getOpenGroups()
+    if (open.error) return NextResponse.json({ error: open.error }, { status: 502 })
+    if (open.groupIds.length === 0) {
+      return NextResponse.json({ error: 'No shipments waiting to be transmitted' }, { status: 400 })
+    }
+
+    // 2. One transmit for all groups
+    const transmit = await transmitShipments(open.groupIds)
+    if (transmit.error) return NextResponse.json({ error: transmit.error }, { status: 502 })
+    console.log(`[admin/manifests] Transmitted ${open.groupIds.join(', ')} → ${transmit.manifestUrls.length} manifest(s)`)
+
+    // 3. Record each manifest, then copy its PDF (a failed copy can be retried)
+    const manifestDate = shippingDay()
+    const { data: rows, error: insertError } = await supabase
+      .from('shipping_manifests')
+      .upsert(transmit.manifestUrls.map(url => ({
+        manifest_date: manifestDate,
+        group_ids: open.groupIds,
+        manifest_url: url,
+        closed_by: adminUser.email,
+      })), { onConflict: 'manifest_url' })
+      .select('id, manifest_url, manifest_date')
+    if (insertError) throw new Error(`Manifest save failed: ${insertError.message}`)
+
+    const errors: string[] = []
+    for (const row of rows || []) {
+      const stored = await storeManifestPdf(supabase, row)
+      if (stored.error) errors.push(stored.error)
+    }
+
+    return NextResponse.json({
+      success: true,
+      groupIds: open.groupIds,
+      manifests: rows?.length || 0,
+      ...(errors.length > 0 ? { error: `Transmitted, but ${errors.join('; ')}` } : {}),
+    })
+  } catch (error: any) {
+    console.error('[admin/manifests] Error:', error)
+    return NextResponse.json({ error: error.message || 'Failed to close the day' }, { status: 500 })
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getPickupLocations, savePickupLocation } from '@/lib/checkout/pickup'
+
+async function verifyAdmin() {
+  const cookieStore = cookies()
+  const authClient = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() { return cookieStore.getAll() },
+        setAll() {},
+      },
+    }
+  )
+  const { data: { user } } = await authClient.auth.getUser()
+  if (!user?.email) return null
+  const { data: admin } = await authClient
+    .from('admin_users')
+    .select('email')
+    .eq('email', user.email)
+    .single()
+  return admin ? user : null
+}
+
+// GET — every location, inactive ones included
+export async function GET() {
+  const adminUser = await verifyAdmin()
+  if (!adminUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { locations, error } = await getPickupLocations(false)
+  if (error) {
+    return NextResponse.json({ error: 'Database error' }, { status: 500 })
+  }
+
+  return NextResponse.json({ locations })
+}
+
+// POST — create (no id) or update a location; deactivate with active: false
+export async function POST(req: NextRequest) {
+  const adminUser = await verifyAdmin()
+  if (!adminUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await req.json()
+  const { location, error } = await savePickupLocation({
+    id: typeof body.id === 'string' ? body.id : undefined,
+    name: String(body.name || ''),
+    street: String(body.street || ''),
+    city: String(body.city || ''),
+    province: String(body.province || ''),
+    postal_code: String(body.postal_code || ''),
+    hours: String(body.hours || ''),
+    instructions: body.instructions ? String(body.instructions) : null,
+    active: body.active !== false,
+    sort_order: Number(body.sort_order) || 0,
+  })
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 })
+  }
+
+  return NextResponse.json({ success: true, location })
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import Stripe from 'stripe'
+import { createClient } from '@supabase/supabase-js'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getProductTypes, saveProductType } from '@/lib/catalog/product-types'
+import { syncCatalogItem } from '@/lib/catalog/stripe-sync'
+
+async function verifyAdmin() {
+  const cookieStore = cookies()
+  const authClient = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() { return cookieStore.getAll() },
+        setAll() {},
+      },
+    }
+  )
+  const { data: { user } } = await authClient.auth.getUser()
+  if (!user?.email) return null
+  const { data: admin } = await authClient
+    .from('admin_users')
+    .select('email')
+    .eq('email', user.email)
+    .single()
+  return admin ? user : null
+}
+
+// GET — every product type, inactive ones included
+export async function GET() {
+  const adminUser = await verifyAdmin()
+  if (!adminUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { types, error } = await getProductTypes()
+  if (error) {
+    return NextResponse.json({ error: 'Database error' }, { status: 500 })
+  }
+
+  return NextResponse.json({ types })
+}
+
+// POST — create or update a type by key; deactivate with active: false.
+// The Stripe Product and Price follow; a sync failure doesn't undo the save.
+export async function POST(req: NextRequest) {
+  const adminUser = await verifyAdmin()
+  if (!adminUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await req.json()
+  const { type, error } = await saveProductType({
+    key: String(body.key || ''),
+    name: String(body.name || ''),
+    category: String(body.category || ''),
+    price: Number(body.price),
+    sku: String(body.sku || ''),
+    sku_prefix: String(body.sku_prefix || ''),
+    sizes: Array.isArray(body.sizes) ? body.sizes.map(String) : [],
+    weight: Number(body.weight),
+    length: Number(body.length),
+    width: Number(body.width),
+    height: Number(body.height),
+    hs_code: String(body.hs_code || ''),
+    origin_country: String(body.origin_country || ''),
+    active: body.active !== false,
+    sort_order: Number(body.sort_order) || 0,
+  })
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 })
+  }
+
+  console.log(`[admin/product-types] ${type!.key} saved by ${adminUser.email}`)
+
+  let syncError: string | undefined = 'Stripe not configured'
+  if (process.env.STRIPE_SECRET_KEY) {
+    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
+      apiVersion: '2025-12-15.clover',
+    })
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    )
+    syncError = (await syncCatalogItem(stripe, supabase, 'product_types', type!.key)).error
+  }
+
+  return NextResponse.json({ success: true, type, syncError })
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { ensureVariantMatrix, saveVariants } from '@/lib/catalog/product-variants'
+import { pendingAlertCounts, sendBackInStockAlerts } from '@/lib/inventory/stock-alerts'
+
+/**
+ * POST /api/admin/product-variants
+ *      { product_id }             fill in the product's size × color matrix
+ *      { product_id, variants }   also save per-variant price, weight, images,
+ *                                 active, stock and pre-order settings
+ * Both return the product's variants and their waiting "notify me" counts.
+ */
+
+async function verifyAdmin() {
+  const cookieStore = cookies()
+  const authClient = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() { return cookieStore.getAll() },
+        setAll() {},
+      },
+    }
+  )
+  const { data: { user } } = await authClient.auth.getUser()
+  if (!user?.email) return null
+  const { data: admin } = await authClient
+    .from('admin_users')
+    .select('email')
+    .eq('email', user.email)
+    .single()
+  return admin ? user : null
+}
+
+export async function POST(req: NextRequest) {
+  const adminUser = await verifyAdmin()
+  if (!adminUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await req.json()
+  if (typeof body.product_id !== 'string' || !body.product_id) {
+    return NextResponse.json({ error: 'product_id is required' }, { status: 400 })
+  }
+
+  // Matrix first, so newly added sizes or colors can be edited straight away
+  const matrix = await ensureVariantMatrix(body.product_id)
+  if (matrix.error && matrix.variants.length === 0) {
+    return NextResponse.json({ error: matrix.error }, { status: matrix.error === 'Product not found' ? 404 : 500 })
+  }
+
+  if (Array.isArray(body.variants) && body.variants.length > 0) {
+    const { error } = await saveVariants(body.product_id, body.variants)
+    if (error) return NextResponse.json({ error }, { status: 400 })
+
+    // Restocked variants go out to their "notify me" list straight away
+    const alerts = await sendBackInStockAlerts(body.variants.map((v: { id: string }) => v.id)).catch(err => {
+      console.error('[admin/product-variants] Back-in-stock alerts failed:', err)
+      return null
+    })
+    if (alerts?.sent) console.log(`[admin/product-variants] ${alerts.sent} back-in-stock email(s) sent`)
+
+    const saved = await ensureVariantMatrix(body.product_id)
+    return NextResponse.json({ variants: saved.variants, alerts: await alertCounts(body.product_id), notified: alerts?.sent ?? 0 })
+  }
+
+  return NextResponse.json({ variants: matrix.variants, alerts: await alertCounts(body.product_id) })
+}
+
+/** Waiting "notify me" sign-ups per variant — an empty map if they can't be read */
+async function alertCounts(productId: string): Promise<Record<string, number>> {
+  return pendingAlertCounts(productId).catch(err => {
+    console.error('[admin/product-variants] Alert count failed:', err)
+    return {}
+  })
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { getRecoveryStats } from '@/lib/checkout/cart-recovery';
+
+/** Verify caller is an authenticated admin via session cookie */
+async function verifyAdmin() {
+  const cookieStore = cookies();
+  const authClient = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() { return cookieStore.getAll(); },
+        setAll() {},
+      },
+    }
+  );
+
+  const { data: { user } } = await authClient.auth.getUser();
+  if (!user?.email) return null;
+
+  const { data: admin } = await authClient
+    .from('admin_users')
+    .select('email')
+    .eq('email', user.email)
+    .single();
+
+  return admin ? user : null;
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/admin/recovery?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Abandoned-checkout recovery funnel for carts abandoned in the range.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const user = await verifyAdmin();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+    }
+
+    const from = req.nextUrl.searchParams.get('from') || '';
+    const to = req.nextUrl.searchParams.get('to') || '';
+    if (!DATE_RE.test(from) || !DATE_RE.test(to)) {
+      return NextResponse.json({ error: 'from and to must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const stats = await getRecoveryStats(new Date(`${from}T00:00:00Z`), new Date(`${to}T23:59:59.999Z`));
+    return NextResponse.json({ stats });
+  } catch (error: any) {
+    console.error('[ADMIN-RECOVERY] Error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to load stats' }, { status: 500 });
+  }
+}
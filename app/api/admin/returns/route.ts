@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { approveReturn, completeReturn, receiveReturn, rejectReturn } from '@/lib/orders/return-sync'
+import type { OrderReturn } from '@/lib/orders/returns'
+
+function getServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+async function verifyAdmin() {
+  const cookieStore = cookies()
+  const authClient = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() { return cookieStore.getAll() },
+        setAll() {},
+      },
+    }
+  )
+  const { data: { user } } = await authClient.auth.getUser()
+  if (!user?.email) return null
+  const { data: admin } = await authClient
+    .from('admin_users')
+    .select('email')
+    .eq('email', user.email)
+    .single()
+  return admin ? user : null
+}
+
+// GET — returns, newest first (?status=requested to filter)
+export async function GET(req: NextRequest) {
+  const adminUser = await verifyAdmin()
+  if (!adminUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const status = req.nextUrl.searchParams.get('status')
+  let query = getServiceClient()
+    .from('order_returns')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(200)
+  if (status) query = query.eq('status', status)
+
+  const { data, error } = await query
+  if (error) {
+    console.error('[admin/returns] DB error:', error)
+    return NextResponse.json({ error: 'Database error' }, { status: 500 })
+  }
+
+  return NextResponse.json({ returns: data || [] })
+}
+
+// POST — { id, action: 'approve' | 'reject' | 'receive' | 'complete', note? }
+//   receive: parcel arrived without tracking (or before the poller saw it)
+//   complete: retry a refund/exchange that failed after receipt
+export async function POST(req: NextRequest) {
+  const adminUser = await verifyAdmin()
+  if (!adminUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { id, action, note } = await req.json()
+  if (!id || !action) {
+    return NextResponse.json({ error: 'Missing id or action' }, { status: 400 })
+  }
+
+  const supabase = getServiceClient()
+  const { data: ret } = await supabase
+    .from('order_returns')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+  if (!ret) {
+    return NextResponse.json({ error: 'Return not found' }, { status: 404 })
+  }
+
+  const adminNote = typeof note === 'string' && note.trim() ? note.trim().slice(0, 1000) : undefined
+
+  try {
+    let updated: OrderReturn
+    let warning: string | undefined
+
+    switch (action) {
+      case 'approve': {
+        const result = await approveReturn(supabase, ret, adminUser.email!, adminNote)
+        updated = result.ret
+        if (result.labelError) warning = `Approved without a label: ${result.labelError}. The customer was sent mailing instructions.`
+        break
+      }
+      case 'reject':
+        updated = await rejectReturn(supabase, ret, adminNote)
+        break
+      case 'receive':
+        updated = await receiveReturn(supabase, ret)
+        break
+      case 'complete':
+        updated = await completeReturn(supabase, ret)
+        break
+      default:
+        return NextResponse.json({ error: 'Unknown action' }, { status: 400 })
+    }
+
+    console.log(`[admin/returns] ${ret.rma_number} ${action} by ${adminUser.email}`)
+    return NextResponse.json({ success: true, return: updated, ...(warning ? { warning } : {}) })
+  } catch (error: any) {
+    console.error(`[admin/returns] ${action} failed:`, error)
+    return NextResponse.json({ error: error.message || 'Return update failed' }, { status: 500 })
+  }
+}
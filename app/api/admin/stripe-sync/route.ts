@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import Stripe from 'stripe'
+import { createClient } from '@supabase/supabase-js'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import {
+  getOpenDriftFlags,
+  reconcileCatalog,
+  resolveDriftFlag,
+  syncCatalogItem,
+  type CatalogTable,
+} from '@/lib/catalog/stripe-sync'
+
+/**
+ * GET  /api/admin/stripe-sync — reconcile report: every mismatch between the
+ *      catalog and Stripe, plus open drift flags raised by webhooks
+ * POST /api/admin/stripe-sync
+ *      { table, id }  push one product type (key) or product (id) to Stripe
+ *      { flagId }     dismiss a drift flag
+ */
+
+function getServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+async function verifyAdmin() {
+  const cookieStore = cookies()
+  const authClient = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() { return cookieStore.getAll() },
+        setAll() {},
+      },
+    }
+  )
+  const { data: { user } } = await authClient.auth.getUser()
+  if (!user?.email) return null
+  const { data: admin } = await authClient
+    .from('admin_users')
+    .select('email')
+    .eq('email', user.email)
+    .single()
+  return admin ? user : null
+}
+
+const TABLES: CatalogTable[] = ['product_types', 'app_shop_products']
+
+export async function GET() {
+  const adminUser = await verifyAdmin()
+  if (!adminUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!process.env.STRIPE_SECRET_KEY) {
+    return NextResponse.json({ error: 'Stripe not configured' }, { status: 500 })
+  }
+
+  const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
+    apiVersion: '2025-12-15.clover',
+  })
+  const supabase = getServiceClient()
+
+  try {
+    const [mismatches, flags] = await Promise.all([
+      reconcileCatalog(stripe, supabase),
+      getOpenDriftFlags(supabase),
+    ])
+    return NextResponse.json({ mismatches, flags, checked_at: new Date().toISOString() })
+  } catch (err: any) {
+    console.error('[admin/stripe-sync] Reconcile failed:', err?.message || err)
+    return NextResponse.json({ error: 'Reconcile failed' }, { status: 500 })
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const adminUser = await verifyAdmin()
+  if (!adminUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await req.json()
+  const supabase = getServiceClient()
+
+  if (typeof body.flagId === 'string') {
+    const { error } = await resolveDriftFlag(supabase, body.flagId, adminUser.email!)
+    if (error) return NextResponse.json({ error }, { status: 500 })
+    return NextResponse.json({ success: true })
+  }
+
+  if (!TABLES.includes(body.table) || typeof body.id !== 'string' || !body.id) {
+    return NextResponse.json({ error: 'table and id are required' }, { status: 400 })
+  }
+  if (!process.env.STRIPE_SECRET_KEY) {
+    return NextResponse.json({ error: 'Stripe not configured' }, { status: 500 })
+  }
+
+  const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
+    apiVersion: '2025-12-15.clover',
+  })
+  const result = await syncCatalogItem(stripe, supabase, body.table, body.id)
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: 502 })
+  }
+
+  console.log(`[admin/stripe-sync] ${body.table}/${body.id} synced by ${adminUser.email}`)
+  return NextResponse.json({ success: true, price_id: result.priceId, created: result.created })
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { restoreCart } from '@/lib/checkout/cart-recovery'
+
+/**
+ * POST /api/cart/recover
+ * Body: { token: string } — from a recovery email link
+ *
+ * Returns the saved cart so the client can rebuild its cart store. The token
+ * is HMAC-signed, so cart ids can't be guessed.
+ */
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => null)
+  const token = typeof body?.token === 'string' ? body.token.trim() : ''
+  if (!token || token.length > 200) {
+    return NextResponse.json({ error: 'Missing recovery token' }, { status: 400 })
+  }
+
+  try {
+    const result = await restoreCart(token)
+    if ('error' in result) {
+      return NextResponse.json(result, { status: result.code === 'invalid' ? 404 : 410 })
+    }
+    return NextResponse.json(result, { headers: { 'Cache-Control': 'no-store' } })
+  } catch (err) {
+    console.error('[cart-recover] Restore error:', err)
+    return NextResponse.json({ error: 'Could not restore your cart at this time.' }, { status: 500 })
+  }
+}
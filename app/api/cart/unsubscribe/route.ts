@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { unsubscribeFromRecovery } from '@/lib/checkout/cart-recovery'
+
+/**
+ * POST /api/cart/unsubscribe
+ * Body: { token: string } — from the /cart/unsubscribe page
+ * or ?token=… — one-click from the List-Unsubscribe header (RFC 8058)
+ *
+ * Stops cart recovery emails to the cart's address for good. The token is
+ * HMAC-signed, so it only works for the cart it was emailed about.
+ */
+export async function POST(req: NextRequest) {
+  // One-click unsubscribes post a form body, not JSON
+  const body = await req.json().catch(() => null)
+  const raw = typeof body?.token === 'string' ? body.token : req.nextUrl.searchParams.get('token') || ''
+  const token = raw.trim()
+  if (!token || token.length > 200) {
+    return NextResponse.json({ error: 'Missing unsubscribe token' }, { status: 400 })
+  }
+
+  try {
+    const result = await unsubscribeFromRecovery(token)
+    if ('error' in result) return NextResponse.json(result, { status: 404 })
+    return NextResponse.json(result, { headers: { 'Cache-Control': 'no-store' } })
+  } catch (err) {
+    console.error('[cart-unsubscribe] Unsubscribe error:', err)
+    return NextResponse.json({ error: 'Could not unsubscribe you at this time.' }, { status: 500 })
+  }
+}
@@ -1,42 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Stripe from 'stripe';
 import {
-  STRIPE_PRODUCTS,
-  FREE_SHIPPING_THRESHOLD,
+  COUNTRY_SHIPPING,
+  PICKUP_SERVICE_CODE,
   PROVINCE_SHIPPING,
-  type ProductKey,
+  isShippingCountry,
+  qualifiesForFreeShipping,
 } from '@/lib/stripe-config';
+import { calculateTax, taxProvince } from '@/lib/checkout/tax';
+import { detectProvinceFromPostal, isValidPostal, postalMatchesProvince } from '@/lib/checkout/postal-utils';
+import { priceCart } from '@/lib/checkout/pricing';
+import { applyPromoDiscount } from '@/lib/promo/applyDiscount';
+import { lookupPromoCode, holdPromoCode, releasePromoHold } from '@/lib/promo/codes';
+import type { PromoRule } from '@/lib/promo/rules';
+import { reserveStock, releaseStockReservation } from '@/lib/inventory/reservations';
+import { createClient as createSessionClient } from '@/lib/supabase/server';
+import { saveCheckoutCart, isCartId } from '@/lib/checkout/cart-recovery';
+import { saveCheckoutItems, toCheckoutItem, type CheckoutItem } from '@/lib/checkout/checkout-items';
+import { cartParcels, normalizePostal, packageHash, quoteCart, verifyShippingQuote } from '@/lib/checkout/shipping-quote';
+import { getPickupLocation, type PickupLocation } from '@/lib/checkout/pickup';
+import { getProductCatalog } from '@/lib/catalog/product-types';
+import { formatShipDate } from '@/lib/inventory/stock';
 
-// SKU prefix → STRIPE_PRODUCTS key (resolves price from any SKU)
-const SKU_PREFIX_TO_PRODUCT: Record<string, ProductKey> = {
-  'CTEE': 'cotton-tee',
-  'STEE': 'sport-tee',
-  'HOOD': 'hoodie',
-  'CPPRM': 'cap-premium',
-  'CPCLS': 'cap-classic',
-  'STK':  'sticker-kit',
-};
-
-function resolveProduct(productKey: string, cartPriceId?: string): { priceId: string; price: number } | null {
-  // 1. Direct match in STRIPE_PRODUCTS (legacy keys like 'cotton-tee')
-  const direct = STRIPE_PRODUCTS[productKey as ProductKey];
-  if (direct) return { priceId: direct.priceId, price: direct.price };
-
-  // 2. SKU prefix match (e.g. 'STK-FR001' → prefix 'STK' → 'sticker-kit')
-  const prefix = productKey.split('-')[0];
-  const productType = SKU_PREFIX_TO_PRODUCT[prefix];
-  if (productType) {
-    const p = STRIPE_PRODUCTS[productType];
-    return { priceId: p.priceId, price: p.price };
-  }
+// Stripe's minimum Checkout Session lifetime — stock is held this long
+const SESSION_TTL_MS = 30 * 60 * 1000;
+// Stock and promo holds outlive the session a little so checkout.session.expired releases them first
+const RESERVATION_GRACE_MS = 5 * 60 * 1000;
 
-  // 3. price_id from cart (DB products) — price unknown, use 0 for shipping calc
-  if (cartPriceId && cartPriceId.startsWith('price_')) {
-    return { priceId: cartPriceId, price: 0 };
-  }
-
-  return null;
-}
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
 export async function POST(req: NextRequest) {
   try {
@@ -49,117 +40,168 @@ export async function POST(req: NextRequest) {
     });
 
     const body = await req.json();
-    const { items, customer_notes, promo_code, promo_active, promo_discount_type, shipping_service, shipping_cost_override, shipping_source } = body;
+    const { items, email, recovered_cart, customer_notes, promo_code, shipping_service, shipping_quote, pickup_location } = body;
 
     // New flow sends postal_code + province; old flow sends full shipping_address
     const postal_code = body.postal_code || body.shipping_address?.postal_code;
-    const province = body.province || body.shipping_address?.province;
+    const declaredProvince = body.province || body.shipping_address?.province;
+    const country = body.country || body.shipping_address?.country || 'CA';
     const shipping_address = body.shipping_address || null; // null in new flow (Stripe collects)
 
     if (!items || items.length === 0) {
       return NextResponse.json({ error: 'Cart is empty' }, { status: 400 });
     }
 
-    if (!province || !postal_code) {
-      return NextResponse.json({ error: 'Postal code and province are required' }, { status: 400 });
+    if (!isShippingCountry(country)) {
+      return NextResponse.json({ error: 'We don\'t ship to that country yet' }, { status: 400 });
     }
 
-    const line_items: Stripe.Checkout.SessionCreateParams.LineItem[] = [];
-    const items_detail: Array<{ sku: string; name: string; design: string; color: string; size: string; qty: number; price: number; image: string | null }> = [];
-    let subtotal = 0;
+    if (!postal_code || typeof postal_code !== 'string') {
+      return NextResponse.json({ error: 'Postal code is required' }, { status: 400 });
+    }
 
-    const discountType = promo_discount_type || 'item_050';
-    const isPercentDiscount = promo_active && discountType.startsWith('percent_');
-    const percentOff = isPercentDiscount ? parseInt(discountType.replace('percent_', '')) : 0;
+    // Province drives Canadian sales tax, so it comes from the postal code — a
+    // declared province is only accepted when the postal code is in it.
+    // Outside Canada only the ZIP is needed.
+    let province = '';
+    if (country === 'CA') {
+      if (!isValidPostal(postal_code, 'CA')) {
+        return NextResponse.json({ error: 'Invalid postal code' }, { status: 400 });
+      }
+      province = typeof declaredProvince === 'string' && declaredProvince
+        ? declaredProvince.trim().toUpperCase()
+        : detectProvinceFromPostal(postal_code) || '';
+      if (!province || !postalMatchesProvince(postal_code, province)) {
+        return NextResponse.json(
+          { error: `Postal code ${postal_code} is not in ${declaredProvince || 'that province'}`, code: 'province_mismatch' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Local pickup: the location must still be offered, and only Canadian carts can use it
+    let pickup: PickupLocation | null = null;
+    if (pickup_location) {
+      pickup = typeof pickup_location === 'string' ? await getPickupLocation(pickup_location) : null;
+      if (!pickup?.active || country !== 'CA') {
+        return NextResponse.json({ error: 'That pickup location is no longer available', code: 'pickup_unavailable' }, { status: 400 });
+      }
+    }
+
+    // Signed-in buyers get the order on their account straight away (and drops' early access)
+    const { data: { user } } = await createSessionClient().auth.getUser();
 
-    // If promo active with item_050, find the cheapest item index
-    let cheapestIndex = -1;
-    if (promo_active && !isPercentDiscount && items.length > 0) {
-      cheapestIndex = items.reduce(
-        (minIdx: number, item: any, idx: number) =>
-          (item.price < items[minIdx].price ? idx : minIdx),
-        0
+    // Re-price every line from the catalog — client prices are never charged
+    const priced = await priceCart(items, { member: !!user });
+    if (priced.error) {
+      return NextResponse.json(
+        { error: priced.error, code: priced.code },
+        { status: priced.code === 'price_mismatch' ? 409 : 400 }
       );
     }
 
-    for (let i = 0; i < items.length; i++) {
-      const item = items[i];
-      const resolved = resolveProduct(item.product_key, item.price_id);
+    const customerEmail = user?.email
+      || (typeof email === 'string' && EMAIL_RE.test(email.trim()) ? email.trim().toLowerCase() : null);
 
-      if (!resolved) {
-        return NextResponse.json(
-          { error: `Invalid product: ${item.product_key} — could not resolve Stripe price` },
-          { status: 400 }
-        );
+    // Promo: the rule comes from the database, never from the client
+    let promo: PromoRule | null = null;
+    if (promo_code && typeof promo_code === 'string') {
+      const lookup = await lookupPromoCode(promo_code, customerEmail);
+      if (!lookup.rule) {
+        return NextResponse.json({ error: lookup.error, code: 'promo_invalid' }, { status: 400 });
+      }
+      if (lookup.rule.perCustomerLimit !== null && !customerEmail) {
+        return NextResponse.json({ error: 'Enter your email to use this code', code: 'promo_invalid' }, { status: 400 });
       }
+      promo = lookup.rule;
+    }
 
-      if (isPercentDiscount) {
-        // Percentage discount: apply to each item
-        const originalAmount = item.price || resolved.price;
-        const discounted = Math.round(originalAmount * (100 - percentOff) / 100);
-        const safeAmount = Math.max(discounted, 1); // at least 1 cent per item
-        line_items.push({
-          price_data: {
-            currency: 'cad',
-            product_data: { name: `${item.name} (${percentOff}% OFF)` },
-            unit_amount: safeAmount,
-          },
-          quantity: item.quantity,
-        });
-      } else if (promo_active && i === cheapestIndex) {
-        // item_050: cheapest item goes to $0.50
-        line_items.push({
-          price_data: {
-            currency: 'cad',
-            product_data: { name: `${item.name} (PROMO)` },
-            unit_amount: 50, // $0.50 in cents
-          },
-          quantity: item.quantity,
-        });
-      } else if (resolved.price > 0) {
-        // Known product from STRIPE_PRODUCTS — use server-enforced price
-        line_items.push({
-          price: resolved.priceId,
-          quantity: item.quantity,
-        });
-      } else {
-        // DB product (no STRIPE_PRODUCTS match) — use price_data to avoid stale priceIds
-        line_items.push({
-          price_data: {
-            currency: 'cad',
-            product_data: { name: item.name },
-            unit_amount: item.price,
-          },
-          quantity: item.quantity,
-        });
+    const discount = applyPromoDiscount(priced.lines, promo);
+    if (discount.error) {
+      return NextResponse.json({ error: discount.error, code: 'promo_invalid' }, { status: 400 });
+    }
+    const promoSuffix = promo?.kind === 'percent_off' ? ` (${promo.value}% OFF)` : ' (PROMO)';
+
+    const subtotal = priced.subtotal;
+    const chargedSubtotal = discount.total; // what Stripe will actually charge for goods (after promo)
+    const paidByLine = priced.lines.map(() => 0);
+
+    const line_items: Stripe.Checkout.SessionCreateParams.LineItem[] = discount.charges.map(charge => {
+      const line = priced.lines[charge.index];
+      paidByLine[charge.index] += charge.unitAmount * charge.quantity;
+
+      if (!charge.discounted && line.priceId && !line.preorderShipsAt) {
+        // Catalog price matches the Stripe price — charge by price ID
+        return { price: line.priceId, quantity: charge.quantity };
       }
 
-      items_detail.push({
-        sku: item.sku || item.product_key,
-        name: item.name || 'Product',
-        design: item.design || '',
-        color: item.color,
-        size: item.size,
-        qty: item.quantity,
-        price: item.price || resolved.price,
-        image: item.image || null,
-      });
+      // Pre-orders are always named on the payment page, with when they ship
+      const suffix = charge.discounted ? promoSuffix : '';
+      const preorder = line.preorderShipsAt ? ' — PRE-ORDER' : '';
+      return {
+        price_data: {
+          currency: 'cad',
+          product_data: {
+            name: `${line.name}${preorder}${suffix}`,
+            ...(line.preorderShipsAt
+              ? { description: `Pre-order — expected to ship ${formatShipDate(line.preorderShipsAt)}` }
+              : {}),
+          },
+          unit_amount: charge.unitAmount,
+        },
+        quantity: charge.quantity,
+      };
+    });
 
-      subtotal += (resolved.price || item.price) * item.quantity;
+    const items_detail: CheckoutItem[] = priced.lines.map((line, idx) => toCheckoutItem(line, paidByLine[idx]));
+    // The order ships complete, so it waits for the latest pre-order
+    const preorderShipsAt = priced.lines.reduce<string | null>(
+      (latest, l) => (l.preorderShipsAt && (!latest || l.preorderShipsAt > latest) ? l.preorderShipsAt : latest),
+      null,
+    );
+
+    // Calculate shipping: the signed quote from /api/shipping/rates if it still
+    // matches this cart and destination, otherwise quote again here
+    const isFreeShipping = discount.freeShipping || qualifiesForFreeShipping(subtotal, country);
+    const parcels = cartParcels(priced.lines, await getProductCatalog());
+    const quote = pickup ? null : verifyShippingQuote(shipping_quote, { postal: postal_code, country, pkg: packageHash(parcels) });
+    let shippingService: string | null = pickup ? PICKUP_SERVICE_CODE : quote?.serviceCode ?? null;
+    let shippingSource: string | null = pickup ? 'pickup' : quote?.source ?? null;
+    let quotedAmount: number | null = quote?.amount ?? null;
+
+    if (!quote && !pickup) {
+      if (shipping_quote) console.warn('[checkout] Shipping quote token rejected — re-quoting');
+      if (isFreeShipping) {
+        shippingService = typeof shipping_service === 'string' ? shipping_service : null;
+      } else {
+        const requote = await quoteCart(parcels, postal_code, country);
+        const match = requote.quotes.find(q => q.serviceCode === shipping_service)
+          || [...requote.quotes].sort((a, b) => a.priceTotalCents - b.priceTotalCents)[0];
+        if (match) {
+          shippingService = match.serviceCode;
+          shippingSource = requote.source;
+          quotedAmount = match.priceTotalCents;
+        }
+      }
     }
 
-    // Calculate shipping: prefer Canada Post quote, fallback to province rates
-    const isFreeShipping = promo_active || subtotal >= FREE_SHIPPING_THRESHOLD;
     let shippingAmount: number;
     let shippingLabel: string;
 
-    if (isFreeShipping) {
+    if (pickup) {
+      shippingAmount = 0;
+      shippingLabel = `Pickup — ${pickup.name}`;
+    } else if (isFreeShipping) {
       shippingAmount = 0;
-      shippingLabel = promo_active ? 'Free Shipping (promo)' : 'Free Shipping (orders over $50)';
-    } else if (shipping_cost_override !== null && shipping_cost_override !== undefined) {
-      // Canada Post rate from client
-      shippingAmount = shipping_cost_override;
-      shippingLabel = shipping_service ? `Canada Post — ${shipping_service}` : 'Canada Post Shipping';
+      shippingLabel = discount.freeShipping ? 'Free Shipping (promo)' : 'Free Shipping (Canadian orders over $50)';
+    } else if (quotedAmount !== null) {
+      shippingAmount = quotedAmount;
+      shippingLabel = shippingService ? `Canada Post — ${shippingService}` : 'Canada Post Shipping';
+    } else if (country !== 'CA') {
+      // Fallback to the country flat rate
+      const countryData = COUNTRY_SHIPPING[country] ?? COUNTRY_SHIPPING.INTL;
+      shippingAmount = countryData.cost;
+      shippingLabel = `Shipping — ${countryData.region}`;
     } else {
       // Fallback to province-based rates
       const provinceData = PROVINCE_SHIPPING[province];
@@ -167,34 +209,131 @@ export async function POST(req: NextRequest) {
       shippingLabel = `Shipping — ${provinceData?.region ?? 'Canada'}`;
     }
 
+    // Sales tax — one Stripe line per component (GST/HST/PST/QST) so the receipt itemizes it.
+    // Picked-up goods are taxed in the province they're handed over in.
+    const tax = calculateTax(taxProvince(province, pickup), chargedSubtotal, shippingAmount, country);
+    for (const line of tax.lines) {
+      line_items.push({
+        price_data: {
+          currency: 'cad',
+          product_data: { name: line.label, metadata: { kind: 'tax' } },
+          unit_amount: line.amount,
+        },
+        quantity: 1,
+      });
+    }
+
+    // Hold stock for tracked variants until the session completes or expires
+    const sessionExpiresAt = new Date(Date.now() + SESSION_TTL_MS);
+    const reservationId = crypto.randomUUID();
+    const reservation = await reserveStock(
+      reservationId,
+      priced.lines,
+      new Date(sessionExpiresAt.getTime() + RESERVATION_GRACE_MS),
+    );
+    if (reservation.error) {
+      return NextResponse.json({ error: reservation.error, code: reservation.code }, { status: 409 });
+    }
+
+    let promoHoldId: string | null = null;
+    const releaseHolds = async () => {
+      if (reservation.held > 0) {
+        await releaseStockReservation(reservationId).catch(err =>
+          console.error('[checkout] Stock release error:', err)
+        );
+      }
+      if (promoHoldId) {
+        await releasePromoHold(promoHoldId).catch(err =>
+          console.error('[checkout] Promo release error:', err)
+        );
+      }
+    };
+
+    // Lock one use of the code to this checkout — the last use can't be paid for twice
+    if (promo) {
+      const holdId = crypto.randomUUID();
+      const ip = req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null;
+      let hold: { error?: string };
+      try {
+        hold = await holdPromoCode(holdId, promo.code, customerEmail, ip, new Date(sessionExpiresAt.getTime() + RESERVATION_GRACE_MS));
+      } catch (holdErr) {
+        await releaseHolds();
+        throw holdErr;
+      }
+      if (hold.error) {
+        await releaseHolds();
+        return NextResponse.json({ error: hold.error, code: 'promo_invalid' }, { status: 409 });
+      }
+      promoHoldId = holdId;
+    }
+
+    const itemsRef = crypto.randomUUID();
+    try {
+      await saveCheckoutItems(itemsRef, items_detail);
+    } catch (itemsErr) {
+      await releaseHolds();
+      throw itemsErr;
+    }
+
+    const recoveredFrom = isCartId(recovered_cart) ? recovered_cart : null;
+
     const shopUrl = process.env.NEXT_PUBLIC_SHOP_URL || 'http://localhost:3001';
 
     // Build session params — new flow lets Stripe collect address, old flow uses metadata
     const sessionParams: Stripe.Checkout.SessionCreateParams = {
       // No payment_method_types → enables Apple Pay, Google Pay, Link automatically
       mode: 'payment',
+      // Stripe shows the total in the buyer's local currency; we still settle in CAD
+      adaptive_pricing: { enabled: true },
       line_items,
-      shipping_options: [{
-        shipping_rate_data: {
-          type: 'fixed_amount',
-          fixed_amount: { amount: shippingAmount, currency: 'cad' },
-          display_name: shippingLabel,
-        },
-      }],
+      ...(customerEmail ? { customer_email: customerEmail } : {}),
+      expires_at: Math.floor(sessionExpiresAt.getTime() / 1000),
+      // Nothing to ship for pickup — no address, no shipping line
+      ...(pickup ? {} : {
+        shipping_options: [{
+          shipping_rate_data: {
+            type: 'fixed_amount' as const,
+            fixed_amount: { amount: shippingAmount, currency: 'cad' },
+            display_name: shippingLabel,
+          },
+        }],
+      }),
       metadata: {
-        items_detail: JSON.stringify(items_detail),
+        // The lines themselves are stored server-side — metadata values cap at 500 characters
+        items_ref: itemsRef,
         address_source: shipping_address ? 'metadata' : 'stripe_collected',
+        tax_province: tax.province,
+        shipping_country: country,
+        // What shipping was quoted for — the webhook checks Stripe's collected address against it
+        ...(pickup ? {} : { shipping_postal: normalizePostal(postal_code) }),
+        tax_lines: JSON.stringify(tax.lines),
+        ...(reservation.held > 0 ? { stock_reservation: reservationId } : {}),
+        ...(user ? { user_id: user.id } : {}),
+        ...(recoveredFrom ? { recovered_cart: recoveredFrom } : {}),
         ...(shipping_address ? { shipping_address: JSON.stringify(shipping_address) } : {}),
-        ...(customer_notes ? { customer_notes } : {}),
-        ...(promo_code ? { promo_code } : {}),
-        ...(shipping_service ? { shipping_service } : {}),
-        ...(shipping_source ? { shipping_source } : {}),
+        ...(customer_notes ? { customer_notes: String(customer_notes).slice(0, 500) } : {}),
+        ...(promo ? { promo_code: promo.code } : {}),
+        ...(promoHoldId ? { promo_hold: promoHoldId } : {}),
+        ...(shippingService ? { shipping_service: shippingService } : {}),
+        ...(shippingSource ? { shipping_source: shippingSource } : {}),
+        ...(pickup ? { pickup_location: pickup.id } : {}),
+        ...(preorderShipsAt ? { preorder_ships_at: preorderShipsAt } : {}),
       },
+      ...(preorderShipsAt ? {
+        custom_text: {
+          submit: {
+            message: `This order includes pre-order items. It ships complete once they're in — expected ${formatShipDate(preorderShipsAt)}.`,
+          },
+        },
+      } : {}),
       success_url: `${shopUrl}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
       cancel_url: `${shopUrl}/cart`,
     };
 
-    if (shipping_address) {
+    if (pickup) {
+      // Pickup: a phone number so the crew can reach the customer on the day
+      sessionParams.phone_number_collection = { enabled: true };
+    } else if (shipping_address) {
       // Old flow: address already collected, attach to payment intent
       sessionParams.payment_intent_data = {
         shipping: {
@@ -210,13 +349,52 @@ export async function POST(req: NextRequest) {
         },
       };
     } else {
-      // New flow: let Stripe Checkout collect the full shipping address
+      // New flow: let Stripe Checkout collect the full shipping address —
+      // only in the country the shipping and tax were quoted for
       sessionParams.shipping_address_collection = {
-        allowed_countries: ['CA'],
+        allowed_countries: [country],
       };
+      // Canada Post needs a phone number for parcels leaving Canada
+      if (country !== 'CA') {
+        sessionParams.phone_number_collection = { enabled: true };
+      }
+    }
+
+    let session: Stripe.Checkout.Session;
+    try {
+      session = await stripe.checkout.sessions.create(sessionParams);
+    } catch (sessionErr) {
+      await releaseHolds();
+      throw sessionErr;
     }
 
-    const session = await stripe.checkout.sessions.create(sessionParams);
+    // Saved so an unpaid, expired session can be emailed back (see lib/checkout/cart-recovery)
+    await saveCheckoutCart({
+      id: crypto.randomUUID(),
+      stripeSessionId: session.id,
+      userId: user?.id ?? null,
+      email: customerEmail,
+      items: priced.lines.map((line, idx) => ({
+        product_key: line.product_key,
+        variant_id: line.variantId,
+        price_id: items[idx]?.price_id || line.priceId || '',
+        name: line.name,
+        design: line.design,
+        color: line.color,
+        size: line.size,
+        price: line.price,
+        quantity: line.quantity,
+        image: line.image || '',
+      })),
+      subtotal,
+      shipping: shippingAmount,
+      total: chargedSubtotal + shippingAmount + tax.total,
+      province,
+      postalCode: postal_code,
+      promoCode: promo?.code ?? null,
+      recoveredFrom,
+      expiresAt: sessionExpiresAt,
+    });
 
     return NextResponse.json({ url: session.url });
   } catch (error: any) {
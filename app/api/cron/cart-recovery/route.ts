@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sendDueRecoveryEmails } from '@/lib/checkout/cart-recovery'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60
+
+/**
+ * GET /api/cron/cart-recovery
+ * Header: Authorization: Bearer <CRON_SECRET>
+ *
+ * Sends the abandoned-checkout recovery emails that have come due.
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const summary = await sendDueRecoveryEmails()
+    console.log('[CRON-CART-RECOVERY] Done:', summary)
+    return NextResponse.json({ success: true, ...summary })
+  } catch (error: any) {
+    console.error('[CRON-CART-RECOVERY] Error:', error)
+    return NextResponse.json({ error: error.message || 'Cart recovery run failed' }, { status: 500 })
+  }
+}
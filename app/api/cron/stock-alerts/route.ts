@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sendBackInStockAlerts } from '@/lib/inventory/stock-alerts'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60
+
+/**
+ * GET /api/cron/stock-alerts
+ * Header: Authorization: Bearer <CRON_SECRET>
+ *
+ * Emails "notify me" sign-ups whose variant has come back in stock.
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const summary = await sendBackInStockAlerts()
+    console.log('[CRON-STOCK-ALERTS] Done:', summary)
+    return NextResponse.json({ success: true, ...summary })
+  } catch (error: any) {
+    console.error('[CRON-STOCK-ALERTS] Error:', error)
+    return NextResponse.json({ error: error.message || 'Stock alert run failed' }, { status: 500 })
+  }
+}
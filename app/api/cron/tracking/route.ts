@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { pollShippedOrders } from '@/lib/orders/tracking-sync'
+import { pollReturnShipments } from '@/lib/orders/return-sync'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60
+
+function getServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+/**
+ * GET /api/cron/tracking
+ * Header: Authorization: Bearer <CRON_SECRET>
+ *
+ * Polls Canada Post for every shipped order with a tracking code, stores the
+ * event history, marks delivered parcels and flags exceptions for staff.
+ * Return parcels are followed too; one that reaches us gets its refund or exchange.
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const supabase = getServiceClient()
+    const summary = await pollShippedOrders(supabase)
+    const returns = await pollReturnShipments(supabase)
+    console.log('[CRON-TRACKING] Done:', summary, 'returns:', returns)
+    return NextResponse.json({ success: true, ...summary, returns })
+  } catch (error: any) {
+    console.error('[CRON-TRACKING] Error:', error)
+    return NextResponse.json({ error: error.message || 'Tracking poll failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server'
+import { getCurrencyRates } from '@/lib/currency/rates'
+import { SETTLEMENT_CURRENCY } from '@/lib/currency/format'
+
+/**
+ * GET /api/currency
+ * Display rates per 1 CAD for the currency selector. Prices are always
+ * charged in CAD; these only change what the storefront shows.
+ */
+export async function GET() {
+  const rates = await getCurrencyRates()
+  return NextResponse.json({ base: SETTLEMENT_CURRENCY, rates }, {
+    headers: { 'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600' },
+  })
+}
@@ -42,6 +42,11 @@ export async function POST() {
     email,
     notes: 'welcome_promo',
     discount_type: 'percent_10',
+    kind: 'percent_off',
+    value: 10,
+    free_shipping: true,
+    max_redemptions: 1,
+    per_customer_limit: 1,
     expires_at: expiresAt,
     created_by: 'system',
   });
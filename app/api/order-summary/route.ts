@@ -17,11 +17,21 @@ export async function GET(req: NextRequest) {
       expand: ['line_items.data.price.product'],
     });
 
-    const items = session.line_items?.data.map((li: any) => ({
+    // Tax components are charged as their own line items — split them out
+    const lineItems = session.line_items?.data || [];
+    const isTaxLine = (li: any) => li.price?.product?.metadata?.kind === 'tax';
+
+    const items = lineItems.filter((li: any) => !isTaxLine(li)).map((li: any) => ({
       name: li.price?.product?.name || li.description || 'Product',
       quantity: li.quantity,
       amount: li.amount_total,
-    })) || [];
+    }));
+
+    const taxLines = lineItems.filter(isTaxLine).map((li: any) => ({
+      label: li.price?.product?.name || li.description || 'Tax',
+      amount: li.amount_total,
+    }));
+    const tax = taxLines.reduce((sum: number, l: { amount: number }) => sum + l.amount, 0);
 
     const shipping = (session as any).collected_information?.shipping_details
       || (session as any).shipping_details;
@@ -29,8 +39,10 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({
       email: session.customer_details?.email || null,
       items,
-      subtotal: (session.amount_total || 0) - ((session as any).shipping_cost?.amount_total || 0),
+      subtotal: (session.amount_total || 0) - ((session as any).shipping_cost?.amount_total || 0) - tax,
       shipping_cost: (session as any).shipping_cost?.amount_total || 0,
+      tax,
+      tax_lines: taxLines,
       total: session.amount_total || 0,
       shipping_name: shipping?.name || null,
       shipping_address: shipping?.address ? {
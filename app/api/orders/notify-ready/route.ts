@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { sendReadyForPickupNotification } from '@/lib/email';
+
+async function verifyAdmin() {
+  const cookieStore = cookies();
+  const authClient = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() { return cookieStore.getAll(); },
+        setAll() {},
+      },
+    }
+  );
+  const { data: { user } } = await authClient.auth.getUser();
+  if (!user?.email) return null;
+  const { data: admin } = await authClient
+    .from('admin_users')
+    .select('email')
+    .eq('email', user.email)
+    .single();
+  return admin ? user : null;
+}
+
+/**
+ * POST /api/orders/notify-ready
+ * Body: { orderId }
+ * Emails the customer that a pickup order is waiting at its location. The
+ * location comes from the order's own snapshot, not the request.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const adminUser = await verifyAdmin();
+    if (!adminUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { orderId } = await req.json();
+    if (!orderId) {
+      return NextResponse.json({ error: 'Missing orderId' }, { status: 400 });
+    }
+
+    const serviceClient = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+    const { data: order, error } = await serviceClient
+      .from('app_shop_orders')
+      .select('order_number, email, pickup_location')
+      .eq('id', orderId)
+      .single();
+
+    if (error || !order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+    if (!order.pickup_location) {
+      return NextResponse.json({ error: 'Not a pickup order' }, { status: 400 });
+    }
+    if (!order.email) {
+      return NextResponse.json({ error: 'Order has no email' }, { status: 400 });
+    }
+
+    await sendReadyForPickupNotification(order.order_number, order.pickup_location, order.email);
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('[NOTIFY-READY] Error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to send email' }, { status: 500 });
+  }
+}
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Stripe from 'stripe';
+import { createClient } from '@supabase/supabase-js';
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { quoteRefund, quoteFullRefund, type RefundRequestLine } from '@/lib/orders/refunds';
+import { getOrderPaymentIntent, syncOrderRefunds } from '@/lib/orders/stripe-sync';
+
+const STRIPE_REASONS = ['requested_by_customer', 'duplicate', 'fraudulent'] as const;
+
+/**
+ * POST /api/orders/refund
+ * Body: {
+ *   id: string,
+ *   full?: boolean,                              // refund everything not yet refunded
+ *   items?: { index: number, quantity: number }[], // partial: lines from order.items
+ *   include_shipping?: boolean,
+ *   reason?: 'requested_by_customer' | 'duplicate' | 'fraudulent',
+ *   note?: string,
+ * }
+ *
+ * Admin only. Issues the refund through Stripe, then mirrors it onto the
+ * order. The customer email goes out from the charge.refunded webhook.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    if (!process.env.STRIPE_SECRET_KEY) {
+      return NextResponse.json({ error: 'Stripe not configured' }, { status: 500 });
+    }
+
+    // 1. Verify the caller is an authenticated admin
+    const cookieStore = cookies();
+    const authClient = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          getAll() { return cookieStore.getAll(); },
+          setAll() {},
+        },
+      }
+    );
+
+    const { data: { user } } = await authClient.auth.getUser();
+    if (!user?.email) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { data: admin } = await authClient
+      .from('admin_users')
+      .select('email')
+      .eq('email', user.email)
+      .single();
+
+    if (!admin) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    // 2. Parse request
+    const body = await req.json();
+    const { id, full, include_shipping, reason, note } = body;
+    const lines: RefundRequestLine[] = Array.isArray(body.items) ? body.items : [];
+
+    if (!id) {
+      return NextResponse.json({ error: 'Missing order id' }, { status: 400 });
+    }
+    if (!full && lines.length === 0 && !include_shipping) {
+      return NextResponse.json({ error: 'Select items or shipping to refund' }, { status: 400 });
+    }
+    if (reason && !STRIPE_REASONS.includes(reason)) {
+      return NextResponse.json({ error: 'Invalid refund reason' }, { status: 400 });
+    }
+
+    const serviceClient = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { data: order, error: orderError } = await serviceClient
+      .from('app_shop_orders')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (orderError || !order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    const refundable = {
+      items: Array.isArray(order.items) ? order.items : [],
+      total: order.total || 0,
+      shipping_cost: order.shipping_cost || 0,
+      tax: order.tax || 0,
+      tax_province: order.tax_province || null,
+      refunded_amount: order.refunded_amount || 0,
+      refunds: Array.isArray(order.refunds) ? order.refunds : [],
+    };
+
+    // 3. Price the refund server-side
+    const quote = full
+      ? quoteFullRefund(refundable)
+      : quoteRefund(refundable, { lines, includeShipping: !!include_shipping });
+
+    if ('error' in quote && quote.error) {
+      return NextResponse.json({ error: quote.error }, { status: 400 });
+    }
+    if (quote.amount <= 0) {
+      return NextResponse.json({ error: 'Nothing left to refund on this order' }, { status: 400 });
+    }
+
+    // 4. Issue through Stripe
+    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
+      apiVersion: '2025-12-15.clover',
+    });
+
+    const paymentIntentId = await getOrderPaymentIntent(stripe, order);
+    if (!paymentIntentId) {
+      return NextResponse.json({ error: 'Order has no Stripe payment to refund' }, { status: 400 });
+    }
+
+    let refund: Stripe.Refund;
+    try {
+      refund = await stripe.refunds.create({
+        payment_intent: paymentIntentId,
+        amount: quote.amount,
+        ...(reason ? { reason } : {}),
+        metadata: {
+          order_id: order.id,
+          order_number: order.order_number,
+          // [index, quantity, amount] tuples — Stripe metadata values cap at 500 chars
+          items: JSON.stringify(quote.lines.map(l => [l.index, l.quantity, l.amount])),
+          shipping: String(quote.shipping),
+          created_by: user.email,
+          ...(note ? { note: String(note).slice(0, 450) } : {}),
+        },
+      }, {
+        // Double-clicks within the same refund state collapse into one Stripe refund
+        idempotencyKey: `refund-${order.id}-${refundable.refunded_amount}-${quote.amount}`,
+      });
+    } catch (stripeErr: any) {
+      console.error('[REFUND] Stripe error:', stripeErr);
+      return NextResponse.json({ error: stripeErr.message || 'Stripe refund failed' }, { status: 502 });
+    }
+
+    console.log(`[REFUND] ${refund.id} — ${order.order_number} CA$${(quote.amount / 100).toFixed(2)} by ${user.email}`);
+
+    // 5. Mirror onto the order now (the webhook repeats this and sends the email)
+    let updated = null;
+    try {
+      updated = await syncOrderRefunds(stripe, serviceClient, order.id, { notify: false });
+    } catch (syncErr) {
+      console.error('[REFUND] Order sync error (webhook will retry):', syncErr);
+    }
+
+    return NextResponse.json({
+      success: true,
+      refund: { id: refund.id, amount: refund.amount, status: refund.status },
+      quote,
+      order: updated,
+    });
+  } catch (error: any) {
+    console.error('[REFUND] Error:', error);
+    return NextResponse.json({ error: error.message || 'Refund failed' }, { status: 500 });
+  }
+}
@@ -1,16 +1,16 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { STRIPE_PRODUCTS } from '@/lib/stripe-config';
-
-const SKU_PREFIX_MAP: Record<string, keyof typeof STRIPE_PRODUCTS> = {
-  'CTEE': 'cotton-tee',
-  'STEE': 'sport-tee',
-  'HOOD': 'hoodie',
-  'CPPRM': 'cap-premium',
-  'CPCLS': 'cap-classic',
-  'STK': 'sticker-kit',
-};
+import { getProductCatalog } from '@/lib/catalog/product-types';
+import { chargeablePriceId } from '@/lib/catalog/catalog';
+import { toShopVariants } from '@/lib/catalog/variants';
+import { CATEGORY_SCHEDULE_SELECT, dropState, isUpcoming, productSchedule } from '@/lib/catalog/schedule';
 
+/**
+ * GET /api/products
+ * { products } live now, { drops } scheduled or in members' early access.
+ * Every entry carries its `drop` window so the browser can flip a drop live
+ * (or hide an ended one) without waiting for this cached response.
+ */
 export async function GET() {
   try {
     const supabase = createClient(
@@ -18,34 +18,35 @@ export async function GET() {
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    const { data, error } = await supabase
-      .from('app_shop_products')
-      .select('*, category:categories(slug)')
-      .eq('is_active', true)
-      .order('sort_order');
+    const [{ data, error }, catalog] = await Promise.all([
+      supabase
+        .from('app_shop_products')
+        .select(`*, ${CATEGORY_SCHEDULE_SELECT}, variants:app_shop_product_variants(id, sku, size, color, price_override, images, is_active, track_stock, preorder_enabled, preorder_ships_at)`)
+        .eq('is_active', true)
+        .order('sort_order'),
+      getProductCatalog(),
+    ]);
 
     if (error || !data || data.length === 0) {
       console.error('[api/products] Error:', error);
-      return NextResponse.json({ products: [] }, {
+      return NextResponse.json({ products: [], drops: [] }, {
         headers: { 'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=120' },
       });
     }
 
-    const products = data.map((p: any) => {
-      const typeMatch = p.product_type ? STRIPE_PRODUCTS[p.product_type as keyof typeof STRIPE_PRODUCTS] : null;
-      const skuPrefix = (p.sku || '').split('-')[0];
-      const skuType = SKU_PREFIX_MAP[skuPrefix];
-      const skuPrefixMatch = skuType ? STRIPE_PRODUCTS[skuType] : null;
-      // Prefer known-good STRIPE_PRODUCTS priceId over DB stripe_price_id (may be stale/deleted)
-      const priceId = typeMatch?.priceId || skuPrefixMatch?.priceId || p.stripe_price_id || '';
+    const all = data.map((p: any) => {
+      const type = catalog.resolve(p.product_type, p.sku);
+      const price = p.base_price ?? (type?.price || 0) / 100;
+      // Only a Stripe price known to charge this amount (see lib/catalog/stripe-sync)
+      const priceId = chargeablePriceId(p, type, Math.round(price * 100)) || '';
 
       return {
         product_key: p.sku || p.id,
         name: p.name,
-        price: p.base_price ?? (typeMatch?.price || skuPrefixMatch?.price || 0) / 100,
+        price,
         price_id: priceId,
         category: p.category?.slug || 'mens',
-        product_type: p.product_type || skuType || '',
+        product_type: p.product_type || type?.key || '',
         image: p.primary_image || p.images?.[0] || '',
         images: p.images || [],
         description: p.description || '',
@@ -53,17 +54,24 @@ export async function GET() {
         colors: p.colors || [],
         color_images: p.color_images || {},
         sku: p.sku || '',
+        variants: toShopVariants(p.variants, p, price),
         is_featured: p.is_featured || false,
+        drop: productSchedule(p),
       };
     });
 
-    return NextResponse.json({ products }, {
+    const now = Date.now();
+    const products = all.filter(p => dropState(p.drop, now) === 'live');
+    const opens = (p: typeof all[number]) => new Date(p.drop.early_access_at || p.drop.publish_at!).getTime();
+    const drops = all.filter(p => isUpcoming(p.drop, now)).sort((a, b) => opens(a) - opens(b));
+
+    return NextResponse.json({ products, drops }, {
       headers: {
         'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
       },
     });
   } catch (err) {
     console.error('[api/products] Error:', err);
-    return NextResponse.json({ products: [] });
+    return NextResponse.json({ products: [], drops: [] });
   }
 }
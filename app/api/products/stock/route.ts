@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { toStockMap } from '@/lib/inventory/stock';
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * GET /api/products/stock?key=<product_key>
+ * Live availability per variant for one product (product_key is the SKU or id).
+ * Untracked variants are omitted — the client treats them as in stock.
+ */
+export async function GET(req: NextRequest) {
+  const key = req.nextUrl.searchParams.get('key');
+  if (!key) {
+    return NextResponse.json({ error: 'Missing key' }, { status: 400 });
+  }
+
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { data: product } = await supabase
+      .from('app_shop_products')
+      .select('id')
+      .eq(UUID_RE.test(key) ? 'id' : 'sku', key)
+      .maybeSingle();
+
+    if (!product) {
+      return NextResponse.json({ stock: {} });
+    }
+
+    const { data: variants, error } = await supabase
+      .from('app_shop_product_variants')
+      .select('size, color, stock_quantity, reserved_quantity, track_stock')
+      .eq('product_id', product.id);
+
+    if (error) {
+      console.error('[api/products/stock] Error:', error);
+      return NextResponse.json({ stock: {} });
+    }
+
+    return NextResponse.json({ stock: toStockMap(variants || []) }, {
+      headers: { 'Cache-Control': 'public, s-maxage=15, stale-while-revalidate=30' },
+    });
+  } catch (err) {
+    console.error('[api/products/stock] Error:', err);
+    return NextResponse.json({ stock: {} });
+  }
+}
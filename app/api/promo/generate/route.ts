@@ -4,6 +4,8 @@ import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
 import { Resend } from 'resend'
 import { generatePromoCode } from '@/lib/promo/generateCode'
+import { normalizePromoCode } from '@/lib/promo/codes'
+import { PROMO_KINDS, describePromo, ruleFromRow, type PromoKind } from '@/lib/promo/rules'
 
 function getServiceClient() {
   return createClient(
@@ -41,36 +43,68 @@ export async function POST(req: NextRequest) {
   }
 
   const body = await req.json()
-  const { email, notes, expiresInDays, discountType } = body
+  const { email, notes, expiresInDays, startsAt } = body
 
-  if (!email) {
-    return NextResponse.json({ error: 'Email is required' }, { status: 400 })
+  const kind: PromoKind = PROMO_KINDS.includes(body.kind) ? body.kind : 'item_price'
+  const value = Math.max(0, Math.round(Number(body.value) || 0))
+  const maxRedemptions = body.maxRedemptions ? Math.max(1, Math.floor(Number(body.maxRedemptions))) : null
+  const perCustomerLimit = body.perCustomerLimit ? Math.max(1, Math.floor(Number(body.perCustomerLimit))) : null
+  const list = (v: unknown) =>
+    Array.isArray(v) ? v.map(s => String(s).trim().toLowerCase()).filter(Boolean) : []
+
+  if (kind === 'percent_off' || kind === 'bogo') {
+    if (value < 1 || value > 100) {
+      return NextResponse.json({ error: 'Percent must be between 1 and 100' }, { status: 400 })
+    }
+  } else if (kind === 'amount_off' && value < 1) {
+    return NextResponse.json({ error: 'Amount is required' }, { status: 400 })
+  }
+
+  // Single-use codes are personal; multi-use campaign codes can go out without an email
+  if (!email && maxRedemptions === 1) {
+    return NextResponse.json({ error: 'Email is required for single-use codes' }, { status: 400 })
   }
 
-  const code = generatePromoCode()
+  const code = body.code ? normalizePromoCode(String(body.code)) : generatePromoCode()
+  if (!/^[A-Z0-9-]{4,32}$/.test(code)) {
+    return NextResponse.json({ error: 'Code must be 4-32 letters, numbers or dashes' }, { status: 400 })
+  }
 
   const expiresAt = expiresInDays
     ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
     : null
 
   const supabase = getServiceClient()
-  const { error: dbError } = await supabase.from('promo_codes').insert({
+  const { data: row, error: dbError } = await supabase.from('promo_codes').insert({
     code,
-    email: email ?? null,
+    email: email || null,
     notes: notes ?? null,
-    discount_type: discountType || 'item_050',
+    kind,
+    value,
+    free_shipping: !!body.freeShipping,
+    min_subtotal: Math.max(0, Math.round(Number(body.minSubtotal) || 0)),
+    eligible_products: list(body.eligibleProducts),
+    eligible_categories: list(body.eligibleCategories),
+    max_redemptions: maxRedemptions,
+    per_customer_limit: perCustomerLimit,
+    starts_at: startsAt ? new Date(startsAt).toISOString() : null,
     expires_at: expiresAt,
-  })
+  }).select('*').single()
 
   if (dbError) {
+    if (dbError.code === '23505') {
+      return NextResponse.json({ error: 'That code already exists' }, { status: 409 })
+    }
     console.error('[promo/generate] DB error:', dbError)
     return NextResponse.json({ error: 'Database error' }, { status: 500 })
   }
 
-  const dt = discountType || 'item_050'
-  const discountLabel = dt === 'item_050'
-    ? 'any one item for $0.50 CAD'
-    : `${dt.replace('percent_', '')}% off your order`
+  const description = describePromo(ruleFromRow(row))
+  const usage = maxRedemptions === 1
+    ? 'Single use.'
+    : perCustomerLimit === 1
+      ? 'One use per customer.'
+      : ''
 
   if (email) {
     const shopUrl = process.env.NEXT_PUBLIC_SHOP_URL || 'https://shop.onsiteclub.ca'
@@ -89,13 +123,13 @@ export async function POST(req: NextRequest) {
           </div>
           <div style="max-width: 480px; margin: 0 auto; background: #1B2B27; border-radius: 12px; padding: 40px;">
             <p style="color: #ffffff; font-size: 16px; line-height: 1.6;">
-              Here is your personal code. Enter it at checkout to get <strong style="color: #B8860B;">${discountLabel}</strong> with free shipping.
+              Here is your personal code. Enter it at checkout to get <strong style="color: #B8860B;">${description}</strong>.
             </p>
             <div style="background: #B8860B; border-radius: 8px; padding: 20px; text-align: center; margin: 32px 0;">
               <span style="font-size: 28px; font-weight: 700; color: #1B2B27; letter-spacing: 4px;">${code}</span>
             </div>
             <p style="color: #9FE1CB; font-size: 13px; margin-bottom: 24px;">
-              Single use. ${expiresAt ? `Valid until ${new Date(expiresAt).toLocaleDateString('en-CA')}.` : 'No expiry.'}
+              ${usage} ${expiresAt ? `Valid until ${new Date(expiresAt).toLocaleDateString('en-CA')}.` : 'No expiry.'}
             </p>
             <a href="${shopUrl}" style="display: block; background: #B8860B; color: #1B2B27; text-decoration: none; text-align: center; padding: 14px 24px; border-radius: 8px; font-weight: 700; font-size: 16px;">
               Visit Store
@@ -115,5 +149,5 @@ export async function POST(req: NextRequest) {
     }
   }
 
-  return NextResponse.json({ success: true, code })
+  return NextResponse.json({ success: true, code, description, emailed: !!email })
 }
@@ -1,14 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
 import { rateLimit, getClientIp } from '@/lib/rate-limit'
-
-function getServiceClient() {
-  return createClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.SUPABASE_SERVICE_ROLE_KEY!
-  )
-}
-
+import { lookupPromoCode } from '@/lib/promo/codes'
+import { cartEligibilityError, describePromo } from '@/lib/promo/rules'
+import { priceCart } from '@/lib/checkout/pricing'
+import { createClient as createSessionClient } from '@/lib/supabase/server'
+
+/**
+ * POST /api/promo/validate
+ * Body: { code: string, items?: CartLineInput[] }
+ *
+ * Returns the code's rule so the checkout modal can preview the discount with
+ * the same applyPromoDiscount() the checkout charges. When items are sent,
+ * the cart is checked against the rule's minimum and eligibility too.
+ */
 export async function POST(req: NextRequest) {
   // Rate limit: 10 attempts per minute per IP
   const ip = getClientIp(req.headers)
@@ -17,39 +21,36 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ valid: false, error: 'Too many attempts. Try again later.' }, { status: 429 })
   }
 
-  const { code } = await req.json()
+  const { code, items } = await req.json()
 
   if (!code || typeof code !== 'string') {
     return NextResponse.json({ valid: false, error: 'No code provided' })
   }
 
-  const supabase = getServiceClient()
-  const { data, error } = await supabase
-    .from('promo_codes')
-    .select('*')
-    .eq('code', code.trim().toUpperCase())
-    .single()
-
-  if (error || !data) {
-    return NextResponse.json({ valid: false, error: 'Code not found' })
-  }
-
-  if (data.used_at) {
-    return NextResponse.json({ valid: false, error: 'Code already used' })
-  }
-
-  if (data.expires_at && new Date(data.expires_at) < new Date()) {
-    return NextResponse.json({ valid: false, error: 'Code expired' })
+  try {
+    const { data: { user } } = await createSessionClient().auth.getUser()
+    const lookup = await lookupPromoCode(code, user?.email)
+    if (!lookup.rule) {
+      return NextResponse.json({ valid: false, error: lookup.error })
+    }
+    const rule = lookup.rule
+
+    if (Array.isArray(items) && items.length > 0) {
+      const priced = await priceCart(items, { member: !!user })
+      if (!priced.error) {
+        const cartError = cartEligibilityError(rule, priced.lines)
+        if (cartError) return NextResponse.json({ valid: false, error: cartError })
+      }
+    }
+
+    return NextResponse.json({
+      valid: true,
+      code: rule.code,
+      rule: { ...rule, maxRedemptions: null, perCustomerLimit: null },
+      description: describePromo(rule),
+    })
+  } catch (err) {
+    console.error('[promo/validate] Error:', err)
+    return NextResponse.json({ valid: false, error: 'Could not check this code right now' }, { status: 500 })
   }
-
-  const discountType = data.discount_type || 'item_050'
-
-  return NextResponse.json({
-    valid: true,
-    code: data.code,
-    discountType,
-    discount: discountType === 'item_050'
-      ? { type: 'item_050', freeShipping: true }
-      : { type: 'percent', percent: parseInt(discountType.replace('percent_', '')), freeShipping: true },
-  })
 }
@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { sendReturnRequestToAdmin } from '@/lib/email'
+import {
+  generateRmaNumber,
+  RETURN_REASONS,
+  RETURN_STATUS_LABELS,
+  returnableLines,
+  returnWindowError,
+  type OrderReturn,
+  type ReturnLine,
+  type ReturnResolution,
+} from '@/lib/orders/returns'
+import { getProductCatalog } from '@/lib/catalog/product-types'
+
+const NOT_FOUND = 'No order found with that number and email combination.'
+
+function getServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+/**
+ * POST /api/returns
+ * Body: {
+ *   order_number: string,
+ *   email: string,
+ *   items?: { index: number, quantity: number, exchange_size?: string }[],
+ *   reason?: string,
+ *   resolution?: 'refund' | 'exchange',
+ *   notes?: string,
+ * }
+ *
+ * Public returns. Without `items` it looks the order up and lists what can
+ * still be returned plus earlier requests; with `items` it opens a return
+ * for staff to approve. Both fields must match, same as /api/track.
+ */
+export async function POST(req: NextRequest) {
+  // Rate limit: 10 requests per 10 minutes per IP
+  const ip = getClientIp(req.headers)
+  const rl = rateLimit(ip, 'order-returns', { limit: 10, windowSeconds: 600 })
+  if (!rl.success) {
+    return NextResponse.json(
+      { error: 'Too many requests. Try again in a few minutes.' },
+      { status: 429, headers: { 'Retry-After': String(Math.ceil((rl.resetAt - Date.now()) / 1000)) } }
+    )
+  }
+
+  const body = await req.json().catch(() => null)
+  const orderNumber = typeof body?.order_number === 'string' ? body.order_number.trim().toUpperCase() : ''
+  const email = typeof body?.email === 'string' ? body.email.trim() : ''
+
+  if (!orderNumber || !email || orderNumber.length > 50 || email.length > 255) {
+    return NextResponse.json({ error: 'Order number and email are required' }, { status: 400 })
+  }
+
+  try {
+    const supabase = getServiceClient()
+
+    const { data: order, error } = await supabase
+      .from('app_shop_orders')
+      .select('id, order_number, email, status, items, total, shipping_cost, tax, tax_province, refunded_amount, refunds, delivered_at')
+      .eq('order_number', orderNumber)
+      .maybeSingle()
+
+    if (error) throw new Error(`Order lookup failed: ${error.message}`)
+    if (!order || !order.email || order.email.trim().toLowerCase() !== email.toLowerCase()) {
+      return NextResponse.json({ error: NOT_FOUND }, { status: 404 })
+    }
+
+    const { data: existing, error: returnsError } = await supabase
+      .from('order_returns')
+      .select('*')
+      .eq('order_id', order.id)
+      .order('created_at', { ascending: false })
+    if (returnsError) throw new Error(`Returns lookup failed: ${returnsError.message}`)
+
+    const returns: OrderReturn[] = existing || []
+    const lines = returnableLines({
+      items: Array.isArray(order.items) ? order.items : [],
+      total: order.total || 0,
+      shipping_cost: order.shipping_cost || 0,
+      tax: order.tax || 0,
+      tax_province: order.tax_province || null,
+      refunded_amount: order.refunded_amount || 0,
+      refunds: Array.isArray(order.refunds) ? order.refunds : [],
+    }, returns, await getProductCatalog())
+    const windowError = returnWindowError(order)
+
+    // ---- Lookup ----
+    if (!Array.isArray(body.items)) {
+      return NextResponse.json({
+        order_number: order.order_number,
+        window_error: windowError,
+        lines,
+        returns: returns.map(r => ({
+          rma_number: r.rma_number,
+          status: r.status,
+          status_label: RETURN_STATUS_LABELS[r.status],
+          resolution: r.resolution,
+          label_url: r.label_url,
+          tracking_pin: r.tracking_pin,
+          items: r.items.map(l => ({ name: l.name, size: l.size, color: l.color, quantity: l.quantity, exchange_size: l.exchange_size })),
+          created_at: r.created_at,
+        })),
+        reasons: RETURN_REASONS,
+      }, { headers: { 'Cache-Control': 'no-store' } })
+    }
+
+    // ---- New return request ----
+    if (windowError) {
+      return NextResponse.json({ error: windowError }, { status: 400 })
+    }
+
+    const resolution: ReturnResolution = body.resolution === 'exchange' ? 'exchange' : 'refund'
+    const reason = typeof body.reason === 'string' ? body.reason.trim().slice(0, 200) : ''
+    if (!reason) {
+      return NextResponse.json({ error: 'Tell us why you are returning the items' }, { status: 400 })
+    }
+
+    const requested: ReturnLine[] = []
+    // An index can appear more than once (e.g. one unit in each new size) — the units add up
+    const claimed = new Map<number, number>()
+    for (const raw of body.items) {
+      const index = Number(raw?.index)
+      const quantity = Number(raw?.quantity)
+      if (!Number.isInteger(quantity) || quantity <= 0) continue
+
+      const line = lines[index]
+      if (!line) {
+        return NextResponse.json({ error: 'Unknown item in return' }, { status: 400 })
+      }
+      if (line.blockedReason) {
+        return NextResponse.json({ error: `${line.name}: ${line.blockedReason}` }, { status: 400 })
+      }
+      const total = (claimed.get(index) || 0) + quantity
+      if (total > line.remaining) {
+        return NextResponse.json({ error: `Only ${line.remaining} × ${line.name} can be returned` }, { status: 400 })
+      }
+      claimed.set(index, total)
+
+      let exchangeSize: string | null = null
+      if (resolution === 'exchange') {
+        const size = typeof raw.exchange_size === 'string' ? raw.exchange_size : ''
+        if (!line.exchangeSizes.includes(size)) {
+          return NextResponse.json({ error: `Pick a new size for ${line.name}` }, { status: 400 })
+        }
+        exchangeSize = size
+      }
+
+      requested.push({
+        index,
+        quantity,
+        name: line.name,
+        sku: line.sku,
+        color: line.color,
+        size: line.size,
+        exchange_size: exchangeSize,
+      })
+    }
+
+    if (requested.length === 0) {
+      return NextResponse.json({ error: 'Select at least one item to return' }, { status: 400 })
+    }
+
+    const { data: created, error: insertError } = await supabase
+      .from('order_returns')
+      .insert({
+        rma_number: generateRmaNumber(),
+        order_id: order.id,
+        order_number: order.order_number,
+        email: order.email,
+        items: requested,
+        reason,
+        customer_notes: typeof body.notes === 'string' && body.notes.trim() ? body.notes.trim().slice(0, 1000) : null,
+        resolution,
+      })
+      .select('rma_number')
+      .single()
+    if (insertError || !created) throw new Error(`Return save failed: ${insertError?.message}`)
+
+    console.log(`[returns] ${created.rma_number} requested for ${order.order_number} (${resolution})`)
+
+    try {
+      await sendReturnRequestToAdmin(created.rma_number, order.order_number, reason, resolution)
+    } catch (emailErr) {
+      console.error('[returns] Admin alert error:', emailErr)
+    }
+
+    return NextResponse.json({ success: true, rma_number: created.rma_number })
+  } catch (err) {
+    console.error('[returns] Error:', err)
+    return NextResponse.json({ error: 'Could not process the return at this time.' }, { status: 500 })
+  }
+}
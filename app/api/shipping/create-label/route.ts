@@ -2,16 +2,26 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
-import { createShipment, downloadLabel, transmitShipments } from '@/lib/canada-post/shipment'
-import { calculatePackage } from '@/lib/stripe-config'
-import type { ShipmentAddress } from '@/lib/canada-post/types'
+import { createShipments, downloadLabel } from '@/lib/canada-post/shipment'
+import type { Parcel } from '@/lib/canada-post/packing'
+import { customsForParcel } from '@/lib/canada-post/customs'
+import { getProductCatalog } from '@/lib/catalog/product-types'
+import { orderParcels } from '@/lib/checkout/shipping-quote'
+import type { CustomsDeclaration, OrderShipment, ShipmentAddress } from '@/lib/canada-post/types'
+import { orderShipments, saveOrderShipments } from '@/lib/orders/shipments'
 
 /**
  * POST /api/shipping/create-label
- * Creates a Canada Post shipment, downloads the PDF label,
- * uploads it to Supabase Storage, and updates the order.
+ * Packs the order into parcels, creates one Canada Post shipment per parcel
+ * (not transmitted — see /api/admin/manifests) with a customs declaration
+ * when the order ships outside Canada,
+ * downloads each PDF label, uploads it to Supabase Storage, and updates the order.
+ * The first parcel's PIN and label stay in tracking_code / label_url.
+ * Parcels that already have a PIN (a retry after a partial failure) are kept,
+ * and only the rest are bought.
  *
- * Body: { orderId, serviceCode }
+ * Body: { orderId, serviceCode, confirmAddress? } — confirmAddress acknowledges
+ * an order whose Stripe address differs from the one shipping was quoted for.
  */
 export async function POST(req: NextRequest) {
   try {
@@ -45,7 +55,7 @@ export async function POST(req: NextRequest) {
     }
 
     // 2. Parse request
-    const { orderId, serviceCode } = await req.json()
+    const { orderId, serviceCode, confirmAddress } = await req.json()
     if (!orderId || !serviceCode) {
       return NextResponse.json({ error: 'Missing orderId or serviceCode' }, { status: 400 })
     }
@@ -66,6 +76,15 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Order not found' }, { status: 404 })
     }
 
+    // Collected in person — nothing to ship
+    if (order.pickup_location) {
+      return NextResponse.json({ error: 'Pickup orders don\'t need a shipping label' }, { status: 400 })
+    }
+
+    if (order.address_mismatch && confirmAddress !== true) {
+      return NextResponse.json({ error: `Address mismatch: ${order.address_mismatch}`, code: 'address_mismatch' }, { status: 409 })
+    }
+
     const shippingAddr = order.shipping_address
     if (!shippingAddr?.name || !shippingAddr?.street || !shippingAddr?.city || !shippingAddr?.province || !shippingAddr?.postal_code) {
       return NextResponse.json({ error: 'Order missing shipping address' }, { status: 400 })
@@ -89,6 +108,7 @@ export async function POST(req: NextRequest) {
     // 5. Build destination
     const destination: ShipmentAddress = {
       name: shippingAddr.name,
+      phone: shippingAddr.phone || undefined,
       addressLine1: shippingAddr.street,
       addressLine2: shippingAddr.apartment || undefined,
       city: shippingAddr.city,
@@ -97,92 +117,128 @@ export async function POST(req: NextRequest) {
       country: shippingAddr.country || 'CA',
     }
 
-    // 6. Calculate package from order items
+    // 6. Pack order items into parcels
     const items = Array.isArray(order.items) ? order.items : []
-    const pkg = calculatePackage(
-      items.map((i: any) => ({ productKey: i.sku || '', quantity: i.qty || 1 }))
-    )
+    const catalog = await getProductCatalog()
+    const packed = orderParcels(items, catalog)
+
+    // Parcels leaving Canada carry a customs declaration of their contents
+    const parcels: Array<Parcel & { customs?: CustomsDeclaration }> = []
+    for (const parcel of packed) {
+      if (destination.country === 'CA') {
+        parcels.push(parcel)
+        continue
+      }
+      const { customs, error: customsError } = customsForParcel(parcel.items, items, catalog)
+      if (!customs) {
+        return NextResponse.json({ error: `Customs declaration failed: ${customsError}` }, { status: 400 })
+      }
+      parcels.push({ ...parcel, customs })
+    }
+
+    // Already-purchased parcels keep their PINs — buying them again would charge twice
+    const existing = orderShipments(order)
+    if (existing.length >= parcels.length) {
+      return NextResponse.json({
+        error: `${order.order_number} already has ${existing.length === 1 ? 'a label' : `${existing.length} labels`} — void ${existing.length === 1 ? 'it' : 'them'} before creating new ones`,
+      }, { status: 409 })
+    }
+    const pending = parcels.slice(existing.length)
 
-    // 7. Create the shipment
+    // 7. Create one shipment per parcel still without a PIN
     console.log('[create-label] ENV CHECK:', {
       baseUrl: process.env.CANADAPOST_BASE_URL || 'MISSING — using fallback ct.soa-gw',
       apiUser: process.env.CANADAPOST_API_USER ? `${process.env.CANADAPOST_API_USER.slice(0, 6)}...` : 'MISSING',
       customerNumber: process.env.CANADAPOST_CUSTOMER_NUMBER || 'MISSING',
       contractId: process.env.CANADAPOST_CONTRACT_ID || 'MISSING',
     })
-    const shipmentResult = await createShipment({
+    console.log(`[create-label] ${order.order_number}: ${pending.length} of ${parcels.length} parcel(s) to buy`)
+    const { shipments: created, error: shipmentError } = await createShipments({
       serviceCode,
       sender,
       destination,
-      weight: pkg.weight,
-      dimensions: { length: pkg.length, width: pkg.width, height: pkg.height },
       customerEmail: order.email || undefined,
       orderNumber: order.order_number,
-    })
-
-    if (shipmentResult.error) {
-      return NextResponse.json({ error: shipmentResult.error }, { status: 502 })
+    }, pending)
+
+    const shipments: OrderShipment[] = [...existing, ...created.map((result, idx) => ({
+      trackingPin: result.trackingPin,
+      shipmentId: result.shipmentId,
+      groupId: result.groupId || null,
+      labelUrl: null,
+      packaging: pending[idx].packaging,
+      weight: pending[idx].weight,
+      dimensions: pending[idx].dimensions,
+      items: pending[idx].items,
+    }))]
+    const trackingPins = shipments.map(s => s.trackingPin)
+
+    const saveShipments = () => saveOrderShipments(serviceClient, order, shipments)
+
+    if (shipmentError) {
+      if (created.length === 0) {
+        return NextResponse.json({ error: shipmentError }, { status: 502 })
+      }
+      // Some parcels were purchased — keep their PINs so a retry only buys the rest
+      await saveShipments()
+      return NextResponse.json({
+        trackingPin: trackingPins[0],
+        trackingPins,
+        error: `${shipments.length} of ${parcels.length} shipments created — retry to create the rest. ${shipmentError}`,
+      }, { status: 207 })
     }
 
-    // 8. Transmit shipment to finalize (contract only — generates manifest, activates tracking)
-    if (shipmentResult.groupId) {
-      const transmitResult = await transmitShipments([shipmentResult.groupId])
-      if (transmitResult.error) {
-        console.warn('[create-label] Transmit warning (non-blocking):', transmitResult.error)
-        // Don't fail the whole flow — shipment + label still work, manifest can be done later
-      } else {
-        console.log('[create-label] Shipment transmitted successfully, manifest:', transmitResult.manifestUrl)
+    // 8. Contract shipments stay in today's group until the admin closes the day
+    //    (/api/admin/manifests transmits every open group in one go)
+
+    // 9. Download each PDF label and upload it to Supabase Storage
+    const labelErrors: string[] = []
+    for (let idx = 0; idx < created.length; idx++) {
+      const n = existing.length + idx
+      const parcelLabel = parcels.length > 1 ? `Parcel ${n + 1}: ` : ''
+
+      const { pdf, error: labelError } = await downloadLabel(created[idx].labelUrl)
+      if (labelError || !pdf.length) {
+        labelErrors.push(`${parcelLabel}label download failed: ${labelError}`)
+        continue
       }
-    }
 
-    // 9. Download the PDF label
-    const { pdf, error: labelError } = await downloadLabel(shipmentResult.labelUrl)
-    if (labelError || !pdf.length) {
-      // Still save tracking even if label download fails
-      await serviceClient
-        .from('app_shop_orders')
-        .update({ tracking_code: shipmentResult.trackingPin })
-        .eq('id', orderId)
+      const suffix = parcels.length > 1 ? `-${n + 1}` : ''
+      const fileName = `${order.order_number}${suffix}-${Date.now()}.pdf`
+      const { error: uploadError } = await serviceClient.storage
+        .from('shipping-labels')
+        .upload(fileName, pdf, { contentType: 'application/pdf' })
 
-      return NextResponse.json({
-        trackingPin: shipmentResult.trackingPin,
-        error: `Shipment created but label download failed: ${labelError}`,
-      }, { status: 207 })
+      if (uploadError) {
+        console.error('[create-label] Storage upload error:', uploadError)
+        labelErrors.push(`${parcelLabel}label upload failed: ${uploadError.message}`)
+        continue
+      }
+
+      const { data: urlData } = serviceClient.storage
+        .from('shipping-labels')
+        .getPublicUrl(fileName)
+      shipments[n].labelUrl = urlData.publicUrl
     }
 
-    // 9. Upload PDF to Supabase Storage
-    const fileName = `${order.order_number}-${Date.now()}.pdf`
-    const { error: uploadError } = await serviceClient.storage
-      .from('shipping-labels')
-      .upload(fileName, pdf, { contentType: 'application/pdf' })
+    // 10. Update order with tracking + labels (still saved when a label failed)
+    await saveShipments()
 
-    if (uploadError) {
-      console.error('[create-label] Storage upload error:', uploadError)
+    if (labelErrors.length > 0) {
       return NextResponse.json({
-        trackingPin: shipmentResult.trackingPin,
-        error: `Shipment created but label upload failed: ${uploadError.message}`,
+        trackingPin: trackingPins[0],
+        trackingPins,
+        shipments,
+        error: `Shipment created but ${labelErrors.join('; ')}`,
       }, { status: 207 })
     }
 
-    const { data: urlData } = serviceClient.storage
-      .from('shipping-labels')
-      .getPublicUrl(fileName)
-
-    const labelUrl = urlData.publicUrl
-
-    // 10. Update order with tracking + label
-    await serviceClient
-      .from('app_shop_orders')
-      .update({
-        tracking_code: shipmentResult.trackingPin,
-        label_url: labelUrl,
-      })
-      .eq('id', orderId)
-
     return NextResponse.json({
-      trackingPin: shipmentResult.trackingPin,
-      labelUrl,
-      shipmentId: shipmentResult.shipmentId,
+      trackingPin: trackingPins[0],
+      trackingPins,
+      labelUrl: shipments[0].labelUrl,
+      shipmentId: shipments[0].shipmentId,
+      shipments,
     })
   } catch (error: any) {
     console.error('[create-label] Error:', error)
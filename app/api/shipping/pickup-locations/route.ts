@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { getPickupLocations, pickupSnapshot } from '@/lib/checkout/pickup'
+
+/**
+ * GET /api/shipping/pickup-locations
+ * Active pickup locations for the checkout modal. Pickup is free and only
+ * offered to Canadian carts.
+ */
+export async function GET() {
+  const { locations, error } = await getPickupLocations()
+  if (error) {
+    return NextResponse.json({ locations: [], error: 'Could not load pickup locations' }, { status: 500 })
+  }
+  return NextResponse.json({ locations: locations.map(pickupSnapshot) }, {
+    headers: { 'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600' },
+  })
+}
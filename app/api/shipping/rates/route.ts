@@ -1,60 +1,62 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getRates } from '@/lib/canada-post/rating'
-import { calculatePackage, FREE_SHIPPING_THRESHOLD } from '@/lib/stripe-config'
+import { isShippingCountry, qualifiesForFreeShipping } from '@/lib/stripe-config'
+import { isValidPostal } from '@/lib/checkout/postal-utils'
+import { priceCart } from '@/lib/checkout/pricing'
+import { cartParcels, normalizePostal, packageHash, quoteCart, signShippingQuote } from '@/lib/checkout/shipping-quote'
+import { getProductCatalog } from '@/lib/catalog/product-types'
+import { createClient as createSessionClient } from '@/lib/supabase/server'
 
 export async function POST(req: NextRequest) {
   try {
-    const { items, postalCode, province } = await req.json()
+    const { items, postalCode, country = 'CA' } = await req.json()
 
     if (!postalCode || !items?.length) {
       return NextResponse.json({ error: 'Missing postal code or items' }, { status: 400 })
     }
 
-    // Validate Canadian postal code format
-    const cleanPostal = postalCode.replace(/\s/g, '').toUpperCase()
-    if (!/^[A-Z]\d[A-Z]\d[A-Z]\d$/.test(cleanPostal)) {
-      return NextResponse.json({ error: 'Invalid postal code' }, { status: 400 })
+    if (!isShippingCountry(country)) {
+      return NextResponse.json({ error: 'We don\'t ship to that country yet' }, { status: 400 })
     }
 
-    const originPostal = process.env.CANADAPOST_ORIGIN_POSTAL || 'K2B8J6'
-    const pkg = calculatePackage(
-      items.map((i: any) => ({ productKey: i.product_key, quantity: i.quantity }))
-    )
+    // Validate postal code / ZIP format for the country
+    const cleanPostal = normalizePostal(postalCode)
+    if (!isValidPostal(cleanPostal, country)) {
+      return NextResponse.json({ error: country === 'US' ? 'Invalid ZIP code' : 'Invalid postal code' }, { status: 400 })
+    }
 
-    // Calculate subtotal for free-shipping check
-    const subtotal = items.reduce((sum: number, i: any) => sum + (i.price || 0) * (i.quantity || 1), 0)
+    // Free-shipping check uses catalog prices, not the client's
+    const { data: { user } } = await createSessionClient().auth.getUser()
+    const priced = await priceCart(items, { member: !!user })
+    if (priced.error) {
+      return NextResponse.json(
+        { error: priced.error, code: priced.code },
+        { status: priced.code === 'price_mismatch' ? 409 : 400 }
+      )
+    }
+    const subtotal = priced.subtotal
 
-    // Try Canada Post API
-    const cpResult = await getRates({
-      originPostal,
-      destinationPostal: cleanPostal,
-      weight: pkg.weight,
-      dimensions: { length: pkg.length, width: pkg.width, height: pkg.height },
-    })
+    const parcels = cartParcels(priced.lines, await getProductCatalog())
 
-    if (cpResult.quotes.length > 0) {
-      // Apply free-shipping threshold
-      const isFree = subtotal >= FREE_SHIPPING_THRESHOLD
-      const quotes = cpResult.quotes.map(q => ({
-        ...q,
-        priceTotalCents: isFree ? 0 : q.priceTotalCents,
-        priceTotal: isFree ? 0 : q.priceTotal,
-        freeShipping: isFree,
-      }))
-
-      return NextResponse.json({
-        source: 'canada-post',
-        quotes,
-        package: pkg,
-      })
-    }
+    // Cached quote, live Canada Post, or an estimate from regional history
+    const result = await quoteCart(parcels, cleanPostal, country)
+
+    // Apply free-shipping threshold (Canada only). Tokens sign the undiscounted
+    // price — checkout applies free shipping itself from the server-side subtotal.
+    const isFree = qualifiesForFreeShipping(subtotal, country)
+    const pkg = packageHash(parcels)
+    const quotes = result.quotes.map(q => ({
+      ...q,
+      priceTotalCents: isFree ? 0 : q.priceTotalCents,
+      priceTotal: isFree ? 0 : q.priceTotal,
+      freeShipping: isFree,
+      token: signShippingQuote(q, { postal: cleanPostal, country, pkg, source: result.source }),
+    }))
 
-    // No fallback — return empty quotes so frontend shows retry
     return NextResponse.json({
-      source: 'canada-post',
-      quotes: [],
-      package: pkg,
-      error: cpResult.error || 'No quotes from Canada Post',
+      source: result.source,
+      quotes,
+      parcels,
+      ...(result.error ? { error: result.error } : {}),
     })
   } catch (err: any) {
     console.error('[shipping/rates] Error:', err)
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { redownloadLabel } from '@/lib/canada-post/shipment'
+import { orderShipments, resolveShipmentId, saveOrderShipments } from '@/lib/orders/shipments'
+
+function getServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+async function verifyAdmin() {
+  const cookieStore = cookies()
+  const authClient = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() { return cookieStore.getAll() },
+        setAll() {},
+      },
+    }
+  )
+  const { data: { user } } = await authClient.auth.getUser()
+  if (!user?.email) return null
+  const { data: admin } = await authClient
+    .from('admin_users')
+    .select('email')
+    .eq('email', user.email)
+    .single()
+  return admin ? user : null
+}
+
+/**
+ * POST /api/shipping/reprint-label
+ * Downloads an existing shipment's label from Canada Post again, uploads it
+ * to Supabase Storage and replaces the stored label URL. For labels that
+ * failed to download at creation, or were replaced by a wrong upload.
+ *
+ * Body: { orderId, trackingPin? }  — no trackingPin = every shipment
+ */
+export async function POST(req: NextRequest) {
+  const adminUser = await verifyAdmin()
+  if (!adminUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { orderId, trackingPin } = await req.json()
+    if (!orderId) {
+      return NextResponse.json({ error: 'Missing orderId' }, { status: 400 })
+    }
+
+    const supabase = getServiceClient()
+    const { data: order, error: orderError } = await supabase
+      .from('app_shop_orders')
+      .select('*')
+      .eq('id', orderId)
+      .single()
+
+    if (orderError || !order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+    }
+
+    const shipments = orderShipments(order).map(s => ({ ...s }))
+    const targets = shipments.filter(s => !trackingPin || s.trackingPin === trackingPin)
+    if (targets.length === 0) {
+      return NextResponse.json({ error: 'No shipment to reprint' }, { status: 400 })
+    }
+
+    const errors: string[] = []
+    for (const shipment of targets) {
+      const shipmentId = await resolveShipmentId(shipment)
+      if (!shipmentId) {
+        errors.push(`${shipment.trackingPin}: no Canada Post shipment id on record`)
+        continue
+      }
+      shipment.shipmentId = shipmentId
+
+      const { pdf, error: labelError } = await redownloadLabel(shipmentId)
+      if (labelError || !pdf.length) {
+        errors.push(`${shipment.trackingPin}: ${labelError || 'empty label'}`)
+        continue
+      }
+
+      const parcel = shipments.length > 1 ? `-${shipments.indexOf(shipment) + 1}` : ''
+      const fileName = `${order.order_number}${parcel}-${Date.now()}.pdf`
+      const { error: uploadError } = await supabase.storage
+        .from('shipping-labels')
+        .upload(fileName, pdf, { contentType: 'application/pdf' })
+
+      if (uploadError) {
+        console.error('[reprint-label] Storage upload error:', uploadError)
+        errors.push(`${shipment.trackingPin}: label upload failed: ${uploadError.message}`)
+        continue
+      }
+
+      shipment.labelUrl = supabase.storage.from('shipping-labels').getPublicUrl(fileName).data.publicUrl
+    }
+
+    const updated = await saveOrderShipments(supabase, order, shipments)
+
+    if (errors.length === targets.length) {
+      return NextResponse.json({ error: errors.join('; '), order: updated }, { status: 502 })
+    }
+
+    return NextResponse.json({
+      labelUrl: updated.label_url,
+      shipments,
+      order: updated,
+      ...(errors.length > 0 ? { error: errors.join('; ') } : {}),
+    }, { status: errors.length > 0 ? 207 : 200 })
+  } catch (error: any) {
+    console.error('[reprint-label] Error:', error)
+    return NextResponse.json({ error: error.message || 'Failed to reprint label' }, { status: 500 })
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { voidShipment } from '@/lib/canada-post/shipment'
+import type { VoidedShipment } from '@/lib/canada-post/types'
+import { orderShipments, resolveShipmentId, saveOrderShipments } from '@/lib/orders/shipments'
+
+function getServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+async function verifyAdmin() {
+  const cookieStore = cookies()
+  const authClient = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() { return cookieStore.getAll() },
+        setAll() {},
+      },
+    }
+  )
+  const { data: { user } } = await authClient.auth.getUser()
+  if (!user?.email) return null
+  const { data: admin } = await authClient
+    .from('admin_users')
+    .select('email')
+    .eq('email', user.email)
+    .single()
+  return admin ? user : null
+}
+
+/**
+ * POST /api/shipping/void-label
+ * Voids an order's Canada Post shipments (or one of them) so a new label can
+ * be created. Shipments already transmitted get a refund request instead.
+ * Voided shipments move to voided_shipments; tracking_code / label_url follow
+ * whatever is left. A shipped order whose last label is voided goes back to
+ * processing (or paid) so it shows up for labelling again.
+ *
+ * Body: { orderId, trackingPin? }  — no trackingPin = every shipment
+ */
+export async function POST(req: NextRequest) {
+  const adminUser = await verifyAdmin()
+  if (!adminUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { orderId, trackingPin } = await req.json()
+    if (!orderId) {
+      return NextResponse.json({ error: 'Missing orderId' }, { status: 400 })
+    }
+
+    const supabase = getServiceClient()
+    const { data: order, error: orderError } = await supabase
+      .from('app_shop_orders')
+      .select('*')
+      .eq('id', orderId)
+      .single()
+
+    if (orderError || !order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+    }
+
+    const shipments = orderShipments(order)
+    const targets = trackingPin ? shipments.filter(s => s.trackingPin === trackingPin) : shipments
+    if (targets.length === 0) {
+      return NextResponse.json({ error: 'No shipment to void' }, { status: 400 })
+    }
+
+    // Canada Post sends refund confirmations here
+    const refundEmail = process.env.SHOP_ADMIN_EMAIL || adminUser.email!
+    const voided: VoidedShipment[] = []
+    let voidError: string | null = null
+
+    for (const shipment of targets) {
+      const shipmentId = await resolveShipmentId(shipment)
+      if (!shipmentId) {
+        voidError = `${shipment.trackingPin}: no Canada Post shipment id on record — void it in the Canada Post portal`
+        break
+      }
+
+      const result = await voidShipment(shipmentId, refundEmail)
+      if (result.error || !result.method) {
+        voidError = `${shipment.trackingPin}: ${result.error || 'Void failed'}`
+        break
+      }
+
+      console.log(`[void-label] ${order.order_number} ${shipment.trackingPin} ${result.method}`)
+      voided.push({
+        ...shipment,
+        shipmentId,
+        voidedAt: new Date().toISOString(),
+        method: result.method,
+        refundTicketId: result.refundTicketId || null,
+      })
+    }
+
+    if (voided.length === 0) {
+      return NextResponse.json({ error: voidError }, { status: 502 })
+    }
+
+    const voidedPins = new Set(voided.map(s => s.trackingPin))
+    const remaining = shipments.filter(s => !voidedPins.has(s.trackingPin))
+    // Last label gone — the order isn't shipped any more; back to where it was before labelling
+    const unship = remaining.length === 0 && order.status === 'shipped'
+      ? { status: order.processing_at ? 'processing' : 'paid', shipped_at: null }
+      : {}
+    const updated = await saveOrderShipments(supabase, order, remaining, {
+      voided_shipments: [...(Array.isArray(order.voided_shipments) ? order.voided_shipments : []), ...voided],
+      ...unship,
+    })
+    if ('status' in unship) console.log(`[void-label] ${order.order_number} back to ${unship.status}`)
+
+    return NextResponse.json({
+      voided,
+      order: updated,
+      ...(voidError ? { error: voidError } : {}),
+    }, { status: voidError ? 207 : 200 })
+  } catch (error: any) {
+    console.error('[void-label] Error:', error)
+    return NextResponse.json({ error: error.message || 'Failed to void label' }, { status: 500 })
+  }
+}
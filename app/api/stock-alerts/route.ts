@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { createClient as createSessionClient } from '@/lib/supabase/server'
+import { subscribeBackInStock } from '@/lib/inventory/stock-alerts'
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * POST /api/stock-alerts
+ * Body: { variant_id: string, email?: string }
+ *
+ * "Notify me" on a sold-out variant. Signed-in customers can leave out the
+ * email — their account address is used.
+ */
+export async function POST(req: NextRequest) {
+  // Rate limit: 10 sign-ups per 10 minutes per IP
+  const ip = getClientIp(req.headers)
+  const rl = rateLimit(ip, 'stock-alerts', { limit: 10, windowSeconds: 600 })
+  if (!rl.success) {
+    return NextResponse.json(
+      { error: 'Too many requests. Try again in a few minutes.' },
+      { status: 429, headers: { 'Retry-After': String(Math.ceil((rl.resetAt - Date.now()) / 1000)) } }
+    )
+  }
+
+  const body = await req.json().catch(() => null)
+  const variantId = typeof body?.variant_id === 'string' ? body.variant_id : ''
+  if (!UUID_RE.test(variantId)) {
+    return NextResponse.json({ error: 'variant_id is required' }, { status: 400 })
+  }
+
+  try {
+    const session = createSessionClient()
+    const { data: { user } } = await session.auth.getUser()
+    const email = typeof body?.email === 'string' && body.email.trim() ? body.email : user?.email || ''
+
+    const result = await subscribeBackInStock({ variantId, email, userId: user?.id ?? null })
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: result.status || 400 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('[stock-alerts] Signup error:', err)
+    return NextResponse.json({ error: 'Could not save your request right now.' }, { status: 500 })
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { getPublicOrderStatus } from '@/lib/orders/order-status'
+
+const NOT_FOUND = 'No order found with that number and email combination.'
+
+/**
+ * POST /api/track
+ * Body: { order_number: string, email: string }
+ *
+ * Public order tracker. Both fields must match, and lookups are rate
+ * limited per IP so order numbers can't be enumerated.
+ */
+export async function POST(req: NextRequest) {
+  // Rate limit: 10 lookups per 10 minutes per IP
+  const ip = getClientIp(req.headers)
+  const rl = rateLimit(ip, 'order-track', { limit: 10, windowSeconds: 600 })
+  if (!rl.success) {
+    return NextResponse.json(
+      { error: 'Too many lookups. Try again in a few minutes.' },
+      { status: 429, headers: { 'Retry-After': String(Math.ceil((rl.resetAt - Date.now()) / 1000)) } }
+    )
+  }
+
+  const body = await req.json().catch(() => null)
+  const orderNumber = typeof body?.order_number === 'string' ? body.order_number.trim() : ''
+  const email = typeof body?.email === 'string' ? body.email.trim() : ''
+
+  if (!orderNumber || !email || orderNumber.length > 50 || email.length > 255) {
+    return NextResponse.json({ error: 'Order number and email are required' }, { status: 400 })
+  }
+
+  try {
+    const order = await getPublicOrderStatus(orderNumber, email)
+    if (!order) {
+      return NextResponse.json({ error: NOT_FOUND }, { status: 404 })
+    }
+    return NextResponse.json({ order }, { headers: { 'Cache-Control': 'no-store' } })
+  } catch (err) {
+    console.error('[track] Lookup error:', err)
+    return NextResponse.json({ error: 'Could not look up order at this time.' }, { status: 500 })
+  }
+}
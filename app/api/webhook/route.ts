@@ -1,7 +1,353 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Stripe from 'stripe';
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import { sendOrderConfirmationToCustomer, sendNewOrderToAdmin } from '@/lib/email';
+import { findOrderByPaymentIntent, syncOrderRefunds, recordDispute } from '@/lib/orders/stripe-sync';
+import { commitStockReservation, releaseStockReservation } from '@/lib/inventory/reservations';
+import { markCartAbandoned, markCartConverted } from '@/lib/checkout/cart-recovery';
+import { redeemPromoCode, redeemPromoHold, releasePromoHold } from '@/lib/promo/codes';
+import { getPickupLocation, pickupSnapshot, type OrderPickup } from '@/lib/checkout/pickup';
+import { flagCatalogDrift } from '@/lib/catalog/stripe-sync';
+import { addressMismatch } from '@/lib/checkout/address-check';
+import { loadCheckoutItems } from '@/lib/checkout/checkout-items';
+
+// An event stuck in 'processing' longer than this is assumed crashed and may be retried
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+// ============================================
+// EVENT LEDGER (stripe_webhook_events)
+// ============================================
+
+type ClaimResult = 'claimed' | 'processed' | 'in_progress';
+
+/** Record the event as in-flight. Returns whether this delivery should process it. */
+async function claimEvent(supabase: SupabaseClient, event: Stripe.Event): Promise<ClaimResult> {
+  const { error } = await supabase
+    .from('stripe_webhook_events')
+    .insert({ event_id: event.id, type: event.type, status: 'processing' });
+
+  if (!error) return 'claimed';
+  if (error.code !== '23505') throw new Error(`Event ledger insert failed: ${error.message}`);
+
+  const { data: existing, error: readError } = await supabase
+    .from('stripe_webhook_events')
+    .select('status, attempts, updated_at')
+    .eq('event_id', event.id)
+    .single();
+  if (readError || !existing) throw new Error(`Event ledger read failed: ${readError?.message}`);
+
+  if (existing.status === 'processed') return 'processed';
+
+  const isStale = Date.now() - new Date(existing.updated_at).getTime() > STALE_PROCESSING_MS;
+  if (existing.status === 'processing' && !isStale) return 'in_progress';
+
+  // Failed (or abandoned) earlier — take it over. The updated_at guard keeps two
+  // concurrent retries from both claiming it.
+  const { data: reclaimed, error: claimError } = await supabase
+    .from('stripe_webhook_events')
+    .update({
+      status: 'processing',
+      attempts: (existing.attempts || 1) + 1,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('event_id', event.id)
+    .eq('updated_at', existing.updated_at)
+    .select('event_id');
+  if (claimError) throw new Error(`Event ledger claim failed: ${claimError.message}`);
+
+  return reclaimed && reclaimed.length > 0 ? 'claimed' : 'in_progress';
+}
+
+async function markEvent(supabase: SupabaseClient, eventId: string, error?: unknown) {
+  const now = new Date().toISOString();
+  const { error: updateError } = await supabase
+    .from('stripe_webhook_events')
+    .update(error
+      ? { status: 'failed', last_error: String((error as any)?.message ?? error).slice(0, 1000), updated_at: now }
+      : { status: 'processed', last_error: null, processed_at: now, updated_at: now })
+    .eq('event_id', eventId);
+
+  if (updateError) console.error('[WEBHOOK] Event ledger update error:', updateError);
+}
+
+// ============================================
+// checkout.session.completed
+// ============================================
+
+async function handleCheckoutCompleted(
+  stripe: Stripe,
+  supabase: SupabaseClient,
+  sessionId: string,
+) {
+  const session = await stripe.checkout.sessions.retrieve(
+    sessionId,
+    { expand: ['line_items.data.price.product'] }
+  );
+
+  // Lines are stored server-side (items_ref); sessions from before kept them in metadata
+  let itemsDetail: any[] = [];
+  if (session.metadata?.items_ref) {
+    const stored = await loadCheckoutItems(session.metadata.items_ref);
+    if (!stored) throw new Error(`Checkout items ${session.metadata.items_ref} not found for session ${session.id}`);
+    itemsDetail = stored;
+  } else if (session.metadata?.items_detail) {
+    itemsDetail = JSON.parse(session.metadata.items_detail);
+  }
+
+  // Address: prefer Stripe-collected (new flow), fallback to metadata (old orders)
+  let shippingAddress = null;
+  const stripeShipping = (session as any).collected_information?.shipping_details
+    || (session as any).shipping_details;
+  if (stripeShipping?.address) {
+    shippingAddress = {
+      name: stripeShipping.name,
+      street: stripeShipping.address.line1,
+      apartment: stripeShipping.address.line2 || null,
+      city: stripeShipping.address.city,
+      province: stripeShipping.address.state,
+      postal_code: stripeShipping.address.postal_code,
+      country: stripeShipping.address.country,
+      // Collected for parcels leaving Canada (customs contact)
+      ...(session.customer_details?.phone ? { phone: session.customer_details.phone } : {}),
+    };
+  } else if (session.metadata?.shipping_address) {
+    shippingAddress = JSON.parse(session.metadata.shipping_address);
+  }
+
+  // Local pickup: keep the location as it was at checkout, plus who's collecting
+  let pickup: OrderPickup | null = null;
+  if (session.metadata?.pickup_location) {
+    const location = await getPickupLocation(session.metadata.pickup_location);
+    if (location) {
+      pickup = {
+        ...pickupSnapshot(location),
+        customer_name: session.customer_details?.name || null,
+        customer_phone: session.customer_details?.phone || null,
+      };
+    } else {
+      console.warn(`[WEBHOOK] Pickup location ${session.metadata.pickup_location} not found for session ${session.id}`);
+    }
+  }
+
+  // Shipping was quoted (and tax charged) for the postal code typed in the cart —
+  // flag the order for staff when Stripe collected a different destination
+  const mismatch = shippingAddress && !pickup && session.metadata?.shipping_postal
+    ? addressMismatch(
+        {
+          postal: session.metadata.shipping_postal,
+          province: session.metadata.tax_province || null,
+          country: session.metadata.shipping_country || 'CA',
+        },
+        shippingAddress,
+      )
+    : null;
+  if (mismatch) console.warn(`[WEBHOOK] Address mismatch on session ${session.id}: ${mismatch}`);
+
+  const customerEmail = session.customer_details?.email || null;
+  const customerNotes = session.metadata?.customer_notes || null;
+  const shippingService = session.metadata?.shipping_service || null;
+  const preorderShipsAt = session.metadata?.preorder_ships_at || null;
+  const amountTotal = session.amount_total || 0;
+  const shippingCost = (session as any).shipping_cost?.amount_total || 0;
+  const taxLines: Array<{ label: string; amount: number }> = session.metadata?.tax_lines
+    ? JSON.parse(session.metadata.tax_lines)
+    : [];
+  const taxCents = taxLines.reduce((sum, l) => sum + (l.amount || 0), 0);
+
+  // Adaptive Pricing: what the customer saw in their own currency (CAD orders leave this null)
+  const presented = session.presentment_details;
+  const presentment = presented && presented.presentment_currency.toUpperCase() !== 'CAD'
+    ? { currency: presented.presentment_currency.toUpperCase(), amount: presented.presentment_amount }
+    : null;
+
+  // A) Save order to Supabase — once per session, however many times Stripe delivers
+  // NOTE: subtotal/shipping/tax are legacy columns from the old schema
+  // that have NOT NULL constraints. We populate them to avoid INSERT failures.
+  const subtotalCents = amountTotal - shippingCost - taxCents;
+
+  const { data: existingOrder, error: lookupError } = await supabase
+    .from('app_shop_orders')
+    .select('id, order_number, emails_sent_at')
+    .eq('stripe_session_id', session.id)
+    .maybeSingle();
+  if (lookupError) throw new Error(`Order lookup failed: ${lookupError.message}`);
+
+  let order = existingOrder;
+  if (!order) {
+    const { data: newNumber, error: seqError } = await supabase.rpc('next_shop_order_number');
+    if (seqError || !newNumber) throw new Error(`Order number allocation failed: ${seqError?.message}`);
+
+    // ignoreDuplicates: if a concurrent delivery inserted first, keep its row
+    const { error: orderError } = await supabase
+      .from('app_shop_orders')
+      .upsert({
+        order_number: newNumber,
+        // Waits in 'preorder' until the pre-ordered stock is in
+        status: preorderShipsAt ? 'preorder' : 'paid',
+        preorder_ships_at: preorderShipsAt,
+        email: customerEmail,
+        user_id: session.metadata?.user_id || null,
+        items: itemsDetail,
+        shipping_address: shippingAddress,
+        address_mismatch: mismatch,
+        customer_notes: customerNotes,
+        total: amountTotal,
+        subtotal: subtotalCents,
+        shipping: shippingCost,
+        shipping_cost: shippingCost,
+        tax: taxCents,
+        tax_province: session.metadata?.tax_province || null,
+        tax_lines: taxLines,
+        shipping_service: shippingService,
+        pickup_location_id: session.metadata?.pickup_location || null,
+        pickup_location: pickup,
+        presentment_currency: presentment?.currency ?? null,
+        presentment_amount: presentment?.amount ?? null,
+        stripe_session_id: session.id,
+        stripe_payment_intent_id: typeof session.payment_intent === 'string'
+          ? session.payment_intent
+          : session.payment_intent?.id ?? null,
+        created_at: new Date().toISOString(),
+      }, { onConflict: 'stripe_session_id', ignoreDuplicates: true });
+    if (orderError) throw new Error(`Order save failed: ${orderError.message}`);
+
+    const { data: saved, error: reloadError } = await supabase
+      .from('app_shop_orders')
+      .select('id, order_number, emails_sent_at')
+      .eq('stripe_session_id', session.id)
+      .single();
+    if (reloadError || !saved) throw new Error(`Order reload failed: ${reloadError?.message}`);
+
+    order = saved;
+    console.log(`[WEBHOOK] Order ${order.order_number} saved`);
+  } else {
+    console.log(`[WEBHOOK] Order ${order.order_number} already exists for session ${session.id}`);
+  }
+
+  const orderNumber: string = order.order_number;
+
+  await markCartConverted(session, orderNumber);
+
+  // Held stock becomes sold (no-op when already committed by an earlier delivery)
+  const stockReservation = session.metadata?.stock_reservation;
+  if (stockReservation) {
+    await commitStockReservation(stockReservation, session.id);
+  }
+
+  // B) The promo use held at checkout is spent (no-op when an earlier delivery redeemed it)
+  const promoHold = session.metadata?.promo_hold;
+  const promoCode = session.metadata?.promo_code;
+  if (promoHold) {
+    const redeemed = await redeemPromoHold(promoHold, session.id);
+    if (!redeemed) console.warn(`[WEBHOOK] Promo hold ${promoHold} not found for order ${orderNumber}`);
+  } else if (promoCode) {
+    // Session created before checkout held codes
+    const redeemed = await redeemPromoCode(promoCode, session.id, customerEmail, null);
+    if (!redeemed) console.warn(`[WEBHOOK] Promo code ${promoCode} over its redemption limit for order ${orderNumber}`);
+  }
+
+  // C) Send email notifications (skipped if a previous delivery already sent them)
+  if (order.emails_sent_at) return;
+
+  // Claim the send first so a concurrent retry can't send a second copy
+  const { data: claimed, error: claimError } = await supabase
+    .from('app_shop_orders')
+    .update({ emails_sent_at: new Date().toISOString() })
+    .eq('id', order.id)
+    .is('emails_sent_at', null)
+    .select('id');
+  if (claimError) throw new Error(`Email claim failed: ${claimError.message}`);
+  if (!claimed || claimed.length === 0) return;
+
+  const lineItemNames = session.line_items?.data.map((li: any) => {
+    const product = li.price?.product;
+    return product?.name || li.description || 'Product';
+  }) || [];
+
+  const emailItems = itemsDetail.map((item: any, idx: number) => ({
+    name: item.name || lineItemNames[idx] || 'Product',
+    sku: item.sku || '',
+    design: item.design || '',
+    quantity: item.qty,
+    // `paid` is set by checkout (line total after promo); older sessions fall back to line order
+    price: (item.paid ?? session.line_items?.data[idx]?.amount_total ?? 0) / 100 / (item.qty || 1),
+    size: item.size,
+    color: item.color,
+    preorderShipsAt: item.preorder_ships_at || null,
+  }));
+
+  const emailData = {
+    orderNumber,
+    preorderShipsAt,
+    items: emailItems,
+    subtotal: subtotalCents / 100,
+    shipping: shippingCost / 100,
+    taxLines: taxLines.map(l => ({ label: l.label, amount: l.amount / 100 })),
+    total: amountTotal / 100,
+    presentment,
+    shippingAddress,
+    addressMismatch: mismatch,
+    pickupLocation: pickup,
+    customerEmail: customerEmail || undefined,
+    stripeSessionId: session.id,
+  };
+
+  try {
+    const emailPromises: Promise<void>[] = [];
+    if (customerEmail) {
+      emailPromises.push(sendOrderConfirmationToCustomer(emailData, customerEmail));
+    }
+    emailPromises.push(sendNewOrderToAdmin(emailData));
+    await Promise.allSettled(emailPromises);
+  } catch (emailError) {
+    console.error('[WEBHOOK] Email error:', emailError);
+  }
+}
+
+// ============================================
+// checkout.session.expired
+// ============================================
+
+async function handleCheckoutExpired(session: Stripe.Checkout.Session) {
+  const stockReservation = session.metadata?.stock_reservation;
+  if (stockReservation) {
+    await releaseStockReservation(stockReservation);
+    console.log(`[WEBHOOK] Stock released for expired session ${session.id}`);
+  }
+
+  const promoHold = session.metadata?.promo_hold;
+  if (promoHold) {
+    await releasePromoHold(promoHold);
+    console.log(`[WEBHOOK] Promo ${session.metadata?.promo_code} released for expired session ${session.id}`);
+  }
+
+  await markCartAbandoned(session);
+}
+
+// ============================================
+// charge.refunded
+// ============================================
+
+async function handleChargeRefunded(stripe: Stripe, supabase: SupabaseClient, charge: Stripe.Charge) {
+  const pi = typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+  if (!pi) {
+    console.warn(`[WEBHOOK] Refunded charge ${charge.id} has no payment intent — ignoring`);
+    return;
+  }
+
+  const order = await findOrderByPaymentIntent(stripe, supabase, pi);
+  if (!order) {
+    console.warn(`[WEBHOOK] No order for refunded payment intent ${pi}`);
+    return;
+  }
+
+  const updated = await syncOrderRefunds(stripe, supabase, order.id, { notify: true });
+  console.log(`[WEBHOOK] Order ${order.order_number} refunds synced — ${updated.status}, CA$${(updated.refunded_amount / 100).toFixed(2)} refunded`);
+}
+
+// ============================================
+// ROUTE
+// ============================================
 
 export async function POST(req: NextRequest) {
   if (!process.env.STRIPE_SECRET_KEY || !process.env.STRIPE_WEBHOOK_SECRET) {
@@ -32,141 +378,57 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: 'Invalid signature' }, { status: 400 });
   }
 
-  console.log(`[WEBHOOK] ${event.type}`);
-
-  if (event.type === 'checkout.session.completed') {
-    try {
-      const session = await stripe.checkout.sessions.retrieve(
-        event.data.object.id,
-        { expand: ['line_items.data.price.product'] }
-      );
-
-      const itemsDetail = session.metadata?.items_detail
-        ? JSON.parse(session.metadata.items_detail)
-        : [];
-
-      // Address: prefer Stripe-collected (new flow), fallback to metadata (old orders)
-      let shippingAddress = null;
-      const stripeShipping = (session as any).collected_information?.shipping_details
-        || (session as any).shipping_details;
-      if (stripeShipping?.address) {
-        shippingAddress = {
-          name: stripeShipping.name,
-          street: stripeShipping.address.line1,
-          apartment: stripeShipping.address.line2 || null,
-          city: stripeShipping.address.city,
-          province: stripeShipping.address.state,
-          postal_code: stripeShipping.address.postal_code,
-          country: stripeShipping.address.country,
-        };
-      } else if (session.metadata?.shipping_address) {
-        shippingAddress = JSON.parse(session.metadata.shipping_address);
-      }
-
-      const customerEmail = session.customer_details?.email || null;
-      const customerNotes = session.metadata?.customer_notes || null;
-      const shippingService = session.metadata?.shipping_service || null;
-      const amountTotal = session.amount_total || 0;
-      const shippingCost = (session as any).shipping_cost?.amount_total || 0;
-      const orderNumber = `OS-${Date.now().toString(36).toUpperCase()}`;
-
-      // A) Save order to Supabase
-      // NOTE: subtotal/shipping/tax are legacy columns from the old schema
-      // that have NOT NULL constraints. We populate them to avoid INSERT failures.
-      const subtotalCents = amountTotal - shippingCost;
-      const { error: orderError } = await supabase
-        .from('app_shop_orders')
-        .insert({
-          order_number: orderNumber,
-          status: 'paid',
-          email: customerEmail,
-          items: itemsDetail,
-          shipping_address: shippingAddress,
-          customer_notes: customerNotes,
-          total: amountTotal,
-          subtotal: subtotalCents,
-          shipping: shippingCost,
-          shipping_cost: shippingCost,
-          shipping_service: shippingService,
-          stripe_session_id: session.id,
-          created_at: new Date().toISOString(),
-        });
-
-      if (orderError) {
-        console.error('[WEBHOOK] Order save error:', orderError);
-      } else {
-        console.log(`[WEBHOOK] Order ${orderNumber} saved`);
-      }
-
-      // B) Consume promo code if used
-      const promoCode = session.metadata?.promo_code;
-      if (promoCode) {
-        try {
-          const shopUrl = process.env.NEXT_PUBLIC_SHOP_URL || 'https://shop.onsiteclub.ca';
-          await fetch(`${shopUrl}/api/promo/consume`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-internal-secret': process.env.ADMIN_SECRET!,
-            },
-            body: JSON.stringify({
-              code: promoCode,
-              orderId: session.id,
-              ip: req.headers.get('x-forwarded-for') ?? 'unknown',
-            }),
-          });
-          console.log(`[WEBHOOK] Promo code ${promoCode} consumed for order ${orderNumber}`);
-        } catch (promoErr) {
-          console.error('[WEBHOOK] Promo consume error:', promoErr);
-        }
-      }
-
-      // C) Send email notifications
-      const lineItemNames = session.line_items?.data.map((li: any) => {
-        const product = li.price?.product;
-        return product?.name || li.description || 'Product';
-      }) || [];
-
-      const emailItems = itemsDetail.map((item: any, idx: number) => ({
-        name: item.name || lineItemNames[idx] || 'Product',
-        sku: item.sku || '',
-        design: item.design || '',
-        quantity: item.qty,
-        price: (session.line_items?.data[idx]?.amount_total || 0) / 100 / (item.qty || 1),
-        size: item.size,
-        color: item.color,
-      }));
-
-      const emailData = {
-        orderNumber,
-        items: emailItems,
-        subtotal: (amountTotal - shippingCost) / 100,
-        shipping: shippingCost / 100,
-        total: amountTotal / 100,
-        shippingAddress,
-        customerEmail: customerEmail || undefined,
-        stripeSessionId: session.id,
-      };
+  console.log(`[WEBHOOK] ${event.type} ${event.id}`);
 
-      try {
-        const emailPromises: Promise<void>[] = [];
-        if (customerEmail) {
-          emailPromises.push(sendOrderConfirmationToCustomer(emailData, customerEmail));
-        }
-        emailPromises.push(sendNewOrderToAdmin(emailData));
-        await Promise.allSettled(emailPromises);
-      } catch (emailError) {
-        console.error('[WEBHOOK] Email error:', emailError);
-      }
-    } catch (err) {
-      console.error('[WEBHOOK] Processing error:', err);
-    }
+  let claim: ClaimResult;
+  try {
+    claim = await claimEvent(supabase, event);
+  } catch (err) {
+    console.error('[WEBHOOK] Event ledger error:', err);
+    return NextResponse.json({ error: 'Event ledger unavailable' }, { status: 500 });
   }
 
-  if (event.type === 'payment_intent.payment_failed') {
-    const paymentIntent = event.data.object as Stripe.PaymentIntent;
-    console.error(`[WEBHOOK] Payment failed: ${paymentIntent.id}`);
+  if (claim === 'processed') {
+    console.log(`[WEBHOOK] ${event.id} already processed — skipping`);
+    return NextResponse.json({ received: true, duplicate: true });
+  }
+  if (claim === 'in_progress') {
+    // Another delivery is working on it; a non-2xx makes Stripe retry later
+    return NextResponse.json({ error: 'Event is being processed' }, { status: 409 });
+  }
+
+  try {
+    if (event.type === 'checkout.session.completed') {
+      await handleCheckoutCompleted(stripe, supabase, event.data.object.id);
+    }
+
+    if (event.type === 'checkout.session.expired') {
+      await handleCheckoutExpired(event.data.object as Stripe.Checkout.Session);
+    }
+
+    if (event.type === 'charge.refunded') {
+      await handleChargeRefunded(stripe, supabase, event.data.object as Stripe.Charge);
+    }
+
+    if (event.type === 'charge.dispute.created') {
+      await recordDispute(stripe, supabase, event.data.object as Stripe.Dispute);
+    }
+
+    // Catalog edits made in the Stripe dashboard (endpoint must subscribe to product.* and price.*)
+    if (event.type.startsWith('product.') || event.type.startsWith('price.')) {
+      await flagCatalogDrift(supabase, event);
+    }
+
+    if (event.type === 'payment_intent.payment_failed') {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent;
+      console.error(`[WEBHOOK] Payment failed: ${paymentIntent.id}`);
+    }
+  } catch (err) {
+    console.error('[WEBHOOK] Processing error:', err);
+    await markEvent(supabase, event.id, err);
+    return NextResponse.json({ error: 'Webhook processing failed' }, { status: 500 });
   }
 
+  await markEvent(supabase, event.id);
   return NextResponse.json({ received: true });
 }
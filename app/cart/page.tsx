@@ -5,10 +5,12 @@ import { FREE_SHIPPING_THRESHOLD } from '@/lib/stripe-config';
 import { useState } from 'react';
 import Link from 'next/link';
 import { CheckoutModal } from '@/components/checkout/CheckoutModal';
-
-const fmt = (cents: number) => `CA$${(cents / 100).toFixed(2)}`;
+import { useMoney } from '@/lib/store/currency';
+import { formatCad } from '@/lib/currency/format';
+import { formatShipDate } from '@/lib/inventory/stock';
 
 export default function CartPage() {
+  const { currency, format: fmt } = useMoney();
   const items = useCartStore((state) => state.items);
   const getSubtotal = useCartStore((state) => state.getSubtotal);
   const updateQuantity = useCartStore((state) => state.updateQuantity);
@@ -99,6 +101,11 @@ export default function CartPage() {
                   {item.design && (
                     <p className="text-xs text-warm-400">{item.design}</p>
                   )}
+                  {item.preorder_ships_at && (
+                    <p className="text-xs font-bold text-amber-dark">
+                      Pre-order — ships around {formatShipDate(item.preorder_ships_at)}
+                    </p>
+                  )}
                   <p className="text-amber-dark font-bold mt-1">{fmt(item.price)}</p>
                 </div>
 
@@ -164,7 +171,7 @@ export default function CartPage() {
                     />
                   </div>
                   <p className="text-xs text-text-secondary">
-                    Add {fmt(freeShippingRemaining)} more for <span className="font-medium text-green-600">free shipping!</span>
+                    Add {fmt(freeShippingRemaining)} more for <span className="font-medium text-green-600">free shipping in Canada!</span>
                   </p>
                 </div>
               )}
@@ -172,7 +179,7 @@ export default function CartPage() {
               {isFreeShipping && (
                 <div className="mb-4 p-2 bg-green-50 rounded-lg">
                   <p className="text-xs text-green-700 font-medium text-center">
-                    You qualify for free shipping!
+                    You qualify for free shipping in Canada!
                   </p>
                 </div>
               )}
@@ -194,6 +201,11 @@ export default function CartPage() {
               <p className="text-xs text-warm-400 text-center mt-3">
                 Secure checkout via Stripe
               </p>
+              {currency !== 'CAD' && (
+                <p className="text-xs text-warm-400 text-center mt-1">
+                  {currency} prices are approximate. You&apos;ll be charged {formatCad(subtotal)} plus shipping and tax, or the equivalent in your currency at Stripe&apos;s rate.
+                </p>
+              )}
             </div>
           </div>
         </div>
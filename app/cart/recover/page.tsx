@@ -0,0 +1,73 @@
+'use client';
+
+import { useEffect, useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useCartStore } from '@/lib/store/cart';
+
+function RecoverContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const restoreCart = useCartStore((state) => state.restoreCart);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) {
+      setError('This link is not valid.');
+      return;
+    }
+
+    fetch('/api/cart/recover', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token }),
+    })
+      .then(res => res.json())
+      .then(data => {
+        if (data.error || !Array.isArray(data.items)) {
+          setError(data.error || 'Could not restore your cart.');
+          return;
+        }
+        restoreCart(data.items, data.cartId);
+        router.replace('/cart');
+      })
+      .catch(() => setError('Could not restore your cart at this time.'));
+  }, [token, restoreCart, router]);
+
+  if (!error) {
+    return (
+      <div className="min-h-screen bg-white flex flex-col items-center justify-center gap-4">
+        <div className="w-10 h-10 border-4 border-charcoal-deep border-t-transparent rounded-full animate-spin" />
+        <p className="font-display text-sm text-text-secondary">Restoring your cart...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-white flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md text-center">
+        <h1 className="font-display text-2xl font-bold text-text-primary mb-2">Cart unavailable</h1>
+        <p className="text-sm text-text-secondary mb-8">{error}</p>
+        <Link
+          href="/"
+          className="block w-full text-center font-display py-3 px-4 rounded-xl bg-charcoal-deep text-white hover:bg-charcoal-light transition-colors uppercase tracking-wider text-sm font-bold"
+        >
+          Continue Shopping
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+export default function CartRecoverPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-white flex items-center justify-center">
+        <div className="w-10 h-10 border-4 border-charcoal-deep border-t-transparent rounded-full animate-spin" />
+      </div>
+    }>
+      <RecoverContent />
+    </Suspense>
+  );
+}
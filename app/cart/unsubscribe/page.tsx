@@ -0,0 +1,74 @@
+'use client';
+
+import { useEffect, useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+
+function UnsubscribeContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [email, setEmail] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) {
+      setError('This link is not valid.');
+      return;
+    }
+
+    fetch('/api/cart/unsubscribe', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token }),
+    })
+      .then(res => res.json())
+      .then(data => {
+        if (data.error || !data.email) {
+          setError(data.error || 'Could not unsubscribe you.');
+          return;
+        }
+        setEmail(data.email);
+      })
+      .catch(() => setError('Could not unsubscribe you at this time.'));
+  }, [token]);
+
+  if (!email && !error) {
+    return (
+      <div className="min-h-screen bg-white flex flex-col items-center justify-center gap-4">
+        <div className="w-10 h-10 border-4 border-charcoal-deep border-t-transparent rounded-full animate-spin" />
+        <p className="font-display text-sm text-text-secondary">Unsubscribing...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-white flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md text-center">
+        <h1 className="font-display text-2xl font-bold text-text-primary mb-2">
+          {email ? 'You’re unsubscribed' : 'Link unavailable'}
+        </h1>
+        <p className="text-sm text-text-secondary mb-8">
+          {email ? `${email} won’t get any more cart reminders from us.` : error}
+        </p>
+        <Link
+          href="/"
+          className="block w-full text-center font-display py-3 px-4 rounded-xl bg-charcoal-deep text-white hover:bg-charcoal-light transition-colors uppercase tracking-wider text-sm font-bold"
+        >
+          Continue Shopping
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+export default function CartUnsubscribePage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-white flex items-center justify-center">
+        <div className="w-10 h-10 border-4 border-charcoal-deep border-t-transparent rounded-full animate-spin" />
+      </div>
+    }>
+      <UnsubscribeContent />
+    </Suspense>
+  );
+}
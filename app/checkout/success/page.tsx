@@ -4,6 +4,7 @@ import { useEffect, useState, Suspense } from 'react';
 import Link from 'next/link';
 import { useSearchParams } from 'next/navigation';
 import { useCartStore } from '@/lib/store/cart';
+import { formatCad as fmt } from '@/lib/currency/format';
 
 interface OrderSummary {
   email: string | null;
@@ -11,6 +12,8 @@ interface OrderSummary {
   items: Array<{ name: string; quantity: number; amount: number }>;
   subtotal: number;
   shipping_cost: number;
+  tax?: number;
+  tax_lines?: Array<{ label: string; amount: number }>;
   total: number;
   shipping_name: string | null;
   shipping_address: {
@@ -45,8 +48,6 @@ function SuccessContent() {
     }
   }, [sessionId, clearCart]);
 
-  const fmt = (cents: number) => `CA$${(cents / 100).toFixed(2)}`;
-
   return (
     <div className="min-h-screen bg-white flex items-center justify-center px-4 py-12">
       <div className="relative z-10 w-full max-w-lg">
@@ -121,6 +122,12 @@ function SuccessContent() {
                   <span>Shipping</span>
                   <span>{order.shipping_cost === 0 ? 'FREE' : fmt(order.shipping_cost)}</span>
                 </div>
+                {(order.tax_lines || []).map((line) => (
+                  <div key={line.label} className="flex justify-between text-xs text-text-secondary">
+                    <span>{line.label}</span>
+                    <span>{fmt(line.amount)}</span>
+                  </div>
+                ))}
                 <div className="flex justify-between text-sm font-bold text-text-primary pt-2 border-t border-warm-200">
                   <span>Total</span>
                   <span>{fmt(order.total)}</span>
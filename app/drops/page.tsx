@@ -0,0 +1,112 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import dynamic from 'next/dynamic';
+import Link from 'next/link';
+import { useAuthStore } from '@/lib/store/auth';
+import { DropCountdown } from '@/components/shop/DropCountdown';
+import { Price } from '@/components/shop/Price';
+import { canBuy, dropState } from '@/lib/catalog/schedule';
+import type { Product } from '@/lib/types';
+
+const ProductModal = dynamic(
+  () => import('@/components/shop/ProductModal').then(m => ({ default: m.ProductModal })),
+  { ssr: false }
+);
+
+export default function DropsPage() {
+  const { user, initialize } = useAuthStore();
+  const [drops, setDrops] = useState<Product[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => { initialize(); }, [initialize]);
+
+  useEffect(() => {
+    fetch('/api/products')
+      .then(res => res.json())
+      .then(data => setDrops(data.drops || []))
+      .catch(() => setDrops([]))
+      .finally(() => setLoaded(true));
+  }, []);
+
+  // Re-check once a second so a drop opens the moment its countdown hits zero
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, []);
+
+  const isMember = !!user;
+  const upcoming = drops.filter(p => p.drop && dropState(p.drop, now) !== 'ended');
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="relative z-10 max-w-5xl mx-auto px-6 py-10">
+        <nav className="flex items-center justify-between mb-10">
+          <Link href="/" className="font-display text-lg font-bold text-text-primary">
+            ONSITE SHOP
+          </Link>
+          <Link href="/" className="text-sm text-text-secondary hover:text-text-primary">
+            &larr; Back to shop
+          </Link>
+        </nav>
+
+        <h1 className="font-display text-2xl font-bold text-text-primary mb-2">Upcoming Drops</h1>
+        <p className="text-text-secondary text-sm mb-8">
+          {isMember
+            ? 'You’re signed in — members-only drops open to you early.'
+            : <>New gear lands on a schedule. <Link href="/login" className="text-amber-dark hover:underline">Sign in</Link> for members’ early access.</>}
+        </p>
+
+        {!loaded ? (
+          <p className="text-center py-20 text-warm-400 font-display text-sm">Loading drops...</p>
+        ) : upcoming.length === 0 ? (
+          <div className="text-center py-20">
+            <p className="font-display text-text-secondary mb-6">Nothing scheduled right now — check back soon.</p>
+            <Link href="/" className="btn-primary-new inline-block">Browse products</Link>
+          </div>
+        ) : (
+          <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {upcoming.map(product => {
+              const open = canBuy(product.drop!, isMember, now);
+              return (
+                <div key={product.product_key} className="rounded-2xl border border-warm-200 overflow-hidden bg-white">
+                  <div className="aspect-square bg-off-white">
+                    {product.image && (
+                      <img
+                        src={product.image}
+                        alt={product.name}
+                        className={`w-full h-full object-cover ${open ? '' : 'grayscale-[40%]'}`}
+                      />
+                    )}
+                  </div>
+                  <div className="p-4">
+                    <p className="font-display text-sm font-bold text-text-primary truncate">{product.name}</p>
+                    <p className="font-display text-xs text-amber-dark font-bold mb-3">
+                      <Price cents={Math.round(product.price * 100)} />
+                    </p>
+                    {open ? (
+                      <button
+                        onClick={() => setSelectedProduct(product)}
+                        className="w-full font-display py-2.5 px-3 rounded-lg bg-charcoal-deep text-white hover:bg-charcoal-light transition-colors uppercase tracking-wider text-xs font-bold"
+                      >
+                        {dropState(product.drop!, now) === 'early_access' ? 'Shop Early Access' : 'Shop Now'}
+                      </button>
+                    ) : (
+                      <DropCountdown drop={product.drop!} compact />
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {selectedProduct && (
+        <ProductModal product={selectedProduct} onClose={() => setSelectedProduct(null)} />
+      )}
+    </div>
+  );
+}
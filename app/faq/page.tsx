@@ -19,7 +19,7 @@ const FAQS = [
   },
   {
     q: 'Do you ship outside of Canada?',
-    a: 'Currently, we only ship within Canada to all provinces and territories. International shipping may be available in the future.',
+    a: 'Yes — we ship to all Canadian provinces and territories and to the United States. US orders are not charged Canadian sales tax; any import duties or taxes are collected on delivery. More countries may be available in the future.',
   },
   {
     q: 'Can I track my order?',
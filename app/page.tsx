@@ -14,6 +14,8 @@ import { CategoryModal } from '@/components/shop/CategoryModal';
 import { MembershipModal } from '@/components/shop/MembershipModal';
 import { useAuthStore } from '@/lib/store/auth';
 import type { Product } from '@/lib/types';
+import { Price } from '@/components/shop/Price';
+import { visibleNow } from '@/lib/catalog/schedule';
 
 // Lazy-loaded (not needed on initial render, client-only)
 const ProductModal = dynamic(
@@ -32,13 +34,13 @@ const MEMBERS_MOCKUPS: Product[] = [
   { product_key: 'members-sticker-pack', name: 'Members Sticker Pack — Vol. 1', price: 0, price_id: '', category: 'members', product_type: '', image: 'https://www.onsiteclub.ca/_next/image?url=%2Fimages%2Fproduct-men.webp&w=640&q=80', images: [], description: 'Sticker pack for club members', sizes: [], colors: [], color_images: {}, sku: '' },
 ];
 
-async function loadProducts(): Promise<Product[]> {
+async function loadProducts(): Promise<{ products: Product[]; drops: Product[] }> {
   try {
     const res = await fetch('/api/products');
     const data = await res.json();
-    return data.products || [];
+    return { products: data.products || [], drops: data.drops || [] };
   } catch {
-    return [];
+    return { products: [], drops: [] };
   }
 }
 
@@ -47,7 +49,7 @@ async function loadProducts(): Promise<Product[]> {
 // ============================================================================
 
 export default function ShopPage() {
-  const [products, setProducts] = useState<Product[]>([]);
+  const [catalog, setCatalog] = useState<{ products: Product[]; drops: Product[] }>({ products: [], drops: [] });
   const [loaded, setLoaded] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [categoryModal, setCategoryModal] = useState<{ category: string; label: string; items: Product[] } | null>(null);
@@ -59,12 +61,15 @@ export default function ShopPage() {
 
   // Load products via cached API route
   useEffect(() => {
-    loadProducts().then(p => {
-      setProducts(p);
+    loadProducts().then(c => {
+      setCatalog(c);
       setLoaded(true);
     });
   }, []);
 
+  // Live products, plus drops in their early-access window for signed-in members
+  const products = useMemo(() => visibleNow(catalog.products, catalog.drops, !!user), [catalog, user]);
+
   // Featured products (first 4 non-members)
   const featuredProducts = useMemo(() => {
     return products.filter(p => p.category !== 'members').slice(0, 4);
@@ -143,6 +148,7 @@ export default function ShopPage() {
                 Quick Links
               </h3>
               <nav className="flex flex-col gap-1">
+                {catalog.drops.length > 0 && <SidebarLink href="/drops" label="Upcoming Drops" />}
                 <SidebarLink href="#reviews" label="Reviews" />
                 <SidebarLink href="/blog" label="Blog" />
                 <SidebarLink href="#contact" label="Contact" />
@@ -410,7 +416,7 @@ function ProductCard({
         {/* Name + price overlay */}
         <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/70 via-black/30 to-transparent p-4 pt-10">
           <p className="font-display font-bold text-white text-[13px] leading-tight drop-shadow-sm truncate">{product.name}</p>
-          <span className="text-amber text-[13px] font-bold">CA${product.price.toFixed(2)}</span>
+          <span className="text-amber text-[13px] font-bold"><Price cents={Math.round(product.price * 100)} /></span>
         </div>
         {/* Quick Add hover */}
         <div className="absolute bottom-0 left-0 right-0 bg-charcoal/90 backdrop-blur-sm text-white text-center py-3 font-display text-[11px] font-bold tracking-[0.12em] uppercase translate-y-full group-hover:translate-y-0 transition-transform duration-300">
@@ -2,6 +2,11 @@
 
 import { useState } from 'react'
 import { useCartStore } from '@/lib/store/cart'
+import { formatShipDate, isSoldOut, isSizeSoldOut } from '@/lib/inventory/stock'
+import { useProductStock } from '@/lib/inventory/useProductStock'
+import { findVariant, type ShopVariant } from '@/lib/catalog/variants'
+import { Price } from '@/components/shop/Price'
+import { BackInStockForm } from '@/components/shop/BackInStockForm'
 
 interface ProductActionsProps {
   productKey: string
@@ -13,6 +18,7 @@ interface ProductActionsProps {
   images: string[]
   colorImages: Record<string, string[]>
   primaryImage: string
+  variants: ShopVariant[]
 }
 
 export function ProductActions({
@@ -25,15 +31,24 @@ export function ProductActions({
   images,
   colorImages,
   primaryImage,
+  variants,
 }: ProductActionsProps) {
   const [selectedSize, setSelectedSize] = useState(sizes?.[0] || '')
   const [selectedColor, setSelectedColor] = useState(colors?.[0] || '')
   const [addedFeedback, setAddedFeedback] = useState(false)
   const [validationError, setValidationError] = useState('')
   const addItem = useCartStore((state) => state.addItem)
+  const stock = useProductStock(productKey)
+  const selectedSoldOut = isSoldOut(stock, selectedColor || colors?.[0] || '', selectedSize || sizes?.[0] || '')
+  const variant = findVariant(variants, selectedColor || colors?.[0] || '', selectedSize || sizes?.[0] || '')
+  const unavailable = variants?.length > 0 && !variant
+  // Sold out: pre-order it when the variant takes pre-orders, otherwise ask to be notified
+  const preorderShipsAt = selectedSoldOut ? variant?.preorder_ships_at ?? null : null
+  const notifyOnly = selectedSoldOut && !preorderShipsAt && !!variant
 
-  // Resolve image based on selected color
+  // Resolve image based on the selected variant, then color
   const currentImage = (() => {
+    if (variant?.images.length) return variant.images[0]
     if (selectedColor && colorImages?.[selectedColor]?.length) {
       return colorImages[selectedColor][0]
     }
@@ -50,16 +65,26 @@ export function ProductActions({
       setValidationError('Please select a color')
       return
     }
+    if (unavailable) {
+      setValidationError('This option is unavailable')
+      return
+    }
+    if (selectedSoldOut && !preorderShipsAt) {
+      setValidationError('This size is sold out')
+      return
+    }
     setValidationError('')
     addItem({
       product_key: productKey,
+      variant_id: variant?.id ?? null,
       price_id: priceId,
       name,
       design: '',
       color: selectedColor || colors?.[0] || '',
       size: selectedSize || sizes?.[0] || '',
-      price: Math.round(price * 100),
+      price: Math.round((variant?.price ?? price) * 100),
       image: currentImage,
+      preorder_ships_at: preorderShipsAt,
     })
     setAddedFeedback(true)
     setTimeout(() => setAddedFeedback(false), 2000)
@@ -74,16 +99,26 @@ export function ProductActions({
       setValidationError('Please select a color')
       return
     }
+    if (unavailable) {
+      setValidationError('This option is unavailable')
+      return
+    }
+    if (selectedSoldOut && !preorderShipsAt) {
+      setValidationError('This size is sold out')
+      return
+    }
     setValidationError('')
     addItem({
       product_key: productKey,
+      variant_id: variant?.id ?? null,
       price_id: priceId,
       name,
       design: '',
       color: selectedColor || colors?.[0] || '',
       size: selectedSize || sizes?.[0] || '',
-      price: Math.round(price * 100),
+      price: Math.round((variant?.price ?? price) * 100),
       image: currentImage,
+      preorder_ships_at: preorderShipsAt,
     })
     window.location.href = '/checkout'
   }
@@ -108,19 +143,28 @@ export function ProductActions({
             Size
           </p>
           <div className="flex flex-wrap gap-2">
-            {sizes.map((size) => (
-              <button
-                key={size}
-                onClick={() => setSelectedSize(size)}
-                className={`px-3 py-1.5 rounded-lg font-display text-xs transition-all ${
-                  selectedSize === size
-                    ? 'bg-charcoal-deep text-white'
-                    : 'bg-white text-text-primary hover:bg-warm-100 border border-warm-200'
-                }`}
-              >
-                {size}
-              </button>
-            ))}
+            {sizes.map((size) => {
+              const soldOut = isSizeSoldOut(stock, size, colors || [], selectedColor)
+              const preorder = soldOut && !!findVariant(variants, selectedColor || colors?.[0] || '', size)?.preorder_ships_at
+              return (
+                <button
+                  key={size}
+                  onClick={() => setSelectedSize(size)}
+                  title={preorder ? 'Pre-order' : soldOut ? 'Sold out — get notified' : undefined}
+                  className={`px-3 py-1.5 rounded-lg font-display text-xs transition-all ${
+                    soldOut && !preorder
+                      ? selectedSize === size
+                        ? 'bg-warm-200 text-warm-500 border border-warm-300 line-through'
+                        : 'bg-white text-warm-400 border border-warm-200 line-through opacity-50'
+                      : selectedSize === size
+                      ? 'bg-charcoal-deep text-white'
+                      : 'bg-white text-text-primary hover:bg-warm-100 border border-warm-200'
+                  }`}
+                >
+                  {size}
+                </button>
+              )
+            })}
           </div>
         </div>
       )}
@@ -149,31 +193,55 @@ export function ProductActions({
         </div>
       )}
 
+      {/* Options priced differently from the headline price */}
+      {variant && variant.price !== price && (
+        <p className="font-display text-sm text-text-primary mb-3">
+          {[variant.color, variant.size].filter(Boolean).join(' / ')}:{' '}
+          <Price cents={Math.round(variant.price * 100)} className="font-bold text-amber-dark" />
+        </p>
+      )}
+
       {/* Validation error */}
       {validationError && (
         <p className="text-xs text-red-500 mb-3 text-center">{validationError}</p>
       )}
 
-      {/* Action buttons */}
-      <div className="flex gap-3">
-        <button
-          disabled={addedFeedback}
-          onClick={handleAddToCart}
-          className={`flex-1 font-display py-3 px-4 rounded-xl transition-colors uppercase tracking-wider text-sm font-bold ${
-            addedFeedback
-              ? 'bg-green-600 text-white cursor-not-allowed'
-              : 'bg-charcoal-deep text-white hover:bg-charcoal-light'
-          }`}
-        >
-          {addedFeedback ? 'Added!' : 'Add to Bag'}
-        </button>
-        <button
-          onClick={handleCheckout}
-          className="flex-1 font-display py-3 px-4 rounded-xl bg-amber-dark text-white hover:bg-amber transition-colors uppercase tracking-wider text-sm font-bold"
-        >
-          Checkout
-        </button>
-      </div>
+      {/* Sold out with no pre-orders — take an email instead */}
+      {notifyOnly ? (
+        <BackInStockForm
+          variantId={variant!.id}
+          label={[variant!.color, variant!.size].filter(Boolean).join(' / ') || name}
+        />
+      ) : (
+        <>
+          {preorderShipsAt && (
+            <p className="font-display text-sm text-amber-dark font-bold mb-3">
+              Sold out — pre-order now, ships around {formatShipDate(preorderShipsAt)}
+            </p>
+          )}
+
+          {/* Action buttons */}
+          <div className="flex gap-3">
+            <button
+              disabled={addedFeedback}
+              onClick={handleAddToCart}
+              className={`flex-1 font-display py-3 px-4 rounded-xl transition-colors uppercase tracking-wider text-sm font-bold ${
+                addedFeedback
+                  ? 'bg-green-600 text-white cursor-not-allowed'
+                  : 'bg-charcoal-deep text-white hover:bg-charcoal-light'
+              }`}
+            >
+              {addedFeedback ? 'Added!' : preorderShipsAt ? 'Pre-order' : 'Add to Bag'}
+            </button>
+            <button
+              onClick={handleCheckout}
+              className="flex-1 font-display py-3 px-4 rounded-xl bg-amber-dark text-white hover:bg-amber transition-colors uppercase tracking-wider text-sm font-bold"
+            >
+              Checkout
+            </button>
+          </div>
+        </>
+      )}
     </div>
   )
 }
@@ -3,6 +3,9 @@ import { notFound } from 'next/navigation'
 import { getAllProducts, getProductBySlug } from '@/lib/products'
 import { ProductSchema } from '@/components/ProductSchema'
 import { BreadcrumbSchema } from '@/components/BreadcrumbSchema'
+import { Price } from '@/components/shop/Price'
+import { DropGate } from '@/components/shop/DropCountdown'
+import { isUpcoming } from '@/lib/catalog/schedule'
 import { ProductActions } from './ProductActions'
 
 // Category label mapping for breadcrumbs
@@ -46,6 +49,8 @@ export async function generateMetadata({
     alternates: {
       canonical: `https://shop.onsiteclub.ca/products/${slug}`,
     },
+    // Upcoming drops get a countdown page, but aren't indexed until they're live
+    ...(isUpcoming(product.drop) ? { robots: { index: false } } : {}),
     openGraph: {
       title,
       description,
@@ -145,7 +150,7 @@ export default async function ProductPage({
             </h1>
 
             <p className="font-display text-lg text-amber-dark font-bold tracking-wider uppercase mb-4">
-              CA${product.base_price.toFixed(2)} CAD
+              <Price cents={Math.round(product.base_price * 100)} />
             </p>
 
             {/* Visible body text for SEO — at least 150 words server-rendered */}
@@ -160,17 +165,20 @@ export default async function ProductPage({
             </p>
 
             {/* Client-side interactive component */}
-            <ProductActions
-              productKey={product.sku || product.id}
-              priceId={product.stripe_price_id}
-              name={product.name}
-              price={product.base_price}
-              sizes={product.sizes}
-              colors={product.colors}
-              images={product.images}
-              colorImages={product.color_images}
-              primaryImage={product.primary_image}
-            />
+            <DropGate drop={product.drop}>
+              <ProductActions
+                productKey={product.sku || product.id}
+                priceId={product.stripe_price_id}
+                name={product.name}
+                price={product.base_price}
+                sizes={product.sizes}
+                colors={product.colors}
+                images={product.images}
+                colorImages={product.color_images}
+                primaryImage={product.primary_image}
+                variants={product.variants}
+              />
+            </DropGate>
           </div>
         </div>
       </div>
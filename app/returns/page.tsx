@@ -0,0 +1,328 @@
+'use client';
+
+import { useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import type { ReturnableLine, ReturnResolution, ReturnStatus } from '@/lib/orders/returns';
+
+interface ReturnLookup {
+  order_number: string;
+  window_error: string | null;
+  lines: ReturnableLine[];
+  returns: Array<{
+    rma_number: string;
+    status: ReturnStatus;
+    status_label: string;
+    resolution: ReturnResolution;
+    label_url: string | null;
+    tracking_pin: string | null;
+    items: Array<{ name: string; size: string; color: string; quantity: number; exchange_size: string | null }>;
+    created_at: string;
+  }>;
+  reasons: string[];
+}
+
+function ReturnsContent() {
+  const searchParams = useSearchParams();
+  const [orderNumber, setOrderNumber] = useState(searchParams.get('order') || '');
+  const [email, setEmail] = useState(searchParams.get('email') || '');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [lookup, setLookup] = useState<ReturnLookup | null>(null);
+
+  // Request form
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [exchangeSizes, setExchangeSizes] = useState<Record<number, string>>({});
+  const [resolution, setResolution] = useState<ReturnResolution>('refund');
+  const [reason, setReason] = useState('');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState<string | null>(null);
+
+  async function fetchLookup() {
+    const res = await fetch('/api/returns', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ order_number: orderNumber, email }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      setError(data.error || 'Something went wrong');
+      setLookup(null);
+    } else {
+      setLookup(data);
+    }
+  }
+
+  async function handleLookup(e: React.FormEvent) {
+    e.preventDefault();
+    if (!orderNumber.trim() || !email.trim()) return;
+    setLoading(true);
+    setError('');
+    setSubmitted(null);
+    setQuantities({});
+    setExchangeSizes({});
+
+    try {
+      await fetchLookup();
+    } catch {
+      setError('Network error');
+    }
+    setLoading(false);
+  }
+
+  async function handleRequest() {
+    const items = Object.entries(quantities)
+      .filter(([, qty]) => qty > 0)
+      .map(([index, quantity]) => ({
+        index: Number(index),
+        quantity,
+        ...(resolution === 'exchange' ? { exchange_size: exchangeSizes[Number(index)] } : {}),
+      }));
+
+    setSubmitting(true);
+    setError('');
+    try {
+      const res = await fetch('/api/returns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ order_number: orderNumber, email, items, reason, resolution, notes }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Something went wrong');
+      } else {
+        setSubmitted(data.rma_number);
+        setQuantities({});
+        setReason('');
+        setNotes('');
+        await fetchLookup();
+      }
+    } catch {
+      setError('Network error');
+    }
+    setSubmitting(false);
+  }
+
+  const returnable = lookup?.lines.filter(l => l.remaining > 0 && !l.blockedReason) || [];
+  const selected = Object.values(quantities).some(q => q > 0);
+  const canExchange = returnable.some(l => l.exchangeSizes.length > 0);
+  const exchangeReady = resolution !== 'exchange' || Object.entries(quantities)
+    .filter(([, qty]) => qty > 0)
+    .every(([index]) => !!exchangeSizes[Number(index)]);
+
+  return (
+    <div className="min-h-screen bg-white px-4 py-12">
+      <div className="max-w-lg mx-auto">
+        <nav className="flex items-center justify-between mb-12">
+          <Link href="/" className="font-display text-lg font-bold text-text-primary">
+            ONSITE SHOP
+          </Link>
+          <Link href="/shipping-returns" className="text-sm text-text-secondary hover:text-text-primary">
+            Return policy &rarr;
+          </Link>
+        </nav>
+
+        <h1 className="font-display text-2xl font-bold text-text-primary mb-2">Return or exchange</h1>
+        <p className="text-sm text-text-secondary mb-8">
+          Enter your order number (e.g. OS-100123) and the email you used at checkout.
+        </p>
+
+        <form onSubmit={handleLookup} className="space-y-3 mb-8">
+          <input
+            value={orderNumber}
+            onChange={e => setOrderNumber(e.target.value.toUpperCase())}
+            placeholder="Order number"
+            autoComplete="off"
+            className="w-full px-4 py-3 rounded-xl border border-warm-200 text-sm font-mono focus:outline-none focus:border-amber-dark"
+          />
+          <input
+            type="email"
+            value={email}
+            onChange={e => setEmail(e.target.value)}
+            placeholder="Email"
+            autoComplete="email"
+            className="w-full px-4 py-3 rounded-xl border border-warm-200 text-sm focus:outline-none focus:border-amber-dark"
+          />
+          {error && !lookup && <p className="text-xs text-red-500">{error}</p>}
+          <button
+            type="submit"
+            disabled={loading || !orderNumber.trim() || !email.trim()}
+            className="w-full font-display py-3 px-6 rounded-xl bg-charcoal-deep text-white hover:bg-charcoal-light transition-colors uppercase tracking-wider text-sm font-bold disabled:opacity-50"
+          >
+            {loading ? 'Looking up…' : 'Find order'}
+          </button>
+        </form>
+
+        {lookup && (
+          <div className="space-y-6">
+            {submitted && (
+              <div className="bg-green-50 border border-green-200 rounded-xl p-4 text-sm text-green-800">
+                Return <span className="font-mono font-bold">{submitted}</span> requested. We&apos;ll email you once it&apos;s reviewed, usually within 1–2 business days.
+              </div>
+            )}
+
+            {/* Earlier requests */}
+            {lookup.returns.length > 0 && (
+              <div>
+                <h2 className="font-display text-xs font-bold uppercase tracking-wider text-text-primary mb-3">Your returns</h2>
+                <ul className="space-y-3">
+                  {lookup.returns.map(r => (
+                    <li key={r.rma_number} className="bg-off-white rounded-xl p-4 text-sm">
+                      <div className="flex items-center justify-between mb-1">
+                        <span className="font-mono font-bold text-text-primary">{r.rma_number}</span>
+                        <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded ${
+                          r.status === 'rejected' ? 'bg-red-100 text-red-700'
+                            : r.status === 'completed' ? 'bg-green-100 text-green-700'
+                            : 'bg-amber-100 text-amber-700'
+                        }`}>
+                          {r.status_label}
+                        </span>
+                      </div>
+                      <ul className="text-text-secondary">
+                        {r.items.map((item, idx) => (
+                          <li key={idx}>
+                            {item.name}
+                            {[item.color, item.size].filter(Boolean).length > 0 && ` — ${[item.color, item.size].filter(Boolean).join(' / ')}`}
+                            {item.exchange_size && ` → ${item.exchange_size}`}
+                            {item.quantity > 1 && ` x${item.quantity}`}
+                          </li>
+                        ))}
+                      </ul>
+                      {r.label_url && r.status === 'approved' && (
+                        <a
+                          href={r.label_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-block mt-2 text-amber-dark font-bold hover:underline"
+                        >
+                          Print return label
+                        </a>
+                      )}
+                      {r.tracking_pin && r.status !== 'approved' && (
+                        <p className="mt-1 text-xs text-text-secondary">
+                          Tracking: <span className="font-mono">{r.tracking_pin}</span>
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* New request */}
+            {lookup.window_error ? (
+              <p className="text-sm text-text-secondary">{lookup.window_error}</p>
+            ) : (
+              <div>
+                <h2 className="font-display text-xs font-bold uppercase tracking-wider text-text-primary mb-3">
+                  Start a return — {lookup.order_number}
+                </h2>
+
+                <ul className="space-y-3 mb-5">
+                  {lookup.lines.map(line => (
+                    <li key={line.index} className="flex items-center gap-3 text-sm">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-text-primary">{line.name}</p>
+                        <p className="text-xs text-text-secondary">
+                          {[line.color, line.size].filter(Boolean).join(' / ')}
+                          {line.blockedReason && <span className="text-red-500"> · {line.blockedReason}</span>}
+                          {!line.blockedReason && line.remaining === 0 && ' · Already returned'}
+                        </p>
+                      </div>
+                      {!line.blockedReason && line.remaining > 0 && (
+                        <>
+                          {resolution === 'exchange' && (quantities[line.index] || 0) > 0 && (
+                            <select
+                              value={exchangeSizes[line.index] || ''}
+                              onChange={e => setExchangeSizes(prev => ({ ...prev, [line.index]: e.target.value }))}
+                              className="px-2 py-1.5 rounded-lg border border-warm-200 text-xs"
+                            >
+                              <option value="">New size…</option>
+                              {line.exchangeSizes.map(size => (
+                                <option key={size} value={size}>{size}</option>
+                              ))}
+                            </select>
+                          )}
+                          <select
+                            value={quantities[line.index] || 0}
+                            onChange={e => setQuantities(prev => ({ ...prev, [line.index]: Number(e.target.value) }))}
+                            className="px-2 py-1.5 rounded-lg border border-warm-200 text-xs"
+                          >
+                            {Array.from({ length: line.remaining + 1 }, (_, n) => (
+                              <option key={n} value={n}>{n}</option>
+                            ))}
+                          </select>
+                        </>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+
+                {returnable.length > 0 && (
+                  <div className="space-y-3">
+                    <div className="flex gap-2">
+                      {(['refund', 'exchange'] as const).map(option => (
+                        <button
+                          key={option}
+                          type="button"
+                          onClick={() => setResolution(option)}
+                          disabled={option === 'exchange' && !canExchange}
+                          className={`flex-1 py-2 rounded-xl border text-sm font-bold transition-colors disabled:opacity-40 ${
+                            resolution === option
+                              ? 'border-charcoal-deep bg-charcoal-deep text-white'
+                              : 'border-warm-200 text-text-secondary hover:border-warm-300'
+                          }`}
+                        >
+                          {option === 'refund' ? 'Refund' : 'Exchange size'}
+                        </button>
+                      ))}
+                    </div>
+
+                    <select
+                      value={reason}
+                      onChange={e => setReason(e.target.value)}
+                      className="w-full px-4 py-3 rounded-xl border border-warm-200 text-sm focus:outline-none focus:border-amber-dark"
+                    >
+                      <option value="">Reason for return…</option>
+                      {lookup.reasons.map(r => (
+                        <option key={r} value={r}>{r}</option>
+                      ))}
+                    </select>
+
+                    <textarea
+                      value={notes}
+                      onChange={e => setNotes(e.target.value)}
+                      placeholder="Anything we should know? (optional)"
+                      rows={3}
+                      className="w-full px-4 py-3 rounded-xl border border-warm-200 text-sm focus:outline-none focus:border-amber-dark"
+                    />
+
+                    {error && <p className="text-xs text-red-500">{error}</p>}
+
+                    <button
+                      type="button"
+                      onClick={handleRequest}
+                      disabled={submitting || !selected || !reason || !exchangeReady}
+                      className="w-full font-display py-3 px-6 rounded-xl bg-amber hover:bg-amber-dark text-charcoal-deep transition-colors uppercase tracking-wider text-sm font-bold disabled:opacity-50"
+                    >
+                      {submitting ? 'Sending…' : 'Request return'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function ReturnsPage() {
+  return (
+    <Suspense fallback={<div className="min-h-screen bg-white" />}>
+      <ReturnsContent />
+    </Suspense>
+  );
+}
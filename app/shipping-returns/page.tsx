@@ -4,7 +4,7 @@ import type { Metadata } from 'next';
 
 export const metadata: Metadata = {
   title: 'Shipping & Returns',
-  description: 'Shipping information and return policy for OnSite Club Shop. We ship across Canada via Canada Post.',
+  description: 'Shipping information and return policy for OnSite Club Shop. We ship across Canada and to the United States via Canada Post.',
 };
 
 export default function ShippingReturnsPage() {
@@ -21,7 +21,7 @@ export default function ShippingReturnsPage() {
           <div className="prose-section">
             <h2>Shipping</h2>
             <p>
-              All orders are shipped via <strong>Canada Post</strong> from Ontario, Canada. We ship to all Canadian provinces and territories.
+              All orders are shipped via <strong>Canada Post</strong> from Ontario, Canada. We ship to all Canadian provinces and territories and to the United States. US parcels travel with a customs declaration; any import duties or taxes are collected on delivery.
             </p>
 
             <h3>Processing Time</h3>
@@ -84,10 +84,10 @@ export default function ShippingReturnsPage() {
 
             <h3>How to Initiate a Return</h3>
             <ol>
-              <li>Email us at <a href="mailto:contact@onsiteclub.ca">contact@onsiteclub.ca</a> with your order number and reason for return.</li>
-              <li>We will provide return shipping instructions within 1–2 business days.</li>
+              <li>Start a return on the <a href="/returns">returns page</a> with your order number and the email you used at checkout.</li>
+              <li>We review requests within 1–2 business days and email you a Canada Post return label.</li>
               <li>Ship the item(s) back in their original packaging.</li>
-              <li>Once received and inspected, your refund will be processed within 5–7 business days.</li>
+              <li>Once your parcel reaches us, your refund or exchange is processed automatically.</li>
             </ol>
 
             <h3>Return Shipping</h3>
@@ -97,7 +97,7 @@ export default function ShippingReturnsPage() {
 
             <h3>Exchanges</h3>
             <p>
-              To exchange an item for a different size or color, please initiate a return and place a new order. This ensures the fastest processing time.
+              To exchange an item for a different size, choose &ldquo;Exchange size&rdquo; when you start the return. Your replacement ships as soon as the original reaches us. For a different color, return the item and place a new order.
             </p>
 
             <h3>Refunds</h3>
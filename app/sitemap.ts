@@ -1,6 +1,7 @@
 import { MetadataRoute } from 'next'
 import { getAllProducts } from '@/lib/products'
 
+// getAllProducts() only returns live products — scheduled drops join once they publish
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   const products = await getAllProducts()
 
@@ -20,6 +21,12 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
       changeFrequency: 'weekly',
       priority: 1.0,
     },
+    {
+      url: 'https://shop.onsiteclub.ca/drops',
+      lastModified: new Date(),
+      changeFrequency: 'daily',
+      priority: 0.7,
+    },
     ...productUrls,
   ]
 }
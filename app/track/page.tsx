@@ -0,0 +1,282 @@
+'use client';
+
+import { useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import type { PublicOrderStatus } from '@/lib/orders/order-status';
+import { formatShipDate } from '@/lib/inventory/stock';
+
+// ============================================
+// TIMELINE — same lifecycle as the admin OrderTimeline
+// ============================================
+
+const TIMELINE_STEPS = [
+  { key: 'paid',       label: 'Order placed', dateField: 'created_at' },
+  { key: 'processing', label: 'Preparing',    dateField: 'processing_at' },
+  { key: 'shipped',    label: 'Shipped',      dateField: 'shipped_at' },
+  { key: 'delivered',  label: 'Delivered',    dateField: 'delivered_at' },
+] as const;
+
+const PICKUP_TIMELINE_STEPS = [
+  { key: 'paid',             label: 'Order placed', dateField: 'created_at' },
+  { key: 'processing',       label: 'Preparing',    dateField: 'processing_at' },
+  { key: 'ready_for_pickup', label: 'Ready',        dateField: 'ready_at' },
+  { key: 'delivered',        label: 'Picked up',    dateField: 'delivered_at' },
+] as const;
+
+const STATUS_ORDER: Record<string, number> = {
+  preorder: 0, paid: 0, processing: 1, ready_for_pickup: 2, shipped: 2, delivered: 3,
+};
+
+const fmtDateShort = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-CA', { month: 'short', day: 'numeric' });
+
+function TrackTimeline({ order }: { order: PublicOrderStatus }) {
+  const currentIdx = STATUS_ORDER[order.status] ?? 0;
+  const steps = order.pickup ? PICKUP_TIMELINE_STEPS : TIMELINE_STEPS;
+
+  return (
+    <div className="flex items-start justify-between gap-1">
+      {steps.map((step, idx) => {
+        const isCompleted = idx < currentIdx || (idx === currentIdx && order.status === 'delivered');
+        const isCurrent = idx === currentIdx && !isCompleted;
+        const dateValue = order[step.dateField];
+
+        return (
+          <div key={step.key} className="flex-1 flex flex-col items-center text-center">
+            <div className="flex items-center w-full mb-2">
+              {idx > 0 && (
+                <div className={`flex-1 h-0.5 ${isCompleted || isCurrent ? 'bg-green-400' : 'bg-gray-200'}`} />
+              )}
+              <div className={`w-7 h-7 rounded-full flex items-center justify-center shrink-0 text-xs font-bold ${
+                isCompleted
+                  ? 'bg-green-500 text-white'
+                  : isCurrent
+                  ? 'bg-amber-400 text-white ring-4 ring-amber-100'
+                  : 'bg-gray-200 text-gray-400'
+              }`}>
+                {isCompleted ? '✓' : idx + 1}
+              </div>
+              {idx < steps.length - 1 && (
+                <div className={`flex-1 h-0.5 ${isCompleted ? 'bg-green-400' : 'bg-gray-200'}`} />
+              )}
+            </div>
+            <p className={`font-display text-xs font-medium ${
+              isCurrent ? 'text-amber-700' : isCompleted ? 'text-green-700' : 'text-gray-400'
+            }`}>
+              {step.label}
+            </p>
+            <p className="font-display text-[10px] text-gray-400 mt-0.5 h-4">
+              {dateValue ? fmtDateShort(dateValue) : '—'}
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// ============================================
+// PAGE
+// ============================================
+
+function TrackContent() {
+  const searchParams = useSearchParams();
+  const [orderNumber, setOrderNumber] = useState(searchParams.get('order') || '');
+  const [email, setEmail] = useState(searchParams.get('email') || '');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [order, setOrder] = useState<PublicOrderStatus | null>(null);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!orderNumber.trim() || !email.trim()) return;
+    setLoading(true);
+    setError('');
+    setOrder(null);
+
+    try {
+      const res = await fetch('/api/track', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ order_number: orderNumber, email }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Something went wrong');
+      } else {
+        setOrder(data.order);
+      }
+    } catch {
+      setError('Network error');
+    }
+    setLoading(false);
+  }
+
+  // Service and expected date from the first parcel — they travel together
+  const tracking = order?.parcels[0]?.tracking;
+
+  return (
+    <div className="min-h-screen bg-white px-4 py-12">
+      <div className="max-w-lg mx-auto">
+        <nav className="flex items-center justify-between mb-12">
+          <Link href="/" className="font-display text-lg font-bold text-text-primary">
+            ONSITE SHOP
+          </Link>
+          <Link href="/" className="text-sm text-text-secondary hover:text-text-primary">
+            &larr; Continue shopping
+          </Link>
+        </nav>
+
+        <h1 className="font-display text-2xl font-bold text-text-primary mb-2">Track your order</h1>
+        <p className="text-sm text-text-secondary mb-8">
+          Enter your order number (e.g. OS-100123) and the email you used at checkout.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-3 mb-8">
+          <input
+            value={orderNumber}
+            onChange={e => setOrderNumber(e.target.value.toUpperCase())}
+            placeholder="Order number"
+            autoComplete="off"
+            className="w-full px-4 py-3 rounded-xl border border-warm-200 text-sm font-mono focus:outline-none focus:border-amber-dark"
+          />
+          <input
+            type="email"
+            value={email}
+            onChange={e => setEmail(e.target.value)}
+            placeholder="Email"
+            autoComplete="email"
+            className="w-full px-4 py-3 rounded-xl border border-warm-200 text-sm focus:outline-none focus:border-amber-dark"
+          />
+          {error && <p className="text-xs text-red-500">{error}</p>}
+          <button
+            type="submit"
+            disabled={loading || !orderNumber.trim() || !email.trim()}
+            className="w-full font-display py-3 px-6 rounded-xl bg-charcoal-deep text-white hover:bg-charcoal-light transition-colors uppercase tracking-wider text-sm font-bold disabled:opacity-50"
+          >
+            {loading ? 'Looking up…' : 'Track'}
+          </button>
+        </form>
+
+        {order && (
+          <div className="space-y-6">
+            <div className="bg-off-white rounded-xl p-5">
+              <div className="flex items-center justify-between mb-5">
+                <p className="font-display text-sm font-bold text-text-primary">{order.order_number}</p>
+                {order.refund_status && (
+                  <span className="text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded bg-red-100 text-red-700">
+                    {order.refund_status === 'refunded' ? 'Refunded' : 'Partially refunded'}
+                  </span>
+                )}
+              </div>
+              <TrackTimeline order={order} />
+            </div>
+
+            {/* Shipment details */}
+            <div className="text-sm space-y-1">
+              {order.destination && (
+                <p className="text-text-secondary">Shipping to <span className="text-text-primary">{order.destination}</span></p>
+              )}
+              {order.pickup && (
+                <p className="text-text-secondary">
+                  Pick up at <span className="text-text-primary">{order.pickup.name}, {order.pickup.street}, {order.pickup.city}</span>
+                  {order.pickup.hours && <span className="block text-xs">{order.pickup.hours}</span>}
+                </p>
+              )}
+              {(tracking?.service_name || order.shipping_service) && (
+                <p className="text-text-secondary">
+                  Service: <span className="text-text-primary">{tracking?.service_name || order.shipping_service}</span>
+                </p>
+              )}
+              {order.parcels.length > 0 && (
+                <p className="text-text-secondary">
+                  Tracking:{' '}
+                  {order.parcels.map((parcel, idx) => (
+                    <span key={parcel.tracking_code}>
+                      {idx > 0 && ', '}
+                      <a
+                        href={`https://www.canadapost-postescanada.ca/track-reperage/en#/search?searchFor=${parcel.tracking_code}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-mono text-amber-dark hover:underline"
+                      >
+                        {parcel.tracking_code}
+                      </a>
+                    </span>
+                  ))}
+                </p>
+              )}
+              {order.status === 'preorder' && order.preorder_ships_at && (
+                <p className="text-text-secondary">
+                  Pre-order — expected to ship <span className="text-text-primary font-bold">{formatShipDate(order.preorder_ships_at)}</span>
+                </p>
+              )}
+              {tracking?.expected_delivery_date && order.status !== 'delivered' && (
+                <p className="text-text-secondary">
+                  Expected delivery: <span className="text-text-primary font-bold">{tracking.expected_delivery_date}</span>
+                </p>
+              )}
+            </div>
+
+            {/* Canada Post events, per parcel */}
+            {order.parcels.map(({ tracking_code, tracking: parcel }, parcelIdx) => (
+              <div key={tracking_code}>
+                <h2 className="font-display text-xs font-bold uppercase tracking-wider text-text-primary mb-3">
+                  {order.parcels.length > 1
+                    ? `Parcel ${parcelIdx + 1} of ${order.parcels.length} — Canada Post updates`
+                    : 'Canada Post updates'}
+                </h2>
+                {order.parcels.length > 1 && parcel.expected_delivery_date && order.status !== 'delivered' && (
+                  <p className="text-xs text-text-secondary mb-2">Expected delivery: {parcel.expected_delivery_date}</p>
+                )}
+                {parcel.events.length === 0 ? (
+                  <p className="text-sm text-text-secondary">
+                    {parcel.error || 'No scans yet — updates appear once Canada Post receives the parcel.'}
+                  </p>
+                ) : (
+                  <ol className="border-l-2 border-warm-200 pl-4 space-y-3">
+                    {parcel.events.map((event, idx) => (
+                      <li key={idx} className="relative">
+                        <span className={`absolute -left-[21px] top-1 w-2.5 h-2.5 rounded-full ${idx === 0 ? 'bg-amber-dark' : 'bg-warm-300'}`} />
+                        <p className={`text-sm ${idx === 0 ? 'text-text-primary font-bold' : 'text-text-primary'}`}>
+                          {event.description}
+                        </p>
+                        <p className="text-xs text-text-secondary">
+                          {event.date} {event.time.slice(0, 5)}
+                          {event.location ? ` · ${event.location}` : ''}
+                        </p>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            ))}
+
+            {/* Items */}
+            <div>
+              <h2 className="font-display text-xs font-bold uppercase tracking-wider text-text-primary mb-3">Items</h2>
+              <ul className="text-sm text-text-secondary space-y-1">
+                {order.items.map((item, idx) => (
+                  <li key={idx}>
+                    {item.name}
+                    {[item.color, item.size].filter(Boolean).length > 0 && ` — ${[item.color, item.size].filter(Boolean).join(' / ')}`}
+                    {item.qty > 1 && ` x${item.qty}`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function TrackPage() {
+  return (
+    <Suspense fallback={<div className="min-h-screen bg-white" />}>
+      <TrackContent />
+    </Suspense>
+  );
+}
@@ -1,21 +1,21 @@
 'use client'
 
 import { useState } from 'react'
+import type { PromoRule } from '@/lib/promo/rules'
 
 interface PromoDiscount {
   valid: boolean
   code: string
-  discount: {
-    oneItemPrice: number
-    freeShipping: boolean
-  }
+  rule: PromoRule
+  description: string
 }
 
 interface Props {
+  items?: Array<{ product_key: string; variant_id?: string | null; quantity: number; price: number; name?: string; color?: string; size?: string }>
   onApply: (discount: PromoDiscount | null) => void
 }
 
-export function PromoCodeField({ onApply }: Props) {
+export function PromoCodeField({ items, onApply }: Props) {
   const [input, setInput] = useState('')
   const [loading, setLoading] = useState(false)
   const [status, setStatus] = useState<'idle' | 'valid' | 'invalid'>('idle')
@@ -30,7 +30,18 @@ export function PromoCodeField({ onApply }: Props) {
       const res = await fetch('/api/promo/validate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ code: input.trim().toUpperCase() }),
+        body: JSON.stringify({
+          code: input.trim().toUpperCase(),
+          items: items?.map(i => ({
+            product_key: i.product_key,
+            variant_id: i.variant_id,
+            quantity: i.quantity,
+            price: i.price,
+            name: i.name,
+            color: i.color,
+            size: i.size,
+          })),
+        }),
       })
 
       const data = await res.json()
@@ -38,10 +49,7 @@ export function PromoCodeField({ onApply }: Props) {
 
       if (data.valid) {
         setStatus('valid')
-        const discountMsg = data.discountType === 'item_050'
-          ? 'Your cheapest item goes to $0.50 CAD'
-          : `${data.discount.percent}% off your order`
-        setMessage(`Code applied! ${discountMsg} + free shipping.`)
+        setMessage(`Code applied! ${data.description}.`)
         onApply(data)
       } else {
         setStatus('invalid')
@@ -0,0 +1,340 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatCad } from '@/lib/currency/format';
+import type { CatalogVariant } from '@/lib/catalog/variants';
+
+interface VariantMatrixProps {
+  productId: string;
+  basePrice: number;                       // dollars
+  sizes: string[];
+  colors: string[];
+  images: string[];                        // the product's own images
+  colorImages: Record<string, string[]>;
+  onToast: (message: string, type: 'success' | 'error') => void;
+}
+
+interface Draft {
+  price: string;    // dollars, '' = product price
+  weight: string;   // kg, '' = type weight
+  images: string[];
+  is_active: boolean;
+  track_stock: boolean;
+  restock: string;  // units to add (negative to correct), '' = none
+  preorder_enabled: boolean;
+  preorder_ships_at: string;  // YYYY-MM-DD, '' = none
+}
+
+function toDraft(v: CatalogVariant): Draft {
+  return {
+    price: v.price_override != null ? String(v.price_override) : '',
+    weight: v.weight != null ? String(v.weight) : '',
+    images: v.images,
+    is_active: v.is_active,
+    track_stock: v.track_stock,
+    restock: '',
+    preorder_enabled: v.preorder_enabled,
+    preorder_ships_at: v.preorder_ships_at || '',
+  };
+}
+
+/**
+ * Size × color grid for one saved product: SKU, price override, weight,
+ * images and on/off per variant, plus stock received and pre-orders.
+ * Rows for removed sizes or colors are hidden.
+ */
+export function VariantMatrix({ productId, basePrice, sizes, colors, images, colorImages, onToast }: VariantMatrixProps) {
+  const [variants, setVariants] = useState<CatalogVariant[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [pickingImages, setPickingImages] = useState<string | null>(null);
+  const [alerts, setAlerts] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    load();
+  }, [productId]);
+
+  function apply(list: CatalogVariant[]) {
+    setVariants(list);
+    setDrafts(Object.fromEntries(list.map(v => [v.id, toDraft(v)])));
+  }
+
+  async function load() {
+    setLoading(true);
+    try {
+      const res = await fetch('/api/admin/product-variants', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ product_id: productId }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        apply(data.variants || []);
+        setAlerts(data.alerts || {});
+      } else onToast('Error loading variants: ' + (data.error || 'Unknown'), 'error');
+    } catch {
+      onToast('Failed to load variants', 'error');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const offered = variants.filter(v =>
+    (sizes.length ? sizes.includes(v.size) : v.size === '') &&
+    (colors.length ? colors.includes(v.color) : v.color === '')
+  );
+
+  const changed = offered.filter(v => {
+    const d = drafts[v.id];
+    return d && JSON.stringify(d) !== JSON.stringify(toDraft(v));
+  });
+
+  function update(id: string, patch: Partial<Draft>) {
+    setDrafts(prev => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+  }
+
+  async function handleSave() {
+    const payload = [];
+    for (const v of changed) {
+      const d = drafts[v.id];
+      const price = d.price.trim() === '' ? null : Number(d.price);
+      const weight = d.weight.trim() === '' ? null : Number(d.weight);
+      if (price !== null && !(price > 0)) {
+        onToast(`${v.sku || v.id}: price must be positive`, 'error');
+        return;
+      }
+      if (weight !== null && !(weight > 0)) {
+        onToast(`${v.sku || v.id}: weight must be positive`, 'error');
+        return;
+      }
+      const restock = d.restock.trim() === '' ? 0 : Number(d.restock);
+      if (!Number.isInteger(restock)) {
+        onToast(`${v.sku || v.id}: stock received must be a whole number`, 'error');
+        return;
+      }
+      if (d.preorder_enabled && (!d.track_stock || !d.preorder_ships_at)) {
+        onToast(`${v.sku || v.id}: pre-orders need stock tracking and a ship date`, 'error');
+        return;
+      }
+      payload.push({
+        id: v.id,
+        price_override: price,
+        weight,
+        images: d.images,
+        is_active: d.is_active,
+        track_stock: d.track_stock,
+        stock_delta: d.track_stock ? restock : 0,
+        preorder_enabled: d.preorder_enabled,
+        preorder_ships_at: d.preorder_ships_at || null,
+      });
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch('/api/admin/product-variants', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ product_id: productId, variants: payload }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        apply(data.variants || []);
+        setAlerts(data.alerts || {});
+        const notified = data.notified ? ` • ${data.notified} back-in-stock email${data.notified === 1 ? '' : 's'} sent` : '';
+        onToast(`${payload.length} variant${payload.length === 1 ? '' : 's'} saved${notified}`, 'success');
+      } else {
+        onToast('Error: ' + (data.error || 'Unknown'), 'error');
+      }
+    } catch {
+      onToast('Network error', 'error');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-warm-200/60 overflow-hidden mt-6">
+      <div className="px-5 py-4 border-b border-warm-200/60 flex items-center justify-between gap-4">
+        <div>
+          <h3 className="font-display text-sm font-bold text-text-primary uppercase tracking-wide">
+            Variants
+          </h3>
+          <p className="font-body text-xs text-text-secondary mt-0.5">
+            {offered.length} size × color combination{offered.length === 1 ? '' : 's'} • blank price or weight uses the product’s
+          </p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={saving || changed.length === 0}
+          className="py-2 px-4 bg-amber hover:bg-amber-dark text-charcoal-deep font-display text-xs font-bold rounded-xl transition-colors disabled:opacity-40"
+        >
+          {saving ? 'Saving...' : changed.length > 0 ? `Save ${changed.length}` : 'Saved'}
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="text-center py-8 text-warm-400 font-display text-sm">Loading variants...</p>
+      ) : offered.length === 0 ? (
+        <p className="text-center py-8 text-warm-400 font-display text-sm">
+          Save the product with its sizes and colors to build the matrix
+        </p>
+      ) : (
+        <div className="divide-y divide-warm-100">
+          {offered.map((v) => {
+            const d = drafts[v.id];
+            if (!d) return null;
+            const pool = Array.from(new Set([...(colorImages[v.color] || []), ...images]));
+            return (
+              <div key={v.id} className={`px-5 py-3 ${d.is_active ? '' : 'opacity-50'}`}>
+                <div className="flex flex-wrap items-center gap-3">
+                  <div className="w-40 min-w-0">
+                    <p className="font-display text-sm font-bold text-text-primary truncate">
+                      {[v.color, v.size].filter(Boolean).join(' / ') || 'Default'}
+                    </p>
+                    <p className="font-mono text-[10px] text-warm-400 truncate">{v.sku || 'no SKU'}</p>
+                  </div>
+
+                  <label className="flex items-center gap-1.5">
+                    <span className="font-display text-[10px] text-warm-400 uppercase">Price</span>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={d.price}
+                      placeholder={formatCad(Math.round(basePrice * 100))}
+                      onChange={(e) => update(v.id, { price: e.target.value })}
+                      className="input w-24 text-xs py-1"
+                    />
+                  </label>
+
+                  <label className="flex items-center gap-1.5">
+                    <span className="font-display text-[10px] text-warm-400 uppercase">kg</span>
+                    <input
+                      type="number"
+                      step="0.001"
+                      min="0"
+                      value={d.weight}
+                      placeholder="type"
+                      onChange={(e) => update(v.id, { weight: e.target.value })}
+                      className="input w-20 text-xs py-1"
+                    />
+                  </label>
+
+                  <button
+                    onClick={() => setPickingImages(pickingImages === v.id ? null : v.id)}
+                    className="font-display text-[11px] font-bold py-1.5 px-3 rounded-full bg-warm-100 text-warm-500 hover:bg-warm-200 transition-colors"
+                  >
+                    {d.images.length > 0 ? `${d.images.length} image${d.images.length === 1 ? '' : 's'}` : 'Color images'}
+                  </button>
+
+                  <button
+                    onClick={() => update(v.id, { is_active: !d.is_active })}
+                    className={`ml-auto font-display text-[11px] font-bold py-1.5 px-3 rounded-full transition-colors ${
+                      d.is_active
+                        ? 'bg-green-50 text-green-700 hover:bg-green-100'
+                        : 'bg-warm-100 text-warm-500 hover:bg-warm-200'
+                    }`}
+                  >
+                    {d.is_active ? 'On sale' : 'Off'}
+                  </button>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-3 mt-2 pl-0 sm:pl-[10.75rem]">
+                  <button
+                    onClick={() => update(v.id, { track_stock: !d.track_stock, ...(d.track_stock ? { preorder_enabled: false } : {}) })}
+                    className={`font-display text-[11px] font-bold py-1 px-3 rounded-full transition-colors ${
+                      d.track_stock
+                        ? 'bg-blue-50 text-blue-700 hover:bg-blue-100'
+                        : 'bg-warm-100 text-warm-500 hover:bg-warm-200'
+                    }`}
+                  >
+                    {d.track_stock ? 'Stock tracked' : 'Not tracked'}
+                  </button>
+
+                  {d.track_stock && (
+                    <>
+                      <span className="font-display text-[10px] text-warm-400">
+                        {v.stock_quantity < 0
+                          ? `${-v.stock_quantity} pre-ordered, awaiting stock`
+                          : `${Math.max(0, v.stock_quantity - v.reserved_quantity)} available`}
+                        {v.reserved_quantity > 0 && ` • ${v.reserved_quantity} in checkout`}
+                      </span>
+                      <label className="flex items-center gap-1.5">
+                        <span className="font-display text-[10px] text-warm-400 uppercase">Received</span>
+                        <input
+                          type="number"
+                          step="1"
+                          value={d.restock}
+                          placeholder="+0"
+                          onChange={(e) => update(v.id, { restock: e.target.value })}
+                          className="input w-20 text-xs py-1"
+                        />
+                      </label>
+                      <label className="flex items-center gap-1.5 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={d.preorder_enabled}
+                          onChange={(e) => update(v.id, { preorder_enabled: e.target.checked })}
+                          className="accent-amber"
+                        />
+                        <span className="font-display text-[10px] text-warm-400 uppercase">Pre-order when sold out</span>
+                      </label>
+                      {d.preorder_enabled && (
+                        <label className="flex items-center gap-1.5">
+                          <span className="font-display text-[10px] text-warm-400 uppercase">Ships</span>
+                          <input
+                            type="date"
+                            value={d.preorder_ships_at}
+                            onChange={(e) => update(v.id, { preorder_ships_at: e.target.value })}
+                            className="input w-36 text-xs py-1"
+                          />
+                        </label>
+                      )}
+                    </>
+                  )}
+
+                  {alerts[v.id] > 0 && (
+                    <span className="px-2 py-0.5 rounded-full text-[10px] font-display font-bold bg-amber/10 text-amber-dark">
+                      {alerts[v.id]} waiting to be notified
+                    </span>
+                  )}
+                </div>
+
+                {pickingImages === v.id && (
+                  <div className="mt-3">
+                    {pool.length === 0 ? (
+                      <p className="font-display text-[11px] text-warm-400">Upload product or color images first</p>
+                    ) : (
+                      <div className="flex flex-wrap gap-2">
+                        {pool.map((url) => {
+                          const selected = d.images.includes(url);
+                          return (
+                            <button
+                              key={url}
+                              onClick={() => update(v.id, {
+                                images: selected ? d.images.filter(i => i !== url) : [...d.images, url],
+                              })}
+                              className={`w-14 h-14 rounded-lg overflow-hidden transition-all ${
+                                selected ? 'ring-2 ring-amber ring-offset-1' : 'ring-1 ring-warm-200 opacity-60 hover:opacity-100'
+                              }`}
+                            >
+                              <img src={url} alt="" className="w-full h-full object-cover" />
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
+                    <p className="font-display text-[10px] text-warm-400 mt-1.5">
+                      None selected shows the {v.color || 'product'} images
+                    </p>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
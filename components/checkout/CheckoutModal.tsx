@@ -2,26 +2,34 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useCartStore } from '@/lib/store/cart';
-import { FREE_SHIPPING_THRESHOLD } from '@/lib/stripe-config';
-import { formatPostalCode, isValidCanadianPostal, detectProvinceFromPostal } from '@/lib/checkout/postal-utils';
-import { useShippingRates, type ShippingQuote } from '@/lib/checkout/useShippingRates';
+import { SHIPPING_COUNTRIES, qualifiesForFreeShipping, type ShippingCountry } from '@/lib/stripe-config';
+import { formatPostalCode, isValidPostal, detectProvinceFromPostal } from '@/lib/checkout/postal-utils';
+import { useShippingRates, type PickupOption, type ShippingQuote } from '@/lib/checkout/useShippingRates';
+import { calculateTax, taxProvince } from '@/lib/checkout/tax';
+import { applyPromoDiscount } from '@/lib/promo/applyDiscount';
+import type { PromoRule } from '@/lib/promo/rules';
 import { PromoCodeField } from '@/components/PromoCodeField';
 import { PreCheckoutSurvey } from '@/components/PreCheckoutSurvey';
+import { useMoney } from '@/lib/store/currency';
+import { formatCad } from '@/lib/currency/format';
+import { formatShipDate } from '@/lib/inventory/stock';
 
 interface CheckoutModalProps {
   onClose: () => void;
 }
 
-const fmt = (cents: number) => `CA$${(cents / 100).toFixed(2)}`;
-
 export function CheckoutModal({ onClose }: CheckoutModalProps) {
+  const { currency, format: fmt } = useMoney();
   const items = useCartStore((s) => s.items);
+  const recoveredCartId = useCartStore((s) => s.recoveredCartId);
   const getSubtotal = useCartStore((s) => s.getSubtotal);
   const subtotal = getSubtotal();
 
   const [step, setStep] = useState(1);
+  const [country, setCountry] = useState<ShippingCountry>('CA');
   const [postalCode, setPostalCode] = useState('');
   const [province, setProvince] = useState('');
+  const [email, setEmail] = useState('');
   const [customerNotes, setCustomerNotes] = useState('');
   const [showNotes, setShowNotes] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -29,14 +37,9 @@ export function CheckoutModal({ onClose }: CheckoutModalProps) {
   const [showSurvey, setShowSurvey] = useState(false);
 
   // Promo
-  const [appliedPromo, setAppliedPromo] = useState<{
-    code: string;
-    discountType?: string;
-    discount: { type?: string; percent?: number; freeShipping: boolean };
-  } | null>(null);
+  const [appliedPromo, setAppliedPromo] = useState<{ code: string; rule: PromoRule } | null>(null);
 
   const promoActive = !!appliedPromo;
-  const promoDiscountType = appliedPromo?.discountType || 'item_050';
 
   // Shipping
   const shipping = useShippingRates();
@@ -56,70 +59,75 @@ export function CheckoutModal({ onClose }: CheckoutModalProps) {
 
   // Auto-detect province + fetch rates when postal is valid
   const handlePostalChange = useCallback((value: string) => {
-    const formatted = formatPostalCode(value);
+    const formatted = formatPostalCode(value, country);
     setPostalCode(formatted);
 
     const raw = formatted.replace(/\s/g, '');
-    if (raw.length >= 1) {
+    if (country === 'CA' && raw.length >= 1) {
       const detected = detectProvinceFromPostal(raw);
       if (detected) setProvince(detected);
     }
 
-    if (isValidCanadianPostal(formatted)) {
-      const detected = detectProvinceFromPostal(formatted) || province;
-      if (detected) {
+    if (isValidPostal(formatted, country)) {
+      // Outside Canada there's no province — Stripe collects the state with the address
+      const detected = country === 'CA' ? detectProvinceFromPostal(formatted) || province : '';
+      if (detected || country !== 'CA') {
         shipping.fetchRates(
           formatted,
           detected,
-          items.map(i => ({ product_key: i.product_key, quantity: i.quantity, price: i.price })),
+          items.map(i => ({ product_key: i.product_key, variant_id: i.variant_id, quantity: i.quantity, price: i.price })),
+          country,
         );
       }
     } else {
       shipping.reset();
     }
-  }, [items, province, shipping]);
-
-  // Discount calculation
-  let discountAmount = 0;
-  let cheapestIndex = -1;
-  if (promoActive && items.length > 0) {
-    if (promoDiscountType.startsWith('percent_')) {
-      const percent = parseInt(promoDiscountType.replace('percent_', ''));
-      discountAmount = Math.round(subtotal * percent / 100);
-      if (subtotal - discountAmount < 50) discountAmount = subtotal - 50;
-      discountAmount = Math.max(0, discountAmount);
-    } else {
-      cheapestIndex = items.reduce(
-        (minIdx, item, idx) => (item.price < items[minIdx].price ? idx : minIdx),
-        0
-      );
-      discountAmount = Math.max(0, items[cheapestIndex].price - 50);
-    }
+  }, [items, province, country, shipping]);
+
+  function handleCountryChange(code: ShippingCountry) {
+    if (code === country) return;
+    setCountry(code);
+    setPostalCode('');
+    setProvince('');
+    shipping.reset();
   }
 
+  // Discount calculation — same rules the server charges
+  const discount = applyPromoDiscount(items, appliedPromo?.rule ?? null);
+  const { discountAmount } = discount;
+  const promoFreeShipping = discount.freeShipping;
+
   const effectiveSubtotal = subtotal - discountAmount;
-  const isFreeShipping = promoActive || subtotal >= FREE_SHIPPING_THRESHOLD;
+  const isFreeShipping = promoFreeShipping || qualifiesForFreeShipping(subtotal, country);
 
   const selectedQuote = shipping.quotes.find((q: ShippingQuote) => q.serviceCode === shipping.selectedService);
-  const shippingCost = promoActive
+  const pickup = country === 'CA' ? shipping.selectedPickup : null;
+  const offerPickup = country === 'CA' && shipping.pickupLocations.length > 0;
+  const shippingCost = promoFreeShipping || pickup
     ? 0
     : selectedQuote
       ? selectedQuote.priceTotalCents
       : null;
-  const total = shippingCost !== null ? effectiveSubtotal + shippingCost : null;
+  // Picked-up goods are taxed where they're handed over
+  const taxedIn = taxProvince(province, pickup);
+  const tax = shippingCost !== null && (taxedIn || country !== 'CA')
+    ? calculateTax(taxedIn, effectiveSubtotal, shippingCost, country)
+    : null;
+  const total = shippingCost !== null ? effectiveSubtotal + shippingCost + (tax?.total ?? 0) : null;
 
   // Step navigation
-  const canGoToStep2 = isValidCanadianPostal(postalCode) && province && (shipping.quotes.length > 0 || shipping.loading);
+  const canGoToStep2 = isValidPostal(postalCode, country) && (province || country !== 'CA') && (shipping.quotes.length > 0 || shipping.loading || offerPickup);
   const canGoToStep3 = shipping.selectedService && !shipping.loading;
 
   function goToStep2() {
-    if (!isValidCanadianPostal(postalCode)) return;
+    if (!isValidPostal(postalCode, country)) return;
     if (shipping.quotes.length === 0 && !shipping.loading) {
-      const detected = detectProvinceFromPostal(postalCode) || province;
+      const detected = country === 'CA' ? detectProvinceFromPostal(postalCode) || province : '';
       shipping.fetchRates(
         postalCode,
         detected,
-        items.map(i => ({ product_key: i.product_key, quantity: i.quantity, price: i.price })),
+        items.map(i => ({ product_key: i.product_key, variant_id: i.variant_id, quantity: i.quantity, price: i.price })),
+        country,
       );
     }
     setStep(2);
@@ -136,6 +144,7 @@ export function CheckoutModal({ onClose }: CheckoutModalProps) {
         body: JSON.stringify({
           items: items.map(i => ({
             product_key: i.product_key,
+            variant_id: i.variant_id || null,
             price_id: i.price_id,
             price: i.price,
             name: i.name,
@@ -148,13 +157,14 @@ export function CheckoutModal({ onClose }: CheckoutModalProps) {
           })),
           postal_code: postalCode.trim().toUpperCase().replace(/\s/g, ''),
           province,
+          country,
+          email: email.trim() || null,
+          recovered_cart: recoveredCartId,
           customer_notes: customerNotes.trim() || null,
           promo_code: appliedPromo?.code || null,
-          promo_active: promoActive,
-          promo_discount_type: promoDiscountType,
           shipping_service: shipping.selectedService || null,
-          shipping_cost_override: selectedQuote ? selectedQuote.priceTotalCents : null,
-          shipping_source: shipping.source || 'fallback',
+          shipping_quote: selectedQuote?.token || null,
+          pickup_location: pickup?.id || null,
         }),
       });
 
@@ -226,28 +236,48 @@ export function CheckoutModal({ onClose }: CheckoutModalProps) {
           {step === 1 && (
             <div>
               <p className="text-sm text-text-secondary mb-4">
-                Enter your postal code to see shipping options.
+                Enter your {country === 'US' ? 'ZIP' : 'postal'} code to see shipping options.
               </p>
 
+              <div className="mb-4">
+                <span className="block font-display text-xs text-text-secondary mb-1">Ship to</span>
+                <div className="flex gap-2">
+                  {SHIPPING_COUNTRIES.map((c) => (
+                    <button
+                      key={c.code}
+                      type="button"
+                      onClick={() => handleCountryChange(c.code)}
+                      className={`flex-1 py-2.5 rounded-xl border text-sm transition-colors ${
+                        country === c.code
+                          ? 'border-amber bg-amber/5 text-text-primary font-medium'
+                          : 'border-warm-200 text-text-secondary hover:border-warm-300'
+                      }`}
+                    >
+                      {c.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
               <div className="mb-4">
                 <label htmlFor="checkout-postal" className="block font-display text-xs text-text-secondary mb-1">
-                  Postal Code
+                  {country === 'US' ? 'ZIP Code' : 'Postal Code'}
                 </label>
                 <input
                   id="checkout-postal"
                   type="text"
-                  inputMode="text"
+                  inputMode={country === 'US' ? 'numeric' : 'text'}
                   autoComplete="postal-code"
-                  placeholder="A1A 1A1"
+                  placeholder={country === 'US' ? '12345' : 'A1A 1A1'}
                   value={postalCode}
                   onChange={(e) => handlePostalChange(e.target.value)}
-                  maxLength={7}
+                  maxLength={country === 'US' ? 10 : 7}
                   className="w-full px-4 py-3.5 rounded-xl border border-warm-200 text-base focus:outline-none focus:border-amber focus:ring-1 focus:ring-amber/30 bg-white"
                   autoFocus
                 />
-                {province && isValidCanadianPostal(postalCode) && (
+                {isValidPostal(postalCode, country) && (country !== 'CA' || province) && (
                   <p className="text-xs text-green-600 mt-1.5">
-                    Shipping to {province}
+                    Shipping to {country === 'CA' ? province : SHIPPING_COUNTRIES.find(c => c.code === country)?.name}
                   </p>
                 )}
               </div>
@@ -292,11 +322,22 @@ export function CheckoutModal({ onClose }: CheckoutModalProps) {
                     Loading shipping options...
                   </p>
                 ) : isFreeShipping ? (
-                  <div className="p-3 bg-green-50 border border-green-200 rounded-xl">
-                    <p className="text-sm text-green-700 font-medium">
-                      Free Shipping {promoActive ? '(promo)' : '(orders over $50)'}
-                    </p>
-                  </div>
+                  <label className={`flex items-center gap-3 p-3 bg-green-50 border rounded-xl ${
+                    offerPickup ? 'cursor-pointer' : ''
+                  } ${pickup ? 'border-green-200/50 opacity-70' : 'border-green-200'}`}>
+                    {offerPickup && (
+                      <input
+                        type="radio"
+                        name="shipping-method"
+                        checked={!pickup}
+                        onChange={() => shipping.setSelectedService(shipping.quotes[0]?.serviceCode || '')}
+                        className="accent-amber"
+                      />
+                    )}
+                    <span className="text-sm text-green-700 font-medium">
+                      Free Shipping {promoFreeShipping ? '(promo)' : '(orders over $50)'}
+                    </span>
+                  </label>
                 ) : shipping.quotes.length > 0 ? (
                   <div className="space-y-2">
                     {shipping.quotes.map((q: ShippingQuote) => (
@@ -337,7 +378,8 @@ export function CheckoutModal({ onClose }: CheckoutModalProps) {
                       onClick={() => shipping.fetchRates(
                         postalCode,
                         province,
-                        items.map(i => ({ product_key: i.product_key, quantity: i.quantity, price: i.price })),
+                        items.map(i => ({ product_key: i.product_key, variant_id: i.variant_id, quantity: i.quantity, price: i.price })),
+                        country,
                       )}
                       className="text-xs font-bold text-amber-dark underline hover:text-charcoal"
                     >
@@ -346,24 +388,70 @@ export function CheckoutModal({ onClose }: CheckoutModalProps) {
                   </div>
                 )}
 
-                {shipping.source === 'fallback' && shipping.quotes.length > 0 && !promoActive && (
+                {!shipping.loading && offerPickup && (
+                  <div className="space-y-2 mt-2">
+                    {shipping.pickupLocations.map((location: PickupOption) => (
+                      <label
+                        key={location.id}
+                        className={`flex items-center gap-3 p-3 rounded-xl border cursor-pointer transition-colors ${
+                          pickup?.id === location.id
+                            ? 'border-amber bg-amber/5'
+                            : 'border-warm-200 hover:border-warm-300'
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name="shipping-method"
+                          value={location.id}
+                          checked={pickup?.id === location.id}
+                          onChange={() => shipping.selectPickup(location)}
+                          className="accent-amber"
+                        />
+                        <span className="flex-1 min-w-0">
+                          <span className="text-sm text-text-primary block">Pick up — {location.name}</span>
+                          <span className="text-xs text-warm-400 block truncate">{location.street}, {location.city}</span>
+                          {location.hours && (
+                            <span className="text-xs text-warm-400 block">{location.hours}</span>
+                          )}
+                        </span>
+                        <span className="text-sm font-bold text-green-600">FREE</span>
+                      </label>
+                    ))}
+                    {pickup && (
+                      <p className="text-xs text-warm-400">
+                        We&apos;ll email you when your order is ready to pick up.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {shipping.source === 'estimate' && shipping.quotes.length > 0 && !promoFreeShipping && !pickup && (
                   <p className="text-xs text-warm-400 mt-2">
                     Shipping estimated — final cost confirmed by email.
                   </p>
                 )}
+                {country !== 'CA' && (
+                  <p className="text-xs text-warm-400 mt-2">
+                    No Canadian sales tax. Import duties or taxes, if any, are collected on delivery.
+                  </p>
+                )}
               </div>
 
               {/* Promo code */}
               <div className="mb-5 border-t border-warm-200 pt-4">
                 <PromoCodeField
+                  items={items}
                   onApply={(data) => {
                     if (data?.valid) {
-                      setAppliedPromo({ code: data.code, discount: data.discount });
+                      setAppliedPromo({ code: data.code, rule: data.rule });
                     } else {
                       setAppliedPromo(null);
                     }
                   }}
                 />
+                {appliedPromo && discount.error && (
+                  <p className="font-mono text-xs text-red-500 mt-1.5">{discount.error}</p>
+                )}
               </div>
 
               <button
@@ -407,6 +495,9 @@ export function CheckoutModal({ onClose }: CheckoutModalProps) {
                         <div className="flex-1 min-w-0">
                           <p className="text-text-primary truncate">{item.name}</p>
                           <p className="text-warm-400">{item.color}{item.size ? ` / ${item.size}` : ''} x{item.quantity}</p>
+                          {item.preorder_ships_at && (
+                            <p className="text-amber-dark font-bold">Pre-order — ships ~{formatShipDate(item.preorder_ships_at)}</p>
+                          )}
                         </div>
                         <span className="text-text-primary font-medium">{fmt(item.price * item.quantity)}</span>
                       </div>
@@ -430,11 +521,13 @@ export function CheckoutModal({ onClose }: CheckoutModalProps) {
                 <div className="flex justify-between">
                   <span className="text-text-secondary">
                     Shipping
-                    {selectedQuote && !promoActive && (
+                    {pickup ? (
+                      <span className="text-warm-400 text-xs block">Pick up — {pickup.name}</span>
+                    ) : selectedQuote && !promoFreeShipping && (
                       <span className="text-warm-400 text-xs block">{selectedQuote.serviceName}</span>
                     )}
                   </span>
-                  {promoActive ? (
+                  {promoFreeShipping || pickup ? (
                     <span className="text-green-600 font-bold">FREE</span>
                   ) : shippingCost !== null ? (
                     <span className="text-text-primary">{fmt(shippingCost)}</span>
@@ -442,12 +535,42 @@ export function CheckoutModal({ onClose }: CheckoutModalProps) {
                     <span className="text-warm-400 text-xs">—</span>
                   )}
                 </div>
+                {tax?.lines.map((line) => (
+                  <div key={line.kind} className="flex justify-between">
+                    <span className="text-text-secondary">{line.label}</span>
+                    <span className="text-text-primary">{fmt(line.amount)}</span>
+                  </div>
+                ))}
                 <div className="border-t border-warm-200 pt-2 flex justify-between">
                   <span className="font-bold text-text-primary">Total</span>
                   <span className="font-bold text-lg text-text-primary">
                     {total !== null ? fmt(total) : '—'}
                   </span>
                 </div>
+                {currency !== 'CAD' && total !== null && (
+                  <p className="text-xs text-warm-400">
+                    Charged as {formatCad(total)}. Stripe may show it in your currency at its own rate.
+                  </p>
+                )}
+              </div>
+
+              {/* Email (receipt + saved cart) */}
+              <div className="mb-4">
+                <label htmlFor="checkout-email" className="block font-display text-xs text-text-secondary mb-1">
+                  Email
+                </label>
+                <input
+                  id="checkout-email"
+                  type="email"
+                  autoComplete="email"
+                  placeholder="you@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="w-full px-4 py-3 rounded-xl border border-warm-200 text-sm focus:outline-none focus:border-amber focus:ring-1 focus:ring-amber/30 bg-white"
+                />
+                <p className="text-[10px] text-warm-400 mt-1">
+                  For your receipt — we&apos;ll also save your cart in case you don&apos;t finish.
+                </p>
               </div>
 
               {/* Customer notes */}
@@ -466,6 +589,7 @@ export function CheckoutModal({ onClose }: CheckoutModalProps) {
                     placeholder="Gift wrapping, delivery instructions..."
                     value={customerNotes}
                     onChange={(e) => setCustomerNotes(e.target.value)}
+                    maxLength={500}
                     rows={2}
                     className="w-full mt-2 px-3 py-2 rounded-lg border border-warm-200 text-sm focus:outline-none focus:border-warm-400 bg-white resize-none"
                   />
@@ -497,7 +621,7 @@ export function CheckoutModal({ onClose }: CheckoutModalProps) {
                 disabled={isLoading || !total}
                 className="btn-amber w-full py-3.5 text-base disabled:opacity-40"
               >
-                {isLoading ? 'Redirecting to payment...' : `Pay ${total !== null ? fmt(total) : ''}`}
+                {isLoading ? 'Redirecting to payment...' : `Pay ${total !== null ? formatCad(total) : ''}`}
               </button>
 
               <p className="text-[10px] text-warm-400 text-center mt-3">
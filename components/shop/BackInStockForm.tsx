@@ -0,0 +1,80 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAuthStore } from '@/lib/store/auth';
+
+/** "Notify me" for a sold-out variant — signed-in customers are prefilled with their email */
+export function BackInStockForm({ variantId, label }: { variantId: string; label: string }) {
+  const user = useAuthStore((state) => state.user);
+  const [email, setEmail] = useState('');
+  const [status, setStatus] = useState<'idle' | 'sending' | 'done'>('idle');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (user?.email && !email) setEmail(user.email);
+  }, [user]);
+
+  // A different size or color is a different sign-up
+  useEffect(() => {
+    setStatus('idle');
+    setError('');
+  }, [variantId]);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setStatus('sending');
+    setError('');
+    try {
+      const res = await fetch('/api/stock-alerts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ variant_id: variantId, email: email.trim() }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (res.ok) {
+        setStatus('done');
+      } else {
+        setError(data.error || 'Something went wrong');
+        setStatus('idle');
+      }
+    } catch {
+      setError('Network error — please try again');
+      setStatus('idle');
+    }
+  }
+
+  if (status === 'done') {
+    return (
+      <div className="rounded-lg bg-off-white border border-warm-200 px-4 py-3 text-center">
+        <p className="font-display text-xs md:text-sm font-bold text-text-primary">You&apos;re on the list</p>
+        <p className="text-[11px] text-text-secondary mt-0.5">We&apos;ll email {email} when {label} is back.</p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <p className="font-display text-[11px] md:text-xs font-bold text-text-primary uppercase tracking-wider">
+        {label} is sold out
+      </p>
+      <div className="flex gap-2">
+        <input
+          type="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Your email"
+          className="flex-1 min-w-0 px-3 py-2.5 rounded-lg bg-white border border-warm-200 font-body text-xs md:text-sm text-text-primary placeholder-warm-400 focus:outline-none focus:border-amber"
+        />
+        <button
+          type="submit"
+          disabled={status === 'sending'}
+          className="font-display py-2.5 px-4 rounded-lg bg-charcoal-deep text-white hover:bg-charcoal-light transition-colors uppercase tracking-wider text-xs font-bold disabled:opacity-50 whitespace-nowrap"
+        >
+          {status === 'sending' ? 'Saving...' : 'Notify Me'}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </form>
+  );
+}
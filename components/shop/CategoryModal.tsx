@@ -2,6 +2,7 @@
 
 import { useState, useMemo, useEffect } from 'react';
 import type { Product } from '@/lib/types';
+import { Price } from '@/components/shop/Price';
 
 interface CategoryModalProps {
   category: string;
@@ -230,7 +231,7 @@ export function CategoryModal({ category, label, products, onClose, onProductCli
                     <div className="font-display font-semibold text-[13px] leading-snug truncate">{product.name}</div>
                     <div className="flex items-center gap-2 mt-1">
                       <span className="text-[14px] font-bold text-amber-dark">
-                        CA${product.price.toFixed(2)}
+                        <Price cents={Math.round(product.price * 100)} />
                       </span>
                     </div>
                     {product.colors?.length > 0 && (
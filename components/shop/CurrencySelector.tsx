@@ -0,0 +1,30 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useCurrencyStore } from '@/lib/store/currency';
+import { DISPLAY_CURRENCIES, isDisplayCurrency } from '@/lib/currency/format';
+
+/** Display currency picker — prices are still charged in CAD */
+export function CurrencySelector({ className = '' }: { className?: string }) {
+  const currency = useCurrencyStore((s) => s.currency) ?? 'CAD';
+  const setCurrency = useCurrencyStore((s) => s.setCurrency);
+  const initialize = useCurrencyStore((s) => s.initialize);
+
+  useEffect(() => { initialize(); }, [initialize]);
+
+  return (
+    <select
+      value={currency}
+      onChange={(e) => {
+        if (isDisplayCurrency(e.target.value)) setCurrency(e.target.value);
+      }}
+      aria-label="Display currency"
+      title="Prices are charged in CAD"
+      className={`font-display text-[12px] font-semibold text-text-primary bg-transparent border-none cursor-pointer focus:outline-none ${className}`}
+    >
+      {DISPLAY_CURRENCIES.map((c) => (
+        <option key={c} value={c}>{c}</option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { useEffect, useState, type ReactNode } from 'react';
+import { useAuthStore } from '@/lib/store/auth';
+import { canBuy, countdownParts, dropState, opensAt, type DropSchedule } from '@/lib/catalog/schedule';
+
+/** Current time, ticking once a second */
+function useNow(): number {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, []);
+  return now;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Countdown to when this visitor can buy a drop — early access for signed-in
+ * members, publish for everyone else. Renders nothing once it's open.
+ */
+export function DropCountdown({ drop, compact = false }: { drop: DropSchedule; compact?: boolean }) {
+  const { user, initialize } = useAuthStore();
+  const now = useNow();
+
+  useEffect(() => { initialize(); }, [initialize]);
+
+  const isMember = !!user;
+  const target = opensAt(drop, isMember, now);
+  if (!target || canBuy(drop, isMember, now)) return null;
+
+  const { days, hours, minutes, seconds } = countdownParts(new Date(target).getTime() - now);
+  const earlyAccess = drop.early_access_at && dropState(drop, now) === 'scheduled';
+  const label = isMember && earlyAccess ? 'Members early access in' : 'Drops in';
+
+  if (compact) {
+    return (
+      <span className="font-display text-[11px] font-bold tracking-wider uppercase text-amber-dark">
+        {label} {days > 0 && `${days}d `}{pad(hours)}:{pad(minutes)}:{pad(seconds)}
+      </span>
+    );
+  }
+
+  return (
+    <div className="rounded-xl bg-charcoal-deep text-white px-5 py-4">
+      <p className="font-display text-[11px] font-bold tracking-[0.12em] uppercase text-amber mb-2">{label}</p>
+      <div className="flex gap-4 font-display">
+        {[
+          { value: days, unit: 'Days' },
+          { value: hours, unit: 'Hrs' },
+          { value: minutes, unit: 'Min' },
+          { value: seconds, unit: 'Sec' },
+        ].map(({ value, unit }) => (
+          <div key={unit} className="text-center">
+            <p className="text-2xl font-extrabold tabular-nums">{pad(value)}</p>
+            <p className="text-[10px] uppercase tracking-wider text-white/50">{unit}</p>
+          </div>
+        ))}
+      </div>
+      {!isMember && drop.early_access_at && dropState(drop, now) !== 'live' && (
+        <p className="font-body text-xs text-white/60 mt-3">
+          Members get in early —{' '}
+          <a href="/login" className="text-amber hover:underline">sign in</a> for early access.
+        </p>
+      )}
+    </div>
+  );
+}
+
+/** Shows `children` (the buy buttons) once this visitor can buy the drop, a countdown until then */
+export function DropGate({ drop, children }: { drop: DropSchedule; children: ReactNode }) {
+  const { user, initialize } = useAuthStore();
+  const now = useNow();
+
+  useEffect(() => { initialize(); }, [initialize]);
+
+  if (canBuy(drop, !!user, now)) return <>{children}</>;
+  if (dropState(drop, now) === 'ended') {
+    return (
+      <p className="font-display text-sm font-bold text-warm-400 uppercase tracking-wider">This drop has ended</p>
+    );
+  }
+  return <DropCountdown drop={drop} />;
+}
@@ -65,6 +65,7 @@ export function Footer() {
           <div>
             <h4 className="font-display font-bold text-[13px] text-white tracking-[0.08em] uppercase mb-5">Help</h4>
             <ul className="space-y-3">
+              <li><a href="/track" className="text-sm text-white/50 hover:text-white transition-colors">Track Your Order</a></li>
               <li><a href="/shipping-returns" className="text-sm text-white/50 hover:text-white transition-colors">Shipping & Returns</a></li>
               <li><a href="/size-guide" className="text-sm text-white/50 hover:text-white transition-colors">Size Guide</a></li>
               <li><a href="/faq" className="text-sm text-white/50 hover:text-white transition-colors">FAQ</a></li>
@@ -5,6 +5,7 @@ import { useCartStore } from '@/lib/store/cart';
 import { useAuthStore } from '@/lib/store/auth';
 import { BLOG_POSTS } from '@/lib/blog-data';
 import { SearchOverlay } from '@/components/shop/SearchOverlay';
+import { CurrencySelector } from '@/components/shop/CurrencySelector';
 
 import type { Product } from '@/lib/types';
 
@@ -185,6 +186,20 @@ export function Navbar({ products = [], onProductClick }: { products?: Product[]
 
                   {/* Links */}
                   <div className="py-1.5">
+                    <a
+                      href="/account"
+                      onClick={() => setUserMenuOpen(false)}
+                      className="flex items-center gap-3 px-5 py-2.5 hover:bg-off-white transition-colors"
+                    >
+                      <svg className="w-4 h-4 text-warm-400" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <path d="M6 2 3 6v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2V6l-3-4z" />
+                        <line x1="3" y1="6" x2="21" y2="6" />
+                        <path d="M16 10a4 4 0 0 1-8 0" />
+                      </svg>
+                      <span className="font-display text-[13px] font-semibold text-text-primary">
+                        My Orders
+                      </span>
+                    </a>
                     <a
                       href="https://auth.onsiteclub.ca/login?return_to=https://member.onsiteclub.ca"
                       target="_blank"
@@ -229,6 +244,9 @@ export function Navbar({ products = [], onProductClick }: { products?: Product[]
             )}
           </div>
 
+          {/* Currency */}
+          <CurrencySelector className="hidden sm:block" />
+
           {/* Search */}
           <button onClick={() => setSearchOpen(true)} aria-label="Search" className="bg-transparent">
             <svg className="w-[22px] h-[22px]" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -0,0 +1,9 @@
+'use client';
+
+import { useMoney } from '@/lib/store/currency';
+
+/** A CAD price shown in the shopper's display currency */
+export function Price({ cents, className }: { cents: number; className?: string }) {
+  const { format } = useMoney();
+  return <span className={className}>{format(cents)}</span>;
+}
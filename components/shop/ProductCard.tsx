@@ -3,6 +3,7 @@
 import { useState, useRef } from 'react';
 import { cleanProductName } from '@/lib/utils';
 import type { Product } from '@/lib/types';
+import { Price } from '@/components/shop/Price';
 
 export function UniformProductCard({
   product,
@@ -143,7 +144,7 @@ export function UniformProductCard({
             transform: isHovered ? 'scale(1.05)' : 'scale(1)',
           }}
         >
-          {product.category === 'members' ? 'COMING SOON' : `CA$${product.price.toFixed(2)}`}
+          {product.category === 'members' ? 'COMING SOON' : <Price cents={Math.round(product.price * 100)} />}
         </p>
       </div>
     </div>
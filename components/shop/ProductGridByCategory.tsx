@@ -2,6 +2,7 @@
 
 import { useEffect, useRef } from 'react';
 import type { Product } from '@/lib/types';
+import { Price } from '@/components/shop/Price';
 
 const CATEGORY_LABELS: Record<string, string> = {
   'cotton-tee': 'Cotton Tees',
@@ -319,7 +320,7 @@ function EditorialCard({
         {/* Name + price overlay */}
         <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/70 via-black/30 to-transparent p-3 sm:p-4 pt-10">
           <p className="font-display font-bold text-white text-xs sm:text-[13px] leading-tight drop-shadow-sm truncate">{product.name}</p>
-          <span className="text-amber text-xs sm:text-[13px] font-bold">CA${product.price.toFixed(2)}</span>
+          <span className="text-amber text-xs sm:text-[13px] font-bold"><Price cents={Math.round(product.price * 100)} /></span>
         </div>
         {/* Quick Add hover */}
         <div className="absolute bottom-0 left-0 right-0 bg-charcoal/90 backdrop-blur-sm text-white text-center py-3 font-display text-[11px] font-bold tracking-[0.12em] uppercase translate-y-full group-hover:translate-y-0 transition-transform duration-300">
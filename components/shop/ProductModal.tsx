@@ -4,6 +4,12 @@ import { useState, useEffect, useRef } from 'react';
 import { useCartStore } from '@/lib/store/cart';
 import { cleanProductName, getProductTagline } from '@/lib/utils';
 import type { Product } from '@/lib/types';
+import { Price } from '@/components/shop/Price';
+import { formatShipDate, isSoldOut, isSizeSoldOut } from '@/lib/inventory/stock';
+import { useProductStock } from '@/lib/inventory/useProductStock';
+import { findVariant } from '@/lib/catalog/variants';
+import { useAuthStore } from '@/lib/store/auth';
+import { BackInStockForm } from '@/components/shop/BackInStockForm';
 
 export function ProductModal({
   product,
@@ -22,6 +28,22 @@ export function ProductModal({
   const [addedFeedback, setAddedFeedback] = useState(false);
   const [validationError, setValidationError] = useState('');
   const addItem = useCartStore((state) => state.addItem);
+  // The members collection is for signed-in members only (they also get its drops early)
+  const isMember = !!useAuthStore((state) => state.user);
+  const membersOnly = product?.category === 'members' && !isMember;
+  const stock = useProductStock(product?.product_key);
+  const selectedSoldOut = product
+    ? isSoldOut(stock, selectedColor || product.colors?.[0] || '', selectedSize || product.sizes?.[0] || '')
+    : false;
+  // The size × color on screen — its price and images win over the product's
+  const variant = product
+    ? findVariant(product.variants, selectedColor || product.colors?.[0] || '', selectedSize || product.sizes?.[0] || '')
+    : undefined;
+  const unavailable = !!product?.variants?.length && !variant;
+  // Sold out: pre-order it when the variant takes pre-orders, otherwise ask to be notified
+  const preorderShipsAt = selectedSoldOut ? variant?.preorder_ships_at ?? null : null;
+  const notifyOnly = selectedSoldOut && !preorderShipsAt && !!variant;
+  const unitPrice = variant?.price ?? product?.price ?? 0;
   const modalRef = useRef<HTMLDivElement>(null);
   const imgContainerRef = useRef<HTMLDivElement>(null);
 
@@ -37,6 +59,7 @@ export function ProductModal({
   // Get images for carousel — switches based on selected color
   const allImages = (() => {
     if (!product) return [];
+    if (variant?.images.length) return variant.images;
     if (selectedColor && product.color_images?.[selectedColor]?.length) {
       return product.color_images[selectedColor];
     }
@@ -59,7 +82,7 @@ export function ProductModal({
   useEffect(() => {
     setSelectedImage(0);
     setImgPos({ x: 0, y: 0 });
-  }, [selectedColor]);
+  }, [selectedColor, variant?.id]);
 
   useEffect(() => {
     setImgPos({ x: 0, y: 0 });
@@ -364,7 +387,7 @@ export function ProductModal({
                 {cleanProductName(product.name)}
               </h2>
               <p className="font-display text-xs md:text-sm text-amber-dark font-bold tracking-wider uppercase md:mb-1">
-                {product.category === 'members' ? 'COMING SOON' : `CA$${product.price.toFixed(2)}`}
+                {membersOnly ? 'COMING SOON' : <Price cents={Math.round(unitPrice * 100)} />}
               </p>
             </div>
 
@@ -389,19 +412,28 @@ export function ProductModal({
                 <div className="flex-1 md:mb-3">
                   <p className="font-display text-[10px] md:text-xs text-text-primary mb-1 md:mb-1.5 uppercase tracking-wider">Size</p>
                   <div className="flex flex-wrap gap-1 md:gap-1.5">
-                    {product.sizes.map((size) => (
-                      <button
-                        key={size}
-                        onClick={() => setSelectedSize(size)}
-                        className={`px-2 md:px-2.5 py-0.5 md:py-1 rounded-md font-display text-[10px] md:text-xs transition-all ${
-                          selectedSize === size
-                            ? 'bg-charcoal-deep text-white'
-                            : 'bg-white text-text-primary hover:bg-warm-100'
-                        }`}
-                      >
-                        {size}
-                      </button>
-                    ))}
+                    {product.sizes.map((size) => {
+                      const soldOut = isSizeSoldOut(stock, size, product.colors || [], selectedColor);
+                      const preorder = soldOut && !!findVariant(product.variants, selectedColor || product.colors?.[0] || '', size)?.preorder_ships_at;
+                      return (
+                        <button
+                          key={size}
+                          onClick={() => setSelectedSize(size)}
+                          title={preorder ? 'Pre-order' : soldOut ? 'Sold out — get notified' : undefined}
+                          className={`px-2 md:px-2.5 py-0.5 md:py-1 rounded-md font-display text-[10px] md:text-xs transition-all ${
+                            soldOut && !preorder
+                              ? selectedSize === size
+                                ? 'bg-warm-200 text-warm-500 line-through'
+                                : 'bg-white text-warm-400 line-through opacity-50'
+                              : selectedSize === size
+                              ? 'bg-charcoal-deep text-white'
+                              : 'bg-white text-text-primary hover:bg-warm-100'
+                          }`}
+                        >
+                          {size}
+                        </button>
+                      );
+                    })}
                   </div>
                 </div>
               )}
@@ -446,7 +478,7 @@ export function ProductModal({
               {validationError && (
                 <p className="text-[10px] text-red-500 mb-1.5 text-center" role="alert">{validationError}</p>
               )}
-              {product.category === 'members' ? (
+              {membersOnly ? (
                 <button
                   onClick={handleJoinWaitlist}
                   className="w-full bg-amber text-charcoal-deep font-body font-medium py-2.5 md:py-3 px-3 rounded-lg hover:bg-amber-light transition-colors text-sm tracking-wide"
@@ -460,6 +492,11 @@ export function ProductModal({
                 >
                   Coming Soon
                 </button>
+              ) : notifyOnly ? (
+                <BackInStockForm
+                  variantId={variant!.id}
+                  label={[variant!.color, variant!.size].filter(Boolean).join(' / ') || product.name}
+                />
               ) : addedFeedback ? (
                 <div className="space-y-2">
                   <div className="flex items-center justify-center gap-2 py-2.5 bg-green-50 rounded-lg border border-green-200">
@@ -485,6 +522,11 @@ export function ProductModal({
                 </div>
               ) : (
                 <div className="space-y-2">
+                  {preorderShipsAt && (
+                    <p className="text-[10px] md:text-xs text-center text-amber-dark font-bold">
+                      Sold out — pre-order now, ships around {formatShipDate(preorderShipsAt)}
+                    </p>
+                  )}
                   <div className="flex gap-2">
                     <button
                       onClick={() => {
@@ -496,22 +538,32 @@ export function ProductModal({
                           setValidationError('Please select a color');
                           return;
                         }
+                        if (unavailable) {
+                          setValidationError('This option is unavailable');
+                          return;
+                        }
+                        if (selectedSoldOut && !preorderShipsAt) {
+                          setValidationError('This size is sold out');
+                          return;
+                        }
                         setValidationError('');
                         addItem({
                           product_key: product.product_key,
+                          variant_id: variant?.id ?? null,
                           price_id: product.price_id,
                           name: product.name,
                           design: '',
                           color: selectedColor || product.colors?.[0] || '',
                           size: selectedSize || product.sizes?.[0] || '',
-                          price: Math.round(product.price * 100),
+                          price: Math.round(unitPrice * 100),
                           image: allImages[0] || product.image,
+                          preorder_ships_at: preorderShipsAt,
                         });
                         setAddedFeedback(true);
                       }}
                       className="flex-1 font-display py-2.5 md:py-3 px-3 rounded-lg bg-charcoal-deep text-white hover:bg-charcoal-light transition-colors uppercase tracking-wider text-xs md:text-sm font-bold"
                     >
-                      Add to Bag
+                      {preorderShipsAt ? 'Pre-order' : 'Add to Bag'}
                     </button>
                     <a
                       href="/checkout"
@@ -525,16 +577,26 @@ export function ProductModal({
                           setValidationError('Please select a color');
                           return;
                         }
+                        if (unavailable) {
+                          setValidationError('This option is unavailable');
+                          return;
+                        }
+                        if (selectedSoldOut && !preorderShipsAt) {
+                          setValidationError('This size is sold out');
+                          return;
+                        }
                         setValidationError('');
                         addItem({
                           product_key: product.product_key,
+                          variant_id: variant?.id ?? null,
                           price_id: product.price_id,
                           name: product.name,
                           design: '',
                           color: selectedColor || product.colors?.[0] || '',
                           size: selectedSize || product.sizes?.[0] || '',
-                          price: Math.round(product.price * 100),
+                          price: Math.round(unitPrice * 100),
                           image: allImages[0] || product.image,
+                          preorder_ships_at: preorderShipsAt,
                         });
                         window.location.href = '/checkout';
                       }}
@@ -2,6 +2,7 @@
 
 import { useState, useRef, useEffect, useCallback } from 'react';
 import type { Product } from '@/lib/types';
+import { Price } from '@/components/shop/Price';
 
 interface SearchOverlayProps {
   products: Product[];
@@ -114,7 +115,7 @@ export function SearchOverlay({ products, isOpen, onClose, onProductClick }: Sea
                           {product.name}
                         </div>
                         <div className="font-display text-[13px] font-bold text-amber-dark mt-0.5">
-                          CA${product.price.toFixed(2)}
+                          <Price cents={Math.round(product.price * 100)} />
                         </div>
                       </div>
                       <svg className="w-4 h-4 text-warm-300 flex-shrink-0" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
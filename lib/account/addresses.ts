@@ -0,0 +1,85 @@
+import { PROVINCES } from '@/lib/stripe-config'
+import { isValidCanadianPostal, formatPostalCode } from '@/lib/checkout/postal-utils'
+import type { Address } from '@/types'
+
+// ============================================
+// ADDRESS BOOK VALIDATION (pure)
+// ============================================
+
+/** Fields a customer may write — id/user_id/timestamps are set server-side */
+export type AddressInput = Pick<
+  Address,
+  'label' | 'full_name' | 'street_address' | 'apartment' | 'city' | 'province' | 'postal_code' | 'country' | 'phone' | 'is_default'
+>
+
+type TextField = 'label' | 'full_name' | 'street_address' | 'apartment' | 'city' | 'phone'
+
+// Max lengths mirror the app_shop_addresses column sizes
+const TEXT_FIELDS: Record<TextField, { label: string; max: number; optional?: boolean }> = {
+  label: { label: 'Label', max: 50, optional: true },
+  full_name: { label: 'Full name', max: 255 },
+  street_address: { label: 'Street address', max: 255 },
+  apartment: { label: 'Apartment', max: 100, optional: true },
+  city: { label: 'City', max: 100 },
+  phone: { label: 'Phone', max: 20, optional: true },
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+/**
+ * Validate an address body. With `partial`, only the fields present are
+ * checked and returned (for PATCH).
+ */
+export function parseAddressInput(
+  body: any,
+  partial = false,
+): { data: Partial<AddressInput>; error?: undefined } | { data?: undefined; error: string } {
+  if (!body || typeof body !== 'object') return { error: 'Invalid address' }
+
+  const data: Partial<AddressInput> = {}
+  const has = (key: string) => body[key] !== undefined
+
+  for (const key of Object.keys(TEXT_FIELDS) as TextField[]) {
+    const field = TEXT_FIELDS[key]
+    if (!has(key)) {
+      if (!partial && !field.optional) return { error: `${field.label} is required` }
+      continue
+    }
+    const value = text(body[key])
+    if (!value && !field.optional) return { error: `${field.label} is required` }
+    if (value.length > field.max) return { error: `${field.label} is too long` }
+    if (key === 'apartment' || key === 'phone') data[key] = value || null
+    else if (value) data[key] = value
+  }
+
+  if (!partial && (!has('province') || !has('postal_code'))) {
+    return { error: 'Province and postal code are required' }
+  }
+
+  if (has('province')) {
+    const province = text(body.province).toUpperCase()
+    if (!PROVINCES.some(p => p.code === province)) return { error: 'Invalid province' }
+    data.province = province
+  }
+
+  if (has('postal_code')) {
+    const postal = text(body.postal_code)
+    if (!isValidCanadianPostal(postal)) return { error: 'Invalid postal code' }
+    data.postal_code = formatPostalCode(postal)
+  }
+
+  if (has('is_default')) data.is_default = body.is_default === true
+  if (!partial) {
+    data.label = data.label || 'Home'
+    data.country = 'CA' // shipping is Canada-only
+  }
+
+  return { data }
+}
+
+/** One-line summary for lists: "123 Main St, Apt 4, Toronto ON M5V 2T6" */
+export function formatAddressLine(a: Pick<Address, 'street_address' | 'apartment' | 'city' | 'province' | 'postal_code'>): string {
+  return [a.street_address, a.apartment, `${a.city} ${a.province} ${a.postal_code}`].filter(Boolean).join(', ')
+}
@@ -0,0 +1,180 @@
+import { createClient } from '@supabase/supabase-js'
+import type { User } from '@supabase/supabase-js'
+import { orderShipments } from '@/lib/orders/shipments'
+
+// ============================================
+// CUSTOMER ACCOUNT DATA (server-only)
+// Orders, reviews and promo codes live in service-role tables, so every
+// query here is scoped to the signed-in user before it runs.
+// ============================================
+
+function getServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+export interface AccountOrderItem {
+  sku?: string
+  name?: string
+  color?: string
+  size?: string
+  qty?: number
+  price?: number
+  paid?: number
+  image?: string | null
+}
+
+export interface AccountOrder {
+  id: string
+  order_number: string
+  status: string
+  created_at: string
+  shipped_at: string | null
+  delivered_at: string | null
+  items: AccountOrderItem[]
+  total: number              // cents
+  shipping_cost: number      // cents
+  tax: number | null         // cents
+  refunded_amount: number | null
+  refund_status: string | null
+  tracking_code: string | null
+  tracking_codes: string[]   // every parcel's PIN, first = tracking_code
+  shipping_address: {
+    name?: string
+    street?: string
+    apartment?: string
+    city?: string
+    province?: string
+    postal_code?: string
+  } | null
+}
+
+export interface AccountReview {
+  id: string
+  order_number: string
+  rating: number
+  title: string | null
+  comment: string | null
+  status: string
+  created_at: string
+}
+
+export interface AccountPromoCode {
+  code: string
+  discount_type: string | null
+  kind: string | null
+  value: number | null
+  free_shipping: boolean | null
+  min_subtotal: number | null
+  eligible_products: string[] | null
+  eligible_categories: string[] | null
+  starts_at: string | null
+  notes: string | null
+  expires_at: string | null
+  used_at: string | null
+  created_at: string
+}
+
+const ORDER_COLUMNS =
+  'id, order_number, status, created_at, shipped_at, delivered_at, items, total, shipping_cost, tax, refunded_amount, refund_status, tracking_code, label_url, shipments, shipping_address'
+
+/** Shipments carry label URLs and packing details — the customer only needs the PINs */
+function toAccountOrder(row: any): AccountOrder {
+  const { shipments: _shipments, label_url: _labelUrl, ...order } = row
+  return { ...order, tracking_codes: orderShipments(row).map(s => s.trackingPin) }
+}
+
+/** Escape LIKE wildcards so an email matches only itself under ilike */
+export function likeExact(value: string): string {
+  return value.replace(/[\\%_]/g, c => `\\${c}`)
+}
+
+/** Only a confirmed email proves the user owns orders placed under it */
+function confirmedEmail(user: User): string | null {
+  if (!user.email || !user.email_confirmed_at) return null
+  return user.email.trim().toLowerCase()
+}
+
+/**
+ * Attach guest orders placed with this account's email to the account.
+ * Runs on every account visit, so orders from before sign-up — or placed
+ * while signed out — show up without any manual step.
+ */
+export async function claimGuestOrders(user: User): Promise<number> {
+  const email = confirmedEmail(user)
+  if (!email) return 0
+
+  const supabase = getServiceClient()
+  const { data, error } = await supabase
+    .from('app_shop_orders')
+    .update({ user_id: user.id })
+    .is('user_id', null)
+    .ilike('email', likeExact(email))
+    .select('id')
+
+  if (error) {
+    console.error('[account] Guest order claim failed:', error.message)
+    return 0
+  }
+  return data?.length || 0
+}
+
+export async function getAccountOrders(user: User): Promise<AccountOrder[]> {
+  const supabase = getServiceClient()
+  const { data, error } = await supabase
+    .from('app_shop_orders')
+    .select(ORDER_COLUMNS)
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false })
+    .limit(100)
+
+  if (error) throw new Error(`Order history lookup failed: ${error.message}`)
+  return (data || []).map(toAccountOrder)
+}
+
+/** A single order, only if it belongs to the user */
+export async function getAccountOrder(user: User, orderId: string): Promise<AccountOrder | null> {
+  const supabase = getServiceClient()
+  const { data, error } = await supabase
+    .from('app_shop_orders')
+    .select(ORDER_COLUMNS)
+    .eq('id', orderId)
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (error) throw new Error(`Order lookup failed: ${error.message}`)
+  return data ? toAccountOrder(data) : null
+}
+
+/** Reviews left on any of the user's orders */
+export async function getAccountReviews(orderNumbers: string[]): Promise<AccountReview[]> {
+  if (orderNumbers.length === 0) return []
+
+  const supabase = getServiceClient()
+  const { data, error } = await supabase
+    .from('app_shop_reviews')
+    .select('id, order_number, rating, title, comment, status, created_at')
+    .in('order_number', orderNumbers)
+    .order('created_at', { ascending: false })
+
+  if (error) throw new Error(`Review lookup failed: ${error.message}`)
+  return (data || []) as AccountReview[]
+}
+
+/** Promo codes issued to the user's email (welcome codes, campaign codes) */
+export async function getAccountPromoCodes(user: User): Promise<AccountPromoCode[]> {
+  const email = confirmedEmail(user)
+  if (!email) return []
+
+  const supabase = getServiceClient()
+  const { data, error } = await supabase
+    .from('promo_codes')
+    .select('code, discount_type, kind, value, free_shipping, min_subtotal, eligible_products, eligible_categories, starts_at, notes, expires_at, used_at, created_at')
+    .ilike('email', likeExact(email))
+    .order('created_at', { ascending: false })
+
+  if (error) throw new Error(`Promo code lookup failed: ${error.message}`)
+  return (data || []) as AccountPromoCode[]
+}
@@ -7,6 +7,48 @@ const getAuth = () => {
   return 'Basic ' + Buffer.from(`${user}:${pass}`).toString('base64')
 }
 
+// ============================================
+// RESILIENCE — timeout, retry with backoff, circuit breaker
+// Failures are returned as 5xx responses (never thrown), so every caller's
+// `status !== 200` branch handles an outage the same way as an API error.
+// ============================================
+
+const DEFAULT_TIMEOUT_MS = 10_000
+const BACKOFF_BASE_MS = 400
+
+// After this many transient failures in a row, stop calling Canada Post for
+// the cooldown; then let one request through to probe (half-open).
+const BREAKER_THRESHOLD = 5
+const BREAKER_COOLDOWN_MS = 30_000
+
+const breaker = {
+  failures: 0,
+  openedAt: 0,   // 0 = closed
+}
+
+/** True while Canada Post calls are being short-circuited */
+export function isCircuitOpen(): boolean {
+  return breaker.openedAt > 0 && Date.now() - breaker.openedAt < BREAKER_COOLDOWN_MS
+}
+
+function recordSuccess() {
+  breaker.failures = 0
+  breaker.openedAt = 0
+}
+
+function recordFailure() {
+  breaker.failures++
+  if (breaker.failures >= BREAKER_THRESHOLD) {
+    if (!isCircuitOpen()) console.error(`[Canada Post] ${breaker.failures} failures in a row — pausing calls for ${BREAKER_COOLDOWN_MS / 1000}s`)
+    breaker.openedAt = Date.now()
+  }
+}
+
+// 429 and 5xx are worth another try; other 4xx are the request's fault
+const isTransient = (status: number) => status === 429 || status >= 500
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
 export async function cpFetch(
   path: string,
   options: {
@@ -14,10 +56,13 @@ export async function cpFetch(
     body?: string
     accept?: string
     contentType?: string
+    timeoutMs?: number
+    retries?: number   // default: 2 for GET, 0 otherwise — only retry requests without side effects
   } = {}
 ): Promise<{ status: number; text: string }> {
   const url = `${getBaseUrl()}${path}`
   const method = options.method || 'POST'
+  const retries = options.retries ?? (method === 'GET' ? 2 : 0)
 
   const headers: Record<string, string> = {
     Authorization: getAuth(),
@@ -28,12 +73,41 @@ export async function cpFetch(
     headers['Content-Type'] = options.contentType
   }
 
-  const res = await fetch(url, {
-    method,
-    headers,
-    body: options.body,
-  })
+  if (isCircuitOpen()) {
+    return { status: 503, text: 'Canada Post unavailable (circuit open)' }
+  }
+
+  let last = { status: 503, text: '' }
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) {
+      // 400ms, 800ms, … plus jitter so concurrent checkouts don't retry in lockstep
+      await sleep(BACKOFF_BASE_MS * 2 ** (attempt - 1) + Math.random() * BACKOFF_BASE_MS)
+    }
+
+    try {
+      const res = await fetch(url, {
+        method,
+        headers,
+        body: options.body,
+        signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      })
+      const text = await res.text()
+      last = { status: res.status, text }
+
+      if (!isTransient(res.status)) {
+        recordSuccess()
+        return last
+      }
+    } catch (err: any) {
+      const timedOut = err?.name === 'TimeoutError' || err?.name === 'AbortError'
+      last = timedOut
+        ? { status: 504, text: `Canada Post timed out after ${options.timeoutMs ?? DEFAULT_TIMEOUT_MS}ms` }
+        : { status: 503, text: `Canada Post unreachable: ${err?.message || err}` }
+    }
+
+    console.warn(`[Canada Post] ${method} ${path} failed (${last.status}), attempt ${attempt + 1}/${retries + 1}`)
+  }
 
-  const text = await res.text()
-  return { status: res.status, text }
+  recordFailure()
+  return last
 }
@@ -0,0 +1,56 @@
+/**
+ * Customs declarations for parcels leaving Canada.
+ * HS codes and country of origin come from the product type catalog
+ * (lib/catalog/product-types); values are what the customer actually paid.
+ */
+
+import type { ProductCatalog } from '@/lib/catalog/catalog'
+import type { PackItem } from './packing'
+import type { CustomsDeclaration, CustomsItem } from './types'
+
+/** Order line as stored in app_shop_orders.items */
+interface OrderLine {
+  product_type?: string | null
+  sku?: string
+  name?: string
+  qty?: number
+  price?: number   // cents
+  paid?: number    // cents for the whole line, after discounts
+}
+
+/**
+ * Declaration for one parcel's contents. Returns an error naming the first
+ * item we can't declare (no shipping info for its SKU).
+ */
+export function customsForParcel(
+  contents: PackItem[],
+  orderLines: OrderLine[],
+  catalog: ProductCatalog,
+): { customs: CustomsDeclaration | null; error?: string } {
+  const items: CustomsItem[] = []
+
+  for (const { productKey, quantity, weight } of contents) {
+    const info = catalog.shippingInfo(productKey)
+    if (!info) return { customs: null, error: `No customs data for ${productKey}` }
+
+    // Parcels are packed by product type (older orders by SKU) — value every line packed under it
+    const lines = orderLines.filter(l => (l.product_type || l.sku) === productKey)
+    const line = lines[0]
+    const qty = Math.max(1, lines.reduce((sum, l) => sum + (l.qty || 1), 0))
+    const unitCents = lines.length > 0 && lines.every(l => l.paid !== undefined)
+      ? lines.reduce((sum, l) => sum + (l.paid || 0), 0) / qty
+      : line?.price ?? 0
+
+    items.push({
+      description: line?.name || productKey,
+      sku: line?.sku || productKey,
+      quantity,
+      unitWeight: weight ?? info.weight,
+      unitValue: Math.round(unitCents) / 100,
+      hsCode: info.hsCode,
+      originCountry: info.originCountry,
+    })
+  }
+
+  return { customs: { currency: 'CAD', reasonForExport: 'SOG', items } }
+}
@@ -0,0 +1,93 @@
+/**
+ * Canada Post Manifest API — open groups and end-of-day manifests (contract only)
+ * Shipments accumulate in a per-day group (dayGroupId in ./shipment) and are
+ * transmitted together when the admin closes the day.
+ */
+
+import { XMLParser } from 'fast-xml-parser'
+import { cpFetch } from './client'
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+})
+
+export interface ManifestInfo {
+  poNumber: string
+  artifactUrl: string          // manifest PDF
+  error?: string
+}
+
+/**
+ * Groups holding shipments that haven't been transmitted yet.
+ */
+export async function getOpenGroups(): Promise<{ groupIds: string[]; error?: string }> {
+  const customerNumber = process.env.CANADAPOST_CUSTOMER_NUMBER!
+
+  const { status, text } = await cpFetch(`/rs/${customerNumber}/${customerNumber}/group`, {
+    method: 'GET',
+    accept: 'application/vnd.cpc.shipment-v8+xml',
+  })
+
+  if (status !== 200) {
+    console.error(`[Canada Post] Groups API ${status}:`, text)
+    return { groupIds: [], error: `Group lookup failed (${status})` }
+  }
+
+  try {
+    const groups = parser.parse(text).groups
+    const rawLinks = groups?.link || groups?.links?.link
+    const linksArr = Array.isArray(rawLinks) ? rawLinks : rawLinks ? [rawLinks] : []
+
+    const groupIds = linksArr
+      .filter((l: any) => l['@_rel'] === 'group' && l['@_href'])
+      .map((l: any) => groupIdFromHref(String(l['@_href'])))
+      .filter((id: string | null): id is string => !!id)
+
+    return { groupIds: Array.from(new Set(groupIds)) }
+  } catch (err) {
+    console.error('[Canada Post] Groups parse error:', err)
+    return { groupIds: [], error: 'Failed to parse groups response' }
+  }
+}
+
+/**
+ * Manifest details — PO number and the PDF artifact link.
+ */
+export async function getManifest(manifestUrl: string): Promise<ManifestInfo> {
+  const { status, text } = await cpFetch(manifestUrl.replace(/^https?:\/\/[^/]+/, ''), {
+    method: 'GET',
+    accept: 'application/vnd.cpc.manifest-v8+xml',
+  })
+
+  if (status !== 200) {
+    console.error(`[Canada Post] Manifest API ${status}:`, text)
+    return { poNumber: '', artifactUrl: '', error: `Manifest lookup failed (${status})` }
+  }
+
+  try {
+    const manifest = parser.parse(text).manifest
+    const rawLinks = manifest?.links?.link
+    const linksArr = Array.isArray(rawLinks) ? rawLinks : rawLinks ? [rawLinks] : []
+    const artifact = linksArr.find((l: any) => l['@_rel'] === 'artifact')
+
+    return {
+      poNumber: String(manifest?.['po-number'] || ''),
+      artifactUrl: artifact?.['@_href'] || '',
+    }
+  } catch (err) {
+    console.error('[Canada Post] Manifest parse error:', err)
+    return { poNumber: '', artifactUrl: '', error: 'Failed to parse manifest response' }
+  }
+}
+
+// Group links look like .../shipment?groupId=day-20261019 or .../group/day-20261019
+function groupIdFromHref(href: string): string | null {
+  try {
+    const url = new URL(href)
+    return url.searchParams.get('groupId') || url.pathname.replace(/\/$/, '').split('/').pop() || null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,97 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { buildCatalog, type ProductType } from '@/lib/catalog/catalog'
+import { packParcels } from './packing'
+
+function type(key: string, size: Pick<ProductType, 'weight' | 'length' | 'width' | 'height'>): ProductType {
+  return {
+    key,
+    name: key,
+    category: 'apparel',
+    price: 1000,
+    sku: '',
+    sku_prefix: '',
+    sizes: [],
+    stripe_product_id: null,
+    stripe_price_id: null,
+    stripe_price_amount: null,
+    hs_code: '6109.10',
+    origin_country: 'CA',
+    active: true,
+    sort_order: 0,
+    ...size,
+  }
+}
+
+const catalog = buildCatalog([
+  type('tee', { weight: 0.2, length: 30, width: 20, height: 2 }),
+  type('brick', { weight: 4, length: 20, width: 15, height: 10 }),
+  type('kayak', { weight: 20, length: 300, width: 60, height: 40 }),
+])
+
+test('packs into the smallest packaging the contents fit', () => {
+  assert.deepEqual(packParcels([{ productKey: 'tee', quantity: 2 }], catalog), [{
+    packaging: 'poly-s',
+    weight: 0.42,
+    dimensions: { length: 33, width: 25, height: 4 },
+    items: [{ productKey: 'tee', quantity: 2 }],
+  }])
+
+  // A third tee is too thick for the small mailer
+  const [parcel] = packParcels([{ productKey: 'tee', quantity: 3 }], catalog)
+  assert.equal(parcel.packaging, 'poly-l')
+  assert.equal(parcel.weight, 0.64)
+  assert.equal(parcel.dimensions.height, 6)
+})
+
+test('splits what doesn’t fit one box into more parcels', () => {
+  const parcels = packParcels([{ productKey: 'brick', quantity: 3 }, { productKey: 'tee', quantity: 1 }], catalog)
+
+  // Two bricks fill a medium box, the third opens a parcel of its own, and
+  // the tee goes into the first parcel it fits — a size up from the medium box
+  assert.deepEqual(parcels.map(p => [p.packaging, p.weight, p.items]), [
+    ['box-l', 8.65, [{ productKey: 'brick', quantity: 2 }, { productKey: 'tee', quantity: 1 }]],
+    ['box-s', 4.15, [{ productKey: 'brick', quantity: 1 }]],
+  ])
+})
+
+test('ships items too big for any packaging on their own', () => {
+  const parcels = packParcels([{ productKey: 'kayak', quantity: 1 }, { productKey: 'tee', quantity: 1 }], catalog)
+
+  assert.deepEqual(parcels, [
+    {
+      packaging: 'poly-s',
+      weight: 0.22,
+      dimensions: { length: 33, width: 25, height: 2 },
+      items: [{ productKey: 'tee', quantity: 1 }],
+    },
+    {
+      packaging: null,
+      weight: 20,
+      dimensions: { length: 300, width: 60, height: 40 },
+      items: [{ productKey: 'kayak', quantity: 1 }],
+    },
+  ])
+})
+
+test('weighs units by their variant’s weight override', () => {
+  const [parcel] = packParcels([{ productKey: 'tee', quantity: 1, weight: 0.5 }, { productKey: 'tee', quantity: 1 }], catalog)
+
+  assert.equal(parcel.weight, 0.72)
+  assert.deepEqual(parcel.items, [
+    { productKey: 'tee', quantity: 1, weight: 0.5 },
+    { productKey: 'tee', quantity: 1 },
+  ])
+})
+
+test('quotes the smallest mailer when nothing has known dimensions', () => {
+  const fallback = [{
+    packaging: 'poly-s',
+    weight: 0.02,
+    dimensions: { length: 33, width: 25, height: 1 },
+    items: [],
+  }]
+
+  assert.deepEqual(packParcels([], catalog), fallback)
+  assert.deepEqual(packParcels([{ productKey: 'mystery', quantity: 2 }], catalog), fallback)
+})
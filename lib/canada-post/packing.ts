@@ -0,0 +1,171 @@
+/**
+ * Box packing — splits an order into parcels using the mailers and boxes we stock.
+ * Item sizes come from the product type catalog (lib/catalog/product-types).
+ */
+
+import type { ProductCatalog } from '@/lib/catalog/catalog'
+import type { ParcelSpec, ProductShippingInfo } from './types'
+
+export interface Packaging {
+  id: string
+  name: string
+  kind: 'mailer' | 'box'
+  length: number      // cm, inside
+  width: number       // cm, inside
+  height: number      // cm — for mailers, the thickness it still seals at
+  maxWeight: number   // kg, contents + packaging
+  tareWeight: number  // kg, the packaging itself
+}
+
+// ============================================
+// PACKAGING CATALOGUE — what's on the shelf. Edit to match stock.
+// ============================================
+
+export const PACKAGING: Packaging[] = [
+  { id: 'poly-s', name: 'Poly mailer 10×13"',  kind: 'mailer', length: 33, width: 25, height: 5,  maxWeight: 1.5, tareWeight: 0.02 },
+  { id: 'poly-l', name: 'Poly mailer 14.5×19"', kind: 'mailer', length: 48, width: 37, height: 8,  maxWeight: 3,   tareWeight: 0.04 },
+  { id: 'box-s',  name: 'Box 9×7×5"',           kind: 'box',    length: 23, width: 18, height: 13, maxWeight: 5,   tareWeight: 0.15 },
+  { id: 'box-m',  name: 'Box 12×10×8"',         kind: 'box',    length: 30, width: 25, height: 20, maxWeight: 10,  tareWeight: 0.30 },
+  { id: 'box-l',  name: 'Box 16×12×10"',        kind: 'box',    length: 40, width: 30, height: 25, maxWeight: 15,  tareWeight: 0.45 },
+]
+
+export interface PackItem {
+  productKey: string    // product type or SKU
+  quantity: number
+  weight?: number       // kg per unit, a variant's override of the type's weight
+}
+
+export interface Parcel extends ParcelSpec {
+  packaging: string | null   // PACKAGING id, null = item ships in its own packaging (too big for any)
+  items: PackItem[]
+}
+
+interface Unit {
+  productKey: string
+  weightOverride?: number
+  info: ProductShippingInfo
+  dims: [number, number, number]   // sorted, largest first
+}
+
+interface OpenParcel {
+  pack: Packaging
+  units: Unit[]
+}
+
+// Smallest first, so every parcel gets the cheapest packaging its contents fit
+const BY_SIZE = [...PACKAGING].sort((a, b) =>
+  a.length * a.width * a.height - b.length * b.width * b.height
+)
+
+/**
+ * Units lie flat: their two largest sides must fit the packaging footprint,
+ * and their smallest sides stack up to the packaging height.
+ */
+function fits(pack: Packaging, units: Unit[]): boolean {
+  const [packL, packW] = pack.length >= pack.width ? [pack.length, pack.width] : [pack.width, pack.length]
+  let stack = 0
+  let weight = pack.tareWeight
+  for (const u of units) {
+    if (u.dims[0] > packL || u.dims[1] > packW) return false
+    stack += u.dims[2]
+    weight += u.info.weight
+  }
+  return stack <= pack.height && weight <= pack.maxWeight
+}
+
+function smallestFit(units: Unit[]): Packaging | null {
+  return BY_SIZE.find(pack => fits(pack, units)) ?? null
+}
+
+function groupItems(units: Unit[]): PackItem[] {
+  const groups = new Map<string, PackItem>()
+  for (const u of units) {
+    const key = `${u.productKey}|${u.weightOverride ?? ''}`
+    const group = groups.get(key)
+    if (group) group.quantity++
+    else groups.set(key, { productKey: u.productKey, quantity: 1, ...(u.weightOverride ? { weight: u.weightOverride } : {}) })
+  }
+  return Array.from(groups.values())
+}
+
+function toParcel({ pack, units }: OpenParcel): Parcel {
+  const contents = units.reduce((sum, u) => sum + u.info.weight, 0)
+  const stack = units.reduce((sum, u) => sum + u.dims[2], 0)
+  return {
+    packaging: pack.id,
+    weight: Math.max(0.01, Math.round((contents + pack.tareWeight) * 1000) / 1000),
+    dimensions: {
+      length: pack.length,
+      width: pack.width,
+      // A mailer is only as thick as what's in it
+      height: pack.kind === 'mailer' ? Math.max(1, Math.min(stack, pack.height)) : pack.height,
+    },
+    items: groupItems(units),
+  }
+}
+
+/**
+ * Pack an order into as few parcels as possible (first-fit, largest item first).
+ * Each parcel gets the smallest packaging its contents fit. Items with no
+ * shipping info are skipped, same as the old single-box estimate.
+ */
+export function packParcels(items: PackItem[], catalog: ProductCatalog): Parcel[] {
+  const units: Unit[] = []
+  for (const item of items) {
+    const typeInfo = catalog.shippingInfo(item.productKey)
+    if (!typeInfo) continue
+    const info = item.weight ? { ...typeInfo, weight: item.weight } : typeInfo
+    const dims = [info.length, info.width, info.height].sort((a, b) => b - a) as [number, number, number]
+    for (let i = 0; i < item.quantity; i++) units.push({ productKey: item.productKey, weightOverride: item.weight, info, dims })
+  }
+
+  units.sort((a, b) =>
+    b.dims[0] * b.dims[1] * b.dims[2] - a.dims[0] * a.dims[1] * a.dims[2] || b.info.weight - a.info.weight
+  )
+
+  const open: OpenParcel[] = []
+  const oversize: Parcel[] = []
+
+  for (const unit of units) {
+    let placed = false
+    for (const parcel of open) {
+      const pack = smallestFit([...parcel.units, unit])
+      if (pack) {
+        parcel.pack = pack
+        parcel.units.push(unit)
+        placed = true
+        break
+      }
+    }
+    if (placed) continue
+
+    const pack = smallestFit([unit])
+    if (pack) {
+      open.push({ pack, units: [unit] })
+    } else {
+      oversize.push({
+        packaging: null,
+        weight: Math.max(0.01, unit.info.weight),
+        dimensions: { length: unit.info.length, width: unit.info.width, height: unit.info.height },
+        items: groupItems([unit]),
+      })
+    }
+  }
+
+  const parcels = [...open.map(toParcel), ...oversize]
+  if (parcels.length > 0) return parcels
+
+  // Nothing with known dimensions — quote the smallest mailer
+  const smallest = BY_SIZE[0]
+  return [{
+    packaging: smallest.id,
+    weight: Math.max(0.01, smallest.tareWeight),
+    dimensions: { length: smallest.length, width: smallest.width, height: 1 },
+    items: [],
+  }]
+}
+
+export function packagingName(id: string | null): string {
+  if (!id) return 'Own packaging'
+  return PACKAGING.find(p => p.id === id)?.name ?? id
+}
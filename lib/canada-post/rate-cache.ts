@@ -0,0 +1,192 @@
+/**
+ * Shipping quote cache — sits in front of the Rating API (server-only).
+ * Quotes are cached per origin FSA × destination FSA × package profile, so
+ * checkouts from the same area with the same box reuse one Canada Post call.
+ * Outside Canada the destination key is the country plus the first three
+ * characters of the ZIP (e.g. US902), and the district is the country.
+ * When Canada Post is down, the estimate comes from quotes we've already
+ * seen for that region rather than a flat rate.
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import { detectProvinceFromPostal } from '@/lib/checkout/postal-utils'
+import { COUNTRY_SHIPPING, PROVINCE_SHIPPING } from '@/lib/stripe-config'
+import { getRates } from './rating'
+import type { ParcelSpec, RateQuote, RateRequest } from './types'
+
+function getServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+const FRESH_TTL_MS = 12 * 60 * 60 * 1000
+const WEIGHT_STEP_KG = 0.1
+const HISTORY_LIMIT = 200
+
+export const ESTIMATE_SERVICE_CODE = 'FALLBACK'
+
+export interface CachedRateResponse {
+  quotes: RateQuote[]
+  source: 'canada-post' | 'cache' | 'estimate'
+  error?: string
+}
+
+interface CacheRow {
+  profile: string
+  quotes: RateQuote[]
+  total_weight: number
+  fetched_at: string
+}
+
+/** Forward sortation area — first three characters of a postal code */
+const fsa = (postal: string) => postal.replace(/\s/g, '').toUpperCase().slice(0, 3)
+
+/** Cache key for a destination — the FSA in Canada, country + ZIP prefix elsewhere */
+function destArea(country: string, postal: string): { key: string; district: string } {
+  if (country === 'CA') {
+    const key = fsa(postal)
+    return { key, district: key.charAt(0) }
+  }
+  return { key: `${country}${fsa(postal)}`, district: country }
+}
+
+/**
+ * Round each parcel's weight up to the next 100 g and describe the set as a
+ * stable key. Quotes are fetched for the rounded weights, so a cached price
+ * never undercharges a heavier cart that maps to the same profile.
+ */
+export function packageProfile(parcels: ParcelSpec[]): { profile: string; parcels: ParcelSpec[] } {
+  const normalized = parcels.map(p => ({
+    weight: Math.max(WEIGHT_STEP_KG, Math.ceil(p.weight / WEIGHT_STEP_KG - 1e-9) * WEIGHT_STEP_KG),
+    dimensions: {
+      length: Math.ceil(p.dimensions.length),
+      width: Math.ceil(p.dimensions.width),
+      height: Math.ceil(p.dimensions.height),
+    },
+  }))
+  const profile = normalized
+    .map(p => `${p.dimensions.length}x${p.dimensions.width}x${p.dimensions.height}@${p.weight.toFixed(1)}`)
+    .sort()
+    .join('+')
+  return { profile, parcels: normalized }
+}
+
+function estimateQuote(cents: number): RateQuote {
+  return {
+    serviceCode: ESTIMATE_SERVICE_CODE,
+    serviceName: 'Standard Shipping (estimated)',
+    priceTotal: cents / 100,
+    priceTotalCents: cents,
+    expectedTransitDays: null,
+    expectedDeliveryDate: null,
+    guaranteedDelivery: false,
+  }
+}
+
+/** Upper quartile — an estimate should rather overcharge a little than undercharge */
+function upperQuartile(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.75))]
+}
+
+/**
+ * Estimate from history for the destination's postal district (first letter,
+ * roughly a province; the whole country outside Canada). Same-profile quotes
+ * win; otherwise other profiles are scaled up by weight. No history at all →
+ * the province or country flat rate.
+ */
+async function regionalEstimate(
+  originFsa: string,
+  country: string,
+  destPostal: string,
+  district: string,
+  profile: string,
+  totalWeight: number,
+): Promise<RateQuote> {
+  const { data: rows } = await getServiceClient()
+    .from('shipping_rate_cache')
+    .select('profile, quotes, total_weight, fetched_at')
+    .eq('origin_fsa', originFsa)
+    .eq('dest_district', district)
+    .order('fetched_at', { ascending: false })
+    .limit(HISTORY_LIMIT)
+
+  const history = ((rows || []) as CacheRow[]).filter(r => Array.isArray(r.quotes) && r.quotes.length > 0)
+  const cheapest = (row: CacheRow) => Math.min(...row.quotes.map(q => q.priceTotalCents))
+
+  const sameProfile = history.filter(r => r.profile === profile)
+  if (sameProfile.length > 0) {
+    return estimateQuote(upperQuartile(sameProfile.map(cheapest)))
+  }
+  if (history.length > 0) {
+    return estimateQuote(Math.round(upperQuartile(
+      history.map(r => cheapest(r) * Math.max(1, totalWeight / Math.max(WEIGHT_STEP_KG, Number(r.total_weight))))
+    )))
+  }
+
+  if (country !== 'CA') {
+    return estimateQuote((COUNTRY_SHIPPING[country] ?? COUNTRY_SHIPPING.INTL).cost)
+  }
+  const province = detectProvinceFromPostal(destPostal)
+  return estimateQuote(PROVINCE_SHIPPING[province || '']?.cost ?? 1499)
+}
+
+/**
+ * Shipping quotes for checkout: fresh cache → live Canada Post → estimate.
+ * Always returns at least one quote unless there's nothing to ship.
+ */
+export async function getCachedRates(req: RateRequest): Promise<CachedRateResponse> {
+  if (req.parcels.length === 0) return { quotes: [], source: 'canada-post', error: 'Nothing to ship' }
+
+  const originFsa = fsa(req.originPostal)
+  const country = (req.destinationCountry || 'CA').toUpperCase()
+  const { key: destFsa, district } = destArea(country, req.destinationPostal)
+  const { profile, parcels } = packageProfile(req.parcels)
+  const totalWeight = parcels.reduce((sum, p) => sum + p.weight, 0)
+  const supabase = getServiceClient()
+
+  const { data: cached, error: cacheError } = await supabase
+    .from('shipping_rate_cache')
+    .select('profile, quotes, total_weight, fetched_at')
+    .eq('origin_fsa', originFsa)
+    .eq('dest_fsa', destFsa)
+    .eq('profile', profile)
+    .maybeSingle()
+  if (cacheError) console.error('[rate-cache] Read failed:', cacheError.message)
+
+  const row = cached as CacheRow | null
+  if (row && Date.now() - new Date(row.fetched_at).getTime() < FRESH_TTL_MS && row.quotes.length > 0) {
+    return { quotes: row.quotes, source: 'cache' }
+  }
+
+  const live = await getRates({ ...req, parcels })
+  if (live.quotes.length > 0) {
+    // Delivery dates go stale overnight — transit days are enough for checkout
+    const quotes = live.quotes.map(q => ({ ...q, expectedDeliveryDate: null }))
+    const { error: writeError } = await supabase
+      .from('shipping_rate_cache')
+      .upsert({
+        origin_fsa: originFsa,
+        dest_fsa: destFsa,
+        dest_district: district,
+        profile,
+        quotes,
+        total_weight: totalWeight,
+        fetched_at: new Date().toISOString(),
+      }, { onConflict: 'origin_fsa,dest_fsa,profile' })
+    if (writeError) console.error('[rate-cache] Write failed:', writeError.message)
+    return { quotes, source: 'canada-post' }
+  }
+
+  console.warn(`[rate-cache] Canada Post gave no quotes for ${originFsa}→${destFsa} (${live.error}) — estimating`)
+
+  // An expired quote for this exact package beats any regional guess
+  if (row && row.quotes.length > 0) {
+    return { quotes: [estimateQuote(Math.min(...row.quotes.map(q => q.priceTotalCents)))], source: 'estimate', error: live.error }
+  }
+
+  const estimate = await regionalEstimate(originFsa, country, req.destinationPostal, district, profile, totalWeight)
+  return { quotes: [estimate], source: 'estimate', error: live.error }
+}
@@ -2,7 +2,7 @@
 
 import { XMLParser } from 'fast-xml-parser'
 import { cpFetch } from './client'
-import type { RateRequest, RateQuote, RateResponse } from './types'
+import type { ParcelSpec, RateRequest, RateQuote, RateResponse } from './types'
 
 const parser = new XMLParser({
   ignoreAttributes: false,
@@ -12,27 +12,97 @@ const parser = new XMLParser({
 
 /** Preferred services for small-business e-commerce */
 const PREFERRED_SERVICES = [
-  'DOM.RP',   // Regular Parcel
-  'DOM.EP',   // Expedited Parcel
-  'DOM.XP',   // Xpresspost
-  'DOM.PC',   // Priority
+  'DOM.RP',      // Regular Parcel
+  'DOM.EP',      // Expedited Parcel
+  'DOM.XP',      // Xpresspost
+  'DOM.PC',      // Priority
+  'USA.TP',      // Tracked Packet – USA
+  'USA.EP',      // Expedited Parcel USA
+  'USA.XP',      // Xpresspost USA
+  'INT.TP',      // Tracked Packet – International
+  'INT.IP.AIR',  // International Parcel Air
+  'INT.XP',      // Xpresspost International
 ]
 
 /**
  * Get shipping rate quotes from Canada Post.
  * Uses contract pricing if CANADAPOST_CONTRACT_ID is set.
+ * Multi-parcel orders are quoted parcel by parcel; a service is offered only
+ * when it can carry every parcel, at the sum of the parcel prices.
  */
 export async function getRates(req: RateRequest): Promise<RateResponse> {
-  const customerNumber = process.env.CANADAPOST_CUSTOMER_NUMBER!
-  const contractId = process.env.CANADAPOST_CONTRACT_ID
-
   // Normalize postal codes: uppercase, no spaces
   const origin = req.originPostal.replace(/\s/g, '').toUpperCase()
-  const dest = req.destinationPostal.replace(/\s/g, '').toUpperCase()
+  const destination = destinationXml(
+    (req.destinationCountry || 'CA').toUpperCase(),
+    req.destinationPostal.replace(/\s/g, '').toUpperCase(),
+  )
+
+  if (req.parcels.length === 0) {
+    return { quotes: [], error: 'Nothing to ship' }
+  }
+
+  const perParcel: RateQuote[][] = []
+  for (const parcel of req.parcels) {
+    const result = await getParcelRates(origin, destination, parcel)
+    if (result.error || result.quotes.length === 0) return result
+    perParcel.push(result.quotes)
+  }
+
+  if (perParcel.length === 1) return { quotes: perParcel[0] }
+  return { quotes: combineQuotes(perParcel) }
+}
+
+/** <destination> body: domestic by postal code, US by ZIP, elsewhere by country */
+function destinationXml(country: string, postal: string): string {
+  if (country === 'CA') {
+    return `    <domestic>
+      <postal-code>${postal}</postal-code>
+    </domestic>`
+  }
+  if (country === 'US') {
+    return `    <united-states>
+      <zip-code>${postal}</zip-code>
+    </united-states>`
+  }
+  return `    <international>
+      <country-code>${country}</country-code>
+    </international>`
+}
+
+function combineQuotes(perParcel: RateQuote[][]): RateQuote[] {
+  const [first, ...rest] = perParcel
+  const combined: RateQuote[] = []
+
+  for (const quote of first) {
+    const matches = rest.map(quotes => quotes.find(q => q.serviceCode === quote.serviceCode))
+    if (matches.some(m => !m)) continue
+    const all = [quote, ...(matches as RateQuote[])]
+
+    const cents = all.reduce((sum, q) => sum + q.priceTotalCents, 0)
+    const transit = all.map(q => q.expectedTransitDays)
+    const dates = all.map(q => q.expectedDeliveryDate)
+    combined.push({
+      serviceCode: quote.serviceCode,
+      serviceName: quote.serviceName,
+      priceTotal: cents / 100,
+      priceTotalCents: cents,
+      expectedTransitDays: transit.every(t => t !== null) ? Math.max(...(transit as number[])) : null,
+      expectedDeliveryDate: dates.every(d => d) ? (dates as string[]).sort().at(-1)! : null,
+      guaranteedDelivery: all.every(q => q.guaranteedDelivery),
+    })
+  }
+
+  return combined.sort((a, b) => a.priceTotal - b.priceTotal)
+}
+
+async function getParcelRates(origin: string, destination: string, parcel: ParcelSpec): Promise<RateResponse> {
+  const customerNumber = process.env.CANADAPOST_CUSTOMER_NUMBER!
+  const contractId = process.env.CANADAPOST_CONTRACT_ID
 
   // Clamp weight: minimum 0.01 kg for Canada Post
-  const weight = Math.max(0.01, req.weight)
-  const { length, width, height } = req.dimensions
+  const weight = Math.max(0.01, parcel.weight)
+  const { length, width, height } = parcel.dimensions
 
   const contractXml = contractId
     ? `  <contract-id>${contractId}</contract-id>\n`
@@ -51,9 +121,7 @@ ${contractXml}  <parcel-characteristics>
   </parcel-characteristics>
   <origin-postal-code>${origin}</origin-postal-code>
   <destination>
-    <domestic>
-      <postal-code>${dest}</postal-code>
-    </domestic>
+${destination}
   </destination>
 </mailing-scenario>`
 
@@ -69,6 +137,7 @@ ${contractXml}  <parcel-characteristics>
       body,
       contentType: 'application/vnd.cpc.ship.rate-v4+xml',
       accept: 'application/vnd.cpc.ship.rate-v4+xml',
+      retries: 2,   // quoting has no side effects
     })
   }
 
@@ -5,7 +5,15 @@
 
 import { XMLParser } from 'fast-xml-parser'
 import { cpFetch } from './client'
-import type { CreateShipmentRequest, CreateShipmentResponse } from './types'
+import type {
+  AuthorizedReturnRequest,
+  AuthorizedReturnResponse,
+  CreateShipmentRequest,
+  CreateShipmentResponse,
+  CustomsDeclaration,
+  ParcelSpec,
+  VoidShipmentResponse,
+} from './types'
 
 const parser = new XMLParser({
   ignoreAttributes: false,
@@ -38,7 +46,7 @@ async function createContractShipment(
 ): Promise<CreateShipmentResponse> {
   const originPostal = req.sender.postalCode.replace(/\s/g, '').toUpperCase()
   const destPostal = req.destination.postalCode.replace(/\s/g, '').toUpperCase()
-  const groupId = `order-${Date.now()}`
+  const groupId = req.groupId || `order-${Date.now()}`
 
   const xml = `<?xml version="1.0" encoding="UTF-8"?>
 <shipment xmlns="http://www.canadapost.ca/ws/shipment-v8">
@@ -61,6 +69,7 @@ ${req.sender.company ? `      <company>${escapeXml(req.sender.company)}</company
     <destination>
       <name>${escapeXml(req.destination.name)}</name>
 ${req.destination.company ? `      <company>${escapeXml(req.destination.company)}</company>` : ''}
+${req.destination.phone ? `      <client-voice-number>${escapeXml(req.destination.phone)}</client-voice-number>` : ''}
       <address-details>
         <address-line-1>${escapeXml(req.destination.addressLine1)}</address-line-1>
 ${req.destination.addressLine2 ? `        <address-line-2>${escapeXml(req.destination.addressLine2)}</address-line-2>` : ''}
@@ -70,11 +79,7 @@ ${req.destination.addressLine2 ? `        <address-line-2>${escapeXml(req.destin
         <postal-zip-code>${destPostal}</postal-zip-code>
       </address-details>
     </destination>
-    <options>
-      <option>
-        <option-code>DC</option-code>
-      </option>
-    </options>
+${optionsXml(req.destination.country || 'CA')}
     <parcel-characteristics>
       <weight>${Math.max(0.01, req.weight).toFixed(3)}</weight>
       <dimensions>
@@ -96,7 +101,9 @@ ${req.customerEmail ? `    <notification>
     </preferences>
 ${req.orderNumber ? `    <references>
       <customer-ref-1>${escapeXml(req.orderNumber)}</customer-ref-1>
+${req.parcelReference ? `      <customer-ref-2>${escapeXml(req.parcelReference)}</customer-ref-2>` : ''}
     </references>` : ''}
+${req.customs ? customsXml(req.customs) : ''}
     <settlement-info>
       <contract-id>${contractId}</contract-id>
       <intended-method-of-payment>CreditCard</intended-method-of-payment>
@@ -155,6 +162,7 @@ ${req.sender.company ? `      <company>${escapeXml(req.sender.company)}</company
     <destination>
       <name>${escapeXml(req.destination.name)}</name>
 ${req.destination.company ? `      <company>${escapeXml(req.destination.company)}</company>` : ''}
+${req.destination.phone ? `      <client-voice-number>${escapeXml(req.destination.phone)}</client-voice-number>` : ''}
       <address-details>
         <address-line-1>${escapeXml(req.destination.addressLine1)}</address-line-1>
 ${req.destination.addressLine2 ? `        <address-line-2>${escapeXml(req.destination.addressLine2)}</address-line-2>` : ''}
@@ -164,11 +172,7 @@ ${req.destination.addressLine2 ? `        <address-line-2>${escapeXml(req.destin
         <postal-zip-code>${destPostal}</postal-zip-code>
       </address-details>
     </destination>
-    <options>
-      <option>
-        <option-code>DC</option-code>
-      </option>
-    </options>
+${optionsXml(req.destination.country || 'CA')}
     <parcel-characteristics>
       <weight>${Math.max(0.01, req.weight).toFixed(3)}</weight>
       <dimensions>
@@ -190,7 +194,9 @@ ${req.customerEmail ? `    <notification>
     </preferences>
 ${req.orderNumber ? `    <references>
       <customer-ref-1>${escapeXml(req.orderNumber)}</customer-ref-1>
+${req.parcelReference ? `      <customer-ref-2>${escapeXml(req.parcelReference)}</customer-ref-2>` : ''}
     </references>` : ''}
+${req.customs ? customsXml(req.customs) : ''}
   </delivery-spec>
 </non-contract-shipment>`
 
@@ -210,6 +216,75 @@ ${req.orderNumber ? `    <references>
   return parseShipmentResponse(text, 'non-contract-shipment-info')
 }
 
+// ============================================
+// US / INTERNATIONAL — options and customs
+// ============================================
+
+// Delivery confirmation is domestic only; parcels leaving Canada need a
+// non-delivery instruction instead (return to sender at our expense)
+function optionsXml(country: string): string {
+  const code = country === 'CA' ? 'DC' : 'RASE'
+  return `    <options>
+      <option>
+        <option-code>${code}</option-code>
+      </option>
+    </options>`
+}
+
+function customsXml(customs: CustomsDeclaration): string {
+  const items = customs.items.map(item => `        <item>
+          <customs-number-of-units>${item.quantity}</customs-number-of-units>
+          <customs-description>${escapeXml(item.description.slice(0, 45))}</customs-description>
+${item.sku ? `          <sku>${escapeXml(item.sku.slice(0, 15))}</sku>` : ''}
+          <hs-tariff-code>${escapeXml(item.hsCode)}</hs-tariff-code>
+          <unit-weight>${Math.max(0.001, item.unitWeight).toFixed(3)}</unit-weight>
+          <customs-value-per-unit>${item.unitValue.toFixed(2)}</customs-value-per-unit>
+          <country-of-origin>${item.originCountry}</country-of-origin>
+        </item>`).join('\n')
+
+  return `    <customs>
+      <currency>${customs.currency}</currency>
+      <reason-for-export>${customs.reasonForExport}</reason-for-export>
+      <sku-list>
+${items}
+      </sku-list>
+    </customs>`
+}
+
+/**
+ * Create one shipment per parcel. Contract shipments go into today's group
+ * and are transmitted together when the admin closes the day
+ * (see lib/canada-post/manifest.ts). Stops at the first failure and returns
+ * what was created.
+ */
+export async function createShipments(
+  req: Omit<CreateShipmentRequest, 'weight' | 'dimensions' | 'parcelReference' | 'groupId' | 'customs'>,
+  parcels: Array<ParcelSpec & { customs?: CustomsDeclaration }>,
+): Promise<{ shipments: CreateShipmentResponse[]; error?: string }> {
+  const groupId = dayGroupId()
+  const shipments: CreateShipmentResponse[] = []
+
+  for (let i = 0; i < parcels.length; i++) {
+    const result = await createShipment({
+      ...req,
+      weight: parcels[i].weight,
+      dimensions: parcels[i].dimensions,
+      customs: parcels[i].customs,
+      parcelReference: parcels.length > 1 ? `Parcel ${i + 1} of ${parcels.length}` : undefined,
+      groupId,
+    })
+    if (result.error) {
+      return {
+        shipments,
+        error: parcels.length > 1 ? `Parcel ${i + 1} of ${parcels.length}: ${result.error}` : result.error,
+      }
+    }
+    shipments.push(result)
+  }
+
+  return { shipments }
+}
+
 /**
  * Download the shipping label PDF as a Buffer.
  */
@@ -238,11 +313,12 @@ export async function downloadLabel(labelUrl: string): Promise<{ pdf: Buffer; er
 }
 
 /**
- * Transmit shipments to finalize them and generate a manifest.
+ * Transmit shipments to finalize them and generate manifests.
  * Required for contract shipments — without this, tracking won't activate
  * and labels show "MANIFEST REQ". See docs/canada-post-use-cases.md
+ * Canada Post may split one transmit into several manifests.
  */
-export async function transmitShipments(groupIds: string[]): Promise<{ manifestUrl: string; error?: string }> {
+export async function transmitShipments(groupIds: string[]): Promise<{ manifestUrls: string[]; error?: string }> {
   const customerNumber = process.env.CANADAPOST_CUSTOMER_NUMBER!
 
   const groupElements = groupIds.map(id => `    <group-id>${escapeXml(id)}</group-id>`).join('\n')
@@ -280,7 +356,7 @@ ${groupElements}
   if (status !== 200) {
     console.error(`[Canada Post] Transmit API ${status}:`, text)
     const errorMsg = parseErrorMessage(text) || `Transmit failed (${status})`
-    return { manifestUrl: '', error: errorMsg }
+    return { manifestUrls: [], error: errorMsg }
   }
 
   try {
@@ -288,25 +364,277 @@ ${groupElements}
     const manifests = parsed.manifests
     if (!manifests) {
       console.log('[Canada Post] Transmit response:', text)
-      return { manifestUrl: '', error: 'Unexpected transmit response format' }
+      return { manifestUrls: [], error: 'Unexpected transmit response format' }
     }
 
     // Extract manifest links
     const rawLinks = manifests.link || manifests.links?.link
     const linksArr = Array.isArray(rawLinks) ? rawLinks : rawLinks ? [rawLinks] : []
-    const manifestLink = linksArr.find((l: any) => l['@_rel'] === 'manifest')
 
     return {
-      manifestUrl: manifestLink?.['@_href'] || '',
+      manifestUrls: linksArr
+        .filter((l: any) => l['@_rel'] === 'manifest' && l['@_href'])
+        .map((l: any) => String(l['@_href'])),
     }
   } catch (err) {
     console.error('[Canada Post] Transmit parse error:', err)
-    return { manifestUrl: '', error: 'Failed to parse transmit response' }
+    return { manifestUrls: [], error: 'Failed to parse transmit response' }
+  }
+}
+
+// ============================================
+// EXISTING SHIPMENTS — details, label reprint, void
+// ============================================
+
+/** Contract and non-contract shipments live under different paths and media types */
+function shipmentEndpoint(shipmentId: string) {
+  const customerNumber = process.env.CANADAPOST_CUSTOMER_NUMBER!
+  const id = encodeURIComponent(shipmentId)
+  return process.env.CANADAPOST_CONTRACT_ID
+    ? {
+        path: `/rs/${customerNumber}/${customerNumber}/shipment/${id}`,
+        mediaType: 'application/vnd.cpc.shipment-v8+xml',
+        root: 'shipment-info',
+        refundXml: (email: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<shipment-refund-request xmlns="http://www.canadapost.ca/ws/shipment-v8">
+  <email>${escapeXml(email)}</email>
+</shipment-refund-request>`,
+        refundRoot: 'shipment-refund-request-info',
+      }
+    : {
+        path: `/rs/${customerNumber}/ncshipment/${id}`,
+        mediaType: 'application/vnd.cpc.ncshipment-v4+xml',
+        root: 'non-contract-shipment-info',
+        refundXml: (email: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<non-contract-shipment-refund-request xmlns="http://www.canadapost.ca/ws/ncshipment-v4">
+  <email>${escapeXml(email)}</email>
+</non-contract-shipment-refund-request>`,
+        refundRoot: 'non-contract-shipment-refund-request-info',
+      }
+}
+
+/**
+ * Fetch an existing shipment — tracking pin and fresh artifact links.
+ */
+export async function getShipmentDetails(shipmentId: string): Promise<CreateShipmentResponse> {
+  const endpoint = shipmentEndpoint(shipmentId)
+  const { status, text } = await cpFetch(endpoint.path, {
+    method: 'GET',
+    accept: endpoint.mediaType,
+  })
+
+  if (status !== 200) {
+    console.error(`[Canada Post] Get Shipment API ${status}:`, text)
+    const errorMsg = parseErrorMessage(text) || `Shipment lookup failed (${status})`
+    return { shipmentId, trackingPin: '', labelUrl: '', links: [], error: errorMsg }
+  }
+
+  const result = parseShipmentResponse(text, endpoint.root)
+  if (!result.shipmentId) result.shipmentId = shipmentId
+  return result
+}
+
+/**
+ * Find a contract shipment by tracking pin — for orders labelled before
+ * shipment ids were stored. Non-contract shipments can't be searched by pin.
+ */
+export async function findShipmentIdByPin(trackingPin: string): Promise<string | null> {
+  const customerNumber = process.env.CANADAPOST_CUSTOMER_NUMBER!
+  if (!process.env.CANADAPOST_CONTRACT_ID) return null
+
+  const { status, text } = await cpFetch(
+    `/rs/${customerNumber}/${customerNumber}/shipment?trackingPIN=${encodeURIComponent(trackingPin)}`,
+    { method: 'GET', accept: 'application/vnd.cpc.shipment-v8+xml' }
+  )
+  if (status !== 200) {
+    console.error(`[Canada Post] Shipment search ${status}:`, text)
+    return null
+  }
+
+  try {
+    const rawLinks = parser.parse(text).shipments?.link
+    const linksArr = Array.isArray(rawLinks) ? rawLinks : rawLinks ? [rawLinks] : []
+    const href: string | undefined = linksArr.find((l: any) => l['@_rel'] === 'shipment')?.['@_href']
+    return href ? href.replace(/\/$/, '').split('/').pop() || null : null
+  } catch (err) {
+    console.error('[Canada Post] Shipment search parse error:', err)
+    return null
+  }
+}
+
+/**
+ * Download the label of an existing shipment again (label links are looked
+ * up fresh — stored artifact URLs can expire).
+ */
+export async function redownloadLabel(shipmentId: string): Promise<{ pdf: Buffer; trackingPin: string; error?: string }> {
+  const details = await getShipmentDetails(shipmentId)
+  if (details.error) return { pdf: Buffer.alloc(0), trackingPin: '', error: details.error }
+  if (!details.labelUrl) return { pdf: Buffer.alloc(0), trackingPin: details.trackingPin, error: 'Shipment has no label' }
+
+  const { pdf, error } = await downloadLabel(details.labelUrl)
+  return { pdf, trackingPin: details.trackingPin, error }
+}
+
+/**
+ * Cancel a shipment. Contract shipments that haven't been transmitted are
+ * deleted outright; transmitted and non-contract shipments (already paid)
+ * get a refund request instead, sent to `refundEmail`.
+ */
+export async function voidShipment(shipmentId: string, refundEmail: string): Promise<VoidShipmentResponse> {
+  const endpoint = shipmentEndpoint(shipmentId)
+
+  if (process.env.CANADAPOST_CONTRACT_ID) {
+    const { status, text } = await cpFetch(endpoint.path, {
+      method: 'DELETE',
+      accept: endpoint.mediaType,
+    })
+    if (status === 204 || status === 200) return { method: 'voided' }
+    // Transmitted shipments can't be deleted — fall through to a refund request
+    console.warn(`[Canada Post] Void API ${status}, requesting refund instead:`, text)
+  }
+
+  const { status, text } = await cpFetch(`${endpoint.path}/refund`, {
+    method: 'POST',
+    body: endpoint.refundXml(refundEmail),
+    contentType: endpoint.mediaType,
+    accept: endpoint.mediaType,
+  })
+
+  if (status !== 200) {
+    console.error(`[Canada Post] Refund API ${status}:`, text)
+    const errorMsg = parseErrorMessage(text) || `Void failed (${status})`
+    return { method: null, error: errorMsg }
+  }
+
+  try {
+    const info = parser.parse(text)[endpoint.refundRoot]
+    return {
+      method: 'refund_requested',
+      refundTicketId: info?.['service-ticket-id'] ? String(info['service-ticket-id']) : undefined,
+    }
+  } catch {
+    return { method: 'refund_requested' }
+  }
+}
+
+// ============================================
+// AUTHORIZED RETURN (contract only)
+// A prepaid return label the customer prints — billed only when it's used.
+// ============================================
+
+/**
+ * Create an authorized return label for a customer return.
+ * Canada Post only offers these under a contract, for Canadian returners.
+ */
+export async function createAuthorizedReturn(req: AuthorizedReturnRequest): Promise<AuthorizedReturnResponse> {
+  const customerNumber = process.env.CANADAPOST_CUSTOMER_NUMBER!
+  const contractId = process.env.CANADAPOST_CONTRACT_ID
+
+  if (!contractId) {
+    return { trackingPin: '', labelUrl: '', error: 'Return labels need a Canada Post contract' }
+  }
+
+  const returnerPostal = req.returner.postalCode.replace(/\s/g, '').toUpperCase()
+  const receiverPostal = req.receiver.postalCode.replace(/\s/g, '').toUpperCase()
+
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<authorized-return xmlns="http://www.canadapost.ca/ws/authreturn-v2">
+  <service-code>${req.serviceCode}</service-code>
+  <returner>
+    <name>${escapeXml(req.returner.name)}</name>
+${req.returner.company ? `    <company>${escapeXml(req.returner.company)}</company>` : ''}
+    <domestic-address>
+      <address-line-1>${escapeXml(req.returner.addressLine1)}</address-line-1>
+${req.returner.addressLine2 ? `      <address-line-2>${escapeXml(req.returner.addressLine2)}</address-line-2>` : ''}
+      <city>${escapeXml(req.returner.city)}</city>
+      <province>${req.returner.province}</province>
+      <postal-code>${returnerPostal}</postal-code>
+    </domestic-address>
+  </returner>
+  <receiver>
+    <name>${escapeXml(req.receiver.name)}</name>
+${req.receiver.company ? `    <company>${escapeXml(req.receiver.company)}</company>` : ''}
+${req.receiverEmail ? `    <email>${escapeXml(req.receiverEmail)}</email>` : ''}
+    <domestic-address>
+      <address-line-1>${escapeXml(req.receiver.addressLine1)}</address-line-1>
+      <city>${escapeXml(req.receiver.city)}</city>
+      <province>${req.receiver.province}</province>
+      <postal-code>${receiverPostal}</postal-code>
+    </domestic-address>
+  </receiver>
+  <parcel-characteristics>
+    <weight>${Math.max(0.01, req.weight).toFixed(3)}</weight>
+    <dimensions>
+      <length>${req.dimensions.length.toFixed(1)}</length>
+      <width>${req.dimensions.width.toFixed(1)}</width>
+      <height>${req.dimensions.height.toFixed(1)}</height>
+    </dimensions>
+  </parcel-characteristics>
+  <print-preferences>
+    <output-format>8.5x11</output-format>
+    <encoding>PDF</encoding>
+  </print-preferences>
+  <settlement-info>
+    <contract-id>${contractId}</contract-id>
+  </settlement-info>
+${req.reference ? `  <references>
+    <customer-ref-1>${escapeXml(req.reference)}</customer-ref-1>
+${req.orderNumber ? `    <customer-ref-2>${escapeXml(req.orderNumber)}</customer-ref-2>` : ''}
+  </references>` : ''}
+${req.receiverEmail ? `  <notifications>
+    <notification>
+      <email>${escapeXml(req.receiverEmail)}</email>
+      <on-shipment>true</on-shipment>
+      <on-exception>true</on-exception>
+      <on-delivery>true</on-delivery>
+    </notification>
+  </notifications>` : ''}
+</authorized-return>`
+
+  const { status, text } = await cpFetch(
+    `/rs/${customerNumber}/${customerNumber}/authorizedreturn`,
+    {
+      method: 'POST',
+      body: xml,
+      contentType: 'application/vnd.cpc.authreturn-v2+xml',
+      accept: 'application/vnd.cpc.authreturn-v2+xml',
+    }
+  )
+
+  if (status !== 200) {
+    console.error(`[Canada Post] Authorized Return API ${status}:`, text)
+    const errorMsg = parseErrorMessage(text) || `Return label creation failed (${status})`
+    return { trackingPin: '', labelUrl: '', error: errorMsg }
+  }
+
+  try {
+    const info = parser.parse(text)['authorized-return-info']
+    const rawLinks = info?.links?.link
+    const linksArr = Array.isArray(rawLinks) ? rawLinks : rawLinks ? [rawLinks] : []
+    const label = linksArr.find((l: any) => l['@_rel'] === 'returnLabel')
+
+    return {
+      trackingPin: String(info?.['tracking-pin'] || ''),
+      labelUrl: label?.['@_href'] || '',
+    }
+  } catch (err) {
+    console.error('[Canada Post] Authorized return parse error:', err)
+    return { trackingPin: '', labelUrl: '', error: 'Failed to parse return response' }
   }
 }
 
 // ---- Helpers ----
 
+/** Shop calendar day (YYYY-MM-DD, Eastern time) */
+export function shippingDay(date: Date = new Date()): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: 'America/Toronto' }).format(date)
+}
+
+/** Contract group for shipments created today — one manifest per day */
+export function dayGroupId(date: Date = new Date()): string {
+  return `day-${shippingDay(date).replace(/-/g, '')}`
+}
+
 function escapeXml(str: string): string {
   return str
     .replace(/&/g, '&amp;')
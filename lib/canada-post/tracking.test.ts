@@ -0,0 +1,49 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { parseTrackingDetail } from './tracking'
+import { deliveredAtFrom } from '@/lib/orders/tracking-sync'
+
+const delivered = readFileSync(join(__dirname, '__fixtures__/tracking-detail-delivered.xml'), 'utf8')
+
+// The same parcel the day before, still on its way
+const inTransit = delivered.replace(/<occurrence>\s*<event-identifier>(0174|1496|0500)<[\s\S]*?<\/occurrence>\s*/g, '')
+
+test('parses the events of a tracking-detail response, newest first', () => {
+  const result = parseTrackingDetail(delivered, '7023210039414604', 50)
+  assert.equal(result.found, true)
+  assert.equal(result.serviceName, 'Expedited Parcels')
+  assert.equal(result.expectedDeliveryDate, '2026-10-14')
+  assert.equal(result.events?.length, 5)
+  assert.equal(result.events?.[0].identifier, '0174')
+  assert.equal(result.events?.[1].location, 'OTTAWA, ON')
+  assert.equal(result.latestStatus, 'Delivery confirmation sent to sender')
+})
+
+test('takes the delivery date from the delivered event', () => {
+  const result = parseTrackingDetail(delivered, '7023210039414604', 50)
+  assert.equal(result.actualDeliveryDate, '2026-10-14')
+  assert.equal(deliveredAtFrom(result), '2026-10-14T12:00:00.000Z')
+})
+
+test('finds the delivered event even when it falls outside the returned events', () => {
+  const result = parseTrackingDetail(delivered, '7023210039414604', 1)
+  assert.equal(result.events?.length, 1)
+  assert.equal(result.actualDeliveryDate, '2026-10-14')
+})
+
+test('is not delivered while the parcel is in transit', () => {
+  const result = parseTrackingDetail(inTransit, '7023210039414604', 50)
+  assert.equal(result.found, true)
+  assert.equal(result.latestStatus, 'Item processed')
+  assert.equal(result.actualDeliveryDate, null)
+  assert.equal(deliveredAtFrom(result), null)
+})
+
+test('reports Canada Post error messages as not found', () => {
+  const xml = '<?xml version="1.0" encoding="UTF-8"?><messages xmlns="http://www.canadapost.ca/ws/messages"><message><code>004</code><description>No Pin History</description></message></messages>'
+  const result = parseTrackingDetail(xml, '1234567890123456')
+  assert.equal(result.found, false)
+  assert.equal(result.error, 'No Pin History')
+})
@@ -7,9 +7,20 @@ const parser = new XMLParser({
   ignoreAttributes: false,
   attributeNamePrefix: '@_',
   removeNSPrefix: true,
+  parseTagValue: false, // event identifiers like '0174' must keep their leading zero
 })
 
+// Canada Post event identifiers that mean the parcel reached the recipient
+// (delivered, left in a safe place, community mailbox or parcel locker).
+// The /detail response has no actual-delivery-date — that's a /summary field.
+const DELIVERED_EVENTS = new Set([
+  '1408', '1409', '1421', '1422', '1423', '1424', '1425', '1426', '1427',
+  '1428', '1429', '1430', '1431', '1432', '1433', '1434', '1441', '1442',
+  '1496', '1497', '1498', '1499',
+])
+
 export interface TrackingEvent {
+  identifier: string     // Canada Post event code
   date: string           // YYYY-MM-DD
   time: string           // HH:MM:SS
   timeZone: string
@@ -22,6 +33,7 @@ export interface TrackingResult {
   pin: string
   serviceName?: string
   expectedDeliveryDate?: string | null
+  actualDeliveryDate?: string | null   // YYYY-MM-DD of the delivered event, once there is one
   latestStatus?: string
   latestLocation?: string
   latestDate?: string
@@ -31,9 +43,10 @@ export interface TrackingResult {
 
 /**
  * Fetch tracking details from Canada Post for a given tracking PIN.
- * Returns parsed tracking info with event history.
+ * Returns parsed tracking info with event history (newest first, capped at
+ * `maxEvents` — the chat bot only needs the last few).
  */
-export async function getTracking(trackingPin: string): Promise<TrackingResult> {
+export async function getTracking(trackingPin: string, maxEvents = 5): Promise<TrackingResult> {
   try {
     const cleanPin = trackingPin.replace(/\s/g, '')
 
@@ -50,51 +63,60 @@ export async function getTracking(trackingPin: string): Promise<TrackingResult>
       return { found: false, pin: cleanPin, error: `Canada Post returned status ${status}` }
     }
 
-    // Check for error messages in response
-    const parsed = parser.parse(text)
-    if (parsed.messages?.message) {
-      const msgs = Array.isArray(parsed.messages.message)
-        ? parsed.messages.message
-        : [parsed.messages.message]
-      const desc = msgs.map((m: any) => m.description || '').join('; ')
-      return { found: false, pin: cleanPin, error: desc || 'No tracking results found' }
-    }
-
-    const detail = parsed['tracking-detail']
-    if (!detail) {
-      return { found: false, pin: cleanPin, error: 'No tracking data in response' }
-    }
-
-    // Parse events
-    const rawEvents = detail['significant-events']?.occurrence
-    const eventsArr = Array.isArray(rawEvents) ? rawEvents : rawEvents ? [rawEvents] : []
-
-    const events: TrackingEvent[] = eventsArr.map((e: any) => ({
-      date: String(e['event-date'] || ''),
-      time: String(e['event-time'] || ''),
-      timeZone: String(e['event-time-zone'] || ''),
-      description: String(e['event-description'] || ''),
-      location: [e['event-site'], e['event-province']].filter(Boolean).join(', '),
-    }))
-
-    // Latest event is first in the array
-    const latest = events[0]
-
-    // Use changed expected date if available, otherwise original
-    const expectedDate = detail['changed-expected-date'] || detail['expected-delivery-date'] || null
-
-    return {
-      found: true,
-      pin: cleanPin,
-      serviceName: detail['service-name'] || undefined,
-      expectedDeliveryDate: expectedDate ? String(expectedDate) : null,
-      latestStatus: latest?.description || undefined,
-      latestLocation: latest?.location || undefined,
-      latestDate: latest ? `${latest.date} ${latest.time} ${latest.timeZone}` : undefined,
-      events: events.slice(0, 5), // Last 5 events for the bot
-    }
+    return parseTrackingDetail(text, cleanPin, maxEvents)
   } catch (err) {
     console.error('[Canada Post] Tracking error:', err)
     return { found: false, pin: trackingPin, error: 'Could not fetch tracking info at this time.' }
   }
 }
+
+/** Parse a track-v2 tracking-detail response (pure — kept apart from the fetch for tests) */
+export function parseTrackingDetail(xml: string, pin: string, maxEvents = 5): TrackingResult {
+  // Check for error messages in response
+  const parsed = parser.parse(xml)
+  if (parsed.messages?.message) {
+    const msgs = Array.isArray(parsed.messages.message)
+      ? parsed.messages.message
+      : [parsed.messages.message]
+    const desc = msgs.map((m: any) => m.description || '').join('; ')
+    return { found: false, pin, error: desc || 'No tracking results found' }
+  }
+
+  const detail = parsed['tracking-detail']
+  if (!detail) {
+    return { found: false, pin, error: 'No tracking data in response' }
+  }
+
+  // Parse events
+  const rawEvents = detail['significant-events']?.occurrence
+  const eventsArr = Array.isArray(rawEvents) ? rawEvents : rawEvents ? [rawEvents] : []
+
+  const events: TrackingEvent[] = eventsArr.map((e: any) => ({
+    identifier: String(e['event-identifier'] || ''),
+    date: String(e['event-date'] || ''),
+    time: String(e['event-time'] || ''),
+    timeZone: String(e['event-time-zone'] || ''),
+    description: String(e['event-description'] || ''),
+    location: [e['event-site'], e['event-province']].filter(Boolean).join(', '),
+  }))
+
+  // Latest event is first in the array
+  const latest = events[0]
+  // Searched before the events are capped — the delivery scan may not be the latest
+  const delivered = events.find(e => DELIVERED_EVENTS.has(e.identifier))
+
+  // Use changed expected date if available, otherwise original
+  const expectedDate = detail['changed-expected-date'] || detail['expected-delivery-date'] || null
+
+  return {
+    found: true,
+    pin,
+    serviceName: detail['service-name'] || undefined,
+    expectedDeliveryDate: expectedDate ? String(expectedDate) : null,
+    actualDeliveryDate: delivered?.date || null,
+    latestStatus: latest?.description || undefined,
+    latestLocation: latest?.location || undefined,
+    latestDate: latest ? `${latest.date} ${latest.time} ${latest.timeZone}` : undefined,
+    events: events.slice(0, maxEvents),
+  }
+}
@@ -1,8 +1,6 @@
 /** Canada Post API types for Rating & Shipping */
 
-export interface RateRequest {
-  originPostal: string
-  destinationPostal: string
+export interface ParcelSpec {
   weight: number        // kg
   dimensions: {
     length: number      // cm
@@ -11,6 +9,13 @@ export interface RateRequest {
   }
 }
 
+export interface RateRequest {
+  originPostal: string
+  destinationPostal: string      // postal code, or ZIP for the US
+  destinationCountry?: string    // ISO 3166-1 alpha-2, defaults to CA
+  parcels: ParcelSpec[] // one quote per parcel, summed per service
+}
+
 export interface RateQuote {
   serviceCode: string
   serviceName: string
@@ -32,6 +37,8 @@ export interface ProductShippingInfo {
   length: number  // cm
   width: number   // cm
   height: number  // cm
+  hsCode: string         // Harmonized System tariff code, for customs
+  originCountry: string  // ISO country of manufacture, for customs
 }
 
 // ============================================
@@ -58,6 +65,26 @@ export interface CreateShipmentRequest {
   dimensions: { length: number; width: number; height: number } // cm
   customerEmail?: string       // for Canada Post email notifications
   orderNumber?: string         // reference stored with shipment
+  parcelReference?: string     // e.g. "Parcel 2 of 3" — second reference on the label
+  groupId?: string             // contract only — parcels of one order share a group
+  customs?: CustomsDeclaration // required when the destination is outside Canada
+}
+
+export interface CustomsItem {
+  description: string          // max 45 characters on the declaration
+  sku?: string
+  quantity: number
+  unitWeight: number           // kg
+  unitValue: number            // CAD dollars, what the customer paid
+  hsCode: string
+  originCountry: string        // ISO country of manufacture
+}
+
+/** Commercial customs declaration for a US or international parcel */
+export interface CustomsDeclaration {
+  currency: 'CAD'
+  reasonForExport: 'SOG'       // sale of goods
+  items: CustomsItem[]
 }
 
 export interface CreateShipmentResponse {
@@ -68,3 +95,48 @@ export interface CreateShipmentResponse {
   links: { rel: string; href: string; mediaType: string }[]
   error?: string
 }
+
+export interface VoidShipmentResponse {
+  // voided: deleted before transmit, never billed
+  // refund_requested: already transmitted/paid — Canada Post refunds it if unused
+  method: 'voided' | 'refund_requested' | null
+  refundTicketId?: string
+  error?: string
+}
+
+export interface AuthorizedReturnRequest {
+  serviceCode: string          // e.g. DOM.EP
+  returner: ShipmentAddress    // the customer sending it back (domestic only)
+  receiver: ShipmentAddress    // us
+  weight: number               // kg
+  dimensions: { length: number; width: number; height: number } // cm
+  receiverEmail?: string       // Canada Post notifies us as the parcel moves
+  reference?: string           // RMA number — printed on the label
+  orderNumber?: string
+}
+
+export interface AuthorizedReturnResponse {
+  trackingPin: string
+  labelUrl: string             // URL to download PDF return label
+  error?: string
+}
+
+/** One Canada Post shipment of an order — stored in app_shop_orders.shipments */
+export interface OrderShipment {
+  trackingPin: string
+  shipmentId: string
+  groupId?: string | null      // contract group, transmitted at end of day
+  labelUrl: string | null
+  packaging: string | null     // lib/canada-post/packing.ts PACKAGING id
+  weight: number               // kg
+  dimensions: { length: number; width: number; height: number } // cm
+  items: { productKey: string; quantity: number }[]
+  deliveredAt?: string | null  // set by the tracking poller once this parcel is delivered
+}
+
+/** A shipment taken off an order — stored in app_shop_orders.voided_shipments */
+export interface VoidedShipment extends OrderShipment {
+  voidedAt: string
+  method: 'voided' | 'refund_requested'
+  refundTicketId: string | null
+}
@@ -0,0 +1,121 @@
+import { STRIPE_PRODUCTS, SKU_PREFIX_TO_PRODUCT, PRODUCT_SHIPPING_INFO, type ProductKey } from '@/lib/stripe-config'
+import type { ProductShippingInfo } from '@/lib/canada-post/types'
+
+// ============================================
+// PRODUCT TYPE CATALOG (pure — safe in the browser)
+// A product type owns what every product of that kind shares: price, SKU
+// prefix, sizes, parcel size and customs data, and its Stripe price. The
+// live catalog is the product_types table (lib/catalog/product-types);
+// SEED_CATALOG is built from STRIPE_PRODUCTS and is only used when the table
+// can't be read, and in the browser for promo previews.
+// ============================================
+
+export interface ProductType {
+  key: string                    // e.g. 'cotton-tee' — app_shop_products.product_type
+  name: string
+  category: string               // apparel, sticker… — promo codes target these
+  price: number                  // cents (CAD), used when a product has no base_price
+  sku: string                    // Stripe/product SKU for the bare type, e.g. 'OS-CTN-TEE'
+  sku_prefix: string             // first SKU segment of its products, e.g. 'CTEE' in 'CTEE-BLK-M'
+  sizes: string[]
+  stripe_product_id: string | null
+  stripe_price_id: string | null   // kept in step by lib/catalog/stripe-sync
+  stripe_price_amount: number | null // cents that Price charges — only used when it equals `price`
+  weight: number                 // kg
+  length: number                 // cm
+  width: number                  // cm
+  height: number                 // cm
+  hs_code: string
+  origin_country: string
+  active: boolean
+  sort_order: number
+}
+
+export interface ProductCatalog {
+  types: ProductType[]
+  /** Type by key (active or not) */
+  get: (key: string | null | undefined) => ProductType | null
+  /** Type for a product SKU by its prefix, or a bare type's own SKU (e.g. 'OS-CTN-TEE') */
+  forSku: (sku: string | null | undefined) => ProductType | null
+  /** A product row's type: its product_type when known, else its SKU prefix */
+  resolve: (productType: string | null | undefined, sku: string | null | undefined) => ProductType | null
+  /** Parcel size and customs data for a product type or SKU */
+  shippingInfo: (productKey: string) => ProductShippingInfo | null
+}
+
+export function buildCatalog(types: ProductType[]): ProductCatalog {
+  const byKey = new Map(types.map(t => [t.key, t]))
+  const byPrefix = new Map(types.filter(t => t.sku_prefix).map(t => [t.sku_prefix.toUpperCase(), t]))
+  const bySku = new Map(types.filter(t => t.sku).map(t => [t.sku.toUpperCase(), t]))
+
+  const get = (key: string | null | undefined) => (key && byKey.get(key)) || null
+  const forSku = (sku: string | null | undefined) =>
+    (sku && (bySku.get(sku.toUpperCase()) ?? byPrefix.get(sku.split('-')[0].toUpperCase()))) || null
+  const resolve = (productType: string | null | undefined, sku: string | null | undefined) =>
+    get(productType) ?? forSku(sku)
+
+  return {
+    types,
+    get,
+    forSku,
+    resolve,
+    shippingInfo: (productKey) => {
+      const type = get(productKey) ?? forSku(productKey)
+      if (!type) return null
+      return {
+        weight: type.weight,
+        length: type.length,
+        width: type.width,
+        height: type.height,
+        hsCode: type.hs_code,
+        originCountry: type.origin_country,
+      }
+    },
+  }
+}
+
+/**
+ * The Stripe Price that charges exactly `price` cents: the product's own when
+ * it's in step, else its type's. Null means checkout sends the amount inline.
+ */
+export function chargeablePriceId(
+  product: { stripe_price_id?: string | null; stripe_price_amount?: number | null } | null,
+  type: ProductType | null,
+  price: number,
+): string | null {
+  if (product?.stripe_price_id && product.stripe_price_amount === price) return product.stripe_price_id
+  if (type?.stripe_price_id && type.stripe_price_amount === price) return type.stripe_price_id
+  return null
+}
+
+const PREFIX_BY_KEY = Object.fromEntries(
+  Object.entries(SKU_PREFIX_TO_PRODUCT).map(([prefix, key]) => [key, prefix])
+) as Partial<Record<ProductKey, string>>
+
+/** The hardcoded types, as first seeded into product_types */
+export const SEED_CATALOG = buildCatalog(
+  (Object.keys(STRIPE_PRODUCTS) as ProductKey[]).map((key, index): ProductType => {
+    const p = STRIPE_PRODUCTS[key]
+    const ship = PRODUCT_SHIPPING_INFO[key]
+    return {
+      key,
+      name: p.name,
+      category: p.category,
+      price: p.price,
+      sku: p.sku,
+      sku_prefix: PREFIX_BY_KEY[key] || '',
+      sizes: [...p.sizes],
+      stripe_product_id: null,
+      stripe_price_id: p.priceId,
+      stripe_price_amount: p.price,
+      weight: ship.weight,
+      length: ship.length,
+      width: ship.width,
+      height: ship.height,
+      hs_code: ship.hsCode,
+      origin_country: ship.originCountry,
+      active: true,
+      sort_order: index,
+    }
+  })
+)
@@ -0,0 +1,135 @@
+import { createClient } from '@supabase/supabase-js'
+import { dropState, mergeSchedules, type DropSchedule, type DropState } from './schedule'
+
+// ============================================
+// DROP CALENDAR (server-only)
+// Reads and writes the publish windows planned in /admin/drops. The
+// storefront side of the schedule lives in lib/catalog/schedule.
+// ============================================
+
+function getServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+export type DropTable = 'app_shop_products' | 'categories'
+
+export interface DropEntry extends DropSchedule {
+  table: DropTable
+  id: string
+  name: string
+  image: string | null
+  collection: string | null   // products: their category's name
+  is_active: boolean
+  effective: DropSchedule     // products: narrowed by their collection's window
+  state: DropState
+}
+
+const pickSchedule = (row: any): DropSchedule => ({
+  publish_at: row.publish_at ?? null,
+  unpublish_at: row.unpublish_at ?? null,
+  early_access_at: row.early_access_at ?? null,
+})
+
+/** Every product and collection, scheduled or not, for the calendar */
+export async function getDropCalendar(): Promise<{ entries: DropEntry[]; error?: string }> {
+  const supabase = getServiceClient()
+  const [products, categories] = await Promise.all([
+    supabase
+      .from('app_shop_products')
+      .select('id, name, primary_image, images, is_active, publish_at, unpublish_at, early_access_at, category:categories(name, publish_at, unpublish_at, early_access_at)')
+      .order('name'),
+    supabase
+      .from('categories')
+      .select('id, name, image_url, is_active, publish_at, unpublish_at, early_access_at')
+      .order('sort_order'),
+  ])
+
+  const error = products.error || categories.error
+  if (error) {
+    console.error('[drops] Read failed:', error.message)
+    return { entries: [], error: error.message }
+  }
+
+  const now = Date.now()
+  const entries: DropEntry[] = [
+    ...(categories.data || []).map((c: any) => {
+      const own = pickSchedule(c)
+      return {
+        table: 'categories' as const,
+        id: c.id,
+        name: c.name,
+        image: c.image_url || null,
+        collection: null,
+        is_active: c.is_active ?? true,
+        ...own,
+        effective: own,
+        state: dropState(own, now),
+      }
+    }),
+    ...(products.data || []).map((p: any) => {
+      const own = pickSchedule(p)
+      const effective = mergeSchedules(own, p.category)
+      return {
+        table: 'app_shop_products' as const,
+        id: p.id,
+        name: p.name,
+        image: p.primary_image || p.images?.[0] || null,
+        collection: p.category?.name ?? null,
+        is_active: p.is_active ?? true,
+        ...own,
+        effective,
+        state: dropState(effective, now),
+      }
+    }),
+  ]
+  return { entries }
+}
+
+function parseTime(value: unknown, field: string): { iso: string | null; error?: string } {
+  if (value === null || value === undefined || value === '') return { iso: null }
+  const t = typeof value === 'string' ? new Date(value).getTime() : NaN
+  if (!Number.isFinite(t)) return { iso: null, error: `Invalid ${field}` }
+  return { iso: new Date(t).toISOString() }
+}
+
+/** Set (or clear, with nulls) the publish window of one product or collection */
+export async function saveDropSchedule(
+  table: DropTable,
+  id: string,
+  input: Partial<Record<keyof DropSchedule, unknown>>,
+): Promise<{ error?: string; status?: number }> {
+  const publish = parseTime(input.publish_at, 'publish time')
+  const unpublish = parseTime(input.unpublish_at, 'unpublish time')
+  const early = parseTime(input.early_access_at, 'early access time')
+  const invalid = publish.error || unpublish.error || early.error
+  if (invalid) return { error: invalid, status: 400 }
+
+  if (publish.iso && unpublish.iso && unpublish.iso <= publish.iso) {
+    return { error: 'Unpublish must come after publish', status: 400 }
+  }
+  if (early.iso && (!publish.iso || early.iso >= publish.iso)) {
+    return { error: 'Early access must open before the publish time', status: 400 }
+  }
+
+  const { data, error } = await getServiceClient()
+    .from(table)
+    .update({
+      publish_at: publish.iso,
+      unpublish_at: unpublish.iso,
+      early_access_at: early.iso,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .select('id')
+
+  if (error) {
+    console.error('[drops] Write failed:', error.message)
+    return { error: error.message, status: 500 }
+  }
+  if (!data || data.length === 0) return { error: 'Not found', status: 404 }
+
+  return {}
+}
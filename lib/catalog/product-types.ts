@@ -0,0 +1,145 @@
+import { createClient } from '@supabase/supabase-js'
+import { buildCatalog, SEED_CATALOG, type ProductCatalog, type ProductType } from './catalog'
+
+// ============================================
+// PRODUCT TYPES (server-only)
+// The one place routes get product types from — pricing, the products API,
+// packing and customs, returns and promo eligibility all resolve through
+// getProductCatalog(). Maintained in /admin/product-types.
+// ============================================
+
+function getServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// Types change a few times a year; a short cache saves a read per request
+const CATALOG_TTL_MS = 60 * 1000
+
+const COLUMNS = 'key, name, category, price, sku, sku_prefix, sizes, stripe_product_id, stripe_price_id, stripe_price_amount, weight, length, width, height, hs_code, origin_country, active, sort_order'
+
+let cached: { catalog: ProductCatalog; expires: number } | null = null
+
+function fromRow(row: any): ProductType {
+  return {
+    ...row,
+    price: Number(row.price) || 0,
+    sizes: Array.isArray(row.sizes) ? row.sizes : [],
+    stripe_price_amount: row.stripe_price_amount ?? null,
+    weight: Number(row.weight) || 0,
+    length: Number(row.length) || 0,
+    width: Number(row.width) || 0,
+    height: Number(row.height) || 0,
+  }
+}
+
+/** Every product type, inactive ones included, in display order */
+export async function getProductTypes(): Promise<{ types: ProductType[]; error?: string }> {
+  const { data, error } = await getServiceClient()
+    .from('product_types')
+    .select(COLUMNS)
+    .order('sort_order')
+    .order('name')
+
+  if (error) {
+    console.error('[product-types] Read failed:', error.message)
+    return { types: [], error: error.message }
+  }
+  return { types: (data || []).map(fromRow) }
+}
+
+/**
+ * The live catalog. Falls back to SEED_CATALOG when the table can't be read
+ * or is still empty, so checkout keeps working before the migration runs.
+ */
+export async function getProductCatalog(): Promise<ProductCatalog> {
+  if (cached && cached.expires > Date.now()) return cached.catalog
+
+  const { types, error } = await getProductTypes()
+  if (error || types.length === 0) {
+    if (!error) console.warn('[product-types] Table empty — using seed catalog')
+    return cached?.catalog ?? SEED_CATALOG
+  }
+
+  const catalog = buildCatalog(types)
+  cached = { catalog, expires: Date.now() + CATALOG_TTL_MS }
+  return catalog
+}
+
+/** Drop the cached catalog after a write */
+export function clearProductCatalogCache() {
+  cached = null
+}
+
+export interface ProductTypeInput {
+  key: string
+  name: string
+  category: string
+  price: number
+  sku: string
+  sku_prefix: string
+  sizes: string[]
+  weight: number
+  length: number
+  width: number
+  height: number
+  hs_code: string
+  origin_country: string
+  active?: boolean
+  sort_order?: number
+}
+
+/** Create or update a type by key. Stripe IDs are left to syncProductType(). */
+export async function saveProductType(input: ProductTypeInput): Promise<{ type?: ProductType; error?: string }> {
+  const key = input.key?.trim().toLowerCase()
+  const name = input.name?.trim()
+  const category = input.category?.trim().toLowerCase()
+  const skuPrefix = input.sku_prefix?.trim().toUpperCase()
+  const origin = input.origin_country?.trim().toUpperCase()
+
+  if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(key || '')) return { error: 'Key must be lowercase letters, numbers and dashes' }
+  if (!name || !category) return { error: 'Name and category are required' }
+  if (!/^[A-Z0-9]+$/.test(skuPrefix || '')) return { error: 'SKU prefix must be letters and numbers (the part before the first dash)' }
+  if (!Number.isInteger(input.price) || input.price <= 0) return { error: 'Price must be a positive number of cents' }
+  if (![input.weight, input.length, input.width, input.height].every(n => Number.isFinite(n) && n > 0)) {
+    return { error: 'Weight and dimensions must be positive' }
+  }
+  if (!/^\d{4}(\.\d{2,6})?$/.test(input.hs_code?.trim() || '')) return { error: 'Invalid HS code' }
+  if (!/^[A-Z]{2}$/.test(origin || '')) return { error: 'Origin must be a 2-letter country code' }
+
+  const row = {
+    key,
+    name,
+    category,
+    price: input.price,
+    sku: input.sku?.trim() || '',
+    sku_prefix: skuPrefix,
+    sizes: Array.from(new Set(input.sizes.map(s => s.trim()).filter(Boolean))),
+    weight: input.weight,
+    length: input.length,
+    width: input.width,
+    height: input.height,
+    hs_code: input.hs_code.trim(),
+    origin_country: origin,
+    active: input.active ?? true,
+    sort_order: Number.isFinite(input.sort_order) ? Math.round(input.sort_order!) : 0,
+    updated_at: new Date().toISOString(),
+  }
+
+  const { data, error } = await getServiceClient()
+    .from('product_types')
+    .upsert(row, { onConflict: 'key' })
+    .select(COLUMNS)
+    .single()
+
+  if (error) {
+    console.error('[product-types] Write failed:', error.message)
+    return { error: error.code === '23505' ? `SKU prefix ${skuPrefix} is already used by another type` : error.message }
+  }
+
+  cached = null
+  console.log(`[product-types] Saved ${key} (${row.price}¢, ${skuPrefix})${row.active ? '' : ' — inactive'}`)
+  return { type: fromRow(data) }
+}
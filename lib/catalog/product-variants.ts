@@ -0,0 +1,180 @@
+import { createClient } from '@supabase/supabase-js'
+import { VARIANT_COLUMNS, inMatrix, variantMatrix, variantSku, type CatalogVariant } from './variants'
+
+// ============================================
+// PRODUCT VARIANTS (server-only)
+// Keeps each product's size × color matrix in app_shop_product_variants and
+// saves the per-variant overrides, stock and pre-order settings edited in the
+// admin product screen.
+// Price overrides are charged with price_data — only the product's own price
+// is synced to Stripe (see lib/catalog/stripe-sync).
+// ============================================
+
+function getServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+function fromRow(row: any): CatalogVariant {
+  return {
+    ...row,
+    size: row.size || '',
+    color: row.color || '',
+    price_override: row.price_override != null ? Number(row.price_override) : null,
+    weight: row.weight != null ? Number(row.weight) : null,
+    images: Array.isArray(row.images) ? row.images : [],
+  }
+}
+
+export interface ProductVariants {
+  variants: CatalogVariant[]   // in matrix order; rows outside the matrix last
+  error?: string
+}
+
+/**
+ * Create any missing rows of a product's size × color matrix (untracked, with
+ * a generated SKU) and return all of its variants. Rows for sizes or colors
+ * that were removed are kept but sorted last — they're never offered.
+ */
+export async function ensureVariantMatrix(productId: string): Promise<ProductVariants> {
+  const supabase = getServiceClient()
+
+  const { data: product, error: productError } = await supabase
+    .from('app_shop_products')
+    .select('id, sku, sizes, colors')
+    .eq('id', productId)
+    .maybeSingle()
+  if (productError) return { variants: [], error: productError.message }
+  if (!product) return { variants: [], error: 'Product not found' }
+
+  const { data: rows, error } = await supabase
+    .from('app_shop_product_variants')
+    .select(VARIANT_COLUMNS)
+    .eq('product_id', productId)
+  if (error) return { variants: [], error: error.message }
+
+  const existing = (rows || []).map(fromRow)
+  const matrix = variantMatrix(product.sizes, product.colors)
+  const missing = matrix.filter(m => !existing.some(v => v.size === m.size && v.color === m.color))
+
+  if (missing.length > 0) {
+    const candidates = missing.map(m => variantSku(product.sku || '', m.color, m.size)).filter(Boolean) as string[]
+    const { data: clashes } = candidates.length > 0
+      ? await supabase.from('app_shop_product_variants').select('sku').in('sku', candidates)
+      : { data: [] }
+    const taken = new Set<string>([
+      ...(clashes || []).map((c: any) => c.sku),
+      ...existing.map(v => v.sku).filter(Boolean) as string[],
+    ])
+
+    const inserts = missing.map(m => {
+      const base = variantSku(product.sku || '', m.color, m.size)
+      let sku = base
+      // Two colors with the same code — number the later one
+      for (let n = 2; sku && taken.has(sku); n++) sku = `${base}${n}`
+      if (sku) taken.add(sku)
+      return { product_id: productId, size: m.size, color: m.color, sku, track_stock: false }
+    })
+
+    const { data: created, error: insertError } = await supabase
+      .from('app_shop_product_variants')
+      .upsert(inserts, { onConflict: 'product_id,size,color', ignoreDuplicates: true })
+      .select(VARIANT_COLUMNS)
+    if (insertError) {
+      console.error('[product-variants] Matrix insert failed:', insertError.message)
+      return { variants: existing, error: insertError.message }
+    }
+    existing.push(...(created || []).map(fromRow))
+    console.log(`[product-variants] ${product.sku || productId}: created ${created?.length ?? 0} variant(s)`)
+  }
+
+  const order = (v: CatalogVariant) => {
+    const idx = matrix.findIndex(m => m.size === v.size && m.color === v.color)
+    return idx === -1 || !inMatrix(v, product.sizes, product.colors) ? matrix.length : idx
+  }
+  return { variants: existing.sort((a, b) => order(a) - order(b)) }
+}
+
+export interface VariantInput {
+  id: string
+  price_override: number | null
+  weight: number | null
+  images: string[]
+  is_active: boolean
+  track_stock: boolean
+  stock_delta: number               // units received (or corrected, when negative)
+  preorder_enabled: boolean
+  preorder_ships_at: string | null  // YYYY-MM-DD
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Save the admin's per-variant overrides, stock and pre-order settings.
+ * Variants of other products are rejected.
+ */
+export async function saveVariants(productId: string, inputs: VariantInput[]): Promise<{ error?: string }> {
+  for (const input of inputs) {
+    if (typeof input?.id !== 'string') return { error: 'Variant id is required' }
+    if (!Number.isInteger(input.stock_delta) || Math.abs(input.stock_delta) > 100000) {
+      return { error: 'Stock change must be a whole number' }
+    }
+    if (input.preorder_ships_at !== null && !(typeof input.preorder_ships_at === 'string' && DATE_RE.test(input.preorder_ships_at))) {
+      return { error: 'Ship date must be a date' }
+    }
+    if (input.preorder_enabled && (!input.track_stock || !input.preorder_ships_at)) {
+      return { error: 'Pre-orders need stock tracking and an expected ship date' }
+    }
+    if (input.price_override !== null && !(Number.isFinite(input.price_override) && input.price_override > 0)) {
+      return { error: 'Price override must be a positive amount' }
+    }
+    if (input.weight !== null && !(Number.isFinite(input.weight) && input.weight > 0)) {
+      return { error: 'Weight must be positive' }
+    }
+    if (!Array.isArray(input.images) || input.images.some(url => typeof url !== 'string')) {
+      return { error: 'Images must be a list of URLs' }
+    }
+  }
+
+  const supabase = getServiceClient()
+  const now = new Date().toISOString()
+
+  for (const input of inputs) {
+    const { data, error } = await supabase
+      .from('app_shop_product_variants')
+      .update({
+        price_override: input.price_override === null ? null : Math.round(input.price_override * 100) / 100,
+        weight: input.weight,
+        images: input.images.map(url => url.trim()).filter(Boolean),
+        is_active: input.is_active,
+        track_stock: !!input.track_stock,
+        preorder_enabled: !!input.preorder_enabled,
+        preorder_ships_at: input.preorder_ships_at,
+        updated_at: now,
+      })
+      .eq('id', input.id)
+      .eq('product_id', productId)
+      .select('id')
+    if (error) {
+      console.error('[product-variants] Write failed:', error.message)
+      return { error: error.message }
+    }
+    if (!data || data.length === 0) return { error: `Variant ${input.id} does not belong to this product` }
+
+    if (input.stock_delta !== 0) {
+      const { error: stockError } = await supabase.rpc('adjust_variant_stock', {
+        p_variant_id: input.id,
+        p_delta: input.stock_delta,
+      })
+      if (stockError) {
+        console.error('[product-variants] Stock adjust failed:', stockError.message)
+        return { error: stockError.message }
+      }
+    }
+  }
+
+  console.log(`[product-variants] Saved ${inputs.length} variant(s) of ${productId}`)
+  return {}
+}
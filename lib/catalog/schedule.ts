@@ -0,0 +1,98 @@
+// ============================================
+// DROP SCHEDULE (pure — safe for client components)
+// Products and collections can carry a publish window. Members (anyone
+// signed in) get in from early_access_at, everyone else from publish_at.
+// The server decides what can be bought (lib/checkout/pricing); the browser
+// uses the same rules for countdowns, so a cached product list stays right.
+// ============================================
+
+export interface DropSchedule {
+  publish_at: string | null       // live for everyone — null = already live
+  unpublish_at: string | null     // gone again — null = never
+  early_access_at: string | null  // members only until publish_at — null = no early access
+}
+
+export type DropState = 'scheduled' | 'early_access' | 'live' | 'ended'
+
+export const NO_SCHEDULE: DropSchedule = { publish_at: null, unpublish_at: null, early_access_at: null }
+
+const time = (iso: string | null | undefined) => (iso ? new Date(iso).getTime() : null)
+
+function later(a: string | null | undefined, b: string | null | undefined): string | null {
+  if (!a || !b) return a || b || null
+  return time(a)! >= time(b)! ? a : b
+}
+
+function earlier(a: string | null | undefined, b: string | null | undefined): string | null {
+  if (!a || !b) return a || b || null
+  return time(a)! <= time(b)! ? a : b
+}
+
+/**
+ * A product's own window narrowed by its collection's: the later publish,
+ * the earlier unpublish. Early access comes from the product, else the
+ * collection, and is dropped when it wouldn't open before publish.
+ */
+export function mergeSchedules(
+  product: Partial<DropSchedule> | null | undefined,
+  collection?: Partial<DropSchedule> | null,
+): DropSchedule {
+  const publish_at = later(product?.publish_at, collection?.publish_at)
+  const unpublish_at = earlier(product?.unpublish_at, collection?.unpublish_at)
+  const early = product?.early_access_at || collection?.early_access_at || null
+  const early_access_at = early && publish_at && time(early)! < time(publish_at)! ? early : null
+  return { publish_at, unpublish_at, early_access_at }
+}
+
+export function dropState(schedule: DropSchedule, now: number = Date.now()): DropState {
+  const unpublish = time(schedule.unpublish_at)
+  if (unpublish !== null && now >= unpublish) return 'ended'
+  const publish = time(schedule.publish_at)
+  if (publish === null || now >= publish) return 'live'
+  const early = time(schedule.early_access_at)
+  if (early !== null && now >= early) return 'early_access'
+  return 'scheduled'
+}
+
+/** Whether a visitor can see and buy it right now */
+export function canBuy(schedule: DropSchedule, isMember: boolean, now: number = Date.now()): boolean {
+  const state = dropState(schedule, now)
+  return state === 'live' || (state === 'early_access' && isMember)
+}
+
+/** Worth listing as a drop: not live yet, and not already over */
+export function isUpcoming(schedule: DropSchedule, now: number = Date.now()): boolean {
+  const state = dropState(schedule, now)
+  return state === 'scheduled' || state === 'early_access'
+}
+
+/** When this visitor's countdown ends: early access for members, publish for everyone else */
+export function opensAt(schedule: DropSchedule, isMember: boolean, now: number = Date.now()): string | null {
+  const state = dropState(schedule, now)
+  if (state === 'scheduled' && isMember && schedule.early_access_at) return schedule.early_access_at
+  if (state === 'scheduled' || state === 'early_access') return schedule.publish_at
+  return null
+}
+
+export function countdownParts(ms: number): { days: number; hours: number; minutes: number; seconds: number } {
+  const total = Math.max(0, Math.floor(ms / 1000))
+  return {
+    days: Math.floor(total / 86400),
+    hours: Math.floor((total % 86400) / 3600),
+    minutes: Math.floor((total % 3600) / 60),
+    seconds: total % 60,
+  }
+}
+
+/** The effective schedule of an app_shop_products row selected with its category's window */
+export function productSchedule(row: Partial<DropSchedule> & { category?: Partial<DropSchedule> | null }): DropSchedule {
+  return mergeSchedules(row, row.category)
+}
+
+/** PostgREST embed for the collection's window — select it next to a product's own columns */
+export const CATEGORY_SCHEDULE_SELECT = 'category:categories(slug, publish_at, unpublish_at, early_access_at)'
+
+/** What a visitor sees of a fetched product list: live items plus, for members, early-access drops */
+export function visibleNow<T extends { drop?: DropSchedule }>(products: T[], drops: T[], isMember: boolean, now: number = Date.now()): T[] {
+  return [...products, ...drops].filter(p => !p.drop || canBuy(p.drop, isMember, now))
+}
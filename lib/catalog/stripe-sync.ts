@@ -0,0 +1,419 @@
+import type Stripe from 'stripe'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { clearProductCatalogCache } from './product-types'
+
+// ============================================
+// STRIPE CATALOG SYNC (server-only)
+// The database owns prices; Stripe mirrors them. Every product type and
+// every shop product with its own base_price has one Stripe Product and one
+// active CAD Price. Prices are immutable, so a price change creates a new
+// Price and archives the old one. product.* / price.* webhooks that disagree
+// with the database are flagged in stripe_catalog_drift, and
+// reconcileCatalog() lists every mismatch for /admin/stripe-sync.
+// ============================================
+
+// Set on every Price we create, so webhooks for our own writes aren't drift
+const SYNC_SOURCE = 'onsite-admin'
+
+export type CatalogTable = 'product_types' | 'app_shop_products'
+
+export type CatalogIssue =
+  | 'not_synced'        // no Stripe price, or the row doesn't know what it charges
+  | 'price_missing'     // linked price doesn't exist in Stripe
+  | 'price_archived'    // linked price is archived — checkout would fail
+  | 'price_amount'      // Stripe charges a different amount
+  | 'price_currency'    // not CAD
+  | 'price_unlinked'    // active price on our product that the store doesn't charge
+  | 'product_name'      // renamed on one side only
+  | 'product_archived'  // Stripe product archived while the row is active
+
+export interface CatalogMismatch {
+  table: CatalogTable
+  id: string
+  name: string
+  issue: CatalogIssue
+  detail: string
+  stripeId: string | null
+}
+
+export interface DriftFlag {
+  id: string
+  stripe_id: string
+  local_table: CatalogTable
+  local_id: string
+  issue: CatalogIssue
+  detail: string
+  event_id: string | null
+  detected_at: string
+}
+
+/** A catalog row as the sync sees it */
+interface CatalogRow {
+  table: CatalogTable
+  id: string
+  name: string
+  amount: number | null           // cents the store charges — null = inherits its type's price
+  active: boolean
+  stripeProductId: string | null
+  stripePriceId: string | null
+  stripePriceAmount: number | null
+}
+
+const fmt = (cents: number | null) => (cents == null ? '—' : `CA$${(cents / 100).toFixed(2)}`)
+
+const idColumn = (table: CatalogTable) => (table === 'product_types' ? 'key' : 'id')
+
+const idOf = (ref: string | { id: string }) => (typeof ref === 'string' ? ref : ref.id)
+
+/** Metadata on Products and Prices we create — links back to the row */
+function stripeMetadata(table: CatalogTable, id: string): Record<string, string> {
+  return { source: SYNC_SOURCE, [table === 'product_types' ? 'product_type' : 'product_id']: id }
+}
+
+function typeRow(row: any): CatalogRow {
+  return {
+    table: 'product_types',
+    id: row.key,
+    name: row.name,
+    amount: row.price,
+    active: row.active,
+    stripeProductId: row.stripe_product_id,
+    stripePriceId: row.stripe_price_id,
+    stripePriceAmount: row.stripe_price_amount,
+  }
+}
+
+function productRow(row: any): CatalogRow {
+  return {
+    table: 'app_shop_products',
+    id: row.id,
+    name: row.name,
+    amount: row.base_price != null ? Math.round(Number(row.base_price) * 100) : null,
+    active: row.is_active,
+    stripeProductId: row.stripe_product_id,
+    stripePriceId: row.stripe_price_id || null,
+    stripePriceAmount: row.stripe_price_amount,
+  }
+}
+
+const TYPE_COLUMNS = 'key, name, price, active, stripe_product_id, stripe_price_id, stripe_price_amount'
+const PRODUCT_COLUMNS = 'id, name, base_price, is_active, stripe_product_id, stripe_price_id, stripe_price_amount'
+
+/** Rows whose Stripe product or price column equals `stripeId` */
+async function linkedRows(
+  supabase: SupabaseClient,
+  column: 'stripe_product_id' | 'stripe_price_id',
+  stripeId: string,
+): Promise<CatalogRow[]> {
+  const [types, products] = await Promise.all([
+    supabase.from('product_types').select(TYPE_COLUMNS).eq(column, stripeId),
+    supabase.from('app_shop_products').select(PRODUCT_COLUMNS).eq(column, stripeId),
+  ])
+  if (types.error) throw new Error(`Product type lookup failed: ${types.error.message}`)
+  if (products.error) throw new Error(`Product lookup failed: ${products.error.message}`)
+  return [...(types.data || []).map(typeRow), ...(products.data || []).map(productRow)]
+}
+
+/** Stripe object, or null when it doesn't exist */
+async function retrieveOrNull<T>(fetcher: () => Promise<T>): Promise<T | null> {
+  try {
+    return await fetcher()
+  } catch (err: any) {
+    if (err?.code === 'resource_missing') return null
+    throw err
+  }
+}
+
+// ============================================
+// PUSH — database → Stripe
+// ============================================
+
+async function ensureProduct(stripe: Stripe, row: CatalogRow): Promise<Stripe.Product> {
+  let productId = row.stripeProductId
+
+  // Types linked by hand before the sync only have a price — adopt its product.
+  // Shop products don't: theirs was usually copied from their type.
+  if (!productId && row.stripePriceId && row.table === 'product_types') {
+    const price = await retrieveOrNull(() => stripe.prices.retrieve(row.stripePriceId!))
+    if (price) productId = idOf(price.product)
+  }
+
+  const existing = productId ? await retrieveOrNull(() => stripe.products.retrieve(productId!)) : null
+  if (!existing) {
+    return stripe.products.create({
+      name: row.name,
+      active: row.active,
+      metadata: stripeMetadata(row.table, row.id),
+    })
+  }
+
+  if (existing.name !== row.name || existing.active !== row.active) {
+    return stripe.products.update(existing.id, { name: row.name, active: row.active })
+  }
+  return existing
+}
+
+/**
+ * Bring one product type (by key) or shop product (by id) in step with
+ * Stripe: create or update its Product, create a Price when the amount
+ * changed and archive the old one, then record the IDs on the row.
+ */
+export async function syncCatalogItem(
+  stripe: Stripe,
+  supabase: SupabaseClient,
+  table: CatalogTable,
+  id: string,
+): Promise<{ priceId?: string; created?: boolean; error?: string }> {
+  const { data, error } = await supabase
+    .from(table)
+    .select(table === 'product_types' ? TYPE_COLUMNS : PRODUCT_COLUMNS)
+    .eq(idColumn(table), id)
+    .maybeSingle()
+  if (error) return { error: error.message }
+  if (!data) return { error: 'Not found' }
+
+  const row = table === 'product_types' ? typeRow(data) : productRow(data)
+  if (row.amount == null) return { error: 'Uses its product type’s price — sync the type instead' }
+  if (row.amount <= 0) return { error: 'No price set' }
+  const amount = row.amount
+
+  try {
+    const product = await ensureProduct(stripe, row)
+
+    const current = row.stripePriceId ? await retrieveOrNull(() => stripe.prices.retrieve(row.stripePriceId!)) : null
+    const reusable = current
+      && current.active
+      && current.type === 'one_time'
+      && current.currency === 'cad'
+      && current.unit_amount === amount
+      && idOf(current.product) === product.id
+
+    let price = current
+    if (!reusable) {
+      price = await stripe.prices.create({
+        product: product.id,
+        unit_amount: amount,
+        currency: 'cad',
+        metadata: stripeMetadata(table, row.id),
+      })
+      // A product's default price can't be archived — move the default first
+      await stripe.products.update(product.id, { default_price: price.id })
+    }
+
+    const { error: writeError } = await supabase
+      .from(table)
+      .update({
+        stripe_product_id: product.id,
+        stripe_price_id: price!.id,
+        stripe_price_amount: amount,
+        stripe_synced_at: new Date().toISOString(),
+      })
+      .eq(idColumn(table), id)
+    if (writeError) throw new Error(`Write-back failed: ${writeError.message}`)
+
+    // Archive only once the row points at the new price, so the price.updated
+    // webhook finds nothing linked to the old one
+    const created = !reusable
+    if (created && current?.active && idOf(current.product) === product.id) {
+      try {
+        await stripe.prices.update(current.id, { active: false })
+        console.log(`[stripe-sync] Archived ${current.id} (${fmt(current.unit_amount)})`)
+      } catch (err: any) {
+        console.warn(`[stripe-sync] Couldn't archive ${current.id}:`, err?.message || err)
+      }
+    }
+
+    await supabase
+      .from('stripe_catalog_drift')
+      .update({ resolved_at: new Date().toISOString(), resolved_by: 'sync' })
+      .eq('local_table', table)
+      .eq('local_id', id)
+      .is('resolved_at', null)
+
+    if (table === 'product_types') clearProductCatalogCache()
+    console.log(`[stripe-sync] ${table}/${id} → ${price!.id} ${fmt(amount)}${created ? ' (new price)' : ''}`)
+    return { priceId: price!.id, created }
+  } catch (err: any) {
+    console.error(`[stripe-sync] ${table}/${id} failed:`, err?.message || err)
+    return { error: err?.message || 'Stripe sync failed' }
+  }
+}
+
+// ============================================
+// WEBHOOK — Stripe → drift flags
+// ============================================
+
+function priceIssues(price: Stripe.Price, deleted: boolean, row: CatalogRow): Array<[CatalogIssue, string]> {
+  const issues: Array<[CatalogIssue, string]> = []
+  if (deleted || !price.active) {
+    issues.push(['price_archived', `${price.id} was archived in Stripe but is still the price for ${row.name}`])
+  } else if (price.unit_amount !== row.stripePriceAmount) {
+    issues.push(['price_amount', `Stripe charges ${fmt(price.unit_amount)}, the store expects ${fmt(row.stripePriceAmount)}`])
+  }
+  if (price.currency !== 'cad') {
+    issues.push(['price_currency', `${price.id} is in ${price.currency.toUpperCase()}, not CAD`])
+  }
+  return issues
+}
+
+function productIssues(product: Stripe.Product, deleted: boolean, row: CatalogRow): Array<[CatalogIssue, string]> {
+  const issues: Array<[CatalogIssue, string]> = []
+  if ((deleted || !product.active) && row.active) {
+    issues.push(['product_archived', `${product.id} was ${deleted ? 'deleted' : 'archived'} in Stripe but ${row.name} is on sale`])
+  }
+  if (!deleted && product.name !== row.name) {
+    issues.push(['product_name', `Stripe calls it “${product.name}”, the store “${row.name}”`])
+  }
+  return issues
+}
+
+async function recordFlags(
+  supabase: SupabaseClient,
+  stripeId: string,
+  row: CatalogRow,
+  issues: Array<[CatalogIssue, string]>,
+  eventId: string,
+): Promise<number> {
+  // Whatever this event no longer shows is fixed on the Stripe side
+  let clear = supabase
+    .from('stripe_catalog_drift')
+    .update({ resolved_at: new Date().toISOString(), resolved_by: 'stripe' })
+    .eq('stripe_id', stripeId)
+    .eq('local_table', row.table)
+    .eq('local_id', row.id)
+    .is('resolved_at', null)
+  if (issues.length > 0) clear = clear.not('issue', 'in', `(${issues.map(([issue]) => issue).join(',')})`)
+  await clear
+
+  let flagged = 0
+  for (const [issue, detail] of issues) {
+    const { error } = await supabase.from('stripe_catalog_drift').insert({
+      stripe_id: stripeId,
+      local_table: row.table,
+      local_id: row.id,
+      issue,
+      detail,
+      event_id: eventId,
+    })
+    if (!error) flagged++
+    else if (error.code !== '23505') throw new Error(`Drift flag insert failed: ${error.message}`)
+  }
+  return flagged
+}
+
+/**
+ * product.* / price.* webhook: compare the object with the rows linked to it
+ * and flag what disagrees. Returns how many new flags were raised.
+ */
+export async function flagCatalogDrift(supabase: SupabaseClient, event: Stripe.Event): Promise<number> {
+  const deleted = event.type.endsWith('.deleted')
+  let flagged = 0
+
+  if (event.type.startsWith('price.')) {
+    const price = event.data.object as Stripe.Price
+    if (event.type === 'price.created' && price.metadata?.source === SYNC_SOURCE) return 0
+
+    const rows = await linkedRows(supabase, 'stripe_price_id', price.id)
+    for (const row of rows) {
+      flagged += await recordFlags(supabase, price.id, row, priceIssues(price, deleted, row), event.id)
+    }
+
+    // A price added in the dashboard to one of our products
+    if (rows.length === 0 && event.type === 'price.created' && price.active) {
+      for (const row of await linkedRows(supabase, 'stripe_product_id', idOf(price.product))) {
+        flagged += await recordFlags(supabase, price.id, row, [
+          ['price_unlinked', `${price.id} (${fmt(price.unit_amount)}) was added in Stripe — the store charges ${fmt(row.amount)}`],
+        ], event.id)
+      }
+    }
+  } else if (event.type.startsWith('product.')) {
+    const product = event.data.object as Stripe.Product
+    for (const row of await linkedRows(supabase, 'stripe_product_id', product.id)) {
+      flagged += await recordFlags(supabase, product.id, row, productIssues(product, deleted, row), event.id)
+    }
+  }
+
+  if (flagged > 0) console.warn(`[stripe-sync] ${event.type} ${event.id}: ${flagged} drift flag(s)`)
+  return flagged
+}
+
+export async function getOpenDriftFlags(supabase: SupabaseClient): Promise<DriftFlag[]> {
+  const { data, error } = await supabase
+    .from('stripe_catalog_drift')
+    .select('id, stripe_id, local_table, local_id, issue, detail, event_id, detected_at')
+    .is('resolved_at', null)
+    .order('detected_at', { ascending: false })
+  if (error) throw new Error(`Drift flag read failed: ${error.message}`)
+  return (data || []) as DriftFlag[]
+}
+
+export async function resolveDriftFlag(supabase: SupabaseClient, id: string, resolvedBy: string): Promise<{ error?: string }> {
+  const { error } = await supabase
+    .from('stripe_catalog_drift')
+    .update({ resolved_at: new Date().toISOString(), resolved_by: resolvedBy })
+    .eq('id', id)
+    .is('resolved_at', null)
+  if (error) return { error: error.message }
+  return {}
+}
+
+// ============================================
+// RECONCILE — full comparison for the admin report
+// ============================================
+
+/**
+ * Compare every product type and priced shop product with Stripe. Reads all
+ * prices and products once, so it's an on-demand report, not a hot path.
+ */
+export async function reconcileCatalog(stripe: Stripe, supabase: SupabaseClient): Promise<CatalogMismatch[]> {
+  const [types, products, prices, stripeProducts] = await Promise.all([
+    supabase.from('product_types').select(TYPE_COLUMNS).order('sort_order'),
+    supabase.from('app_shop_products').select(PRODUCT_COLUMNS).not('base_price', 'is', null).order('name'),
+    stripe.prices.list({ limit: 100 }).autoPagingToArray({ limit: 10000 }),
+    stripe.products.list({ limit: 100 }).autoPagingToArray({ limit: 10000 }),
+  ])
+  if (types.error) throw new Error(`Product type read failed: ${types.error.message}`)
+  if (products.error) throw new Error(`Product read failed: ${products.error.message}`)
+
+  const priceById = new Map(prices.map(p => [p.id, p]))
+  const productById = new Map(stripeProducts.map(p => [p.id, p]))
+  const rows = [...(types.data || []).map(typeRow), ...(products.data || []).map(productRow)]
+  const linkedPrices = new Set(rows.map(r => r.stripePriceId).filter(Boolean))
+
+  const mismatches: CatalogMismatch[] = []
+  const add = (row: CatalogRow, issue: CatalogIssue, detail: string, stripeId: string | null) =>
+    mismatches.push({ table: row.table, id: row.id, name: row.name, issue, detail, stripeId })
+
+  for (const row of rows) {
+    const price = row.stripePriceId ? priceById.get(row.stripePriceId) : undefined
+
+    if (!row.stripePriceId) {
+      add(row, 'not_synced', 'No Stripe price — checkout sends the amount inline', null)
+    } else if (!price) {
+      add(row, 'price_missing', `${row.stripePriceId} doesn’t exist in this Stripe account`, row.stripePriceId)
+    } else {
+      if (!price.active) add(row, 'price_archived', `${price.id} is archived`, price.id)
+      if (price.currency !== 'cad') add(row, 'price_currency', `${price.id} is in ${price.currency.toUpperCase()}`, price.id)
+      if (price.unit_amount !== row.amount) {
+        add(row, 'price_amount', `Stripe charges ${fmt(price.unit_amount)}, the store ${fmt(row.amount)}`, price.id)
+      } else if (row.stripePriceAmount !== row.amount) {
+        add(row, 'not_synced', 'Price matches but was never confirmed by a sync — checkout sends the amount inline', price.id)
+      }
+    }
+
+    const productId = row.stripeProductId ?? (price && row.table === 'product_types' ? idOf(price.product) : null)
+    const product = productId ? productById.get(productId) : undefined
+    if (product) {
+      if (product.name !== row.name) add(row, 'product_name', `Stripe calls it “${product.name}”`, product.id)
+      if (!product.active && row.active) add(row, 'product_archived', `${product.id} is archived in Stripe`, product.id)
+
+      for (const other of prices) {
+        if (other.active && idOf(other.product) === product.id && !linkedPrices.has(other.id)) {
+          add(row, 'price_unlinked', `${other.id} (${fmt(other.unit_amount)}) is active but not charged`, other.id)
+        }
+      }
+    }
+  }
+
+  return mismatches
+}
@@ -0,0 +1,120 @@
+// ============================================
+// VARIANT MATRIX (pure — safe for client components)
+// Every size × color of a product is a row in app_shop_product_variants with
+// its own SKU, an optional price override, weight and images. The storefront,
+// cart and checkout all refer to a variant by its id.
+// ============================================
+
+/** An app_shop_product_variants row */
+export interface CatalogVariant {
+  id: string
+  product_id: string
+  sku: string | null
+  size: string                   // '' when the product has no sizes
+  color: string                  // '' when the product has no colors
+  price_override: number | null  // dollars, like base_price — null = product price
+  weight: number | null          // kg — null = product type weight
+  images: string[]               // empty = the color's images
+  is_active: boolean
+  track_stock: boolean
+  stock_quantity: number         // goes negative while pre-orders are waiting on stock
+  reserved_quantity: number
+  preorder_enabled: boolean      // keeps selling once sold out (tracked variants only)
+  preorder_ships_at: string | null  // YYYY-MM-DD, expected ship date for pre-orders
+}
+
+/** What the storefront gets for each variant it can sell */
+export interface ShopVariant {
+  id: string
+  sku: string
+  size: string
+  color: string
+  price: number                  // dollars, override applied
+  images: string[]
+  preorder_ships_at: string | null  // set when it can be pre-ordered once sold out
+}
+
+export const VARIANT_COLUMNS = 'id, product_id, sku, size, color, price_override, weight, images, is_active, track_stock, stock_quantity, reserved_quantity, preorder_enabled, preorder_ships_at'
+
+// ---- SKUs (SKU-SYSTEM.md: {TIPO}-{ARTE}{NUMERO}-{COR}-{TAMANHO}) ----
+// Keep in step with shop_variant_sku() in 20261019190001_variant_matrix.sql
+
+const COLOR_CODES: Record<string, string> = {
+  'white': 'WHT',
+  'black': 'BLK',
+  'amber': 'AMB',
+  'charcoal': 'CHR',
+  'light grey': 'LGR',
+  'construction green': 'CGR',
+  'green': 'GRN',
+}
+
+export function sizeCode(size: string): string {
+  if (!size || ['one size', 'os'].includes(size.toLowerCase())) return 'OS'
+  return size.replace(/[^A-Za-z0-9]/g, '').toUpperCase()
+}
+
+/** Three-letter fabric color code, '' for products without colors */
+export function colorCode(color: string): string {
+  if (!color) return ''
+  return COLOR_CODES[color.toLowerCase()] ?? color.replace(/[^A-Za-z0-9]/g, '').slice(0, 3).toUpperCase()
+}
+
+/** CTEE-FR001 + Black + M → CTEE-FR001-BLK-M; no color → CTEE-FR001-M */
+export function variantSku(productSku: string, color: string, size: string): string | null {
+  if (!productSku) return null
+  return [productSku, colorCode(color), sizeCode(size)].filter(Boolean).join('-')
+}
+
+// ---- Matrix ----
+
+/** Every size × color a product offers ('' stands in for a missing axis) */
+export function variantMatrix(sizes: string[] | null, colors: string[] | null): Array<{ size: string; color: string }> {
+  const sizeAxis = sizes?.length ? sizes : ['']
+  const colorAxis = colors?.length ? colors : ['']
+  return colorAxis.flatMap(color => sizeAxis.map(size => ({ size, color })))
+}
+
+/** Whether a variant's size and color are still offered by its product */
+export function inMatrix(variant: { size: string; color: string }, sizes: string[] | null, colors: string[] | null): boolean {
+  const sizeOk = sizes?.length ? sizes.includes(variant.size) : variant.size === ''
+  const colorOk = colors?.length ? colors.includes(variant.color) : variant.color === ''
+  return sizeOk && colorOk
+}
+
+/**
+ * The variants a product can sell, in matrix order: active and still within
+ * its sizes × colors. `basePrice` is the product's price in dollars.
+ */
+export function toShopVariants(
+  rows: Array<Partial<CatalogVariant>> | null | undefined,
+  product: { sku?: string | null; sizes: string[] | null; colors: string[] | null },
+  basePrice: number,
+): ShopVariant[] {
+  const live = (rows || []).filter(v =>
+    v.id && v.is_active !== false && inMatrix({ size: v.size || '', color: v.color || '' }, product.sizes, product.colors)
+  )
+
+  return variantMatrix(product.sizes, product.colors).flatMap(({ size, color }) => {
+    const v = live.find(r => (r.size || '') === size && (r.color || '') === color)
+    if (!v) return []
+    return [{
+      id: v.id!,
+      sku: v.sku || variantSku(product.sku || '', color, size) || '',
+      size,
+      color,
+      price: v.price_override != null ? Number(v.price_override) : basePrice,
+      images: v.images || [],
+      preorder_ships_at: v.preorder_enabled && v.track_stock !== false ? v.preorder_ships_at ?? null : null,
+    }]
+  })
+}
+
+/** The variant for a color/size choice; undefined when the product has none for it */
+export function findVariant<T extends { size: string; color: string }>(
+  variants: T[] | undefined,
+  color: string,
+  size: string,
+): T | undefined {
+  return variants?.find(v => v.color === (color || '') && v.size === (size || ''))
+}
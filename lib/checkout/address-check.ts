@@ -0,0 +1,47 @@
+// ============================================
+// QUOTED vs COLLECTED ADDRESS (pure)
+// Checkout quotes shipping for the postal code typed in the cart and taxes the
+// province it's in, then Stripe Checkout collects the real address. The webhook
+// flags orders where the two disagree, so a cheap nearby quote or a low-tax
+// province can't ship across the country unnoticed.
+// ============================================
+
+export interface QuotedDestination {
+  postal: string | null   // normalized, as quoted (session metadata shipping_postal)
+  province: string | null // the province sales tax was charged for (tax_province)
+  country: string
+}
+
+export interface CollectedAddress {
+  postal_code?: string | null
+  province?: string | null
+  country?: string | null
+}
+
+const normalize = (postal: string) => postal.replace(/\s/g, '').toUpperCase()
+
+/** US rates depend on the 5-digit ZIP; a +4 suffix typed on one side only isn't a mismatch */
+function comparable(postal: string, country: string): string {
+  const clean = normalize(postal)
+  return country === 'US' ? clean.slice(0, 5) : clean
+}
+
+/** What differs between the quoted destination and the collected address, or null */
+export function addressMismatch(quoted: QuotedDestination, collected: CollectedAddress): string | null {
+  const problems: string[] = []
+
+  if (collected.country && collected.country !== quoted.country) {
+    problems.push(`Quoted for ${quoted.country}, shipping to ${collected.country}`)
+  } else if (quoted.postal && collected.postal_code
+    && comparable(quoted.postal, quoted.country) !== comparable(collected.postal_code, quoted.country)) {
+    problems.push(`Quoted for ${normalize(quoted.postal)}, shipping to ${normalize(collected.postal_code)}`)
+  }
+
+  // Canadian tax depends on the province
+  if (quoted.country === 'CA' && quoted.province && collected.province
+    && quoted.province.toUpperCase() !== collected.province.trim().toUpperCase()) {
+    problems.push(`Taxed for ${quoted.province.toUpperCase()}, shipping to ${collected.province.trim().toUpperCase()}`)
+  }
+
+  return problems.length > 0 ? problems.join('; ') : null
+}
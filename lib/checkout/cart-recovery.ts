@@ -0,0 +1,424 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import type Stripe from 'stripe'
+import type { CartItem } from '@/lib/store/cart'
+import { sendCartRecoveryEmail } from '@/lib/email'
+import { likeExact } from '@/lib/account/data'
+
+// ============================================
+// ABANDONED CHECKOUT RECOVERY (server-only)
+// One temp_carts row per Checkout Session. When a session expires unpaid the
+// cart is emailed back to the customer on a schedule, with a signed link that
+// rebuilds the cart store (see /cart/recover). Every email carries a signed
+// unsubscribe link (CASL); unsubscribed addresses go in marketing_suppressions,
+// which the sender checks before each email.
+// ============================================
+
+function getServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+/** Hours after abandonment for each recovery email */
+export const RECOVERY_SCHEDULE_HOURS = [1, 24, 72]
+
+/** When email `step` (0-based) is due — null once the sequence is over */
+export function nextRecoveryAt(abandonedAt: Date | string, step: number): string | null {
+  if (step >= RECOVERY_SCHEDULE_HOURS.length) return null
+  return new Date(new Date(abandonedAt).getTime() + RECOVERY_SCHEDULE_HOURS[step] * 60 * 60 * 1000).toISOString()
+}
+
+// Recovery links stop working a week after the session expired
+const LINK_TTL_MS = 7 * 24 * 60 * 60 * 1000
+const BATCH_SIZE = 50
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export function isCartId(value: unknown): value is string {
+  return typeof value === 'string' && UUID_RE.test(value)
+}
+
+// ---- Signed links ----
+
+function signature(value: string): string {
+  const secret = process.env.CART_RECOVERY_SECRET
+  if (!secret) throw new Error('CART_RECOVERY_SECRET not configured')
+  return createHmac('sha256', secret).update(value).digest('base64url')
+}
+
+// Unsubscribe tokens sign a different value, so a recovery token can't unsubscribe and vice versa
+function unsubscribeValue(cartId: string): string {
+  return `unsubscribe:${cartId}`
+}
+
+function verifyCartToken(token: string, signedValue: (cartId: string) => string): string | null {
+  const [cartId, sig] = token.split('.')
+  if (!isCartId(cartId) || !sig) return null
+
+  const expected = Buffer.from(signature(signedValue(cartId)))
+  const given = Buffer.from(sig)
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null
+  return cartId
+}
+
+export function cartRecoveryToken(cartId: string): string {
+  return `${cartId}.${signature(cartId)}`
+}
+
+/** Cart id for a valid token, null for anything tampered with */
+export function verifyCartRecoveryToken(token: string): string | null {
+  return verifyCartToken(token, cartId => cartId)
+}
+
+export function cartUnsubscribeToken(cartId: string): string {
+  return `${cartId}.${signature(unsubscribeValue(cartId))}`
+}
+
+export function verifyCartUnsubscribeToken(token: string): string | null {
+  return verifyCartToken(token, unsubscribeValue)
+}
+
+function shopUrl(): string {
+  return process.env.NEXT_PUBLIC_SHOP_URL || 'https://shop.onsiteclub.ca'
+}
+
+export function cartRecoveryUrl(cartId: string): string {
+  return `${shopUrl()}/cart/recover?token=${encodeURIComponent(cartRecoveryToken(cartId))}`
+}
+
+/** The page linked from the email footer */
+export function cartUnsubscribeUrl(cartId: string): string {
+  return `${shopUrl()}/cart/unsubscribe?token=${encodeURIComponent(cartUnsubscribeToken(cartId))}`
+}
+
+/** One-click endpoint for the List-Unsubscribe header (RFC 8058) */
+export function cartUnsubscribeApiUrl(cartId: string): string {
+  return `${shopUrl()}/api/cart/unsubscribe?token=${encodeURIComponent(cartUnsubscribeToken(cartId))}`
+}
+
+// ---- Checkout lifecycle ----
+
+export interface CheckoutCart {
+  id: string
+  stripeSessionId: string
+  userId: string | null
+  email: string | null
+  items: CartItem[]
+  subtotal: number      // cents
+  shipping: number      // cents
+  total: number         // cents
+  province: string
+  postalCode: string
+  promoCode: string | null
+  recoveredFrom: string | null
+  expiresAt: Date
+}
+
+/** Persist the cart behind a new Checkout Session. Best-effort — never blocks checkout. */
+export async function saveCheckoutCart(cart: CheckoutCart): Promise<void> {
+  const supabase = getServiceClient()
+  const { error } = await supabase.from('temp_carts').insert({
+    id: cart.id,
+    stripe_session_id: cart.stripeSessionId,
+    user_id: cart.userId,
+    email: cart.email,
+    items: cart.items,
+    // Legacy DECIMAL dollar columns
+    subtotal: cart.subtotal / 100,
+    shipping: cart.shipping / 100,
+    total: cart.total / 100,
+    province: cart.province,
+    postal_code: cart.postalCode,
+    promo_code: cart.promoCode,
+    recovered_from: cart.recoveredFrom,
+    status: 'open',
+    expires_at: cart.expiresAt.toISOString(),
+  })
+  if (error) console.error('[CART-RECOVERY] Cart save failed:', error)
+}
+
+/**
+ * checkout.session.expired — start the recovery sequence if we know who to
+ * email. Older abandoned carts for the same email are closed so the customer
+ * only ever hears about their latest one.
+ */
+export async function markCartAbandoned(session: Stripe.Checkout.Session): Promise<void> {
+  const supabase = getServiceClient()
+  const { data: cart, error } = await supabase
+    .from('temp_carts')
+    .select('id, email, status')
+    .eq('stripe_session_id', session.id)
+    .maybeSingle()
+  if (error) throw new Error(`Cart lookup failed: ${error.message}`)
+  if (!cart || cart.status !== 'open') return
+
+  const email = cart.email || session.customer_details?.email || null
+  const now = new Date()
+
+  const { error: updateError } = await supabase
+    .from('temp_carts')
+    .update({
+      email,
+      status: email ? 'abandoned' : 'closed',
+      abandoned_at: now.toISOString(),
+      next_recovery_at: email ? nextRecoveryAt(now, 0) : null,
+      expires_at: new Date(now.getTime() + LINK_TTL_MS).toISOString(),
+    })
+    .eq('id', cart.id)
+    .eq('status', 'open')
+  if (updateError) throw new Error(`Cart update failed: ${updateError.message}`)
+
+  if (email) {
+    await supabase
+      .from('temp_carts')
+      .update({ status: 'closed' })
+      .ilike('email', likeExact(email))
+      .in('status', ['abandoned', 'recovered'])
+      .neq('id', cart.id)
+    console.log(`[CART-RECOVERY] Cart ${cart.id} abandoned — recovery scheduled`)
+  }
+}
+
+/**
+ * checkout.session.completed — the session's own cart converts, and so does
+ * the abandoned cart it was recovered from (that's the one the stats count).
+ */
+export async function markCartConverted(
+  session: Stripe.Checkout.Session,
+  orderNumber: string,
+): Promise<void> {
+  const supabase = getServiceClient()
+  const conversion = {
+    status: 'converted',
+    converted_at: new Date().toISOString(),
+    order_number: orderNumber,
+    order_total: session.amount_total || 0,
+  }
+
+  const { error } = await supabase
+    .from('temp_carts')
+    .update(conversion)
+    .eq('stripe_session_id', session.id)
+    .is('converted_at', null)
+  if (error) console.error('[CART-RECOVERY] Cart conversion failed:', error)
+
+  const recoveredFrom = session.metadata?.recovered_cart
+  if (isCartId(recoveredFrom)) {
+    const { error: recoveredError } = await supabase
+      .from('temp_carts')
+      .update(conversion)
+      .eq('id', recoveredFrom)
+      .is('converted_at', null)
+    if (recoveredError) console.error('[CART-RECOVERY] Recovered cart conversion failed:', recoveredError)
+    else console.log(`[CART-RECOVERY] Cart ${recoveredFrom} recovered as order ${orderNumber}`)
+  }
+}
+
+export type RestoreResult =
+  | { items: CartItem[]; cartId: string }
+  | { error: string; code: 'invalid' | 'expired' | 'converted' }
+
+/** Recovery link opened: hand back the cart and record the click */
+export async function restoreCart(token: string): Promise<RestoreResult> {
+  const cartId = verifyCartRecoveryToken(token)
+  if (!cartId) return { error: 'This link is not valid.', code: 'invalid' }
+
+  const supabase = getServiceClient()
+  const { data: cart, error } = await supabase
+    .from('temp_carts')
+    .select('id, items, status, expires_at, recovered_at')
+    .eq('id', cartId)
+    .maybeSingle()
+  if (error) throw new Error(`Cart lookup failed: ${error.message}`)
+  if (!cart) return { error: 'This link is not valid.', code: 'invalid' }
+  if (cart.status === 'converted') return { error: 'This order has already been placed.', code: 'converted' }
+  if (cart.expires_at && new Date(cart.expires_at) < new Date()) {
+    return { error: 'This link has expired.', code: 'expired' }
+  }
+
+  if (!cart.recovered_at) {
+    await supabase
+      .from('temp_carts')
+      .update({ recovered_at: new Date().toISOString(), status: 'recovered' })
+      .eq('id', cart.id)
+      .in('status', ['abandoned', 'closed'])
+  }
+
+  return { items: Array.isArray(cart.items) ? cart.items : [], cartId: cart.id }
+}
+
+// ---- Unsubscribe ----
+
+export type UnsubscribeResult =
+  | { email: string }
+  | { error: string; code: 'invalid' }
+
+/** Unsubscribe link used: suppress the address and stop every sequence it's in */
+export async function unsubscribeFromRecovery(token: string): Promise<UnsubscribeResult> {
+  const cartId = verifyCartUnsubscribeToken(token)
+  if (!cartId) return { error: 'This link is not valid.', code: 'invalid' }
+
+  const supabase = getServiceClient()
+  const { data: cart, error } = await supabase
+    .from('temp_carts')
+    .select('id, email')
+    .eq('id', cartId)
+    .maybeSingle()
+  if (error) throw new Error(`Cart lookup failed: ${error.message}`)
+  if (!cart?.email) return { error: 'This link is not valid.', code: 'invalid' }
+
+  const email = cart.email.trim().toLowerCase()
+  const { error: suppressError } = await supabase
+    .from('marketing_suppressions')
+    .upsert({ email, source: 'cart_recovery' }, { onConflict: 'email', ignoreDuplicates: true })
+  if (suppressError) throw new Error(`Unsubscribe failed: ${suppressError.message}`)
+
+  await supabase
+    .from('temp_carts')
+    .update({ status: 'closed' })
+    .ilike('email', likeExact(email))
+    .eq('status', 'abandoned')
+
+  console.log(`[CART-RECOVERY] ${email} unsubscribed from cart reminders`)
+  return { email }
+}
+
+/** Which of these addresses have unsubscribed (lower-cased) */
+async function suppressedEmails(supabase: SupabaseClient, emails: string[]): Promise<Set<string>> {
+  const wanted = Array.from(new Set(emails.map(e => e.trim().toLowerCase())))
+  if (wanted.length === 0) return new Set()
+
+  const { data, error } = await supabase
+    .from('marketing_suppressions')
+    .select('email')
+    .in('email', wanted)
+  if (error) throw new Error(`Suppression lookup failed: ${error.message}`)
+  return new Set((data || []).map(row => row.email))
+}
+
+// ---- Recovery emails (cron) ----
+
+export interface RecoveryRunSummary {
+  sent: number
+  closed: number
+  failed: number
+}
+
+/**
+ * Send every recovery email that has come due, soonest first — carts waiting
+ * on a later step are never read early, so they can't crowd out new ones.
+ * Stops a cart's sequence once it converts, the link is clicked, or the same
+ * email has ordered since.
+ */
+export async function sendDueRecoveryEmails(): Promise<RecoveryRunSummary> {
+  const supabase = getServiceClient()
+  const now = new Date().toISOString()
+
+  const { data: carts, error } = await supabase
+    .from('temp_carts')
+    .select('id, email, items, total, created_at, abandoned_at, recovery_emails_sent')
+    .eq('status', 'abandoned')
+    .lte('next_recovery_at', now)
+    .order('next_recovery_at', { ascending: true })
+    .limit(BATCH_SIZE)
+  if (error) throw new Error(`Failed to load abandoned carts: ${error.message}`)
+
+  const summary: RecoveryRunSummary = { sent: 0, closed: 0, failed: 0 }
+  const suppressed = await suppressedEmails(supabase, (carts || []).map(c => c.email))
+
+  for (const cart of carts || []) {
+    const step: number = cart.recovery_emails_sent || 0
+
+    if (suppressed.has(cart.email.trim().toLowerCase())) {
+      await supabase.from('temp_carts').update({ status: 'closed' }).eq('id', cart.id)
+      summary.closed++
+      continue
+    }
+
+    const { data: laterOrder } = await supabase
+      .from('app_shop_orders')
+      .select('id')
+      .ilike('email', likeExact(cart.email))
+      .gt('created_at', cart.created_at)
+      .limit(1)
+      .maybeSingle()
+    if (laterOrder) {
+      await supabase.from('temp_carts').update({ status: 'closed' }).eq('id', cart.id)
+      summary.closed++
+      continue
+    }
+
+    // Links first — if signing fails the step must not be claimed unsent
+    const links = {
+      recoveryUrl: cartRecoveryUrl(cart.id),
+      unsubscribeUrl: cartUnsubscribeUrl(cart.id),
+      listUnsubscribeUrl: cartUnsubscribeApiUrl(cart.id),
+    }
+
+    // Claim the step first so overlapping runs can't send it twice
+    const { data: claimed } = await supabase
+      .from('temp_carts')
+      .update({
+        recovery_emails_sent: step + 1,
+        last_recovery_email_at: new Date().toISOString(),
+        next_recovery_at: nextRecoveryAt(cart.abandoned_at, step + 1),
+        ...(step + 1 >= RECOVERY_SCHEDULE_HOURS.length ? { status: 'closed' } : {}),
+      })
+      .eq('id', cart.id)
+      .eq('recovery_emails_sent', step)
+      .select('id')
+    if (!claimed || claimed.length === 0) continue
+
+    try {
+      const items: CartItem[] = Array.isArray(cart.items) ? cart.items : []
+      await sendCartRecoveryEmail({
+        step,
+        items: items.map(i => ({ name: i.name, quantity: i.quantity, price: i.price / 100, size: i.size, color: i.color })),
+        total: Number(cart.total) || 0,
+        ...links,
+      }, cart.email)
+      summary.sent++
+    } catch (err) {
+      console.error(`[CART-RECOVERY] Email failed for cart ${cart.id}:`, err)
+      summary.failed++
+    }
+  }
+
+  return summary
+}
+
+// ---- Admin stats ----
+
+export interface RecoveryStats {
+  abandoned: number   // expired unpaid with an email on file
+  emailed: number
+  clicked: number
+  converted: number
+  revenue: number     // cents from recovered orders
+}
+
+export async function getRecoveryStats(since: Date, until: Date): Promise<RecoveryStats> {
+  const supabase = getServiceClient()
+  const { data, error } = await supabase
+    .from('temp_carts')
+    .select('recovery_emails_sent, recovered_at, converted_at, order_total')
+    .not('abandoned_at', 'is', null)
+    .not('email', 'is', null)
+    .gte('abandoned_at', since.toISOString())
+    .lte('abandoned_at', until.toISOString())
+  if (error) throw new Error(`Failed to load recovery stats: ${error.message}`)
+
+  const stats: RecoveryStats = { abandoned: 0, emailed: 0, clicked: 0, converted: 0, revenue: 0 }
+  for (const cart of data || []) {
+    stats.abandoned++
+    if (cart.recovery_emails_sent > 0) stats.emailed++
+    if (cart.recovered_at) stats.clicked++
+    if (cart.converted_at) {
+      stats.converted++
+      stats.revenue += Number(cart.order_total) || 0
+    }
+  }
+  return stats
+}
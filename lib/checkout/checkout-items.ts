@@ -0,0 +1,71 @@
+import { createClient } from '@supabase/supabase-js'
+import type { PricedLine } from './pricing'
+
+// ============================================
+// CHECKOUT ITEMS (server-only)
+// The priced lines of a Checkout Session. Stripe metadata values stop at 500
+// characters, so checkout keeps the lines in checkout_items and only the row
+// id travels with the session (metadata.items_ref).
+// ============================================
+
+function getServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+/** One order line as stored on app_shop_orders.items */
+export interface CheckoutItem {
+  variant_id: string | null
+  product_type?: string | null  // product_types.key — labels and returns pack by it (older orders: by SKU)
+  sku: string
+  name: string
+  design: string
+  color: string
+  size: string
+  qty: number
+  price: number              // cents, catalog unit price
+  paid: number               // cents, line total after promo
+  image: string | null
+  weight?: number            // kg, only when the variant overrides the type's weight
+  preorder_ships_at?: string // YYYY-MM-DD
+}
+
+/** A priced line as it's stored on the order; `paid` is the line total after promo */
+export function toCheckoutItem(line: PricedLine, paid: number): CheckoutItem {
+  return {
+    variant_id: line.variantId,
+    product_type: line.productType,
+    sku: line.sku,
+    name: line.name,
+    design: line.design,
+    color: line.color,
+    size: line.size,
+    qty: line.quantity,
+    price: line.price,
+    paid,
+    image: line.image,
+    // Only when the variant overrides the type's weight
+    ...(line.weight ? { weight: line.weight } : {}),
+    ...(line.preorderShipsAt ? { preorder_ships_at: line.preorderShipsAt } : {}),
+  }
+}
+
+export async function saveCheckoutItems(id: string, items: CheckoutItem[]): Promise<void> {
+  const { error } = await getServiceClient()
+    .from('checkout_items')
+    .insert({ id, items })
+  if (error) throw new Error(`Checkout items save failed: ${error.message}`)
+}
+
+/** The lines saved for a session — null when the row is missing */
+export async function loadCheckoutItems(id: string): Promise<CheckoutItem[] | null> {
+  const { data, error } = await getServiceClient()
+    .from('checkout_items')
+    .select('items')
+    .eq('id', id)
+    .maybeSingle()
+  if (error) throw new Error(`Checkout items lookup failed: ${error.message}`)
+  return data ? (data.items as CheckoutItem[]) : null
+}
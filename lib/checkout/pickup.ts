@@ -0,0 +1,134 @@
+import { createClient } from '@supabase/supabase-js'
+
+// ============================================
+// PICKUP LOCATIONS (server-only)
+// Maintained in /admin/pickup. Checkout offers every active location as a
+// $0 option for Canadian carts; the webhook copies the chosen one onto the
+// order (pickup_location) so later edits don't change what the customer saw.
+// ============================================
+
+function getServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+export interface PickupLocation {
+  id: string
+  name: string
+  street: string
+  city: string
+  province: string
+  postal_code: string
+  hours: string
+  instructions: string | null
+  active: boolean
+  sort_order: number
+}
+
+/** What the checkout shows — no admin-only fields */
+export type PickupSnapshot = Omit<PickupLocation, 'active' | 'sort_order'>
+
+/** app_shop_orders.pickup_location — the location as it was, and who's collecting */
+export interface OrderPickup extends PickupSnapshot {
+  customer_name: string | null
+  customer_phone: string | null
+}
+
+const COLUMNS = 'id, name, street, city, province, postal_code, hours, instructions, active, sort_order'
+
+export async function getPickupLocations(activeOnly = true): Promise<{ locations: PickupLocation[]; error?: string }> {
+  let query = getServiceClient()
+    .from('pickup_locations')
+    .select(COLUMNS)
+    .order('sort_order')
+    .order('name')
+  if (activeOnly) query = query.eq('active', true)
+
+  const { data, error } = await query
+  if (error) {
+    console.error('[pickup] Location read failed:', error.message)
+    return { locations: [], error: error.message }
+  }
+  return { locations: (data || []) as PickupLocation[] }
+}
+
+/** One location by id, active or not (null if it doesn't exist) */
+export async function getPickupLocation(id: string): Promise<PickupLocation | null> {
+  const { data, error } = await getServiceClient()
+    .from('pickup_locations')
+    .select(COLUMNS)
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('[pickup] Location lookup failed:', error.message)
+    return null
+  }
+  return data as PickupLocation | null
+}
+
+export function pickupSnapshot(location: PickupLocation): PickupSnapshot {
+  return {
+    id: location.id,
+    name: location.name,
+    street: location.street,
+    city: location.city,
+    province: location.province,
+    postal_code: location.postal_code,
+    hours: location.hours,
+    instructions: location.instructions,
+  }
+}
+
+export interface PickupLocationInput {
+  id?: string
+  name: string
+  street: string
+  city: string
+  province: string
+  postal_code: string
+  hours: string
+  instructions?: string | null
+  active?: boolean
+  sort_order?: number
+}
+
+/** Create (no id) or update a location */
+export async function savePickupLocation(input: PickupLocationInput): Promise<{ location?: PickupLocation; error?: string }> {
+  const name = input.name?.trim()
+  const street = input.street?.trim()
+  const city = input.city?.trim()
+  const province = input.province?.trim().toUpperCase()
+  const postal = input.postal_code?.replace(/\s/g, '').toUpperCase()
+
+  if (!name || !street || !city) return { error: 'Name, street and city are required' }
+  if (!/^[A-Z]{2}$/.test(province || '')) return { error: 'Province must be a 2-letter code' }
+  if (!/^[A-Z]\d[A-Z]\d[A-Z]\d$/.test(postal || '')) return { error: 'Invalid postal code' }
+
+  const row = {
+    name,
+    street,
+    city,
+    province,
+    postal_code: `${postal!.slice(0, 3)} ${postal!.slice(3)}`,
+    hours: input.hours?.trim() || '',
+    instructions: input.instructions?.trim() || null,
+    active: input.active ?? true,
+    sort_order: Number.isFinite(input.sort_order) ? Math.round(input.sort_order!) : 0,
+    updated_at: new Date().toISOString(),
+  }
+
+  const supabase = getServiceClient()
+  const { data, error } = input.id
+    ? await supabase.from('pickup_locations').update(row).eq('id', input.id).select(COLUMNS).single()
+    : await supabase.from('pickup_locations').insert(row).select(COLUMNS).single()
+
+  if (error) {
+    console.error('[pickup] Location write failed:', error.message)
+    return { error: error.message }
+  }
+  console.log(`[pickup] ${input.id ? 'Updated' : 'Created'} location ${name}${row.active ? '' : ' (inactive)'}`)
+  return { location: data as PickupLocation }
+}
@@ -1,4 +1,4 @@
-/** Canadian postal code utilities — extracted from cart page */
+/** Postal code utilities — Canadian postal codes and US ZIP codes */
 
 // First letter of FSA → province(s)
 export const POSTAL_PROVINCE: Record<string, string[]> = {
@@ -19,13 +19,35 @@ export function detectProvinceFromPostal(postal: string): string | null {
   return provinces[0];
 }
 
+/** Whether a Canadian postal code can be in the province (X covers both NT and NU) */
+export function postalMatchesProvince(postal: string, province: string): boolean {
+  const provinces = POSTAL_PROVINCE[postal.trim().charAt(0).toUpperCase()];
+  return !!provinces && provinces.includes(province.trim().toUpperCase());
+}
+
 /** Validate a full Canadian postal code (A1A 1A1 or A1A1A1) */
 export function isValidCanadianPostal(postal: string): boolean {
   return /^[A-Z]\d[A-Z]\s?\d[A-Z]\d$/i.test(postal.trim());
 }
 
-/** Format a raw postal string to "A1A 1A1" */
-export function formatPostalCode(value: string): string {
+/** Validate a US ZIP or ZIP+4 (12345, 12345-6789) */
+export function isValidUsZip(zip: string): boolean {
+  return /^\d{5}(-?\d{4})?$/.test(zip.trim());
+}
+
+/** Validate a postal code for the destination country (CA or US) */
+export function isValidPostal(postal: string, country: string = 'CA'): boolean {
+  if (country === 'US') return isValidUsZip(postal);
+  if (country === 'CA') return isValidCanadianPostal(postal);
+  return false;
+}
+
+/** Format a raw postal string to "A1A 1A1", or "12345-6789" for US ZIPs */
+export function formatPostalCode(value: string, country: string = 'CA'): string {
+  if (country === 'US') {
+    const digits = value.replace(/\D/g, '').slice(0, 9);
+    return digits.length > 5 ? `${digits.slice(0, 5)}-${digits.slice(5)}` : digits;
+  }
   let val = value.toUpperCase().replace(/\s/g, '');
   if (val.length > 3) val = val.slice(0, 3) + ' ' + val.slice(3);
   if (val.length > 7) val = val.slice(0, 7);
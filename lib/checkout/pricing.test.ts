@@ -0,0 +1,121 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { SEED_CATALOG } from '@/lib/catalog/catalog'
+import { checkCartItems, priceCartLines, type CartLineInput } from './pricing'
+
+function product(overrides: Record<string, any> = {}) {
+  return {
+    id: 'p1',
+    sku: 'OSC002',
+    name: 'Logo Tee',
+    base_price: 32,
+    product_type: 'cotton-tee',
+    sizes: ['M', 'L'],
+    colors: ['Black'],
+    is_active: true,
+    stripe_price_id: null,
+    stripe_price_amount: null,
+    publish_at: null,
+    unpublish_at: null,
+    early_access_at: null,
+    category: null,
+    ...overrides,
+  }
+}
+
+function variant(overrides: Record<string, any> = {}) {
+  return {
+    id: 'v1',
+    product_id: 'p1',
+    sku: 'CTEE-OSC002-BLK-M',
+    size: 'M',
+    color: 'Black',
+    price_override: null,
+    weight: null,
+    images: [],
+    is_active: true,
+    track_stock: true,
+    stock_quantity: 10,
+    reserved_quantity: 0,
+    preorder_enabled: false,
+    preorder_ships_at: null,
+    ...overrides,
+  }
+}
+
+function item(overrides: Partial<CartLineInput> = {}): CartLineInput {
+  return { product_key: 'OSC002', quantity: 1, color: 'Black', size: 'M', ...overrides }
+}
+
+test('prices lines from the catalog, with the variant’s SKU and price override', () => {
+  const variants = [variant(), variant({ id: 'v2', sku: 'CTEE-OSC002-BLK-L', size: 'L', price_override: 35 })]
+  const cart = priceCartLines([item({ quantity: 2 }), item({ size: 'L' })], [product()], variants, SEED_CATALOG)
+
+  assert.equal(cart.error, undefined)
+  assert.deepEqual(cart.lines.map(l => [l.variantId, l.sku, l.price]), [
+    ['v1', 'CTEE-OSC002-BLK-M', 3200],
+    ['v2', 'CTEE-OSC002-BLK-L', 3500],
+  ])
+  assert.equal(cart.lines[0].productType, 'cotton-tee')
+  assert.equal(cart.subtotal, 3200 * 2 + 3500)
+})
+
+test('refuses a line shown at a price the catalog no longer charges', () => {
+  const variants = [variant({ price_override: 35 })]
+
+  const stale = priceCartLines([item({ price: 3200 })], [product()], variants, SEED_CATALOG)
+  assert.equal(stale.code, 'price_mismatch')
+  assert.deepEqual(stale.lines, [])
+
+  assert.equal(priceCartLines([item({ price: 3500 })], [product()], variants, SEED_CATALOG).error, undefined)
+})
+
+test('refuses inactive products and variants', () => {
+  const inactive = priceCartLines([item()], [product({ is_active: false })], [variant()], SEED_CATALOG)
+  assert.equal(inactive.code, 'unknown_product')
+  assert.equal(inactive.error, 'Logo Tee is no longer available')
+
+  const retired = priceCartLines([item()], [product()], [variant({ is_active: false })], SEED_CATALOG)
+  assert.equal(retired.code, 'unknown_product')
+  assert.equal(retired.error, 'Logo Tee (Black / M) is no longer available')
+})
+
+test('prices bare product types and refuses unknown keys', () => {
+  const bare = priceCartLines([{ product_key: 'cotton-tee', quantity: 1, size: 'M' }], [], [], SEED_CATALOG)
+  assert.deepEqual(bare.lines.map(l => [l.productId, l.sku, l.price]), [[null, 'OS-CTN-TEE', 2999]])
+
+  const unknown = priceCartLines([{ product_key: 'no-such-thing', quantity: 1 }], [], [], SEED_CATALOG)
+  assert.equal(unknown.code, 'unknown_product')
+  assert.equal(unknown.error, 'Unknown product: no-such-thing')
+})
+
+test('keeps quantities between 1 and 99', () => {
+  for (const quantity of [0, -1, 1.5, 100]) {
+    assert.equal(checkCartItems([item({ quantity })])?.code, 'invalid_item', String(quantity))
+  }
+  assert.equal(checkCartItems([item({ quantity: 1 }), item({ quantity: 99 })]), null)
+  assert.equal(checkCartItems([])?.error, 'Cart is empty')
+})
+
+test('flags pre-orders on the whole cart’s demand for a variant', () => {
+  const variants = [variant({
+    stock_quantity: 3,
+    reserved_quantity: 1,
+    preorder_enabled: true,
+    preorder_ships_at: '2026-12-01',
+  })]
+
+  // 2 left: one line of 2 fits, and so do two lines of 1
+  const fits = priceCartLines([item({ quantity: 1 }), item({ variant_id: 'v1', quantity: 1 })], [product()], variants, SEED_CATALOG)
+  assert.deepEqual(fits.lines.map(l => l.preorderShipsAt), [null, null])
+
+  // Neither line alone is short, but together they are
+  const short = priceCartLines([item({ quantity: 2 }), item({ variant_id: 'v1', quantity: 1 })], [product()], variants, SEED_CATALOG)
+  assert.deepEqual(short.lines.map(l => l.preorderShipsAt), ['2026-12-01', '2026-12-01'])
+})
+
+test('does not flag pre-orders for variants that don’t take them', () => {
+  const variants = [variant({ stock_quantity: 1, preorder_ships_at: '2026-12-01' })]
+  const cart = priceCartLines([item({ quantity: 3 })], [product()], variants, SEED_CATALOG)
+  assert.equal(cart.lines[0].preorderShipsAt, null)
+})
@@ -0,0 +1,254 @@
+import { createClient } from '@supabase/supabase-js'
+import { getProductCatalog } from '@/lib/catalog/product-types'
+import { chargeablePriceId, type ProductCatalog, type ProductType } from '@/lib/catalog/catalog'
+import { findVariant, inMatrix, VARIANT_COLUMNS } from '@/lib/catalog/variants'
+import { CATEGORY_SCHEDULE_SELECT, canBuy, dropState, productSchedule } from '@/lib/catalog/schedule'
+
+// ============================================
+// SERVER-SIDE CART PRICING
+// Every cart line is re-priced from the catalog (app_shop_products, then
+// product_types). Client-sent prices are only compared, never charged.
+// Lines for products with a variant matrix resolve to one variant row, whose
+// price override, SKU and weight win over the product's. A sold-out variant
+// that takes pre-orders is sold as a pre-order rather than refused.
+// ============================================
+
+const MAX_QUANTITY = 99
+
+export interface CartLineInput {
+  product_key: string
+  variant_id?: string | null  // app_shop_product_variants.id — carts from before variants match on size/color
+  quantity: number
+  price?: number // cents, as shown to the customer — checked against the catalog
+  name?: string
+  design?: string
+  color?: string
+  size?: string
+  image?: string | null
+}
+
+export interface PricedLine {
+  product_key: string
+  productId: string | null    // app_shop_products.id — null for bare product type keys
+  variantId: string | null    // app_shop_product_variants.id — null when the product has no variants
+  sku: string                 // the variant's SKU when there is one
+  name: string
+  price: number               // cents (CAD), from the catalog
+  quantity: number
+  priceId: string | null      // Stripe price — only set when it charges exactly `price`
+  productType: string | null  // product_types.key
+  category: string | null     // the type's category, for promo eligibility
+  design: string
+  color: string
+  size: string
+  weight: number | null       // kg, variant override — null = the type's weight
+  image: string | null
+  preorderShipsAt: string | null  // YYYY-MM-DD when this line is a pre-order
+}
+
+export interface PricedCart {
+  lines: PricedLine[]
+  subtotal: number // cents
+  error?: string
+  code?: 'invalid_item' | 'unknown_product' | 'price_mismatch' | 'not_released'
+}
+
+export interface PriceCartOptions {
+  member?: boolean  // signed in — can buy drops in their early-access window
+}
+
+function getServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/** Fetch active catalog rows whose sku or id is one of the cart's product keys */
+async function fetchCatalogRows(keys: string[]): Promise<any[]> {
+  const supabase = getServiceClient()
+  const columns = `id, sku, name, base_price, product_type, sizes, colors, is_active, stripe_price_id, stripe_price_amount, publish_at, unpublish_at, early_access_at, ${CATEGORY_SCHEDULE_SELECT}`
+
+  const { data: bySku, error } = await supabase
+    .from('app_shop_products')
+    .select(columns)
+    .in('sku', keys)
+  if (error) throw new Error(`Catalog lookup failed: ${error.message}`)
+
+  const ids = keys.filter(k => UUID_RE.test(k))
+  if (ids.length === 0) return bySku || []
+
+  const { data: byId, error: idError } = await supabase
+    .from('app_shop_products')
+    .select(columns)
+    .in('id', ids)
+  if (idError) throw new Error(`Catalog lookup failed: ${idError.message}`)
+
+  return [...(bySku || []), ...(byId || [])]
+}
+
+/** Every variant row of the cart's products */
+async function fetchVariantRows(productIds: string[]): Promise<any[]> {
+  if (productIds.length === 0) return []
+  const { data, error } = await getServiceClient()
+    .from('app_shop_product_variants')
+    .select(VARIANT_COLUMNS)
+    .in('product_id', productIds)
+  if (error) throw new Error(`Variant lookup failed: ${error.message}`)
+  return data || []
+}
+
+/**
+ * Price a cart from the catalog. Returns `error` (and no lines) when any line
+ * is unknown, inactive, outside its drop window, malformed, or was shown to
+ * the customer at a price that no longer matches the catalog.
+ */
+export async function priceCart(items: CartLineInput[], options: PriceCartOptions = {}): Promise<PricedCart> {
+  const invalid = checkCartItems(items)
+  if (invalid) return invalid
+
+  const keys = Array.from(new Set(items.map(i => i.product_key)))
+  const [rows, catalog] = await Promise.all([fetchCatalogRows(keys), getProductCatalog()])
+  const variantRows = await fetchVariantRows(Array.from(new Set(rows.map(r => r.id))))
+  return priceCartLines(items, rows, variantRows, catalog, options)
+}
+
+/** The cart's shape, checked before anything is looked up — null when it's fine */
+export function checkCartItems(items: CartLineInput[]): PricedCart | null {
+  if (!Array.isArray(items) || items.length === 0) {
+    return { lines: [], subtotal: 0, error: 'Cart is empty', code: 'invalid_item' }
+  }
+
+  for (const item of items) {
+    if (!item?.product_key || typeof item.product_key !== 'string') {
+      return { lines: [], subtotal: 0, error: 'Invalid cart item', code: 'invalid_item' }
+    }
+    if (!Number.isInteger(item.quantity) || item.quantity < 1 || item.quantity > MAX_QUANTITY) {
+      return { lines: [], subtotal: 0, error: `Invalid quantity for ${item.name || item.product_key}`, code: 'invalid_item' }
+    }
+  }
+  return null
+}
+
+/**
+ * Price checked cart lines against the catalog rows and variant rows fetched
+ * for them. `rows` are app_shop_products rows; keys that match none of them
+ * fall back to bare product types in `catalog`.
+ */
+export function priceCartLines(
+  items: CartLineInput[],
+  rows: any[],
+  variantRows: any[],
+  catalog: ProductCatalog,
+  options: PriceCartOptions = {},
+): PricedCart {
+  const rowByKey = new Map<string, any>()
+  for (const row of rows) {
+    if (row.sku) rowByKey.set(row.sku, row)
+    rowByKey.set(row.id, row)
+  }
+
+  const lines: PricedLine[] = []
+  for (const item of items) {
+    const row = rowByKey.get(item.product_key)
+    let productId: string | null = null
+    let variant: any = null
+    let name: string
+    let sku: string
+    let price: number
+    let type: ProductType | null
+
+    if (row) {
+      if (!row.is_active) {
+        return { lines: [], subtotal: 0, error: `${row.name} is no longer available`, code: 'unknown_product' }
+      }
+      const schedule = productSchedule(row)
+      if (!canBuy(schedule, !!options.member)) {
+        return dropState(schedule) === 'ended'
+          ? { lines: [], subtotal: 0, error: `${row.name} is no longer available`, code: 'unknown_product' }
+          : { lines: [], subtotal: 0, error: `${row.name} hasn't dropped yet`, code: 'not_released' }
+      }
+      productId = row.id
+      sku = row.sku || row.id
+      name = row.name
+      type = catalog.resolve(row.product_type, row.sku)
+      price = row.base_price != null ? Math.round(Number(row.base_price) * 100) : type?.price ?? 0
+
+      const sizes: string[] = row.sizes || []
+      if (sizes.length > 0 && item.size && !sizes.includes(item.size)) {
+        return { lines: [], subtotal: 0, error: `Size ${item.size} is not available for ${row.name}`, code: 'invalid_item' }
+      }
+
+      const variants = variantRows.filter(v => v.product_id === row.id)
+      if (variants.length > 0) {
+        variant = item.variant_id
+          ? variants.find(v => v.id === item.variant_id)
+          : findVariant(variants, item.color || row.colors?.[0] || '', item.size || sizes[0] || '')
+        if (!variant || !variant.is_active || !inMatrix(variant, row.sizes, row.colors)) {
+          const option = [item.color, item.size].filter(Boolean).join(' / ')
+          return { lines: [], subtotal: 0, error: `${row.name}${option ? ` (${option})` : ''} is no longer available`, code: 'unknown_product' }
+        }
+        if (variant.sku) sku = variant.sku
+        if (variant.price_override != null) price = Math.round(Number(variant.price_override) * 100)
+      }
+    } else if (catalog.get(item.product_key)?.active) {
+      // Bare type keys like 'cotton-tee'
+      type = catalog.get(item.product_key)!
+      sku = type.sku || type.key
+      name = type.name
+      price = type.price
+    } else {
+      return { lines: [], subtotal: 0, error: `Unknown product: ${item.product_key}`, code: 'unknown_product' }
+    }
+
+    if (price <= 0) {
+      return { lines: [], subtotal: 0, error: `${name} has no price configured`, code: 'unknown_product' }
+    }
+
+    if (item.price !== undefined && item.price !== price) {
+      return {
+        lines: [],
+        subtotal: 0,
+        error: `The price of ${name} has changed — please refresh your cart`,
+        code: 'price_mismatch',
+      }
+    }
+
+    lines.push({
+      product_key: item.product_key,
+      productId,
+      variantId: variant?.id ?? null,
+      sku,
+      name,
+      price,
+      quantity: item.quantity,
+      priceId: chargeablePriceId(row ?? null, type, price),
+      productType: type?.key ?? null,
+      category: type?.category ?? null,
+      design: item.design || '',
+      // The variant row is the source of truth for what's being bought
+      color: variant ? variant.color : item.color || '',
+      size: variant ? variant.size : item.size || '',
+      weight: variant?.weight != null ? Number(variant.weight) : null,
+      image: item.image || null,
+      preorderShipsAt: null,
+    })
+  }
+
+  // Pre-orders: judged on the whole cart's demand for each variant, the way reserve_stock holds it
+  const demand = new Map<string, number>()
+  for (const line of lines) {
+    if (line.variantId) demand.set(line.variantId, (demand.get(line.variantId) || 0) + line.quantity)
+  }
+  for (const line of lines) {
+    const v = line.variantId ? variantRows.find(r => r.id === line.variantId) : null
+    if (v?.track_stock && v.preorder_enabled && v.preorder_ships_at && v.stock_quantity - v.reserved_quantity < demand.get(v.id)!) {
+      line.preorderShipsAt = v.preorder_ships_at
+    }
+  }
+
+  const subtotal = lines.reduce((sum, l) => sum + l.price * l.quantity, 0)
+  return { lines, subtotal }
+}
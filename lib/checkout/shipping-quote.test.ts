@@ -0,0 +1,125 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { SEED_CATALOG } from '@/lib/catalog/catalog'
+import { toCheckoutItem } from './checkout-items'
+import type { RateQuote } from '@/lib/canada-post/types'
+import type { PricedLine } from './pricing'
+import { cartParcels, orderParcels, packageHash, signShippingQuote, verifyShippingQuote } from './shipping-quote'
+
+process.env.SHIPPING_QUOTE_SECRET = 'test-quote-secret'
+
+function line(overrides: Partial<PricedLine>): PricedLine {
+  return {
+    product_key: 'cotton-tee',
+    productId: null,
+    variantId: null,
+    sku: 'OS-CTN-TEE',
+    name: 'OnSite Cotton Tee',
+    price: 2999,
+    quantity: 1,
+    priceId: null,
+    productType: 'cotton-tee',
+    category: 'apparel',
+    design: '',
+    color: 'Black',
+    size: 'M',
+    weight: null,
+    image: null,
+    preorderShipsAt: null,
+    ...overrides,
+  }
+}
+
+/** What the label is bought for, from the lines checkout stores on the order */
+function labelParcels(lines: PricedLine[]) {
+  return orderParcels(lines.map(l => toCheckoutItem(l, l.price * l.quantity)), SEED_CATALOG)
+}
+
+test('labels pack bare product-type lines the way they were quoted', () => {
+  const lines = [
+    line({ quantity: 2 }),
+    line({ product_key: 'sticker-kit', productType: 'sticker-kit', sku: 'OS-STICKER', name: 'OnSite Sticker Kit', price: 999 }),
+  ]
+  const quoted = cartParcels(lines, SEED_CATALOG)
+  const labelled = labelParcels(lines)
+
+  assert.equal(packageHash(labelled), packageHash(quoted))
+  assert.equal(labelled.reduce((n, p) => n + p.items.length, 0), 2)
+})
+
+test('labels pack products whose SKU has no type prefix the way they were quoted', () => {
+  const lines = [
+    line({ product_key: 'OSC001-HOOD', productId: 'p1', productType: 'hoodie', sku: 'OSC001-HOOD', name: 'OnSite Hoodie', price: 4999 }),
+    line({ product_key: 'OSC002', productId: 'p2', variantId: 'v2', sku: 'CTEE-OSC002-BLK-L', size: 'L', weight: 0.4 }),
+  ]
+
+  assert.equal(packageHash(labelParcels(lines)), packageHash(cartParcels(lines, SEED_CATALOG)))
+})
+
+test('orders stored before lines carried their type still pack by SKU', () => {
+  const parcels = orderParcels([{ sku: 'CTEE-OSC002-BLK-L', qty: 3 }], SEED_CATALOG)
+  assert.equal(parcels[0].items[0].productKey, 'CTEE-OSC002-BLK-L')
+  assert.equal(parcels[0].items[0].quantity, 3)
+})
+
+const QUOTE: RateQuote = {
+  serviceCode: 'DOM.EP',
+  serviceName: 'Expedited Parcel',
+  priceTotal: 14.25,
+  priceTotalCents: 1425,
+  expectedTransitDays: 2,
+  expectedDeliveryDate: null,
+  guaranteedDelivery: true,
+}
+const DESTINATION = { postal: 'M5V 2T6', country: 'CA', pkg: 'abc123' }
+
+function sign() {
+  return signShippingQuote(QUOTE, { ...DESTINATION, source: 'canada-post' })
+}
+
+/** A token whose claims were edited after signing */
+function tampered(token: string, edit: Record<string, unknown>) {
+  const [payload, sig] = token.split('.')
+  const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+  return `${Buffer.from(JSON.stringify({ ...claims, ...edit })).toString('base64url')}.${sig}`
+}
+
+test('accepts a quote for the destination and package it was issued for', () => {
+  const claims = verifyShippingQuote(sign(), { ...DESTINATION, postal: 'm5v2t6' })
+  assert.equal(claims?.serviceCode, 'DOM.EP')
+  assert.equal(claims?.amount, 1425)
+  assert.equal(claims?.source, 'canada-post')
+})
+
+test('rejects quotes whose amount or service was changed', () => {
+  const token = sign()
+  assert.equal(verifyShippingQuote(tampered(token, { amount: 1 }), DESTINATION), null)
+  assert.equal(verifyShippingQuote(tampered(token, { serviceCode: 'DOM.PC' }), DESTINATION), null)
+  assert.equal(verifyShippingQuote(`${token.split('.')[0]}.`, DESTINATION), null)
+  assert.equal(verifyShippingQuote(undefined, DESTINATION), null)
+})
+
+test('rejects quotes issued for another destination or package', () => {
+  const token = sign()
+  assert.equal(verifyShippingQuote(token, { ...DESTINATION, postal: 'H2X 1Y4' }), null)
+  assert.equal(verifyShippingQuote(token, { ...DESTINATION, country: 'US' }), null)
+  assert.equal(verifyShippingQuote(token, { ...DESTINATION, pkg: 'def456' }), null)
+})
+
+test('rejects expired quotes', (t) => {
+  const token = sign()
+  const issued = Date.now()
+  t.mock.method(Date, 'now', () => issued + 31 * 60 * 1000)
+  assert.equal(verifyShippingQuote(token, DESTINATION), null)
+})
+
+test('rejects quotes signed with another secret', () => {
+  const token = sign()
+  process.env.SHIPPING_QUOTE_SECRET = 'rotated-quote-secret'
+  try {
+    assert.equal(verifyShippingQuote(token, DESTINATION), null)
+    assert.ok(verifyShippingQuote(sign(), DESTINATION))
+  } finally {
+    process.env.SHIPPING_QUOTE_SECRET = 'test-quote-secret'
+  }
+})
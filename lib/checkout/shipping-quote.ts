@@ -0,0 +1,134 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto'
+import { getCachedRates, packageProfile, type CachedRateResponse } from '@/lib/canada-post/rate-cache'
+import { packParcels, type Parcel } from '@/lib/canada-post/packing'
+import type { RateQuote } from '@/lib/canada-post/types'
+import type { ProductCatalog } from '@/lib/catalog/catalog'
+import type { PricedLine } from './pricing'
+
+// ============================================
+// SIGNED SHIPPING QUOTES (server-only)
+// /api/shipping/rates signs each quote it returns; /api/checkout charges the
+// signed amount only when the token still matches the cart and destination,
+// and re-quotes otherwise. The browser never sets its own shipping price.
+// ============================================
+
+// Long enough to fill in the checkout modal, short enough that prices stay current
+const QUOTE_TTL_MS = 30 * 60 * 1000
+
+export interface ShippingQuoteClaims {
+  serviceCode: string
+  amount: number                 // cents, before any free-shipping rule
+  postal: string                 // destination, no spaces, uppercase
+  country: string                // destination ISO country
+  pkg: string                    // packageHash() of the parcels quoted
+  source: CachedRateResponse['source']
+  exp: number                    // epoch ms
+}
+
+export function normalizePostal(postal: string): string {
+  return postal.replace(/\s/g, '').toUpperCase()
+}
+
+/** Parcels for a priced cart — packed like orderParcels() packs the stored order */
+export function cartParcels(lines: PricedLine[], catalog: ProductCatalog): Parcel[] {
+  return packParcels(lines.map(l => ({
+    productKey: l.productType || l.product_key,
+    quantity: l.quantity,
+    weight: l.weight ?? undefined,
+  })), catalog)
+}
+
+/** An app_shop_orders.items line, as far as packing goes */
+export interface PackableOrderLine {
+  product_type?: string | null
+  sku?: string
+  qty?: number
+  weight?: number
+}
+
+/**
+ * Parcels for an order's stored lines — what its label is bought for. Lines
+ * pack by their product type, so they match the quote; orders from before
+ * lines carried it pack by SKU.
+ */
+export function orderParcels(items: PackableOrderLine[], catalog: ProductCatalog): Parcel[] {
+  return packParcels(items.map(i => ({
+    productKey: i.product_type || i.sku || '',
+    quantity: i.qty || 1,
+    weight: i.weight ?? undefined,
+  })), catalog)
+}
+
+/** Short stable hash of the rounded package profile */
+export function packageHash(parcels: Parcel[]): string {
+  return createHash('sha256').update(packageProfile(parcels).profile).digest('base64url').slice(0, 16)
+}
+
+export function originPostal(): string {
+  return process.env.CANADAPOST_ORIGIN_POSTAL || 'K2B8J6'
+}
+
+/** Live, cached or estimated quotes for a cart going to a postal code or ZIP */
+export async function quoteCart(parcels: Parcel[], postal: string, country: string = 'CA'): Promise<CachedRateResponse> {
+  return getCachedRates({
+    originPostal: originPostal(),
+    destinationPostal: normalizePostal(postal),
+    destinationCountry: country,
+    parcels,
+  })
+}
+
+// ---- Tokens ----
+
+function signature(payload: string): string {
+  const secret = process.env.SHIPPING_QUOTE_SECRET
+  if (!secret) throw new Error('SHIPPING_QUOTE_SECRET not configured')
+  return createHmac('sha256', secret).update(payload).digest('base64url')
+}
+
+export function signShippingQuote(
+  quote: RateQuote,
+  context: { postal: string; country: string; pkg: string; source: CachedRateResponse['source'] },
+): string {
+  const claims: ShippingQuoteClaims = {
+    serviceCode: quote.serviceCode,
+    amount: quote.priceTotalCents,
+    postal: normalizePostal(context.postal),
+    country: context.country,
+    pkg: context.pkg,
+    source: context.source,
+    exp: Date.now() + QUOTE_TTL_MS,
+  }
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url')
+  return `${payload}.${signature(payload)}`
+}
+
+/**
+ * Claims for a token that is untampered, unexpired and was issued for this
+ * destination and package. Null for anything else — the caller re-quotes.
+ */
+export function verifyShippingQuote(
+  token: unknown,
+  expected: { postal: string; country: string; pkg: string },
+): ShippingQuoteClaims | null {
+  if (typeof token !== 'string') return null
+  const [payload, sig] = token.split('.')
+  if (!payload || !sig) return null
+
+  const wanted = Buffer.from(signature(payload))
+  const given = Buffer.from(sig)
+  if (wanted.length !== given.length || !timingSafeEqual(wanted, given)) return null
+
+  let claims: ShippingQuoteClaims
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+  } catch {
+    return null
+  }
+
+  if (typeof claims.amount !== 'number' || !Number.isInteger(claims.amount) || claims.amount < 0) return null
+  if (typeof claims.exp !== 'number' || claims.exp < Date.now()) return null
+  if (claims.postal !== normalizePostal(expected.postal) || claims.pkg !== expected.pkg) return null
+  if (claims.country !== expected.country) return null
+  return claims
+}
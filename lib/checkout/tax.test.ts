@@ -0,0 +1,72 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { calculateTax, taxProvince } from './tax'
+
+// $100.00 of goods + $10.00 shipping, in cents
+const GOODS = 10000
+const SHIPPING = 1000
+
+test('charges each province its own rates', () => {
+  const expected: Record<string, Array<[string, number]>> = {
+    AB: [['GST (5%)', 550]],
+    BC: [['GST (5%)', 550], ['PST (7%)', 770]],
+    MB: [['GST (5%)', 550], ['RST (7%)', 700]],
+    NB: [['HST (15%)', 1650]],
+    NL: [['HST (15%)', 1650]],
+    NS: [['HST (14%)', 1540]],
+    NT: [['GST (5%)', 550]],
+    NU: [['GST (5%)', 550]],
+    ON: [['HST (13%)', 1430]],
+    PE: [['HST (15%)', 1650]],
+    QC: [['GST (5%)', 550], ['QST (9.975%)', 1097]],
+    SK: [['GST (5%)', 550], ['PST (6%)', 660]],
+    YT: [['GST (5%)', 550]],
+  }
+
+  for (const [province, lines] of Object.entries(expected)) {
+    const result = calculateTax(province, GOODS, SHIPPING)
+    assert.deepEqual(result.lines.map(l => [l.label, l.amount]), lines, province)
+    assert.equal(result.total, lines.reduce((sum, [, amount]) => sum + amount, 0), province)
+  }
+})
+
+test('leaves shipping out of Manitoba RST', () => {
+  const result = calculateTax('MB', GOODS, SHIPPING)
+  assert.equal(result.lines.find(l => l.kind === 'GST')?.amount, 550)
+  assert.equal(result.lines.find(l => l.kind === 'RST')?.amount, 700)
+})
+
+test('charges QST on the pre-GST amount and rounds each line on its own', () => {
+  const result = calculateTax('QC', 1010, 0)
+  // QST isn't compounded on GST: 9.975% of 1010, not of 1010 + 51
+  assert.deepEqual(result.lines.map(l => l.amount), [51, 101])
+  assert.equal(result.total, 152)
+})
+
+test('normalizes the province code and falls back to GST for unknown ones', () => {
+  assert.equal(calculateTax(' on ', GOODS, 0).total, 1300)
+  assert.equal(calculateTax('ON', GOODS, 0).province, 'ON')
+  assert.deepEqual(calculateTax('ZZ', GOODS, SHIPPING).lines.map(l => l.kind), ['GST'])
+})
+
+test('charges no Canadian tax outside Canada', () => {
+  for (const country of ['US', 'GB']) {
+    const result = calculateTax('ON', GOODS, SHIPPING, country)
+    assert.deepEqual(result.lines, [])
+    assert.equal(result.total, 0)
+  }
+})
+
+test('drops lines that come to nothing', () => {
+  assert.deepEqual(calculateTax('ON', 0, 0).lines, [])
+  assert.equal(calculateTax('ON', -500, 0).total, 0)
+})
+
+test('taxes picked-up goods in the pickup province', () => {
+  assert.equal(taxProvince('ON', null), 'ON')
+  assert.equal(taxProvince('ON', { province: 'QC' }), 'QC')
+
+  // An Ontario customer collecting in Montreal pays GST + QST, with no shipping
+  const result = calculateTax(taxProvince('ON', { province: 'QC' }), GOODS, 0)
+  assert.deepEqual(result.lines.map(l => [l.kind, l.amount]), [['GST', 500], ['QST', 998]])
+})
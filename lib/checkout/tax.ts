@@ -0,0 +1,79 @@
+/** Canadian sales tax (GST/HST/PST/QST) — keyed by the same province codes as PROVINCE_SHIPPING */
+
+export type TaxKind = 'GST' | 'HST' | 'PST' | 'QST' | 'RST';
+
+interface TaxComponent {
+  kind: TaxKind;
+  rate: number;            // percent (e.g. 13, 9.975)
+  taxesShipping: boolean;  // whether delivery charges are part of the taxable base
+}
+
+export interface TaxLine {
+  kind: TaxKind;
+  label: string;           // e.g. "HST (13%)"
+  rate: number;            // percent
+  amount: number;          // cents (CAD)
+}
+
+export interface TaxResult {
+  province: string;
+  lines: TaxLine[];
+  total: number;           // cents (CAD)
+}
+
+const GST: TaxComponent = { kind: 'GST', rate: 5, taxesShipping: true };
+const hst = (rate: number): TaxComponent => ({ kind: 'HST', rate, taxesShipping: true });
+
+// Shipping follows the goods for GST/HST/QST and BC/SK PST.
+// Manitoba RST does not apply to separately stated delivery charges.
+export const PROVINCE_TAX: Record<string, TaxComponent[]> = {
+  AB: [GST],
+  BC: [GST, { kind: 'PST', rate: 7, taxesShipping: true }],
+  MB: [GST, { kind: 'RST', rate: 7, taxesShipping: false }],
+  NB: [hst(15)],
+  NL: [hst(15)],
+  NS: [hst(14)],
+  NT: [GST],
+  NU: [GST],
+  ON: [hst(13)],
+  PE: [hst(15)],
+  QC: [GST, { kind: 'QST', rate: 9.975, taxesShipping: true }],
+  SK: [GST, { kind: 'PST', rate: 6, taxesShipping: true }],
+  YT: [GST],
+};
+
+/** Where an order is taxed: picked-up goods in the province they're handed over in */
+export function taxProvince(shippingProvince: string, pickup?: { province: string } | null): string {
+  return pickup ? pickup.province : shippingProvince;
+}
+
+/**
+ * Calculate sales tax for an order shipped to a province.
+ * `itemsSubtotal` is the amount actually charged for goods (after discounts),
+ * `shipping` the shipping amount charged — both in cents.
+ * Unknown provinces fall back to federal GST only. Goods shipped outside
+ * Canada are zero-rated exports — no Canadian tax at all.
+ */
+export function calculateTax(province: string, itemsSubtotal: number, shipping: number, country: string = 'CA'): TaxResult {
+  const code = (province || '').trim().toUpperCase();
+  if (country !== 'CA') return { province: code, lines: [], total: 0 };
+  const components = PROVINCE_TAX[code] ?? [GST];
+
+  const lines: TaxLine[] = components
+    .map(c => {
+      const base = itemsSubtotal + (c.taxesShipping ? shipping : 0);
+      return {
+        kind: c.kind,
+        label: `${c.kind} (${c.rate}%)`,
+        rate: c.rate,
+        amount: Math.round(Math.max(0, base) * c.rate / 100),
+      };
+    })
+    .filter(l => l.amount > 0);
+
+  return {
+    province: code,
+    lines,
+    total: lines.reduce((sum, l) => sum + l.amount, 0),
+  };
+}
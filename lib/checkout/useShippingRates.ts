@@ -1,6 +1,9 @@
 'use client';
 
 import { useState, useRef, useCallback } from 'react';
+import { isValidPostal } from './postal-utils';
+import { PICKUP_SERVICE_CODE } from '@/lib/stripe-config';
+import type { PickupSnapshot } from './pickup';
 
 export interface ShippingQuote {
   serviceCode: string;
@@ -8,38 +11,66 @@ export interface ShippingQuote {
   priceTotalCents: number;
   expectedTransitDays: string | number | null;
   freeShipping?: boolean;
+  token: string;          // signed by the server; checkout charges only a valid token's price
 }
 
+/** A pickup location offered at checkout — always $0, Canada only */
+export type PickupOption = PickupSnapshot;
+
 interface CartItem {
   product_key: string;
+  variant_id?: string | null;
   quantity: number;
   price: number;
 }
 
-const FALLBACK_QUOTE: ShippingQuote = {
-  serviceCode: 'FALLBACK',
-  serviceName: 'Standard Shipping (estimated)',
-  priceTotalCents: 1499,
-  expectedTransitDays: '7-12',
-  freeShipping: false,
-};
+/**
+ * Where the quotes came from. 'estimate' means Canada Post couldn't be
+ * reached and the server priced it from past quotes for the region.
+ */
+export type ShippingRateSource = 'canada-post' | 'cache' | 'estimate';
+
+/**
+ * Canada Post quotes for a postal code, plus the pickup locations offered
+ * next to them. Picking a location sets selectedService to PICKUP_SERVICE_CODE;
+ * picking a Canada Post service clears the location.
+ */
 
 export function useShippingRates() {
   const [quotes, setQuotes] = useState<ShippingQuote[]>([]);
-  const [source, setSource] = useState<'canada-post' | 'fallback' | null>(null);
+  const [source, setSource] = useState<ShippingRateSource | null>(null);
   const [selectedService, setSelectedService] = useState('');
+  const [pickupLocations, setPickupLocations] = useState<PickupOption[]>([]);
+  const [selectedPickup, setSelectedPickup] = useState<PickupOption | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const abortRef = useRef<AbortController | null>(null);
+  const pickupLoadedRef = useRef(false);
+
+  // Locations don't depend on the postal code — load them once
+  const loadPickupLocations = useCallback(async () => {
+    if (pickupLoadedRef.current) return;
+    pickupLoadedRef.current = true;
+    try {
+      const res = await fetch('/api/shipping/pickup-locations');
+      const data = await res.json();
+      setPickupLocations(Array.isArray(data.locations) ? data.locations : []);
+    } catch {
+      pickupLoadedRef.current = false; // try again with the next rate fetch
+    }
+  }, []);
 
   const fetchRates = useCallback(async (
     postalCode: string,
     province: string,
     items: CartItem[],
+    country = 'CA',
     retryCount = 0,
   ) => {
     const clean = postalCode.replace(/\s/g, '');
-    if (!/^[A-Z]\d[A-Z]\d[A-Z]\d$/i.test(clean) || items.length === 0) return;
+    if (!isValidPostal(clean, country) || items.length === 0) return;
+
+    if (country === 'CA') loadPickupLocations();
 
     abortRef.current?.abort();
     const controller = new AbortController();
@@ -53,9 +84,10 @@ export function useShippingRates() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          items: items.map(i => ({ product_key: i.product_key, quantity: i.quantity, price: i.price })),
+          items: items.map(i => ({ product_key: i.product_key, variant_id: i.variant_id, quantity: i.quantity, price: i.price })),
           postalCode: clean,
           province,
+          country,
         }),
         signal: controller.signal,
       });
@@ -67,33 +99,47 @@ export function useShippingRates() {
         setQuotes(data.quotes);
         setSource(data.source || 'canada-post');
         setSelectedService(data.quotes[0].serviceCode);
+        setSelectedPickup(null);
       } else if (retryCount < 1) {
         await new Promise(r => setTimeout(r, 1000));
         if (!controller.signal.aborted) {
-          return fetchRates(postalCode, province, items, retryCount + 1);
+          return fetchRates(postalCode, province, items, country, retryCount + 1);
         }
       } else {
-        setQuotes([FALLBACK_QUOTE]);
-        setSource('fallback');
-        setSelectedService('FALLBACK');
+        setQuotes([]);
+        setSource(null);
+        setSelectedService('');
+        setSelectedPickup(null);
+        setError(data.error || 'Could not load shipping rates');
       }
     } catch (err: any) {
       if (err.name === 'AbortError') return;
       if (retryCount < 1) {
         await new Promise(r => setTimeout(r, 1000));
         if (!controller.signal.aborted) {
-          return fetchRates(postalCode, province, items, retryCount + 1);
+          return fetchRates(postalCode, province, items, country, retryCount + 1);
         }
       } else {
         console.error('Shipping rates error:', err);
-        setQuotes([FALLBACK_QUOTE]);
-        setSource('fallback');
-        setSelectedService('FALLBACK');
+        setQuotes([]);
+        setSource(null);
+        setSelectedService('');
+        setSelectedPickup(null);
         setError('Could not load shipping rates');
       }
     } finally {
       if (!controller.signal.aborted) setLoading(false);
     }
+  }, [loadPickupLocations]);
+
+  const selectService = useCallback((serviceCode: string) => {
+    setSelectedService(serviceCode);
+    setSelectedPickup(null);
+  }, []);
+
+  const selectPickup = useCallback((location: PickupOption) => {
+    setSelectedService(PICKUP_SERVICE_CODE);
+    setSelectedPickup(location);
   }, []);
 
   const reset = useCallback(() => {
@@ -101,9 +147,22 @@ export function useShippingRates() {
     setQuotes([]);
     setSource(null);
     setSelectedService('');
+    setSelectedPickup(null);
     setLoading(false);
     setError(null);
   }, []);
 
-  return { quotes, source, selectedService, setSelectedService, loading, error, fetchRates, reset };
+  return {
+    quotes,
+    source,
+    selectedService,
+    setSelectedService: selectService,
+    pickupLocations,
+    selectedPickup,
+    selectPickup,
+    loading,
+    error,
+    fetchRates,
+    reset,
+  };
 }
@@ -0,0 +1,63 @@
+/**
+ * Money formatting — every price in the shop is CAD cents. Other currencies
+ * are display-only conversions using the admin-maintained rate table
+ * (currency_rates, see ./rates); Stripe still settles every order in CAD.
+ */
+
+export const SETTLEMENT_CURRENCY = 'CAD';
+
+export const DISPLAY_CURRENCIES = ['CAD', 'USD', 'EUR'] as const;
+export type DisplayCurrency = typeof DISPLAY_CURRENCIES[number];
+
+/** Units of each currency per 1 CAD */
+export type CurrencyRates = Record<DisplayCurrency, number>;
+
+// Used until the rate table has loaded, or if it can't be read
+export const DEFAULT_RATES: CurrencyRates = { CAD: 1, USD: 0.73, EUR: 0.67 };
+
+// Locale per currency so the symbol is never ambiguous: CA$12.00, US$8.76, €8.04
+const LOCALES: Record<DisplayCurrency, string> = {
+  CAD: 'en-US',
+  USD: 'en-CA',
+  EUR: 'en-IE',
+};
+
+const EURO_REGIONS = new Set([
+  'AT', 'BE', 'CY', 'DE', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'IE',
+  'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PT', 'SI', 'SK',
+]);
+
+export function isDisplayCurrency(value: unknown): value is DisplayCurrency {
+  return typeof value === 'string' && (DISPLAY_CURRENCIES as readonly string[]).includes(value);
+}
+
+/** Convert CAD cents to cents of another currency */
+export function convertCents(cadCents: number, currency: DisplayCurrency, rates: CurrencyRates = DEFAULT_RATES): number {
+  if (currency === 'CAD') return cadCents;
+  return Math.round(cadCents * (rates[currency] || DEFAULT_RATES[currency]));
+}
+
+/** Format CAD cents in the display currency */
+export function formatMoney(cadCents: number, currency: DisplayCurrency = 'CAD', rates: CurrencyRates = DEFAULT_RATES): string {
+  return formatCents(convertCents(cadCents, currency, rates), currency);
+}
+
+/** Format cents already in `currency` — e.g. Stripe's presentment amount */
+export function formatCents(cents: number, currency: string): string {
+  const code = currency.toUpperCase();
+  const locale = isDisplayCurrency(code) ? LOCALES[code] : 'en-CA';
+  return new Intl.NumberFormat(locale, { style: 'currency', currency: code }).format(cents / 100);
+}
+
+/** Settlement amounts — orders, refunds, reports and emails */
+export function formatCad(cents: number): string {
+  return formatCents(cents, 'CAD');
+}
+
+/** Best guess from a browser locale like en-US or fr-FR; CAD otherwise */
+export function detectCurrency(locale: string | undefined): DisplayCurrency {
+  const region = (locale || '').split('-')[1]?.toUpperCase();
+  if (region === 'US') return 'USD';
+  if (region && EURO_REGIONS.has(region)) return 'EUR';
+  return 'CAD';
+}
@@ -0,0 +1,69 @@
+import { createClient } from '@supabase/supabase-js'
+import { DEFAULT_RATES, DISPLAY_CURRENCIES, type CurrencyRates, type DisplayCurrency } from './format'
+
+// ============================================
+// CURRENCY RATE TABLE (server-only)
+// Display rates are maintained by hand in /admin/currency — they only change
+// what shoppers see. Stripe converts at its own rate when it presents a
+// local currency at checkout.
+// ============================================
+
+function getServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+export interface CurrencyRateRow {
+  currency: DisplayCurrency
+  rate: number
+  updated_by: string | null
+  updated_at: string
+}
+
+/** Rate rows for the display currencies (CAD is always 1 and not stored) */
+export async function getCurrencyRateRows(): Promise<{ rows: CurrencyRateRow[]; error?: string }> {
+  const { data, error } = await getServiceClient()
+    .from('currency_rates')
+    .select('currency, rate, updated_by, updated_at')
+    .in('currency', DISPLAY_CURRENCIES.filter(c => c !== 'CAD'))
+    .order('currency')
+
+  if (error) {
+    console.error('[currency] Rate read failed:', error.message)
+    return { rows: [], error: error.message }
+  }
+  return { rows: (data || []).map(r => ({ ...r, rate: Number(r.rate) })) as CurrencyRateRow[] }
+}
+
+/** Rates for formatting — falls back to the built-in defaults per currency */
+export async function getCurrencyRates(): Promise<CurrencyRates> {
+  const { rows } = await getCurrencyRateRows()
+  const rates: CurrencyRates = { ...DEFAULT_RATES }
+  for (const row of rows) {
+    if (row.rate > 0) rates[row.currency] = row.rate
+  }
+  return rates
+}
+
+export async function setCurrencyRate(currency: DisplayCurrency, rate: number, updatedBy: string): Promise<{ error?: string }> {
+  if (currency === 'CAD') return { error: 'CAD is the settlement currency' }
+  if (!Number.isFinite(rate) || rate <= 0 || rate > 1000) return { error: 'Rate must be a positive number' }
+
+  const { error } = await getServiceClient()
+    .from('currency_rates')
+    .upsert({
+      currency,
+      rate: Math.round(rate * 1e6) / 1e6,
+      updated_by: updatedBy,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'currency' })
+
+  if (error) {
+    console.error('[currency] Rate write failed:', error.message)
+    return { error: error.message }
+  }
+  console.log(`[currency] ${currency} = ${rate} per CAD (by ${updatedBy})`)
+  return {}
+}
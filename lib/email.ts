@@ -1,9 +1,21 @@
 import { Resend } from 'resend';
+import { formatCad, formatCents } from '@/lib/currency/format';
+import { formatShipDate } from '@/lib/inventory/stock';
 
 // ============================================
 // TYPES
 // ============================================
 
+interface PickupEmailLocation {
+  name: string;
+  street: string;
+  city: string;
+  province: string;
+  postal_code: string;
+  hours: string;
+  instructions?: string | null;
+}
+
 interface OrderEmailData {
   orderNumber: string;
   items: Array<{
@@ -14,10 +26,15 @@ interface OrderEmailData {
     price: number;
     size?: string;
     color?: string;
+    preorderShipsAt?: string | null;   // YYYY-MM-DD when the line is a pre-order
   }>;
+  preorderShipsAt?: string | null;     // the order ships complete on the latest pre-order date
   subtotal: number;
   shipping: number;
+  taxLines?: Array<{ label: string; amount: number }>;
   total: number;
+  // What Stripe showed the customer when they paid in another currency (cents)
+  presentment?: { currency: string; amount: number } | null;
   shippingAddress?: {
     name?: string;
     street?: string;
@@ -27,10 +44,48 @@ interface OrderEmailData {
     postal_code?: string;
     country?: string;
   } | null;
+  pickupLocation?: PickupEmailLocation | null;   // set instead of shippingAddress for pickup orders
+  addressMismatch?: string | null;               // the collected address differs from the one quoted
   customerEmail?: string;
   stripeSessionId?: string;
 }
 
+interface RefundEmailData {
+  orderNumber: string;
+  items: Array<{ name: string; quantity: number; size?: string; color?: string }>;
+  amount: number;        // dollars refunded in this refund
+  totalRefunded: number; // dollars refunded on the order so far
+  isFullRefund: boolean;
+}
+
+interface CartRecoveryEmailData {
+  step: number;          // 0-based position in the recovery sequence
+  items: Array<{ name: string; quantity: number; price: number; size?: string; color?: string }>;
+  total: number;         // dollars, as last quoted at checkout
+  recoveryUrl: string;
+  unsubscribeUrl: string;      // page linked in the footer
+  listUnsubscribeUrl: string;  // one-click endpoint for the List-Unsubscribe header
+}
+
+interface BackInStockEmailData {
+  productName: string;
+  color?: string;
+  size?: string;
+  image?: string | null;
+  productUrl: string;
+}
+
+interface ReturnEmailData {
+  kind: 'approved' | 'rejected' | 'exchanged';
+  rmaNumber: string;
+  orderNumber: string;
+  items: Array<{ name: string; quantity: number; size?: string; color?: string; exchangeSize?: string | null }>;
+  labelUrl?: string | null;            // approved, with a prepaid label
+  shipTo?: string[] | null;            // approved without a label — where to mail it
+  note?: string | null;                // staff note (e.g. why it was rejected)
+  replacementOrderNumber?: string;     // exchanged
+}
+
 // ============================================
 // RESEND CLIENT
 // ============================================
@@ -45,6 +100,9 @@ function getResend() {
 
 const FROM_EMAIL = 'OnSite Club <contact@onsiteclub.ca>';
 
+// Amounts in these emails are CAD dollars — what the order settled for
+const money = (dollars: number) => formatCad(Math.round(dollars * 100));
+
 // ============================================
 // SEND FUNCTIONS
 // ============================================
@@ -77,7 +135,7 @@ export async function sendNewOrderToAdmin(order: OrderEmailData) {
   await resend.emails.send({
     from: FROM_EMAIL,
     to: adminEmail,
-    subject: `New sale! Order ${order.orderNumber} — CA$${order.total.toFixed(2)}`,
+    subject: `${order.preorderShipsAt ? 'New pre-order!' : 'New sale!'} Order ${order.orderNumber} — ${money(order.total)}${order.addressMismatch ? ' — check address' : ''}`,
     html: buildAdminEmailHtml(order),
   });
 
@@ -101,22 +159,190 @@ export async function sendShippedNotification(
   console.log(`[EMAIL] Shipped notification sent to ${customerEmail}`);
 }
 
+export async function sendReadyForPickupNotification(
+  orderNumber: string,
+  location: PickupEmailLocation,
+  customerEmail: string
+) {
+  const resend = getResend();
+
+  await resend.emails.send({
+    from: FROM_EMAIL,
+    to: customerEmail,
+    subject: `OnSite Shop — Order ${orderNumber} is ready for pickup`,
+    html: buildReadyForPickupEmailHtml(orderNumber, location),
+  });
+
+  console.log(`[EMAIL] Ready-for-pickup notification sent to ${customerEmail}`);
+}
+
+export async function sendRefundNotification(refund: RefundEmailData, customerEmail: string) {
+  const resend = getResend();
+
+  await resend.emails.send({
+    from: FROM_EMAIL,
+    to: customerEmail,
+    subject: `OnSite Shop — Refund issued for order ${refund.orderNumber}`,
+    html: buildRefundEmailHtml(refund),
+  });
+
+  console.log(`[EMAIL] Refund notification sent to ${customerEmail}`);
+}
+
+export async function sendDisputeAlertToAdmin(orderNumber: string, amount: number, reason: string) {
+  const resend = getResend();
+  const adminEmail = process.env.SHOP_ADMIN_EMAIL;
+
+  if (!adminEmail) {
+    console.warn('[EMAIL] SHOP_ADMIN_EMAIL not configured, skipping dispute alert');
+    return;
+  }
+
+  await resend.emails.send({
+    from: FROM_EMAIL,
+    to: adminEmail,
+    subject: `Dispute opened on order ${orderNumber} — ${money(amount)}`,
+    html: `
+      <p>A customer opened a dispute on order <strong>${orderNumber}</strong>.</p>
+      <p>Amount: <strong>${money(amount)}</strong><br>Reason: ${reason}</p>
+      <p>Respond from the Stripe Dashboard before the evidence deadline.</p>
+    `,
+  });
+
+  console.log(`[EMAIL] Dispute alert sent to ${adminEmail}`);
+}
+
+export async function sendTrackingExceptionToAdmin(
+  orderNumber: string,
+  trackingCode: string,
+  exception: string,
+  latestStatus: string
+) {
+  const resend = getResend();
+  const adminEmail = process.env.SHOP_ADMIN_EMAIL;
+
+  if (!adminEmail) {
+    console.warn('[EMAIL] SHOP_ADMIN_EMAIL not configured, skipping tracking alert');
+    return;
+  }
+
+  await resend.emails.send({
+    from: FROM_EMAIL,
+    to: adminEmail,
+    subject: `${exception} — order ${orderNumber}`,
+    html: `
+      <p>Canada Post reported a problem with order <strong>${orderNumber}</strong>.</p>
+      <p>Tracking: <strong>${trackingCode}</strong><br>Latest event: ${latestStatus || exception}</p>
+      <p>Check the order in the admin panel and contact the customer if needed.</p>
+    `,
+  });
+
+  console.log(`[EMAIL] Tracking alert sent to ${adminEmail}`);
+}
+
+export async function sendReturnRequestToAdmin(rmaNumber: string, orderNumber: string, reason: string, resolution: string) {
+  const resend = getResend();
+  const adminEmail = process.env.SHOP_ADMIN_EMAIL;
+
+  if (!adminEmail) {
+    console.warn('[EMAIL] SHOP_ADMIN_EMAIL not configured, skipping return alert');
+    return;
+  }
+
+  await resend.emails.send({
+    from: FROM_EMAIL,
+    to: adminEmail,
+    subject: `Return requested — ${rmaNumber} (order ${orderNumber})`,
+    html: `
+      <p>A customer requested a return on order <strong>${orderNumber}</strong>.</p>
+      <p>RMA: <strong>${rmaNumber}</strong><br>Reason: ${reason}<br>Wants: ${resolution}</p>
+      <p>Approve or reject it in the admin panel under Returns.</p>
+    `,
+  });
+
+  console.log(`[EMAIL] Return alert sent to ${adminEmail}`);
+}
+
+const RETURN_SUBJECTS: Record<ReturnEmailData['kind'], string> = {
+  approved: 'your return is approved',
+  rejected: 'about your return request',
+  exchanged: 'your exchange is on its way',
+};
+
+export async function sendReturnUpdateToCustomer(update: ReturnEmailData, customerEmail: string) {
+  const resend = getResend();
+
+  await resend.emails.send({
+    from: FROM_EMAIL,
+    to: customerEmail,
+    subject: `OnSite Shop — ${update.rmaNumber}: ${RETURN_SUBJECTS[update.kind]}`,
+    html: buildReturnEmailHtml(update),
+  });
+
+  console.log(`[EMAIL] Return ${update.kind} email sent to ${customerEmail}`);
+}
+
+const CART_RECOVERY_SUBJECTS = [
+  'You left something in your cart',
+  'Your OnSite gear is still waiting',
+  'Last call — your cart is about to expire',
+];
+
+export async function sendCartRecoveryEmail(cart: CartRecoveryEmailData, customerEmail: string) {
+  const resend = getResend();
+  const subject = CART_RECOVERY_SUBJECTS[Math.min(cart.step, CART_RECOVERY_SUBJECTS.length - 1)];
+
+  await resend.emails.send({
+    from: FROM_EMAIL,
+    to: customerEmail,
+    subject: `OnSite Shop — ${subject}`,
+    html: buildCartRecoveryEmailHtml(cart, subject),
+    headers: {
+      'List-Unsubscribe': `<${cart.listUnsubscribeUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  });
+
+  console.log(`[EMAIL] Cart recovery email ${cart.step + 1} sent to ${customerEmail}`);
+}
+
+export async function sendBackInStockNotification(item: BackInStockEmailData, customerEmail: string) {
+  const resend = getResend();
+  const variant = [item.color, item.size].filter(Boolean).join(' / ');
+
+  await resend.emails.send({
+    from: FROM_EMAIL,
+    to: customerEmail,
+    subject: `OnSite Shop — ${item.productName}${variant ? ` (${variant})` : ''} is back in stock`,
+    html: buildBackInStockEmailHtml(item),
+  });
+
+  console.log(`[EMAIL] Back-in-stock notification sent to ${customerEmail}`);
+}
+
 // ============================================
 // HTML TEMPLATES
 // ============================================
 
+function preorderNoteHtml(date: string | null | undefined): string {
+  return date
+    ? `<br><span style="color: #92400E; font-size: 12px; font-weight: bold;">PRE-ORDER — ships around ${formatShipDate(date)}</span>`
+    : '';
+}
+
 function buildItemsTableHtml(items: OrderEmailData['items']): string {
   return items.map(item => `
     <tr>
       <td style="padding: 12px 0; border-bottom: 1px solid #E5E7EB;">
         <strong style="color: #1B2B27;">${item.name}</strong>
         ${item.size || item.color ? `<br><span style="color: #6B7280; font-size: 13px;">${[item.color, item.size].filter(Boolean).join(' — ')}</span>` : ''}
+        ${preorderNoteHtml(item.preorderShipsAt)}
       </td>
       <td style="padding: 12px 0; border-bottom: 1px solid #E5E7EB; text-align: center; color: #6B7280;">
         ${item.quantity}
       </td>
       <td style="padding: 12px 0; border-bottom: 1px solid #E5E7EB; text-align: right; color: #1B2B27;">
-        CA$${(item.price * item.quantity).toFixed(2)}
+        ${money(item.price * item.quantity)}
       </td>
     </tr>
   `).join('');
@@ -130,12 +356,13 @@ function buildAdminItemsTableHtml(items: OrderEmailData['items']): string {
         ${item.sku ? `<br><code style="font-size: 12px; background: #FEF3C7; color: #92400E; padding: 2px 8px; border-radius: 4px; font-weight: bold;">${item.sku}</code>` : ''}
         ${item.design ? `<br><span style="color: #6B7280; font-size: 12px;">Design: ${item.design}</span>` : ''}
         <br><span style="color: #6B7280; font-size: 13px;">${[item.color, item.size].filter(Boolean).join(' — ')}</span>
+        ${preorderNoteHtml(item.preorderShipsAt)}
       </td>
       <td style="padding: 12px 0; border-bottom: 1px solid #E5E7EB; text-align: center; color: #6B7280;">
         ${item.quantity}
       </td>
       <td style="padding: 12px 0; border-bottom: 1px solid #E5E7EB; text-align: right; color: #1B2B27;">
-        CA$${(item.price * item.quantity).toFixed(2)}
+        ${money(item.price * item.quantity)}
       </td>
     </tr>
   `).join('');
@@ -154,6 +381,17 @@ function buildAddressHtml(address: OrderEmailData['shippingAddress']): string {
   `;
 }
 
+function buildPickupHtml(location: PickupEmailLocation): string {
+  return `
+    <p style="color: #1B2B27; margin: 0; line-height: 1.6;">
+      <strong>${location.name}</strong><br>
+      ${location.street}<br>
+      ${location.city}, ${location.province} ${location.postal_code}
+      ${location.hours ? `<br><span style="color: #6B7280;">${location.hours}</span>` : ''}
+    </p>
+  `;
+}
+
 function buildCustomerEmailHtml(order: OrderEmailData): string {
   return `
 <!DOCTYPE html>
@@ -180,6 +418,16 @@ function buildCustomerEmailHtml(order: OrderEmailData): string {
         <p style="color: #6B7280; font-size: 14px; margin: 0;">Order <strong>${order.orderNumber}</strong></p>
       </div>
 
+      ${order.preorderShipsAt ? `
+      <!-- Pre-order -->
+      <div style="background: #FEF3C7; border-radius: 8px; padding: 12px 16px; margin-bottom: 24px;">
+        <p style="color: #92400E; font-size: 13px; margin: 0;">
+          Your order includes pre-order items. We'll ship everything together once they arrive —
+          expected around <strong>${formatShipDate(order.preorderShipsAt)}</strong>.
+        </p>
+      </div>
+      ` : ''}
+
       <!-- Items -->
       <table style="width: 100%; border-collapse: collapse; font-size: 14px; margin-bottom: 24px;">
         <thead>
@@ -198,16 +446,27 @@ function buildCustomerEmailHtml(order: OrderEmailData): string {
       <div style="border-top: 2px solid #1B2B27; padding-top: 16px; font-size: 14px;">
         <div style="display: flex; justify-content: space-between; margin-bottom: 8px;">
           <span style="color: #6B7280;">Subtotal</span>
-          <span style="color: #1B2B27;">CA$${order.subtotal.toFixed(2)}</span>
+          <span style="color: #1B2B27;">${money(order.subtotal)}</span>
         </div>
         <div style="display: flex; justify-content: space-between; margin-bottom: 8px;">
           <span style="color: #6B7280;">Shipping</span>
-          <span style="color: ${order.shipping === 0 ? '#059669' : '#1B2B27'};">${order.shipping === 0 ? 'FREE' : `CA$${order.shipping.toFixed(2)}`}</span>
+          <span style="color: ${order.shipping === 0 ? '#059669' : '#1B2B27'};">${order.shipping === 0 ? 'FREE' : money(order.shipping)}</span>
+        </div>
+        ${(order.taxLines || []).map(line => `
+        <div style="display: flex; justify-content: space-between; margin-bottom: 8px;">
+          <span style="color: #6B7280;">${line.label}</span>
+          <span style="color: #1B2B27;">${money(line.amount)}</span>
         </div>
+        `).join('')}
         <div style="display: flex; justify-content: space-between; font-size: 18px; font-weight: bold; margin-top: 12px; padding-top: 12px; border-top: 1px solid #E5E7EB;">
           <span style="color: #1B2B27;">Total</span>
-          <span style="color: #1B2B27;">CA$${order.total.toFixed(2)}</span>
+          <span style="color: #1B2B27;">${money(order.total)}</span>
         </div>
+        ${order.presentment ? `
+        <p style="color: #6B7280; font-size: 12px; margin: 8px 0 0; text-align: right;">
+          Paid as ${formatCents(order.presentment.amount, order.presentment.currency)}
+        </p>
+        ` : ''}
       </div>
 
       <!-- Shipping Address -->
@@ -218,6 +477,15 @@ function buildCustomerEmailHtml(order: OrderEmailData): string {
       </div>
       ` : ''}
 
+      <!-- Pickup -->
+      ${order.pickupLocation ? `
+      <div style="margin-top: 24px; padding-top: 24px; border-top: 1px solid #E5E7EB;">
+        <h3 style="color: #1B2B27; font-size: 14px; margin: 0 0 8px;">Pickup</h3>
+        ${buildPickupHtml(order.pickupLocation)}
+        <p style="color: #6B7280; font-size: 13px; margin: 12px 0 0;">We'll email you when your order is ready — please wait for that email before coming by.</p>
+      </div>
+      ` : ''}
+
     </div>
 
     <!-- Footer -->
@@ -252,7 +520,7 @@ function buildAdminEmailHtml(order: OrderEmailData): string {
     <div style="background: #1B2B27; border-radius: 16px 16px 0 0; padding: 24px; text-align: center;">
       <img src="https://shop.onsiteclub.ca/assets/logo-onsite-club.png" alt="OnSite Club" style="height: 40px; width: auto; margin-bottom: 12px; filter: brightness(10);" />
       <h1 style="color: #B8860B; font-size: 20px; margin: 0;">New Sale!</h1>
-      <p style="color: white; font-size: 28px; font-weight: bold; margin: 8px 0 0;">CA$${order.total.toFixed(2)}</p>
+      <p style="color: white; font-size: 28px; font-weight: bold; margin: 8px 0 0;">${money(order.total)}</p>
     </div>
 
     <!-- Card -->
@@ -264,6 +532,11 @@ function buildAdminEmailHtml(order: OrderEmailData): string {
         <p style="margin: 4px 0;"><strong>Customer:</strong> ${order.customerEmail || 'N/A'}</p>
         ${order.stripeSessionId ? `<p style="margin: 4px 0;"><strong>Stripe Session:</strong> <code style="font-size: 11px; background: #F3F4F6; padding: 2px 6px; border-radius: 4px;">${order.stripeSessionId}</code></p>` : ''}
       </div>
+      ${order.addressMismatch ? `
+      <div style="margin-bottom: 24px; padding: 12px 16px; background: #FEF2F2; border: 1px solid #FCA5A5; border-radius: 8px; font-size: 14px; color: #991B1B;">
+        <strong>Check the address before shipping:</strong> ${order.addressMismatch}
+      </div>
+      ` : ''}
 
       <!-- Items -->
       <table style="width: 100%; border-collapse: collapse; font-size: 14px; margin-bottom: 24px;">
@@ -281,9 +554,10 @@ function buildAdminEmailHtml(order: OrderEmailData): string {
 
       <!-- Totals -->
       <div style="font-size: 14px; padding: 16px; background: #F9FAFB; border-radius: 8px;">
-        <div style="margin-bottom: 4px;"><span style="color: #6B7280;">Subtotal:</span> CA$${order.subtotal.toFixed(2)}</div>
-        <div style="margin-bottom: 4px;"><span style="color: #6B7280;">Shipping:</span> CA$${order.shipping.toFixed(2)}</div>
-        <div style="font-weight: bold; font-size: 16px; margin-top: 8px; padding-top: 8px; border-top: 1px solid #E5E7EB;">Total: CA$${order.total.toFixed(2)}</div>
+        <div style="margin-bottom: 4px;"><span style="color: #6B7280;">Subtotal:</span> ${money(order.subtotal)}</div>
+        <div style="margin-bottom: 4px;"><span style="color: #6B7280;">Shipping:</span> ${money(order.shipping)}</div>
+        ${(order.taxLines || []).map(line => `<div style="margin-bottom: 4px;"><span style="color: #6B7280;">${line.label}:</span> ${money(line.amount)}</div>`).join('')}
+        <div style="font-weight: bold; font-size: 16px; margin-top: 8px; padding-top: 8px; border-top: 1px solid #E5E7EB;">Total: ${money(order.total)}</div>
       </div>
 
       <!-- Shipping Address -->
@@ -293,6 +567,12 @@ function buildAdminEmailHtml(order: OrderEmailData): string {
         ${buildAddressHtml(order.shippingAddress)}
       </div>
       ` : ''}
+      ${order.pickupLocation ? `
+      <div style="margin-top: 24px;">
+        <h3 style="font-size: 14px; margin: 0 0 8px;">Pickup — no label needed:</h3>
+        ${buildPickupHtml(order.pickupLocation)}
+      </div>
+      ` : ''}
 
       <!-- Action -->
       <div style="margin-top: 24px; text-align: center;">
@@ -357,3 +637,329 @@ function buildShippedEmailHtml(orderNumber: string, trackingCode: string): strin
 </body>
 </html>`;
 }
+
+function buildReadyForPickupEmailHtml(orderNumber: string, location: PickupEmailLocation): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"></head>
+<body style="margin: 0; padding: 0; background-color: #F5F3EF; font-family: 'Helvetica Neue', Arial, sans-serif;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 40px 20px;">
+
+    <!-- Header -->
+    <div style="text-align: center; margin-bottom: 32px;">
+      <img src="https://shop.onsiteclub.ca/assets/logo-onsite-club.png" alt="OnSite Club" style="height: 48px; width: auto; margin-bottom: 8px;" />
+      <p style="color: #6B7280; font-size: 13px; margin: 0; letter-spacing: 2px; text-transform: uppercase;">Built For Those Who Build</p>
+    </div>
+
+    <!-- Card -->
+    <div style="background: white; border-radius: 16px; padding: 32px; box-shadow: 0 1px 3px rgba(0,0,0,0.1);">
+
+      <div style="text-align: center; margin-bottom: 24px;">
+        <h2 style="color: #1B2B27; font-size: 20px; margin: 16px 0 4px;">Your Order Is Ready for Pickup!</h2>
+        <p style="color: #6B7280; font-size: 14px; margin: 0;">Order <strong>${orderNumber}</strong></p>
+      </div>
+
+      <div style="background: #F0FDF4; border: 1px solid #BBF7D0; border-radius: 12px; padding: 20px; margin-bottom: 24px;">
+        <p style="color: #15803D; font-size: 13px; margin: 0 0 8px; text-transform: uppercase; letter-spacing: 1px;">Pick up at</p>
+        ${buildPickupHtml(location)}
+      </div>
+
+      ${location.instructions ? `
+      <p style="color: #1B2B27; font-size: 14px; line-height: 1.6; margin: 0 0 16px;">${location.instructions}</p>
+      ` : ''}
+
+      <p style="color: #9CA3AF; font-size: 12px; text-align: center; margin: 0;">
+        Bring your order number. Someone else collecting? Forward them this email.
+      </p>
+
+    </div>
+
+    <!-- Footer -->
+    <div style="text-align: center; margin-top: 32px;">
+      <p style="color: #9CA3AF; font-size: 12px;">
+        OnSite Club — Construction Community in Canada
+      </p>
+    </div>
+
+  </div>
+</body>
+</html>`;
+}
+
+function buildRefundEmailHtml(refund: RefundEmailData): string {
+  const itemsHtml = refund.items.map(item => `
+    <tr>
+      <td style="padding: 8px 0; border-bottom: 1px solid #E5E7EB; color: #1B2B27;">
+        ${item.name}
+        ${item.size || item.color ? `<br><span style="color: #6B7280; font-size: 13px;">${[item.color, item.size].filter(Boolean).join(' — ')}</span>` : ''}
+      </td>
+      <td style="padding: 8px 0; border-bottom: 1px solid #E5E7EB; text-align: right; color: #6B7280;">
+        × ${item.quantity}
+      </td>
+    </tr>
+  `).join('');
+
+  return `
+<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"></head>
+<body style="margin: 0; padding: 0; background-color: #F5F3EF; font-family: 'Helvetica Neue', Arial, sans-serif;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 40px 20px;">
+
+    <!-- Header -->
+    <div style="text-align: center; margin-bottom: 32px;">
+      <img src="https://shop.onsiteclub.ca/assets/logo-onsite-club.png" alt="OnSite Club" style="height: 48px; width: auto; margin-bottom: 8px;" />
+      <p style="color: #6B7280; font-size: 13px; margin: 0; letter-spacing: 2px; text-transform: uppercase;">Built For Those Who Build</p>
+    </div>
+
+    <!-- Card -->
+    <div style="background: white; border-radius: 16px; padding: 32px; box-shadow: 0 1px 3px rgba(0,0,0,0.1);">
+
+      <div style="text-align: center; margin-bottom: 24px;">
+        <h2 style="color: #1B2B27; font-size: 20px; margin: 16px 0 4px;">${refund.isFullRefund ? 'Your Order Has Been Refunded' : 'A Refund Is On Its Way'}</h2>
+        <p style="color: #6B7280; font-size: 14px; margin: 0;">Order <strong>${refund.orderNumber}</strong></p>
+      </div>
+
+      <div style="background: #F0FDF4; border: 1px solid #BBF7D0; border-radius: 12px; padding: 20px; text-align: center; margin-bottom: 24px;">
+        <p style="color: #15803D; font-size: 13px; margin: 0 0 8px; text-transform: uppercase; letter-spacing: 1px;">Refund Amount</p>
+        <p style="color: #1B2B27; font-size: 24px; font-weight: bold; margin: 0;">${money(refund.amount)}</p>
+        ${refund.totalRefunded > refund.amount ? `<p style="color: #6B7280; font-size: 12px; margin: 8px 0 0;">Total refunded on this order: ${money(refund.totalRefunded)}</p>` : ''}
+      </div>
+
+      ${refund.items.length > 0 ? `
+      <table style="width: 100%; border-collapse: collapse; margin-bottom: 24px;">
+        ${itemsHtml}
+      </table>
+      ` : ''}
+
+      <p style="color: #6B7280; font-size: 13px; line-height: 1.6; margin: 0;">
+        The refund goes back to your original payment method. Depending on your bank, it can take 5–10 business days to appear on your statement.
+      </p>
+
+    </div>
+
+    <!-- Footer -->
+    <div style="text-align: center; margin-top: 32px;">
+      <p style="color: #9CA3AF; font-size: 12px;">
+        OnSite Club — Construction Community in Canada
+      </p>
+    </div>
+
+  </div>
+</body>
+</html>`;
+}
+
+function buildReturnEmailHtml(update: ReturnEmailData): string {
+  const heading = update.kind === 'approved'
+    ? 'Your Return Is Approved'
+    : update.kind === 'rejected'
+      ? 'We Couldn’t Approve Your Return'
+      : 'Your Exchange Is On Its Way';
+
+  const itemsHtml = update.items.map(item => `
+    <tr>
+      <td style="padding: 8px 0; border-bottom: 1px solid #E5E7EB; color: #1B2B27;">
+        ${item.name}
+        ${item.size || item.color ? `<br><span style="color: #6B7280; font-size: 13px;">${[item.color, item.size].filter(Boolean).join(' — ')}${item.exchangeSize ? ` → ${item.exchangeSize}` : ''}</span>` : ''}
+      </td>
+      <td style="padding: 8px 0; border-bottom: 1px solid #E5E7EB; text-align: right; color: #6B7280;">
+        × ${item.quantity}
+      </td>
+    </tr>
+  `).join('');
+
+  let bodyHtml = '';
+  if (update.kind === 'approved' && update.labelUrl) {
+    bodyHtml = `
+      <div style="text-align: center; margin-bottom: 24px;">
+        <a href="${update.labelUrl}" style="display: inline-block; background: #1B2B27; color: white; text-decoration: none; padding: 12px 24px; border-radius: 8px; font-size: 14px; font-weight: 500;">
+          Print Your Return Label
+        </a>
+      </div>
+      <p style="color: #6B7280; font-size: 13px; line-height: 1.6; margin: 0;">
+        Pack the item(s) in their original packaging, tape the label on the parcel and drop it at any Canada Post location. The label is prepaid. We'll take it from there once it reaches us.
+      </p>`;
+  } else if (update.kind === 'approved') {
+    bodyHtml = `
+      <p style="color: #6B7280; font-size: 13px; line-height: 1.6; margin: 0 0 12px;">
+        Please mail the item(s) in their original packaging to the address below, and write <strong>${update.rmaNumber}</strong> on the parcel so we can match it to your order.
+      </p>
+      ${update.shipTo?.length ? `<p style="color: #1B2B27; margin: 0; line-height: 1.6;">${update.shipTo.join('<br>')}</p>` : ''}`;
+  } else if (update.kind === 'rejected') {
+    bodyHtml = `
+      <p style="color: #6B7280; font-size: 13px; line-height: 1.6; margin: 0;">
+        ${update.note || 'This return doesn’t meet our return policy.'} Reply to this email if you have any questions.
+      </p>`;
+  } else {
+    bodyHtml = `
+      <p style="color: #6B7280; font-size: 13px; line-height: 1.6; margin: 0;">
+        We received your return. Your replacement ships as order <strong>${update.replacementOrderNumber}</strong> — you'll get a tracking number as soon as it's on its way.
+      </p>`;
+  }
+
+  return `
+<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"></head>
+<body style="margin: 0; padding: 0; background-color: #F5F3EF; font-family: 'Helvetica Neue', Arial, sans-serif;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 40px 20px;">
+
+    <!-- Header -->
+    <div style="text-align: center; margin-bottom: 32px;">
+      <img src="https://shop.onsiteclub.ca/assets/logo-onsite-club.png" alt="OnSite Club" style="height: 48px; width: auto; margin-bottom: 8px;" />
+      <p style="color: #6B7280; font-size: 13px; margin: 0; letter-spacing: 2px; text-transform: uppercase;">Built For Those Who Build</p>
+    </div>
+
+    <!-- Card -->
+    <div style="background: white; border-radius: 16px; padding: 32px; box-shadow: 0 1px 3px rgba(0,0,0,0.1);">
+
+      <div style="text-align: center; margin-bottom: 24px;">
+        <h2 style="color: #1B2B27; font-size: 20px; margin: 16px 0 4px;">${heading}</h2>
+        <p style="color: #6B7280; font-size: 14px; margin: 0;">Return <strong>${update.rmaNumber}</strong> · Order <strong>${update.orderNumber}</strong></p>
+      </div>
+
+      ${update.items.length > 0 ? `
+      <table style="width: 100%; border-collapse: collapse; margin-bottom: 24px;">
+        ${itemsHtml}
+      </table>
+      ` : ''}
+
+      ${bodyHtml}
+
+    </div>
+
+    <!-- Footer -->
+    <div style="text-align: center; margin-top: 32px;">
+      <p style="color: #9CA3AF; font-size: 12px;">
+        OnSite Club — Construction Community in Canada
+      </p>
+    </div>
+
+  </div>
+</body>
+</html>`;
+}
+
+function buildCartRecoveryEmailHtml(cart: CartRecoveryEmailData, heading: string): string {
+  const itemsHtml = cart.items.map(item => `
+    <tr>
+      <td style="padding: 12px 0; border-bottom: 1px solid #E5E7EB;">
+        <strong style="color: #1B2B27;">${item.name}</strong>
+        ${item.size || item.color ? `<br><span style="color: #6B7280; font-size: 13px;">${[item.color, item.size].filter(Boolean).join(' — ')}</span>` : ''}
+      </td>
+      <td style="padding: 12px 0; border-bottom: 1px solid #E5E7EB; text-align: center; color: #6B7280;">
+        ${item.quantity}
+      </td>
+      <td style="padding: 12px 0; border-bottom: 1px solid #E5E7EB; text-align: right; color: #1B2B27;">
+        ${money(item.price * item.quantity)}
+      </td>
+    </tr>
+  `).join('');
+
+  return `
+<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"></head>
+<body style="margin: 0; padding: 0; background-color: #F5F3EF; font-family: 'Helvetica Neue', Arial, sans-serif;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 40px 20px;">
+
+    <!-- Header -->
+    <div style="text-align: center; margin-bottom: 32px;">
+      <img src="https://shop.onsiteclub.ca/assets/logo-onsite-club.png" alt="OnSite Club" style="height: 48px; width: auto; margin-bottom: 8px;" />
+      <p style="color: #6B7280; font-size: 13px; margin: 0; letter-spacing: 2px; text-transform: uppercase;">Built For Those Who Build</p>
+    </div>
+
+    <!-- Card -->
+    <div style="background: white; border-radius: 16px; padding: 32px; box-shadow: 0 1px 3px rgba(0,0,0,0.1);">
+
+      <div style="text-align: center; margin-bottom: 24px;">
+        <h2 style="color: #1B2B27; font-size: 20px; margin: 16px 0 4px;">${heading}</h2>
+        <p style="color: #6B7280; font-size: 14px; margin: 0;">We saved your cart — pick up right where you left off.</p>
+      </div>
+
+      <table style="width: 100%; border-collapse: collapse; margin-bottom: 16px;">
+        ${itemsHtml}
+      </table>
+
+      <p style="color: #1B2B27; font-size: 15px; text-align: right; margin: 0 0 24px;">
+        Total at checkout: <strong>${money(cart.total)}</strong>
+      </p>
+
+      <div style="text-align: center;">
+        <a href="${cart.recoveryUrl}" style="display: inline-block; background: #1B2B27; color: white; text-decoration: none; padding: 12px 24px; border-radius: 8px; font-size: 14px; font-weight: 500;">
+          Return to my cart
+        </a>
+        <p style="color: #9CA3AF; font-size: 12px; margin-top: 12px;">
+          Prices and stock are confirmed again at checkout.
+        </p>
+      </div>
+
+    </div>
+
+    <!-- Footer -->
+    <div style="text-align: center; margin-top: 32px;">
+      <p style="color: #9CA3AF; font-size: 12px;">
+        OnSite Club — Construction Community in Canada
+      </p>
+      <p style="color: #9CA3AF; font-size: 12px;">
+        You're getting this because you started a checkout at OnSite Shop.
+        <a href="${cart.unsubscribeUrl}" style="color: #9CA3AF;">Unsubscribe from cart reminders</a>
+      </p>
+    </div>
+
+  </div>
+</body>
+</html>`;
+}
+
+function buildBackInStockEmailHtml(item: BackInStockEmailData): string {
+  const variant = [item.color, item.size].filter(Boolean).join(' — ');
+
+  return `
+<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"></head>
+<body style="margin: 0; padding: 0; background-color: #F5F3EF; font-family: 'Helvetica Neue', Arial, sans-serif;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 40px 20px;">
+
+    <!-- Header -->
+    <div style="text-align: center; margin-bottom: 32px;">
+      <img src="https://shop.onsiteclub.ca/assets/logo-onsite-club.png" alt="OnSite Club" style="height: 48px; width: auto; margin-bottom: 8px;" />
+      <p style="color: #6B7280; font-size: 13px; margin: 0; letter-spacing: 2px; text-transform: uppercase;">Built For Those Who Build</p>
+    </div>
+
+    <!-- Card -->
+    <div style="background: white; border-radius: 16px; padding: 32px; box-shadow: 0 1px 3px rgba(0,0,0,0.1); text-align: center;">
+
+      <h2 style="color: #1B2B27; font-size: 20px; margin: 0 0 4px;">It's back in stock</h2>
+      <p style="color: #6B7280; font-size: 14px; margin: 0 0 24px;">You asked us to let you know.</p>
+
+      ${item.image ? `<img src="${item.image}" alt="${item.productName}" style="width: 200px; height: 200px; object-fit: cover; border-radius: 12px; margin-bottom: 16px;" />` : ''}
+
+      <p style="color: #1B2B27; font-size: 16px; margin: 0;"><strong>${item.productName}</strong></p>
+      ${variant ? `<p style="color: #6B7280; font-size: 13px; margin: 4px 0 0;">${variant}</p>` : ''}
+
+      <div style="margin-top: 24px;">
+        <a href="${item.productUrl}" style="display: inline-block; background: #1B2B27; color: white; text-decoration: none; padding: 12px 24px; border-radius: 8px; font-size: 14px; font-weight: 500;">
+          Shop it now
+        </a>
+        <p style="color: #9CA3AF; font-size: 12px; margin-top: 12px;">
+          Stock is limited and isn't held for you — first come, first served.
+        </p>
+      </div>
+
+    </div>
+
+    <!-- Footer -->
+    <div style="text-align: center; margin-top: 32px;">
+      <p style="color: #9CA3AF; font-size: 12px;">
+        OnSite Club — Construction Community in Canada
+      </p>
+    </div>
+
+  </div>
+</body>
+</html>`;
+}
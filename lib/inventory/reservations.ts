@@ -0,0 +1,101 @@
+import { createClient } from '@supabase/supabase-js'
+import type { PricedLine } from '@/lib/checkout/pricing'
+
+// ============================================
+// STOCK RESERVATIONS (server-only)
+// Thin wrappers over the reserve/commit/release SQL functions — all the
+// locking happens in Postgres (see 20261019040001_inventory.sql).
+// ============================================
+
+function getServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+/** What a held line needs — checkout passes its priced lines, exchanges build these */
+export type ReservableLine = Pick<PricedLine, 'productId' | 'variantId' | 'size' | 'color' | 'quantity' | 'preorderShipsAt' | 'name'>
+
+export interface ReserveResult {
+  held: number          // tracked lines reserved (0 = nothing in the cart is stock-tracked)
+  error?: string
+  code?: 'out_of_stock'
+}
+
+/**
+ * Hold stock for every tracked line in the cart, all or nothing.
+ * Lines for the same variant are merged before reserving; untracked variants
+ * (track_stock = false) are skipped by the SQL function. Pre-order lines are
+ * held past zero, leaving the backorder on stock_quantity once committed.
+ */
+export async function reserveStock(
+  reservationId: string,
+  lines: ReservableLine[],
+  expiresAt: Date,
+): Promise<ReserveResult> {
+  const merged = new Map<string, { variant_id: string | null; product_id: string; size: string; color: string; quantity: number; preorder: boolean; name: string }>()
+  for (const line of lines) {
+    if (!line.productId) continue
+    const key = line.variantId || `${line.productId}|${line.size}|${line.color}`
+    const prev = merged.get(key)
+    if (prev) prev.quantity += line.quantity
+    else merged.set(key, {
+      variant_id: line.variantId,
+      product_id: line.productId,
+      size: line.size,
+      color: line.color,
+      quantity: line.quantity,
+      preorder: !!line.preorderShipsAt,
+      name: line.name,
+    })
+  }
+  if (merged.size === 0) return { held: 0 }
+
+  const supabase = getServiceClient()
+  const { data, error } = await supabase.rpc('reserve_stock', {
+    p_reservation_id: reservationId,
+    p_items: Array.from(merged.values()).map(({ name, ...item }) => item),
+    p_expires_at: expiresAt.toISOString(),
+  })
+
+  if (error) {
+    // OUT_OF_STOCK:<product_id>:<size>:<color>:<available>
+    const match = error.message?.match(/OUT_OF_STOCK:([^:]*):([^:]*):([^:]*):(\d+)/)
+    if (match) {
+      const [, productId, size, color, available] = match
+      const line = Array.from(merged.values()).find(
+        m => m.product_id === productId && m.size === size && m.color === color
+      )
+      const variant = [color, size].filter(Boolean).join(' / ')
+      const label = `${line?.name || 'An item'}${variant ? ` (${variant})` : ''}`
+      return {
+        held: 0,
+        code: 'out_of_stock',
+        error: Number(available) > 0
+          ? `Only ${available} left of ${label} — please update your cart`
+          : `${label} is sold out — please remove it from your cart`,
+      }
+    }
+    throw new Error(`Stock reservation failed: ${error.message}`)
+  }
+
+  return { held: typeof data === 'number' ? data : 0 }
+}
+
+export async function commitStockReservation(reservationId: string, sessionId: string) {
+  const supabase = getServiceClient()
+  const { error } = await supabase.rpc('commit_stock_reservation', {
+    p_reservation_id: reservationId,
+    p_session_id: sessionId,
+  })
+  if (error) throw new Error(`Stock commit failed: ${error.message}`)
+}
+
+export async function releaseStockReservation(reservationId: string) {
+  const supabase = getServiceClient()
+  const { error } = await supabase.rpc('release_stock_reservation', {
+    p_reservation_id: reservationId,
+  })
+  if (error) throw new Error(`Stock release failed: ${error.message}`)
+}
@@ -0,0 +1,156 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import { sendBackInStockNotification } from '@/lib/email'
+import { slugify } from '@/lib/products'
+
+// ============================================
+// BACK-IN-STOCK ALERTS (server-only)
+// "Notify me" sign-ups on sold-out variants. Sent right after an admin saves
+// new stock, and by the stock-alerts cron for anything restocked elsewhere
+// (Supabase edits, released checkout holds).
+// ============================================
+
+function getServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const BATCH_SIZE = 200
+
+const available = (v: { track_stock: boolean; stock_quantity: number; reserved_quantity: number }) =>
+  !v.track_stock || v.stock_quantity - v.reserved_quantity > 0
+
+export interface AlertSignup {
+  variantId: string
+  email: string
+  userId: string | null
+}
+
+/** Sign an address up for one sold-out variant. Signing up twice is not an error. */
+export async function subscribeBackInStock({ variantId, email, userId }: AlertSignup): Promise<{ error?: string; status?: number }> {
+  const address = email.trim().toLowerCase()
+  if (!EMAIL_RE.test(address) || address.length > 255) return { error: 'A valid email is required', status: 400 }
+
+  const supabase = getServiceClient()
+  const { data: variant, error: lookupError } = await supabase
+    .from('app_shop_product_variants')
+    .select('id, product_id, is_active, track_stock, stock_quantity, reserved_quantity')
+    .eq('id', variantId)
+    .maybeSingle()
+  if (lookupError) throw new Error(`Variant lookup failed: ${lookupError.message}`)
+  if (!variant || !variant.is_active) return { error: 'This option is no longer available', status: 404 }
+  if (available(variant)) return { error: 'This option is in stock — you can order it now', status: 409 }
+
+  const { error } = await supabase
+    .from('back_in_stock_requests')
+    .insert({ variant_id: variant.id, product_id: variant.product_id, email: address, user_id: userId })
+  // 23505: already waiting on this variant
+  if (error && error.code !== '23505') throw new Error(`Alert signup failed: ${error.message}`)
+
+  return {}
+}
+
+export interface AlertRunSummary {
+  sent: number
+  cancelled: number
+  failed: number
+}
+
+const REQUEST_SELECT = 'id, email, variant:app_shop_product_variants(id, size, color, images, is_active, track_stock, stock_quantity, reserved_quantity), product:app_shop_products(name, slug, is_active, primary_image, images, color_images)'
+
+/**
+ * Email every pending request whose variant can be bought again.
+ * `variantIds` narrows the run to what was just restocked. Pages through all
+ * pending requests by id, so a pile of sign-ups on variants that are still
+ * sold out can't hide the ones that came back.
+ */
+export async function sendBackInStockAlerts(variantIds?: string[]): Promise<AlertRunSummary> {
+  const summary: AlertRunSummary = { sent: 0, cancelled: 0, failed: 0 }
+  if (variantIds && variantIds.length === 0) return summary
+
+  const supabase = getServiceClient()
+  const shopUrl = process.env.NEXT_PUBLIC_SHOP_URL || 'https://shop.onsiteclub.ca'
+
+  // Keyset on id — claimed requests leave the pending set without shifting later pages
+  let after: string | null = null
+  for (;;) {
+    let query = supabase
+      .from('back_in_stock_requests')
+      .select(REQUEST_SELECT)
+      .eq('status', 'pending')
+      .order('id', { ascending: true })
+      .limit(BATCH_SIZE)
+    if (variantIds) query = query.in('variant_id', variantIds)
+    if (after) query = query.gt('id', after)
+
+    const { data: requests, error } = await query
+    if (error) throw new Error(`Failed to load back-in-stock requests: ${error.message}`)
+
+    for (const request of (requests || []) as any[]) {
+      await notifyRequest(supabase, request, shopUrl, summary)
+    }
+
+    if (!requests || requests.length < BATCH_SIZE) break
+    after = requests[requests.length - 1].id
+  }
+
+  return summary
+}
+
+async function notifyRequest(supabase: SupabaseClient, request: any, shopUrl: string, summary: AlertRunSummary) {
+  const { variant, product } = request
+  if (!variant || !product) return
+
+  // Turned off for good — nothing will come back to announce
+  if (!variant.is_active) {
+    await supabase.from('back_in_stock_requests').update({ status: 'cancelled' }).eq('id', request.id)
+    summary.cancelled++
+    return
+  }
+  // Still sold out, or the whole product is off the shelf for now
+  if (!available(variant) || !product.is_active) return
+
+  // Claim first so an overlapping run can't send it twice
+  const { data: claimed } = await supabase
+    .from('back_in_stock_requests')
+    .update({ status: 'notified', notified_at: new Date().toISOString() })
+    .eq('id', request.id)
+    .eq('status', 'pending')
+    .select('id')
+  if (!claimed || claimed.length === 0) return
+
+  try {
+    await sendBackInStockNotification({
+      productName: product.name,
+      color: variant.color || undefined,
+      size: variant.size || undefined,
+      image: variant.images?.[0] || product.color_images?.[variant.color]?.[0] || product.primary_image || product.images?.[0] || null,
+      productUrl: `${shopUrl}/products/${product.slug || slugify(product.name)}`,
+    }, request.email)
+    summary.sent++
+  } catch (err) {
+    console.error(`[STOCK-ALERTS] Email failed for request ${request.id}:`, err)
+    // Back in the queue for the next run
+    await supabase
+      .from('back_in_stock_requests')
+      .update({ status: 'pending', notified_at: null })
+      .eq('id', request.id)
+    summary.failed++
+  }
+}
+
+/** Pending sign-ups per variant, for the admin variant matrix */
+export async function pendingAlertCounts(productId: string): Promise<Record<string, number>> {
+  const { data, error } = await getServiceClient()
+    .from('back_in_stock_requests')
+    .select('variant_id')
+    .eq('product_id', productId)
+    .eq('status', 'pending')
+  if (error) throw new Error(`Failed to count back-in-stock requests: ${error.message}`)
+
+  const counts: Record<string, number> = {}
+  for (const row of data || []) counts[row.variant_id] = (counts[row.variant_id] || 0) + 1
+  return counts
+}
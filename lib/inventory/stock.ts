@@ -0,0 +1,53 @@
+// ============================================
+// STOCK LOOKUP (pure — safe for client components)
+// ============================================
+
+/**
+ * Available units per tracked variant, keyed by stockKey(color, size).
+ * Variants missing from the map are untracked and always purchasable.
+ */
+export type StockMap = Record<string, number>
+
+export function stockKey(color: string, size: string): string {
+  return `${color || ''}|${size || ''}`
+}
+
+export function isSoldOut(stock: StockMap | undefined, color: string, size: string): boolean {
+  if (!stock) return false
+  const available = stock[stockKey(color, size)]
+  return available !== undefined && available <= 0
+}
+
+/**
+ * Whether a size can't be bought. With no color chosen yet (or a product
+ * with several colors), a size is only disabled when every color is sold out.
+ */
+export function isSizeSoldOut(
+  stock: StockMap | undefined,
+  size: string,
+  colors: string[],
+  selectedColor?: string,
+): boolean {
+  if (selectedColor) return isSoldOut(stock, selectedColor, size)
+  const candidates = colors.length > 0 ? colors : ['']
+  return candidates.every(color => isSoldOut(stock, color, size))
+}
+
+/** Build a StockMap from app_shop_product_variants rows (untracked rows are left out) */
+export function toStockMap(
+  rows: Array<{ size: string | null; color: string | null; stock_quantity: number; reserved_quantity: number; track_stock?: boolean }>,
+): StockMap {
+  const map: StockMap = {}
+  for (const row of rows) {
+    if (row.track_stock === false) continue
+    map[stockKey(row.color || '', row.size || '')] = Math.max(0, row.stock_quantity - row.reserved_quantity)
+  }
+  return map
+}
+
+/** 'YYYY-MM-DD' → 'Nov 12, 2026' (read as a calendar date, not shifted by timezone) */
+export function formatShipDate(date: string): string {
+  const [y, m, d] = date.split('-').map(Number)
+  if (!y || !m || !d) return date
+  return new Date(y, m - 1, d).toLocaleDateString('en-CA', { month: 'short', day: 'numeric', year: 'numeric' })
+}
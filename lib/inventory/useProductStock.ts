@@ -0,0 +1,26 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { StockMap } from '@/lib/inventory/stock'
+
+/** Live per-variant availability for a product; undefined until loaded (treated as in stock) */
+export function useProductStock(productKey: string | null | undefined): StockMap | undefined {
+  const [stock, setStock] = useState<StockMap | undefined>(undefined)
+
+  useEffect(() => {
+    setStock(undefined)
+    if (!productKey) return
+
+    const controller = new AbortController()
+    fetch(`/api/products/stock?key=${encodeURIComponent(productKey)}`, { signal: controller.signal })
+      .then(res => (res.ok ? res.json() : { stock: {} }))
+      .then(data => setStock(data.stock || {}))
+      .catch(() => {
+        // Aborted or offline — checkout still enforces stock
+      })
+
+    return () => controller.abort()
+  }, [productKey])
+
+  return stock
+}
@@ -0,0 +1,137 @@
+import { createClient } from '@supabase/supabase-js'
+import { getTracking, type TrackingEvent } from '@/lib/canada-post/tracking'
+import { orderShipments } from '@/lib/orders/shipments'
+
+// ============================================
+// PUBLIC ORDER STATUS (server-only)
+// What a customer may see about an order after proving order number + email.
+// No prices, no full address, no staff fields.
+// ============================================
+
+function getServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+export const SERVICE_NAMES: Record<string, string> = {
+  'DOM.RP': 'Regular Parcel',
+  'DOM.EP': 'Expedited Parcel',
+  'DOM.XP': 'Xpresspost',
+  'DOM.PC': 'Priority',
+  'USA.TP': 'Tracked Packet – USA',
+  'USA.EP': 'Expedited Parcel USA',
+  'USA.XP': 'Xpresspost USA',
+  'INT.TP': 'Tracked Packet – International',
+  'INT.IP.AIR': 'International Parcel Air',
+  'INT.XP': 'Xpresspost International',
+  PICKUP: 'Local pickup',
+}
+
+export interface PublicTrackingEvent {
+  date: string
+  time: string
+  time_zone: string
+  description: string
+  location: string
+}
+
+export interface PublicOrderStatus {
+  order_number: string
+  status: 'preorder' | 'paid' | 'processing' | 'ready_for_pickup' | 'shipped' | 'delivered'
+  refund_status: 'refunded' | 'partially_refunded' | null
+  created_at: string
+  processing_at: string | null
+  ready_at: string | null
+  shipped_at: string | null
+  delivered_at: string | null
+  preorder_ships_at: string | null    // YYYY-MM-DD, for orders waiting on pre-ordered stock
+  items: Array<{ name: string; color: string; size: string; qty: number }>
+  destination: string | null          // "City, PROV"
+  pickup: { name: string; street: string; city: string; province: string; hours: string } | null
+  shipping_service: string | null     // "Expedited Parcel"
+  parcels: PublicParcel[]             // one per Canada Post shipment, first = tracking_code
+}
+
+export interface PublicParcel {
+  tracking_code: string
+  tracking: {
+    found: boolean
+    service_name: string | null
+    expected_delivery_date: string | null
+    latest_status: string | null
+    events: PublicTrackingEvent[]
+    error: string | null
+  }
+}
+
+/** Where the parcel is. Refund statuses don't say, so fall back to timestamps. */
+function fulfillmentStatus(row: any): PublicOrderStatus['status'] {
+  if (row.delivered_at || row.status === 'delivered' || row.status === 'archived') return 'delivered'
+  if (row.shipped_at || row.status === 'shipped') return 'shipped'
+  if (row.ready_at || row.status === 'ready_for_pickup') return 'ready_for_pickup'
+  if (row.processing_at || row.status === 'processing') return 'processing'
+  return row.preorder_ships_at ? 'preorder' : 'paid'
+}
+
+function toPublicEvent(e: TrackingEvent): PublicTrackingEvent {
+  return { date: e.date, time: e.time, time_zone: e.timeZone, description: e.description, location: e.location }
+}
+
+/**
+ * Look up an order for the public tracker. Returns null unless the email
+ * matches the one on the order (case-insensitive), so a valid order number
+ * alone reveals nothing.
+ */
+export async function getPublicOrderStatus(orderNumber: string, email: string): Promise<PublicOrderStatus | null> {
+  const supabase = getServiceClient()
+  const { data: row, error } = await supabase
+    .from('app_shop_orders')
+    .select('order_number, status, refund_status, email, items, shipping_address, shipping_service, pickup_location, tracking_code, label_url, shipments, created_at, processing_at, ready_at, shipped_at, delivered_at, preorder_ships_at')
+    .eq('order_number', orderNumber.trim().toUpperCase())
+    .maybeSingle()
+
+  if (error) throw new Error(`Order lookup failed: ${error.message}`)
+  if (!row || !row.email || row.email.trim().toLowerCase() !== email.trim().toLowerCase()) return null
+
+  // One at a time — Canada Post rate-limits per API key
+  const parcels: PublicParcel[] = []
+  for (const shipment of orderShipments(row)) {
+    const result = await getTracking(shipment.trackingPin, 50)
+    parcels.push({
+      tracking_code: shipment.trackingPin,
+      tracking: {
+        found: result.found,
+        service_name: result.serviceName || null,
+        expected_delivery_date: result.expectedDeliveryDate || null,
+        latest_status: result.latestStatus || null,
+        events: (result.events || []).map(toPublicEvent),
+        error: result.found ? null : result.error || null,
+      },
+    })
+  }
+
+  const address = row.shipping_address || null
+  const pickup = row.pickup_location || null
+  const items: any[] = Array.isArray(row.items) ? row.items : []
+
+  return {
+    order_number: row.order_number,
+    status: fulfillmentStatus(row),
+    refund_status: row.refund_status || null,
+    created_at: row.created_at,
+    processing_at: row.processing_at || null,
+    ready_at: row.ready_at || null,
+    shipped_at: row.shipped_at || null,
+    delivered_at: row.delivered_at || null,
+    preorder_ships_at: row.preorder_ships_at || null,
+    items: items.map(i => ({ name: i.name || 'Item', color: i.color || '', size: i.size || '', qty: i.qty || 1 })),
+    destination: address?.city ? [address.city, address.province].filter(Boolean).join(', ') : null,
+    pickup: pickup
+      ? { name: pickup.name, street: pickup.street, city: pickup.city, province: pickup.province, hours: pickup.hours || '' }
+      : null,
+    shipping_service: row.shipping_service ? SERVICE_NAMES[row.shipping_service] || row.shipping_service : null,
+    parcels,
+  }
+}
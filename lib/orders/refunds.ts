@@ -0,0 +1,123 @@
+import { calculateTax } from '@/lib/checkout/tax'
+
+// ============================================
+// REFUND MATH (pure — shared by admin UI, refund route and webhook)
+// ============================================
+
+export interface RefundLine {
+  index: number     // position in order.items
+  quantity: number
+  amount: number    // cents, goods only (before tax)
+}
+
+export interface OrderRefund {
+  id: string                // Stripe refund id (re_...)
+  amount: number            // cents, as refunded by Stripe (goods + shipping + tax)
+  reason: string | null
+  items: RefundLine[]
+  shipping: number          // cents of shipping refunded (before tax)
+  status: string            // Stripe refund status
+  created_at: string
+  created_by: string | null
+  notified_at: string | null
+}
+
+export interface RefundableOrder {
+  items: Array<{ qty?: number; price?: number; paid?: number }>
+  total: number
+  shipping_cost: number
+  tax: number
+  tax_province: string | null
+  refunded_amount: number
+  refunds: OrderRefund[]
+}
+
+export interface RefundRequestLine {
+  index: number
+  quantity: number
+}
+
+export interface RefundQuote {
+  amount: number        // cents to send to Stripe
+  goods: number
+  shipping: number
+  tax: number
+  lines: RefundLine[]
+}
+
+/** Cents actually paid for one unit of a line (after promo) */
+export function unitPaid(item: RefundableOrder['items'][number]): number {
+  const qty = item.qty || 1
+  if (typeof item.paid === 'number') return item.paid / qty
+  return item.price || 0
+}
+
+/** Units of each line already refunded (only refunds that haven't failed) */
+export function refundedQuantities(order: RefundableOrder): number[] {
+  const counts = order.items.map(() => 0)
+  for (const refund of order.refunds) {
+    if (refund.status === 'failed' || refund.status === 'canceled') continue
+    for (const line of refund.items || []) {
+      if (line.index >= 0 && line.index < counts.length) counts[line.index] += line.quantity
+    }
+  }
+  return counts
+}
+
+export function refundedShipping(order: RefundableOrder): number {
+  return order.refunds
+    .filter(r => r.status !== 'failed' && r.status !== 'canceled')
+    .reduce((sum, r) => sum + (r.shipping || 0), 0)
+}
+
+export function refundStatusFor(total: number, refundedAmount: number): 'refunded' | 'partially_refunded' | null {
+  if (refundedAmount <= 0) return null
+  return refundedAmount >= total ? 'refunded' : 'partially_refunded'
+}
+
+/**
+ * Price a refund for the given lines (+ optional remaining shipping).
+ * Tax is refunded proportionally using the order's province; orders charged
+ * without tax refund none. Returns `error` when a quantity exceeds what's left.
+ */
+export function quoteRefund(
+  order: RefundableOrder,
+  request: { lines: RefundRequestLine[]; includeShipping: boolean },
+): RefundQuote & { error?: string } {
+  const alreadyRefunded = refundedQuantities(order)
+  const lines: RefundLine[] = []
+
+  for (const req of request.lines) {
+    if (req.quantity <= 0) continue
+    const item = order.items[req.index]
+    if (!item) return { amount: 0, goods: 0, shipping: 0, tax: 0, lines: [], error: `No item at position ${req.index}` }
+
+    const remaining = (item.qty || 1) - alreadyRefunded[req.index]
+    if (!Number.isInteger(req.quantity) || req.quantity > remaining) {
+      return { amount: 0, goods: 0, shipping: 0, tax: 0, lines: [], error: `Only ${remaining} unit(s) left to refund on line ${req.index + 1}` }
+    }
+    lines.push({ index: req.index, quantity: req.quantity, amount: Math.round(unitPaid(item) * req.quantity) })
+  }
+
+  const goods = lines.reduce((sum, l) => sum + l.amount, 0)
+  const shipping = request.includeShipping ? Math.max(0, order.shipping_cost - refundedShipping(order)) : 0
+  const tax = order.tax > 0 && order.tax_province
+    ? calculateTax(order.tax_province, goods, shipping).total
+    : 0
+
+  const remainingTotal = order.total - order.refunded_amount
+  const amount = Math.min(goods + shipping + tax, remainingTotal)
+
+  return { amount, goods, shipping, tax, lines }
+}
+
+/** Everything not yet refunded — used for "refund full order" */
+export function quoteFullRefund(order: RefundableOrder): RefundQuote {
+  const alreadyRefunded = refundedQuantities(order)
+  const quote = quoteRefund(order, {
+    lines: order.items.map((item, index) => ({ index, quantity: (item.qty || 1) - alreadyRefunded[index] })),
+    includeShipping: true,
+  })
+  // Rounding can leave a few cents behind — a full refund always clears the balance
+  return { ...quote, amount: order.total - order.refunded_amount }
+}
@@ -0,0 +1,522 @@
+import Stripe from 'stripe'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createAuthorizedReturn, downloadLabel } from '@/lib/canada-post/shipment'
+import { getProductCatalog } from '@/lib/catalog/product-types'
+import { findVariant, inMatrix, VARIANT_COLUMNS, type CatalogVariant } from '@/lib/catalog/variants'
+import { getTracking } from '@/lib/canada-post/tracking'
+import type { ShipmentAddress } from '@/lib/canada-post/types'
+import { sendReturnUpdateToCustomer } from '@/lib/email'
+import { commitStockReservation, releaseStockReservation, reserveStock, type ReservableLine } from '@/lib/inventory/reservations'
+import { orderParcels } from '@/lib/checkout/shipping-quote'
+import { quoteRefund } from '@/lib/orders/refunds'
+import type { OrderReturn } from '@/lib/orders/returns'
+import { getOrderPaymentIntent, syncOrderRefunds } from '@/lib/orders/stripe-sync'
+import { deliveredAtFrom } from '@/lib/orders/tracking-sync'
+
+// ============================================
+// RETURN FULFILLMENT (server-only)
+// Approval label, the return parcel's tracking, and the refund or exchange
+// once it reaches us. Used by /api/admin/returns and /api/cron/tracking.
+// ============================================
+
+const RETURN_SERVICE_CODE = 'DOM.EP'
+const BATCH_SIZE = 50
+const MAX_EVENTS = 50
+const EXCHANGE_HOLD_MS = 15 * 60 * 1000
+
+export interface ReturnPollSummary {
+  checked: number
+  received: number
+  failed: number
+}
+
+/** Where returns go — the same address labels ship from */
+function shopAddress(): ShipmentAddress | null {
+  const address: ShipmentAddress = {
+    name: process.env.CANADAPOST_SENDER_NAME || 'Onsite Club',
+    company: process.env.CANADAPOST_SENDER_COMPANY || 'Onsite Club',
+    phone: process.env.CANADAPOST_SENDER_PHONE || '000-000-0000',
+    addressLine1: process.env.CANADAPOST_SENDER_ADDRESS || '',
+    city: process.env.CANADAPOST_SENDER_CITY || '',
+    province: process.env.CANADAPOST_SENDER_PROVINCE || '',
+    postalCode: process.env.CANADAPOST_ORIGIN_POSTAL || '',
+  }
+  if (!address.addressLine1 || !address.city || !address.province || !address.postalCode) return null
+  return address
+}
+
+function shopAddressLines(): string[] | null {
+  const address = shopAddress()
+  if (!address) return null
+  return [address.company || address.name, address.addressLine1, `${address.city}, ${address.province}`, address.postalCode]
+}
+
+function emailItems(ret: OrderReturn) {
+  return ret.items.map(line => ({
+    name: line.name,
+    quantity: line.quantity,
+    size: line.size,
+    color: line.color,
+    exchangeSize: ret.resolution === 'exchange' ? line.exchange_size : null,
+  }))
+}
+
+async function loadOrder(supabase: SupabaseClient, orderId: string) {
+  const { data: order, error } = await supabase
+    .from('app_shop_orders')
+    .select('*')
+    .eq('id', orderId)
+    .single()
+  if (error || !order) throw new Error(`Order ${orderId} not found: ${error?.message}`)
+  return order
+}
+
+async function updateReturn(supabase: SupabaseClient, id: string, update: Record<string, unknown>): Promise<OrderReturn> {
+  const { data, error } = await supabase
+    .from('order_returns')
+    .update(update)
+    .eq('id', id)
+    .select('*')
+    .single()
+  if (error || !data) throw new Error(`Return update failed: ${error?.message}`)
+  return data
+}
+
+/**
+ * Prepaid Canada Post return label for the returned lines, stored in the
+ * shipping-labels bucket. One parcel: the packed parcels are combined.
+ */
+async function createReturnLabel(
+  supabase: SupabaseClient,
+  ret: OrderReturn,
+  order: any,
+): Promise<{ trackingPin: string; labelUrl: string; error?: string }> {
+  const receiver = shopAddress()
+  if (!receiver) return { trackingPin: '', labelUrl: '', error: 'Sender address not configured (check CANADAPOST_SENDER_* env vars)' }
+
+  const addr = order.shipping_address
+  if (!addr?.name || !addr?.street || !addr?.city || !addr?.province || !addr?.postal_code) {
+    return { trackingPin: '', labelUrl: '', error: 'Order missing shipping address' }
+  }
+  if (addr.country && addr.country !== 'CA') {
+    return { trackingPin: '', labelUrl: '', error: 'Return labels are only available for Canadian addresses' }
+  }
+
+  // Packed from the order's own lines, so each item keeps its type and weight
+  const parcels = orderParcels(
+    ret.items.map(line => ({ ...order.items?.[line.index], sku: line.sku, qty: line.quantity })),
+    await getProductCatalog()
+  )
+  const largest = parcels.reduce((a, b) =>
+    b.dimensions.length * b.dimensions.width * b.dimensions.height > a.dimensions.length * a.dimensions.width * a.dimensions.height ? b : a
+  )
+
+  const result = await createAuthorizedReturn({
+    serviceCode: RETURN_SERVICE_CODE,
+    returner: {
+      name: addr.name,
+      addressLine1: addr.street,
+      addressLine2: addr.apartment || undefined,
+      city: addr.city,
+      province: addr.province,
+      postalCode: addr.postal_code,
+    },
+    receiver,
+    weight: parcels.reduce((sum, p) => sum + p.weight, 0),
+    dimensions: largest.dimensions,
+    receiverEmail: process.env.SHOP_ADMIN_EMAIL || undefined,
+    reference: ret.rma_number,
+    orderNumber: ret.order_number,
+  })
+  if (result.error || !result.labelUrl) {
+    return { trackingPin: '', labelUrl: '', error: result.error || 'No return label returned' }
+  }
+
+  const { pdf, error: downloadError } = await downloadLabel(result.labelUrl)
+  if (downloadError || !pdf.length) {
+    return { trackingPin: result.trackingPin, labelUrl: '', error: downloadError || 'Empty return label' }
+  }
+
+  const fileName = `returns/${ret.rma_number}.pdf`
+  const { error: uploadError } = await supabase.storage
+    .from('shipping-labels')
+    .upload(fileName, pdf, { contentType: 'application/pdf', upsert: true })
+  if (uploadError) {
+    return { trackingPin: result.trackingPin, labelUrl: '', error: `Label upload failed: ${uploadError.message}` }
+  }
+
+  const labelUrl = supabase.storage.from('shipping-labels').getPublicUrl(fileName).data.publicUrl
+  return { trackingPin: result.trackingPin, labelUrl }
+}
+
+/**
+ * Approve a requested return and email the customer. With a contract they
+ * get a prepaid label; otherwise (or if the label fails) mailing instructions.
+ */
+export async function approveReturn(
+  supabase: SupabaseClient,
+  ret: OrderReturn,
+  adminEmail: string,
+  note?: string,
+): Promise<{ ret: OrderReturn; labelError?: string }> {
+  if (ret.status !== 'requested') throw new Error(`Return ${ret.rma_number} is already ${ret.status}`)
+
+  const order = await loadOrder(supabase, ret.order_id)
+  const label = process.env.CANADAPOST_CONTRACT_ID
+    ? await createReturnLabel(supabase, ret, order)
+    : { trackingPin: '', labelUrl: '', error: undefined }
+  if (label.error) console.error(`[RETURNS] Label for ${ret.rma_number} failed:`, label.error)
+
+  const updated = await updateReturn(supabase, ret.id, {
+    status: 'approved',
+    approved_by: adminEmail,
+    approved_at: new Date().toISOString(),
+    tracking_pin: label.trackingPin || null,
+    label_url: label.labelUrl || null,
+    ...(note ? { admin_notes: note } : {}),
+  })
+
+  try {
+    await sendReturnUpdateToCustomer({
+      kind: 'approved',
+      rmaNumber: updated.rma_number,
+      orderNumber: updated.order_number,
+      items: emailItems(updated),
+      labelUrl: updated.label_url,
+      shipTo: updated.label_url ? null : shopAddressLines(),
+    }, updated.email)
+  } catch (emailErr) {
+    console.error('[RETURNS] Approval email error:', emailErr)
+  }
+
+  return { ret: updated, labelError: label.error }
+}
+
+export async function rejectReturn(supabase: SupabaseClient, ret: OrderReturn, note?: string): Promise<OrderReturn> {
+  if (ret.status !== 'requested') throw new Error(`Return ${ret.rma_number} is already ${ret.status}`)
+
+  const updated = await updateReturn(supabase, ret.id, {
+    status: 'rejected',
+    rejected_at: new Date().toISOString(),
+    ...(note ? { admin_notes: note } : {}),
+  })
+
+  try {
+    await sendReturnUpdateToCustomer({
+      kind: 'rejected',
+      rmaNumber: updated.rma_number,
+      orderNumber: updated.order_number,
+      items: emailItems(updated),
+      note: note || null,
+    }, updated.email)
+  } catch (emailErr) {
+    console.error('[RETURNS] Rejection email error:', emailErr)
+  }
+
+  return updated
+}
+
+/** Stripe refund for the returned lines. The charge.refunded webhook emails the customer. */
+async function refundReturn(supabase: SupabaseClient, ret: OrderReturn, order: any): Promise<string> {
+  if (!process.env.STRIPE_SECRET_KEY) throw new Error('Stripe not configured')
+  const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
+    apiVersion: '2025-12-15.clover',
+  })
+
+  const quote = quoteRefund({
+    items: Array.isArray(order.items) ? order.items : [],
+    total: order.total || 0,
+    shipping_cost: order.shipping_cost || 0,
+    tax: order.tax || 0,
+    tax_province: order.tax_province || null,
+    refunded_amount: order.refunded_amount || 0,
+    refunds: Array.isArray(order.refunds) ? order.refunds : [],
+  }, {
+    lines: ret.items.map(line => ({ index: line.index, quantity: line.quantity })),
+    includeShipping: false,
+  })
+  if (quote.error) throw new Error(quote.error)
+  if (quote.amount <= 0) throw new Error('Nothing left to refund on this order')
+
+  const paymentIntentId = await getOrderPaymentIntent(stripe, order)
+  if (!paymentIntentId) throw new Error('Order has no Stripe payment to refund')
+
+  const refund = await stripe.refunds.create({
+    payment_intent: paymentIntentId,
+    amount: quote.amount,
+    reason: 'requested_by_customer',
+    metadata: {
+      order_id: order.id,
+      order_number: order.order_number,
+      items: JSON.stringify(quote.lines.map(l => [l.index, l.quantity, l.amount])),
+      shipping: '0',
+      created_by: `return ${ret.rma_number}`,
+      return_id: ret.id,
+    },
+  }, {
+    // A retried completion must not refund twice
+    idempotencyKey: `return-${ret.id}`,
+  })
+
+  console.log(`[RETURNS] ${ret.rma_number} refunded ${refund.id} — CA$${(quote.amount / 100).toFixed(2)}`)
+
+  try {
+    await syncOrderRefunds(stripe, supabase, order.id, { notify: false })
+  } catch (syncErr) {
+    console.error('[RETURNS] Order sync error (webhook will retry):', syncErr)
+  }
+
+  return refund.id
+}
+
+/**
+ * The lines an exchange ships: each returned line resolved to the variant for
+ * its new size, so the SKU, variant id and weight match what goes in the box.
+ * Lines from before variants keep the original's and aren't stock-tracked.
+ */
+async function exchangeLines(
+  supabase: SupabaseClient,
+  ret: OrderReturn,
+  order: any,
+): Promise<{ items: any[]; holds: ReservableLine[] }> {
+  const items: any[] = []
+  const holds: ReservableLine[] = []
+
+  for (const line of ret.items) {
+    const original = order.items?.[line.index] || {}
+    const size: string = line.exchange_size || original.size || ''
+    const { preorder_ships_at: _preorder, ...rest } = original
+    const item: any = { ...rest, size, qty: line.quantity, paid: 0 }
+
+    if (original.variant_id) {
+      const { data: current, error: currentError } = await supabase
+        .from('app_shop_product_variants')
+        .select('product_id, color')
+        .eq('id', original.variant_id)
+        .maybeSingle()
+      if (currentError) throw new Error(`Variant lookup failed: ${currentError.message}`)
+      if (!current) throw new Error(`${original.name || 'An item'} no longer exists in the catalog`)
+
+      const [{ data: product, error: productError }, { data: variants, error: variantsError }] = await Promise.all([
+        supabase.from('app_shop_products').select('name, sizes, colors').eq('id', current.product_id).single(),
+        supabase.from('app_shop_product_variants').select(VARIANT_COLUMNS).eq('product_id', current.product_id),
+      ])
+      if (productError || !product) throw new Error(`Product lookup failed: ${productError?.message}`)
+      if (variantsError) throw new Error(`Variant lookup failed: ${variantsError.message}`)
+
+      const variant = findVariant((variants || []) as unknown as CatalogVariant[], current.color, size)
+      if (!variant || !variant.is_active || !inMatrix(variant, product.sizes, product.colors)) {
+        throw new Error(`${product.name} isn't available in size ${size || 'one size'} anymore`)
+      }
+
+      item.variant_id = variant.id
+      if (variant.sku) item.sku = variant.sku
+      if (variant.weight != null) item.weight = Number(variant.weight)
+      else delete item.weight
+      holds.push({
+        productId: variant.product_id,
+        variantId: variant.id,
+        size: variant.size,
+        color: variant.color,
+        quantity: line.quantity,
+        preorderShipsAt: null,
+        name: product.name,
+      })
+    }
+
+    items.push(item)
+  }
+
+  return { items, holds }
+}
+
+/** $0 replacement order with the new sizes — it ships through the normal label flow */
+async function createExchangeOrder(supabase: SupabaseClient, ret: OrderReturn, order: any): Promise<{ id: string; order_number: string }> {
+  const { items, holds } = await exchangeLines(supabase, ret, order)
+
+  // The new sizes come out of the same stock as a sale — and never as a pre-order
+  const reservationId = crypto.randomUUID()
+  const reservation = await reserveStock(reservationId, holds, new Date(Date.now() + EXCHANGE_HOLD_MS))
+  if (reservation.code === 'out_of_stock') {
+    throw new Error(`Not enough stock to exchange ${ret.rma_number} — restock the new size or refund it instead`)
+  }
+
+  const { data: orderNumber, error: seqError } = await supabase.rpc('next_shop_order_number')
+  if (seqError || !orderNumber) {
+    await releaseStockReservation(reservationId)
+    throw new Error(`Order number failed: ${seqError?.message}`)
+  }
+
+  const { data: created, error } = await supabase
+    .from('app_shop_orders')
+    .insert({
+      order_number: orderNumber,
+      status: 'paid',
+      email: order.email,
+      user_id: order.user_id || null,
+      items,
+      shipping_address: order.shipping_address,
+      customer_notes: `Exchange for ${order.order_number} (${ret.rma_number})`,
+      total: 0,
+      subtotal: 0,
+      shipping: 0,
+      shipping_cost: 0,
+      tax: 0,
+      tax_province: order.tax_province || null,
+      tax_lines: [],
+      shipping_service: order.shipping_service || null,
+      created_at: new Date().toISOString(),
+    })
+    .select('id, order_number')
+    .single()
+  if (error || !created) {
+    await releaseStockReservation(reservationId)
+    throw new Error(`Exchange order failed: ${error?.message}`)
+  }
+
+  // Link straight away so a retry after a later failure doesn't create a second order
+  await updateReturn(supabase, ret.id, { exchange_order_id: created.id })
+
+  if (reservation.held > 0) {
+    try {
+      await commitStockReservation(reservationId, created.order_number)
+    } catch (stockErr) {
+      console.error(`[RETURNS] ${created.order_number} stock commit failed (reservation ${reservationId}):`, stockErr)
+    }
+  }
+
+  console.log(`[RETURNS] ${ret.rma_number} exchanged → ${created.order_number}`)
+  return created
+}
+
+/**
+ * Run the resolution for a received return. Safe to retry: the refund is
+ * idempotent on the return and an existing exchange order is reused.
+ */
+export async function completeReturn(supabase: SupabaseClient, ret: OrderReturn): Promise<OrderReturn> {
+  if (ret.status !== 'received') throw new Error(`Return ${ret.rma_number} hasn't been received`)
+
+  const order = await loadOrder(supabase, ret.order_id)
+
+  if (ret.resolution === 'refund') {
+    const refundId = ret.refund_id || await refundReturn(supabase, ret, order)
+    return updateReturn(supabase, ret.id, {
+      status: 'completed',
+      refund_id: refundId,
+      completed_at: new Date().toISOString(),
+    })
+  }
+
+  let replacementNumber: string
+  if (ret.exchange_order_id) {
+    const existing = await loadOrder(supabase, ret.exchange_order_id)
+    replacementNumber = existing.order_number
+  } else {
+    replacementNumber = (await createExchangeOrder(supabase, ret, order)).order_number
+  }
+
+  const updated = await updateReturn(supabase, ret.id, {
+    status: 'completed',
+    completed_at: new Date().toISOString(),
+  })
+
+  try {
+    await sendReturnUpdateToCustomer({
+      kind: 'exchanged',
+      rmaNumber: updated.rma_number,
+      orderNumber: updated.order_number,
+      items: emailItems(updated),
+      replacementOrderNumber: replacementNumber,
+    }, updated.email)
+  } catch (emailErr) {
+    console.error('[RETURNS] Exchange email error:', emailErr)
+  }
+
+  return updated
+}
+
+/** The parcel is back — record it and run the refund or exchange */
+export async function receiveReturn(
+  supabase: SupabaseClient,
+  ret: OrderReturn,
+  receivedAt: string = new Date().toISOString(),
+): Promise<OrderReturn> {
+  if (ret.status !== 'approved' && ret.status !== 'in_transit') {
+    throw new Error(`Return ${ret.rma_number} is ${ret.status}`)
+  }
+
+  const { data: received, error } = await supabase
+    .from('order_returns')
+    .update({ status: 'received', received_at: receivedAt })
+    .eq('id', ret.id)
+    .in('status', ['approved', 'in_transit'])
+    .select('*')
+    .maybeSingle()
+  if (error) throw new Error(`Return update failed: ${error.message}`)
+  if (!received) throw new Error(`Return ${ret.rma_number} changed meanwhile`)
+
+  console.log(`[RETURNS] ${ret.rma_number} received`)
+  return completeReturn(supabase, received)
+}
+
+/**
+ * Follow return parcels on their way back — least recently checked first.
+ * A delivered parcel marks the return received and runs its resolution.
+ */
+export async function pollReturnShipments(supabase: SupabaseClient): Promise<ReturnPollSummary> {
+  const { data: returns, error } = await supabase
+    .from('order_returns')
+    .select('*')
+    .in('status', ['approved', 'in_transit'])
+    .not('tracking_pin', 'is', null)
+    .order('tracking_checked_at', { ascending: true, nullsFirst: true })
+    .limit(BATCH_SIZE)
+
+  if (error) throw new Error(`Failed to load returns: ${error.message}`)
+
+  const summary: ReturnPollSummary = { checked: 0, received: 0, failed: 0 }
+
+  // One at a time — Canada Post rate-limits per API key
+  for (const ret of (returns || []) as (OrderReturn & { tracking_pin: string })[]) {
+    summary.checked++
+    const result = await getTracking(ret.tracking_pin, MAX_EVENTS)
+    const now = new Date().toISOString()
+
+    if (!result.found) {
+      // Label not used yet — the customer hasn't dropped it off
+      await supabase.from('order_returns').update({ tracking_checked_at: now }).eq('id', ret.id)
+      continue
+    }
+
+    const events = result.events || []
+    const { error: updateError } = await supabase
+      .from('order_returns')
+      .update({
+        tracking_events: events,
+        tracking_status: result.latestStatus || null,
+        tracking_checked_at: now,
+        ...(events.length > 0 && ret.status === 'approved' ? { status: 'in_transit' } : {}),
+      })
+      .eq('id', ret.id)
+      .in('status', ['approved', 'in_transit'])
+    if (updateError) {
+      console.error(`[RETURNS] Tracking update failed for ${ret.rma_number}:`, updateError)
+      summary.failed++
+      continue
+    }
+
+    const deliveredAt = deliveredAtFrom(result)
+    if (!deliveredAt) continue
+
+    try {
+      await receiveReturn(supabase, { ...ret, status: 'in_transit' }, deliveredAt)
+      summary.received++
+    } catch (err) {
+      // Stays 'received' when the resolution failed — staff retry from the admin
+      console.error(`[RETURNS] Completing ${ret.rma_number} failed:`, err)
+      summary.failed++
+    }
+  }
+
+  return summary
+}
@@ -0,0 +1,45 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { SEED_CATALOG } from '@/lib/catalog/catalog'
+import { returnableLines } from './returns'
+
+function order(items: Array<Record<string, any>>) {
+  return {
+    items,
+    total: 0,
+    shipping_cost: 0,
+    tax: 0,
+    tax_province: 'ON',
+    refunded_amount: 0,
+    refunds: [],
+  }
+}
+
+test('resolves bare product-type lines by their stored type', () => {
+  const [tee, stickers] = returnableLines(order([
+    { product_type: 'cotton-tee', sku: 'OS-CTN-TEE', qty: 1, price: 2999, paid: 2999, size: 'M' },
+    { product_type: 'sticker-kit', sku: 'OS-STICKER', qty: 1, price: 999, paid: 999 },
+  ]), [], SEED_CATALOG)
+
+  assert.equal(tee.blockedReason, null)
+  assert.deepEqual(tee.exchangeSizes, ['L', 'XL'])
+  assert.equal(stickers.blockedReason, 'Sealed products can’t be returned')
+})
+
+test('resolves lines stored before they carried a type by SKU', () => {
+  const [stickers, hoodie] = returnableLines(order([
+    { sku: 'OS-STICKER', qty: 1, price: 999, paid: 999 },
+    { sku: 'HOOD-OSC003-BLK-L', qty: 1, price: 4999, paid: 4999, size: 'L' },
+  ]), [], SEED_CATALOG)
+
+  assert.equal(stickers.blockedReason, 'Sealed products can’t be returned')
+  assert.ok(hoodie.exchangeSizes.includes('M'))
+})
+
+test('a product type wins over a SKU without the type prefix', () => {
+  const [line] = returnableLines(order([
+    { product_type: 'sticker-kit', sku: 'OSC004-STICKERS', qty: 1, price: 999, paid: 999 },
+  ]), [], SEED_CATALOG)
+
+  assert.equal(line.blockedReason, 'Sealed products can’t be returned')
+})
@@ -0,0 +1,135 @@
+import { customAlphabet } from 'nanoid'
+import type { ProductCatalog } from '@/lib/catalog/catalog'
+import { refundedQuantities, unitPaid, type RefundableOrder } from '@/lib/orders/refunds'
+
+// ============================================
+// RETURNS (pure — shared by the returns page, customer route and admin)
+// Policy lives on /shipping-returns: 30 days from delivery, unworn items,
+// no sealed products, nothing bought at 50% off or more.
+// ============================================
+
+export const RETURN_WINDOW_DAYS = 30
+
+// Same alphabet as promo codes — no 0/O or 1/I to misread over the phone
+const rmaId = customAlphabet('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', 6)
+
+/** Format: RMA-XXXXXX */
+export function generateRmaNumber(): string {
+  return `RMA-${rmaId()}`
+}
+
+export type ReturnStatus = 'requested' | 'approved' | 'in_transit' | 'received' | 'completed' | 'rejected'
+export type ReturnResolution = 'refund' | 'exchange'
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: 'Requested',
+  approved: 'Label sent',
+  in_transit: 'On its way back',
+  received: 'Received',
+  completed: 'Completed',
+  rejected: 'Rejected',
+}
+
+export const RETURN_REASONS = [
+  'Wrong size',
+  'Not as described',
+  'Damaged or defective',
+  'Wrong item received',
+  'Changed my mind',
+] as const
+
+export interface ReturnLine {
+  index: number               // position in order.items
+  quantity: number
+  name: string
+  sku: string
+  color: string
+  size: string
+  exchange_size: string | null
+}
+
+export interface OrderReturn {
+  id: string
+  rma_number: string
+  order_id: string
+  order_number: string
+  email: string
+  items: ReturnLine[]
+  reason: string
+  customer_notes: string | null
+  resolution: ReturnResolution
+  status: ReturnStatus
+  admin_notes: string | null
+  tracking_pin: string | null
+  label_url: string | null
+  tracking_status: string | null
+  refund_id: string | null
+  exchange_order_id: string | null
+  approved_at: string | null
+  received_at: string | null
+  completed_at: string | null
+  created_at: string
+}
+
+export interface ReturnableLine {
+  index: number
+  name: string
+  sku: string
+  color: string
+  size: string
+  remaining: number            // units that can still be returned
+  exchangeSizes: string[]      // other sizes of the same product
+  blockedReason: string | null // why the line can't be returned at all
+}
+
+type ReturnableOrder = Omit<RefundableOrder, 'items'> & {
+  items: Array<RefundableOrder['items'][number] & { product_type?: string | null; sku?: string; name?: string; color?: string; size?: string }>
+}
+
+/** Null when the order can be returned at all, otherwise why not */
+export function returnWindowError(order: { delivered_at: string | null }, now = new Date()): string | null {
+  if (!order.delivered_at) return 'Returns open once your order has been delivered.'
+  const closesAt = new Date(order.delivered_at).getTime() + RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000
+  if (now.getTime() > closesAt) return `The ${RETURN_WINDOW_DAYS}-day return window for this order has closed.`
+  return null
+}
+
+/**
+ * What's left to return on each line: ordered − refunded − already in a
+ * return that wasn't rejected.
+ */
+export function returnableLines(
+  order: ReturnableOrder,
+  returns: Pick<OrderReturn, 'status' | 'items'>[],
+  catalog: ProductCatalog,
+): ReturnableLine[] {
+  const refunded = refundedQuantities(order)
+  const inReturns = order.items.map(() => 0)
+  for (const ret of returns) {
+    if (ret.status === 'rejected') continue
+    for (const line of ret.items || []) {
+      if (line.index >= 0 && line.index < inReturns.length) inReturns[line.index] += line.quantity
+    }
+  }
+
+  return order.items.map((item, index) => {
+    const sku = item.sku || ''
+    const product = catalog.resolve(item.product_type, sku)
+    const price = item.price || 0
+
+    let blockedReason: string | null = null
+    if (product?.category === 'sticker') blockedReason = 'Sealed products can’t be returned'
+    else if (price > 0 && unitPaid(item) <= price / 2) blockedReason = 'Bought at 50% off or more'
+
+    return {
+      index,
+      name: item.name || 'Item',
+      sku,
+      color: item.color || '',
+      size: item.size || '',
+      remaining: Math.max(0, (item.qty || 1) - refunded[index] - inReturns[index]),
+      exchangeSizes: product ? product.sizes.filter(s => s !== item.size) : [],
+      blockedReason,
+    }
+  })
+}
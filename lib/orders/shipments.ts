@@ -0,0 +1,66 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { findShipmentIdByPin } from '@/lib/canada-post/shipment'
+import type { OrderShipment } from '@/lib/canada-post/types'
+
+// ============================================
+// ORDER SHIPMENTS (server-only)
+// The Canada Post shipments behind an order's labels. tracking_code and
+// label_url always mirror the first shipment.
+// ============================================
+
+/** Shipments of an order; orders labelled before multi-parcel only have tracking_code */
+export function orderShipments(order: any): OrderShipment[] {
+  if (Array.isArray(order.shipments) && order.shipments.length > 0) return order.shipments
+  if (!order.tracking_code) return []
+  return [{
+    trackingPin: order.tracking_code,
+    shipmentId: '',
+    labelUrl: order.label_url || null,
+    packaging: null,
+    weight: 0,
+    dimensions: { length: 0, width: 0, height: 0 },
+    items: [],
+  }]
+}
+
+/** Canada Post shipment id, looked up by pin when it wasn't stored */
+export async function resolveShipmentId(shipment: OrderShipment): Promise<string | null> {
+  if (shipment.shipmentId) return shipment.shipmentId
+  return findShipmentIdByPin(shipment.trackingPin)
+}
+
+/**
+ * Save the order's shipments and mirror the first into tracking_code / label_url.
+ * Tracking state belongs to the old pin, so it's reset when the first pin changes.
+ */
+export async function saveOrderShipments(
+  supabase: SupabaseClient,
+  order: any,
+  shipments: OrderShipment[],
+  extra: Record<string, unknown> = {},
+) {
+  const trackingCode = shipments[0]?.trackingPin || null
+  const pinChanged = trackingCode !== (order.tracking_code || null)
+
+  const { data, error } = await supabase
+    .from('app_shop_orders')
+    .update({
+      shipments,
+      tracking_code: trackingCode,
+      label_url: shipments[0]?.labelUrl || null,
+      ...(pinChanged ? {
+        tracking_status: null,
+        tracking_events: [],
+        tracking_checked_at: null,
+        tracking_exception: null,
+        tracking_exception_at: null,
+      } : {}),
+      ...extra,
+    })
+    .eq('id', order.id)
+    .select('*')
+    .single()
+
+  if (error) throw new Error(`Order shipment update failed: ${error.message}`)
+  return data
+}
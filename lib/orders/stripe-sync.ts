@@ -0,0 +1,209 @@
+import type Stripe from 'stripe'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { sendRefundNotification, sendDisputeAlertToAdmin } from '@/lib/email'
+import { refundStatusFor, type OrderRefund, type RefundLine } from '@/lib/orders/refunds'
+
+// ============================================
+// STRIPE → ORDER SYNC (refunds, disputes)
+// Server-only. Stripe is the source of truth; the order row mirrors it.
+// ============================================
+
+const MAX_WRITE_ATTEMPTS = 3
+const LIVE_REFUND_STATUSES = ['succeeded', 'pending', 'requires_action']
+
+/** Resolve the payment intent for an order, falling back to its Checkout Session */
+export async function getOrderPaymentIntent(stripe: Stripe, order: any): Promise<string | null> {
+  if (order.stripe_payment_intent_id) return order.stripe_payment_intent_id
+  if (!order.stripe_session_id) return null
+
+  const session = await stripe.checkout.sessions.retrieve(order.stripe_session_id)
+  const pi = session.payment_intent
+  return typeof pi === 'string' ? pi : pi?.id ?? null
+}
+
+export async function findOrderByPaymentIntent(
+  stripe: Stripe,
+  supabase: SupabaseClient,
+  paymentIntentId: string,
+): Promise<any | null> {
+  const { data: order } = await supabase
+    .from('app_shop_orders')
+    .select('*')
+    .eq('stripe_payment_intent_id', paymentIntentId)
+    .maybeSingle()
+  if (order) return order
+
+  // Orders saved before payment intents were recorded — go through the session
+  const sessions = await stripe.checkout.sessions.list({ payment_intent: paymentIntentId, limit: 1 })
+  const sessionId = sessions.data[0]?.id
+  if (!sessionId) return null
+
+  const { data: bySession } = await supabase
+    .from('app_shop_orders')
+    .select('*')
+    .eq('stripe_session_id', sessionId)
+    .maybeSingle()
+  return bySession ?? null
+}
+
+function refundFromStripe(refund: Stripe.Refund): OrderRefund {
+  // Set by /api/orders/refund as [index, quantity, amount] tuples; dashboard refunds have none
+  let items: RefundLine[] = []
+  try {
+    const tuples: number[][] = refund.metadata?.items ? JSON.parse(refund.metadata.items) : []
+    items = tuples.map(([index, quantity, amount]) => ({ index, quantity, amount }))
+  } catch {
+    items = []
+  }
+
+  return {
+    id: refund.id,
+    amount: refund.amount,
+    reason: refund.metadata?.note || refund.reason || null,
+    items,
+    shipping: Number(refund.metadata?.shipping || 0),
+    status: refund.status || 'pending',
+    created_at: new Date(refund.created * 1000).toISOString(),
+    created_by: refund.metadata?.created_by || 'stripe',
+    notified_at: null,
+  }
+}
+
+/**
+ * Mirror the payment intent's Stripe refunds onto the order: refunds list,
+ * refunded_amount and refunded/partially_refunded status. With `notify`, the
+ * customer is emailed once per refund (tracked via notified_at).
+ *
+ * Writes are guarded on updated_at so the refund route and webhook can't
+ * overwrite each other; a lost race re-reads and merges again.
+ */
+export async function syncOrderRefunds(
+  stripe: Stripe,
+  supabase: SupabaseClient,
+  orderId: string,
+  { notify }: { notify: boolean },
+): Promise<any> {
+  for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+    const { data: order, error } = await supabase
+      .from('app_shop_orders')
+      .select('*')
+      .eq('id', orderId)
+      .single()
+    if (error || !order) throw new Error(`Order ${orderId} not found: ${error?.message}`)
+
+    const paymentIntentId = await getOrderPaymentIntent(stripe, order)
+    if (!paymentIntentId) throw new Error(`Order ${order.order_number} has no Stripe payment`)
+
+    const stripeRefunds = await stripe.refunds.list({ payment_intent: paymentIntentId, limit: 100 })
+    const existing: OrderRefund[] = Array.isArray(order.refunds) ? order.refunds : []
+    const byId = new Map(existing.map(r => [r.id, r]))
+
+    const now = new Date().toISOString()
+    const toNotify: OrderRefund[] = []
+    const merged: OrderRefund[] = stripeRefunds.data
+      .map(sr => {
+        const fresh = refundFromStripe(sr)
+        const prev = byId.get(sr.id)
+        const entry: OrderRefund = prev
+          ? { ...prev, amount: fresh.amount, status: fresh.status }
+          : fresh
+        if (notify && !entry.notified_at && LIVE_REFUND_STATUSES.includes(entry.status)) {
+          entry.notified_at = now
+          toNotify.push(entry)
+        }
+        return entry
+      })
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+
+    const refundedAmount = merged
+      .filter(r => LIVE_REFUND_STATUSES.includes(r.status))
+      .reduce((sum, r) => sum + r.amount, 0)
+    const refundStatus = refundStatusFor(order.total, refundedAmount)
+
+    const update: Record<string, any> = {
+      refunds: merged,
+      refunded_amount: refundedAmount,
+      stripe_payment_intent_id: paymentIntentId,
+      // Fulfilment status is left alone — a partly refunded order still ships
+      refund_status: refundStatus,
+    }
+    if (refundStatus) {
+      update.refunded_at = order.refunded_at || now
+    }
+
+    let query = supabase.from('app_shop_orders').update(update).eq('id', orderId)
+    query = order.updated_at ? query.eq('updated_at', order.updated_at) : query.is('updated_at', null)
+    const { data: written, error: writeError } = await query.select('*')
+    if (writeError) throw new Error(`Refund sync failed: ${writeError.message}`)
+
+    if (!written || written.length === 0) {
+      console.warn(`[refunds] Order ${order.order_number} changed during sync — retrying (${attempt})`)
+      continue
+    }
+
+    if (order.email) {
+      for (const refund of toNotify) {
+        try {
+          await sendRefundNotification({
+            orderNumber: order.order_number,
+            items: refund.items.map(line => {
+              const item = order.items?.[line.index] || {}
+              return { name: item.name || 'Product', quantity: line.quantity, size: item.size, color: item.color }
+            }),
+            amount: refund.amount / 100,
+            totalRefunded: refundedAmount / 100,
+            isFullRefund: refundStatus === 'refunded',
+          }, order.email)
+        } catch (emailErr) {
+          console.error('[refunds] Refund email error:', emailErr)
+        }
+      }
+    }
+
+    return written[0]
+  }
+
+  throw new Error(`Refund sync for order ${orderId} kept conflicting — giving up`)
+}
+
+/** Record a newly opened dispute on the order and alert the admin */
+export async function recordDispute(
+  stripe: Stripe,
+  supabase: SupabaseClient,
+  dispute: Stripe.Dispute,
+) {
+  const pi = typeof dispute.payment_intent === 'string' ? dispute.payment_intent : dispute.payment_intent?.id
+  if (!pi) {
+    console.warn(`[disputes] Dispute ${dispute.id} has no payment intent — ignoring`)
+    return
+  }
+
+  const order = await findOrderByPaymentIntent(stripe, supabase, pi)
+  if (!order) {
+    console.warn(`[disputes] No order for payment intent ${pi} (dispute ${dispute.id})`)
+    return
+  }
+
+  const { error } = await supabase
+    .from('app_shop_orders')
+    .update({
+      dispute_status: dispute.status,
+      dispute_reason: dispute.reason,
+      dispute_amount: dispute.amount,
+      disputed_at: order.disputed_at || new Date(dispute.created * 1000).toISOString(),
+      stripe_payment_intent_id: pi,
+    })
+    .eq('id', order.id)
+  if (error) throw new Error(`Dispute save failed: ${error.message}`)
+
+  console.error(`[disputes] Dispute ${dispute.id} opened on ${order.order_number} (${dispute.reason})`)
+
+  // Only alert on the first record — retries of the same event must not re-send
+  if (!order.disputed_at) {
+    try {
+      await sendDisputeAlertToAdmin(order.order_number, dispute.amount / 100, dispute.reason)
+    } catch (emailErr) {
+      console.error('[disputes] Alert email error:', emailErr)
+    }
+  }
+}
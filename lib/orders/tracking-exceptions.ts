@@ -0,0 +1,26 @@
+import type { TrackingEvent } from '@/lib/canada-post/tracking'
+
+// ============================================
+// TRACKING EXCEPTIONS (pure — shared by admin UI and tracking poller)
+// ============================================
+
+export type TrackingException = 'returned_to_sender' | 'delivery_attempted'
+
+export const TRACKING_EXCEPTION_LABELS: Record<TrackingException, string> = {
+  returned_to_sender: 'Returned to sender',
+  delivery_attempted: 'Delivery attempted',
+}
+
+const RETURN_TO_SENDER = /return(ed|ing)? to sender/i
+const DELIVERY_ATTEMPTED = /attempt|notice card|available for pick ?up|held at post office/i
+
+/**
+ * What staff need to know about. A return to sender sticks for the rest of
+ * the parcel's life; an attempted delivery only counts while it's the latest
+ * event (the next attempt usually succeeds).
+ */
+export function detectException(events: TrackingEvent[]): TrackingException | null {
+  if (events.some(e => RETURN_TO_SENDER.test(e.description))) return 'returned_to_sender'
+  if (events[0] && DELIVERY_ATTEMPTED.test(events[0].description)) return 'delivery_attempted'
+  return null
+}
@@ -0,0 +1,146 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getTracking, type TrackingResult } from '@/lib/canada-post/tracking'
+import { sendTrackingExceptionToAdmin } from '@/lib/email'
+import { detectException, TRACKING_EXCEPTION_LABELS, type TrackingException } from '@/lib/orders/tracking-exceptions'
+import { orderShipments } from '@/lib/orders/shipments'
+
+// ============================================
+// CANADA POST → ORDER SYNC (tracking poller)
+// Server-only. Called by /api/cron/tracking; Canada Post is the source of
+// truth for where the parcels are, the order row mirrors them. An order with
+// several parcels is delivered once every one of them is.
+// ============================================
+
+const BATCH_SIZE = 50
+const MAX_EVENTS = 50
+
+export interface TrackingPollSummary {
+  checked: number
+  delivered: number
+  exceptions: number
+  failed: number
+}
+
+/** Canada Post only gives a date — noon UTC lands on the same day in every Canadian time zone */
+export function deliveredAtFrom(result: TrackingResult): string | null {
+  if (!result.actualDeliveryDate) return null
+  const at = new Date(`${result.actualDeliveryDate}T12:00:00Z`)
+  return isNaN(at.getTime()) ? new Date().toISOString() : at.toISOString()
+}
+
+async function syncOrder(supabase: SupabaseClient, order: any): Promise<'delivered' | 'exception' | 'updated' | 'failed'> {
+  const shipments = orderShipments(order).map(s => ({ ...s }))
+  const now = new Date().toISOString()
+
+  let first: TrackingResult | null = null  // tracking_code's parcel, mirrored on the order
+  let exception: { type: TrackingException; pin: string; status: string } | null = null
+  let found = 0
+
+  for (let idx = 0; idx < shipments.length; idx++) {
+    const shipment = shipments[idx]
+    // A delivered parcel won't change again
+    if (shipment.deliveredAt) continue
+
+    const result = await getTracking(shipment.trackingPin, MAX_EVENTS)
+    // Label created but not scanned yet, or Canada Post is down — try again next run
+    if (!result.found) continue
+
+    found++
+    if (idx === 0) first = result
+    shipment.deliveredAt = deliveredAtFrom(result)
+    const parcelException = shipment.deliveredAt ? null : detectException(result.events || [])
+    if (parcelException && !exception) {
+      exception = { type: parcelException, pin: shipment.trackingPin, status: result.latestStatus || '' }
+    }
+  }
+
+  if (found === 0) {
+    await supabase.from('app_shop_orders').update({ tracking_checked_at: now }).eq('id', order.id)
+    return 'failed'
+  }
+
+  // Delivered when the last parcel is — on the latest delivery date
+  const deliveredAt = shipments.every(s => s.deliveredAt)
+    ? shipments.reduce((latest, s) => (s.deliveredAt! > latest ? s.deliveredAt! : latest), '')
+    : null
+  const isNewException = !!exception && exception.type !== order.tracking_exception
+
+  const update: Record<string, any> = {
+    shipments,
+    tracking_checked_at: now,
+    tracking_exception: exception?.type ?? null,
+    tracking_exception_at: exception ? (isNewException ? now : order.tracking_exception_at) : null,
+  }
+  if (first) {
+    update.tracking_events = first.events || []
+    update.tracking_status = first.latestStatus || null
+  }
+  if (deliveredAt) {
+    update.status = 'delivered'
+    update.delivered_at = deliveredAt
+  }
+
+  // Only touch orders that are still shipped with the same labels — an admin may have moved it meanwhile
+  const { error } = await supabase
+    .from('app_shop_orders')
+    .update(update)
+    .eq('id', order.id)
+    .eq('status', 'shipped')
+    .eq('tracking_code', order.tracking_code)
+
+  if (error) {
+    console.error(`[TRACKING-SYNC] Update failed for ${order.order_number}:`, error)
+    return 'failed'
+  }
+
+  if (deliveredAt) {
+    console.log(`[TRACKING-SYNC] ${order.order_number} delivered (${shipments.length} parcel${shipments.length === 1 ? '' : 's'})`)
+    return 'delivered'
+  }
+
+  if (exception && isNewException) {
+    try {
+      await sendTrackingExceptionToAdmin(
+        order.order_number,
+        exception.pin,
+        TRACKING_EXCEPTION_LABELS[exception.type],
+        exception.status,
+      )
+    } catch (err) {
+      console.error('[TRACKING-SYNC] Exception alert failed:', err)
+    }
+    return 'exception'
+  }
+
+  return 'updated'
+}
+
+/**
+ * Poll Canada Post for shipped, undelivered orders — least recently checked
+ * first, so a backlog larger than one batch still cycles through.
+ */
+export async function pollShippedOrders(supabase: SupabaseClient): Promise<TrackingPollSummary> {
+  const { data: orders, error } = await supabase
+    .from('app_shop_orders')
+    .select('id, order_number, tracking_code, label_url, shipments, tracking_exception, tracking_exception_at')
+    .eq('status', 'shipped')
+    .not('tracking_code', 'is', null)
+    .is('delivered_at', null)
+    .order('tracking_checked_at', { ascending: true, nullsFirst: true })
+    .limit(BATCH_SIZE)
+
+  if (error) throw new Error(`Failed to load shipped orders: ${error.message}`)
+
+  const summary: TrackingPollSummary = { checked: 0, delivered: 0, exceptions: 0, failed: 0 }
+
+  // One at a time — Canada Post rate-limits per API key
+  for (const order of orders || []) {
+    summary.checked++
+    const outcome = await syncOrder(supabase, order)
+    if (outcome === 'delivered') summary.delivered++
+    else if (outcome === 'exception') summary.exceptions++
+    else if (outcome === 'failed') summary.failed++
+  }
+
+  return summary
+}
@@ -1,5 +1,8 @@
 import { createClient } from '@/lib/supabase/server'
-import { STRIPE_PRODUCTS } from '@/lib/stripe-config'
+import { getProductCatalog } from '@/lib/catalog/product-types'
+import { chargeablePriceId, type ProductCatalog } from '@/lib/catalog/catalog'
+import { toShopVariants, type ShopVariant } from '@/lib/catalog/variants'
+import { CATEGORY_SCHEDULE_SELECT, dropState, productSchedule, type DropSchedule } from '@/lib/catalog/schedule'
 
 export interface ServerProduct {
   id: string
@@ -13,33 +16,23 @@ export interface ServerProduct {
   color_images: Record<string, string[]>
   base_price: number
   sku: string
+  variants: ShopVariant[]
   stripe_price_id: string
   product_type: string
   category_slug: string
+  drop: DropSchedule          // product window narrowed by its collection's
   updated_at: string
 }
 
-const SKU_PREFIX_MAP: Record<string, keyof typeof STRIPE_PRODUCTS> = {
-  'CTEE': 'cotton-tee',
-  'STEE': 'sport-tee',
-  'HOOD': 'hoodie',
-  'CPPRM': 'cap-premium',
-  'CPCLS': 'cap-classic',
-  'STK': 'sticker-kit',
-  'TEST': 'test-product',
-}
+const PRODUCT_SELECT = `*, ${CATEGORY_SCHEDULE_SELECT}, variants:app_shop_product_variants(id, sku, size, color, price_override, images, is_active, track_stock, preorder_enabled, preorder_ships_at)`
 
-function slugify(name: string): string {
+export function slugify(name: string): string {
   return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '')
 }
 
-function mapProduct(p: any): ServerProduct {
-  const skuPrefix = (p.sku || '').split('-')[0]
-  const skuType = SKU_PREFIX_MAP[skuPrefix]
-  const typeMatch = p.product_type
-    ? STRIPE_PRODUCTS[p.product_type as keyof typeof STRIPE_PRODUCTS]
-    : null
-  const skuMatch = skuType ? STRIPE_PRODUCTS[skuType] : null
+function mapProduct(p: any, catalog: ProductCatalog): ServerProduct {
+  const type = catalog.resolve(p.product_type, p.sku)
+  const basePrice = p.base_price ?? (type?.price || 0) / 100
 
   return {
     id: p.id,
@@ -51,31 +44,44 @@ function mapProduct(p: any): ServerProduct {
     sizes: p.sizes || [],
     colors: p.colors || [],
     color_images: p.color_images || {},
-    base_price: p.base_price ?? (typeMatch?.price || skuMatch?.price || 0) / 100,
+    base_price: basePrice,
     sku: p.sku || '',
-    stripe_price_id: p.stripe_price_id || typeMatch?.priceId || skuMatch?.priceId || '',
-    product_type: p.product_type || skuType || '',
+    variants: toShopVariants(p.variants, p, basePrice),
+    stripe_price_id: chargeablePriceId(p, type, Math.round(basePrice * 100)) || '',
+    product_type: p.product_type || type?.key || '',
     category_slug: p.category?.slug || 'mens',
+    drop: productSchedule(p),
     updated_at: p.updated_at || p.created_at || new Date().toISOString(),
   }
 }
 
+/** Products live right now — drops that haven't opened (or have closed) are left out */
 export async function getAllProducts(): Promise<ServerProduct[]> {
   try {
     const supabase = createClient()
-    const { data, error } = await supabase
-      .from('app_shop_products')
-      .select('*, category:categories(slug)')
-      .eq('is_active', true)
-      .order('sort_order')
+    const [{ data, error }, catalog] = await Promise.all([
+      supabase
+        .from('app_shop_products')
+        .select(PRODUCT_SELECT)
+        .eq('is_active', true)
+        .order('sort_order'),
+      getProductCatalog(),
+    ])
 
     if (error || !data) return []
-    return data.map(mapProduct)
+    const now = Date.now()
+    return data
+      .map(p => mapProduct(p, catalog))
+      .filter(p => dropState(p.drop, now) === 'live')
   } catch {
     return []
   }
 }
 
+/**
+ * One product page. Upcoming drops are returned too so the page can show a
+ * countdown (see `drop`); ended ones are not found.
+ */
 export async function getProductBySlug(slug: string): Promise<ServerProduct | null> {
   try {
     const supabase = createClient()
@@ -83,7 +89,7 @@ export async function getProductBySlug(slug: string): Promise<ServerProduct | nu
     // Try by slug column first
     let { data, error } = await supabase
       .from('app_shop_products')
-      .select('*, category:categories(slug)')
+      .select(PRODUCT_SELECT)
       .eq('slug', slug)
       .eq('is_active', true)
       .single()
@@ -95,7 +101,8 @@ export async function getProductBySlug(slug: string): Promise<ServerProduct | nu
       return match || null
     }
 
-    return mapProduct(data)
+    const product = mapProduct(data, await getProductCatalog())
+    return dropState(product.drop) === 'ended' ? null : product
   } catch {
     return null
   }
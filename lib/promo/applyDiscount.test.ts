@@ -0,0 +1,85 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { applyPromoDiscount } from './applyDiscount'
+import { ruleFromRow } from './rules'
+
+const TEE = { product_key: 'cotton-tee', name: 'OnSite Cotton Tee', price: 2999, quantity: 1 }
+const HOODIE = { product_key: 'hoodie', name: 'OnSite Hoodie', price: 4999, quantity: 1 }
+const STICKERS = { product_key: 'sticker-kit', name: 'OnSite Sticker Kit', price: 990, quantity: 1 }
+
+function rule(row: Record<string, any>) {
+  return ruleFromRow({ code: 'TEST', ...row })
+}
+
+test('takes a percentage off every eligible unit', () => {
+  const result = applyPromoDiscount([{ ...TEE, quantity: 2 }, STICKERS], rule({ kind: 'percent_off', value: 20, eligible_categories: ['apparel'] }))
+
+  assert.deepEqual(result.charges, [
+    { index: 0, unitAmount: 2399, quantity: 2, discounted: true },
+    { index: 1, unitAmount: 990, quantity: 1, discounted: false },
+  ])
+  assert.equal(result.discountAmount, 1200)
+  assert.equal(result.total, 2399 * 2 + 990)
+})
+
+test('spreads a fixed amount across eligible units, leftover cents to the priciest', () => {
+  const result = applyPromoDiscount([TEE, STICKERS], rule({ kind: 'amount_off', value: 1000 }))
+
+  assert.deepEqual(result.charges.map(c => c.unitAmount), [2999 - 752, 990 - 248])
+  assert.equal(result.discountAmount, 1000)
+  assert.equal(result.total, 2989)
+})
+
+test('discounts the cheaper unit of each pair for buy-one-get-one', () => {
+  const free = applyPromoDiscount([TEE, HOODIE], rule({ kind: 'bogo', value: 100 }))
+  assert.deepEqual(free.charges, [
+    { index: 0, unitAmount: 0, quantity: 1, discounted: true },
+    { index: 1, unitAmount: 4999, quantity: 1, discounted: false },
+  ])
+
+  // Three units make one pair: only one is half off
+  const half = applyPromoDiscount([{ ...TEE, quantity: 3 }], rule({ kind: 'bogo', value: 50 }))
+  assert.deepEqual(half.charges, [
+    { index: 0, unitAmount: 2999, quantity: 2, discounted: false },
+    { index: 0, unitAmount: 1499, quantity: 1, discounted: true },
+  ])
+
+  assert.equal(applyPromoDiscount([TEE], rule({ kind: 'bogo', value: 100 })).error, 'Add two eligible items to use this code')
+})
+
+test('sells the cheapest eligible unit at the item price', () => {
+  const result = applyPromoDiscount([HOODIE, STICKERS], rule({ kind: 'item_price', value: 50 }))
+
+  assert.deepEqual(result.charges, [
+    { index: 0, unitAmount: 4999, quantity: 1, discounted: false },
+    { index: 1, unitAmount: 50, quantity: 1, discounted: true },
+  ])
+  assert.equal(result.total, 5049)
+})
+
+test('never discounts a cart below Stripe’s 50¢ minimum', () => {
+  const amount = applyPromoDiscount([STICKERS], rule({ kind: 'amount_off', value: 5000 }))
+  assert.equal(amount.total, 50)
+  assert.equal(amount.discountAmount, 940)
+
+  const percent = applyPromoDiscount([TEE], rule({ kind: 'percent_off', value: 100 }))
+  assert.equal(percent.total, 50)
+
+  // Carts already at the minimum keep their price
+  assert.equal(applyPromoDiscount([{ ...STICKERS, price: 50 }], rule({ kind: 'amount_off', value: 500 })).total, 50)
+})
+
+test('applies nothing to carts the rule doesn’t fit', () => {
+  const result = applyPromoDiscount([STICKERS], rule({ kind: 'percent_off', value: 20, min_subtotal: 5000 }))
+
+  assert.equal(result.error, 'Spend CA$50 or more to use this code')
+  assert.equal(result.total, 990)
+  assert.equal(result.freeShipping, false)
+  assert.deepEqual(result.charges, [{ index: 0, unitAmount: 990, quantity: 1, discounted: false }])
+})
+
+test('passes free shipping through without touching prices', () => {
+  const result = applyPromoDiscount([TEE], rule({ kind: 'free_shipping' }))
+  assert.equal(result.freeShipping, true)
+  assert.equal(result.total, 2999)
+})
@@ -1,66 +1,160 @@
-interface CartItemForDiscount {
-  product_key: string
+import { cartEligibilityError, isEligibleItem, type PromoCartItem, type PromoRule } from '@/lib/promo/rules'
+
+interface CartItemForDiscount extends PromoCartItem {
   name: string
-  price: number   // cents (CAD)
+}
+
+/** One chargeable row after discount — maps 1:1 to a Stripe line item */
+export interface DiscountCharge {
+  index: number       // position of the source item in the cart
+  unitAmount: number  // cents, after discount
   quantity: number
+  discounted: boolean
 }
 
 interface DiscountResult {
   subtotal: number        // cents, before discount
   discountAmount: number  // cents, amount saved
   total: number           // cents, after discount
-  shipping: number        // 0 if promo active
-  cheapestIndex: number   // which item got discounted (-1 for percent)
+  freeShipping: boolean
+  charges: DiscountCharge[]
+  error?: string          // cart doesn't meet the rule — nothing applied
 }
 
+// Stripe won't create a CAD Checkout Session charging less than this
+const STRIPE_MIN_CHARGE = 50 // cents
+
+interface Unit {
+  index: number
+  price: number
+  off: number   // cents taken off this unit
+}
+
+/** Cents off each eligible unit, per rule kind */
+function discountUnits(rule: PromoRule, units: Unit[]): void {
+  switch (rule.kind) {
+    case 'percent_off':
+      // Per unit so the total matches what Stripe charges; at least 1 cent per item
+      for (const u of units) {
+        u.off = u.price - Math.max(1, Math.round(u.price * (100 - rule.value) / 100))
+      }
+      break
+
+    case 'amount_off': {
+      // Spread proportionally, leftover cents to the priciest units
+      const eligibleTotal = units.reduce((sum, u) => sum + u.price, 0)
+      if (eligibleTotal === 0) break
+      const amount = Math.min(rule.value, eligibleTotal)
+      let left = amount
+      for (const u of units) {
+        u.off = Math.floor(amount * u.price / eligibleTotal)
+        left -= u.off
+      }
+      const byPrice = [...units].sort((a, b) => b.price - a.price)
+      for (let i = 0; left > 0; i = (i + 1) % byPrice.length) {
+        if (byPrice[i].off < byPrice[i].price) {
+          byPrice[i].off++
+          left--
+        }
+      }
+      break
+    }
+
+    case 'bogo': {
+      // Pair units priced high to low; the second of each pair is discounted
+      const byPrice = [...units].sort((a, b) => b.price - a.price)
+      for (let i = 1; i < byPrice.length; i += 2) {
+        byPrice[i].off = Math.round(byPrice[i].price * Math.min(rule.value, 100) / 100)
+      }
+      break
+    }
+
+    case 'item_price': {
+      const cheapest = units.reduce((min, u) => (u.price < min.price ? u : min), units[0])
+      if (cheapest) cheapest.off = Math.max(0, cheapest.price - rule.value)
+      break
+    }
+
+    case 'free_shipping':
+      break
+  }
+}
+
+/**
+ * Give cents back (priciest units first) until the cart costs at least
+ * Stripe's minimum — a big fixed-amount code on a small cart still checks out.
+ */
+function keepMinimumCharge(units: Unit[], subtotal: number): void {
+  const off = units.reduce((sum, u) => sum + u.off, 0)
+  let excess = Math.min(off, STRIPE_MIN_CHARGE - (subtotal - off))
+  const byPrice = [...units].sort((a, b) => b.price - a.price)
+  for (const u of byPrice) {
+    if (excess <= 0) break
+    const back = Math.min(u.off, excess)
+    u.off -= back
+    excess -= back
+  }
+}
+
+/**
+ * Apply a promo rule to a cart. The checkout modal, /api/promo/validate and
+ * /api/checkout all run this, so the preview matches what Stripe charges.
+ */
 export function applyPromoDiscount(
   items: CartItemForDiscount[],
-  promoActive: boolean,
-  discountType: string = 'item_050'
+  rule: PromoRule | null,
 ): DiscountResult {
   const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+  const fullPrice = items.map((item, index): DiscountCharge => ({
+    index,
+    unitAmount: item.price,
+    quantity: item.quantity,
+    discounted: false,
+  }))
+  const noDiscount = { subtotal, discountAmount: 0, total: subtotal, freeShipping: false, charges: fullPrice }
 
-  if (!promoActive || items.length === 0) {
-    return {
-      subtotal,
-      discountAmount: 0,
-      total: subtotal,
-      shipping: -1, // -1 means use normal shipping logic
-      cheapestIndex: -1,
-    }
-  }
+  if (!rule || items.length === 0) return noDiscount
 
-  // Percentage discount
-  if (discountType.startsWith('percent_')) {
-    const percent = parseInt(discountType.replace('percent_', ''))
-    const discountAmount = Math.round(subtotal * percent / 100)
-    const total = subtotal - discountAmount
-    // Ensure total is at least 50 cents (Stripe minimum)
-    const safeTotal = Math.max(50, total)
-    const safeDiscount = subtotal - safeTotal
-
-    return {
-      subtotal,
-      discountAmount: safeDiscount,
-      total: safeTotal,
-      shipping: 0,
-      cheapestIndex: -1,
-    }
+  const error = cartEligibilityError(rule, items)
+  if (error) return { ...noDiscount, error }
+
+  const units: Unit[] = []
+  items.forEach((item, index) => {
+    if (!isEligibleItem(rule, item)) return
+    for (let q = 0; q < item.quantity; q++) units.push({ index, price: item.price, off: 0 })
+  })
+  discountUnits(rule, units)
+  keepMinimumCharge(units, subtotal)
+
+  // Group units back into one charge per (line, unit amount)
+  const offByLine = items.map(() => new Map<number, number>())
+  for (const u of units) {
+    if (u.off <= 0) continue
+    const amount = u.price - u.off
+    offByLine[u.index].set(amount, (offByLine[u.index].get(amount) || 0) + 1)
   }
 
-  // item_050: cheapest item goes to $0.50
-  const cheapestIndex = items.reduce(
-    (minIdx, item, idx) => (item.price < items[minIdx].price ? idx : minIdx),
-    0
-  )
+  const charges: DiscountCharge[] = []
+  items.forEach((item, index) => {
+    let discountedQty = 0
+    const discounted: DiscountCharge[] = []
+    offByLine[index].forEach((quantity, unitAmount) => {
+      discountedQty += quantity
+      discounted.push({ index, unitAmount, quantity, discounted: true })
+    })
+    if (item.quantity > discountedQty) {
+      charges.push({ index, unitAmount: item.price, quantity: item.quantity - discountedQty, discounted: false })
+    }
+    charges.push(...discounted)
+  })
 
-  const discountAmount = items[cheapestIndex].price - 50 // 50 cents = $0.50
+  const total = charges.reduce((sum, c) => sum + c.unitAmount * c.quantity, 0)
 
   return {
     subtotal,
-    discountAmount: Math.max(0, discountAmount),
-    total: subtotal - Math.max(0, discountAmount),
-    shipping: 0, // always free shipping with promo
-    cheapestIndex,
+    discountAmount: subtotal - total,
+    total,
+    freeShipping: rule.freeShipping,
+    charges,
   }
 }
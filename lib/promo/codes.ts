@@ -0,0 +1,139 @@
+import { createClient } from '@supabase/supabase-js'
+import { promoWindowError, ruleFromRow, type PromoRule } from '@/lib/promo/rules'
+import { likeExact } from '@/lib/account/data'
+
+// ============================================
+// PROMO CODE LOOKUP + HOLDS (server-only)
+// Loads a code's rule and checks the limits that need the database:
+// total redemptions and redemptions per customer. Checkout holds one use
+// per session; the locking happens in Postgres (see 20261019090001_promo_holds.sql).
+// ============================================
+
+function getServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+export type PromoLookup =
+  | { rule: PromoRule; error?: undefined }
+  | { rule?: undefined; error: string }
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+/**
+ * Find a code and confirm it can still be redeemed. `email` enables the
+ * per-customer check; codes with a per-customer limit need one.
+ */
+export async function lookupPromoCode(code: string, email?: string | null): Promise<PromoLookup> {
+  const supabase = getServiceClient()
+  const { data: row, error } = await supabase
+    .from('promo_codes')
+    .select('*')
+    .eq('code', normalizePromoCode(code))
+    .maybeSingle()
+
+  if (error) throw new Error(`Promo lookup failed: ${error.message}`)
+  if (!row) return { error: 'Code not found' }
+
+  const rule = ruleFromRow(row)
+
+  const windowError = promoWindowError(rule)
+  if (windowError) return { error: windowError }
+
+  // Redeemed uses plus uses held by checkouts that haven't expired yet
+  const inUse = () => supabase
+    .from('promo_redemptions')
+    .select('id', { count: 'exact', head: true })
+    .eq('promo_code_id', row.id)
+    .or(`status.eq.redeemed,and(status.eq.held,expires_at.gt.${new Date().toISOString()})`)
+
+  if (rule.maxRedemptions !== null) {
+    const { count, error: countError } = await inUse()
+    if (countError) throw new Error(`Promo redemption lookup failed: ${countError.message}`)
+    const used = Math.max(count || 0, row.redemption_count ?? (row.used_at ? 1 : 0))
+    if (used >= rule.maxRedemptions) {
+      return { error: rule.maxRedemptions === 1 ? 'Code already used' : 'Code is no longer available' }
+    }
+  }
+
+  if (rule.perCustomerLimit !== null && email) {
+    const { count, error: countError } = await inUse().ilike('email', likeExact(email))
+    if (countError) throw new Error(`Promo redemption lookup failed: ${countError.message}`)
+    if ((count || 0) >= rule.perCustomerLimit) {
+      return { error: 'You have already used this code' }
+    }
+  }
+
+  return { rule }
+}
+
+/**
+ * Hold one use of the code for a checkout attempt, atomically.
+ * Returns an error message when the last use was taken in the meantime.
+ */
+export async function holdPromoCode(
+  holdId: string,
+  code: string,
+  email: string | null,
+  ip: string | null,
+  expiresAt: Date,
+): Promise<{ error?: string }> {
+  const supabase = getServiceClient()
+  const { error } = await supabase.rpc('hold_promo_code', {
+    p_hold_id: holdId,
+    p_code: normalizePromoCode(code),
+    p_email: email,
+    p_ip: ip,
+    p_expires_at: expiresAt.toISOString(),
+  })
+
+  if (error) {
+    if (error.message?.includes('PROMO_NOT_FOUND')) return { error: 'Code not found' }
+    if (error.message?.includes('PROMO_SPENT')) return { error: 'Code is no longer available' }
+    if (error.message?.includes('PROMO_CUSTOMER_LIMIT')) return { error: 'You have already used this code' }
+    throw new Error(`Promo hold failed: ${error.message}`)
+  }
+  return {}
+}
+
+/** Payment landed — the held use is spent. Idempotent. False when the hold doesn't exist. */
+export async function redeemPromoHold(holdId: string, sessionId: string): Promise<boolean> {
+  const supabase = getServiceClient()
+  const { data, error } = await supabase.rpc('redeem_promo_hold', {
+    p_hold_id: holdId,
+    p_session_id: sessionId,
+  })
+  if (error) throw new Error(`Promo redemption failed: ${error.message}`)
+  return data === true
+}
+
+/** Checkout abandoned/expired — the use goes back to the code. Idempotent. */
+export async function releasePromoHold(holdId: string) {
+  const supabase = getServiceClient()
+  const { error } = await supabase.rpc('release_promo_hold', {
+    p_hold_id: holdId,
+  })
+  if (error) throw new Error(`Promo release failed: ${error.message}`)
+}
+
+/** Record a paid redemption for a session created before holds existed. */
+export async function redeemPromoCode(
+  code: string,
+  sessionId: string,
+  email: string | null,
+  ip: string | null,
+): Promise<boolean> {
+  const supabase = getServiceClient()
+  const { data, error } = await supabase.rpc('redeem_promo_code', {
+    p_code: normalizePromoCode(code),
+    p_session_id: sessionId,
+    p_email: email,
+    p_ip: ip,
+  })
+  if (error) throw new Error(`Promo redemption failed: ${error.message}`)
+  return data === true
+}
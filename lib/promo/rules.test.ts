@@ -0,0 +1,77 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { isEligibleItem, ruleFromRow } from './rules'
+
+test('reads rules from promo_codes rows', () => {
+  const rule = ruleFromRow({
+    code: 'FALL10',
+    kind: 'amount_off',
+    value: 1000,
+    free_shipping: false,
+    min_subtotal: 5000,
+    eligible_products: ['OSC002'],
+    eligible_categories: ['apparel'],
+    max_redemptions: 100,
+    per_customer_limit: 1,
+    starts_at: '2026-10-01T00:00:00Z',
+    expires_at: null,
+  })
+
+  assert.deepEqual(rule, {
+    code: 'FALL10',
+    kind: 'amount_off',
+    value: 1000,
+    freeShipping: false,
+    minSubtotal: 5000,
+    eligibleProducts: ['OSC002'],
+    eligibleCategories: ['apparel'],
+    maxRedemptions: 100,
+    perCustomerLimit: 1,
+    startsAt: '2026-10-01T00:00:00Z',
+    expiresAt: null,
+  })
+  assert.equal(ruleFromRow({ code: 'SHIPFREE', kind: 'free_shipping' }).freeShipping, true)
+})
+
+test('converts rows written before rules existed', () => {
+  const percent = ruleFromRow({ code: 'OLD15', discount_type: 'percent_15' })
+  assert.deepEqual([percent.kind, percent.value, percent.freeShipping], ['percent_off', 15, true])
+
+  const item = ruleFromRow({ code: 'OLD050', discount_type: 'item_050' })
+  assert.deepEqual([item.kind, item.value, item.freeShipping], ['item_price', 50, true])
+
+  const bare = ruleFromRow({ code: 'OLDEST' })
+  assert.deepEqual([bare.kind, bare.value, bare.freeShipping], ['item_price', 50, true])
+  assert.deepEqual(bare.eligibleProducts, [])
+  assert.equal(bare.maxRedemptions, null)
+})
+
+test('applies to every item when the rule names no products or categories', () => {
+  const rule = ruleFromRow({ code: 'ALL', kind: 'percent_off', value: 10 })
+  assert.equal(isEligibleItem(rule, { product_key: 'sticker-kit', price: 990, quantity: 1 }), true)
+})
+
+test('matches eligible products by key or SKU, in any case', () => {
+  const rule = ruleFromRow({ code: 'ONE', kind: 'percent_off', value: 10, eligible_products: ['OSC002'] })
+  assert.equal(isEligibleItem(rule, { product_key: 'osc002', price: 3200, quantity: 1 }), true)
+  assert.equal(isEligibleItem(rule, { product_key: 'OSC003', price: 3200, quantity: 1 }), false)
+})
+
+test('matches eligible products by product type', () => {
+  const rule = ruleFromRow({ code: 'HOODIES', kind: 'percent_off', value: 10, eligible_products: ['hoodie'] })
+
+  // Resolved by pricing on the server
+  assert.equal(isEligibleItem(rule, { product_key: 'OSC003', price: 4999, quantity: 1, productType: 'hoodie' }), true)
+  // Derived from the SKU prefix in the browser
+  assert.equal(isEligibleItem(rule, { product_key: 'HOOD-OSC003-BLK-L', price: 4999, quantity: 1 }), true)
+  assert.equal(isEligibleItem(rule, { product_key: 'cotton-tee', price: 2999, quantity: 1 }), false)
+})
+
+test('matches eligible categories', () => {
+  const rule = ruleFromRow({ code: 'GEAR', kind: 'percent_off', value: 10, eligible_categories: ['Apparel'] })
+
+  assert.equal(isEligibleItem(rule, { product_key: 'cotton-tee', price: 2999, quantity: 1 }), true)
+  assert.equal(isEligibleItem(rule, { product_key: 'sticker-kit', price: 990, quantity: 1 }), false)
+  // A type the seed catalog doesn't know, categorized by the live catalog
+  assert.equal(isEligibleItem(rule, { product_key: 'OSC009', price: 5500, quantity: 1, productType: 'jacket', category: 'apparel' }), true)
+})
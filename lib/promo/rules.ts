@@ -0,0 +1,154 @@
+import { SEED_CATALOG } from '@/lib/catalog/catalog'
+
+// ============================================
+// PROMO RULES (pure — shared by checkout modal, /api/promo/validate and /api/checkout)
+// A promo_codes row is one rule: what it takes off, which items it applies
+// to, and the cart it needs. Redemption limits are checked server-side in
+// lib/promo/codes.ts — they need the database.
+// ============================================
+
+export type PromoKind =
+  | 'amount_off'     // fixed cents off the eligible items
+  | 'percent_off'    // percent off every eligible unit
+  | 'bogo'           // the cheaper unit of each eligible pair gets `value`% off
+  | 'free_shipping'  // shipping only
+  | 'item_price'     // one eligible unit (the cheapest) sells for `value` cents — legacy item_050
+
+export const PROMO_KINDS: PromoKind[] = ['amount_off', 'percent_off', 'bogo', 'free_shipping', 'item_price']
+
+export interface PromoRule {
+  code: string
+  kind: PromoKind
+  value: number                 // cents for amount_off / item_price, percent for percent_off / bogo
+  freeShipping: boolean
+  minSubtotal: number           // cents, 0 = no minimum
+  eligibleProducts: string[]    // product keys, SKUs or product types — empty = every product
+  eligibleCategories: string[]  // catalog categories (apparel, sticker) — empty = every category
+  maxRedemptions: number | null // null = unlimited
+  perCustomerLimit: number | null
+  startsAt: string | null
+  expiresAt: string | null
+}
+
+export interface PromoCartItem {
+  product_key: string
+  price: number                 // cents (CAD)
+  quantity: number
+  productType?: string | null   // resolved by pricing on the server; derived from the key otherwise
+  category?: string | null      // likewise
+}
+
+const fmtCents = (cents: number) =>
+  `CA$${(cents / 100).toFixed(cents % 100 === 0 ? 0 : 2)}`
+
+/** Build a rule from a promo_codes row. Rows written before rules existed only have discount_type. */
+export function ruleFromRow(row: any): PromoRule {
+  let kind: PromoKind = PROMO_KINDS.includes(row.kind) ? row.kind : 'item_price'
+  let value = typeof row.value === 'number' ? row.value : 0
+  let freeShipping = !!row.free_shipping
+
+  if (!row.kind) {
+    const legacy: string = row.discount_type || 'item_050'
+    if (legacy.startsWith('percent_')) {
+      kind = 'percent_off'
+      value = parseInt(legacy.replace('percent_', '')) || 0
+    } else {
+      kind = 'item_price'
+      value = 50
+    }
+    freeShipping = true // every legacy promo shipped free
+  }
+
+  return {
+    code: row.code,
+    kind,
+    value,
+    freeShipping: freeShipping || kind === 'free_shipping',
+    minSubtotal: row.min_subtotal || 0,
+    eligibleProducts: Array.isArray(row.eligible_products) ? row.eligible_products : [],
+    eligibleCategories: Array.isArray(row.eligible_categories) ? row.eligible_categories : [],
+    maxRedemptions: row.max_redemptions ?? null,
+    perCustomerLimit: row.per_customer_limit ?? null,
+    startsAt: row.starts_at || null,
+    expiresAt: row.expires_at || null,
+  }
+}
+
+/** Short customer-facing description, e.g. "15% off apparel + free shipping" */
+export function describePromo(rule: PromoRule): string {
+  const scope = [...rule.eligibleCategories, ...rule.eligibleProducts].join(', ')
+  const on = scope ? ` ${scope}` : ''
+
+  let text: string
+  switch (rule.kind) {
+    case 'amount_off':
+      text = `${fmtCents(rule.value)} off${on}`
+      break
+    case 'percent_off':
+      text = `${rule.value}% off${on}`
+      break
+    case 'bogo':
+      text = rule.value >= 100 ? `Buy one, get one free${on}` : `Buy one, get one ${rule.value}% off${on}`
+      break
+    case 'item_price':
+      text = `One item${on} for ${fmtCents(rule.value)}`
+      break
+    case 'free_shipping':
+      text = 'Free shipping'
+      break
+  }
+
+  if (rule.freeShipping && rule.kind !== 'free_shipping') text += ' + free shipping'
+  if (rule.minSubtotal > 0) text += ` on orders of ${fmtCents(rule.minSubtotal)}+`
+  return text
+}
+
+/**
+ * Type and category of a cart item. Server-priced items carry both from
+ * product_types; in the browser they're derived from the seed catalog, which
+ * only affects the preview — /api/checkout re-checks with the live one.
+ */
+function productTypeOf(item: PromoCartItem): { type: string | null; category: string | null } {
+  if (item.productType) {
+    return { type: item.productType, category: item.category ?? SEED_CATALOG.get(item.productType)?.category ?? null }
+  }
+  const seed = SEED_CATALOG.resolve(item.product_key, item.product_key)
+  return { type: seed?.key ?? null, category: item.category ?? seed?.category ?? null }
+}
+
+export function isEligibleItem(rule: PromoRule, item: PromoCartItem): boolean {
+  if (rule.eligibleProducts.length === 0 && rule.eligibleCategories.length === 0) return true
+
+  const { type, category } = productTypeOf(item)
+  const products = rule.eligibleProducts.map(p => p.toLowerCase())
+  const categories = rule.eligibleCategories.map(c => c.toLowerCase())
+
+  if (products.includes(item.product_key.toLowerCase())) return true
+  if (type && products.includes(type)) return true
+  if (category && categories.includes(category)) return true
+  return false
+}
+
+/** Start/end window of the code */
+export function promoWindowError(rule: PromoRule, now: Date = new Date()): string | null {
+  if (rule.startsAt && new Date(rule.startsAt) > now) return 'Code is not active yet'
+  if (rule.expiresAt && new Date(rule.expiresAt) < now) return 'Code expired'
+  return null
+}
+
+/** Why this cart can't use the rule, or null when it can */
+export function cartEligibilityError(rule: PromoRule, items: PromoCartItem[]): string | null {
+  const subtotal = items.reduce((sum, i) => sum + i.price * i.quantity, 0)
+  if (rule.minSubtotal > 0 && subtotal < rule.minSubtotal) {
+    return `Spend ${fmtCents(rule.minSubtotal)} or more to use this code`
+  }
+
+  const eligibleUnits = items.filter(i => isEligibleItem(rule, i)).reduce((sum, i) => sum + i.quantity, 0)
+  if (rule.kind !== 'free_shipping' && eligibleUnits === 0) {
+    return 'This code does not apply to the items in your cart'
+  }
+  if (rule.kind === 'bogo' && eligibleUnits < 2) {
+    return 'Add two eligible items to use this code'
+  }
+  return null
+}
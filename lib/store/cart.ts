@@ -6,7 +6,8 @@ import { persist } from 'zustand/middleware';
 // ============================================
 
 export interface CartItem {
-  product_key: string;   // key from STRIPE_PRODUCTS (e.g. 'cotton-tee')
+  product_key: string;   // product SKU, id, or product type key (e.g. 'cotton-tee')
+  variant_id?: string | null;  // app_shop_product_variants.id — the size × color being bought
   price_id: string;      // Stripe Price ID
   name: string;
   design: string;
@@ -15,14 +16,17 @@ export interface CartItem {
   price: number;         // cents (CAD)
   quantity: number;
   image: string;
+  preorder_ships_at?: string | null;  // YYYY-MM-DD when added as a pre-order — checkout decides for real
 }
 
 interface CartStore {
   items: CartItem[];
+  recoveredCartId: string | null;  // abandoned cart this one was restored from
   addItem: (item: Omit<CartItem, 'quantity'>) => void;
   removeItem: (product_key: string, color: string, size: string) => void;
   updateQuantity: (product_key: string, color: string, size: string, quantity: number) => void;
   clearCart: () => void;
+  restoreCart: (items: CartItem[], cartId: string) => void;
   getSubtotal: () => number;
   getItemCount: () => number;
 }
@@ -35,8 +39,10 @@ export const useCartStore = create<CartStore>()(
   persist(
     (set, get) => ({
       items: [],
+      recoveredCartId: null,
 
       addItem: (newItem) => set((state) => {
+        // Color + size pick out one variant, so they still identify the line
         const existing = state.items.find(
           i => i.product_key === newItem.product_key
             && i.color === newItem.color
@@ -45,7 +51,14 @@ export const useCartStore = create<CartStore>()(
         if (existing) {
           return {
             items: state.items.map(i =>
-              i === existing ? { ...i, quantity: i.quantity + 1 } : i
+              i === existing
+                ? {
+                    ...i,
+                    variant_id: newItem.variant_id ?? i.variant_id,
+                    preorder_ships_at: newItem.preorder_ships_at ?? i.preorder_ships_at,
+                    quantity: i.quantity + 1,
+                  }
+                : i
             ),
           };
         }
@@ -70,7 +83,9 @@ export const useCartStore = create<CartStore>()(
             ),
       })),
 
-      clearCart: () => set({ items: [] }),
+      clearCart: () => set({ items: [], recoveredCartId: null }),
+
+      restoreCart: (items, cartId) => set({ items, recoveredCartId: cartId }),
 
       getSubtotal: () => get().items.reduce((sum, i) => sum + i.price * i.quantity, 0),
 
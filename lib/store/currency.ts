@@ -0,0 +1,88 @@
+import { useEffect } from 'react';
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import {
+  DEFAULT_RATES,
+  detectCurrency,
+  formatMoney,
+  isDisplayCurrency,
+  type CurrencyRates,
+  type DisplayCurrency,
+} from '@/lib/currency/format';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface CurrencyStore {
+  currency: DisplayCurrency | null;   // null until detected or chosen
+  rates: CurrencyRates;
+  ratesFetchedAt: number;             // epoch ms, 0 = never
+  setCurrency: (currency: DisplayCurrency) => void;
+  initialize: () => void;
+}
+
+// Rates are edited by hand a few times a month — refreshing a few times a day is plenty
+const RATES_TTL_MS = 6 * 60 * 60 * 1000;
+
+let loading = false;
+
+// ============================================
+// STORE
+// ============================================
+
+export const useCurrencyStore = create<CurrencyStore>()(
+  persist(
+    (set, get) => ({
+      currency: null,
+      rates: DEFAULT_RATES,
+      ratesFetchedAt: 0,
+
+      setCurrency: (currency) => set({ currency }),
+
+      initialize: () => {
+        if (!get().currency && typeof navigator !== 'undefined') {
+          set({ currency: detectCurrency(navigator.language) });
+        }
+
+        if (loading || Date.now() - get().ratesFetchedAt < RATES_TTL_MS) return;
+        loading = true;
+        fetch('/api/currency')
+          .then(res => res.json())
+          .then(data => {
+            if (data?.rates) set({ rates: { ...DEFAULT_RATES, ...data.rates }, ratesFetchedAt: Date.now() });
+          })
+          .catch(() => { /* keep the stored or default rates */ })
+          .finally(() => { loading = false; });
+      },
+    }),
+    {
+      name: 'onsite-currency',
+      merge: (persisted, current) => {
+        const p = persisted as Partial<CurrencyStore> | undefined;
+        return {
+          ...current,
+          ...p,
+          currency: isDisplayCurrency(p?.currency) ? p!.currency : null,
+        };
+      },
+    }
+  )
+);
+
+/**
+ * Display currency and a formatter for CAD cents. CAD until a currency has
+ * been detected from the browser or picked in the navbar.
+ */
+export function useMoney() {
+  const currency = useCurrencyStore((s) => s.currency) ?? 'CAD';
+  const rates = useCurrencyStore((s) => s.rates);
+  const initialize = useCurrencyStore((s) => s.initialize);
+
+  useEffect(() => { initialize(); }, [initialize]);
+
+  return {
+    currency,
+    format: (cadCents: number) => formatMoney(cadCents, currency, rates),
+  };
+}
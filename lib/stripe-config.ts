@@ -1,7 +1,10 @@
 import Stripe from 'stripe';
 
 // ============================================
-// SINGLE SOURCE OF TRUTH — Products & Prices
+// PRODUCT TYPE SEED — Products & Prices
+// The live catalog is the product_types table (lib/catalog/product-types).
+// These only seed it and back it up when it can't be read — edit prices,
+// sizes and Stripe prices in /admin/product-types, not here.
 // ============================================
 
 export const STRIPE_PRODUCTS = {
@@ -65,6 +68,17 @@ export const STRIPE_PRODUCTS = {
 
 export type ProductKey = keyof typeof STRIPE_PRODUCTS;
 
+// SKU prefix → STRIPE_PRODUCTS key (e.g. 'STK-FR001' → 'sticker-kit')
+export const SKU_PREFIX_TO_PRODUCT: Record<string, ProductKey> = {
+  'CTEE': 'cotton-tee',
+  'STEE': 'sport-tee',
+  'HOOD': 'hoodie',
+  'CPPRM': 'cap-premium',
+  'CPCLS': 'cap-classic',
+  'STK': 'sticker-kit',
+  'TEST': 'test-product',
+};
+
 // ============================================
 // SHIPPING OPTIONS
 // ============================================
@@ -135,7 +149,16 @@ export const FREE_SHIPPING_OPTION: Stripe.Checkout.SessionCreateParams.ShippingO
   },
 };
 
-export const FREE_SHIPPING_THRESHOLD = 5000; // $50 in cents
+export const FREE_SHIPPING_THRESHOLD = 5000; // $50 in cents — Canadian orders only
+
+/** Free shipping over the threshold is a domestic offer — US parcels always pay */
+export function qualifiesForFreeShipping(subtotal: number, country: string): boolean {
+  return country === 'CA' && subtotal >= FREE_SHIPPING_THRESHOLD;
+}
+
+// Local pickup / jobsite drop-off — a $0 service offered next to the Canada Post
+// quotes for Canadian carts (locations: lib/checkout/pickup). Never gets a label.
+export const PICKUP_SERVICE_CODE = 'PICKUP';
 
 // ============================================
 // PROVINCE → SHIPPING COST (auto-calculated)
@@ -179,53 +202,43 @@ export function getShippingCost(province: string, subtotal: number): number {
 }
 
 // ============================================
-// PRODUCT WEIGHTS & DIMENSIONS (for Canada Post)
+// COUNTRIES WE SHIP TO
+// Canada is priced by province above; everything else by country.
 // ============================================
 
-export const PRODUCT_SHIPPING_INFO: Record<ProductKey, { weight: number; length: number; width: number; height: number }> = {
-  'cotton-tee':   { weight: 0.25, length: 30, width: 22, height: 3 },
-  'sport-tee':    { weight: 0.22, length: 30, width: 22, height: 3 },
-  'hoodie':       { weight: 0.55, length: 35, width: 28, height: 5 },
-  'cap-premium':  { weight: 0.15, length: 20, width: 18, height: 12 },
-  'cap-classic':  { weight: 0.12, length: 20, width: 18, height: 12 },
-  'sticker-kit':  { weight: 0.05, length: 25, width: 18, height: 1 },
-  'test-product': { weight: 0.01, length: 1, width: 1, height: 1 },
-};
+export const SHIPPING_COUNTRIES = [
+  { code: 'CA', name: 'Canada' },
+  { code: 'US', name: 'United States' },
+] as const;
+
+export type ShippingCountry = typeof SHIPPING_COUNTRIES[number]['code'];
 
-/** Calculate total package weight & bounding box for a cart */
-export function calculatePackage(items: { productKey: string; quantity: number }[]): {
-  weight: number
-  length: number
-  width: number
-  height: number
-} {
-  let totalWeight = 0;
-  let maxLength = 0;
-  let maxWidth = 0;
-  let totalHeight = 0;
-
-  for (const item of items) {
-    const info = PRODUCT_SHIPPING_INFO[item.productKey as ProductKey];
-    if (!info) continue;
-    totalWeight += info.weight * item.quantity;
-    maxLength = Math.max(maxLength, info.length);
-    maxWidth = Math.max(maxWidth, info.width);
-    totalHeight += info.height * item.quantity;
-  }
-
-  // Add packaging overhead for real products only
-  const isMinimal = maxLength <= 1 && maxWidth <= 1;
-  if (!isMinimal) {
-    totalWeight += 0.10; // ~100g packaging
-    totalHeight = Math.max(totalHeight + 2, 5); // +2cm for packaging, min 5cm
-  } else {
-    totalHeight = Math.max(totalHeight, 1);
-  }
-
-  return {
-    weight: Math.max(0.01, totalWeight),
-    length: Math.max(maxLength, isMinimal ? 10 : 15),
-    width: Math.max(maxWidth, isMinimal ? 7 : 10),
-    height: Math.min(totalHeight, 40),
-  };
+export function isShippingCountry(code: unknown): code is ShippingCountry {
+  return SHIPPING_COUNTRIES.some(c => c.code === code);
 }
+
+// Flat fallback when Canada Post can't quote a destination outside Canada
+export const COUNTRY_SHIPPING: Record<string, { cost: number; region: string }> = {
+  US: { cost: 2499, region: 'United States' },
+  INTL: { cost: 3999, region: 'International' },
+};
+
+// ============================================
+// PRODUCT WEIGHTS & DIMENSIONS (for Canada Post) — seed only, see above
+// ============================================
+
+// hsCode / originCountry go on customs declarations for parcels leaving Canada.
+// Origin is where the blank was made, not where it was printed — keep in step
+// with the supplier's invoices.
+export const PRODUCT_SHIPPING_INFO: Record<ProductKey, {
+  weight: number; length: number; width: number; height: number;
+  hsCode: string; originCountry: string;
+}> = {
+  'cotton-tee':   { weight: 0.25, length: 30, width: 22, height: 3,  hsCode: '6109.10', originCountry: 'CA' },
+  'sport-tee':    { weight: 0.22, length: 30, width: 22, height: 3,  hsCode: '6109.90', originCountry: 'CA' },
+  'hoodie':       { weight: 0.55, length: 35, width: 28, height: 5,  hsCode: '6110.20', originCountry: 'CA' },
+  'cap-premium':  { weight: 0.15, length: 20, width: 18, height: 12, hsCode: '6505.00', originCountry: 'CA' },
+  'cap-classic':  { weight: 0.12, length: 20, width: 18, height: 12, hsCode: '6505.00', originCountry: 'CA' },
+  'sticker-kit':  { weight: 0.05, length: 25, width: 18, height: 1,  hsCode: '4911.99', originCountry: 'CA' },
+  'test-product': { weight: 0.01, length: 1,  width: 1,  height: 1,  hsCode: '4911.99', originCountry: 'CA' },
+};
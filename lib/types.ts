@@ -1,5 +1,8 @@
+import type { ShopVariant } from '@/lib/catalog/variants';
+import type { DropSchedule } from '@/lib/catalog/schedule';
+
 export interface Product {
-  product_key: string;   // key from STRIPE_PRODUCTS (e.g. 'cotton-tee')
+  product_key: string;   // product SKU, id, or product type key (e.g. 'cotton-tee')
   name: string;
   price: number;         // dollars (for display)
   price_id: string;      // Stripe Price ID
@@ -12,5 +15,7 @@ export interface Product {
   colors: string[];
   color_images: Record<string, string[]>;
   sku: string;
+  variants?: ShopVariant[];  // size × color rows; absent for products without a matrix
+  drop?: DropSchedule;       // publish window — see lib/catalog/schedule
   isVideo?: boolean;
 }
@@ -0,0 +1,8 @@
+-- Sales tax on shop orders
+-- tax: total GST/HST/PST/QST charged, in cents (legacy column — ensure it exists)
+-- tax_lines: [{ kind, label, rate, amount }] as charged in the Stripe session
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS tax           BIGINT DEFAULT 0;
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS tax_province  VARCHAR(2);
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS tax_lines     JSONB DEFAULT '[]';
+
+UPDATE app_shop_orders SET tax = 0 WHERE tax IS NULL;
@@ -0,0 +1,65 @@
+-- ============================================
+-- STRIPE WEBHOOK IDEMPOTENCY
+-- ============================================
+-- Stripe delivers events at least once. This migration adds:
+--   1. stripe_webhook_events — ledger of processed event IDs
+--   2. UNIQUE stripe_session_id on app_shop_orders (one order per session)
+--   3. next_shop_order_number() — collision-free sequential order numbers
+--   4. emails_sent_at — confirmation emails go out once per order
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+-- 1. Event ledger
+CREATE TABLE IF NOT EXISTS stripe_webhook_events (
+  event_id      text          PRIMARY KEY,                 -- evt_...
+  type          text          NOT NULL,
+  status        text          NOT NULL DEFAULT 'processing'
+                CHECK (status IN ('processing', 'processed', 'failed')),
+  attempts      integer       NOT NULL DEFAULT 1,
+  last_error    text,
+  created_at    timestamptz   DEFAULT now(),
+  updated_at    timestamptz   DEFAULT now(),
+  processed_at  timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_status ON stripe_webhook_events(status);
+
+ALTER TABLE stripe_webhook_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service role only" ON stripe_webhook_events;
+CREATE POLICY "service role only" ON stripe_webhook_events
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- 2. One order per Checkout Session
+-- Earlier retries may have produced duplicates: keep the oldest row's session id,
+-- tag the rest so the unique index can be built (rows are kept for review).
+UPDATE app_shop_orders o
+SET stripe_session_id = o.stripe_session_id || ':dup:' || o.id
+WHERE o.stripe_session_id IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM app_shop_orders older
+    WHERE older.stripe_session_id = o.stripe_session_id
+      AND (older.created_at, older.id) < (o.created_at, o.id)
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shop_orders_stripe_session
+  ON app_shop_orders(stripe_session_id);
+
+-- 3. Sequential order numbers (OS-100001, OS-100002, ...)
+CREATE SEQUENCE IF NOT EXISTS shop_order_number_seq START WITH 100001;
+
+CREATE OR REPLACE FUNCTION public.next_shop_order_number()
+RETURNS text
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  SELECT 'OS-' || nextval('shop_order_number_seq')::text;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.next_shop_order_number() FROM PUBLIC, anon, authenticated;
+
+-- 4. Email bookkeeping
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS emails_sent_at TIMESTAMPTZ;
+
+-- Orders created before this migration already had their emails sent
+UPDATE app_shop_orders SET emails_sent_at = created_at WHERE emails_sent_at IS NULL;
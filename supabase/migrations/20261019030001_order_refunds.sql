@@ -0,0 +1,27 @@
+-- ============================================
+-- REFUNDS & DISPUTES
+-- ============================================
+-- refunds: [{ id, amount, reason, items: [{ index, quantity, amount }], shipping,
+--             status, created_at, created_by, notified_at }] — mirrors Stripe refunds
+-- refunded_amount: total refunded in cents (= charge.amount_refunded)
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS stripe_payment_intent_id VARCHAR(255);
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS refunded_amount BIGINT DEFAULT 0;
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS refunded_at     TIMESTAMPTZ;
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS refunds         JSONB DEFAULT '[]';
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS dispute_status  VARCHAR(50);
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS dispute_reason  VARCHAR(100);
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS dispute_amount  BIGINT;
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS disputed_at     TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_shop_orders_payment_intent ON app_shop_orders(stripe_payment_intent_id);
+
+UPDATE app_shop_orders SET refunded_amount = 0 WHERE refunded_amount IS NULL;
+UPDATE app_shop_orders SET refunds = '[]' WHERE refunds IS NULL;
+
+-- Add refund statuses to the workflow
+ALTER TABLE app_shop_orders DROP CONSTRAINT IF EXISTS app_shop_orders_status_check;
+ALTER TABLE app_shop_orders ADD CONSTRAINT app_shop_orders_status_check
+  CHECK (status IN ('paid', 'processing', 'shipped', 'delivered', 'archived', 'refunded', 'partially_refunded'));
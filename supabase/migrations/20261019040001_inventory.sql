@@ -0,0 +1,198 @@
+-- ============================================
+-- INVENTORY — per-variant stock with checkout reservations
+-- ============================================
+-- app_shop_product_variants: one row per (product, size, color) that is stock-tracked.
+--   Variants WITHOUT a row are untracked (always purchasable), so existing
+--   products keep selling until stock rows are added.
+--   available = stock_quantity - reserved_quantity
+-- stock_reservations: units held by an open Checkout Session.
+--   reserved  → held (reserve_stock, at /api/checkout)
+--   committed → sold (commit_stock_reservation, on checkout.session.completed)
+--   released  → returned (release_stock_reservation, on checkout.session.expired)
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+-- 1. Variants
+CREATE TABLE IF NOT EXISTS app_shop_product_variants (
+  id                uuid          DEFAULT gen_random_uuid() PRIMARY KEY,
+  product_id        uuid          NOT NULL REFERENCES app_shop_products(id) ON DELETE CASCADE,
+  size              text          NOT NULL DEFAULT '',   -- '' when the product has no sizes
+  color             text          NOT NULL DEFAULT '',   -- '' when the product has no colors
+  sku               text,
+  stock_quantity    integer       NOT NULL DEFAULT 0,
+  reserved_quantity integer       NOT NULL DEFAULT 0 CHECK (reserved_quantity >= 0),
+  created_at        timestamptz   DEFAULT now(),
+  updated_at        timestamptz   DEFAULT now(),
+  UNIQUE (product_id, size, color)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shop_variants_product ON app_shop_product_variants(product_id);
+
+DROP TRIGGER IF EXISTS shop_variants_updated ON app_shop_product_variants;
+CREATE TRIGGER shop_variants_updated BEFORE UPDATE ON app_shop_product_variants
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE app_shop_product_variants ENABLE ROW LEVEL SECURITY;
+
+-- Storefront reads stock to disable sold-out sizes
+DROP POLICY IF EXISTS "public read" ON app_shop_product_variants;
+CREATE POLICY "public read" ON app_shop_product_variants
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "admin write" ON app_shop_product_variants;
+CREATE POLICY "admin write" ON app_shop_product_variants
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM admin_users WHERE email = auth.jwt()->>'email')
+  );
+
+-- 2. Reservations
+CREATE TABLE IF NOT EXISTS stock_reservations (
+  id                uuid          DEFAULT gen_random_uuid() PRIMARY KEY,
+  reservation_id    uuid          NOT NULL,               -- one per checkout attempt
+  variant_id        uuid          NOT NULL REFERENCES app_shop_product_variants(id) ON DELETE CASCADE,
+  quantity          integer       NOT NULL CHECK (quantity > 0),
+  status            text          NOT NULL DEFAULT 'reserved'
+                    CHECK (status IN ('reserved', 'committed', 'released')),
+  stripe_session_id text,
+  expires_at        timestamptz   NOT NULL,
+  created_at        timestamptz   DEFAULT now(),
+  updated_at        timestamptz   DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_reservation ON stock_reservations(reservation_id);
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_open ON stock_reservations(status, expires_at);
+
+ALTER TABLE stock_reservations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service role only" ON stock_reservations;
+CREATE POLICY "service role only" ON stock_reservations
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- 3. Release reservations whose checkout can no longer complete
+CREATE OR REPLACE FUNCTION public.release_expired_stock_reservations()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  released integer;
+BEGIN
+  WITH expired AS (
+    UPDATE stock_reservations
+    SET status = 'released', updated_at = now()
+    WHERE status = 'reserved' AND expires_at < now()
+    RETURNING variant_id, quantity
+  ), totals AS (
+    SELECT variant_id, SUM(quantity) AS qty FROM expired GROUP BY variant_id
+  )
+  UPDATE app_shop_product_variants v
+  SET reserved_quantity = GREATEST(v.reserved_quantity - t.qty, 0)
+  FROM totals t
+  WHERE v.id = t.variant_id;
+
+  GET DIAGNOSTICS released = ROW_COUNT;
+  RETURN released;
+END;
+$$;
+
+-- 4. Reserve all tracked lines of a cart, or none.
+-- p_items: [{ product_id, size, color, quantity }]
+-- Raises 'OUT_OF_STOCK:<product_id>:<size>:<color>:<available>' when a line can't be held.
+CREATE OR REPLACE FUNCTION public.reserve_stock(
+  p_reservation_id uuid,
+  p_items jsonb,
+  p_expires_at timestamptz
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  item jsonb;
+  v app_shop_product_variants%ROWTYPE;
+  qty integer;
+  held integer := 0;
+BEGIN
+  PERFORM release_expired_stock_reservations();
+
+  -- Lock variants in a stable order so concurrent checkouts can't deadlock
+  FOR item IN
+    SELECT value FROM jsonb_array_elements(p_items)
+    ORDER BY value->>'product_id', value->>'size', value->>'color'
+  LOOP
+    qty := (item->>'quantity')::integer;
+
+    SELECT * INTO v FROM app_shop_product_variants
+    WHERE product_id = (item->>'product_id')::uuid
+      AND size = COALESCE(item->>'size', '')
+      AND color = COALESCE(item->>'color', '')
+    FOR UPDATE;
+
+    CONTINUE WHEN NOT FOUND; -- untracked variant
+
+    IF v.stock_quantity - v.reserved_quantity < qty THEN
+      RAISE EXCEPTION 'OUT_OF_STOCK:%:%:%:%',
+        item->>'product_id', v.size, v.color, GREATEST(v.stock_quantity - v.reserved_quantity, 0);
+    END IF;
+
+    UPDATE app_shop_product_variants
+    SET reserved_quantity = reserved_quantity + qty
+    WHERE id = v.id;
+
+    INSERT INTO stock_reservations (reservation_id, variant_id, quantity, expires_at)
+    VALUES (p_reservation_id, v.id, qty, p_expires_at);
+
+    held := held + 1;
+  END LOOP;
+
+  RETURN held;
+END;
+$$;
+
+-- 5. Payment landed — held units become sold. Idempotent.
+CREATE OR REPLACE FUNCTION public.commit_stock_reservation(p_reservation_id uuid, p_session_id text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE app_shop_product_variants v
+  SET stock_quantity = v.stock_quantity - r.quantity,
+      reserved_quantity = GREATEST(v.reserved_quantity - r.quantity, 0)
+  FROM stock_reservations r
+  WHERE r.reservation_id = p_reservation_id AND r.status = 'reserved' AND r.variant_id = v.id;
+
+  -- Expired before the payment arrived: the sale still happened, take it from stock
+  UPDATE app_shop_product_variants v
+  SET stock_quantity = v.stock_quantity - r.quantity
+  FROM stock_reservations r
+  WHERE r.reservation_id = p_reservation_id AND r.status = 'released' AND r.variant_id = v.id;
+
+  UPDATE stock_reservations
+  SET status = 'committed', stripe_session_id = p_session_id, updated_at = now()
+  WHERE reservation_id = p_reservation_id AND status IN ('reserved', 'released');
+END;
+$$;
+
+-- 6. Checkout abandoned/expired — return held units. Idempotent.
+CREATE OR REPLACE FUNCTION public.release_stock_reservation(p_reservation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE app_shop_product_variants v
+  SET reserved_quantity = GREATEST(v.reserved_quantity - r.quantity, 0)
+  FROM stock_reservations r
+  WHERE r.reservation_id = p_reservation_id AND r.status = 'reserved' AND r.variant_id = v.id;
+
+  UPDATE stock_reservations
+  SET status = 'released', updated_at = now()
+  WHERE reservation_id = p_reservation_id AND status = 'reserved';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_expired_stock_reservations() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reserve_stock(uuid, jsonb, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.commit_stock_reservation(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_stock_reservation(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,61 @@
+-- ============================================
+-- CUSTOMER ACCOUNTS — /account order history + address book
+-- ============================================
+-- app_shop_orders.user_id: set by the webhook when the buyer was signed in,
+--   and claimed later for guest orders once the account's email is confirmed
+--   (see lib/account/data.ts → claimGuestOrders).
+-- app_shop_addresses: saved shipping addresses (shape = Address in types/index.ts).
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+-- 1. Link orders to accounts
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS user_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_shop_orders_user        ON app_shop_orders(user_id);
+CREATE INDEX IF NOT EXISTS idx_shop_orders_email_lower ON app_shop_orders(lower(email));
+CREATE INDEX IF NOT EXISTS idx_reviews_email_lower     ON app_shop_reviews(lower(email));
+CREATE INDEX IF NOT EXISTS idx_promo_codes_email       ON promo_codes(lower(email));
+
+-- Customers can read their own orders (the account page uses the service role,
+-- this keeps the anon-key client consistent with it)
+DROP POLICY IF EXISTS "shop_orders_owner_select" ON app_shop_orders;
+CREATE POLICY "shop_orders_owner_select" ON app_shop_orders
+  FOR SELECT
+  USING (user_id IS NOT NULL AND auth.uid() = user_id);
+
+-- 2. Address book
+CREATE TABLE IF NOT EXISTS app_shop_addresses (
+  id              uuid          DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id         uuid          NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  label           varchar(50)   NOT NULL DEFAULT 'Home',
+  full_name       varchar(255)  NOT NULL,
+  street_address  varchar(255)  NOT NULL,
+  apartment       varchar(100),
+  city            varchar(100)  NOT NULL,
+  province        varchar(50)   NOT NULL,
+  postal_code     varchar(20)   NOT NULL,
+  country         varchar(50)   NOT NULL DEFAULT 'CA',
+  phone           varchar(20),
+  is_default      boolean       NOT NULL DEFAULT false,
+  created_at      timestamptz   DEFAULT now(),
+  updated_at      timestamptz   DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_shop_addresses_user ON app_shop_addresses(user_id);
+
+-- Only one default address per customer
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shop_addresses_default
+  ON app_shop_addresses(user_id)
+  WHERE is_default = true;
+
+DROP TRIGGER IF EXISTS shop_addresses_updated ON app_shop_addresses;
+CREATE TRIGGER shop_addresses_updated BEFORE UPDATE ON app_shop_addresses
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE app_shop_addresses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "owner all" ON app_shop_addresses;
+CREATE POLICY "owner all" ON app_shop_addresses
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,22 @@
+-- ============================================
+-- TRACKING POLLER
+-- ============================================
+-- /api/cron/tracking polls Canada Post for shipped orders and mirrors the
+-- parcel history onto the order:
+--   tracking_events: [{ identifier, date, time, timeZone, description, location }] — newest first
+--   tracking_exception: 'returned_to_sender' | 'delivery_attempted' | NULL — needs staff attention
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS tracking_events        JSONB DEFAULT '[]';
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS tracking_status        TEXT;
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS tracking_checked_at    TIMESTAMPTZ;
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS tracking_exception     VARCHAR(50);
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS tracking_exception_at  TIMESTAMPTZ;
+
+UPDATE app_shop_orders SET tracking_events = '[]' WHERE tracking_events IS NULL;
+
+-- The poller only looks at shipped parcels that haven't been delivered
+CREATE INDEX IF NOT EXISTS idx_shop_orders_tracking_poll
+  ON app_shop_orders(tracking_checked_at NULLS FIRST)
+  WHERE status = 'shipped' AND tracking_code IS NOT NULL AND delivered_at IS NULL;
@@ -0,0 +1,59 @@
+-- ============================================
+-- ABANDONED CHECKOUT RECOVERY
+-- ============================================
+-- /api/checkout saves one temp_carts row per Stripe Checkout Session.
+-- Lifecycle (status):
+--   open       → session created, not paid yet
+--   abandoned  → checkout.session.expired unpaid; recovery emails go out
+--   recovered  → customer opened a recovery link
+--   converted  → paid (its own session, or a checkout started from its recovery link)
+--   closed     → no more emails (newer cart, ordered elsewhere, sequence finished)
+-- items mirror the client cart store so a recovery link can rebuild it.
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+ALTER TABLE temp_carts ADD COLUMN IF NOT EXISTS stripe_session_id       TEXT;
+ALTER TABLE temp_carts ADD COLUMN IF NOT EXISTS email                   VARCHAR(255);
+ALTER TABLE temp_carts ADD COLUMN IF NOT EXISTS province                VARCHAR(2);
+ALTER TABLE temp_carts ADD COLUMN IF NOT EXISTS postal_code             VARCHAR(10);
+ALTER TABLE temp_carts ADD COLUMN IF NOT EXISTS promo_code              VARCHAR(50);
+ALTER TABLE temp_carts ADD COLUMN IF NOT EXISTS status                  VARCHAR(20) DEFAULT 'open';
+ALTER TABLE temp_carts ADD COLUMN IF NOT EXISTS abandoned_at            TIMESTAMPTZ;
+ALTER TABLE temp_carts ADD COLUMN IF NOT EXISTS recovery_emails_sent    INTEGER DEFAULT 0;
+ALTER TABLE temp_carts ADD COLUMN IF NOT EXISTS last_recovery_email_at  TIMESTAMPTZ;
+ALTER TABLE temp_carts ADD COLUMN IF NOT EXISTS recovered_at            TIMESTAMPTZ;
+ALTER TABLE temp_carts ADD COLUMN IF NOT EXISTS recovered_from          UUID REFERENCES temp_carts(id) ON DELETE SET NULL;
+ALTER TABLE temp_carts ADD COLUMN IF NOT EXISTS converted_at            TIMESTAMPTZ;
+ALTER TABLE temp_carts ADD COLUMN IF NOT EXISTS order_number            VARCHAR(50);
+ALTER TABLE temp_carts ADD COLUMN IF NOT EXISTS order_total             BIGINT;   -- cents
+
+UPDATE temp_carts SET status = 'open' WHERE status IS NULL;
+UPDATE temp_carts SET recovery_emails_sent = 0 WHERE recovery_emails_sent IS NULL;
+
+ALTER TABLE temp_carts DROP CONSTRAINT IF EXISTS temp_carts_status_check;
+ALTER TABLE temp_carts ADD CONSTRAINT temp_carts_status_check
+  CHECK (status IN ('open', 'abandoned', 'recovered', 'converted', 'closed'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_temp_carts_stripe_session ON temp_carts(stripe_session_id);
+CREATE INDEX IF NOT EXISTS idx_temp_carts_abandoned ON temp_carts(abandoned_at) WHERE status = 'abandoned';
+CREATE INDEX IF NOT EXISTS idx_temp_carts_email ON temp_carts(LOWER(email));
+
+-- Carts now hold customer emails, so public access is narrowed to the carts
+-- the Auth Hub hand-off uses (AUTH_HUB_CONTRACT.md §2): created, read by id
+-- and deleted with the anon key, with no Checkout Session, no email and still
+-- open. Shop checkout carts are written by the service role; buyers may read
+-- their own.
+DROP POLICY IF EXISTS "Anyone can create temp cart" ON temp_carts;
+DROP POLICY IF EXISTS "Users can view their own temp carts" ON temp_carts;
+DROP POLICY IF EXISTS "temp_carts_read" ON temp_carts;
+DROP POLICY IF EXISTS "temp_carts_insert" ON temp_carts;
+DROP POLICY IF EXISTS "temp_carts_delete" ON temp_carts;
+DROP POLICY IF EXISTS "temp_carts_own_read" ON temp_carts;
+CREATE POLICY "temp_carts_read" ON temp_carts FOR SELECT
+  USING (stripe_session_id IS NULL AND email IS NULL AND status = 'open');
+CREATE POLICY "temp_carts_insert" ON temp_carts FOR INSERT
+  WITH CHECK (stripe_session_id IS NULL AND email IS NULL AND status = 'open');
+CREATE POLICY "temp_carts_delete" ON temp_carts FOR DELETE
+  USING (stripe_session_id IS NULL AND email IS NULL AND status = 'open');
+CREATE POLICY "temp_carts_own_read" ON temp_carts FOR SELECT
+  USING (auth.uid() = user_id);
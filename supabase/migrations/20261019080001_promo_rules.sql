@@ -0,0 +1,121 @@
+-- ============================================
+-- PROMO RULES v2
+-- ============================================
+-- Each promo_codes row becomes a typed rule (see lib/promo/rules.ts):
+--   kind: amount_off | percent_off | bogo | free_shipping | item_price
+--   value: cents (amount_off, item_price) or percent (percent_off, bogo)
+-- plus minimum subtotal, product/category eligibility, a start/end window,
+-- and redemption limits counted in promo_redemptions.
+-- discount_type is kept for rows written by older code; ruleFromRow() reads it.
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+ALTER TABLE promo_codes ADD COLUMN IF NOT EXISTS kind                 VARCHAR(20);
+ALTER TABLE promo_codes ADD COLUMN IF NOT EXISTS value                INTEGER DEFAULT 0;
+ALTER TABLE promo_codes ADD COLUMN IF NOT EXISTS free_shipping        BOOLEAN DEFAULT false;
+ALTER TABLE promo_codes ADD COLUMN IF NOT EXISTS min_subtotal         INTEGER DEFAULT 0;      -- cents
+ALTER TABLE promo_codes ADD COLUMN IF NOT EXISTS eligible_products    TEXT[] DEFAULT '{}';
+ALTER TABLE promo_codes ADD COLUMN IF NOT EXISTS eligible_categories  TEXT[] DEFAULT '{}';
+ALTER TABLE promo_codes ADD COLUMN IF NOT EXISTS max_redemptions      INTEGER;                -- NULL = unlimited
+ALTER TABLE promo_codes ADD COLUMN IF NOT EXISTS per_customer_limit   INTEGER;                -- NULL = unlimited
+ALTER TABLE promo_codes ADD COLUMN IF NOT EXISTS starts_at            TIMESTAMPTZ;
+ALTER TABLE promo_codes ADD COLUMN IF NOT EXISTS redemption_count     INTEGER DEFAULT 0;
+
+ALTER TABLE promo_codes DROP CONSTRAINT IF EXISTS promo_codes_kind_check;
+ALTER TABLE promo_codes ADD CONSTRAINT promo_codes_kind_check
+  CHECK (kind IS NULL OR kind IN ('amount_off', 'percent_off', 'bogo', 'free_shipping', 'item_price'));
+
+-- Existing codes: single use, free shipping, rule parsed from discount_type
+UPDATE promo_codes
+SET kind = CASE WHEN discount_type LIKE 'percent_%' THEN 'percent_off' ELSE 'item_price' END,
+    value = CASE WHEN discount_type LIKE 'percent_%'
+                 THEN COALESCE(NULLIF(regexp_replace(discount_type, '\D', '', 'g'), '')::int, 0)
+                 ELSE 50 END,
+    free_shipping = true,
+    max_redemptions = 1,
+    redemption_count = CASE WHEN used_at IS NOT NULL THEN 1 ELSE 0 END
+WHERE kind IS NULL;
+
+-- Redemption ledger — one row per paid Checkout Session
+CREATE TABLE IF NOT EXISTS promo_redemptions (
+  id                 uuid          DEFAULT gen_random_uuid() PRIMARY KEY,
+  promo_code_id      uuid          NOT NULL REFERENCES promo_codes(id) ON DELETE CASCADE,
+  code               text          NOT NULL,
+  email              text,
+  stripe_session_id  text          UNIQUE,
+  used_by_ip         text,
+  created_at         timestamptz   DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_code_email ON promo_redemptions(promo_code_id, LOWER(email));
+
+ALTER TABLE promo_redemptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service role only" ON promo_redemptions;
+CREATE POLICY "service role only" ON promo_redemptions
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Past single-use redemptions (order_id holds the Stripe session id)
+INSERT INTO promo_redemptions (promo_code_id, code, email, stripe_session_id, used_by_ip, created_at)
+SELECT p.id, p.code, o.email, p.order_id, p.used_by_ip, p.used_at
+FROM promo_codes p
+LEFT JOIN app_shop_orders o ON o.stripe_session_id = p.order_id
+WHERE p.used_at IS NOT NULL
+ON CONFLICT (stripe_session_id) DO NOTHING;
+
+-- Record one redemption, atomically. Returns false when the code is spent
+-- or the customer is over their limit. Same session twice = one redemption.
+CREATE OR REPLACE FUNCTION public.redeem_promo_code(
+  p_code        text,
+  p_session_id  text,
+  p_email       text,
+  p_ip          text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_promo promo_codes%ROWTYPE;
+  v_customer_count integer;
+BEGIN
+  SELECT * INTO v_promo FROM promo_codes WHERE code = p_code FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM promo_redemptions WHERE stripe_session_id = p_session_id) THEN
+    RETURN true;
+  END IF;
+
+  IF v_promo.max_redemptions IS NOT NULL AND v_promo.redemption_count >= v_promo.max_redemptions THEN
+    RETURN false;
+  END IF;
+
+  IF v_promo.per_customer_limit IS NOT NULL AND p_email IS NOT NULL THEN
+    SELECT count(*) INTO v_customer_count
+    FROM promo_redemptions
+    WHERE promo_code_id = v_promo.id AND LOWER(email) = LOWER(p_email);
+    IF v_customer_count >= v_promo.per_customer_limit THEN
+      RETURN false;
+    END IF;
+  END IF;
+
+  INSERT INTO promo_redemptions (promo_code_id, code, email, stripe_session_id, used_by_ip)
+  VALUES (v_promo.id, v_promo.code, p_email, p_session_id, p_ip);
+
+  UPDATE promo_codes
+  SET redemption_count = redemption_count + 1,
+      order_id = p_session_id,
+      used_by_ip = p_ip,
+      used_at = CASE
+        WHEN max_redemptions IS NOT NULL AND redemption_count + 1 >= max_redemptions THEN now()
+        ELSE used_at
+      END
+  WHERE id = v_promo.id;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.redeem_promo_code(text, text, text, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,187 @@
+-- ============================================
+-- PROMO HOLDS
+-- ============================================
+-- A code is held for a checkout attempt when /api/checkout creates the
+-- Stripe session, the same way stock is reserved. Held uses count against
+-- max_redemptions and per_customer_limit, so two carts can't both pay with
+-- the last use of a code.
+--   checkout.session.completed → redeem_promo_hold()  (held → redeemed)
+--   checkout.session.expired   → release_promo_hold() (held → released)
+-- Holds carry an expires_at, so a lost expiry webhook can't lock a code forever.
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+ALTER TABLE promo_redemptions ADD COLUMN IF NOT EXISTS hold_id     uuid;
+ALTER TABLE promo_redemptions ADD COLUMN IF NOT EXISTS status      text DEFAULT 'redeemed';
+ALTER TABLE promo_redemptions ADD COLUMN IF NOT EXISTS expires_at  timestamptz;
+ALTER TABLE promo_redemptions ADD COLUMN IF NOT EXISTS updated_at  timestamptz DEFAULT now();
+
+UPDATE promo_redemptions SET status = 'redeemed' WHERE status IS NULL;
+ALTER TABLE promo_redemptions ALTER COLUMN status SET NOT NULL;
+
+ALTER TABLE promo_redemptions DROP CONSTRAINT IF EXISTS promo_redemptions_status_check;
+ALTER TABLE promo_redemptions ADD CONSTRAINT promo_redemptions_status_check
+  CHECK (status IN ('held', 'redeemed', 'released'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promo_redemptions_hold ON promo_redemptions(hold_id);
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_open ON promo_redemptions(promo_code_id, status, expires_at);
+
+-- 1. Hold one use of a code for a checkout attempt.
+-- Raises 'PROMO_NOT_FOUND', 'PROMO_SPENT' or 'PROMO_CUSTOMER_LIMIT' when it can't.
+CREATE OR REPLACE FUNCTION public.hold_promo_code(
+  p_hold_id     uuid,
+  p_code        text,
+  p_email       text,
+  p_ip          text,
+  p_expires_at  timestamptz
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_promo promo_codes%ROWTYPE;
+  v_used integer;
+BEGIN
+  -- Serialises every checkout using this code
+  SELECT * INTO v_promo FROM promo_codes WHERE code = p_code FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PROMO_NOT_FOUND';
+  END IF;
+
+  UPDATE promo_redemptions
+  SET status = 'released', updated_at = now()
+  WHERE promo_code_id = v_promo.id AND status = 'held' AND expires_at < now();
+
+  IF v_promo.max_redemptions IS NOT NULL THEN
+    SELECT count(*) INTO v_used
+    FROM promo_redemptions
+    WHERE promo_code_id = v_promo.id AND status IN ('held', 'redeemed');
+    IF GREATEST(v_used, v_promo.redemption_count) >= v_promo.max_redemptions THEN
+      RAISE EXCEPTION 'PROMO_SPENT';
+    END IF;
+  END IF;
+
+  IF v_promo.per_customer_limit IS NOT NULL AND p_email IS NOT NULL THEN
+    SELECT count(*) INTO v_used
+    FROM promo_redemptions
+    WHERE promo_code_id = v_promo.id
+      AND status IN ('held', 'redeemed')
+      AND LOWER(email) = LOWER(p_email);
+    IF v_used >= v_promo.per_customer_limit THEN
+      RAISE EXCEPTION 'PROMO_CUSTOMER_LIMIT';
+    END IF;
+  END IF;
+
+  INSERT INTO promo_redemptions (promo_code_id, code, email, used_by_ip, hold_id, status, expires_at)
+  VALUES (v_promo.id, v_promo.code, p_email, p_ip, p_hold_id, 'held', p_expires_at);
+END;
+$$;
+
+-- 2. Payment landed — the held use is spent. Idempotent.
+-- A hold released before the payment arrived is still redeemed: the sale happened.
+CREATE OR REPLACE FUNCTION public.redeem_promo_hold(p_hold_id uuid, p_session_id text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_hold promo_redemptions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_hold FROM promo_redemptions WHERE hold_id = p_hold_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+  IF v_hold.status = 'redeemed' THEN
+    RETURN true;
+  END IF;
+
+  UPDATE promo_redemptions
+  SET status = 'redeemed', stripe_session_id = p_session_id, updated_at = now()
+  WHERE id = v_hold.id;
+
+  UPDATE promo_codes
+  SET redemption_count = redemption_count + 1,
+      order_id = p_session_id,
+      used_by_ip = v_hold.used_by_ip,
+      used_at = CASE
+        WHEN max_redemptions IS NOT NULL AND redemption_count + 1 >= max_redemptions THEN now()
+        ELSE used_at
+      END
+  WHERE id = v_hold.promo_code_id;
+
+  RETURN true;
+END;
+$$;
+
+-- 3. Checkout abandoned/expired — the use goes back to the code. Idempotent.
+CREATE OR REPLACE FUNCTION public.release_promo_hold(p_hold_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE promo_redemptions
+  SET status = 'released', updated_at = now()
+  WHERE hold_id = p_hold_id AND status = 'held';
+END;
+$$;
+
+-- 4. Sessions created before holds existed still redeem through
+-- redeem_promo_code(); released holds must not count against the customer.
+CREATE OR REPLACE FUNCTION public.redeem_promo_code(
+  p_code        text,
+  p_session_id  text,
+  p_email       text,
+  p_ip          text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_promo promo_codes%ROWTYPE;
+  v_customer_count integer;
+BEGIN
+  SELECT * INTO v_promo FROM promo_codes WHERE code = p_code FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM promo_redemptions WHERE stripe_session_id = p_session_id) THEN
+    RETURN true;
+  END IF;
+
+  IF v_promo.max_redemptions IS NOT NULL AND v_promo.redemption_count >= v_promo.max_redemptions THEN
+    RETURN false;
+  END IF;
+
+  IF v_promo.per_customer_limit IS NOT NULL AND p_email IS NOT NULL THEN
+    SELECT count(*) INTO v_customer_count
+    FROM promo_redemptions
+    WHERE promo_code_id = v_promo.id AND status = 'redeemed' AND LOWER(email) = LOWER(p_email);
+    IF v_customer_count >= v_promo.per_customer_limit THEN
+      RETURN false;
+    END IF;
+  END IF;
+
+  INSERT INTO promo_redemptions (promo_code_id, code, email, stripe_session_id, used_by_ip, status)
+  VALUES (v_promo.id, v_promo.code, p_email, p_session_id, p_ip, 'redeemed');
+
+  UPDATE promo_codes
+  SET redemption_count = redemption_count + 1,
+      order_id = p_session_id,
+      used_by_ip = p_ip,
+      used_at = CASE
+        WHEN max_redemptions IS NOT NULL AND redemption_count + 1 >= max_redemptions THEN now()
+        ELSE used_at
+      END
+  WHERE id = v_promo.id;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hold_promo_code(uuid, text, text, text, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.redeem_promo_hold(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_promo_hold(uuid) FROM PUBLIC, anon, authenticated;
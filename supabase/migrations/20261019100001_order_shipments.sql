@@ -0,0 +1,13 @@
+-- ============================================
+-- MULTI-PARCEL SHIPMENTS
+-- ============================================
+-- Orders that don't fit one mailer/box ship as several Canada Post
+-- shipments (see lib/canada-post/packing.ts). Each one is stored here:
+--   [{ trackingPin, shipmentId, labelUrl, packaging, weight, dimensions, items }]
+-- tracking_code / label_url keep the first parcel for existing readers;
+-- orders labelled before this stay '[]' and are read from those columns.
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS shipments JSONB DEFAULT '[]'::jsonb;
+
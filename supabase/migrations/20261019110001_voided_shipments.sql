@@ -0,0 +1,11 @@
+-- ============================================
+-- VOIDED SHIPMENTS
+-- ============================================
+-- Shipments voided from the admin orders page (wrong service, reprinted
+-- order, ...). Kept for reconciliation against Canada Post billing:
+--   [{ trackingPin, shipmentId, labelUrl, ..., voidedAt, method, refundTicketId }]
+-- method: 'voided' (deleted before transmit) | 'refund_requested' (already paid)
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS voided_shipments JSONB DEFAULT '[]'::jsonb;
@@ -0,0 +1,28 @@
+-- ============================================
+-- SHIPPING MANIFESTS
+-- ============================================
+-- Contract labels accumulate in a per-day Canada Post group (day-YYYYMMDD)
+-- and are transmitted together from /admin/shipping ("Close the day").
+-- One row per manifest Canada Post returns; the PDF is copied into the
+-- shipping-labels bucket under manifests/.
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS shipping_manifests (
+  id              uuid          DEFAULT gen_random_uuid() PRIMARY KEY,
+  manifest_date   date          NOT NULL,               -- shop day the groups were closed
+  group_ids       text[]        NOT NULL DEFAULT '{}',  -- groups transmitted together
+  manifest_url    text          NOT NULL UNIQUE,        -- Canada Post manifest resource
+  po_number       text,
+  pdf_url         text,                                 -- NULL until the PDF is stored
+  closed_by       text,
+  created_at      timestamptz   DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipping_manifests_date ON shipping_manifests(manifest_date DESC);
+
+ALTER TABLE shipping_manifests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service role only" ON shipping_manifests;
+CREATE POLICY "service role only" ON shipping_manifests
+  FOR ALL USING (auth.role() = 'service_role');
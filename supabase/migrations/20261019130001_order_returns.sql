@@ -0,0 +1,77 @@
+-- ============================================
+-- ORDER RETURNS (RMA)
+-- ============================================
+-- A customer requests a return from /returns (order number + email); staff
+-- approve it in /admin/returns, which emails a Canada Post authorized
+-- return label. The tracking poller follows the return parcel, and once it
+-- reaches us the resolution runs:
+--   refund   → Stripe refund for the returned lines (refund_id)
+--   exchange → a $0 replacement order with the new sizes (exchange_order_id)
+--
+--   requested → approved → in_transit → received → completed
+--            ↘ rejected
+--
+-- items: [{ index, quantity, name, sku, color, size, exchange_size }]
+--   index points into app_shop_orders.items
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS order_returns (
+  id                   uuid          DEFAULT gen_random_uuid() PRIMARY KEY,
+  rma_number           text          NOT NULL UNIQUE,
+  order_id             uuid          NOT NULL REFERENCES app_shop_orders(id) ON DELETE CASCADE,
+  order_number         text          NOT NULL,
+  email                text          NOT NULL,
+  items                jsonb         NOT NULL DEFAULT '[]',
+  reason               text          NOT NULL,
+  customer_notes       text,
+  resolution           text          NOT NULL DEFAULT 'refund',
+  status               text          NOT NULL DEFAULT 'requested',
+  admin_notes          text,
+
+  -- Return parcel
+  tracking_pin         text,
+  label_url            text,
+  tracking_status      text,
+  tracking_events      jsonb         DEFAULT '[]',
+  tracking_checked_at  timestamptz,
+
+  -- Outcome
+  refund_id            text,
+  exchange_order_id    uuid          REFERENCES app_shop_orders(id) ON DELETE SET NULL,
+
+  approved_by          text,
+  approved_at          timestamptz,
+  rejected_at          timestamptz,
+  received_at          timestamptz,
+  completed_at         timestamptz,
+  created_at           timestamptz   DEFAULT now(),
+  updated_at           timestamptz   DEFAULT now()
+);
+
+ALTER TABLE order_returns DROP CONSTRAINT IF EXISTS order_returns_status_check;
+ALTER TABLE order_returns ADD CONSTRAINT order_returns_status_check
+  CHECK (status IN ('requested', 'approved', 'in_transit', 'received', 'completed', 'rejected'));
+
+ALTER TABLE order_returns DROP CONSTRAINT IF EXISTS order_returns_resolution_check;
+ALTER TABLE order_returns ADD CONSTRAINT order_returns_resolution_check
+  CHECK (resolution IN ('refund', 'exchange'));
+
+CREATE INDEX IF NOT EXISTS idx_order_returns_order ON order_returns(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_returns_status ON order_returns(status, created_at DESC);
+
+-- The poller follows return parcels that are on their way back
+CREATE INDEX IF NOT EXISTS idx_order_returns_tracking_poll
+  ON order_returns(tracking_checked_at NULLS FIRST)
+  WHERE status IN ('approved', 'in_transit') AND tracking_pin IS NOT NULL;
+
+DROP TRIGGER IF EXISTS order_returns_updated ON order_returns;
+CREATE TRIGGER order_returns_updated
+  BEFORE UPDATE ON order_returns
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE order_returns ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service role only" ON order_returns;
+CREATE POLICY "service role only" ON order_returns
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,31 @@
+-- ============================================
+-- SHIPPING RATE CACHE
+-- ============================================
+-- Canada Post quotes per origin FSA × destination FSA × package profile
+-- (lib/canada-post/rate-cache.ts). Rows younger than 12h are served without
+-- calling Canada Post; older rows stay as history, and when Canada Post is
+-- down the checkout estimate is derived from the rows for the destination's
+-- postal district (dest_district = first letter of the postal code).
+--   quotes: RateQuote[] — [{ serviceCode, serviceName, priceTotal, priceTotalCents, expectedTransitDays, ... }]
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS shipping_rate_cache (
+  origin_fsa     text          NOT NULL,
+  dest_fsa       text          NOT NULL,
+  dest_district  text          NOT NULL,
+  profile        text          NOT NULL,   -- e.g. 33x25x2@0.3+40x30x25@1.2
+  quotes         jsonb         NOT NULL DEFAULT '[]',
+  total_weight   numeric(8,3)  NOT NULL,   -- kg, all parcels
+  fetched_at     timestamptz   NOT NULL DEFAULT now(),
+  PRIMARY KEY (origin_fsa, dest_fsa, profile)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipping_rate_cache_district
+  ON shipping_rate_cache(origin_fsa, dest_district, fetched_at DESC);
+
+ALTER TABLE shipping_rate_cache ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service role only" ON shipping_rate_cache;
+CREATE POLICY "service role only" ON shipping_rate_cache
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,32 @@
+-- ============================================
+-- DISPLAY CURRENCIES
+-- ============================================
+-- Prices are stored and settled in CAD. Shoppers can browse in USD or EUR
+-- using this table (lib/currency) — edited by admins, not fetched live.
+--   rate: units of the currency per 1 CAD (e.g. USD 0.7300)
+-- Orders record what Stripe presented at checkout (Adaptive Pricing) next to
+-- the CAD amounts, which stay the source of truth for reports and refunds.
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS currency_rates (
+  currency    text           PRIMARY KEY CHECK (currency ~ '^[A-Z]{3}$'),
+  rate        numeric(12,6)  NOT NULL CHECK (rate > 0),
+  updated_by  text,
+  updated_at  timestamptz    NOT NULL DEFAULT now()
+);
+
+INSERT INTO currency_rates (currency, rate) VALUES
+  ('USD', 0.730000),
+  ('EUR', 0.670000)
+ON CONFLICT (currency) DO NOTHING;
+
+ALTER TABLE currency_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service role only" ON currency_rates;
+CREATE POLICY "service role only" ON currency_rates
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- What the customer saw and paid in their own currency (null = paid in CAD)
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS presentment_currency text;
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS presentment_amount integer;
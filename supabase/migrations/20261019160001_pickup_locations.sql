@@ -0,0 +1,45 @@
+-- ============================================
+-- LOCAL PICKUP / JOBSITE DROP-OFF
+-- ============================================
+-- Places customers can collect an order instead of having it shipped
+-- (lib/checkout/pickup). Pickup is offered as a $0 option at checkout for
+-- Canadian carts; the order keeps a snapshot of the location so edits here
+-- don't rewrite past orders.
+--   paid → processing → ready_for_pickup (ready_at, customer emailed)
+--        → delivered (picked up)
+-- Pickup orders never get a Canada Post label.
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS pickup_locations (
+  id            uuid         PRIMARY KEY DEFAULT gen_random_uuid(),
+  name          text         NOT NULL,
+  street        text         NOT NULL,
+  city          text         NOT NULL,
+  province      text         NOT NULL CHECK (province ~ '^[A-Z]{2}$'),
+  postal_code   text         NOT NULL,
+  hours         text         NOT NULL DEFAULT '',   -- free text, e.g. "Mon–Fri 7am–3pm"
+  instructions  text,                               -- shown to the customer after purchase
+  active        boolean      NOT NULL DEFAULT true,
+  sort_order    integer      NOT NULL DEFAULT 0,
+  created_at    timestamptz  NOT NULL DEFAULT now(),
+  updated_at    timestamptz  NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pickup_locations_active
+  ON pickup_locations (sort_order, name) WHERE active;
+
+ALTER TABLE pickup_locations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service role only" ON pickup_locations;
+CREATE POLICY "service role only" ON pickup_locations
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Orders: where to collect it (null = shipped)
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS pickup_location_id uuid REFERENCES pickup_locations(id) ON DELETE SET NULL;
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS pickup_location jsonb;
+
+-- New status between processing and delivered, for pickup orders
+ALTER TABLE app_shop_orders DROP CONSTRAINT IF EXISTS app_shop_orders_status_check;
+ALTER TABLE app_shop_orders ADD CONSTRAINT app_shop_orders_status_check
+  CHECK (status IN ('paid', 'processing', 'ready_for_pickup', 'shipped', 'delivered', 'archived', 'refunded', 'partially_refunded'));
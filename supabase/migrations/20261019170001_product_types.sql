@@ -0,0 +1,50 @@
+-- ============================================
+-- PRODUCT TYPES
+-- ============================================
+-- What every product of one kind shares: price, SKU prefix, sizes, parcel
+-- size, customs data and Stripe price. Replaces the hardcoded
+-- STRIPE_PRODUCTS / PRODUCT_SHIPPING_INFO constants, which are now only the
+-- seed below and the fallback when this table can't be read.
+-- app_shop_products.product_type refers to product_types.key; products with
+-- no product_type are matched by the first segment of their SKU.
+-- Managed in /admin/product-types (lib/catalog/product-types).
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS product_types (
+  key              text         PRIMARY KEY CHECK (key ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name             text         NOT NULL,
+  category         text         NOT NULL,                -- apparel, sticker… (promo targeting)
+  price            integer      NOT NULL CHECK (price > 0), -- cents CAD, when a product has no base_price
+  sku              text         NOT NULL DEFAULT '',
+  sku_prefix       text         NOT NULL UNIQUE CHECK (sku_prefix ~ '^[A-Z0-9]+$'),
+  sizes            text[]       NOT NULL DEFAULT '{}',
+  stripe_price_id  text,
+  weight           numeric(6,3) NOT NULL,                -- kg
+  length           numeric(6,1) NOT NULL,                -- cm
+  width            numeric(6,1) NOT NULL,
+  height           numeric(6,1) NOT NULL,
+  hs_code          text         NOT NULL,
+  origin_country   text         NOT NULL DEFAULT 'CA' CHECK (origin_country ~ '^[A-Z]{2}$'),
+  active           boolean      NOT NULL DEFAULT true,
+  sort_order       integer      NOT NULL DEFAULT 0,
+  created_at       timestamptz  NOT NULL DEFAULT now(),
+  updated_at       timestamptz  NOT NULL DEFAULT now()
+);
+
+ALTER TABLE product_types ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service role only" ON product_types;
+CREATE POLICY "service role only" ON product_types
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Seed from the old constants; never overwrites edits made in the admin
+INSERT INTO product_types (key, name, category, price, sku, sku_prefix, sizes, stripe_price_id, weight, length, width, height, hs_code, origin_country, sort_order) VALUES
+  ('cotton-tee',   'OnSite Cotton Tee',   'apparel', 2999, 'OS-CTN-TEE', 'CTEE',  '{M,L,XL}',     'price_1TFH7oKGyu88MA3NhRqoTVon', 0.25, 30, 22, 3,  '6109.10', 'CA', 0),
+  ('sport-tee',    'OnSite Sport Tee',    'apparel', 3499, 'OS-SPT-TEE', 'STEE',  '{M,L,XL}',     'price_1TFH9CKGyu88MA3N6PU78UN7', 0.22, 30, 22, 3,  '6109.90', 'CA', 1),
+  ('hoodie',       'OnSite Hoodie',       'apparel', 4999, 'OS-HOODIE',  'HOOD',  '{M,L,XL}',     'price_1TFHCgKGyu88MA3N3eBakq57', 0.55, 35, 28, 5,  '6110.20', 'CA', 2),
+  ('cap-premium',  'OnSite Cap Premium',  'apparel', 3990, 'OS-CP-PRM',  'CPPRM', '{"One Size"}', 'price_1TFHE9KGyu88MA3NUsJlC2ca', 0.15, 20, 18, 12, '6505.00', 'CA', 3),
+  ('cap-classic',  'OnSite Cap Classic',  'apparel', 2990, 'OS-CP-CLS',  'CPCLS', '{"One Size"}', 'price_1TFHH7KGyu88MA3NXsrnCOkw', 0.12, 20, 18, 12, '6505.00', 'CA', 4),
+  ('sticker-kit',  'OnSite Sticker Kit',  'sticker',  990, 'OS-STICKER', 'STK',   '{}',           'price_1TFHIoKGyu88MA3NJgLU8OyP', 0.05, 25, 18, 1,  '4911.99', 'CA', 5),
+  ('test-product', 'OnSite Test Product', 'test',      10, 'OS-TEST',    'TEST',  '{"One Size"}', 'price_1TFdP0KGyu88MA3NqGk6mvxR', 0.01, 1,  1,  1,  '4911.99', 'CA', 6)
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,57 @@
+-- ============================================
+-- STRIPE CATALOG SYNC
+-- ============================================
+-- Product types and shop products each own a Stripe Product and one active
+-- Price (lib/catalog/stripe-sync). Saving a price in the admin creates a new
+-- Price and archives the old one; nobody types price IDs by hand any more.
+--   stripe_price_amount  cents the linked Price charges — checkout only uses
+--                        the Price when this equals the catalog price
+-- product.* / price.* webhooks that disagree with these rows are recorded in
+-- stripe_catalog_drift and listed on /admin/stripe-sync with the reconcile
+-- report.
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+ALTER TABLE product_types ADD COLUMN IF NOT EXISTS stripe_product_id text;
+ALTER TABLE product_types ADD COLUMN IF NOT EXISTS stripe_price_amount integer;
+ALTER TABLE product_types ADD COLUMN IF NOT EXISTS stripe_synced_at timestamptz;
+
+ALTER TABLE app_shop_products ADD COLUMN IF NOT EXISTS stripe_product_id text;
+ALTER TABLE app_shop_products ADD COLUMN IF NOT EXISTS stripe_price_amount integer;
+ALTER TABLE app_shop_products ADD COLUMN IF NOT EXISTS stripe_synced_at timestamptz;
+
+-- The seeded type prices were checked against Stripe when they were hardcoded
+UPDATE product_types
+   SET stripe_price_amount = price
+ WHERE stripe_price_id IS NOT NULL
+   AND stripe_price_amount IS NULL
+   AND stripe_synced_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_product_types_stripe_price ON product_types (stripe_price_id);
+CREATE INDEX IF NOT EXISTS idx_app_shop_products_stripe_price ON app_shop_products (stripe_price_id);
+
+CREATE TABLE IF NOT EXISTS stripe_catalog_drift (
+  id           uuid         PRIMARY KEY DEFAULT gen_random_uuid(),
+  stripe_id    text         NOT NULL,                 -- prod_… or price_…
+  local_table  text         NOT NULL CHECK (local_table IN ('product_types', 'app_shop_products')),
+  local_id     text         NOT NULL,                 -- product_types.key or app_shop_products.id
+  issue        text         NOT NULL,                 -- price_archived, price_amount, product_name…
+  detail       text         NOT NULL DEFAULT '',
+  event_id     text,                                  -- the Stripe event that raised it
+  detected_at  timestamptz  NOT NULL DEFAULT now(),
+  resolved_at  timestamptz,
+  resolved_by  text                                   -- admin email, or 'sync'
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_catalog_drift_open
+  ON stripe_catalog_drift (detected_at DESC) WHERE resolved_at IS NULL;
+
+-- One open flag per Stripe object and issue
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stripe_catalog_drift_unique_open
+  ON stripe_catalog_drift (stripe_id, local_table, local_id, issue) WHERE resolved_at IS NULL;
+
+ALTER TABLE stripe_catalog_drift ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service role only" ON stripe_catalog_drift;
+CREATE POLICY "service role only" ON stripe_catalog_drift
+  FOR ALL USING (auth.role() = 'service_role');
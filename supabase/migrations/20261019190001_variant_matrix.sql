@@ -0,0 +1,149 @@
+-- ============================================
+-- VARIANT MATRIX — every size × color of a product is a variant row
+-- ============================================
+-- app_shop_product_variants used to hold only stock-tracked variants. It now
+-- holds the full matrix: one row per size × color, each with its own SKU
+-- ({TIPO}-{ARTE}{NUMERO}-{COR}-{TAMANHO}, see SKU-SYSTEM.md), an optional
+-- price override, weight and images. Carts, checkout and order items
+-- reference the variant id.
+--   track_stock = false → always purchasable (rows created for the matrix)
+--   track_stock = true  → stock_quantity - reserved_quantity is enforced
+--                         (every row that existed before this migration)
+-- Rows whose size or color was later removed from the product are kept (old
+-- reservations and orders point at them) but aren't offered.
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+-- 1. Matrix columns
+ALTER TABLE app_shop_product_variants
+  ADD COLUMN IF NOT EXISTS price_override numeric(10,2) CHECK (price_override IS NULL OR price_override > 0), -- dollars, like base_price; null = product price
+  ADD COLUMN IF NOT EXISTS weight         numeric(6,3)  CHECK (weight IS NULL OR weight > 0),                 -- kg; null = product type weight
+  ADD COLUMN IF NOT EXISTS images         text[]        NOT NULL DEFAULT '{}',                               -- empty = the color's images
+  ADD COLUMN IF NOT EXISTS is_active      boolean       NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS track_stock    boolean       NOT NULL DEFAULT true;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shop_variants_sku
+  ON app_shop_product_variants(sku) WHERE sku IS NOT NULL AND sku <> '';
+
+-- 2. SKU codes — keep in step with lib/catalog/variants.ts
+CREATE OR REPLACE FUNCTION public.shop_variant_size_code(p_size text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN COALESCE(p_size, '') = '' OR lower(p_size) IN ('one size', 'os') THEN 'OS'
+    ELSE upper(regexp_replace(p_size, '[^A-Za-z0-9]', '', 'g'))
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.shop_variant_color_code(p_color text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE lower(COALESCE(p_color, ''))
+    WHEN '' THEN ''
+    WHEN 'white' THEN 'WHT'
+    WHEN 'black' THEN 'BLK'
+    WHEN 'amber' THEN 'AMB'
+    WHEN 'charcoal' THEN 'CHR'
+    WHEN 'light grey' THEN 'LGR'
+    WHEN 'construction green' THEN 'CGR'
+    WHEN 'green' THEN 'GRN'
+    ELSE upper(left(regexp_replace(p_color, '[^A-Za-z0-9]', '', 'g'), 3))
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.shop_variant_sku(p_product_sku text, p_color text, p_size text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN COALESCE(p_product_sku, '') = '' THEN NULL
+    ELSE concat_ws('-', p_product_sku, NULLIF(shop_variant_color_code(p_color), ''), shop_variant_size_code(p_size))
+  END;
+$$;
+
+-- 3. Existing (tracked) rows get their SKU
+UPDATE app_shop_product_variants v
+SET sku = shop_variant_sku(p.sku, v.color, v.size)
+FROM app_shop_products p
+WHERE v.product_id = p.id
+  AND (v.sku IS NULL OR v.sku = '')
+  AND shop_variant_sku(p.sku, v.color, v.size) IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM app_shop_product_variants o WHERE o.sku = shop_variant_sku(p.sku, v.color, v.size)
+  );
+
+-- 4. Backfill the rest of the matrix, untracked.
+-- A SKU clash skips the row; the admin product editor creates it with a suffix.
+INSERT INTO app_shop_product_variants (product_id, size, color, sku, track_stock)
+SELECT p.id, s.size, c.color, shop_variant_sku(p.sku, c.color, s.size), false
+FROM app_shop_products p
+CROSS JOIN LATERAL unnest(CASE WHEN cardinality(p.sizes) > 0 THEN p.sizes ELSE ARRAY[''] END) AS s(size)
+CROSS JOIN LATERAL unnest(CASE WHEN cardinality(p.colors) > 0 THEN p.colors ELSE ARRAY[''] END) AS c(color)
+ON CONFLICT DO NOTHING;
+
+-- 5. Reserve by variant id; untracked variants are skipped.
+-- p_items: [{ variant_id?, product_id, size, color, quantity }]
+-- Raises 'OUT_OF_STOCK:<product_id>:<size>:<color>:<available>' when a line can't be held.
+CREATE OR REPLACE FUNCTION public.reserve_stock(
+  p_reservation_id uuid,
+  p_items jsonb,
+  p_expires_at timestamptz
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  item jsonb;
+  v app_shop_product_variants%ROWTYPE;
+  qty integer;
+  held integer := 0;
+BEGIN
+  PERFORM release_expired_stock_reservations();
+
+  -- Lock variants in a stable order so concurrent checkouts can't deadlock
+  FOR item IN
+    SELECT value FROM jsonb_array_elements(p_items)
+    ORDER BY value->>'product_id', value->>'size', value->>'color'
+  LOOP
+    qty := (item->>'quantity')::integer;
+
+    IF item->>'variant_id' IS NOT NULL THEN
+      SELECT * INTO v FROM app_shop_product_variants
+      WHERE id = (item->>'variant_id')::uuid
+      FOR UPDATE;
+    ELSE
+      SELECT * INTO v FROM app_shop_product_variants
+      WHERE product_id = (item->>'product_id')::uuid
+        AND size = COALESCE(item->>'size', '')
+        AND color = COALESCE(item->>'color', '')
+      FOR UPDATE;
+    END IF;
+
+    CONTINUE WHEN NOT FOUND OR NOT v.track_stock; -- untracked variant
+
+    IF v.stock_quantity - v.reserved_quantity < qty THEN
+      RAISE EXCEPTION 'OUT_OF_STOCK:%:%:%:%',
+        v.product_id, v.size, v.color, GREATEST(v.stock_quantity - v.reserved_quantity, 0);
+    END IF;
+
+    UPDATE app_shop_product_variants
+    SET reserved_quantity = reserved_quantity + qty
+    WHERE id = v.id;
+
+    INSERT INTO stock_reservations (reservation_id, variant_id, quantity, expires_at)
+    VALUES (p_reservation_id, v.id, qty, p_expires_at);
+
+    held := held + 1;
+  END LOOP;
+
+  RETURN held;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_stock(uuid, jsonb, timestamptz) FROM PUBLIC, anon, authenticated;
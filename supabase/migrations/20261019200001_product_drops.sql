@@ -0,0 +1,45 @@
+-- ============================================
+-- SCHEDULED DROPS — publish windows for products and collections
+-- ============================================
+-- A product (app_shop_products) or a whole collection (categories) can be
+-- scheduled instead of simply switched on:
+--   early_access_at → signed-in members can see and buy it
+--   publish_at      → live for everyone
+--   unpublish_at    → gone again
+-- NULL means "no limit" — products without a schedule behave as before and
+-- is_active stays the master switch. A product inside a scheduled collection
+-- gets the later publish and the earlier unpublish of the two
+-- (lib/catalog/schedule.ts). Planned from /admin/drops.
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+ALTER TABLE app_shop_products
+  ADD COLUMN IF NOT EXISTS publish_at      timestamptz,
+  ADD COLUMN IF NOT EXISTS unpublish_at    timestamptz,
+  ADD COLUMN IF NOT EXISTS early_access_at timestamptz;
+
+ALTER TABLE categories
+  ADD COLUMN IF NOT EXISTS publish_at      timestamptz,
+  ADD COLUMN IF NOT EXISTS unpublish_at    timestamptz,
+  ADD COLUMN IF NOT EXISTS early_access_at timestamptz;
+
+-- Windows must run forwards; early access only makes sense before a publish date
+ALTER TABLE app_shop_products DROP CONSTRAINT IF EXISTS app_shop_products_drop_window_check;
+ALTER TABLE app_shop_products ADD CONSTRAINT app_shop_products_drop_window_check
+  CHECK (unpublish_at IS NULL OR publish_at IS NULL OR unpublish_at > publish_at);
+
+ALTER TABLE app_shop_products DROP CONSTRAINT IF EXISTS app_shop_products_early_access_check;
+ALTER TABLE app_shop_products ADD CONSTRAINT app_shop_products_early_access_check
+  CHECK (early_access_at IS NULL OR (publish_at IS NOT NULL AND early_access_at < publish_at));
+
+ALTER TABLE categories DROP CONSTRAINT IF EXISTS categories_drop_window_check;
+ALTER TABLE categories ADD CONSTRAINT categories_drop_window_check
+  CHECK (unpublish_at IS NULL OR publish_at IS NULL OR unpublish_at > publish_at);
+
+ALTER TABLE categories DROP CONSTRAINT IF EXISTS categories_early_access_check;
+ALTER TABLE categories ADD CONSTRAINT categories_early_access_check
+  CHECK (early_access_at IS NULL OR (publish_at IS NOT NULL AND early_access_at < publish_at));
+
+-- The drop calendar and the storefront both look up what's coming
+CREATE INDEX IF NOT EXISTS idx_shop_products_publish_at
+  ON app_shop_products (publish_at) WHERE publish_at IS NOT NULL;
@@ -0,0 +1,143 @@
+-- ============================================
+-- PRE-ORDERS & BACK-IN-STOCK ALERTS
+-- ============================================
+-- Pre-orders (per variant, app_shop_product_variants):
+--   preorder_enabled  → once a tracked variant is sold out it keeps selling
+--   preorder_ships_at → expected ship date, shown on the product, in Stripe
+--                       Checkout and on the order
+--   Pre-ordered units are still reserved and committed, so stock_quantity goes
+--   negative: a restock fills the pre-orders before anything shows as available.
+--   Orders containing a pre-order start in the 'preorder' status instead of
+--   'paid' (app_shop_orders.preorder_ships_at = the latest expected date).
+-- Back-in-stock alerts (back_in_stock_requests):
+--   pending   → signed up on a sold-out variant
+--   notified  → emailed once it was available again (lib/inventory/stock-alerts)
+--   cancelled → variant removed or turned off before it came back
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+-- 1. Variants
+ALTER TABLE app_shop_product_variants
+  ADD COLUMN IF NOT EXISTS preorder_enabled  boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS preorder_ships_at date;
+
+ALTER TABLE app_shop_product_variants DROP CONSTRAINT IF EXISTS app_shop_product_variants_preorder_check;
+ALTER TABLE app_shop_product_variants ADD CONSTRAINT app_shop_product_variants_preorder_check
+  CHECK (NOT preorder_enabled OR preorder_ships_at IS NOT NULL);
+
+-- 2. Orders
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS preorder_ships_at date;
+
+ALTER TABLE app_shop_orders DROP CONSTRAINT IF EXISTS app_shop_orders_status_check;
+ALTER TABLE app_shop_orders ADD CONSTRAINT app_shop_orders_status_check
+  CHECK (status IN ('preorder', 'paid', 'processing', 'ready_for_pickup', 'shipped', 'delivered', 'archived', 'refunded', 'partially_refunded'));
+
+-- 3. Back-in-stock requests
+CREATE TABLE IF NOT EXISTS back_in_stock_requests (
+  id            uuid          DEFAULT gen_random_uuid() PRIMARY KEY,
+  variant_id    uuid          NOT NULL REFERENCES app_shop_product_variants(id) ON DELETE CASCADE,
+  product_id    uuid          NOT NULL REFERENCES app_shop_products(id) ON DELETE CASCADE,
+  email         text          NOT NULL,
+  user_id       uuid,
+  status        text          NOT NULL DEFAULT 'pending'
+                CHECK (status IN ('pending', 'notified', 'cancelled')),
+  created_at    timestamptz   DEFAULT now(),
+  notified_at   timestamptz
+);
+
+-- One open request per variant and address
+CREATE UNIQUE INDEX IF NOT EXISTS idx_back_in_stock_pending_unique
+  ON back_in_stock_requests (variant_id, lower(email)) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_back_in_stock_status ON back_in_stock_requests (status, variant_id);
+
+ALTER TABLE back_in_stock_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service role only" ON back_in_stock_requests;
+CREATE POLICY "service role only" ON back_in_stock_requests
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- 4. Reserve all tracked lines of a cart, or none.
+-- p_items: [{ variant_id?, product_id, size, color, quantity, preorder? }]
+-- Lines flagged preorder skip the availability check when their variant takes
+-- pre-orders; everything else raises
+-- 'OUT_OF_STOCK:<product_id>:<size>:<color>:<available>' when it can't be held.
+CREATE OR REPLACE FUNCTION public.reserve_stock(
+  p_reservation_id uuid,
+  p_items jsonb,
+  p_expires_at timestamptz
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  item jsonb;
+  v app_shop_product_variants%ROWTYPE;
+  qty integer;
+  held integer := 0;
+BEGIN
+  PERFORM release_expired_stock_reservations();
+
+  -- Lock variants in a stable order so concurrent checkouts can't deadlock
+  FOR item IN
+    SELECT value FROM jsonb_array_elements(p_items)
+    ORDER BY value->>'product_id', value->>'size', value->>'color'
+  LOOP
+    qty := (item->>'quantity')::integer;
+
+    IF item->>'variant_id' IS NOT NULL THEN
+      SELECT * INTO v FROM app_shop_product_variants
+      WHERE id = (item->>'variant_id')::uuid
+      FOR UPDATE;
+    ELSE
+      SELECT * INTO v FROM app_shop_product_variants
+      WHERE product_id = (item->>'product_id')::uuid
+        AND size = COALESCE(item->>'size', '')
+        AND color = COALESCE(item->>'color', '')
+      FOR UPDATE;
+    END IF;
+
+    CONTINUE WHEN NOT FOUND OR NOT v.track_stock; -- untracked variant
+
+    IF v.stock_quantity - v.reserved_quantity < qty
+       AND NOT (v.preorder_enabled AND COALESCE((item->>'preorder')::boolean, false)) THEN
+      RAISE EXCEPTION 'OUT_OF_STOCK:%:%:%:%',
+        v.product_id, v.size, v.color, GREATEST(v.stock_quantity - v.reserved_quantity, 0);
+    END IF;
+
+    UPDATE app_shop_product_variants
+    SET reserved_quantity = reserved_quantity + qty
+    WHERE id = v.id;
+
+    INSERT INTO stock_reservations (reservation_id, variant_id, quantity, expires_at)
+    VALUES (p_reservation_id, v.id, qty, p_expires_at);
+
+    held := held + 1;
+  END LOOP;
+
+  RETURN held;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_stock(uuid, jsonb, timestamptz) FROM PUBLIC, anon, authenticated;
+
+-- 5. Receive (or correct) stock from the admin variant matrix.
+-- Relative, so a restock can't overwrite a sale committed at the same moment.
+CREATE OR REPLACE FUNCTION public.adjust_variant_stock(p_variant_id uuid, p_delta integer)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_quantity integer;
+BEGIN
+  UPDATE app_shop_product_variants
+  SET stock_quantity = stock_quantity + p_delta
+  WHERE id = p_variant_id
+  RETURNING stock_quantity INTO new_quantity;
+
+  RETURN new_quantity;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.adjust_variant_stock(uuid, integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,14 @@
+-- ============================================
+-- QUOTED vs STRIPE-COLLECTED ADDRESS
+-- ============================================
+-- Shipping is quoted for the postal code the customer typed before checkout,
+-- and Canadian sales tax charged for the province that postal code is in;
+-- Stripe Checkout then collects the real address. The webhook compares the
+-- two and records any difference here (lib/checkout/address-check.ts):
+--   address_mismatch → NULL when they agree, otherwise what differs,
+--                      e.g. 'Quoted for K1A0B1, shipping to V6B1A1; Taxed for ON, shipping to BC'
+-- Staff see it on the order and confirm before a label is bought.
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS address_mismatch text;
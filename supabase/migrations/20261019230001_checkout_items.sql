@@ -0,0 +1,22 @@
+-- ============================================
+-- CHECKOUT ITEMS — priced cart lines behind a Checkout Session
+-- ============================================
+-- Stripe caps each metadata value at 500 characters, which a cart of two or
+-- three lines (variant, SKU, options, image, weight…) overflows. Checkout
+-- stores the lines here and puts only the row id in the session metadata
+-- (items_ref); the webhook turns them into app_shop_orders.items.
+-- Sessions created before this keep their lines in metadata.items_detail.
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS checkout_items (
+  id          uuid          PRIMARY KEY,
+  items       jsonb         NOT NULL,
+  created_at  timestamptz   DEFAULT now()
+);
+
+ALTER TABLE checkout_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service role only" ON checkout_items;
+CREATE POLICY "service role only" ON checkout_items
+  FOR ALL USING (auth.role() = 'service_role');
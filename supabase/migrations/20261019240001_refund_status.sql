@@ -0,0 +1,29 @@
+-- ============================================
+-- REFUND STATUS, SEPARATE FROM FULFILMENT
+-- ============================================
+-- Refunds used to overwrite app_shop_orders.status, so a partially refunded
+-- order dropped out of the shipping queue and the tracking poller. They are
+-- now recorded beside it (lib/orders/stripe-sync.ts):
+--   refund_status → NULL, 'partially_refunded' or 'refunded'
+-- and status keeps following the parcel. Orders already moved to a refund
+-- status get their fulfilment status back from their timestamps.
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+ALTER TABLE app_shop_orders ADD COLUMN IF NOT EXISTS refund_status text
+  CHECK (refund_status IN ('refunded', 'partially_refunded'));
+
+UPDATE app_shop_orders
+SET refund_status = status,
+    status = CASE
+      WHEN delivered_at IS NOT NULL THEN 'delivered'
+      WHEN shipped_at IS NOT NULL THEN 'shipped'
+      WHEN ready_at IS NOT NULL THEN 'ready_for_pickup'
+      WHEN processing_at IS NOT NULL THEN 'processing'
+      WHEN preorder_ships_at IS NOT NULL THEN 'preorder'
+      ELSE 'paid'
+    END
+WHERE status IN ('refunded', 'partially_refunded');
+
+CREATE INDEX IF NOT EXISTS idx_shop_orders_refund_status
+  ON app_shop_orders (refund_status) WHERE refund_status IS NOT NULL;
@@ -0,0 +1,23 @@
+-- ============================================
+-- MARKETING SUPPRESSIONS — CASL unsubscribes
+-- ============================================
+-- Cart recovery emails are commercial messages, so each one carries an
+-- unsubscribe link (/cart/unsubscribe, plus the List-Unsubscribe header).
+-- Using it records the address here; the recovery sender skips every
+-- address in this table (lib/checkout/cart-recovery.ts).
+--   email  → lower-cased
+--   source → where the unsubscribe came from, e.g. 'cart_recovery'
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS marketing_suppressions (
+  email       text          PRIMARY KEY,
+  source      text          NOT NULL,
+  created_at  timestamptz   DEFAULT now()
+);
+
+ALTER TABLE marketing_suppressions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service role only" ON marketing_suppressions;
+CREATE POLICY "service role only" ON marketing_suppressions
+  FOR ALL USING (auth.role() = 'service_role');
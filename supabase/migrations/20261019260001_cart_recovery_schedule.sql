@@ -0,0 +1,28 @@
+-- ============================================
+-- CART RECOVERY — WHEN THE NEXT EMAIL IS DUE
+-- ============================================
+-- The recovery cron used to read the oldest abandoned carts and skip the ones
+-- not due yet, so a backlog waiting on its 24h/72h email hid newer carts
+-- from every run. Each abandoned cart now records when its next email is due
+-- (lib/checkout/cart-recovery.ts, RECOVERY_SCHEDULE_HOURS):
+--   next_recovery_at → abandoned_at + the next step's delay; NULL once the
+--                      sequence is over
+-- and the cron asks only for carts whose time has come, soonest first.
+-- SAFE TO RUN MULTIPLE TIMES.
+-- ============================================
+
+ALTER TABLE temp_carts ADD COLUMN IF NOT EXISTS next_recovery_at TIMESTAMPTZ;
+
+-- Carts already in the sequence
+UPDATE temp_carts
+SET next_recovery_at = abandoned_at + CASE recovery_emails_sent
+    WHEN 0 THEN INTERVAL '1 hour'
+    WHEN 1 THEN INTERVAL '24 hours'
+    ELSE INTERVAL '72 hours'
+  END
+WHERE status = 'abandoned'
+  AND abandoned_at IS NOT NULL
+  AND recovery_emails_sent < 3
+  AND next_recovery_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_temp_carts_next_recovery ON temp_carts(next_recovery_at) WHERE status = 'abandoned';